@@ -0,0 +1,2225 @@
+grammar es6;
+
+identifierReference
+    : identifier
+    | 'yield'
+    ;
+
+identifierReference_Yield
+    : identifier
+    ;
+
+bindingIdentifier
+    : identifier
+    | 'yield'
+    ;
+
+bindingIdentifier_Yield
+    : identifier
+    ;
+
+labelIdentifier
+    : identifier
+    | 'yield'
+    ;
+
+labelIdentifier_Yield
+    : identifier
+    ;
+
+identifier
+    : IdentifierName
+    ;
+
+primaryExpression
+    : 'this'
+    | identifierReference
+    | literal
+    | arrayLiteral
+    | objectLiteral
+    | functionExpression
+    | classExpression
+    | generatorExpression
+    | RegularExpressionLiteral
+    | templateLiteral
+    | coverParenthesizedExpressionAndArrowParameterList
+    ;
+
+primaryExpression_Yield
+    : 'this'
+    | identifierReference_Yield
+    | literal
+    | arrayLiteral_Yield
+    | objectLiteral_Yield
+    | functionExpression
+    | classExpression_Yield
+    | generatorExpression
+    | RegularExpressionLiteral
+    | templateLiteral_Yield
+    | coverParenthesizedExpressionAndArrowParameterList_Yield
+    ;
+
+coverParenthesizedExpressionAndArrowParameterList
+    : '(' expression_In ')'
+    | '(' ')'
+    | '(' '...' bindingIdentifier ')'
+    | '(' expression_In ',' '...' bindingIdentifier ')'
+    ;
+
+coverParenthesizedExpressionAndArrowParameterList_Yield
+    : '(' expression_In_Yield ')'
+    | '(' ')'
+    | '(' '...' bindingIdentifier_Yield ')'
+    | '(' expression_In_Yield ',' '...' bindingIdentifier_Yield ')'
+    ;
+
+literal
+    : NullLiteral
+    | BooleanLiteral
+    | NumericLiteral
+    | StringLiteral
+    ;
+
+arrayLiteral
+    : '[' elision? ']'
+    | '[' elementList ']'
+    | '[' elementList ',' elision? ']'
+    ;
+
+arrayLiteral_Yield
+    : '[' elision? ']'
+    | '[' elementList_Yield ']'
+    | '[' elementList_Yield ',' elision? ']'
+    ;
+
+elementList
+    : elision? assignmentExpression_In
+    | elision? spreadElement
+    | elementList ',' elision? assignmentExpression_In
+    | elementList ',' elision? spreadElement
+    ;
+
+elementList_Yield
+    : elision? assignmentExpression_In_Yield
+    | elision? spreadElement_Yield
+    | elementList_Yield ',' elision? assignmentExpression_In_Yield
+    | elementList_Yield ',' elision? spreadElement_Yield
+    ;
+
+elision
+    : ','
+    | elision ','
+    ;
+
+spreadElement
+    : '...' assignmentExpression_In
+    ;
+
+spreadElement_Yield
+    : '...' assignmentExpression_In_Yield
+    ;
+
+objectLiteral
+    : '{' '}'
+    | '{' propertyDefinitionList '}'
+    | '{' propertyDefinitionList ',' '}'
+    ;
+
+objectLiteral_Yield
+    : '{' '}'
+    | '{' propertyDefinitionList_Yield '}'
+    | '{' propertyDefinitionList_Yield ',' '}'
+    ;
+
+propertyDefinitionList
+    : propertyDefinition
+    | propertyDefinitionList ',' propertyDefinition
+    ;
+
+propertyDefinitionList_Yield
+    : propertyDefinition_Yield
+    | propertyDefinitionList_Yield ',' propertyDefinition_Yield
+    ;
+
+propertyDefinition
+    : identifierReference
+    | coverInitializedName
+    | propertyName ':' assignmentExpression_In
+    | methodDefinition
+    ;
+
+propertyDefinition_Yield
+    : identifierReference_Yield
+    | coverInitializedName_Yield
+    | propertyName_Yield ':' assignmentExpression_In_Yield
+    | methodDefinition_Yield
+    ;
+
+propertyName
+    : literalPropertyName
+    | computedPropertyName
+    ;
+
+propertyName_Yield
+    : literalPropertyName
+    | computedPropertyName_Yield
+    ;
+
+literalPropertyName
+    : IdentifierName
+    | StringLiteral
+    | NumericLiteral
+    ;
+
+computedPropertyName
+    : '[' assignmentExpression_In ']'
+    ;
+
+computedPropertyName_Yield
+    : '[' assignmentExpression_In_Yield ']'
+    ;
+
+coverInitializedName
+    : identifierReference initializer_In
+    ;
+
+coverInitializedName_Yield
+    : identifierReference_Yield initializer_In_Yield
+    ;
+
+initializer
+    : '=' assignmentExpression
+    ;
+
+initializer_In
+    : '=' assignmentExpression_In
+    ;
+
+initializer_Yield
+    : '=' assignmentExpression_Yield
+    ;
+
+initializer_In_Yield
+    : '=' assignmentExpression_In_Yield
+    ;
+
+templateLiteral
+    : NoSubstitutionTemplate
+    | TemplateHead expression_In templateSpans
+    ;
+
+templateLiteral_Yield
+    : NoSubstitutionTemplate
+    | TemplateHead expression_In_Yield templateSpans_Yield
+    ;
+
+templateSpans
+    : TemplateTail
+    | templateMiddleList TemplateTail
+    ;
+
+templateSpans_Yield
+    : TemplateTail
+    | templateMiddleList_Yield TemplateTail
+    ;
+
+templateMiddleList
+    : TemplateMiddle expression_In
+    | templateMiddleList TemplateMiddle expression_In
+    ;
+
+templateMiddleList_Yield
+    : TemplateMiddle expression_In_Yield
+    | templateMiddleList_Yield TemplateMiddle expression_In_Yield
+    ;
+
+memberExpression
+    : primaryExpression
+    | memberExpression '[' expression_In ']'
+    | memberExpression '.' IdentifierName
+    | memberExpression templateLiteral
+    | superProperty
+    | metaProperty
+    | 'new' memberExpression arguments
+    ;
+
+memberExpression_Yield
+    : primaryExpression_Yield
+    | memberExpression_Yield '[' expression_In_Yield ']'
+    | memberExpression_Yield '.' IdentifierName
+    | memberExpression_Yield templateLiteral_Yield
+    | superProperty_Yield
+    | metaProperty
+    | 'new' memberExpression_Yield arguments_Yield
+    ;
+
+superProperty
+    : 'super' '[' expression_In ']'
+    | 'super' '.' IdentifierName
+    ;
+
+superProperty_Yield
+    : 'super' '[' expression_In_Yield ']'
+    | 'super' '.' IdentifierName
+    ;
+
+metaProperty
+    : newTarget
+    ;
+
+newTarget
+    : 'new' '.' 'target'
+    ;
+
+newExpression
+    : memberExpression
+    | 'new' newExpression
+    ;
+
+newExpression_Yield
+    : memberExpression_Yield
+    | 'new' newExpression_Yield
+    ;
+
+callExpression
+    : memberExpression arguments
+    | superCall
+    | callExpression arguments
+    | callExpression '[' expression_In ']'
+    | callExpression '.' IdentifierName
+    | callExpression templateLiteral
+    ;
+
+callExpression_Yield
+    : memberExpression_Yield arguments_Yield
+    | superCall_Yield
+    | callExpression_Yield arguments_Yield
+    | callExpression_Yield '[' expression_In_Yield ']'
+    | callExpression_Yield '.' IdentifierName
+    | callExpression_Yield templateLiteral_Yield
+    ;
+
+superCall
+    : 'super' arguments
+    ;
+
+superCall_Yield
+    : 'super' arguments_Yield
+    ;
+
+arguments
+    : '(' ')'
+    | '(' argumentList ')'
+    ;
+
+arguments_Yield
+    : '(' ')'
+    | '(' argumentList_Yield ')'
+    ;
+
+argumentList
+    : assignmentExpression_In
+    | '...' assignmentExpression_In
+    | argumentList ',' assignmentExpression_In
+    | argumentList ',' '...' assignmentExpression_In
+    ;
+
+argumentList_Yield
+    : assignmentExpression_In_Yield
+    | '...' assignmentExpression_In_Yield
+    | argumentList_Yield ',' assignmentExpression_In_Yield
+    | argumentList_Yield ',' '...' assignmentExpression_In_Yield
+    ;
+
+leftHandSideExpression
+    : newExpression
+    | callExpression
+    ;
+
+leftHandSideExpression_Yield
+    : newExpression_Yield
+    | callExpression_Yield
+    ;
+
+postfixExpression
+    : leftHandSideExpression
+    | leftHandSideExpression '++'
+    | leftHandSideExpression '--'
+    ;
+
+postfixExpression_Yield
+    : leftHandSideExpression_Yield
+    | leftHandSideExpression_Yield '++'
+    | leftHandSideExpression_Yield '--'
+    ;
+
+unaryExpression
+    : postfixExpression
+    | 'delete' unaryExpression
+    | 'void' unaryExpression
+    | 'typeof' unaryExpression
+    | '++' unaryExpression
+    | '--' unaryExpression
+    | '+' unaryExpression
+    | '-' unaryExpression
+    | '~' unaryExpression
+    | '!' unaryExpression
+    ;
+
+unaryExpression_Yield
+    : postfixExpression_Yield
+    | 'delete' unaryExpression_Yield
+    | 'void' unaryExpression_Yield
+    | 'typeof' unaryExpression_Yield
+    | '++' unaryExpression_Yield
+    | '--' unaryExpression_Yield
+    | '+' unaryExpression_Yield
+    | '-' unaryExpression_Yield
+    | '~' unaryExpression_Yield
+    | '!' unaryExpression_Yield
+    ;
+
+multiplicativeExpression
+    : unaryExpression
+    | multiplicativeExpression multiplicativeOperator unaryExpression
+    ;
+
+multiplicativeExpression_Yield
+    : unaryExpression_Yield
+    | multiplicativeExpression_Yield multiplicativeOperator unaryExpression_Yield
+    ;
+
+multiplicativeOperator
+    : '*'
+    | '/'
+    | '%'
+    ;
+
+additiveExpression
+    : multiplicativeExpression
+    | additiveExpression '+' multiplicativeExpression
+    | additiveExpression '-' multiplicativeExpression
+    ;
+
+additiveExpression_Yield
+    : multiplicativeExpression_Yield
+    | additiveExpression_Yield '+' multiplicativeExpression_Yield
+    | additiveExpression_Yield '-' multiplicativeExpression_Yield
+    ;
+
+shiftExpression
+    : additiveExpression
+    | shiftExpression '<<' additiveExpression
+    | shiftExpression '>>' additiveExpression
+    | shiftExpression '>>>' additiveExpression
+    ;
+
+shiftExpression_Yield
+    : additiveExpression_Yield
+    | shiftExpression_Yield '<<' additiveExpression_Yield
+    | shiftExpression_Yield '>>' additiveExpression_Yield
+    | shiftExpression_Yield '>>>' additiveExpression_Yield
+    ;
+
+relationalExpression
+    : shiftExpression
+    | relationalExpression '<' shiftExpression
+    | relationalExpression '>' shiftExpression
+    | relationalExpression '<=' shiftExpression
+    | relationalExpression '>=' shiftExpression
+    | relationalExpression 'instanceof' shiftExpression
+    ;
+
+relationalExpression_In
+    : shiftExpression
+    | relationalExpression_In '<' shiftExpression
+    | relationalExpression_In '>' shiftExpression
+    | relationalExpression_In '<=' shiftExpression
+    | relationalExpression_In '>=' shiftExpression
+    | relationalExpression_In 'instanceof' shiftExpression
+    | relationalExpression_In 'in' shiftExpression
+    ;
+
+relationalExpression_Yield
+    : shiftExpression_Yield
+    | relationalExpression_Yield '<' shiftExpression_Yield
+    | relationalExpression_Yield '>' shiftExpression_Yield
+    | relationalExpression_Yield '<=' shiftExpression_Yield
+    | relationalExpression_Yield '>=' shiftExpression_Yield
+    | relationalExpression_Yield 'instanceof' shiftExpression_Yield
+    ;
+
+relationalExpression_In_Yield
+    : shiftExpression_Yield
+    | relationalExpression_In_Yield '<' shiftExpression_Yield
+    | relationalExpression_In_Yield '>' shiftExpression_Yield
+    | relationalExpression_In_Yield '<=' shiftExpression_Yield
+    | relationalExpression_In_Yield '>=' shiftExpression_Yield
+    | relationalExpression_In_Yield 'instanceof' shiftExpression_Yield
+    | relationalExpression_In_Yield 'in' shiftExpression_Yield
+    ;
+
+equalityExpression
+    : relationalExpression
+    | equalityExpression '==' relationalExpression
+    | equalityExpression '!=' relationalExpression
+    | equalityExpression '===' relationalExpression
+    | equalityExpression '!==' relationalExpression
+    ;
+
+equalityExpression_In
+    : relationalExpression_In
+    | equalityExpression_In '==' relationalExpression_In
+    | equalityExpression_In '!=' relationalExpression_In
+    | equalityExpression_In '===' relationalExpression_In
+    | equalityExpression_In '!==' relationalExpression_In
+    ;
+
+equalityExpression_Yield
+    : relationalExpression_Yield
+    | equalityExpression_Yield '==' relationalExpression_Yield
+    | equalityExpression_Yield '!=' relationalExpression_Yield
+    | equalityExpression_Yield '===' relationalExpression_Yield
+    | equalityExpression_Yield '!==' relationalExpression_Yield
+    ;
+
+equalityExpression_In_Yield
+    : relationalExpression_In_Yield
+    | equalityExpression_In_Yield '==' relationalExpression_In_Yield
+    | equalityExpression_In_Yield '!=' relationalExpression_In_Yield
+    | equalityExpression_In_Yield '===' relationalExpression_In_Yield
+    | equalityExpression_In_Yield '!==' relationalExpression_In_Yield
+    ;
+
+bitwiseANDExpression
+    : equalityExpression
+    | bitwiseANDExpression '&' equalityExpression
+    ;
+
+bitwiseANDExpression_In
+    : equalityExpression_In
+    | bitwiseANDExpression_In '&' equalityExpression_In
+    ;
+
+bitwiseANDExpression_Yield
+    : equalityExpression_Yield
+    | bitwiseANDExpression_Yield '&' equalityExpression_Yield
+    ;
+
+bitwiseANDExpression_In_Yield
+    : equalityExpression_In_Yield
+    | bitwiseANDExpression_In_Yield '&' equalityExpression_In_Yield
+    ;
+
+bitwiseXORExpression
+    : bitwiseANDExpression
+    | bitwiseXORExpression '^' bitwiseANDExpression
+    ;
+
+bitwiseXORExpression_In
+    : bitwiseANDExpression_In
+    | bitwiseXORExpression_In '^' bitwiseANDExpression_In
+    ;
+
+bitwiseXORExpression_Yield
+    : bitwiseANDExpression_Yield
+    | bitwiseXORExpression_Yield '^' bitwiseANDExpression_Yield
+    ;
+
+bitwiseXORExpression_In_Yield
+    : bitwiseANDExpression_In_Yield
+    | bitwiseXORExpression_In_Yield '^' bitwiseANDExpression_In_Yield
+    ;
+
+bitwiseORExpression
+    : bitwiseXORExpression
+    | bitwiseORExpression '|' bitwiseXORExpression
+    ;
+
+bitwiseORExpression_In
+    : bitwiseXORExpression_In
+    | bitwiseORExpression_In '|' bitwiseXORExpression_In
+    ;
+
+bitwiseORExpression_Yield
+    : bitwiseXORExpression_Yield
+    | bitwiseORExpression_Yield '|' bitwiseXORExpression_Yield
+    ;
+
+bitwiseORExpression_In_Yield
+    : bitwiseXORExpression_In_Yield
+    | bitwiseORExpression_In_Yield '|' bitwiseXORExpression_In_Yield
+    ;
+
+logicalANDExpression
+    : bitwiseORExpression
+    | logicalANDExpression '&&' bitwiseORExpression
+    ;
+
+logicalANDExpression_In
+    : bitwiseORExpression_In
+    | logicalANDExpression_In '&&' bitwiseORExpression_In
+    ;
+
+logicalANDExpression_Yield
+    : bitwiseORExpression_Yield
+    | logicalANDExpression_Yield '&&' bitwiseORExpression_Yield
+    ;
+
+logicalANDExpression_In_Yield
+    : bitwiseORExpression_In_Yield
+    | logicalANDExpression_In_Yield '&&' bitwiseORExpression_In_Yield
+    ;
+
+logicalORExpression
+    : logicalANDExpression
+    | logicalORExpression '||' logicalANDExpression
+    ;
+
+logicalORExpression_In
+    : logicalANDExpression_In
+    | logicalORExpression_In '||' logicalANDExpression_In
+    ;
+
+logicalORExpression_Yield
+    : logicalANDExpression_Yield
+    | logicalORExpression_Yield '||' logicalANDExpression_Yield
+    ;
+
+logicalORExpression_In_Yield
+    : logicalANDExpression_In_Yield
+    | logicalORExpression_In_Yield '||' logicalANDExpression_In_Yield
+    ;
+
+conditionalExpression
+    : logicalORExpression
+    | logicalORExpression '?' assignmentExpression_In ':' assignmentExpression
+    ;
+
+conditionalExpression_In
+    : logicalORExpression_In
+    | logicalORExpression_In '?' assignmentExpression_In ':' assignmentExpression_In
+    ;
+
+conditionalExpression_Yield
+    : logicalORExpression_Yield
+    | logicalORExpression_Yield '?' assignmentExpression_In_Yield ':' assignmentExpression_Yield
+    ;
+
+conditionalExpression_In_Yield
+    : logicalORExpression_In_Yield
+    | logicalORExpression_In_Yield '?' assignmentExpression_In_Yield ':' assignmentExpression_In_Yield
+    ;
+
+assignmentExpression
+    : conditionalExpression
+    | arrowFunction
+    | leftHandSideExpression '=' assignmentExpression
+    | leftHandSideExpression assignmentOperator assignmentExpression
+    ;
+
+assignmentExpression_In
+    : conditionalExpression_In
+    | arrowFunction_In
+    | leftHandSideExpression '=' assignmentExpression_In
+    | leftHandSideExpression assignmentOperator assignmentExpression_In
+    ;
+
+assignmentExpression_Yield
+    : conditionalExpression_Yield
+    | yieldExpression
+    | arrowFunction_Yield
+    | leftHandSideExpression_Yield '=' assignmentExpression_Yield
+    | leftHandSideExpression_Yield assignmentOperator assignmentExpression_Yield
+    ;
+
+assignmentExpression_In_Yield
+    : conditionalExpression_In_Yield
+    | yieldExpression_In
+    | arrowFunction_In_Yield
+    | leftHandSideExpression_Yield '=' assignmentExpression_In_Yield
+    | leftHandSideExpression_Yield assignmentOperator assignmentExpression_In_Yield
+    ;
+
+assignmentOperator
+    : '*='
+    | '/='
+    | '%='
+    | '+='
+    | '-='
+    | '<<='
+    | '>>='
+    | '>>>='
+    | '&='
+    | '^='
+    | '|='
+    ;
+
+expression
+    : assignmentExpression
+    | expression ',' assignmentExpression
+    ;
+
+expression_In
+    : assignmentExpression_In
+    | expression_In ',' assignmentExpression_In
+    ;
+
+expression_Yield
+    : assignmentExpression_Yield
+    | expression_Yield ',' assignmentExpression_Yield
+    ;
+
+expression_In_Yield
+    : assignmentExpression_In_Yield
+    | expression_In_Yield ',' assignmentExpression_In_Yield
+    ;
+
+statement
+    : blockStatement
+    | variableStatement
+    | emptyStatement
+    | expressionStatement
+    | ifStatement
+    | breakableStatement
+    | continueStatement
+    | breakStatement
+    | withStatement
+    | labelledStatement
+    | throwStatement
+    | tryStatement
+    | debuggerStatement
+    ;
+
+statement_Return
+    : blockStatement_Return
+    | variableStatement
+    | emptyStatement
+    | expressionStatement
+    | ifStatement_Return
+    | breakableStatement_Return
+    | continueStatement
+    | breakStatement
+    | returnStatement
+    | withStatement_Return
+    | labelledStatement_Return
+    | throwStatement
+    | tryStatement_Return
+    | debuggerStatement
+    ;
+
+statement_Yield_Return
+    : blockStatement_Yield_Return
+    | variableStatement_Yield
+    | emptyStatement
+    | expressionStatement_Yield
+    | ifStatement_Yield_Return
+    | breakableStatement_Yield_Return
+    | continueStatement_Yield
+    | breakStatement_Yield
+    | returnStatement_Yield
+    | withStatement_Yield_Return
+    | labelledStatement_Yield_Return
+    | throwStatement_Yield
+    | tryStatement_Yield_Return
+    | debuggerStatement
+    ;
+
+declaration
+    : hoistableDeclaration
+    | classDeclaration
+    | lexicalDeclaration_In
+    ;
+
+declaration_Yield
+    : hoistableDeclaration_Yield
+    | classDeclaration_Yield
+    | lexicalDeclaration_In_Yield
+    ;
+
+hoistableDeclaration
+    : functionDeclaration
+    | generatorDeclaration
+    ;
+
+hoistableDeclaration_Yield
+    : functionDeclaration_Yield
+    | generatorDeclaration_Yield
+    ;
+
+hoistableDeclaration_Default
+    : functionDeclaration_Default
+    | generatorDeclaration_Default
+    ;
+
+breakableStatement
+    : iterationStatement
+    | switchStatement
+    ;
+
+breakableStatement_Return
+    : iterationStatement_Return
+    | switchStatement_Return
+    ;
+
+breakableStatement_Yield_Return
+    : iterationStatement_Yield_Return
+    | switchStatement_Yield_Return
+    ;
+
+blockStatement
+    : block
+    ;
+
+blockStatement_Return
+    : block_Return
+    ;
+
+blockStatement_Yield_Return
+    : block_Yield_Return
+    ;
+
+block
+    : '{' statementList? '}'
+    ;
+
+block_Return
+    : '{' statementList_Return? '}'
+    ;
+
+block_Yield_Return
+    : '{' statementList_Yield_Return? '}'
+    ;
+
+statementList
+    : statementListItem
+    | statementList statementListItem
+    ;
+
+statementList_Return
+    : statementListItem_Return
+    | statementList_Return statementListItem_Return
+    ;
+
+statementList_Yield_Return
+    : statementListItem_Yield_Return
+    | statementList_Yield_Return statementListItem_Yield_Return
+    ;
+
+statementListItem
+    : statement
+    | declaration
+    ;
+
+statementListItem_Return
+    : statement_Return
+    | declaration
+    ;
+
+statementListItem_Yield_Return
+    : statement_Yield_Return
+    | declaration_Yield
+    ;
+
+lexicalDeclaration
+    : letOrConst bindingList ';'
+    ;
+
+lexicalDeclaration_In
+    : letOrConst bindingList_In ';'
+    ;
+
+lexicalDeclaration_Yield
+    : letOrConst bindingList_Yield ';'
+    ;
+
+lexicalDeclaration_In_Yield
+    : letOrConst bindingList_In_Yield ';'
+    ;
+
+letOrConst
+    : 'let'
+    | 'const'
+    ;
+
+bindingList
+    : lexicalBinding
+    | bindingList ',' lexicalBinding
+    ;
+
+bindingList_In
+    : lexicalBinding_In
+    | bindingList_In ',' lexicalBinding_In
+    ;
+
+bindingList_Yield
+    : lexicalBinding_Yield
+    | bindingList_Yield ',' lexicalBinding_Yield
+    ;
+
+bindingList_In_Yield
+    : lexicalBinding_In_Yield
+    | bindingList_In_Yield ',' lexicalBinding_In_Yield
+    ;
+
+lexicalBinding
+    : bindingIdentifier initializer?
+    | bindingPattern initializer
+    ;
+
+lexicalBinding_In
+    : bindingIdentifier initializer_In?
+    | bindingPattern initializer_In
+    ;
+
+lexicalBinding_Yield
+    : bindingIdentifier_Yield initializer_Yield?
+    | bindingPattern_Yield initializer_Yield
+    ;
+
+lexicalBinding_In_Yield
+    : bindingIdentifier_Yield initializer_In_Yield?
+    | bindingPattern_Yield initializer_In_Yield
+    ;
+
+variableStatement
+    : 'var' variableDeclarationList_In ';'
+    ;
+
+variableStatement_Yield
+    : 'var' variableDeclarationList_In_Yield ';'
+    ;
+
+variableDeclarationList
+    : variableDeclaration
+    | variableDeclarationList ',' variableDeclaration
+    ;
+
+variableDeclarationList_In
+    : variableDeclaration_In
+    | variableDeclarationList_In ',' variableDeclaration_In
+    ;
+
+variableDeclarationList_Yield
+    : variableDeclaration_Yield
+    | variableDeclarationList_Yield ',' variableDeclaration_Yield
+    ;
+
+variableDeclarationList_In_Yield
+    : variableDeclaration_In_Yield
+    | variableDeclarationList_In_Yield ',' variableDeclaration_In_Yield
+    ;
+
+variableDeclaration
+    : bindingIdentifier initializer?
+    | bindingPattern initializer
+    ;
+
+variableDeclaration_In
+    : bindingIdentifier initializer_In?
+    | bindingPattern initializer_In
+    ;
+
+variableDeclaration_Yield
+    : bindingIdentifier_Yield initializer_Yield?
+    | bindingPattern_Yield initializer_Yield
+    ;
+
+variableDeclaration_In_Yield
+    : bindingIdentifier_Yield initializer_In_Yield?
+    | bindingPattern_Yield initializer_In_Yield
+    ;
+
+bindingPattern
+    : objectBindingPattern
+    | arrayBindingPattern
+    ;
+
+bindingPattern_Yield
+    : objectBindingPattern_Yield
+    | arrayBindingPattern_Yield
+    ;
+
+objectBindingPattern
+    : '{' '}'
+    | '{' bindingPropertyList '}'
+    | '{' bindingPropertyList ',' '}'
+    ;
+
+objectBindingPattern_Yield
+    : '{' '}'
+    | '{' bindingPropertyList_Yield '}'
+    | '{' bindingPropertyList_Yield ',' '}'
+    ;
+
+arrayBindingPattern
+    : '[' elision? bindingRestElement? ']'
+    | '[' bindingElementList ']'
+    | '[' bindingElementList ',' elision? bindingRestElement? ']'
+    ;
+
+arrayBindingPattern_Yield
+    : '[' elision? bindingRestElement_Yield? ']'
+    | '[' bindingElementList_Yield ']'
+    | '[' bindingElementList_Yield ',' elision? bindingRestElement_Yield? ']'
+    ;
+
+bindingPropertyList
+    : bindingProperty
+    | bindingPropertyList ',' bindingProperty
+    ;
+
+bindingPropertyList_Yield
+    : bindingProperty_Yield
+    | bindingPropertyList_Yield ',' bindingProperty_Yield
+    ;
+
+bindingElementList
+    : bindingElisionElement
+    | bindingElementList ',' bindingElisionElement
+    ;
+
+bindingElementList_Yield
+    : bindingElisionElement_Yield
+    | bindingElementList_Yield ',' bindingElisionElement_Yield
+    ;
+
+bindingElisionElement
+    : elision? bindingElement
+    ;
+
+bindingElisionElement_Yield
+    : elision? bindingElement_Yield
+    ;
+
+bindingProperty
+    : singleNameBinding
+    | propertyName ':' bindingElement
+    ;
+
+bindingProperty_Yield
+    : singleNameBinding_Yield
+    | propertyName_Yield ':' bindingElement_Yield
+    ;
+
+bindingElement
+    : singleNameBinding
+    | bindingPattern initializer_In?
+    ;
+
+bindingElement_Yield
+    : singleNameBinding_Yield
+    | bindingPattern_Yield initializer_In_Yield?
+    ;
+
+singleNameBinding
+    : bindingIdentifier initializer_In?
+    ;
+
+singleNameBinding_Yield
+    : bindingIdentifier_Yield initializer_In_Yield?
+    ;
+
+bindingRestElement
+    : '...' bindingIdentifier
+    ;
+
+bindingRestElement_Yield
+    : '...' bindingIdentifier_Yield
+    ;
+
+emptyStatement
+    : ';'
+    ;
+
+expressionStatement
+    : expression_In ';'
+    ;
+
+expressionStatement_Yield
+    : expression_In_Yield ';'
+    ;
+
+ifStatement
+    : 'if' '(' expression_In ')' statement 'else' statement
+    | 'if' '(' expression_In ')' statement
+    ;
+
+ifStatement_Return
+    : 'if' '(' expression_In ')' statement_Return 'else' statement_Return
+    | 'if' '(' expression_In ')' statement_Return
+    ;
+
+ifStatement_Yield_Return
+    : 'if' '(' expression_In_Yield ')' statement_Yield_Return 'else' statement_Yield_Return
+    | 'if' '(' expression_In_Yield ')' statement_Yield_Return
+    ;
+
+iterationStatement
+    : 'do' statement 'while' '(' expression_In ')' ';'
+    | 'while' '(' expression_In ')' statement
+    | 'for' '(' expression? ';' expression_In? ';' expression_In? ')' statement
+    | 'for' '(' 'var' variableDeclarationList ';' expression_In? ';' expression_In? ')' statement
+    | 'for' '(' lexicalDeclaration expression_In? ';' expression_In? ')' statement
+    | 'for' '(' leftHandSideExpression 'in' expression_In ')' statement
+    | 'for' '(' 'var' forBinding 'in' expression_In ')' statement
+    | 'for' '(' forDeclaration 'in' expression_In ')' statement
+    | 'for' '(' leftHandSideExpression 'of' assignmentExpression_In ')' statement
+    | 'for' '(' 'var' forBinding 'of' assignmentExpression_In ')' statement
+    | 'for' '(' forDeclaration 'of' assignmentExpression_In ')' statement
+    ;
+
+iterationStatement_Return
+    : 'do' statement_Return 'while' '(' expression_In ')' ';'
+    | 'while' '(' expression_In ')' statement_Return
+    | 'for' '(' expression? ';' expression_In? ';' expression_In? ')' statement_Return
+    | 'for' '(' 'var' variableDeclarationList ';' expression_In? ';' expression_In? ')' statement_Return
+    | 'for' '(' lexicalDeclaration expression_In? ';' expression_In? ')' statement_Return
+    | 'for' '(' leftHandSideExpression 'in' expression_In ')' statement_Return
+    | 'for' '(' 'var' forBinding 'in' expression_In ')' statement_Return
+    | 'for' '(' forDeclaration 'in' expression_In ')' statement_Return
+    | 'for' '(' leftHandSideExpression 'of' assignmentExpression_In ')' statement_Return
+    | 'for' '(' 'var' forBinding 'of' assignmentExpression_In ')' statement_Return
+    | 'for' '(' forDeclaration 'of' assignmentExpression_In ')' statement_Return
+    ;
+
+iterationStatement_Yield_Return
+    : 'do' statement_Yield_Return 'while' '(' expression_In_Yield ')' ';'
+    | 'while' '(' expression_In_Yield ')' statement_Yield_Return
+    | 'for' '(' expression_Yield? ';' expression_In_Yield? ';' expression_In_Yield? ')' statement_Yield_Return
+    | 'for' '(' 'var' variableDeclarationList_Yield ';' expression_In_Yield? ';' expression_In_Yield? ')' statement_Yield_Return
+    | 'for' '(' lexicalDeclaration_Yield expression_In_Yield? ';' expression_In_Yield? ')' statement_Yield_Return
+    | 'for' '(' leftHandSideExpression_Yield 'in' expression_In_Yield ')' statement_Yield_Return
+    | 'for' '(' 'var' forBinding_Yield 'in' expression_In_Yield ')' statement_Yield_Return
+    | 'for' '(' forDeclaration_Yield 'in' expression_In_Yield ')' statement_Yield_Return
+    | 'for' '(' leftHandSideExpression_Yield 'of' assignmentExpression_In_Yield ')' statement_Yield_Return
+    | 'for' '(' 'var' forBinding_Yield 'of' assignmentExpression_In_Yield ')' statement_Yield_Return
+    | 'for' '(' forDeclaration_Yield 'of' assignmentExpression_In_Yield ')' statement_Yield_Return
+    ;
+
+forDeclaration
+    : letOrConst forBinding
+    ;
+
+forDeclaration_Yield
+    : letOrConst forBinding_Yield
+    ;
+
+forBinding
+    : bindingIdentifier
+    | bindingPattern
+    ;
+
+forBinding_Yield
+    : bindingIdentifier_Yield
+    | bindingPattern_Yield
+    ;
+
+continueStatement
+    : 'continue' ';'
+    | 'continue' labelIdentifier ';'
+    ;
+
+continueStatement_Yield
+    : 'continue' ';'
+    | 'continue' labelIdentifier_Yield ';'
+    ;
+
+breakStatement
+    : 'break' ';'
+    | 'break' labelIdentifier ';'
+    ;
+
+breakStatement_Yield
+    : 'break' ';'
+    | 'break' labelIdentifier_Yield ';'
+    ;
+
+returnStatement
+    : 'return' ';'
+    | 'return' expression_In ';'
+    ;
+
+returnStatement_Yield
+    : 'return' ';'
+    | 'return' expression_In_Yield ';'
+    ;
+
+withStatement
+    : 'with' '(' expression_In ')' statement
+    ;
+
+withStatement_Return
+    : 'with' '(' expression_In ')' statement_Return
+    ;
+
+withStatement_Yield_Return
+    : 'with' '(' expression_In_Yield ')' statement_Yield_Return
+    ;
+
+switchStatement
+    : 'switch' '(' expression_In ')' caseBlock
+    ;
+
+switchStatement_Return
+    : 'switch' '(' expression_In ')' caseBlock_Return
+    ;
+
+switchStatement_Yield_Return
+    : 'switch' '(' expression_In_Yield ')' caseBlock_Yield_Return
+    ;
+
+caseBlock
+    : '{' caseClauses? '}'
+    | '{' caseClauses? defaultClause caseClauses? '}'
+    ;
+
+caseBlock_Return
+    : '{' caseClauses_Return? '}'
+    | '{' caseClauses_Return? defaultClause_Return caseClauses_Return? '}'
+    ;
+
+caseBlock_Yield_Return
+    : '{' caseClauses_Yield_Return? '}'
+    | '{' caseClauses_Yield_Return? defaultClause_Yield_Return caseClauses_Yield_Return? '}'
+    ;
+
+caseClauses
+    : caseClause
+    | caseClauses caseClause
+    ;
+
+caseClauses_Return
+    : caseClause_Return
+    | caseClauses_Return caseClause_Return
+    ;
+
+caseClauses_Yield_Return
+    : caseClause_Yield_Return
+    | caseClauses_Yield_Return caseClause_Yield_Return
+    ;
+
+caseClause
+    : 'case' expression_In ':' statementList?
+    ;
+
+caseClause_Return
+    : 'case' expression_In ':' statementList_Return?
+    ;
+
+caseClause_Yield_Return
+    : 'case' expression_In_Yield ':' statementList_Yield_Return?
+    ;
+
+defaultClause
+    : 'default' ':' statementList?
+    ;
+
+defaultClause_Return
+    : 'default' ':' statementList_Return?
+    ;
+
+defaultClause_Yield_Return
+    : 'default' ':' statementList_Yield_Return?
+    ;
+
+labelledStatement
+    : labelIdentifier ':' labelledItem
+    ;
+
+labelledStatement_Return
+    : labelIdentifier ':' labelledItem_Return
+    ;
+
+labelledStatement_Yield_Return
+    : labelIdentifier_Yield ':' labelledItem_Yield_Return
+    ;
+
+labelledItem
+    : statement
+    | functionDeclaration
+    ;
+
+labelledItem_Return
+    : statement_Return
+    | functionDeclaration
+    ;
+
+labelledItem_Yield_Return
+    : statement_Yield_Return
+    | functionDeclaration_Yield
+    ;
+
+throwStatement
+    : 'throw' expression_In ';'
+    ;
+
+throwStatement_Yield
+    : 'throw' expression_In_Yield ';'
+    ;
+
+tryStatement
+    : 'try' block catch_
+    | 'try' block finally_
+    | 'try' block catch_ finally_
+    ;
+
+tryStatement_Return
+    : 'try' block_Return catch_Return
+    | 'try' block_Return finally_Return
+    | 'try' block_Return catch_Return finally_Return
+    ;
+
+tryStatement_Yield_Return
+    : 'try' block_Yield_Return catch_Yield_Return
+    | 'try' block_Yield_Return finally_Yield_Return
+    | 'try' block_Yield_Return catch_Yield_Return finally_Yield_Return
+    ;
+
+catch_
+    : 'catch' '(' catchParameter ')' block
+    ;
+
+catch_Return
+    : 'catch' '(' catchParameter ')' block_Return
+    ;
+
+catch_Yield_Return
+    : 'catch' '(' catchParameter_Yield ')' block_Yield_Return
+    ;
+
+finally_
+    : 'finally' block
+    ;
+
+finally_Return
+    : 'finally' block_Return
+    ;
+
+finally_Yield_Return
+    : 'finally' block_Yield_Return
+    ;
+
+catchParameter
+    : bindingIdentifier
+    | bindingPattern
+    ;
+
+catchParameter_Yield
+    : bindingIdentifier_Yield
+    | bindingPattern_Yield
+    ;
+
+debuggerStatement
+    : 'debugger' ';'
+    ;
+
+functionDeclaration
+    : 'function' bindingIdentifier '(' formalParameters ')' '{' functionBody '}'
+    ;
+
+functionDeclaration_Yield
+    : 'function' bindingIdentifier_Yield '(' formalParameters ')' '{' functionBody '}'
+    ;
+
+functionDeclaration_Default
+    : 'function' bindingIdentifier '(' formalParameters ')' '{' functionBody '}'
+    | 'function' '(' formalParameters ')' '{' functionBody '}'
+    ;
+
+functionExpression
+    : 'function' bindingIdentifier? '(' formalParameters ')' '{' functionBody '}'
+    ;
+
+strictFormalParameters
+    : formalParameters
+    ;
+
+strictFormalParameters_Yield
+    : formalParameters_Yield
+    ;
+
+formalParameters
+    :
+    | formalParameterList
+    ;
+
+formalParameters_Yield
+    :
+    | formalParameterList_Yield
+    ;
+
+formalParameterList
+    : functionRestParameter
+    | formalsList
+    | formalsList ',' functionRestParameter
+    ;
+
+formalParameterList_Yield
+    : functionRestParameter_Yield
+    | formalsList_Yield
+    | formalsList_Yield ',' functionRestParameter_Yield
+    ;
+
+formalsList
+    : formalParameter
+    | formalsList ',' formalParameter
+    ;
+
+formalsList_Yield
+    : formalParameter_Yield
+    | formalsList_Yield ',' formalParameter_Yield
+    ;
+
+functionRestParameter
+    : bindingRestElement
+    ;
+
+functionRestParameter_Yield
+    : bindingRestElement_Yield
+    ;
+
+formalParameter
+    : bindingElement
+    ;
+
+formalParameter_Yield
+    : bindingElement_Yield
+    ;
+
+functionBody
+    : functionStatementList
+    ;
+
+functionBody_Yield
+    : functionStatementList_Yield
+    ;
+
+functionStatementList
+    : statementList_Return?
+    ;
+
+functionStatementList_Yield
+    : statementList_Yield_Return?
+    ;
+
+arrowFunction
+    : arrowParameters '=>' conciseBody
+    ;
+
+arrowFunction_In
+    : arrowParameters '=>' conciseBody_In
+    ;
+
+arrowFunction_Yield
+    : arrowParameters_Yield '=>' conciseBody
+    ;
+
+arrowFunction_In_Yield
+    : arrowParameters_Yield '=>' conciseBody_In
+    ;
+
+arrowParameters
+    : bindingIdentifier
+    | coverParenthesizedExpressionAndArrowParameterList
+    ;
+
+arrowParameters_Yield
+    : bindingIdentifier_Yield
+    | coverParenthesizedExpressionAndArrowParameterList_Yield
+    ;
+
+conciseBody
+    : assignmentExpression
+    | '{' functionBody '}'
+    ;
+
+conciseBody_In
+    : assignmentExpression_In
+    | '{' functionBody '}'
+    ;
+
+methodDefinition
+    : propertyName '(' strictFormalParameters ')' '{' functionBody '}'
+    | generatorMethod
+    | 'get' propertyName '(' ')' '{' functionBody '}'
+    | 'set' propertyName '(' propertySetParameterList ')' '{' functionBody '}'
+    ;
+
+methodDefinition_Yield
+    : propertyName_Yield '(' strictFormalParameters ')' '{' functionBody '}'
+    | generatorMethod_Yield
+    | 'get' propertyName_Yield '(' ')' '{' functionBody '}'
+    | 'set' propertyName_Yield '(' propertySetParameterList ')' '{' functionBody '}'
+    ;
+
+propertySetParameterList
+    : formalParameter
+    ;
+
+generatorMethod
+    : '*' propertyName '(' strictFormalParameters_Yield ')' '{' generatorBody '}'
+    ;
+
+generatorMethod_Yield
+    : '*' propertyName_Yield '(' strictFormalParameters_Yield ')' '{' generatorBody '}'
+    ;
+
+generatorDeclaration
+    : 'function' '*' bindingIdentifier '(' formalParameters_Yield ')' '{' generatorBody '}'
+    ;
+
+generatorDeclaration_Yield
+    : 'function' '*' bindingIdentifier_Yield '(' formalParameters_Yield ')' '{' generatorBody '}'
+    ;
+
+generatorDeclaration_Default
+    : 'function' '*' bindingIdentifier '(' formalParameters_Yield ')' '{' generatorBody '}'
+    | 'function' '*' '(' formalParameters_Yield ')' '{' generatorBody '}'
+    ;
+
+generatorExpression
+    : 'function' '*' bindingIdentifier_Yield? '(' formalParameters_Yield ')' '{' generatorBody '}'
+    ;
+
+generatorBody
+    : functionBody_Yield
+    ;
+
+yieldExpression
+    : 'yield'
+    | 'yield' assignmentExpression_Yield
+    | 'yield' '*' assignmentExpression_Yield
+    ;
+
+yieldExpression_In
+    : 'yield'
+    | 'yield' assignmentExpression_In_Yield
+    | 'yield' '*' assignmentExpression_In_Yield
+    ;
+
+classDeclaration
+    : 'class' bindingIdentifier classTail
+    ;
+
+classDeclaration_Yield
+    : 'class' bindingIdentifier_Yield classTail_Yield
+    ;
+
+classDeclaration_Default
+    : 'class' bindingIdentifier classTail
+    | 'class' classTail
+    ;
+
+classExpression
+    : 'class' bindingIdentifier? classTail
+    ;
+
+classExpression_Yield
+    : 'class' bindingIdentifier_Yield? classTail_Yield
+    ;
+
+classTail
+    : classHeritage? '{' classBody? '}'
+    ;
+
+classTail_Yield
+    : classHeritage_Yield? '{' classBody_Yield? '}'
+    ;
+
+classHeritage
+    : 'extends' leftHandSideExpression
+    ;
+
+classHeritage_Yield
+    : 'extends' leftHandSideExpression_Yield
+    ;
+
+classBody
+    : classElementList
+    ;
+
+classBody_Yield
+    : classElementList_Yield
+    ;
+
+classElementList
+    : classElement
+    | classElementList classElement
+    ;
+
+classElementList_Yield
+    : classElement_Yield
+    | classElementList_Yield classElement_Yield
+    ;
+
+classElement
+    : methodDefinition
+    | 'static' methodDefinition
+    | ';'
+    ;
+
+classElement_Yield
+    : methodDefinition_Yield
+    | 'static' methodDefinition_Yield
+    | ';'
+    ;
+
+script
+    : scriptBody?
+    ;
+
+scriptBody
+    : statementList
+    ;
+
+module
+    : moduleBody?
+    ;
+
+moduleBody
+    : moduleItemList
+    ;
+
+moduleItemList
+    : moduleItem
+    | moduleItemList moduleItem
+    ;
+
+moduleItem
+    : importDeclaration
+    | exportDeclaration
+    | statementListItem
+    ;
+
+importDeclaration
+    : 'import' importClause fromClause ';'
+    | 'import' moduleSpecifier ';'
+    ;
+
+importClause
+    : importedDefaultBinding
+    | nameSpaceImport
+    | namedImports
+    | importedDefaultBinding ',' nameSpaceImport
+    | importedDefaultBinding ',' namedImports
+    ;
+
+importedDefaultBinding
+    : importedBinding
+    ;
+
+nameSpaceImport
+    : '*' 'as' importedBinding
+    ;
+
+namedImports
+    : '{' '}'
+    | '{' importsList '}'
+    | '{' importsList ',' '}'
+    ;
+
+fromClause
+    : 'from' moduleSpecifier
+    ;
+
+importsList
+    : importSpecifier
+    | importsList ',' importSpecifier
+    ;
+
+importSpecifier
+    : importedBinding
+    | IdentifierName 'as' importedBinding
+    ;
+
+moduleSpecifier
+    : StringLiteral
+    ;
+
+importedBinding
+    : bindingIdentifier
+    ;
+
+exportDeclaration
+    : 'export' '*' fromClause ';'
+    | 'export' exportClause fromClause ';'
+    | 'export' exportClause ';'
+    | 'export' variableStatement
+    | 'export' declaration
+    | 'export' 'default' hoistableDeclaration_Default
+    | 'export' 'default' classDeclaration_Default
+    | 'export' 'default' assignmentExpression_In ';'
+    ;
+
+exportClause
+    : '{' '}'
+    | '{' exportsList '}'
+    | '{' exportsList ',' '}'
+    ;
+
+exportsList
+    : exportSpecifier
+    | exportsList ',' exportSpecifier
+    ;
+
+exportSpecifier
+    : IdentifierName
+    | IdentifierName 'as' IdentifierName
+    ;
+
+fragment SourceCharacter
+    : .
+    ;
+
+fragment InputElementDiv
+    : WhiteSpace
+    | LineTerminator
+    | Comment
+    | CommonToken
+    | DivPunctuator
+    | RightBracePunctuator
+    ;
+
+fragment InputElementRegExp
+    : WhiteSpace
+    | LineTerminator
+    | Comment
+    | CommonToken
+    | RightBracePunctuator
+    | RegularExpressionLiteral
+    ;
+
+fragment InputElementRegExpOrTemplateTail
+    : WhiteSpace
+    | LineTerminator
+    | Comment
+    | CommonToken
+    | RegularExpressionLiteral
+    | TemplateSubstitutionTail
+    ;
+
+fragment InputElementTemplateTail
+    : WhiteSpace
+    | LineTerminator
+    | Comment
+    | CommonToken
+    | DivPunctuator
+    | TemplateSubstitutionTail
+    ;
+
+fragment WhiteSpace
+    : '\u0009'
+    | '\u000B'
+    | '\u000C'
+    | ' '
+    | '\u00A0'
+    | '\uFEFF'
+    | [\p{Zs}]
+    ;
+
+LineTerminator
+    : '\u000A'
+    | '\u000D'
+    | '\u2028'
+    | '\u2029'
+    ;
+
+fragment LineTerminatorSequence
+    : '\u000A'
+    | '\u000D'
+    | '\u2028'
+    | '\u2029'
+    | '\u000D' '\u000A'
+    ;
+
+fragment Comment
+    : MultiLineComment
+    | SingleLineComment
+    ;
+
+fragment MultiLineComment
+    : '/*' MultiLineCommentChars? '*/'
+    ;
+
+fragment MultiLineCommentChars
+    : MultiLineNotAsteriskChar MultiLineCommentChars?
+    | '*' PostAsteriskCommentChars?
+    ;
+
+fragment PostAsteriskCommentChars
+    : MultiLineNotForwardSlashOrAsteriskChar MultiLineCommentChars?
+    | '*' PostAsteriskCommentChars?
+    ;
+
+fragment MultiLineNotAsteriskChar
+    : ~[*]
+    ;
+
+fragment MultiLineNotForwardSlashOrAsteriskChar
+    : ~[*/]
+    ;
+
+fragment SingleLineComment
+    : '//' SingleLineCommentChars?
+    ;
+
+fragment SingleLineCommentChars
+    : SingleLineCommentChar SingleLineCommentChars?
+    ;
+
+fragment SingleLineCommentChar
+    : ~[\u000A\u000D\u2028-\u2029]
+    ;
+
+fragment CommonToken
+    : IdentifierName
+    | Punctuator
+    | NumericLiteral
+    | StringLiteral
+    | Template
+    ;
+
+IdentifierName
+    : ( IdentifierStart ) ( IdentifierPart )*
+    ;
+
+fragment IdentifierStart
+    : UnicodeIDStart
+    | '$'
+    | '_'
+    | '\\' UnicodeEscapeSequence
+    ;
+
+fragment IdentifierPart
+    : UnicodeIDContinue
+    | '$'
+    | '_'
+    | '\\' UnicodeEscapeSequence
+    | '\u200C'
+    | '\u200D'
+    ;
+
+fragment UnicodeIDStart
+    : [\p{ID_Start}\p{Other_ID_Start}]
+    ;
+
+fragment UnicodeIDContinue
+    : [\p{ID_Continue}\p{Other_ID_Continue}\p{Other_ID_Start}]
+    ;
+
+fragment ReservedWord
+    : Keyword
+    | FutureReservedWord
+    | NullLiteral
+    | BooleanLiteral
+    ;
+
+fragment Keyword
+    : 'break'
+    | 'do'
+    | 'in'
+    | 'typeof'
+    | 'case'
+    | 'else'
+    | 'instanceof'
+    | 'var'
+    | 'catch'
+    | 'export'
+    | 'new'
+    | 'void'
+    | 'class'
+    | 'extends'
+    | 'return'
+    | 'while'
+    | 'const'
+    | 'finally'
+    | 'super'
+    | 'with'
+    | 'continue'
+    | 'for'
+    | 'switch'
+    | 'yield'
+    | 'debugger'
+    | 'function'
+    | 'this'
+    | 'default'
+    | 'if'
+    | 'throw'
+    | 'delete'
+    | 'import'
+    | 'try'
+    ;
+
+fragment FutureReservedWord
+    : 'enum'
+    | 'await'
+    | 'implements'
+    | 'package'
+    | 'protected'
+    | 'interface'
+    | 'private'
+    | 'public'
+    ;
+
+fragment Punctuator
+    : '{'
+    | '}'
+    | '('
+    | ')'
+    | '['
+    | ']'
+    | '.'
+    | ';'
+    | ','
+    | '<'
+    | '>'
+    | '<='
+    | '>='
+    | '=='
+    | '!='
+    | '==='
+    | '!=='
+    | '+'
+    | '-'
+    | '*'
+    | '%'
+    | '++'
+    | '--'
+    | '<<'
+    | '>>'
+    | '>>>'
+    | '&'
+    | '|'
+    | '^'
+    | '!'
+    | '~'
+    | '&&'
+    | '||'
+    | '?'
+    | ' ::'
+    | '='
+    | '+='
+    | '-='
+    | '*='
+    | '%='
+    | '<<='
+    | '>>='
+    | '>>>='
+    | '&='
+    | '|='
+    | '^='
+    | '=>'
+    ;
+
+fragment DivPunctuator
+    : '/'
+    | '/='
+    ;
+
+fragment RightBracePunctuator
+    : ')'
+    ;
+
+NullLiteral
+    : 'null'
+    ;
+
+BooleanLiteral
+    : 'true'
+    | 'false'
+    ;
+
+NumericLiteral
+    : DecimalLiteral
+    | BinaryIntegerLiteral
+    | OctalIntegerLiteral
+    | HexIntegerLiteral
+    ;
+
+fragment DecimalLiteral
+    : DecimalIntegerLiteral '.' DecimalDigits? ExponentPart?
+    | '.' DecimalDigits ExponentPart?
+    | DecimalIntegerLiteral ExponentPart?
+    ;
+
+fragment DecimalIntegerLiteral
+    : '0'
+    | NonZeroDigit DecimalDigits?
+    ;
+
+fragment DecimalDigits
+    : ( DecimalDigit ) ( DecimalDigit )*
+    ;
+
+fragment DecimalDigit
+    : '0'
+    | '1'
+    | '2'
+    | '3'
+    | '4'
+    | '5'
+    | '6'
+    | '7'
+    | '8'
+    | '9'
+    ;
+
+fragment NonZeroDigit
+    : '1'
+    | '2'
+    | '3'
+    | '4'
+    | '5'
+    | '6'
+    | '7'
+    | '8'
+    | '9'
+    ;
+
+fragment ExponentPart
+    : ExponentIndicator SignedInteger
+    ;
+
+fragment ExponentIndicator
+    : 'e'
+    | 'E'
+    ;
+
+fragment SignedInteger
+    : DecimalDigits
+    | '+' DecimalDigits
+    | '-' DecimalDigits
+    ;
+
+fragment BinaryIntegerLiteral
+    : '0b' BinaryDigits
+    | '0B' BinaryDigits
+    ;
+
+fragment BinaryDigits
+    : ( BinaryDigit ) ( BinaryDigit )*
+    ;
+
+fragment BinaryDigit
+    : '0'
+    | '1'
+    ;
+
+fragment OctalIntegerLiteral
+    : '0o' OctalDigits
+    | '0O' OctalDigits
+    ;
+
+fragment OctalDigits
+    : ( OctalDigit ) ( OctalDigit )*
+    ;
+
+fragment OctalDigit
+    : '0'
+    | '1'
+    | '2'
+    | '3'
+    | '4'
+    | '5'
+    | '6'
+    | '7'
+    ;
+
+fragment HexIntegerLiteral
+    : '0x' HexDigits
+    | '0X' HexDigits
+    ;
+
+fragment HexDigits
+    : ( HexDigit ) ( HexDigit )*
+    ;
+
+fragment HexDigit
+    : '0'
+    | '1'
+    | '2'
+    | '3'
+    | '4'
+    | '5'
+    | '6'
+    | '7'
+    | '8'
+    | '9'
+    | 'a'
+    | 'b'
+    | 'c'
+    | 'd'
+    | 'e'
+    | 'f'
+    | 'A'
+    | 'B'
+    | 'C'
+    | 'D'
+    | 'E'
+    | 'F'
+    ;
+
+StringLiteral
+    : '"' DoubleStringCharacters? '"'
+    | '\'' SingleStringCharacters? '\''
+    ;
+
+fragment DoubleStringCharacters
+    : DoubleStringCharacter DoubleStringCharacters?
+    ;
+
+fragment SingleStringCharacters
+    : SingleStringCharacter SingleStringCharacters?
+    ;
+
+fragment DoubleStringCharacter
+    : ~[\u000A\u000D"\\\u2028-\u2029]
+    | '\\' EscapeSequence
+    | LineContinuation
+    ;
+
+fragment SingleStringCharacter
+    : ~[\u000A\u000D'\\\u2028-\u2029]
+    | '\\' EscapeSequence
+    | LineContinuation
+    ;
+
+fragment LineContinuation
+    : '\\' LineTerminatorSequence
+    ;
+
+fragment EscapeSequence
+    : CharacterEscapeSequence
+    | '0'
+    | HexEscapeSequence
+    | UnicodeEscapeSequence
+    ;
+
+fragment CharacterEscapeSequence
+    : SingleEscapeCharacter
+    | NonEscapeCharacter
+    ;
+
+fragment SingleEscapeCharacter
+    : '\''
+    | '"'
+    | '\\'
+    | 'b'
+    | 'f'
+    | 'n'
+    | 'r'
+    | 't'
+    | 'v'
+    ;
+
+fragment NonEscapeCharacter
+    : ~[\u000A\u000D"'0-9\\bfnrt-vx\u2028-\u2029]
+    ;
+
+fragment EscapeCharacter
+    : SingleEscapeCharacter
+    | DecimalDigit
+    | 'x'
+    | 'u'
+    ;
+
+fragment HexEscapeSequence
+    : 'x' HexDigit HexDigit
+    ;
+
+fragment UnicodeEscapeSequence
+    : 'u' Hex4Digits
+    | 'u{' HexDigits '}'
+    ;
+
+fragment Hex4Digits
+    : HexDigit HexDigit HexDigit HexDigit
+    ;
+
+RegularExpressionLiteral
+    : '/' RegularExpressionBody '/' RegularExpressionFlags
+    ;
+
+fragment RegularExpressionBody
+    : RegularExpressionFirstChar RegularExpressionChars
+    ;
+
+fragment RegularExpressionChars
+    : ( ) ( RegularExpressionChar )*
+    ;
+
+fragment RegularExpressionFirstChar
+    : ~[\u000A\u000D*/[-\\\u2028-\u2029]
+    | RegularExpressionBackslashSequence
+    | RegularExpressionClass
+    ;
+
+fragment RegularExpressionChar
+    : ~[\u000A\u000D/[-\\\u2028-\u2029]
+    | RegularExpressionBackslashSequence
+    | RegularExpressionClass
+    ;
+
+fragment RegularExpressionBackslashSequence
+    : '\\' RegularExpressionNonTerminator
+    ;
+
+fragment RegularExpressionNonTerminator
+    : ~[\u000A\u000D\u2028-\u2029]
+    ;
+
+fragment RegularExpressionClass
+    : '[' RegularExpressionClassChars ']'
+    ;
+
+fragment RegularExpressionClassChars
+    : ( ) ( RegularExpressionClassChar )*
+    ;
+
+fragment RegularExpressionClassChar
+    : ~[\u000A\u000D\\-\]\u2028-\u2029]
+    | RegularExpressionBackslashSequence
+    ;
+
+fragment RegularExpressionFlags
+    : ( ) ( IdentifierPart )*
+    ;
+
+fragment Template
+    : NoSubstitutionTemplate
+    | TemplateHead
+    ;
+
+NoSubstitutionTemplate
+    : '`' TemplateCharacters? '`'
+    ;
+
+TemplateHead
+    : '`' TemplateCharacters? '${'
+    ;
+
+fragment TemplateSubstitutionTail
+    : TemplateMiddle
+    | TemplateTail
+    ;
+
+TemplateMiddle
+    : '}' TemplateCharacters? '${'
+    ;
+
+TemplateTail
+    : '}' TemplateCharacters? '`'
+    ;
+
+fragment TemplateCharacters
+    : TemplateCharacter TemplateCharacters?
+    ;
+
+fragment TemplateCharacter
+    : '$'
+    | '\\' EscapeSequence
+    | LineContinuation
+    | LineTerminatorSequence
+    | ~[\u000A\u000D$\\`\u2028-\u2029]
+    ;
\ No newline at end of file
@@ -0,0 +1,1499 @@
+module.exports = grammar({
+    name: "es6",
+
+    conflicts: $ => [
+        [$.if_statement]
+    ],
+
+    rules: {
+        identifier_reference: $ => choice(
+            $.identifier,
+            "yield"
+        ),
+
+        identifier_reference_yield: $ => $.identifier,
+
+        binding_identifier: $ => choice(
+            $.identifier,
+            "yield"
+        ),
+
+        binding_identifier_yield: $ => $.identifier,
+
+        label_identifier: $ => choice(
+            $.identifier,
+            "yield"
+        ),
+
+        label_identifier_yield: $ => $.identifier,
+
+        identifier: $ => $.identifier_name,
+
+        primary_expression: $ => choice(
+            "this",
+            $.identifier_reference,
+            $.literal,
+            $.array_literal,
+            $.object_literal,
+            $.function_expression,
+            $.class_expression,
+            $.generator_expression,
+            $.regular_expression_literal,
+            $.template_literal,
+            $.cover_parenthesized_expression_and_arrow_parameter_list
+        ),
+
+        primary_expression_yield: $ => choice(
+            "this",
+            $.identifier_reference_yield,
+            $.literal,
+            $.array_literal_yield,
+            $.object_literal_yield,
+            $.function_expression,
+            $.class_expression_yield,
+            $.generator_expression,
+            $.regular_expression_literal,
+            $.template_literal_yield,
+            $.cover_parenthesized_expression_and_arrow_parameter_list_yield
+        ),
+
+        cover_parenthesized_expression_and_arrow_parameter_list: $ => choice(
+            seq("(", $.expression_in, ")"),
+            seq("(", ")"),
+            seq("(", "...", $.binding_identifier, ")"),
+            seq("(", $.expression_in, ",", "...", $.binding_identifier, ")")
+        ),
+
+        cover_parenthesized_expression_and_arrow_parameter_list_yield: $ => choice(
+            seq("(", $.expression_in_yield, ")"),
+            seq("(", ")"),
+            seq("(", "...", $.binding_identifier_yield, ")"),
+            seq("(", $.expression_in_yield, ",", "...", $.binding_identifier_yield, ")")
+        ),
+
+        literal: $ => choice(
+            $.null_literal,
+            $.boolean_literal,
+            $.numeric_literal,
+            $.string_literal
+        ),
+
+        array_literal: $ => choice(
+            seq("[", optional($.elision), "]"),
+            seq("[", $.element_list, "]"),
+            seq("[", $.element_list, ",", optional($.elision), "]")
+        ),
+
+        array_literal_yield: $ => choice(
+            seq("[", optional($.elision), "]"),
+            seq("[", $.element_list_yield, "]"),
+            seq("[", $.element_list_yield, ",", optional($.elision), "]")
+        ),
+
+        element_list: $ => choice(
+            seq(optional($.elision), $.assignment_expression_in),
+            seq(optional($.elision), $.spread_element),
+            seq($.element_list, ",", optional($.elision), $.assignment_expression_in),
+            seq($.element_list, ",", optional($.elision), $.spread_element)
+        ),
+
+        element_list_yield: $ => choice(
+            seq(optional($.elision), $.assignment_expression_in_yield),
+            seq(optional($.elision), $.spread_element_yield),
+            seq($.element_list_yield, ",", optional($.elision), $.assignment_expression_in_yield),
+            seq($.element_list_yield, ",", optional($.elision), $.spread_element_yield)
+        ),
+
+        elision: $ => choice(
+            ",",
+            seq($.elision, ",")
+        ),
+
+        spread_element: $ => seq("...", $.assignment_expression_in),
+
+        spread_element_yield: $ => seq("...", $.assignment_expression_in_yield),
+
+        object_literal: $ => choice(
+            seq("{", "}"),
+            seq("{", $.property_definition_list, "}"),
+            seq("{", $.property_definition_list, ",", "}")
+        ),
+
+        object_literal_yield: $ => choice(
+            seq("{", "}"),
+            seq("{", $.property_definition_list_yield, "}"),
+            seq("{", $.property_definition_list_yield, ",", "}")
+        ),
+
+        property_definition_list: $ => choice(
+            $.property_definition,
+            seq($.property_definition_list, ",", $.property_definition)
+        ),
+
+        property_definition_list_yield: $ => choice(
+            $.property_definition_yield,
+            seq($.property_definition_list_yield, ",", $.property_definition_yield)
+        ),
+
+        property_definition: $ => choice(
+            $.identifier_reference,
+            $.cover_initialized_name,
+            seq($.property_name, ":", $.assignment_expression_in),
+            $.method_definition
+        ),
+
+        property_definition_yield: $ => choice(
+            $.identifier_reference_yield,
+            $.cover_initialized_name_yield,
+            seq($.property_name_yield, ":", $.assignment_expression_in_yield),
+            $.method_definition_yield
+        ),
+
+        property_name: $ => choice(
+            $.literal_property_name,
+            $.computed_property_name
+        ),
+
+        property_name_yield: $ => choice(
+            $.literal_property_name,
+            $.computed_property_name_yield
+        ),
+
+        literal_property_name: $ => choice(
+            $.identifier_name,
+            $.string_literal,
+            $.numeric_literal
+        ),
+
+        computed_property_name: $ => seq("[", $.assignment_expression_in, "]"),
+
+        computed_property_name_yield: $ => seq("[", $.assignment_expression_in_yield, "]"),
+
+        cover_initialized_name: $ => seq($.identifier_reference, $.initializer_in),
+
+        cover_initialized_name_yield: $ => seq($.identifier_reference_yield, $.initializer_in_yield),
+
+        initializer: $ => seq("=", $.assignment_expression),
+
+        initializer_in: $ => seq("=", $.assignment_expression_in),
+
+        initializer_yield: $ => seq("=", $.assignment_expression_yield),
+
+        initializer_in_yield: $ => seq("=", $.assignment_expression_in_yield),
+
+        template_literal: $ => choice(
+            $.no_substitution_template,
+            seq($.template_head, $.expression_in, $.template_spans)
+        ),
+
+        template_literal_yield: $ => choice(
+            $.no_substitution_template,
+            seq($.template_head, $.expression_in_yield, $.template_spans_yield)
+        ),
+
+        template_spans: $ => choice(
+            $.template_tail,
+            seq($.template_middle_list, $.template_tail)
+        ),
+
+        template_spans_yield: $ => choice(
+            $.template_tail,
+            seq($.template_middle_list_yield, $.template_tail)
+        ),
+
+        template_middle_list: $ => choice(
+            seq($.template_middle, $.expression_in),
+            seq($.template_middle_list, $.template_middle, $.expression_in)
+        ),
+
+        template_middle_list_yield: $ => choice(
+            seq($.template_middle, $.expression_in_yield),
+            seq($.template_middle_list_yield, $.template_middle, $.expression_in_yield)
+        ),
+
+        member_expression: $ => choice(
+            $.primary_expression,
+            seq($.member_expression, "[", $.expression_in, "]"),
+            seq($.member_expression, ".", $.identifier_name),
+            seq($.member_expression, $.template_literal),
+            $.super_property,
+            $.meta_property,
+            seq("new", $.member_expression, $.arguments)
+        ),
+
+        member_expression_yield: $ => choice(
+            $.primary_expression_yield,
+            seq($.member_expression_yield, "[", $.expression_in_yield, "]"),
+            seq($.member_expression_yield, ".", $.identifier_name),
+            seq($.member_expression_yield, $.template_literal_yield),
+            $.super_property_yield,
+            $.meta_property,
+            seq("new", $.member_expression_yield, $.arguments_yield)
+        ),
+
+        super_property: $ => choice(
+            seq("super", "[", $.expression_in, "]"),
+            seq("super", ".", $.identifier_name)
+        ),
+
+        super_property_yield: $ => choice(
+            seq("super", "[", $.expression_in_yield, "]"),
+            seq("super", ".", $.identifier_name)
+        ),
+
+        meta_property: $ => $.new_target,
+
+        new_target: $ => seq("new", ".", "target"),
+
+        new_expression: $ => choice(
+            $.member_expression,
+            seq("new", $.new_expression)
+        ),
+
+        new_expression_yield: $ => choice(
+            $.member_expression_yield,
+            seq("new", $.new_expression_yield)
+        ),
+
+        call_expression: $ => choice(
+            seq($.member_expression, $.arguments),
+            $.super_call,
+            seq($.call_expression, $.arguments),
+            seq($.call_expression, "[", $.expression_in, "]"),
+            seq($.call_expression, ".", $.identifier_name),
+            seq($.call_expression, $.template_literal)
+        ),
+
+        call_expression_yield: $ => choice(
+            seq($.member_expression_yield, $.arguments_yield),
+            $.super_call_yield,
+            seq($.call_expression_yield, $.arguments_yield),
+            seq($.call_expression_yield, "[", $.expression_in_yield, "]"),
+            seq($.call_expression_yield, ".", $.identifier_name),
+            seq($.call_expression_yield, $.template_literal_yield)
+        ),
+
+        super_call: $ => seq("super", $.arguments),
+
+        super_call_yield: $ => seq("super", $.arguments_yield),
+
+        arguments: $ => choice(
+            seq("(", ")"),
+            seq("(", $.argument_list, ")")
+        ),
+
+        arguments_yield: $ => choice(
+            seq("(", ")"),
+            seq("(", $.argument_list_yield, ")")
+        ),
+
+        argument_list: $ => choice(
+            $.assignment_expression_in,
+            seq("...", $.assignment_expression_in),
+            seq($.argument_list, ",", $.assignment_expression_in),
+            seq($.argument_list, ",", "...", $.assignment_expression_in)
+        ),
+
+        argument_list_yield: $ => choice(
+            $.assignment_expression_in_yield,
+            seq("...", $.assignment_expression_in_yield),
+            seq($.argument_list_yield, ",", $.assignment_expression_in_yield),
+            seq($.argument_list_yield, ",", "...", $.assignment_expression_in_yield)
+        ),
+
+        left_hand_side_expression: $ => choice(
+            $.new_expression,
+            $.call_expression
+        ),
+
+        left_hand_side_expression_yield: $ => choice(
+            $.new_expression_yield,
+            $.call_expression_yield
+        ),
+
+        postfix_expression: $ => choice(
+            $.left_hand_side_expression,
+            seq($.left_hand_side_expression, "++"),
+            seq($.left_hand_side_expression, "--")
+        ),
+
+        postfix_expression_yield: $ => choice(
+            $.left_hand_side_expression_yield,
+            seq($.left_hand_side_expression_yield, "++"),
+            seq($.left_hand_side_expression_yield, "--")
+        ),
+
+        unary_expression: $ => choice(
+            $.postfix_expression,
+            seq("delete", $.unary_expression),
+            seq("void", $.unary_expression),
+            seq("typeof", $.unary_expression),
+            seq("++", $.unary_expression),
+            seq("--", $.unary_expression),
+            seq("+", $.unary_expression),
+            seq("-", $.unary_expression),
+            seq("~", $.unary_expression),
+            seq("!", $.unary_expression)
+        ),
+
+        unary_expression_yield: $ => choice(
+            $.postfix_expression_yield,
+            seq("delete", $.unary_expression_yield),
+            seq("void", $.unary_expression_yield),
+            seq("typeof", $.unary_expression_yield),
+            seq("++", $.unary_expression_yield),
+            seq("--", $.unary_expression_yield),
+            seq("+", $.unary_expression_yield),
+            seq("-", $.unary_expression_yield),
+            seq("~", $.unary_expression_yield),
+            seq("!", $.unary_expression_yield)
+        ),
+
+        multiplicative_expression: $ => choice(
+            $.unary_expression,
+            seq($.multiplicative_expression, $.multiplicative_operator, $.unary_expression)
+        ),
+
+        multiplicative_expression_yield: $ => choice(
+            $.unary_expression_yield,
+            seq($.multiplicative_expression_yield, $.multiplicative_operator, $.unary_expression_yield)
+        ),
+
+        multiplicative_operator: $ => choice(
+            "*",
+            "/",
+            "%"
+        ),
+
+        additive_expression: $ => choice(
+            $.multiplicative_expression,
+            seq($.additive_expression, "+", $.multiplicative_expression),
+            seq($.additive_expression, "-", $.multiplicative_expression)
+        ),
+
+        additive_expression_yield: $ => choice(
+            $.multiplicative_expression_yield,
+            seq($.additive_expression_yield, "+", $.multiplicative_expression_yield),
+            seq($.additive_expression_yield, "-", $.multiplicative_expression_yield)
+        ),
+
+        shift_expression: $ => choice(
+            $.additive_expression,
+            seq($.shift_expression, "<<", $.additive_expression),
+            seq($.shift_expression, ">>", $.additive_expression),
+            seq($.shift_expression, ">>>", $.additive_expression)
+        ),
+
+        shift_expression_yield: $ => choice(
+            $.additive_expression_yield,
+            seq($.shift_expression_yield, "<<", $.additive_expression_yield),
+            seq($.shift_expression_yield, ">>", $.additive_expression_yield),
+            seq($.shift_expression_yield, ">>>", $.additive_expression_yield)
+        ),
+
+        relational_expression: $ => choice(
+            $.shift_expression,
+            seq($.relational_expression, "<", $.shift_expression),
+            seq($.relational_expression, ">", $.shift_expression),
+            seq($.relational_expression, "<=", $.shift_expression),
+            seq($.relational_expression, ">=", $.shift_expression),
+            seq($.relational_expression, "instanceof", $.shift_expression)
+        ),
+
+        relational_expression_in: $ => choice(
+            $.shift_expression,
+            seq($.relational_expression_in, "<", $.shift_expression),
+            seq($.relational_expression_in, ">", $.shift_expression),
+            seq($.relational_expression_in, "<=", $.shift_expression),
+            seq($.relational_expression_in, ">=", $.shift_expression),
+            seq($.relational_expression_in, "instanceof", $.shift_expression),
+            seq($.relational_expression_in, "in", $.shift_expression)
+        ),
+
+        relational_expression_yield: $ => choice(
+            $.shift_expression_yield,
+            seq($.relational_expression_yield, "<", $.shift_expression_yield),
+            seq($.relational_expression_yield, ">", $.shift_expression_yield),
+            seq($.relational_expression_yield, "<=", $.shift_expression_yield),
+            seq($.relational_expression_yield, ">=", $.shift_expression_yield),
+            seq($.relational_expression_yield, "instanceof", $.shift_expression_yield)
+        ),
+
+        relational_expression_in_yield: $ => choice(
+            $.shift_expression_yield,
+            seq($.relational_expression_in_yield, "<", $.shift_expression_yield),
+            seq($.relational_expression_in_yield, ">", $.shift_expression_yield),
+            seq($.relational_expression_in_yield, "<=", $.shift_expression_yield),
+            seq($.relational_expression_in_yield, ">=", $.shift_expression_yield),
+            seq($.relational_expression_in_yield, "instanceof", $.shift_expression_yield),
+            seq($.relational_expression_in_yield, "in", $.shift_expression_yield)
+        ),
+
+        equality_expression: $ => choice(
+            $.relational_expression,
+            seq($.equality_expression, "==", $.relational_expression),
+            seq($.equality_expression, "!=", $.relational_expression),
+            seq($.equality_expression, "===", $.relational_expression),
+            seq($.equality_expression, "!==", $.relational_expression)
+        ),
+
+        equality_expression_in: $ => choice(
+            $.relational_expression_in,
+            seq($.equality_expression_in, "==", $.relational_expression_in),
+            seq($.equality_expression_in, "!=", $.relational_expression_in),
+            seq($.equality_expression_in, "===", $.relational_expression_in),
+            seq($.equality_expression_in, "!==", $.relational_expression_in)
+        ),
+
+        equality_expression_yield: $ => choice(
+            $.relational_expression_yield,
+            seq($.equality_expression_yield, "==", $.relational_expression_yield),
+            seq($.equality_expression_yield, "!=", $.relational_expression_yield),
+            seq($.equality_expression_yield, "===", $.relational_expression_yield),
+            seq($.equality_expression_yield, "!==", $.relational_expression_yield)
+        ),
+
+        equality_expression_in_yield: $ => choice(
+            $.relational_expression_in_yield,
+            seq($.equality_expression_in_yield, "==", $.relational_expression_in_yield),
+            seq($.equality_expression_in_yield, "!=", $.relational_expression_in_yield),
+            seq($.equality_expression_in_yield, "===", $.relational_expression_in_yield),
+            seq($.equality_expression_in_yield, "!==", $.relational_expression_in_yield)
+        ),
+
+        bitwise_andexpression: $ => choice(
+            $.equality_expression,
+            seq($.bitwise_andexpression, "&", $.equality_expression)
+        ),
+
+        bitwise_andexpression_in: $ => choice(
+            $.equality_expression_in,
+            seq($.bitwise_andexpression_in, "&", $.equality_expression_in)
+        ),
+
+        bitwise_andexpression_yield: $ => choice(
+            $.equality_expression_yield,
+            seq($.bitwise_andexpression_yield, "&", $.equality_expression_yield)
+        ),
+
+        bitwise_andexpression_in_yield: $ => choice(
+            $.equality_expression_in_yield,
+            seq($.bitwise_andexpression_in_yield, "&", $.equality_expression_in_yield)
+        ),
+
+        bitwise_xorexpression: $ => choice(
+            $.bitwise_andexpression,
+            seq($.bitwise_xorexpression, "^", $.bitwise_andexpression)
+        ),
+
+        bitwise_xorexpression_in: $ => choice(
+            $.bitwise_andexpression_in,
+            seq($.bitwise_xorexpression_in, "^", $.bitwise_andexpression_in)
+        ),
+
+        bitwise_xorexpression_yield: $ => choice(
+            $.bitwise_andexpression_yield,
+            seq($.bitwise_xorexpression_yield, "^", $.bitwise_andexpression_yield)
+        ),
+
+        bitwise_xorexpression_in_yield: $ => choice(
+            $.bitwise_andexpression_in_yield,
+            seq($.bitwise_xorexpression_in_yield, "^", $.bitwise_andexpression_in_yield)
+        ),
+
+        bitwise_orexpression: $ => choice(
+            $.bitwise_xorexpression,
+            seq($.bitwise_orexpression, "|", $.bitwise_xorexpression)
+        ),
+
+        bitwise_orexpression_in: $ => choice(
+            $.bitwise_xorexpression_in,
+            seq($.bitwise_orexpression_in, "|", $.bitwise_xorexpression_in)
+        ),
+
+        bitwise_orexpression_yield: $ => choice(
+            $.bitwise_xorexpression_yield,
+            seq($.bitwise_orexpression_yield, "|", $.bitwise_xorexpression_yield)
+        ),
+
+        bitwise_orexpression_in_yield: $ => choice(
+            $.bitwise_xorexpression_in_yield,
+            seq($.bitwise_orexpression_in_yield, "|", $.bitwise_xorexpression_in_yield)
+        ),
+
+        logical_andexpression: $ => choice(
+            $.bitwise_orexpression,
+            seq($.logical_andexpression, "&&", $.bitwise_orexpression)
+        ),
+
+        logical_andexpression_in: $ => choice(
+            $.bitwise_orexpression_in,
+            seq($.logical_andexpression_in, "&&", $.bitwise_orexpression_in)
+        ),
+
+        logical_andexpression_yield: $ => choice(
+            $.bitwise_orexpression_yield,
+            seq($.logical_andexpression_yield, "&&", $.bitwise_orexpression_yield)
+        ),
+
+        logical_andexpression_in_yield: $ => choice(
+            $.bitwise_orexpression_in_yield,
+            seq($.logical_andexpression_in_yield, "&&", $.bitwise_orexpression_in_yield)
+        ),
+
+        logical_orexpression: $ => choice(
+            $.logical_andexpression,
+            seq($.logical_orexpression, "||", $.logical_andexpression)
+        ),
+
+        logical_orexpression_in: $ => choice(
+            $.logical_andexpression_in,
+            seq($.logical_orexpression_in, "||", $.logical_andexpression_in)
+        ),
+
+        logical_orexpression_yield: $ => choice(
+            $.logical_andexpression_yield,
+            seq($.logical_orexpression_yield, "||", $.logical_andexpression_yield)
+        ),
+
+        logical_orexpression_in_yield: $ => choice(
+            $.logical_andexpression_in_yield,
+            seq($.logical_orexpression_in_yield, "||", $.logical_andexpression_in_yield)
+        ),
+
+        conditional_expression: $ => choice(
+            $.logical_orexpression,
+            seq($.logical_orexpression, "?", $.assignment_expression_in, ":", $.assignment_expression)
+        ),
+
+        conditional_expression_in: $ => choice(
+            $.logical_orexpression_in,
+            seq($.logical_orexpression_in, "?", $.assignment_expression_in, ":", $.assignment_expression_in)
+        ),
+
+        conditional_expression_yield: $ => choice(
+            $.logical_orexpression_yield,
+            seq($.logical_orexpression_yield, "?", $.assignment_expression_in_yield, ":", $.assignment_expression_yield)
+        ),
+
+        conditional_expression_in_yield: $ => choice(
+            $.logical_orexpression_in_yield,
+            seq($.logical_orexpression_in_yield, "?", $.assignment_expression_in_yield, ":", $.assignment_expression_in_yield)
+        ),
+
+        assignment_expression: $ => choice(
+            $.conditional_expression,
+            $.arrow_function,
+            seq($.left_hand_side_expression, "=", $.assignment_expression),
+            seq($.left_hand_side_expression, $.assignment_operator, $.assignment_expression)
+        ),
+
+        assignment_expression_in: $ => choice(
+            $.conditional_expression_in,
+            $.arrow_function_in,
+            seq($.left_hand_side_expression, "=", $.assignment_expression_in),
+            seq($.left_hand_side_expression, $.assignment_operator, $.assignment_expression_in)
+        ),
+
+        assignment_expression_yield: $ => choice(
+            $.conditional_expression_yield,
+            $.yield_expression,
+            $.arrow_function_yield,
+            seq($.left_hand_side_expression_yield, "=", $.assignment_expression_yield),
+            seq($.left_hand_side_expression_yield, $.assignment_operator, $.assignment_expression_yield)
+        ),
+
+        assignment_expression_in_yield: $ => choice(
+            $.conditional_expression_in_yield,
+            $.yield_expression_in,
+            $.arrow_function_in_yield,
+            seq($.left_hand_side_expression_yield, "=", $.assignment_expression_in_yield),
+            seq($.left_hand_side_expression_yield, $.assignment_operator, $.assignment_expression_in_yield)
+        ),
+
+        assignment_operator: $ => choice(
+            "*=",
+            "/=",
+            "%=",
+            "+=",
+            "-=",
+            "<<=",
+            ">>=",
+            ">>>=",
+            "&=",
+            "^=",
+            "|="
+        ),
+
+        expression: $ => choice(
+            $.assignment_expression,
+            seq($.expression, ",", $.assignment_expression)
+        ),
+
+        expression_in: $ => choice(
+            $.assignment_expression_in,
+            seq($.expression_in, ",", $.assignment_expression_in)
+        ),
+
+        expression_yield: $ => choice(
+            $.assignment_expression_yield,
+            seq($.expression_yield, ",", $.assignment_expression_yield)
+        ),
+
+        expression_in_yield: $ => choice(
+            $.assignment_expression_in_yield,
+            seq($.expression_in_yield, ",", $.assignment_expression_in_yield)
+        ),
+
+        statement: $ => choice(
+            $.block_statement,
+            $.variable_statement,
+            $.empty_statement,
+            $.expression_statement,
+            $.if_statement,
+            $.breakable_statement,
+            $.continue_statement,
+            $.break_statement,
+            $.with_statement,
+            $.labelled_statement,
+            $.throw_statement,
+            $.try_statement,
+            $.debugger_statement
+        ),
+
+        statement_return: $ => choice(
+            $.block_statement_return,
+            $.variable_statement,
+            $.empty_statement,
+            $.expression_statement,
+            $.if_statement_return,
+            $.breakable_statement_return,
+            $.continue_statement,
+            $.break_statement,
+            $.return_statement,
+            $.with_statement_return,
+            $.labelled_statement_return,
+            $.throw_statement,
+            $.try_statement_return,
+            $.debugger_statement
+        ),
+
+        statement_yield_return: $ => choice(
+            $.block_statement_yield_return,
+            $.variable_statement_yield,
+            $.empty_statement,
+            $.expression_statement_yield,
+            $.if_statement_yield_return,
+            $.breakable_statement_yield_return,
+            $.continue_statement_yield,
+            $.break_statement_yield,
+            $.return_statement_yield,
+            $.with_statement_yield_return,
+            $.labelled_statement_yield_return,
+            $.throw_statement_yield,
+            $.try_statement_yield_return,
+            $.debugger_statement
+        ),
+
+        declaration: $ => choice(
+            $.hoistable_declaration,
+            $.class_declaration,
+            $.lexical_declaration_in
+        ),
+
+        declaration_yield: $ => choice(
+            $.hoistable_declaration_yield,
+            $.class_declaration_yield,
+            $.lexical_declaration_in_yield
+        ),
+
+        hoistable_declaration: $ => choice(
+            $.function_declaration,
+            $.generator_declaration
+        ),
+
+        hoistable_declaration_yield: $ => choice(
+            $.function_declaration_yield,
+            $.generator_declaration_yield
+        ),
+
+        hoistable_declaration_default: $ => choice(
+            $.function_declaration_default,
+            $.generator_declaration_default
+        ),
+
+        breakable_statement: $ => choice(
+            $.iteration_statement,
+            $.switch_statement
+        ),
+
+        breakable_statement_return: $ => choice(
+            $.iteration_statement_return,
+            $.switch_statement_return
+        ),
+
+        breakable_statement_yield_return: $ => choice(
+            $.iteration_statement_yield_return,
+            $.switch_statement_yield_return
+        ),
+
+        block_statement: $ => $.block,
+
+        block_statement_return: $ => $.block_return,
+
+        block_statement_yield_return: $ => $.block_yield_return,
+
+        block: $ => seq("{", optional($.statement_list), "}"),
+
+        block_return: $ => seq("{", optional($.statement_list_return), "}"),
+
+        block_yield_return: $ => seq("{", optional($.statement_list_yield_return), "}"),
+
+        statement_list: $ => choice(
+            $.statement_list_item,
+            seq($.statement_list, $.statement_list_item)
+        ),
+
+        statement_list_return: $ => choice(
+            $.statement_list_item_return,
+            seq($.statement_list_return, $.statement_list_item_return)
+        ),
+
+        statement_list_yield_return: $ => choice(
+            $.statement_list_item_yield_return,
+            seq($.statement_list_yield_return, $.statement_list_item_yield_return)
+        ),
+
+        statement_list_item: $ => choice(
+            $.statement,
+            $.declaration
+        ),
+
+        statement_list_item_return: $ => choice(
+            $.statement_return,
+            $.declaration
+        ),
+
+        statement_list_item_yield_return: $ => choice(
+            $.statement_yield_return,
+            $.declaration_yield
+        ),
+
+        lexical_declaration: $ => seq($.let_or_const, $.binding_list, ";"),
+
+        lexical_declaration_in: $ => seq($.let_or_const, $.binding_list_in, ";"),
+
+        lexical_declaration_yield: $ => seq($.let_or_const, $.binding_list_yield, ";"),
+
+        lexical_declaration_in_yield: $ => seq($.let_or_const, $.binding_list_in_yield, ";"),
+
+        let_or_const: $ => choice(
+            "let",
+            "const"
+        ),
+
+        binding_list: $ => choice(
+            $.lexical_binding,
+            seq($.binding_list, ",", $.lexical_binding)
+        ),
+
+        binding_list_in: $ => choice(
+            $.lexical_binding_in,
+            seq($.binding_list_in, ",", $.lexical_binding_in)
+        ),
+
+        binding_list_yield: $ => choice(
+            $.lexical_binding_yield,
+            seq($.binding_list_yield, ",", $.lexical_binding_yield)
+        ),
+
+        binding_list_in_yield: $ => choice(
+            $.lexical_binding_in_yield,
+            seq($.binding_list_in_yield, ",", $.lexical_binding_in_yield)
+        ),
+
+        lexical_binding: $ => choice(
+            seq($.binding_identifier, optional($.initializer)),
+            seq($.binding_pattern, $.initializer)
+        ),
+
+        lexical_binding_in: $ => choice(
+            seq($.binding_identifier, optional($.initializer_in)),
+            seq($.binding_pattern, $.initializer_in)
+        ),
+
+        lexical_binding_yield: $ => choice(
+            seq($.binding_identifier_yield, optional($.initializer_yield)),
+            seq($.binding_pattern_yield, $.initializer_yield)
+        ),
+
+        lexical_binding_in_yield: $ => choice(
+            seq($.binding_identifier_yield, optional($.initializer_in_yield)),
+            seq($.binding_pattern_yield, $.initializer_in_yield)
+        ),
+
+        variable_statement: $ => seq("var", $.variable_declaration_list_in, ";"),
+
+        variable_statement_yield: $ => seq("var", $.variable_declaration_list_in_yield, ";"),
+
+        variable_declaration_list: $ => choice(
+            $.variable_declaration,
+            seq($.variable_declaration_list, ",", $.variable_declaration)
+        ),
+
+        variable_declaration_list_in: $ => choice(
+            $.variable_declaration_in,
+            seq($.variable_declaration_list_in, ",", $.variable_declaration_in)
+        ),
+
+        variable_declaration_list_yield: $ => choice(
+            $.variable_declaration_yield,
+            seq($.variable_declaration_list_yield, ",", $.variable_declaration_yield)
+        ),
+
+        variable_declaration_list_in_yield: $ => choice(
+            $.variable_declaration_in_yield,
+            seq($.variable_declaration_list_in_yield, ",", $.variable_declaration_in_yield)
+        ),
+
+        variable_declaration: $ => choice(
+            seq($.binding_identifier, optional($.initializer)),
+            seq($.binding_pattern, $.initializer)
+        ),
+
+        variable_declaration_in: $ => choice(
+            seq($.binding_identifier, optional($.initializer_in)),
+            seq($.binding_pattern, $.initializer_in)
+        ),
+
+        variable_declaration_yield: $ => choice(
+            seq($.binding_identifier_yield, optional($.initializer_yield)),
+            seq($.binding_pattern_yield, $.initializer_yield)
+        ),
+
+        variable_declaration_in_yield: $ => choice(
+            seq($.binding_identifier_yield, optional($.initializer_in_yield)),
+            seq($.binding_pattern_yield, $.initializer_in_yield)
+        ),
+
+        binding_pattern: $ => choice(
+            $.object_binding_pattern,
+            $.array_binding_pattern
+        ),
+
+        binding_pattern_yield: $ => choice(
+            $.object_binding_pattern_yield,
+            $.array_binding_pattern_yield
+        ),
+
+        object_binding_pattern: $ => choice(
+            seq("{", "}"),
+            seq("{", $.binding_property_list, "}"),
+            seq("{", $.binding_property_list, ",", "}")
+        ),
+
+        object_binding_pattern_yield: $ => choice(
+            seq("{", "}"),
+            seq("{", $.binding_property_list_yield, "}"),
+            seq("{", $.binding_property_list_yield, ",", "}")
+        ),
+
+        array_binding_pattern: $ => choice(
+            seq("[", optional($.elision), optional($.binding_rest_element), "]"),
+            seq("[", $.binding_element_list, "]"),
+            seq("[", $.binding_element_list, ",", optional($.elision), optional($.binding_rest_element), "]")
+        ),
+
+        array_binding_pattern_yield: $ => choice(
+            seq("[", optional($.elision), optional($.binding_rest_element_yield), "]"),
+            seq("[", $.binding_element_list_yield, "]"),
+            seq("[", $.binding_element_list_yield, ",", optional($.elision), optional($.binding_rest_element_yield), "]")
+        ),
+
+        binding_property_list: $ => choice(
+            $.binding_property,
+            seq($.binding_property_list, ",", $.binding_property)
+        ),
+
+        binding_property_list_yield: $ => choice(
+            $.binding_property_yield,
+            seq($.binding_property_list_yield, ",", $.binding_property_yield)
+        ),
+
+        binding_element_list: $ => choice(
+            $.binding_elision_element,
+            seq($.binding_element_list, ",", $.binding_elision_element)
+        ),
+
+        binding_element_list_yield: $ => choice(
+            $.binding_elision_element_yield,
+            seq($.binding_element_list_yield, ",", $.binding_elision_element_yield)
+        ),
+
+        binding_elision_element: $ => seq(optional($.elision), $.binding_element),
+
+        binding_elision_element_yield: $ => seq(optional($.elision), $.binding_element_yield),
+
+        binding_property: $ => choice(
+            $.single_name_binding,
+            seq($.property_name, ":", $.binding_element)
+        ),
+
+        binding_property_yield: $ => choice(
+            $.single_name_binding_yield,
+            seq($.property_name_yield, ":", $.binding_element_yield)
+        ),
+
+        binding_element: $ => choice(
+            $.single_name_binding,
+            seq($.binding_pattern, optional($.initializer_in))
+        ),
+
+        binding_element_yield: $ => choice(
+            $.single_name_binding_yield,
+            seq($.binding_pattern_yield, optional($.initializer_in_yield))
+        ),
+
+        single_name_binding: $ => seq($.binding_identifier, optional($.initializer_in)),
+
+        single_name_binding_yield: $ => seq($.binding_identifier_yield, optional($.initializer_in_yield)),
+
+        binding_rest_element: $ => seq("...", $.binding_identifier),
+
+        binding_rest_element_yield: $ => seq("...", $.binding_identifier_yield),
+
+        empty_statement: $ => ";",
+
+        expression_statement: $ => seq($.expression_in, ";"),
+
+        expression_statement_yield: $ => seq($.expression_in_yield, ";"),
+
+        if_statement: $ => choice(
+            seq("if", "(", $.expression_in, ")", $.statement, "else", $.statement),
+            seq("if", "(", $.expression_in, ")", $.statement)
+        ),
+
+        if_statement_return: $ => choice(
+            seq("if", "(", $.expression_in, ")", $.statement_return, "else", $.statement_return),
+            seq("if", "(", $.expression_in, ")", $.statement_return)
+        ),
+
+        if_statement_yield_return: $ => choice(
+            seq("if", "(", $.expression_in_yield, ")", $.statement_yield_return, "else", $.statement_yield_return),
+            seq("if", "(", $.expression_in_yield, ")", $.statement_yield_return)
+        ),
+
+        iteration_statement: $ => choice(
+            seq("do", $.statement, "while", "(", $.expression_in, ")", ";"),
+            seq("while", "(", $.expression_in, ")", $.statement),
+            seq("for", "(", optional($.expression), ";", optional($.expression_in), ";", optional($.expression_in), ")", $.statement),
+            seq("for", "(", "var", $.variable_declaration_list, ";", optional($.expression_in), ";", optional($.expression_in), ")", $.statement),
+            seq("for", "(", $.lexical_declaration, optional($.expression_in), ";", optional($.expression_in), ")", $.statement),
+            seq("for", "(", $.left_hand_side_expression, "in", $.expression_in, ")", $.statement),
+            seq("for", "(", "var", $.for_binding, "in", $.expression_in, ")", $.statement),
+            seq("for", "(", $.for_declaration, "in", $.expression_in, ")", $.statement),
+            seq("for", "(", $.left_hand_side_expression, "of", $.assignment_expression_in, ")", $.statement),
+            seq("for", "(", "var", $.for_binding, "of", $.assignment_expression_in, ")", $.statement),
+            seq("for", "(", $.for_declaration, "of", $.assignment_expression_in, ")", $.statement)
+        ),
+
+        iteration_statement_return: $ => choice(
+            seq("do", $.statement_return, "while", "(", $.expression_in, ")", ";"),
+            seq("while", "(", $.expression_in, ")", $.statement_return),
+            seq("for", "(", optional($.expression), ";", optional($.expression_in), ";", optional($.expression_in), ")", $.statement_return),
+            seq("for", "(", "var", $.variable_declaration_list, ";", optional($.expression_in), ";", optional($.expression_in), ")", $.statement_return),
+            seq("for", "(", $.lexical_declaration, optional($.expression_in), ";", optional($.expression_in), ")", $.statement_return),
+            seq("for", "(", $.left_hand_side_expression, "in", $.expression_in, ")", $.statement_return),
+            seq("for", "(", "var", $.for_binding, "in", $.expression_in, ")", $.statement_return),
+            seq("for", "(", $.for_declaration, "in", $.expression_in, ")", $.statement_return),
+            seq("for", "(", $.left_hand_side_expression, "of", $.assignment_expression_in, ")", $.statement_return),
+            seq("for", "(", "var", $.for_binding, "of", $.assignment_expression_in, ")", $.statement_return),
+            seq("for", "(", $.for_declaration, "of", $.assignment_expression_in, ")", $.statement_return)
+        ),
+
+        iteration_statement_yield_return: $ => choice(
+            seq("do", $.statement_yield_return, "while", "(", $.expression_in_yield, ")", ";"),
+            seq("while", "(", $.expression_in_yield, ")", $.statement_yield_return),
+            seq("for", "(", optional($.expression_yield), ";", optional($.expression_in_yield), ";", optional($.expression_in_yield), ")", $.statement_yield_return),
+            seq("for", "(", "var", $.variable_declaration_list_yield, ";", optional($.expression_in_yield), ";", optional($.expression_in_yield), ")", $.statement_yield_return),
+            seq("for", "(", $.lexical_declaration_yield, optional($.expression_in_yield), ";", optional($.expression_in_yield), ")", $.statement_yield_return),
+            seq("for", "(", $.left_hand_side_expression_yield, "in", $.expression_in_yield, ")", $.statement_yield_return),
+            seq("for", "(", "var", $.for_binding_yield, "in", $.expression_in_yield, ")", $.statement_yield_return),
+            seq("for", "(", $.for_declaration_yield, "in", $.expression_in_yield, ")", $.statement_yield_return),
+            seq("for", "(", $.left_hand_side_expression_yield, "of", $.assignment_expression_in_yield, ")", $.statement_yield_return),
+            seq("for", "(", "var", $.for_binding_yield, "of", $.assignment_expression_in_yield, ")", $.statement_yield_return),
+            seq("for", "(", $.for_declaration_yield, "of", $.assignment_expression_in_yield, ")", $.statement_yield_return)
+        ),
+
+        for_declaration: $ => seq($.let_or_const, $.for_binding),
+
+        for_declaration_yield: $ => seq($.let_or_const, $.for_binding_yield),
+
+        for_binding: $ => choice(
+            $.binding_identifier,
+            $.binding_pattern
+        ),
+
+        for_binding_yield: $ => choice(
+            $.binding_identifier_yield,
+            $.binding_pattern_yield
+        ),
+
+        continue_statement: $ => choice(
+            seq("continue", ";"),
+            seq("continue", $.label_identifier, ";")
+        ),
+
+        continue_statement_yield: $ => choice(
+            seq("continue", ";"),
+            seq("continue", $.label_identifier_yield, ";")
+        ),
+
+        break_statement: $ => choice(
+            seq("break", ";"),
+            seq("break", $.label_identifier, ";")
+        ),
+
+        break_statement_yield: $ => choice(
+            seq("break", ";"),
+            seq("break", $.label_identifier_yield, ";")
+        ),
+
+        return_statement: $ => choice(
+            seq("return", ";"),
+            seq("return", $.expression_in, ";")
+        ),
+
+        return_statement_yield: $ => choice(
+            seq("return", ";"),
+            seq("return", $.expression_in_yield, ";")
+        ),
+
+        with_statement: $ => seq("with", "(", $.expression_in, ")", $.statement),
+
+        with_statement_return: $ => seq("with", "(", $.expression_in, ")", $.statement_return),
+
+        with_statement_yield_return: $ => seq("with", "(", $.expression_in_yield, ")", $.statement_yield_return),
+
+        switch_statement: $ => seq("switch", "(", $.expression_in, ")", $.case_block),
+
+        switch_statement_return: $ => seq("switch", "(", $.expression_in, ")", $.case_block_return),
+
+        switch_statement_yield_return: $ => seq("switch", "(", $.expression_in_yield, ")", $.case_block_yield_return),
+
+        case_block: $ => choice(
+            seq("{", optional($.case_clauses), "}"),
+            seq("{", optional($.case_clauses), $.default_clause, optional($.case_clauses), "}")
+        ),
+
+        case_block_return: $ => choice(
+            seq("{", optional($.case_clauses_return), "}"),
+            seq("{", optional($.case_clauses_return), $.default_clause_return, optional($.case_clauses_return), "}")
+        ),
+
+        case_block_yield_return: $ => choice(
+            seq("{", optional($.case_clauses_yield_return), "}"),
+            seq("{", optional($.case_clauses_yield_return), $.default_clause_yield_return, optional($.case_clauses_yield_return), "}")
+        ),
+
+        case_clauses: $ => choice(
+            $.case_clause,
+            seq($.case_clauses, $.case_clause)
+        ),
+
+        case_clauses_return: $ => choice(
+            $.case_clause_return,
+            seq($.case_clauses_return, $.case_clause_return)
+        ),
+
+        case_clauses_yield_return: $ => choice(
+            $.case_clause_yield_return,
+            seq($.case_clauses_yield_return, $.case_clause_yield_return)
+        ),
+
+        case_clause: $ => seq("case", $.expression_in, ":", optional($.statement_list)),
+
+        case_clause_return: $ => seq("case", $.expression_in, ":", optional($.statement_list_return)),
+
+        case_clause_yield_return: $ => seq("case", $.expression_in_yield, ":", optional($.statement_list_yield_return)),
+
+        default_clause: $ => seq("default", ":", optional($.statement_list)),
+
+        default_clause_return: $ => seq("default", ":", optional($.statement_list_return)),
+
+        default_clause_yield_return: $ => seq("default", ":", optional($.statement_list_yield_return)),
+
+        labelled_statement: $ => seq($.label_identifier, ":", $.labelled_item),
+
+        labelled_statement_return: $ => seq($.label_identifier, ":", $.labelled_item_return),
+
+        labelled_statement_yield_return: $ => seq($.label_identifier_yield, ":", $.labelled_item_yield_return),
+
+        labelled_item: $ => choice(
+            $.statement,
+            $.function_declaration
+        ),
+
+        labelled_item_return: $ => choice(
+            $.statement_return,
+            $.function_declaration
+        ),
+
+        labelled_item_yield_return: $ => choice(
+            $.statement_yield_return,
+            $.function_declaration_yield
+        ),
+
+        throw_statement: $ => seq("throw", $.expression_in, ";"),
+
+        throw_statement_yield: $ => seq("throw", $.expression_in_yield, ";"),
+
+        try_statement: $ => choice(
+            seq("try", $.block, $.catch),
+            seq("try", $.block, $.finally),
+            seq("try", $.block, $.catch, $.finally)
+        ),
+
+        try_statement_return: $ => choice(
+            seq("try", $.block_return, $.catch_return),
+            seq("try", $.block_return, $.finally_return),
+            seq("try", $.block_return, $.catch_return, $.finally_return)
+        ),
+
+        try_statement_yield_return: $ => choice(
+            seq("try", $.block_yield_return, $.catch_yield_return),
+            seq("try", $.block_yield_return, $.finally_yield_return),
+            seq("try", $.block_yield_return, $.catch_yield_return, $.finally_yield_return)
+        ),
+
+        catch: $ => seq("catch", "(", $.catch_parameter, ")", $.block),
+
+        catch_return: $ => seq("catch", "(", $.catch_parameter, ")", $.block_return),
+
+        catch_yield_return: $ => seq("catch", "(", $.catch_parameter_yield, ")", $.block_yield_return),
+
+        finally: $ => seq("finally", $.block),
+
+        finally_return: $ => seq("finally", $.block_return),
+
+        finally_yield_return: $ => seq("finally", $.block_yield_return),
+
+        catch_parameter: $ => choice(
+            $.binding_identifier,
+            $.binding_pattern
+        ),
+
+        catch_parameter_yield: $ => choice(
+            $.binding_identifier_yield,
+            $.binding_pattern_yield
+        ),
+
+        debugger_statement: $ => seq("debugger", ";"),
+
+        function_declaration: $ => seq("function", $.binding_identifier, "(", $.formal_parameters, ")", "{", $.function_body, "}"),
+
+        function_declaration_yield: $ => seq("function", $.binding_identifier_yield, "(", $.formal_parameters, ")", "{", $.function_body, "}"),
+
+        function_declaration_default: $ => choice(
+            seq("function", $.binding_identifier, "(", $.formal_parameters, ")", "{", $.function_body, "}"),
+            seq("function", "(", $.formal_parameters, ")", "{", $.function_body, "}")
+        ),
+
+        function_expression: $ => seq("function", optional($.binding_identifier), "(", $.formal_parameters, ")", "{", $.function_body, "}"),
+
+        strict_formal_parameters: $ => $.formal_parameters,
+
+        strict_formal_parameters_yield: $ => $.formal_parameters_yield,
+
+        formal_parameters: $ => choice(
+            blank(),
+            $.formal_parameter_list
+        ),
+
+        formal_parameters_yield: $ => choice(
+            blank(),
+            $.formal_parameter_list_yield
+        ),
+
+        formal_parameter_list: $ => choice(
+            $.function_rest_parameter,
+            $.formals_list,
+            seq($.formals_list, ",", $.function_rest_parameter)
+        ),
+
+        formal_parameter_list_yield: $ => choice(
+            $.function_rest_parameter_yield,
+            $.formals_list_yield,
+            seq($.formals_list_yield, ",", $.function_rest_parameter_yield)
+        ),
+
+        formals_list: $ => choice(
+            $.formal_parameter,
+            seq($.formals_list, ",", $.formal_parameter)
+        ),
+
+        formals_list_yield: $ => choice(
+            $.formal_parameter_yield,
+            seq($.formals_list_yield, ",", $.formal_parameter_yield)
+        ),
+
+        function_rest_parameter: $ => $.binding_rest_element,
+
+        function_rest_parameter_yield: $ => $.binding_rest_element_yield,
+
+        formal_parameter: $ => $.binding_element,
+
+        formal_parameter_yield: $ => $.binding_element_yield,
+
+        function_body: $ => $.function_statement_list,
+
+        function_body_yield: $ => $.function_statement_list_yield,
+
+        function_statement_list: $ => optional($.statement_list_return),
+
+        function_statement_list_yield: $ => optional($.statement_list_yield_return),
+
+        arrow_function: $ => seq($.arrow_parameters, "=>", $.concise_body),
+
+        arrow_function_in: $ => seq($.arrow_parameters, "=>", $.concise_body_in),
+
+        arrow_function_yield: $ => seq($.arrow_parameters_yield, "=>", $.concise_body),
+
+        arrow_function_in_yield: $ => seq($.arrow_parameters_yield, "=>", $.concise_body_in),
+
+        arrow_parameters: $ => choice(
+            $.binding_identifier,
+            $.cover_parenthesized_expression_and_arrow_parameter_list
+        ),
+
+        arrow_parameters_yield: $ => choice(
+            $.binding_identifier_yield,
+            $.cover_parenthesized_expression_and_arrow_parameter_list_yield
+        ),
+
+        concise_body: $ => choice(
+            $.assignment_expression,
+            seq("{", $.function_body, "}")
+        ),
+
+        concise_body_in: $ => choice(
+            $.assignment_expression_in,
+            seq("{", $.function_body, "}")
+        ),
+
+        method_definition: $ => choice(
+            seq($.property_name, "(", $.strict_formal_parameters, ")", "{", $.function_body, "}"),
+            $.generator_method,
+            seq("get", $.property_name, "(", ")", "{", $.function_body, "}"),
+            seq("set", $.property_name, "(", $.property_set_parameter_list, ")", "{", $.function_body, "}")
+        ),
+
+        method_definition_yield: $ => choice(
+            seq($.property_name_yield, "(", $.strict_formal_parameters, ")", "{", $.function_body, "}"),
+            $.generator_method_yield,
+            seq("get", $.property_name_yield, "(", ")", "{", $.function_body, "}"),
+            seq("set", $.property_name_yield, "(", $.property_set_parameter_list, ")", "{", $.function_body, "}")
+        ),
+
+        property_set_parameter_list: $ => $.formal_parameter,
+
+        generator_method: $ => seq("*", $.property_name, "(", $.strict_formal_parameters_yield, ")", "{", $.generator_body, "}"),
+
+        generator_method_yield: $ => seq("*", $.property_name_yield, "(", $.strict_formal_parameters_yield, ")", "{", $.generator_body, "}"),
+
+        generator_declaration: $ => seq("function", "*", $.binding_identifier, "(", $.formal_parameters_yield, ")", "{", $.generator_body, "}"),
+
+        generator_declaration_yield: $ => seq("function", "*", $.binding_identifier_yield, "(", $.formal_parameters_yield, ")", "{", $.generator_body, "}"),
+
+        generator_declaration_default: $ => choice(
+            seq("function", "*", $.binding_identifier, "(", $.formal_parameters_yield, ")", "{", $.generator_body, "}"),
+            seq("function", "*", "(", $.formal_parameters_yield, ")", "{", $.generator_body, "}")
+        ),
+
+        generator_expression: $ => seq("function", "*", optional($.binding_identifier_yield), "(", $.formal_parameters_yield, ")", "{", $.generator_body, "}"),
+
+        generator_body: $ => $.function_body_yield,
+
+        yield_expression: $ => choice(
+            "yield",
+            seq("yield", $.assignment_expression_yield),
+            seq("yield", "*", $.assignment_expression_yield)
+        ),
+
+        yield_expression_in: $ => choice(
+            "yield",
+            seq("yield", $.assignment_expression_in_yield),
+            seq("yield", "*", $.assignment_expression_in_yield)
+        ),
+
+        class_declaration: $ => seq("class", $.binding_identifier, $.class_tail),
+
+        class_declaration_yield: $ => seq("class", $.binding_identifier_yield, $.class_tail_yield),
+
+        class_declaration_default: $ => choice(
+            seq("class", $.binding_identifier, $.class_tail),
+            seq("class", $.class_tail)
+        ),
+
+        class_expression: $ => seq("class", optional($.binding_identifier), $.class_tail),
+
+        class_expression_yield: $ => seq("class", optional($.binding_identifier_yield), $.class_tail_yield),
+
+        class_tail: $ => seq(optional($.class_heritage), "{", optional($.class_body), "}"),
+
+        class_tail_yield: $ => seq(optional($.class_heritage_yield), "{", optional($.class_body_yield), "}"),
+
+        class_heritage: $ => seq("extends", $.left_hand_side_expression),
+
+        class_heritage_yield: $ => seq("extends", $.left_hand_side_expression_yield),
+
+        class_body: $ => $.class_element_list,
+
+        class_body_yield: $ => $.class_element_list_yield,
+
+        class_element_list: $ => choice(
+            $.class_element,
+            seq($.class_element_list, $.class_element)
+        ),
+
+        class_element_list_yield: $ => choice(
+            $.class_element_yield,
+            seq($.class_element_list_yield, $.class_element_yield)
+        ),
+
+        class_element: $ => choice(
+            $.method_definition,
+            seq("static", $.method_definition),
+            ";"
+        ),
+
+        class_element_yield: $ => choice(
+            $.method_definition_yield,
+            seq("static", $.method_definition_yield),
+            ";"
+        ),
+
+        script: $ => optional($.script_body),
+
+        script_body: $ => $.statement_list,
+
+        module: $ => optional($.module_body),
+
+        module_body: $ => $.module_item_list,
+
+        module_item_list: $ => choice(
+            $.module_item,
+            seq($.module_item_list, $.module_item)
+        ),
+
+        module_item: $ => choice(
+            $.import_declaration,
+            $.export_declaration,
+            $.statement_list_item
+        ),
+
+        import_declaration: $ => choice(
+            seq("import", $.import_clause, $.from_clause, ";"),
+            seq("import", $.module_specifier, ";")
+        ),
+
+        import_clause: $ => choice(
+            $.imported_default_binding,
+            $.name_space_import,
+            $.named_imports,
+            seq($.imported_default_binding, ",", $.name_space_import),
+            seq($.imported_default_binding, ",", $.named_imports)
+        ),
+
+        imported_default_binding: $ => $.imported_binding,
+
+        name_space_import: $ => seq("*", "as", $.imported_binding),
+
+        named_imports: $ => choice(
+            seq("{", "}"),
+            seq("{", $.imports_list, "}"),
+            seq("{", $.imports_list, ",", "}")
+        ),
+
+        from_clause: $ => seq("from", $.module_specifier),
+
+        imports_list: $ => choice(
+            $.import_specifier,
+            seq($.imports_list, ",", $.import_specifier)
+        ),
+
+        import_specifier: $ => choice(
+            $.imported_binding,
+            seq($.identifier_name, "as", $.imported_binding)
+        ),
+
+        module_specifier: $ => $.string_literal,
+
+        imported_binding: $ => $.binding_identifier,
+
+        export_declaration: $ => choice(
+            seq("export", "*", $.from_clause, ";"),
+            seq("export", $.export_clause, $.from_clause, ";"),
+            seq("export", $.export_clause, ";"),
+            seq("export", $.variable_statement),
+            seq("export", $.declaration),
+            seq("export", "default", $.hoistable_declaration_default),
+            seq("export", "default", $.class_declaration_default),
+            seq("export", "default", $.assignment_expression_in, ";")
+        ),
+
+        export_clause: $ => choice(
+            seq("{", "}"),
+            seq("{", $.exports_list, "}"),
+            seq("{", $.exports_list, ",", "}")
+        ),
+
+        exports_list: $ => choice(
+            $.export_specifier,
+            seq($.exports_list, ",", $.export_specifier)
+        ),
+
+        export_specifier: $ => choice(
+            $.identifier_name,
+            seq($.identifier_name, "as", $.identifier_name)
+        ),
+
+        line_terminator: $ => token(choice(
+            "\n",
+            "\r",
+            " ",
+            " "
+        )),
+
+        identifier_name: $ => token(seq(choice(/[\p{ID_Start}\p{Other_ID_Start}]/, "$", "_", seq("\\", choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), repeat(choice(/[\p{ID_Continue}\p{Other_ID_Continue}\p{Other_ID_Start}]/, "$", "_", seq("\\", choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}"))), "‌", "‍")))),
+
+        null_literal: $ => "null",
+
+        boolean_literal: $ => token(choice(
+            "true",
+            "false"
+        )),
+
+        numeric_literal: $ => token(choice(
+            choice(seq(choice("0", seq(/[1-9]/, optional(seq(/[0-9]/, repeat(/[0-9]/))))), ".", optional(seq(/[0-9]/, repeat(/[0-9]/))), optional(seq(/[Ee]/, choice(seq(/[0-9]/, repeat(/[0-9]/)), seq("+", seq(/[0-9]/, repeat(/[0-9]/))), seq("-", seq(/[0-9]/, repeat(/[0-9]/))))))), seq(".", seq(/[0-9]/, repeat(/[0-9]/)), optional(seq(/[Ee]/, choice(seq(/[0-9]/, repeat(/[0-9]/)), seq("+", seq(/[0-9]/, repeat(/[0-9]/))), seq("-", seq(/[0-9]/, repeat(/[0-9]/))))))), seq(choice("0", seq(/[1-9]/, optional(seq(/[0-9]/, repeat(/[0-9]/))))), optional(seq(/[Ee]/, choice(seq(/[0-9]/, repeat(/[0-9]/)), seq("+", seq(/[0-9]/, repeat(/[0-9]/))), seq("-", seq(/[0-9]/, repeat(/[0-9]/)))))))),
+            choice(seq("0b", seq(/[0-1]/, repeat(/[0-1]/))), seq("0B", seq(/[0-1]/, repeat(/[0-1]/)))),
+            choice(seq("0o", seq(/[0-7]/, repeat(/[0-7]/))), seq("0O", seq(/[0-7]/, repeat(/[0-7]/)))),
+            choice(seq("0x", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/))), seq("0X", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/))))
+        )),
+
+        string_literal: $ => token(choice(
+            seq("\"", optional(seq(repeat(choice(/[^\u000A\u000D"\\\u2028-\u2029]/, seq("\\", choice(/[^\u000A\u000D0-9ux\u2028-\u2029]/, "0", seq("x", /[0-9A-Fa-f]/, /[0-9A-Fa-f]/), choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), seq("\\", choice("\n", "\r", " ", " ", seq("\r", "\n"))))), choice(/[^\u000A\u000D"\\\u2028-\u2029]/, seq("\\", choice(/[^\u000A\u000D0-9ux\u2028-\u2029]/, "0", seq("x", /[0-9A-Fa-f]/, /[0-9A-Fa-f]/), choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), seq("\\", choice("\n", "\r", " ", " ", seq("\r", "\n")))))), "\""),
+            seq("'", optional(seq(repeat(choice(/[^\u000A\u000D'\\\u2028-\u2029]/, seq("\\", choice(/[^\u000A\u000D0-9ux\u2028-\u2029]/, "0", seq("x", /[0-9A-Fa-f]/, /[0-9A-Fa-f]/), choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), seq("\\", choice("\n", "\r", " ", " ", seq("\r", "\n"))))), choice(/[^\u000A\u000D'\\\u2028-\u2029]/, seq("\\", choice(/[^\u000A\u000D0-9ux\u2028-\u2029]/, "0", seq("x", /[0-9A-Fa-f]/, /[0-9A-Fa-f]/), choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), seq("\\", choice("\n", "\r", " ", " ", seq("\r", "\n")))))), "'")
+        )),
+
+        regular_expression_literal: $ => token(seq("/", seq(choice(/[^\u000A\u000D*\/\[-\\\u2028-\u2029]/, seq("\\", /[^\u000A\u000D\u2028-\u2029]/), seq("[", seq(blank(), repeat(choice(/[^\u000A\u000D\\-\]\u2028-\u2029]/, seq("\\", /[^\u000A\u000D\u2028-\u2029]/)))), "]")), seq(blank(), repeat(choice(/[^\u000A\u000D\/\[-\\\u2028-\u2029]/, seq("\\", /[^\u000A\u000D\u2028-\u2029]/), seq("[", seq(blank(), repeat(choice(/[^\u000A\u000D\\-\]\u2028-\u2029]/, seq("\\", /[^\u000A\u000D\u2028-\u2029]/)))), "]"))))), "/", seq(blank(), repeat(choice(/[\p{ID_Continue}\p{Other_ID_Continue}\p{Other_ID_Start}]/, "$", "_", seq("\\", choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}"))), "‌", "‍"))))),
+
+        no_substitution_template: $ => token(seq("`", optional(seq(repeat(choice("$", seq("\\", choice(/[^\u000A\u000D0-9ux\u2028-\u2029]/, "0", seq("x", /[0-9A-Fa-f]/, /[0-9A-Fa-f]/), choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), seq("\\", choice("\n", "\r", " ", " ", seq("\r", "\n"))), choice("\n", "\r", " ", " ", seq("\r", "\n")), /[^\u000A\u000D$\\`\u2028-\u2029]/)), choice("$", seq("\\", choice(/[^\u000A\u000D0-9ux\u2028-\u2029]/, "0", seq("x", /[0-9A-Fa-f]/, /[0-9A-Fa-f]/), choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), seq("\\", choice("\n", "\r", " ", " ", seq("\r", "\n"))), choice("\n", "\r", " ", " ", seq("\r", "\n")), /[^\u000A\u000D$\\`\u2028-\u2029]/))), "`")),
+
+        template_head: $ => token(seq("`", optional(seq(repeat(choice("$", seq("\\", choice(/[^\u000A\u000D0-9ux\u2028-\u2029]/, "0", seq("x", /[0-9A-Fa-f]/, /[0-9A-Fa-f]/), choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), seq("\\", choice("\n", "\r", " ", " ", seq("\r", "\n"))), choice("\n", "\r", " ", " ", seq("\r", "\n")), /[^\u000A\u000D$\\`\u2028-\u2029]/)), choice("$", seq("\\", choice(/[^\u000A\u000D0-9ux\u2028-\u2029]/, "0", seq("x", /[0-9A-Fa-f]/, /[0-9A-Fa-f]/), choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), seq("\\", choice("\n", "\r", " ", " ", seq("\r", "\n"))), choice("\n", "\r", " ", " ", seq("\r", "\n")), /[^\u000A\u000D$\\`\u2028-\u2029]/))), "${")),
+
+        template_middle: $ => token(seq("}", optional(seq(repeat(choice("$", seq("\\", choice(/[^\u000A\u000D0-9ux\u2028-\u2029]/, "0", seq("x", /[0-9A-Fa-f]/, /[0-9A-Fa-f]/), choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), seq("\\", choice("\n", "\r", " ", " ", seq("\r", "\n"))), choice("\n", "\r", " ", " ", seq("\r", "\n")), /[^\u000A\u000D$\\`\u2028-\u2029]/)), choice("$", seq("\\", choice(/[^\u000A\u000D0-9ux\u2028-\u2029]/, "0", seq("x", /[0-9A-Fa-f]/, /[0-9A-Fa-f]/), choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), seq("\\", choice("\n", "\r", " ", " ", seq("\r", "\n"))), choice("\n", "\r", " ", " ", seq("\r", "\n")), /[^\u000A\u000D$\\`\u2028-\u2029]/))), "${")),
+
+        template_tail: $ => token(seq("}", optional(seq(repeat(choice("$", seq("\\", choice(/[^\u000A\u000D0-9ux\u2028-\u2029]/, "0", seq("x", /[0-9A-Fa-f]/, /[0-9A-Fa-f]/), choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), seq("\\", choice("\n", "\r", " ", " ", seq("\r", "\n"))), choice("\n", "\r", " ", " ", seq("\r", "\n")), /[^\u000A\u000D$\\`\u2028-\u2029]/)), choice("$", seq("\\", choice(/[^\u000A\u000D0-9ux\u2028-\u2029]/, "0", seq("x", /[0-9A-Fa-f]/, /[0-9A-Fa-f]/), choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), seq("\\", choice("\n", "\r", " ", " ", seq("\r", "\n"))), choice("\n", "\r", " ", " ", seq("\r", "\n")), /[^\u000A\u000D$\\`\u2028-\u2029]/))), "`"))
+    }
+});
\ No newline at end of file
@@ -0,0 +1,1898 @@
+%token YIELD "yield"
+%token IdentifierName
+%token THIS "this"
+%token RegularExpressionLiteral
+%token LPAREN "("
+%token RPAREN ")"
+%token DOT_DOT_DOT "..."
+%token COMMA ","
+%token NullLiteral
+%token BooleanLiteral
+%token NumericLiteral
+%token StringLiteral
+%token LBRACKET "["
+%token RBRACKET "]"
+%token LBRACE "{"
+%token RBRACE "}"
+%token COLON ":"
+%token EQUALS "="
+%token NoSubstitutionTemplate
+%token TemplateHead
+%token TemplateTail
+%token TemplateMiddle
+%token DOT "."
+%token NEW "new"
+%token SUPER "super"
+%token TARGET "target"
+%token PLUS_PLUS "++"
+%token MINUS_MINUS "--"
+%token DELETE "delete"
+%token VOID "void"
+%token TYPEOF "typeof"
+%token PLUS "+"
+%token MINUS "-"
+%token TILDE "~"
+%token EXCLAMATION "!"
+%token ASTERISK "*"
+%token SLASH "/"
+%token PERCENT "%"
+%token LESS_LESS "<<"
+%token GREATER_GREATER ">>"
+%token GREATER_GREATER_GREATER ">>>"
+%token LESS "<"
+%token GREATER ">"
+%token LESS_EQUALS "<="
+%token GREATER_EQUALS ">="
+%token INSTANCEOF "instanceof"
+%token IN "in"
+%token EQUALS_EQUALS "=="
+%token EXCLAMATION_EQUALS "!="
+%token EQUALS_EQUALS_EQUALS "==="
+%token EXCLAMATION_EQUALS_EQUALS "!=="
+%token AMPERSAND "&"
+%token CARET "^"
+%token BAR "|"
+%token AMPERSAND_AMPERSAND "&&"
+%token BAR_BAR "||"
+%token QUESTION "?"
+%token ASTERISK_EQUALS "*="
+%token SLASH_EQUALS "/="
+%token PERCENT_EQUALS "%="
+%token PLUS_EQUALS "+="
+%token MINUS_EQUALS "-="
+%token LESS_LESS_EQUALS "<<="
+%token GREATER_GREATER_EQUALS ">>="
+%token GREATER_GREATER_GREATER_EQUALS ">>>="
+%token AMPERSAND_EQUALS "&="
+%token CARET_EQUALS "^="
+%token BAR_EQUALS "|="
+%token SEMICOLON ";"
+%token LET "let"
+%token CONST "const"
+%token VAR "var"
+%token IF "if"
+%token ELSE "else"
+%token DO "do"
+%token WHILE "while"
+%token FOR "for"
+%token OF "of"
+%token CONTINUE "continue"
+%token BREAK "break"
+%token RETURN "return"
+%token WITH "with"
+%token SWITCH "switch"
+%token CASE "case"
+%token DEFAULT "default"
+%token THROW "throw"
+%token TRY "try"
+%token CATCH "catch"
+%token FINALLY "finally"
+%token DEBUGGER "debugger"
+%token FUNCTION "function"
+%token EQUALS_GREATER "=>"
+%token GET "get"
+%token SET "set"
+%token CLASS "class"
+%token EXTENDS "extends"
+%token STATIC "static"
+%token IMPORT "import"
+%token AS "as"
+%token FROM "from"
+%token EXPORT "export"
+
+%start IdentifierReference
+
+%%
+
+IdentifierReference
+    : Identifier
+    | "yield"
+    ;
+
+IdentifierReference_Yield
+    : Identifier
+    ;
+
+BindingIdentifier
+    : Identifier
+    | "yield"
+    ;
+
+BindingIdentifier_Yield
+    : Identifier
+    ;
+
+LabelIdentifier
+    : Identifier
+    | "yield"
+    ;
+
+LabelIdentifier_Yield
+    : Identifier
+    ;
+
+Identifier
+    : IdentifierName
+    ;
+
+PrimaryExpression
+    : "this"
+    | IdentifierReference
+    | Literal
+    | ArrayLiteral
+    | ObjectLiteral
+    | FunctionExpression
+    | ClassExpression
+    | GeneratorExpression
+    | RegularExpressionLiteral
+    | TemplateLiteral
+    | CoverParenthesizedExpressionAndArrowParameterList
+    ;
+
+PrimaryExpression_Yield
+    : "this"
+    | IdentifierReference_Yield
+    | Literal
+    | ArrayLiteral_Yield
+    | ObjectLiteral_Yield
+    | FunctionExpression
+    | ClassExpression_Yield
+    | GeneratorExpression
+    | RegularExpressionLiteral
+    | TemplateLiteral_Yield
+    | CoverParenthesizedExpressionAndArrowParameterList_Yield
+    ;
+
+CoverParenthesizedExpressionAndArrowParameterList
+    : "(" Expression_In ")"
+    | "(" ")"
+    | "(" "..." BindingIdentifier ")"
+    | "(" Expression_In "," "..." BindingIdentifier ")"
+    ;
+
+CoverParenthesizedExpressionAndArrowParameterList_Yield
+    : "(" Expression_In_Yield ")"
+    | "(" ")"
+    | "(" "..." BindingIdentifier_Yield ")"
+    | "(" Expression_In_Yield "," "..." BindingIdentifier_Yield ")"
+    ;
+
+Literal
+    : NullLiteral
+    | BooleanLiteral
+    | NumericLiteral
+    | StringLiteral
+    ;
+
+ArrayLiteral
+    : "[" Elision_opt "]"
+    | "[" ElementList "]"
+    | "[" ElementList "," Elision_opt "]"
+    ;
+
+ArrayLiteral_Yield
+    : "[" Elision_opt "]"
+    | "[" ElementList_Yield "]"
+    | "[" ElementList_Yield "," Elision_opt "]"
+    ;
+
+ElementList
+    : Elision_opt AssignmentExpression_In
+    | Elision_opt SpreadElement
+    | ElementList "," Elision_opt AssignmentExpression_In
+    | ElementList "," Elision_opt SpreadElement
+    ;
+
+ElementList_Yield
+    : Elision_opt AssignmentExpression_In_Yield
+    | Elision_opt SpreadElement_Yield
+    | ElementList_Yield "," Elision_opt AssignmentExpression_In_Yield
+    | ElementList_Yield "," Elision_opt SpreadElement_Yield
+    ;
+
+Elision
+    : ","
+    | Elision ","
+    ;
+
+SpreadElement
+    : "..." AssignmentExpression_In
+    ;
+
+SpreadElement_Yield
+    : "..." AssignmentExpression_In_Yield
+    ;
+
+ObjectLiteral
+    : "{" "}"
+    | "{" PropertyDefinitionList "}"
+    | "{" PropertyDefinitionList "," "}"
+    ;
+
+ObjectLiteral_Yield
+    : "{" "}"
+    | "{" PropertyDefinitionList_Yield "}"
+    | "{" PropertyDefinitionList_Yield "," "}"
+    ;
+
+PropertyDefinitionList
+    : PropertyDefinition
+    | PropertyDefinitionList "," PropertyDefinition
+    ;
+
+PropertyDefinitionList_Yield
+    : PropertyDefinition_Yield
+    | PropertyDefinitionList_Yield "," PropertyDefinition_Yield
+    ;
+
+PropertyDefinition
+    : IdentifierReference
+    | CoverInitializedName
+    | PropertyName ":" AssignmentExpression_In
+    | MethodDefinition
+    ;
+
+PropertyDefinition_Yield
+    : IdentifierReference_Yield
+    | CoverInitializedName_Yield
+    | PropertyName_Yield ":" AssignmentExpression_In_Yield
+    | MethodDefinition_Yield
+    ;
+
+PropertyName
+    : LiteralPropertyName
+    | ComputedPropertyName
+    ;
+
+PropertyName_Yield
+    : LiteralPropertyName
+    | ComputedPropertyName_Yield
+    ;
+
+LiteralPropertyName
+    : IdentifierName
+    | StringLiteral
+    | NumericLiteral
+    ;
+
+ComputedPropertyName
+    : "[" AssignmentExpression_In "]"
+    ;
+
+ComputedPropertyName_Yield
+    : "[" AssignmentExpression_In_Yield "]"
+    ;
+
+CoverInitializedName
+    : IdentifierReference Initializer_In
+    ;
+
+CoverInitializedName_Yield
+    : IdentifierReference_Yield Initializer_In_Yield
+    ;
+
+Initializer
+    : "=" AssignmentExpression
+    ;
+
+Initializer_In
+    : "=" AssignmentExpression_In
+    ;
+
+Initializer_Yield
+    : "=" AssignmentExpression_Yield
+    ;
+
+Initializer_In_Yield
+    : "=" AssignmentExpression_In_Yield
+    ;
+
+TemplateLiteral
+    : NoSubstitutionTemplate
+    | TemplateHead Expression_In TemplateSpans
+    ;
+
+TemplateLiteral_Yield
+    : NoSubstitutionTemplate
+    | TemplateHead Expression_In_Yield TemplateSpans_Yield
+    ;
+
+TemplateSpans
+    : TemplateTail
+    | TemplateMiddleList TemplateTail
+    ;
+
+TemplateSpans_Yield
+    : TemplateTail
+    | TemplateMiddleList_Yield TemplateTail
+    ;
+
+TemplateMiddleList
+    : TemplateMiddle Expression_In
+    | TemplateMiddleList TemplateMiddle Expression_In
+    ;
+
+TemplateMiddleList_Yield
+    : TemplateMiddle Expression_In_Yield
+    | TemplateMiddleList_Yield TemplateMiddle Expression_In_Yield
+    ;
+
+MemberExpression
+    : PrimaryExpression
+    | MemberExpression "[" Expression_In "]"
+    | MemberExpression "." IdentifierName
+    | MemberExpression TemplateLiteral
+    | SuperProperty
+    | MetaProperty
+    | "new" MemberExpression Arguments
+    ;
+
+MemberExpression_Yield
+    : PrimaryExpression_Yield
+    | MemberExpression_Yield "[" Expression_In_Yield "]"
+    | MemberExpression_Yield "." IdentifierName
+    | MemberExpression_Yield TemplateLiteral_Yield
+    | SuperProperty_Yield
+    | MetaProperty
+    | "new" MemberExpression_Yield Arguments_Yield
+    ;
+
+SuperProperty
+    : "super" "[" Expression_In "]"
+    | "super" "." IdentifierName
+    ;
+
+SuperProperty_Yield
+    : "super" "[" Expression_In_Yield "]"
+    | "super" "." IdentifierName
+    ;
+
+MetaProperty
+    : NewTarget
+    ;
+
+NewTarget
+    : "new" "." "target"
+    ;
+
+NewExpression
+    : MemberExpression
+    | "new" NewExpression
+    ;
+
+NewExpression_Yield
+    : MemberExpression_Yield
+    | "new" NewExpression_Yield
+    ;
+
+CallExpression
+    : MemberExpression Arguments
+    | SuperCall
+    | CallExpression Arguments
+    | CallExpression "[" Expression_In "]"
+    | CallExpression "." IdentifierName
+    | CallExpression TemplateLiteral
+    ;
+
+CallExpression_Yield
+    : MemberExpression_Yield Arguments_Yield
+    | SuperCall_Yield
+    | CallExpression_Yield Arguments_Yield
+    | CallExpression_Yield "[" Expression_In_Yield "]"
+    | CallExpression_Yield "." IdentifierName
+    | CallExpression_Yield TemplateLiteral_Yield
+    ;
+
+SuperCall
+    : "super" Arguments
+    ;
+
+SuperCall_Yield
+    : "super" Arguments_Yield
+    ;
+
+Arguments
+    : "(" ")"
+    | "(" ArgumentList ")"
+    ;
+
+Arguments_Yield
+    : "(" ")"
+    | "(" ArgumentList_Yield ")"
+    ;
+
+ArgumentList
+    : AssignmentExpression_In
+    | "..." AssignmentExpression_In
+    | ArgumentList "," AssignmentExpression_In
+    | ArgumentList "," "..." AssignmentExpression_In
+    ;
+
+ArgumentList_Yield
+    : AssignmentExpression_In_Yield
+    | "..." AssignmentExpression_In_Yield
+    | ArgumentList_Yield "," AssignmentExpression_In_Yield
+    | ArgumentList_Yield "," "..." AssignmentExpression_In_Yield
+    ;
+
+LeftHandSideExpression
+    : NewExpression
+    | CallExpression
+    ;
+
+LeftHandSideExpression_Yield
+    : NewExpression_Yield
+    | CallExpression_Yield
+    ;
+
+PostfixExpression
+    : LeftHandSideExpression
+    | LeftHandSideExpression "++"
+    | LeftHandSideExpression "--"
+    ;
+
+PostfixExpression_Yield
+    : LeftHandSideExpression_Yield
+    | LeftHandSideExpression_Yield "++"
+    | LeftHandSideExpression_Yield "--"
+    ;
+
+UnaryExpression
+    : PostfixExpression
+    | "delete" UnaryExpression
+    | "void" UnaryExpression
+    | "typeof" UnaryExpression
+    | "++" UnaryExpression
+    | "--" UnaryExpression
+    | "+" UnaryExpression
+    | "-" UnaryExpression
+    | "~" UnaryExpression
+    | "!" UnaryExpression
+    ;
+
+UnaryExpression_Yield
+    : PostfixExpression_Yield
+    | "delete" UnaryExpression_Yield
+    | "void" UnaryExpression_Yield
+    | "typeof" UnaryExpression_Yield
+    | "++" UnaryExpression_Yield
+    | "--" UnaryExpression_Yield
+    | "+" UnaryExpression_Yield
+    | "-" UnaryExpression_Yield
+    | "~" UnaryExpression_Yield
+    | "!" UnaryExpression_Yield
+    ;
+
+MultiplicativeExpression
+    : UnaryExpression
+    | MultiplicativeExpression MultiplicativeOperator UnaryExpression
+    ;
+
+MultiplicativeExpression_Yield
+    : UnaryExpression_Yield
+    | MultiplicativeExpression_Yield MultiplicativeOperator UnaryExpression_Yield
+    ;
+
+MultiplicativeOperator
+    : "*"
+    | "/"
+    | "%"
+    ;
+
+AdditiveExpression
+    : MultiplicativeExpression
+    | AdditiveExpression "+" MultiplicativeExpression
+    | AdditiveExpression "-" MultiplicativeExpression
+    ;
+
+AdditiveExpression_Yield
+    : MultiplicativeExpression_Yield
+    | AdditiveExpression_Yield "+" MultiplicativeExpression_Yield
+    | AdditiveExpression_Yield "-" MultiplicativeExpression_Yield
+    ;
+
+ShiftExpression
+    : AdditiveExpression
+    | ShiftExpression "<<" AdditiveExpression
+    | ShiftExpression ">>" AdditiveExpression
+    | ShiftExpression ">>>" AdditiveExpression
+    ;
+
+ShiftExpression_Yield
+    : AdditiveExpression_Yield
+    | ShiftExpression_Yield "<<" AdditiveExpression_Yield
+    | ShiftExpression_Yield ">>" AdditiveExpression_Yield
+    | ShiftExpression_Yield ">>>" AdditiveExpression_Yield
+    ;
+
+RelationalExpression
+    : ShiftExpression
+    | RelationalExpression "<" ShiftExpression
+    | RelationalExpression ">" ShiftExpression
+    | RelationalExpression "<=" ShiftExpression
+    | RelationalExpression ">=" ShiftExpression
+    | RelationalExpression "instanceof" ShiftExpression
+    ;
+
+RelationalExpression_In
+    : ShiftExpression
+    | RelationalExpression_In "<" ShiftExpression
+    | RelationalExpression_In ">" ShiftExpression
+    | RelationalExpression_In "<=" ShiftExpression
+    | RelationalExpression_In ">=" ShiftExpression
+    | RelationalExpression_In "instanceof" ShiftExpression
+    | RelationalExpression_In "in" ShiftExpression
+    ;
+
+RelationalExpression_Yield
+    : ShiftExpression_Yield
+    | RelationalExpression_Yield "<" ShiftExpression_Yield
+    | RelationalExpression_Yield ">" ShiftExpression_Yield
+    | RelationalExpression_Yield "<=" ShiftExpression_Yield
+    | RelationalExpression_Yield ">=" ShiftExpression_Yield
+    | RelationalExpression_Yield "instanceof" ShiftExpression_Yield
+    ;
+
+RelationalExpression_In_Yield
+    : ShiftExpression_Yield
+    | RelationalExpression_In_Yield "<" ShiftExpression_Yield
+    | RelationalExpression_In_Yield ">" ShiftExpression_Yield
+    | RelationalExpression_In_Yield "<=" ShiftExpression_Yield
+    | RelationalExpression_In_Yield ">=" ShiftExpression_Yield
+    | RelationalExpression_In_Yield "instanceof" ShiftExpression_Yield
+    | RelationalExpression_In_Yield "in" ShiftExpression_Yield
+    ;
+
+EqualityExpression
+    : RelationalExpression
+    | EqualityExpression "==" RelationalExpression
+    | EqualityExpression "!=" RelationalExpression
+    | EqualityExpression "===" RelationalExpression
+    | EqualityExpression "!==" RelationalExpression
+    ;
+
+EqualityExpression_In
+    : RelationalExpression_In
+    | EqualityExpression_In "==" RelationalExpression_In
+    | EqualityExpression_In "!=" RelationalExpression_In
+    | EqualityExpression_In "===" RelationalExpression_In
+    | EqualityExpression_In "!==" RelationalExpression_In
+    ;
+
+EqualityExpression_Yield
+    : RelationalExpression_Yield
+    | EqualityExpression_Yield "==" RelationalExpression_Yield
+    | EqualityExpression_Yield "!=" RelationalExpression_Yield
+    | EqualityExpression_Yield "===" RelationalExpression_Yield
+    | EqualityExpression_Yield "!==" RelationalExpression_Yield
+    ;
+
+EqualityExpression_In_Yield
+    : RelationalExpression_In_Yield
+    | EqualityExpression_In_Yield "==" RelationalExpression_In_Yield
+    | EqualityExpression_In_Yield "!=" RelationalExpression_In_Yield
+    | EqualityExpression_In_Yield "===" RelationalExpression_In_Yield
+    | EqualityExpression_In_Yield "!==" RelationalExpression_In_Yield
+    ;
+
+BitwiseANDExpression
+    : EqualityExpression
+    | BitwiseANDExpression "&" EqualityExpression
+    ;
+
+BitwiseANDExpression_In
+    : EqualityExpression_In
+    | BitwiseANDExpression_In "&" EqualityExpression_In
+    ;
+
+BitwiseANDExpression_Yield
+    : EqualityExpression_Yield
+    | BitwiseANDExpression_Yield "&" EqualityExpression_Yield
+    ;
+
+BitwiseANDExpression_In_Yield
+    : EqualityExpression_In_Yield
+    | BitwiseANDExpression_In_Yield "&" EqualityExpression_In_Yield
+    ;
+
+BitwiseXORExpression
+    : BitwiseANDExpression
+    | BitwiseXORExpression "^" BitwiseANDExpression
+    ;
+
+BitwiseXORExpression_In
+    : BitwiseANDExpression_In
+    | BitwiseXORExpression_In "^" BitwiseANDExpression_In
+    ;
+
+BitwiseXORExpression_Yield
+    : BitwiseANDExpression_Yield
+    | BitwiseXORExpression_Yield "^" BitwiseANDExpression_Yield
+    ;
+
+BitwiseXORExpression_In_Yield
+    : BitwiseANDExpression_In_Yield
+    | BitwiseXORExpression_In_Yield "^" BitwiseANDExpression_In_Yield
+    ;
+
+BitwiseORExpression
+    : BitwiseXORExpression
+    | BitwiseORExpression "|" BitwiseXORExpression
+    ;
+
+BitwiseORExpression_In
+    : BitwiseXORExpression_In
+    | BitwiseORExpression_In "|" BitwiseXORExpression_In
+    ;
+
+BitwiseORExpression_Yield
+    : BitwiseXORExpression_Yield
+    | BitwiseORExpression_Yield "|" BitwiseXORExpression_Yield
+    ;
+
+BitwiseORExpression_In_Yield
+    : BitwiseXORExpression_In_Yield
+    | BitwiseORExpression_In_Yield "|" BitwiseXORExpression_In_Yield
+    ;
+
+LogicalANDExpression
+    : BitwiseORExpression
+    | LogicalANDExpression "&&" BitwiseORExpression
+    ;
+
+LogicalANDExpression_In
+    : BitwiseORExpression_In
+    | LogicalANDExpression_In "&&" BitwiseORExpression_In
+    ;
+
+LogicalANDExpression_Yield
+    : BitwiseORExpression_Yield
+    | LogicalANDExpression_Yield "&&" BitwiseORExpression_Yield
+    ;
+
+LogicalANDExpression_In_Yield
+    : BitwiseORExpression_In_Yield
+    | LogicalANDExpression_In_Yield "&&" BitwiseORExpression_In_Yield
+    ;
+
+LogicalORExpression
+    : LogicalANDExpression
+    | LogicalORExpression "||" LogicalANDExpression
+    ;
+
+LogicalORExpression_In
+    : LogicalANDExpression_In
+    | LogicalORExpression_In "||" LogicalANDExpression_In
+    ;
+
+LogicalORExpression_Yield
+    : LogicalANDExpression_Yield
+    | LogicalORExpression_Yield "||" LogicalANDExpression_Yield
+    ;
+
+LogicalORExpression_In_Yield
+    : LogicalANDExpression_In_Yield
+    | LogicalORExpression_In_Yield "||" LogicalANDExpression_In_Yield
+    ;
+
+ConditionalExpression
+    : LogicalORExpression
+    | LogicalORExpression "?" AssignmentExpression_In ":" AssignmentExpression
+    ;
+
+ConditionalExpression_In
+    : LogicalORExpression_In
+    | LogicalORExpression_In "?" AssignmentExpression_In ":" AssignmentExpression_In
+    ;
+
+ConditionalExpression_Yield
+    : LogicalORExpression_Yield
+    | LogicalORExpression_Yield "?" AssignmentExpression_In_Yield ":" AssignmentExpression_Yield
+    ;
+
+ConditionalExpression_In_Yield
+    : LogicalORExpression_In_Yield
+    | LogicalORExpression_In_Yield "?" AssignmentExpression_In_Yield ":" AssignmentExpression_In_Yield
+    ;
+
+AssignmentExpression
+    : ConditionalExpression
+    | ArrowFunction
+    | LeftHandSideExpression "=" AssignmentExpression
+    | LeftHandSideExpression AssignmentOperator AssignmentExpression
+    ;
+
+AssignmentExpression_In
+    : ConditionalExpression_In
+    | ArrowFunction_In
+    | LeftHandSideExpression "=" AssignmentExpression_In
+    | LeftHandSideExpression AssignmentOperator AssignmentExpression_In
+    ;
+
+AssignmentExpression_Yield
+    : ConditionalExpression_Yield
+    | YieldExpression
+    | ArrowFunction_Yield
+    | LeftHandSideExpression_Yield "=" AssignmentExpression_Yield
+    | LeftHandSideExpression_Yield AssignmentOperator AssignmentExpression_Yield
+    ;
+
+AssignmentExpression_In_Yield
+    : ConditionalExpression_In_Yield
+    | YieldExpression_In
+    | ArrowFunction_In_Yield
+    | LeftHandSideExpression_Yield "=" AssignmentExpression_In_Yield
+    | LeftHandSideExpression_Yield AssignmentOperator AssignmentExpression_In_Yield
+    ;
+
+AssignmentOperator
+    : "*="
+    | "/="
+    | "%="
+    | "+="
+    | "-="
+    | "<<="
+    | ">>="
+    | ">>>="
+    | "&="
+    | "^="
+    | "|="
+    ;
+
+Expression
+    : AssignmentExpression
+    | Expression "," AssignmentExpression
+    ;
+
+Expression_In
+    : AssignmentExpression_In
+    | Expression_In "," AssignmentExpression_In
+    ;
+
+Expression_Yield
+    : AssignmentExpression_Yield
+    | Expression_Yield "," AssignmentExpression_Yield
+    ;
+
+Expression_In_Yield
+    : AssignmentExpression_In_Yield
+    | Expression_In_Yield "," AssignmentExpression_In_Yield
+    ;
+
+Statement
+    : BlockStatement
+    | VariableStatement
+    | EmptyStatement
+    | ExpressionStatement
+    | IfStatement
+    | BreakableStatement
+    | ContinueStatement
+    | BreakStatement
+    | WithStatement
+    | LabelledStatement
+    | ThrowStatement
+    | TryStatement
+    | DebuggerStatement
+    ;
+
+Statement_Return
+    : BlockStatement_Return
+    | VariableStatement
+    | EmptyStatement
+    | ExpressionStatement
+    | IfStatement_Return
+    | BreakableStatement_Return
+    | ContinueStatement
+    | BreakStatement
+    | ReturnStatement
+    | WithStatement_Return
+    | LabelledStatement_Return
+    | ThrowStatement
+    | TryStatement_Return
+    | DebuggerStatement
+    ;
+
+Statement_Yield_Return
+    : BlockStatement_Yield_Return
+    | VariableStatement_Yield
+    | EmptyStatement
+    | ExpressionStatement_Yield
+    | IfStatement_Yield_Return
+    | BreakableStatement_Yield_Return
+    | ContinueStatement_Yield
+    | BreakStatement_Yield
+    | ReturnStatement_Yield
+    | WithStatement_Yield_Return
+    | LabelledStatement_Yield_Return
+    | ThrowStatement_Yield
+    | TryStatement_Yield_Return
+    | DebuggerStatement
+    ;
+
+Declaration
+    : HoistableDeclaration
+    | ClassDeclaration
+    | LexicalDeclaration_In
+    ;
+
+Declaration_Yield
+    : HoistableDeclaration_Yield
+    | ClassDeclaration_Yield
+    | LexicalDeclaration_In_Yield
+    ;
+
+HoistableDeclaration
+    : FunctionDeclaration
+    | GeneratorDeclaration
+    ;
+
+HoistableDeclaration_Yield
+    : FunctionDeclaration_Yield
+    | GeneratorDeclaration_Yield
+    ;
+
+HoistableDeclaration_Default
+    : FunctionDeclaration_Default
+    | GeneratorDeclaration_Default
+    ;
+
+BreakableStatement
+    : IterationStatement
+    | SwitchStatement
+    ;
+
+BreakableStatement_Return
+    : IterationStatement_Return
+    | SwitchStatement_Return
+    ;
+
+BreakableStatement_Yield_Return
+    : IterationStatement_Yield_Return
+    | SwitchStatement_Yield_Return
+    ;
+
+BlockStatement
+    : Block
+    ;
+
+BlockStatement_Return
+    : Block_Return
+    ;
+
+BlockStatement_Yield_Return
+    : Block_Yield_Return
+    ;
+
+Block
+    : "{" StatementList_opt "}"
+    ;
+
+Block_Return
+    : "{" StatementList_Return_opt "}"
+    ;
+
+Block_Yield_Return
+    : "{" StatementList_Yield_Return_opt "}"
+    ;
+
+StatementList
+    : StatementListItem
+    | StatementList StatementListItem
+    ;
+
+StatementList_Return
+    : StatementListItem_Return
+    | StatementList_Return StatementListItem_Return
+    ;
+
+StatementList_Yield_Return
+    : StatementListItem_Yield_Return
+    | StatementList_Yield_Return StatementListItem_Yield_Return
+    ;
+
+StatementListItem
+    : Statement
+    | Declaration
+    ;
+
+StatementListItem_Return
+    : Statement_Return
+    | Declaration
+    ;
+
+StatementListItem_Yield_Return
+    : Statement_Yield_Return
+    | Declaration_Yield
+    ;
+
+LexicalDeclaration
+    : LetOrConst BindingList ";"
+    ;
+
+LexicalDeclaration_In
+    : LetOrConst BindingList_In ";"
+    ;
+
+LexicalDeclaration_Yield
+    : LetOrConst BindingList_Yield ";"
+    ;
+
+LexicalDeclaration_In_Yield
+    : LetOrConst BindingList_In_Yield ";"
+    ;
+
+LetOrConst
+    : "let"
+    | "const"
+    ;
+
+BindingList
+    : LexicalBinding
+    | BindingList "," LexicalBinding
+    ;
+
+BindingList_In
+    : LexicalBinding_In
+    | BindingList_In "," LexicalBinding_In
+    ;
+
+BindingList_Yield
+    : LexicalBinding_Yield
+    | BindingList_Yield "," LexicalBinding_Yield
+    ;
+
+BindingList_In_Yield
+    : LexicalBinding_In_Yield
+    | BindingList_In_Yield "," LexicalBinding_In_Yield
+    ;
+
+LexicalBinding
+    : BindingIdentifier Initializer_opt
+    | BindingPattern Initializer
+    ;
+
+LexicalBinding_In
+    : BindingIdentifier Initializer_In_opt
+    | BindingPattern Initializer_In
+    ;
+
+LexicalBinding_Yield
+    : BindingIdentifier_Yield Initializer_Yield_opt
+    | BindingPattern_Yield Initializer_Yield
+    ;
+
+LexicalBinding_In_Yield
+    : BindingIdentifier_Yield Initializer_In_Yield_opt
+    | BindingPattern_Yield Initializer_In_Yield
+    ;
+
+VariableStatement
+    : "var" VariableDeclarationList_In ";"
+    ;
+
+VariableStatement_Yield
+    : "var" VariableDeclarationList_In_Yield ";"
+    ;
+
+VariableDeclarationList
+    : VariableDeclaration
+    | VariableDeclarationList "," VariableDeclaration
+    ;
+
+VariableDeclarationList_In
+    : VariableDeclaration_In
+    | VariableDeclarationList_In "," VariableDeclaration_In
+    ;
+
+VariableDeclarationList_Yield
+    : VariableDeclaration_Yield
+    | VariableDeclarationList_Yield "," VariableDeclaration_Yield
+    ;
+
+VariableDeclarationList_In_Yield
+    : VariableDeclaration_In_Yield
+    | VariableDeclarationList_In_Yield "," VariableDeclaration_In_Yield
+    ;
+
+VariableDeclaration
+    : BindingIdentifier Initializer_opt
+    | BindingPattern Initializer
+    ;
+
+VariableDeclaration_In
+    : BindingIdentifier Initializer_In_opt
+    | BindingPattern Initializer_In
+    ;
+
+VariableDeclaration_Yield
+    : BindingIdentifier_Yield Initializer_Yield_opt
+    | BindingPattern_Yield Initializer_Yield
+    ;
+
+VariableDeclaration_In_Yield
+    : BindingIdentifier_Yield Initializer_In_Yield_opt
+    | BindingPattern_Yield Initializer_In_Yield
+    ;
+
+BindingPattern
+    : ObjectBindingPattern
+    | ArrayBindingPattern
+    ;
+
+BindingPattern_Yield
+    : ObjectBindingPattern_Yield
+    | ArrayBindingPattern_Yield
+    ;
+
+ObjectBindingPattern
+    : "{" "}"
+    | "{" BindingPropertyList "}"
+    | "{" BindingPropertyList "," "}"
+    ;
+
+ObjectBindingPattern_Yield
+    : "{" "}"
+    | "{" BindingPropertyList_Yield "}"
+    | "{" BindingPropertyList_Yield "," "}"
+    ;
+
+ArrayBindingPattern
+    : "[" Elision_opt BindingRestElement_opt "]"
+    | "[" BindingElementList "]"
+    | "[" BindingElementList "," Elision_opt BindingRestElement_opt "]"
+    ;
+
+ArrayBindingPattern_Yield
+    : "[" Elision_opt BindingRestElement_Yield_opt "]"
+    | "[" BindingElementList_Yield "]"
+    | "[" BindingElementList_Yield "," Elision_opt BindingRestElement_Yield_opt "]"
+    ;
+
+BindingPropertyList
+    : BindingProperty
+    | BindingPropertyList "," BindingProperty
+    ;
+
+BindingPropertyList_Yield
+    : BindingProperty_Yield
+    | BindingPropertyList_Yield "," BindingProperty_Yield
+    ;
+
+BindingElementList
+    : BindingElisionElement
+    | BindingElementList "," BindingElisionElement
+    ;
+
+BindingElementList_Yield
+    : BindingElisionElement_Yield
+    | BindingElementList_Yield "," BindingElisionElement_Yield
+    ;
+
+BindingElisionElement
+    : Elision_opt BindingElement
+    ;
+
+BindingElisionElement_Yield
+    : Elision_opt BindingElement_Yield
+    ;
+
+BindingProperty
+    : SingleNameBinding
+    | PropertyName ":" BindingElement
+    ;
+
+BindingProperty_Yield
+    : SingleNameBinding_Yield
+    | PropertyName_Yield ":" BindingElement_Yield
+    ;
+
+BindingElement
+    : SingleNameBinding
+    | BindingPattern Initializer_In_opt
+    ;
+
+BindingElement_Yield
+    : SingleNameBinding_Yield
+    | BindingPattern_Yield Initializer_In_Yield_opt
+    ;
+
+SingleNameBinding
+    : BindingIdentifier Initializer_In_opt
+    ;
+
+SingleNameBinding_Yield
+    : BindingIdentifier_Yield Initializer_In_Yield_opt
+    ;
+
+BindingRestElement
+    : "..." BindingIdentifier
+    ;
+
+BindingRestElement_Yield
+    : "..." BindingIdentifier_Yield
+    ;
+
+EmptyStatement
+    : ";"
+    ;
+
+ExpressionStatement
+    : Expression_In ";"
+    ;
+
+ExpressionStatement_Yield
+    : Expression_In_Yield ";"
+    ;
+
+IfStatement
+    : "if" "(" Expression_In ")" Statement "else" Statement
+    | "if" "(" Expression_In ")" Statement
+    ;
+
+IfStatement_Return
+    : "if" "(" Expression_In ")" Statement_Return "else" Statement_Return
+    | "if" "(" Expression_In ")" Statement_Return
+    ;
+
+IfStatement_Yield_Return
+    : "if" "(" Expression_In_Yield ")" Statement_Yield_Return "else" Statement_Yield_Return
+    | "if" "(" Expression_In_Yield ")" Statement_Yield_Return
+    ;
+
+IterationStatement
+    : "do" Statement "while" "(" Expression_In ")" ";"
+    | "while" "(" Expression_In ")" Statement
+    | "for" "(" Expression_opt ";" Expression_In_opt ";" Expression_In_opt ")" Statement
+    | "for" "(" "var" VariableDeclarationList ";" Expression_In_opt ";" Expression_In_opt ")" Statement
+    | "for" "(" LexicalDeclaration Expression_In_opt ";" Expression_In_opt ")" Statement
+    | "for" "(" LeftHandSideExpression "in" Expression_In ")" Statement
+    | "for" "(" "var" ForBinding "in" Expression_In ")" Statement
+    | "for" "(" ForDeclaration "in" Expression_In ")" Statement
+    | "for" "(" LeftHandSideExpression "of" AssignmentExpression_In ")" Statement
+    | "for" "(" "var" ForBinding "of" AssignmentExpression_In ")" Statement
+    | "for" "(" ForDeclaration "of" AssignmentExpression_In ")" Statement
+    ;
+
+IterationStatement_Return
+    : "do" Statement_Return "while" "(" Expression_In ")" ";"
+    | "while" "(" Expression_In ")" Statement_Return
+    | "for" "(" Expression_opt ";" Expression_In_opt ";" Expression_In_opt ")" Statement_Return
+    | "for" "(" "var" VariableDeclarationList ";" Expression_In_opt ";" Expression_In_opt ")" Statement_Return
+    | "for" "(" LexicalDeclaration Expression_In_opt ";" Expression_In_opt ")" Statement_Return
+    | "for" "(" LeftHandSideExpression "in" Expression_In ")" Statement_Return
+    | "for" "(" "var" ForBinding "in" Expression_In ")" Statement_Return
+    | "for" "(" ForDeclaration "in" Expression_In ")" Statement_Return
+    | "for" "(" LeftHandSideExpression "of" AssignmentExpression_In ")" Statement_Return
+    | "for" "(" "var" ForBinding "of" AssignmentExpression_In ")" Statement_Return
+    | "for" "(" ForDeclaration "of" AssignmentExpression_In ")" Statement_Return
+    ;
+
+IterationStatement_Yield_Return
+    : "do" Statement_Yield_Return "while" "(" Expression_In_Yield ")" ";"
+    | "while" "(" Expression_In_Yield ")" Statement_Yield_Return
+    | "for" "(" Expression_Yield_opt ";" Expression_In_Yield_opt ";" Expression_In_Yield_opt ")" Statement_Yield_Return
+    | "for" "(" "var" VariableDeclarationList_Yield ";" Expression_In_Yield_opt ";" Expression_In_Yield_opt ")" Statement_Yield_Return
+    | "for" "(" LexicalDeclaration_Yield Expression_In_Yield_opt ";" Expression_In_Yield_opt ")" Statement_Yield_Return
+    | "for" "(" LeftHandSideExpression_Yield "in" Expression_In_Yield ")" Statement_Yield_Return
+    | "for" "(" "var" ForBinding_Yield "in" Expression_In_Yield ")" Statement_Yield_Return
+    | "for" "(" ForDeclaration_Yield "in" Expression_In_Yield ")" Statement_Yield_Return
+    | "for" "(" LeftHandSideExpression_Yield "of" AssignmentExpression_In_Yield ")" Statement_Yield_Return
+    | "for" "(" "var" ForBinding_Yield "of" AssignmentExpression_In_Yield ")" Statement_Yield_Return
+    | "for" "(" ForDeclaration_Yield "of" AssignmentExpression_In_Yield ")" Statement_Yield_Return
+    ;
+
+ForDeclaration
+    : LetOrConst ForBinding
+    ;
+
+ForDeclaration_Yield
+    : LetOrConst ForBinding_Yield
+    ;
+
+ForBinding
+    : BindingIdentifier
+    | BindingPattern
+    ;
+
+ForBinding_Yield
+    : BindingIdentifier_Yield
+    | BindingPattern_Yield
+    ;
+
+ContinueStatement
+    : "continue" ";"
+    | "continue" LabelIdentifier ";"
+    ;
+
+ContinueStatement_Yield
+    : "continue" ";"
+    | "continue" LabelIdentifier_Yield ";"
+    ;
+
+BreakStatement
+    : "break" ";"
+    | "break" LabelIdentifier ";"
+    ;
+
+BreakStatement_Yield
+    : "break" ";"
+    | "break" LabelIdentifier_Yield ";"
+    ;
+
+ReturnStatement
+    : "return" ";"
+    | "return" Expression_In ";"
+    ;
+
+ReturnStatement_Yield
+    : "return" ";"
+    | "return" Expression_In_Yield ";"
+    ;
+
+WithStatement
+    : "with" "(" Expression_In ")" Statement
+    ;
+
+WithStatement_Return
+    : "with" "(" Expression_In ")" Statement_Return
+    ;
+
+WithStatement_Yield_Return
+    : "with" "(" Expression_In_Yield ")" Statement_Yield_Return
+    ;
+
+SwitchStatement
+    : "switch" "(" Expression_In ")" CaseBlock
+    ;
+
+SwitchStatement_Return
+    : "switch" "(" Expression_In ")" CaseBlock_Return
+    ;
+
+SwitchStatement_Yield_Return
+    : "switch" "(" Expression_In_Yield ")" CaseBlock_Yield_Return
+    ;
+
+CaseBlock
+    : "{" CaseClauses_opt "}"
+    | "{" CaseClauses_opt DefaultClause CaseClauses_opt "}"
+    ;
+
+CaseBlock_Return
+    : "{" CaseClauses_Return_opt "}"
+    | "{" CaseClauses_Return_opt DefaultClause_Return CaseClauses_Return_opt "}"
+    ;
+
+CaseBlock_Yield_Return
+    : "{" CaseClauses_Yield_Return_opt "}"
+    | "{" CaseClauses_Yield_Return_opt DefaultClause_Yield_Return CaseClauses_Yield_Return_opt "}"
+    ;
+
+CaseClauses
+    : CaseClause
+    | CaseClauses CaseClause
+    ;
+
+CaseClauses_Return
+    : CaseClause_Return
+    | CaseClauses_Return CaseClause_Return
+    ;
+
+CaseClauses_Yield_Return
+    : CaseClause_Yield_Return
+    | CaseClauses_Yield_Return CaseClause_Yield_Return
+    ;
+
+CaseClause
+    : "case" Expression_In ":" StatementList_opt
+    ;
+
+CaseClause_Return
+    : "case" Expression_In ":" StatementList_Return_opt
+    ;
+
+CaseClause_Yield_Return
+    : "case" Expression_In_Yield ":" StatementList_Yield_Return_opt
+    ;
+
+DefaultClause
+    : "default" ":" StatementList_opt
+    ;
+
+DefaultClause_Return
+    : "default" ":" StatementList_Return_opt
+    ;
+
+DefaultClause_Yield_Return
+    : "default" ":" StatementList_Yield_Return_opt
+    ;
+
+LabelledStatement
+    : LabelIdentifier ":" LabelledItem
+    ;
+
+LabelledStatement_Return
+    : LabelIdentifier ":" LabelledItem_Return
+    ;
+
+LabelledStatement_Yield_Return
+    : LabelIdentifier_Yield ":" LabelledItem_Yield_Return
+    ;
+
+LabelledItem
+    : Statement
+    | FunctionDeclaration
+    ;
+
+LabelledItem_Return
+    : Statement_Return
+    | FunctionDeclaration
+    ;
+
+LabelledItem_Yield_Return
+    : Statement_Yield_Return
+    | FunctionDeclaration_Yield
+    ;
+
+ThrowStatement
+    : "throw" Expression_In ";"
+    ;
+
+ThrowStatement_Yield
+    : "throw" Expression_In_Yield ";"
+    ;
+
+TryStatement
+    : "try" Block Catch
+    | "try" Block Finally
+    | "try" Block Catch Finally
+    ;
+
+TryStatement_Return
+    : "try" Block_Return Catch_Return
+    | "try" Block_Return Finally_Return
+    | "try" Block_Return Catch_Return Finally_Return
+    ;
+
+TryStatement_Yield_Return
+    : "try" Block_Yield_Return Catch_Yield_Return
+    | "try" Block_Yield_Return Finally_Yield_Return
+    | "try" Block_Yield_Return Catch_Yield_Return Finally_Yield_Return
+    ;
+
+Catch
+    : "catch" "(" CatchParameter ")" Block
+    ;
+
+Catch_Return
+    : "catch" "(" CatchParameter ")" Block_Return
+    ;
+
+Catch_Yield_Return
+    : "catch" "(" CatchParameter_Yield ")" Block_Yield_Return
+    ;
+
+Finally
+    : "finally" Block
+    ;
+
+Finally_Return
+    : "finally" Block_Return
+    ;
+
+Finally_Yield_Return
+    : "finally" Block_Yield_Return
+    ;
+
+CatchParameter
+    : BindingIdentifier
+    | BindingPattern
+    ;
+
+CatchParameter_Yield
+    : BindingIdentifier_Yield
+    | BindingPattern_Yield
+    ;
+
+DebuggerStatement
+    : "debugger" ";"
+    ;
+
+FunctionDeclaration
+    : "function" BindingIdentifier "(" FormalParameters ")" "{" FunctionBody "}"
+    ;
+
+FunctionDeclaration_Yield
+    : "function" BindingIdentifier_Yield "(" FormalParameters ")" "{" FunctionBody "}"
+    ;
+
+FunctionDeclaration_Default
+    : "function" BindingIdentifier "(" FormalParameters ")" "{" FunctionBody "}"
+    | "function" "(" FormalParameters ")" "{" FunctionBody "}"
+    ;
+
+FunctionExpression
+    : "function" BindingIdentifier_opt "(" FormalParameters ")" "{" FunctionBody "}"
+    ;
+
+StrictFormalParameters
+    : FormalParameters
+    ;
+
+StrictFormalParameters_Yield
+    : FormalParameters_Yield
+    ;
+
+FormalParameters
+    : /* empty */
+    | FormalParameterList
+    ;
+
+FormalParameters_Yield
+    : /* empty */
+    | FormalParameterList_Yield
+    ;
+
+FormalParameterList
+    : FunctionRestParameter
+    | FormalsList
+    | FormalsList "," FunctionRestParameter
+    ;
+
+FormalParameterList_Yield
+    : FunctionRestParameter_Yield
+    | FormalsList_Yield
+    | FormalsList_Yield "," FunctionRestParameter_Yield
+    ;
+
+FormalsList
+    : FormalParameter
+    | FormalsList "," FormalParameter
+    ;
+
+FormalsList_Yield
+    : FormalParameter_Yield
+    | FormalsList_Yield "," FormalParameter_Yield
+    ;
+
+FunctionRestParameter
+    : BindingRestElement
+    ;
+
+FunctionRestParameter_Yield
+    : BindingRestElement_Yield
+    ;
+
+FormalParameter
+    : BindingElement
+    ;
+
+FormalParameter_Yield
+    : BindingElement_Yield
+    ;
+
+FunctionBody
+    : FunctionStatementList
+    ;
+
+FunctionBody_Yield
+    : FunctionStatementList_Yield
+    ;
+
+FunctionStatementList
+    : StatementList_Return_opt
+    ;
+
+FunctionStatementList_Yield
+    : StatementList_Yield_Return_opt
+    ;
+
+ArrowFunction
+    : ArrowParameters "=>" ConciseBody
+    ;
+
+ArrowFunction_In
+    : ArrowParameters "=>" ConciseBody_In
+    ;
+
+ArrowFunction_Yield
+    : ArrowParameters_Yield "=>" ConciseBody
+    ;
+
+ArrowFunction_In_Yield
+    : ArrowParameters_Yield "=>" ConciseBody_In
+    ;
+
+ArrowParameters
+    : BindingIdentifier
+    | CoverParenthesizedExpressionAndArrowParameterList
+    ;
+
+ArrowParameters_Yield
+    : BindingIdentifier_Yield
+    | CoverParenthesizedExpressionAndArrowParameterList_Yield
+    ;
+
+ConciseBody
+    : AssignmentExpression
+    | "{" FunctionBody "}"
+    ;
+
+ConciseBody_In
+    : AssignmentExpression_In
+    | "{" FunctionBody "}"
+    ;
+
+MethodDefinition
+    : PropertyName "(" StrictFormalParameters ")" "{" FunctionBody "}"
+    | GeneratorMethod
+    | "get" PropertyName "(" ")" "{" FunctionBody "}"
+    | "set" PropertyName "(" PropertySetParameterList ")" "{" FunctionBody "}"
+    ;
+
+MethodDefinition_Yield
+    : PropertyName_Yield "(" StrictFormalParameters ")" "{" FunctionBody "}"
+    | GeneratorMethod_Yield
+    | "get" PropertyName_Yield "(" ")" "{" FunctionBody "}"
+    | "set" PropertyName_Yield "(" PropertySetParameterList ")" "{" FunctionBody "}"
+    ;
+
+PropertySetParameterList
+    : FormalParameter
+    ;
+
+GeneratorMethod
+    : "*" PropertyName "(" StrictFormalParameters_Yield ")" "{" GeneratorBody "}"
+    ;
+
+GeneratorMethod_Yield
+    : "*" PropertyName_Yield "(" StrictFormalParameters_Yield ")" "{" GeneratorBody "}"
+    ;
+
+GeneratorDeclaration
+    : "function" "*" BindingIdentifier "(" FormalParameters_Yield ")" "{" GeneratorBody "}"
+    ;
+
+GeneratorDeclaration_Yield
+    : "function" "*" BindingIdentifier_Yield "(" FormalParameters_Yield ")" "{" GeneratorBody "}"
+    ;
+
+GeneratorDeclaration_Default
+    : "function" "*" BindingIdentifier "(" FormalParameters_Yield ")" "{" GeneratorBody "}"
+    | "function" "*" "(" FormalParameters_Yield ")" "{" GeneratorBody "}"
+    ;
+
+GeneratorExpression
+    : "function" "*" BindingIdentifier_Yield_opt "(" FormalParameters_Yield ")" "{" GeneratorBody "}"
+    ;
+
+GeneratorBody
+    : FunctionBody_Yield
+    ;
+
+YieldExpression
+    : "yield"
+    | "yield" AssignmentExpression_Yield
+    | "yield" "*" AssignmentExpression_Yield
+    ;
+
+YieldExpression_In
+    : "yield"
+    | "yield" AssignmentExpression_In_Yield
+    | "yield" "*" AssignmentExpression_In_Yield
+    ;
+
+ClassDeclaration
+    : "class" BindingIdentifier ClassTail
+    ;
+
+ClassDeclaration_Yield
+    : "class" BindingIdentifier_Yield ClassTail_Yield
+    ;
+
+ClassDeclaration_Default
+    : "class" BindingIdentifier ClassTail
+    | "class" ClassTail
+    ;
+
+ClassExpression
+    : "class" BindingIdentifier_opt ClassTail
+    ;
+
+ClassExpression_Yield
+    : "class" BindingIdentifier_Yield_opt ClassTail_Yield
+    ;
+
+ClassTail
+    : ClassHeritage_opt "{" ClassBody_opt "}"
+    ;
+
+ClassTail_Yield
+    : ClassHeritage_Yield_opt "{" ClassBody_Yield_opt "}"
+    ;
+
+ClassHeritage
+    : "extends" LeftHandSideExpression
+    ;
+
+ClassHeritage_Yield
+    : "extends" LeftHandSideExpression_Yield
+    ;
+
+ClassBody
+    : ClassElementList
+    ;
+
+ClassBody_Yield
+    : ClassElementList_Yield
+    ;
+
+ClassElementList
+    : ClassElement
+    | ClassElementList ClassElement
+    ;
+
+ClassElementList_Yield
+    : ClassElement_Yield
+    | ClassElementList_Yield ClassElement_Yield
+    ;
+
+ClassElement
+    : MethodDefinition
+    | "static" MethodDefinition
+    | ";"
+    ;
+
+ClassElement_Yield
+    : MethodDefinition_Yield
+    | "static" MethodDefinition_Yield
+    | ";"
+    ;
+
+Script
+    : ScriptBody_opt
+    ;
+
+ScriptBody
+    : StatementList
+    ;
+
+Module
+    : ModuleBody_opt
+    ;
+
+ModuleBody
+    : ModuleItemList
+    ;
+
+ModuleItemList
+    : ModuleItem
+    | ModuleItemList ModuleItem
+    ;
+
+ModuleItem
+    : ImportDeclaration
+    | ExportDeclaration
+    | StatementListItem
+    ;
+
+ImportDeclaration
+    : "import" ImportClause FromClause ";"
+    | "import" ModuleSpecifier ";"
+    ;
+
+ImportClause
+    : ImportedDefaultBinding
+    | NameSpaceImport
+    | NamedImports
+    | ImportedDefaultBinding "," NameSpaceImport
+    | ImportedDefaultBinding "," NamedImports
+    ;
+
+ImportedDefaultBinding
+    : ImportedBinding
+    ;
+
+NameSpaceImport
+    : "*" "as" ImportedBinding
+    ;
+
+NamedImports
+    : "{" "}"
+    | "{" ImportsList "}"
+    | "{" ImportsList "," "}"
+    ;
+
+FromClause
+    : "from" ModuleSpecifier
+    ;
+
+ImportsList
+    : ImportSpecifier
+    | ImportsList "," ImportSpecifier
+    ;
+
+ImportSpecifier
+    : ImportedBinding
+    | IdentifierName "as" ImportedBinding
+    ;
+
+ModuleSpecifier
+    : StringLiteral
+    ;
+
+ImportedBinding
+    : BindingIdentifier
+    ;
+
+ExportDeclaration
+    : "export" "*" FromClause ";"
+    | "export" ExportClause FromClause ";"
+    | "export" ExportClause ";"
+    | "export" VariableStatement
+    | "export" Declaration
+    | "export" "default" HoistableDeclaration_Default
+    | "export" "default" ClassDeclaration_Default
+    | "export" "default" AssignmentExpression_In ";"
+    ;
+
+ExportClause
+    : "{" "}"
+    | "{" ExportsList "}"
+    | "{" ExportsList "," "}"
+    ;
+
+ExportsList
+    : ExportSpecifier
+    | ExportsList "," ExportSpecifier
+    ;
+
+ExportSpecifier
+    : IdentifierName
+    | IdentifierName "as" IdentifierName
+    ;
+
+Elision_opt
+    : /* empty */
+    | Elision
+    ;
+
+StatementList_opt
+    : /* empty */
+    | StatementList
+    ;
+
+StatementList_Return_opt
+    : /* empty */
+    | StatementList_Return
+    ;
+
+StatementList_Yield_Return_opt
+    : /* empty */
+    | StatementList_Yield_Return
+    ;
+
+Initializer_opt
+    : /* empty */
+    | Initializer
+    ;
+
+Initializer_In_opt
+    : /* empty */
+    | Initializer_In
+    ;
+
+Initializer_Yield_opt
+    : /* empty */
+    | Initializer_Yield
+    ;
+
+Initializer_In_Yield_opt
+    : /* empty */
+    | Initializer_In_Yield
+    ;
+
+BindingRestElement_opt
+    : /* empty */
+    | BindingRestElement
+    ;
+
+BindingRestElement_Yield_opt
+    : /* empty */
+    | BindingRestElement_Yield
+    ;
+
+Expression_opt
+    : /* empty */
+    | Expression
+    ;
+
+Expression_In_opt
+    : /* empty */
+    | Expression_In
+    ;
+
+Expression_Yield_opt
+    : /* empty */
+    | Expression_Yield
+    ;
+
+Expression_In_Yield_opt
+    : /* empty */
+    | Expression_In_Yield
+    ;
+
+CaseClauses_opt
+    : /* empty */
+    | CaseClauses
+    ;
+
+CaseClauses_Return_opt
+    : /* empty */
+    | CaseClauses_Return
+    ;
+
+CaseClauses_Yield_Return_opt
+    : /* empty */
+    | CaseClauses_Yield_Return
+    ;
+
+BindingIdentifier_opt
+    : /* empty */
+    | BindingIdentifier
+    ;
+
+BindingIdentifier_Yield_opt
+    : /* empty */
+    | BindingIdentifier_Yield
+    ;
+
+ClassHeritage_opt
+    : /* empty */
+    | ClassHeritage
+    ;
+
+ClassBody_opt
+    : /* empty */
+    | ClassBody
+    ;
+
+ClassHeritage_Yield_opt
+    : /* empty */
+    | ClassHeritage_Yield
+    ;
+
+ClassBody_Yield_opt
+    : /* empty */
+    | ClassBody_Yield
+    ;
+
+ScriptBody_opt
+    : /* empty */
+    | ScriptBody
+    ;
+
+ModuleBody_opt
+    : /* empty */
+    | ModuleBody
+    ;
\ No newline at end of file
@@ -0,0 +1,335 @@
+grammar grammarkdown;
+
+identifier
+    : IdentifierName
+    ;
+
+argument
+    : identifier
+    ;
+
+arguments
+    : '(' ')'
+    | '(' argumentList ')'
+    ;
+
+argumentList
+    : argument
+    | argumentList ',' argument
+    ;
+
+primarySymbol
+    : Terminal
+    | UnicodeCharacterLiteral
+    | nonterminal
+    ;
+
+nonterminal
+    : identifier arguments?
+    ;
+
+optionalSymbol
+    : primarySymbol '?'?
+    ;
+
+orClause
+    : primarySymbol
+    | orClause 'or' primarySymbol
+    ;
+
+oneOfSymbol
+    : primarySymbol
+    | 'one' 'of' orClause
+    ;
+
+unarySymbol
+    : oneOfSymbol
+    ;
+
+butNotSymbol
+    : unarySymbol 'but' 'not' unarySymbol
+    ;
+
+binarySymbol
+    : butNotSymbol
+    | unarySymbol
+    ;
+
+symbolList
+    : primarySymbol
+    | symbolList ',' primarySymbol
+    ;
+
+symbolSet
+    : '{' symbolList '}'
+    ;
+
+emptyAssertionClause
+    : 'empty'
+    ;
+
+lookaheadEqualsAssertionClause
+    : 'lookahead' '==' primarySymbol
+    ;
+
+lookaheadNotEqualsAssertionClause
+    : 'lookahead' '!=' primarySymbol
+    ;
+
+lookaheadInAssertionClause
+    : 'lookahead' '<-' symbolSet
+    ;
+
+lookaheadNotInAssertionClause
+    : 'lookahead' '<!' symbolSet
+    ;
+
+lookaheadAssertionClause
+    : lookaheadEqualsAssertionClause
+    | lookaheadNotEqualsAssertionClause
+    | lookaheadInAssertionClause
+    | lookaheadNotInAssertionClause
+    ;
+
+noSymbolAssertionClause
+    : 'no' orClause 'here'
+    ;
+
+lexicalGoalAssertionClause
+    : 'lexical' 'goal' primarySymbol
+    ;
+
+parameterValueAssertionClause
+    : '~' identifier
+    | '+' identifier
+    ;
+
+assertionClause
+    : emptyAssertionClause
+    | lookaheadAssertionClause
+    | noSymbolAssertionClause
+    | lexicalGoalAssertionClause
+    | parameterValueAssertionClause
+    ;
+
+assertion
+    : '[' assertionClause ']'
+    ;
+
+proseSpan
+    : Prose
+    | proseSpan LineTerminator Prose
+    ;
+
+symbol
+    : assertion
+    | binarySymbol
+    ;
+
+symbolSpan
+    : proseSpan
+    | symbolSpanRest
+    ;
+
+symbolSpanRest
+    : symbol symbolSpanRest?
+    ;
+
+rightHandSideList
+    : rightHandSide rightHandSideList?
+    ;
+
+rightHandSide
+    : symbolSpan LineTerminator
+    ;
+
+terminals
+    : Terminal terminals?
+    ;
+
+terminalList
+    : terminals
+    | terminalList LineTerminator terminals
+    ;
+
+oneOfList
+    : 'one' 'of' terminals
+    | 'one' 'of' LineTerminator Indent terminalList Dedent
+    ;
+
+parameter
+    : identifier
+    ;
+
+parameterList
+    : parameter
+    | parameterList ',' parameter
+    ;
+
+parameters
+    : '(' parameterList ')'
+    ;
+
+production
+    : identifier parameters? ':' oneOfList
+    | identifier parameters? ':' rightHandSide
+    | identifier parameters? ':' LineTerminator Indent rightHandSideList Dedent
+    ;
+
+sourceElement
+    :
+    | production
+    ;
+
+sourceElements
+    : sourceElement sourceElements?
+    ;
+
+sourceFile
+    : sourceElements
+    ;
+
+fragment SourceCharacter
+    : .
+    ;
+
+LineTerminator
+    : '\u000A'
+    | '\u000D'
+    | '\u2028'
+    | '\u2029'
+    ;
+
+IdentifierName
+    : ( IdentifierStart ) ( IdentifierPart )*
+    ;
+
+fragment IdentifierStart
+    : UnicodeIDStart
+    | '_'
+    ;
+
+fragment IdentifierPart
+    : UnicodeIDContinue
+    | '_'
+    | '\u200C'
+    | '\u200D'
+    ;
+
+fragment UnicodeIDStart
+    : [\p{ID_Start}\p{Other_ID_Start}]
+    ;
+
+fragment UnicodeIDContinue
+    : [\p{ID_Continue}\p{Other_ID_Continue}\p{Other_ID_Start}]
+    ;
+
+fragment ReservedWord
+    : Keyword
+    ;
+
+fragment Keyword
+    : 'empty'
+    | 'lookahead'
+    | 'lexical'
+    | 'goal'
+    | 'no'
+    | 'here'
+    | 'one'
+    | 'of'
+    | 'or'
+    | 'but'
+    | 'not'
+    ;
+
+fragment DecimalDigit
+    : '0'
+    | '1'
+    | '2'
+    | '3'
+    | '4'
+    | '5'
+    | '6'
+    | '7'
+    | '8'
+    | '9'
+    ;
+
+fragment HexDigit
+    : '0'
+    | '1'
+    | '2'
+    | '3'
+    | '4'
+    | '5'
+    | '6'
+    | '7'
+    | '8'
+    | '9'
+    | 'a'
+    | 'b'
+    | 'c'
+    | 'd'
+    | 'e'
+    | 'f'
+    | 'A'
+    | 'B'
+    | 'C'
+    | 'D'
+    | 'E'
+    | 'F'
+    ;
+
+UnicodeCharacterLiteral
+    : '<' UnicodeCharacterLiteralChars '>'
+    ;
+
+fragment UnicodeCharacterLiteralChars
+    : UnicodeCharacterLiteralChar UnicodeCharacterLiteralChars?
+    ;
+
+fragment UnicodeCharacterLiteralChar
+    : ~[\u000A\u000D<>\u2028-\u2029]
+    ;
+
+Indent
+    :
+    ;
+
+Dedent
+    :
+    ;
+
+Terminal
+    : '`' '`' '`'
+    | '`' TerminalChars '`'
+    ;
+
+fragment TerminalChars
+    : TerminalChar TerminalChars?
+    ;
+
+fragment TerminalChar
+    : ~[\u000A\u000D`\u2028-\u2029]
+    ;
+
+Prose
+    : ProseLines
+    ;
+
+fragment ProseLines
+    : ProseLine
+    | ProseLine LineTerminator ProseLines
+    ;
+
+fragment ProseLine
+    : '>' ProseChars?
+    ;
+
+fragment ProseChars
+    : ProseChar ProseChars?
+    ;
+
+fragment ProseChar
+    : ~[\u000A\u000D\u2028-\u2029]
+    ;
\ No newline at end of file
@@ -0,0 +1,177 @@
+module.exports = grammar({
+    name: "grammarkdown",
+
+    conflicts: $ => [
+        [$.identifier, $.source_element],
+        [$.source_element, $.source_elements],
+        [$.prose_span, $.symbol_span],
+        [$.primary_symbol, $.terminals]
+    ],
+
+    rules: {
+        identifier: $ => $.identifier_name,
+
+        argument: $ => $.identifier,
+
+        arguments: $ => choice(
+            seq("(", ")"),
+            seq("(", $.argument_list, ")")
+        ),
+
+        argument_list: $ => choice(
+            $.argument,
+            seq($.argument_list, ",", $.argument)
+        ),
+
+        primary_symbol: $ => choice(
+            $.terminal,
+            $.unicode_character_literal,
+            $.nonterminal
+        ),
+
+        nonterminal: $ => seq($.identifier, optional($.arguments)),
+
+        optional_symbol: $ => seq($.primary_symbol, optional("?")),
+
+        or_clause: $ => choice(
+            $.primary_symbol,
+            seq($.or_clause, "or", $.primary_symbol)
+        ),
+
+        one_of_symbol: $ => choice(
+            $.primary_symbol,
+            seq("one", "of", $.or_clause)
+        ),
+
+        unary_symbol: $ => $.one_of_symbol,
+
+        but_not_symbol: $ => seq($.unary_symbol, "but", "not", $.unary_symbol),
+
+        binary_symbol: $ => choice(
+            $.but_not_symbol,
+            $.unary_symbol
+        ),
+
+        symbol_list: $ => choice(
+            $.primary_symbol,
+            seq($.symbol_list, ",", $.primary_symbol)
+        ),
+
+        symbol_set: $ => seq("{", $.symbol_list, "}"),
+
+        empty_assertion_clause: $ => "empty",
+
+        lookahead_equals_assertion_clause: $ => seq("lookahead", "==", $.primary_symbol),
+
+        lookahead_not_equals_assertion_clause: $ => seq("lookahead", "!=", $.primary_symbol),
+
+        lookahead_in_assertion_clause: $ => seq("lookahead", "<-", $.symbol_set),
+
+        lookahead_not_in_assertion_clause: $ => seq("lookahead", "<!", $.symbol_set),
+
+        lookahead_assertion_clause: $ => choice(
+            $.lookahead_equals_assertion_clause,
+            $.lookahead_not_equals_assertion_clause,
+            $.lookahead_in_assertion_clause,
+            $.lookahead_not_in_assertion_clause
+        ),
+
+        no_symbol_assertion_clause: $ => seq("no", $.or_clause, "here"),
+
+        lexical_goal_assertion_clause: $ => seq("lexical", "goal", $.primary_symbol),
+
+        parameter_value_assertion_clause: $ => choice(
+            seq("~", $.identifier),
+            seq("+", $.identifier)
+        ),
+
+        assertion_clause: $ => choice(
+            $.empty_assertion_clause,
+            $.lookahead_assertion_clause,
+            $.no_symbol_assertion_clause,
+            $.lexical_goal_assertion_clause,
+            $.parameter_value_assertion_clause
+        ),
+
+        assertion: $ => seq("[", $.assertion_clause, "]"),
+
+        prose_span: $ => choice(
+            $.prose,
+            seq($.prose_span, $.line_terminator, $.prose)
+        ),
+
+        symbol: $ => choice(
+            $.assertion,
+            $.binary_symbol
+        ),
+
+        symbol_span: $ => choice(
+            $.prose_span,
+            $.symbol_span_rest
+        ),
+
+        symbol_span_rest: $ => seq($.symbol, optional($.symbol_span_rest)),
+
+        right_hand_side_list: $ => seq($.right_hand_side, optional($.right_hand_side_list)),
+
+        right_hand_side: $ => seq($.symbol_span, $.line_terminator),
+
+        terminals: $ => seq($.terminal, optional($.terminals)),
+
+        terminal_list: $ => choice(
+            $.terminals,
+            seq($.terminal_list, $.line_terminator, $.terminals)
+        ),
+
+        one_of_list: $ => choice(
+            seq("one", "of", $.terminals),
+            seq("one", "of", $.line_terminator, $.indent, $.terminal_list, $.dedent)
+        ),
+
+        parameter: $ => $.identifier,
+
+        parameter_list: $ => choice(
+            $.parameter,
+            seq($.parameter_list, ",", $.parameter)
+        ),
+
+        parameters: $ => seq("(", $.parameter_list, ")"),
+
+        production: $ => choice(
+            seq($.identifier, optional($.parameters), ":", $.one_of_list),
+            seq($.identifier, optional($.parameters), ":", $.right_hand_side),
+            seq($.identifier, optional($.parameters), ":", $.line_terminator, $.indent, $.right_hand_side_list, $.dedent)
+        ),
+
+        source_element: $ => choice(
+            blank(),
+            $.production
+        ),
+
+        source_elements: $ => seq($.source_element, optional($.source_elements)),
+
+        source_file: $ => $.source_elements,
+
+        line_terminator: $ => token(choice(
+            "\n",
+            "\r",
+            " ",
+            " "
+        )),
+
+        identifier_name: $ => token(seq(choice(/[\p{ID_Start}\p{Other_ID_Start}]/, "_"), repeat(choice(/[\p{ID_Continue}\p{Other_ID_Continue}\p{Other_ID_Start}]/, "_", "‌", "‍")))),
+
+        unicode_character_literal: $ => token(seq("<", seq(repeat(/[^\u000A\u000D<>\u2028-\u2029]/), /[^\u000A\u000D<>\u2028-\u2029]/), ">")),
+
+        indent: $ => token(blank()),
+
+        dedent: $ => token(blank()),
+
+        terminal: $ => token(choice(
+            seq("`", "`", "`"),
+            seq("`", seq(repeat(/[^\u000A\u000D`\u2028-\u2029]/), /[^\u000A\u000D`\u2028-\u2029]/), "`")
+        )),
+
+        prose: $ => token(seq(repeat(seq(seq(">", optional(seq(repeat(/[^\u000A\u000D\u2028-\u2029]/), /[^\u000A\u000D\u2028-\u2029]/))), /[\u000A\u000D\u2028-\u2029]/)), seq(">", optional(seq(repeat(/[^\u000A\u000D\u2028-\u2029]/), /[^\u000A\u000D\u2028-\u2029]/)))))
+    }
+});
\ No newline at end of file
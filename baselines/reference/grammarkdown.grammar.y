@@ -0,0 +1,261 @@
+%token IdentifierName
+%token LPAREN "("
+%token RPAREN ")"
+%token COMMA ","
+%token Terminal
+%token UnicodeCharacterLiteral
+%token QUESTION "?"
+%token OR "or"
+%token ONE "one"
+%token OF "of"
+%token BUT "but"
+%token NOT "not"
+%token LBRACE "{"
+%token RBRACE "}"
+%token EMPTY "empty"
+%token LOOKAHEAD "lookahead"
+%token EQUALS_EQUALS "=="
+%token EXCLAMATION_EQUALS "!="
+%token LESS_MINUS "<-"
+%token LESS_EXCLAMATION "<!"
+%token NO "no"
+%token HERE "here"
+%token LEXICAL "lexical"
+%token GOAL "goal"
+%token TILDE "~"
+%token PLUS "+"
+%token LBRACKET "["
+%token RBRACKET "]"
+%token Prose
+%token LineTerminator
+%token Indent
+%token Dedent
+%token COLON ":"
+
+%start Identifier
+
+%%
+
+Identifier
+    : IdentifierName
+    ;
+
+Argument
+    : Identifier
+    ;
+
+Arguments
+    : "(" ")"
+    | "(" ArgumentList ")"
+    ;
+
+ArgumentList
+    : Argument
+    | ArgumentList "," Argument
+    ;
+
+PrimarySymbol
+    : Terminal
+    | UnicodeCharacterLiteral
+    | Nonterminal
+    ;
+
+Nonterminal
+    : Identifier Arguments_opt
+    ;
+
+OptionalSymbol
+    : PrimarySymbol QUESTION_opt
+    ;
+
+OrClause
+    : PrimarySymbol
+    | OrClause "or" PrimarySymbol
+    ;
+
+OneOfSymbol
+    : PrimarySymbol
+    | "one" "of" OrClause
+    ;
+
+UnarySymbol
+    : OneOfSymbol
+    ;
+
+ButNotSymbol
+    : UnarySymbol "but" "not" UnarySymbol
+    ;
+
+BinarySymbol
+    : ButNotSymbol
+    | UnarySymbol
+    ;
+
+SymbolList
+    : PrimarySymbol
+    | SymbolList "," PrimarySymbol
+    ;
+
+SymbolSet
+    : "{" SymbolList "}"
+    ;
+
+EmptyAssertionClause
+    : "empty"
+    ;
+
+LookaheadEqualsAssertionClause
+    : "lookahead" "==" PrimarySymbol
+    ;
+
+LookaheadNotEqualsAssertionClause
+    : "lookahead" "!=" PrimarySymbol
+    ;
+
+LookaheadInAssertionClause
+    : "lookahead" "<-" SymbolSet
+    ;
+
+LookaheadNotInAssertionClause
+    : "lookahead" "<!" SymbolSet
+    ;
+
+LookaheadAssertionClause
+    : LookaheadEqualsAssertionClause
+    | LookaheadNotEqualsAssertionClause
+    | LookaheadInAssertionClause
+    | LookaheadNotInAssertionClause
+    ;
+
+NoSymbolAssertionClause
+    : "no" OrClause "here"
+    ;
+
+LexicalGoalAssertionClause
+    : "lexical" "goal" PrimarySymbol
+    ;
+
+ParameterValueAssertionClause
+    : "~" Identifier
+    | "+" Identifier
+    ;
+
+AssertionClause
+    : EmptyAssertionClause
+    | LookaheadAssertionClause
+    | NoSymbolAssertionClause
+    | LexicalGoalAssertionClause
+    | ParameterValueAssertionClause
+    ;
+
+Assertion
+    : "[" AssertionClause "]"
+    ;
+
+ProseSpan
+    : Prose
+    | ProseSpan LineTerminator Prose
+    ;
+
+Symbol
+    : Assertion
+    | BinarySymbol
+    ;
+
+SymbolSpan
+    : ProseSpan
+    | SymbolSpanRest
+    ;
+
+SymbolSpanRest
+    : Symbol SymbolSpanRest_opt
+    ;
+
+RightHandSideList
+    : RightHandSide RightHandSideList_opt
+    ;
+
+RightHandSide
+    : SymbolSpan LineTerminator
+    ;
+
+Terminals
+    : Terminal Terminals_opt
+    ;
+
+TerminalList
+    : Terminals
+    | TerminalList LineTerminator Terminals
+    ;
+
+OneOfList
+    : "one" "of" Terminals
+    | "one" "of" LineTerminator Indent TerminalList Dedent
+    ;
+
+Parameter
+    : Identifier
+    ;
+
+ParameterList
+    : Parameter
+    | ParameterList "," Parameter
+    ;
+
+Parameters
+    : "(" ParameterList ")"
+    ;
+
+Production
+    : Identifier Parameters_opt ":" OneOfList
+    | Identifier Parameters_opt ":" RightHandSide
+    | Identifier Parameters_opt ":" LineTerminator Indent RightHandSideList Dedent
+    ;
+
+SourceElement
+    : /* empty */
+    | Production
+    ;
+
+SourceElements
+    : SourceElement SourceElements_opt
+    ;
+
+SourceFile
+    : SourceElements
+    ;
+
+Arguments_opt
+    : /* empty */
+    | Arguments
+    ;
+
+QUESTION_opt
+    : /* empty */
+    | "?"
+    ;
+
+SymbolSpanRest_opt
+    : /* empty */
+    | SymbolSpanRest
+    ;
+
+RightHandSideList_opt
+    : /* empty */
+    | RightHandSideList
+    ;
+
+Terminals_opt
+    : /* empty */
+    | Terminals
+    ;
+
+Parameters_opt
+    : /* empty */
+    | Parameters
+    ;
+
+SourceElements_opt
+    : /* empty */
+    | SourceElements
+    ;
\ No newline at end of file
@@ -0,0 +1,57 @@
+grammar test;
+
+a
+    : a a
+    ;
+
+b
+    : a
+    ;
+
+c
+    : a
+    | a
+    ;
+
+d
+    : a
+    | a
+    ;
+
+d_A
+    : a
+    | a
+    ;
+
+e
+    : a
+    ;
+
+e_A
+    : a
+    ;
+
+f
+    : e
+    | e_A
+    | e_A
+    | e
+    | e_A
+    | e
+    | e
+    ;
+
+f_A
+    : e
+    | e_A
+    | e_A
+    | e
+    | e_A
+    | e
+    | e_A
+    ;
+
+z
+    : a
+    | b
+    ;
\ No newline at end of file
@@ -0,0 +1,63 @@
+module.exports = grammar({
+    name: "test",
+
+    conflicts: $ => [
+        [$.c],
+        [$.d],
+        [$.f],
+        [$.e, $.e_a],
+        [$.f_a],
+        [$.b, $.z],
+        [$.a]
+    ],
+
+    rules: {
+        a: $ => seq($.a, $.a),
+
+        b: $ => $.a,
+
+        c: $ => choice(
+            $.a,
+            $.a
+        ),
+
+        d: $ => choice(
+            $.a,
+            $.a
+        ),
+
+        d_a: $ => choice(
+            $.a,
+            $.a
+        ),
+
+        e: $ => $.a,
+
+        e_a: $ => $.a,
+
+        f: $ => choice(
+            $.e,
+            $.e_a,
+            $.e_a,
+            $.e,
+            $.e_a,
+            $.e,
+            $.e
+        ),
+
+        f_a: $ => choice(
+            $.e,
+            $.e_a,
+            $.e_a,
+            $.e,
+            $.e_a,
+            $.e,
+            $.e_a
+        ),
+
+        z: $ => choice(
+            $.a,
+            $.b
+        )
+    }
+});
\ No newline at end of file
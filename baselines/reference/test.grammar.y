@@ -0,0 +1,59 @@
+%start A
+
+%%
+
+A
+    : A A
+    ;
+
+B
+    : A
+    ;
+
+C
+    : A
+    | A
+    ;
+
+D
+    : A
+    | A
+    ;
+
+D_A
+    : A
+    | A
+    ;
+
+E
+    : A
+    ;
+
+E_A
+    : A
+    ;
+
+F
+    : E
+    | E_A
+    | E_A
+    | E
+    | E_A
+    | E
+    | E
+    ;
+
+F_A
+    : E
+    | E_A
+    | E_A
+    | E
+    | E_A
+    | E
+    | E_A
+    ;
+
+Z
+    : A
+    | B
+    ;
\ No newline at end of file
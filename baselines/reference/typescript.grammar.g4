@@ -0,0 +1,2419 @@
+grammar typescript;
+
+typeParameters
+    : '<' typeParameterList '>'
+    ;
+
+typeParameterList
+    : typeParameter
+    | typeParameterList ',' typeParameter
+    ;
+
+typeParameter
+    : identifier constraint?
+    ;
+
+constraint
+    : 'extends' type
+    ;
+
+typeArguments
+    : '<' typeArgumentList '>'
+    ;
+
+typeArgumentList
+    : typeArgument
+    | typeArgumentList ',' typeArgument
+    ;
+
+typeArgument
+    : type
+    ;
+
+type
+    : primaryOrUnionType
+    | functionType
+    | constructorType
+    ;
+
+primaryOrUnionType
+    : primaryType
+    | unionType
+    ;
+
+primaryType
+    : parenthesizedType
+    | predefinedType
+    | typeReference
+    | objectType
+    | arrayType
+    | tupleType
+    | typeQuery
+    ;
+
+parenthesizedType
+    : '(' type ')'
+    ;
+
+predefinedType
+    : 'any'
+    | 'number'
+    | 'boolean'
+    | 'string'
+    | 'void'
+    ;
+
+typeReference
+    : typeName typeArguments?
+    ;
+
+typeName
+    : identifier
+    | moduleName '.' identifier
+    ;
+
+moduleName
+    : identifier
+    | moduleName '.' identifier
+    ;
+
+objectType
+    : '{' typeBody? '}'
+    ;
+
+typeBody
+    : typeMemberList ';'?
+    ;
+
+typeMemberList
+    : typeMember
+    | typeMemberList ';' typeMember
+    ;
+
+typeMember
+    : propertySignature
+    | callSignature
+    | constructSignature
+    | indexSignature
+    | methodSignature
+    ;
+
+arrayType
+    : primaryType '[' ']'
+    ;
+
+tupleType
+    : '[' tupleElementTypes ']'
+    ;
+
+tupleElementTypes
+    : tupleElementType
+    | tupleElementTypes ',' tupleElementType
+    ;
+
+tupleElementType
+    : type
+    ;
+
+unionType
+    : primaryOrUnionType '|' primaryType
+    ;
+
+functionType
+    : typeParameters? '(' parameterList? ')' '=>' type
+    ;
+
+constructorType
+    : 'new' typeParameters? '(' parameterList? ')' '=>' type
+    ;
+
+typeQuery
+    : 'typeof' typeQueryExpression
+    ;
+
+typeQueryExpression
+    : identifier
+    | typeQueryExpression '.' IdentifierName
+    ;
+
+propertySignature
+    : propertyName '?'? typeAnnotation?
+    ;
+
+propertyName
+    : IdentifierName
+    | StringLiteral
+    | NumericLiteral
+    | literalPropertyName
+    | computedPropertyName
+    ;
+
+callSignature
+    : typeParameters? '(' parameterList? ')' typeAnnotation?
+    ;
+
+parameterList
+    : requiredParameterList
+    | optionalParameterList
+    | restParameter
+    | requiredParameterList ',' optionalParameterList
+    | requiredParameterList ',' restParameter
+    | optionalParameterList ',' restParameter
+    | requiredParameterList ',' optionalParameterList ',' restParameter
+    ;
+
+requiredParameterList
+    : requiredParameter
+    | requiredParameterList ',' requiredParameter
+    ;
+
+requiredParameter
+    : accessibilityModifier? identifier typeAnnotation?
+    | identifier ':' StringLiteral
+    ;
+
+accessibilityModifier
+    : 'public'
+    | 'private'
+    | 'protected'
+    ;
+
+optionalParameterList
+    : optionalParameter
+    | optionalParameterList ',' optionalParameter
+    ;
+
+optionalParameter
+    : accessibilityModifier? identifier '?' typeAnnotation?
+    | accessibilityModifier? identifier typeAnnotation? initializer
+    | identifier '?' ':' StringLiteral
+    ;
+
+restParameter
+    : '...' identifier typeAnnotation?
+    ;
+
+constructSignature
+    : 'new' typeParameters? '(' parameterList? ')' typeAnnotation?
+    ;
+
+indexSignature
+    : '[' identifier ':' 'string' ']' typeAnnotation
+    | '[' identifier ':' 'number' ']' typeAnnotation
+    ;
+
+methodSignature
+    : propertyName '?'? callSignature
+    ;
+
+typeAliasDeclaration
+    : 'type' identifier '=' type ';'
+    ;
+
+propertyAssignment
+    : propertyName ':' assignmentExpression
+    | propertyName callSignature '{' functionBody '}'
+    | getAccessor
+    | setAccessor
+    ;
+
+getAccessor
+    : 'get' propertyName '(' ')' typeAnnotation? '{' functionBody '}'
+    ;
+
+setAccessor
+    : 'set' propertyName '(' identifier typeAnnotation? ')' '{' functionBody '}'
+    ;
+
+elementList
+    : elision? assignmentExpression
+    | elision? spreadElement
+    | elementList ',' elision? assignmentExpression
+    | elementList ',' elision? spreadElement
+    | elision? assignmentExpression
+    | elision? spreadElement
+    | elementList ',' elision? assignmentExpression
+    | elementList ',' elision? spreadElement
+    ;
+
+spreadElement
+    : '...' assignmentExpression
+    | '...' assignmentExpression
+    ;
+
+callExpression
+    : 'super' '(' argumentList? ')'
+    | 'super' '.' IdentifierName
+    | memberExpression arguments
+    | superCall
+    | callExpression arguments
+    | callExpression '[' expression_In ']'
+    | callExpression '.' IdentifierName
+    | callExpression templateLiteral
+    ;
+
+functionExpression
+    : 'function' identifier? callSignature '{' functionBody '}'
+    | 'function' bindingIdentifier? '(' formalParameters ')' '{' functionBody '}'
+    ;
+
+assignmentExpression
+    : arrowFunctionExpression
+    | conditionalExpression
+    | arrowFunction
+    | leftHandSideExpression '=' assignmentExpression
+    | leftHandSideExpression assignmentOperator assignmentExpression
+    ;
+
+arrowFunctionExpression
+    : arrowFormalParameters '=>' block
+    | arrowFormalParameters '=>' assignmentExpression
+    ;
+
+arrowFormalParameters
+    : callSignature
+    | identifier
+    ;
+
+arguments
+    : typeArguments? '(' argumentList? ')'
+    | '(' ')'
+    | '(' argumentList ')'
+    ;
+
+unaryExpression
+    : '<' type '>' unaryExpression
+    | postfixExpression
+    | 'delete' unaryExpression
+    | 'void' unaryExpression
+    | 'typeof' unaryExpression
+    | '++' unaryExpression
+    | '--' unaryExpression
+    | '+' unaryExpression
+    | '-' unaryExpression
+    | '~' unaryExpression
+    | '!' unaryExpression
+    ;
+
+variableDeclaration
+    : simpleVariableDeclaration
+    | destructuringVariableDeclaration
+    | bindingIdentifier initializer?
+    | bindingPattern initializer
+    ;
+
+simpleVariableDeclaration
+    : identifier typeAnnotation? initializer?
+    ;
+
+typeAnnotation
+    : ':' type
+    ;
+
+destructuringVariableDeclaration
+    : bindingPattern typeAnnotation? initializer
+    ;
+
+bindingPattern
+    : objectBindingPattern
+    | arrayBindingPattern
+    | objectBindingPattern
+    | arrayBindingPattern
+    ;
+
+objectBindingPattern
+    : '{' '}'
+    | '{' bindingPropertyList ','? '}'
+    | '{' '}'
+    | '{' bindingPropertyList '}'
+    | '{' bindingPropertyList ',' '}'
+    ;
+
+bindingPropertyList
+    : bindingProperty
+    | bindingPropertyList ',' bindingProperty
+    | bindingProperty
+    | bindingPropertyList ',' bindingProperty
+    ;
+
+bindingProperty
+    : identifier initializer?
+    | propertyName ':' identifier initializer?
+    | propertyName ':' bindingPattern initializer?
+    | singleNameBinding
+    | propertyName ':' bindingElement
+    ;
+
+arrayBindingPattern
+    : '[' elision? bindingRestElement? ']'
+    | '[' bindingElementList ']'
+    | '[' bindingElementList ',' elision? bindingRestElement? ']'
+    | '[' elision? bindingRestElement? ']'
+    | '[' bindingElementList ']'
+    | '[' bindingElementList ',' elision? bindingRestElement? ']'
+    ;
+
+bindingElementList
+    : elision? bindingElement
+    | bindingElementList ',' elision? bindingElement
+    | bindingElisionElement
+    | bindingElementList ',' bindingElisionElement
+    ;
+
+bindingElement
+    : identifier initializer?
+    | bindingPattern initializer?
+    | singleNameBinding
+    | bindingPattern initializer_In?
+    ;
+
+bindingRestElement
+    : '...' identifier
+    | '...' bindingIdentifier
+    ;
+
+functionDeclaration
+    : functionOverloads? functionImplementation
+    | 'function' bindingIdentifier '(' formalParameters ')' '{' functionBody '}'
+    ;
+
+functionOverloads
+    : functionOverload
+    | functionOverloads functionOverload
+    ;
+
+functionOverload
+    : 'function' identifier callSignature ';'
+    ;
+
+functionImplementation
+    : 'function' identifier callSignature '{' functionBody '}'
+    ;
+
+interfaceDeclaration
+    : 'interface' identifier typeParameters? interfaceExtendsClause? objectType
+    ;
+
+interfaceExtendsClause
+    : 'extends' classOrInterfaceTypeList
+    ;
+
+classOrInterfaceTypeList
+    : classOrInterfaceType
+    | classOrInterfaceTypeList ',' classOrInterfaceType
+    ;
+
+classOrInterfaceType
+    : typeReference
+    ;
+
+classDeclaration
+    : 'class' identifier typeParameters? classHeritage '{' classBody '}'
+    | 'class' bindingIdentifier classTail
+    ;
+
+classHeritage
+    : classExtendsClause? implementsClause?
+    | 'extends' leftHandSideExpression
+    ;
+
+classExtendsClause
+    : 'extends' classType
+    ;
+
+classType
+    : typeReference
+    ;
+
+implementsClause
+    : 'implements' classOrInterfaceTypeList
+    ;
+
+classBody
+    : classElements?
+    | classElementList
+    ;
+
+classElements
+    : classElement
+    | classElements classElement
+    ;
+
+classElement
+    : constructorDeclaration
+    | propertyMemberDeclaration
+    | indexMemberDeclaration
+    | methodDefinition
+    | 'static' methodDefinition
+    | ';'
+    ;
+
+constructorDeclaration
+    : constructorOverloads? constructorImplementation
+    ;
+
+constructorOverloads
+    : constructorOverload
+    | constructorOverloads constructorOverload
+    ;
+
+constructorOverload
+    : accessibilityModifier? 'constructor' '(' parameterList? ')' ';'
+    ;
+
+constructorImplementation
+    : accessibilityModifier? 'constructor' '(' parameterList? ')' '{' functionBody '}'
+    ;
+
+propertyMemberDeclaration
+    : memberVariableDeclaration
+    | memberFunctionDeclaration
+    | memberAccessorDeclaration
+    ;
+
+memberVariableDeclaration
+    : accessibilityModifier? 'static'? propertyName typeAnnotation? initializer? ';'
+    ;
+
+memberFunctionDeclaration
+    : memberFunctionOverloads? memberFunctionImplementation
+    ;
+
+memberFunctionOverloads
+    : memberFunctionOverload
+    | memberFunctionOverloads memberFunctionOverload
+    ;
+
+memberFunctionOverload
+    : accessibilityModifier? 'static'? propertyName callSignature ';'
+    ;
+
+memberFunctionImplementation
+    : accessibilityModifier? 'static'? propertyName callSignature '{' functionBody '}'
+    ;
+
+memberAccessorDeclaration
+    : accessibilityModifier? 'static'? getAccessor
+    | accessibilityModifier? 'static'? setAccessor
+    ;
+
+indexMemberDeclaration
+    : indexSignature ';'
+    ;
+
+enumDeclaration
+    : 'const'? 'enum' identifier '{' enumBody? '}'
+    ;
+
+enumBody
+    : enumMemberList ','?
+    ;
+
+enumMemberList
+    : enumMember
+    | enumMemberList ',' enumMember
+    ;
+
+enumMember
+    : propertyName
+    | propertyName '=' enumValue
+    ;
+
+enumValue
+    : assignmentExpression
+    ;
+
+moduleDeclaration
+    : 'module' identifierPath '{' moduleBody '}'
+    ;
+
+identifierPath
+    : identifier
+    | identifierPath '.' identifier
+    ;
+
+moduleBody
+    : moduleElements?
+    | moduleItemList
+    ;
+
+moduleElements
+    : moduleElement
+    | moduleElements moduleElement
+    ;
+
+moduleElement
+    : statement
+    | 'export'? variableDeclaration
+    | 'export'? functionDeclaration
+    | 'export'? classDeclaration
+    | 'export'? interfaceDeclaration
+    | 'export'? typeAliasDeclaration
+    | 'export'? enumDeclaration
+    | 'export'? moduleDeclaration
+    | 'export'? importDeclaration
+    | 'export'? ambientDeclaration
+    ;
+
+importDeclaration
+    : 'import' identifier '=' entityName ';'
+    | 'import' importClause fromClause ';'
+    | 'import' moduleSpecifier ';'
+    ;
+
+entityName
+    : moduleName
+    | moduleName '.' identifier
+    ;
+
+sourceFile
+    : implementationSourceFile
+    | declarationSourceFile
+    ;
+
+implementationSourceFile
+    : implementationElements?
+    ;
+
+implementationElements
+    : implementationElement
+    | implementationElements implementationElement
+    ;
+
+implementationElement
+    : moduleElement
+    | exportAssignment
+    | ambientExternalModuleDeclaration
+    | 'export'? externalImportDeclaration
+    ;
+
+declarationSourceFile
+    : declarationElements?
+    ;
+
+declarationElements
+    : declarationElement
+    | declarationElements declarationElement
+    ;
+
+declarationElement
+    : exportAssignment
+    | ambientExternalModuleDeclaration
+    | 'export'? interfaceDeclaration
+    | 'export'? typeAliasDeclaration
+    | 'export'? importDeclaration
+    | 'export'? ambientDeclaration
+    | 'export'? externalImportDeclaration
+    ;
+
+externalImportDeclaration
+    : 'import' identifier '=' externalModuleReference ';'
+    ;
+
+externalModuleReference
+    : 'require' '(' StringLiteral ')'
+    ;
+
+exportAssignment
+    : 'export' '=' identifier ';'
+    ;
+
+ambientDeclaration
+    : 'declare' ambientVariableDeclaration
+    | 'declare' ambientFunctionDeclaration
+    | 'declare' ambientClassDeclaration
+    | 'declare' ambientEnumDeclaration
+    | 'declare' ambientModuleDeclaration
+    ;
+
+ambientVariableDeclaration
+    : 'var' identifier typeAnnotation? ';'
+    ;
+
+ambientFunctionDeclaration
+    : 'function' identifier callSignature ';'
+    ;
+
+ambientClassDeclaration
+    : 'class' identifier typeParameters? classHeritage '{' ambientClassBody '}'
+    ;
+
+ambientClassBody
+    : ambientClassBodyElements?
+    ;
+
+ambientClassBodyElements
+    : ambientClassBodyElement
+    | ambientClassBodyElements ambientClassBodyElement
+    ;
+
+ambientClassBodyElement
+    : ambientConstructorDeclaration
+    | ambientPropertyMemberDeclaration
+    | indexSignature
+    ;
+
+ambientConstructorDeclaration
+    : 'constructor' '(' parameterList? ')' ';'
+    ;
+
+ambientPropertyMemberDeclaration
+    : accessibilityModifier? 'static'? propertyName typeAnnotation? ';'
+    | accessibilityModifier? 'static'? propertyName callSignature ';'
+    ;
+
+ambientEnumDeclaration
+    : enumDeclaration
+    ;
+
+ambientModuleDeclaration
+    : 'module' identifierPath '{' ambientModuleBody '}'
+    ;
+
+ambientModuleBody
+    : ambientModuleElements?
+    ;
+
+ambientModuleElements
+    : ambientModuleElement
+    | ambientModuleElements ambientModuleElement
+    ;
+
+ambientModuleElement
+    : 'export'? ambientVariableDeclaration
+    | 'export'? ambientFunctionDeclaration
+    | 'export'? ambientClassDeclaration
+    | 'export'? interfaceDeclaration
+    | 'export'? ambientEnumDeclaration
+    | 'export'? ambientModuleDeclaration
+    | 'export'? importDeclaration
+    ;
+
+ambientExternalModuleDeclaration
+    : 'declare' 'module' StringLiteral '{' ambientExternalModuleBody '}'
+    ;
+
+ambientExternalModuleBody
+    : ambientExternalModuleElements?
+    ;
+
+ambientExternalModuleElements
+    : ambientExternalModuleElement
+    | ambientExternalModuleElements ambientExternalModuleElement
+    ;
+
+ambientExternalModuleElement
+    : ambientModuleElement
+    | exportAssignment
+    | 'export'? externalImportDeclaration
+    ;
+
+identifierReference
+    : identifier
+    | 'yield'
+    ;
+
+identifierReference_Yield
+    : identifier
+    ;
+
+bindingIdentifier
+    : identifier
+    | 'yield'
+    ;
+
+bindingIdentifier_Yield
+    : identifier
+    ;
+
+labelIdentifier
+    : identifier
+    | 'yield'
+    ;
+
+labelIdentifier_Yield
+    : identifier
+    ;
+
+identifier
+    : IdentifierName
+    ;
+
+primaryExpression
+    : 'this'
+    | identifierReference
+    | literal
+    | arrayLiteral
+    | objectLiteral
+    | functionExpression
+    | classExpression
+    | generatorExpression
+    | RegularExpressionLiteral
+    | templateLiteral
+    | coverParenthesizedExpressionAndArrowParameterList
+    ;
+
+primaryExpression_Yield
+    : 'this'
+    | identifierReference_Yield
+    | literal
+    | arrayLiteral_Yield
+    | objectLiteral_Yield
+    | functionExpression
+    | classExpression_Yield
+    | generatorExpression
+    | RegularExpressionLiteral
+    | templateLiteral_Yield
+    | coverParenthesizedExpressionAndArrowParameterList_Yield
+    ;
+
+coverParenthesizedExpressionAndArrowParameterList
+    : '(' expression_In ')'
+    | '(' ')'
+    | '(' '...' bindingIdentifier ')'
+    | '(' expression_In ',' '...' bindingIdentifier ')'
+    ;
+
+coverParenthesizedExpressionAndArrowParameterList_Yield
+    : '(' expression_In_Yield ')'
+    | '(' ')'
+    | '(' '...' bindingIdentifier_Yield ')'
+    | '(' expression_In_Yield ',' '...' bindingIdentifier_Yield ')'
+    ;
+
+literal
+    : NullLiteral
+    | BooleanLiteral
+    | NumericLiteral
+    | StringLiteral
+    ;
+
+arrayLiteral
+    : '[' elision? ']'
+    | '[' elementList ']'
+    | '[' elementList ',' elision? ']'
+    ;
+
+arrayLiteral_Yield
+    : '[' elision? ']'
+    | '[' elementList ']'
+    | '[' elementList ',' elision? ']'
+    ;
+
+elision
+    : ','
+    | elision ','
+    ;
+
+objectLiteral
+    : '{' '}'
+    | '{' propertyDefinitionList '}'
+    | '{' propertyDefinitionList ',' '}'
+    ;
+
+objectLiteral_Yield
+    : '{' '}'
+    | '{' propertyDefinitionList_Yield '}'
+    | '{' propertyDefinitionList_Yield ',' '}'
+    ;
+
+propertyDefinitionList
+    : propertyDefinition
+    | propertyDefinitionList ',' propertyDefinition
+    ;
+
+propertyDefinitionList_Yield
+    : propertyDefinition_Yield
+    | propertyDefinitionList_Yield ',' propertyDefinition_Yield
+    ;
+
+propertyDefinition
+    : identifierReference
+    | coverInitializedName
+    | propertyName ':' assignmentExpression
+    | methodDefinition
+    ;
+
+propertyDefinition_Yield
+    : identifierReference_Yield
+    | coverInitializedName_Yield
+    | propertyName ':' assignmentExpression
+    | methodDefinition_Yield
+    ;
+
+literalPropertyName
+    : IdentifierName
+    | StringLiteral
+    | NumericLiteral
+    ;
+
+computedPropertyName
+    : '[' assignmentExpression ']'
+    ;
+
+coverInitializedName
+    : identifierReference initializer_In
+    ;
+
+coverInitializedName_Yield
+    : identifierReference_Yield initializer_In_Yield
+    ;
+
+initializer
+    : '=' assignmentExpression
+    ;
+
+initializer_In
+    : '=' assignmentExpression
+    ;
+
+initializer_Yield
+    : '=' assignmentExpression
+    ;
+
+initializer_In_Yield
+    : '=' assignmentExpression
+    ;
+
+templateLiteral
+    : NoSubstitutionTemplate
+    | TemplateHead expression_In templateSpans
+    ;
+
+templateLiteral_Yield
+    : NoSubstitutionTemplate
+    | TemplateHead expression_In_Yield templateSpans_Yield
+    ;
+
+templateSpans
+    : TemplateTail
+    | templateMiddleList TemplateTail
+    ;
+
+templateSpans_Yield
+    : TemplateTail
+    | templateMiddleList_Yield TemplateTail
+    ;
+
+templateMiddleList
+    : TemplateMiddle expression_In
+    | templateMiddleList TemplateMiddle expression_In
+    ;
+
+templateMiddleList_Yield
+    : TemplateMiddle expression_In_Yield
+    | templateMiddleList_Yield TemplateMiddle expression_In_Yield
+    ;
+
+memberExpression
+    : primaryExpression
+    | memberExpression '[' expression_In ']'
+    | memberExpression '.' IdentifierName
+    | memberExpression templateLiteral
+    | superProperty
+    | metaProperty
+    | 'new' memberExpression arguments
+    ;
+
+memberExpression_Yield
+    : primaryExpression_Yield
+    | memberExpression_Yield '[' expression_In_Yield ']'
+    | memberExpression_Yield '.' IdentifierName
+    | memberExpression_Yield templateLiteral_Yield
+    | superProperty_Yield
+    | metaProperty
+    | 'new' memberExpression_Yield arguments
+    ;
+
+superProperty
+    : 'super' '[' expression_In ']'
+    | 'super' '.' IdentifierName
+    ;
+
+superProperty_Yield
+    : 'super' '[' expression_In_Yield ']'
+    | 'super' '.' IdentifierName
+    ;
+
+metaProperty
+    : newTarget
+    ;
+
+newTarget
+    : 'new' '.' 'target'
+    ;
+
+newExpression
+    : memberExpression
+    | 'new' newExpression
+    ;
+
+newExpression_Yield
+    : memberExpression_Yield
+    | 'new' newExpression_Yield
+    ;
+
+superCall
+    : 'super' arguments
+    ;
+
+argumentList
+    : assignmentExpression
+    | '...' assignmentExpression
+    | argumentList ',' assignmentExpression
+    | argumentList ',' '...' assignmentExpression
+    ;
+
+leftHandSideExpression
+    : newExpression
+    | callExpression
+    ;
+
+leftHandSideExpression_Yield
+    : newExpression_Yield
+    | callExpression
+    ;
+
+postfixExpression
+    : leftHandSideExpression
+    | leftHandSideExpression '++'
+    | leftHandSideExpression '--'
+    ;
+
+multiplicativeExpression
+    : unaryExpression
+    | multiplicativeExpression multiplicativeOperator unaryExpression
+    ;
+
+multiplicativeOperator
+    : '*'
+    | '/'
+    | '%'
+    ;
+
+additiveExpression
+    : multiplicativeExpression
+    | additiveExpression '+' multiplicativeExpression
+    | additiveExpression '-' multiplicativeExpression
+    ;
+
+shiftExpression
+    : additiveExpression
+    | shiftExpression '<<' additiveExpression
+    | shiftExpression '>>' additiveExpression
+    | shiftExpression '>>>' additiveExpression
+    ;
+
+relationalExpression
+    : shiftExpression
+    | relationalExpression '<' shiftExpression
+    | relationalExpression '>' shiftExpression
+    | relationalExpression '<=' shiftExpression
+    | relationalExpression '>=' shiftExpression
+    | relationalExpression 'instanceof' shiftExpression
+    ;
+
+equalityExpression
+    : relationalExpression
+    | equalityExpression '==' relationalExpression
+    | equalityExpression '!=' relationalExpression
+    | equalityExpression '===' relationalExpression
+    | equalityExpression '!==' relationalExpression
+    ;
+
+bitwiseANDExpression
+    : equalityExpression
+    | bitwiseANDExpression '&' equalityExpression
+    ;
+
+bitwiseXORExpression
+    : bitwiseANDExpression
+    | bitwiseXORExpression '^' bitwiseANDExpression
+    ;
+
+bitwiseORExpression
+    : bitwiseXORExpression
+    | bitwiseORExpression '|' bitwiseXORExpression
+    ;
+
+logicalANDExpression
+    : bitwiseORExpression
+    | logicalANDExpression '&&' bitwiseORExpression
+    ;
+
+logicalORExpression
+    : logicalANDExpression
+    | logicalORExpression '||' logicalANDExpression
+    ;
+
+conditionalExpression
+    : logicalORExpression
+    | logicalORExpression '?' assignmentExpression ':' assignmentExpression
+    ;
+
+assignmentOperator
+    : '*='
+    | '/='
+    | '%='
+    | '+='
+    | '-='
+    | '<<='
+    | '>>='
+    | '>>>='
+    | '&='
+    | '^='
+    | '|='
+    ;
+
+expression
+    : assignmentExpression
+    | expression ',' assignmentExpression
+    ;
+
+expression_In
+    : assignmentExpression
+    | expression_In ',' assignmentExpression
+    ;
+
+expression_Yield
+    : assignmentExpression
+    | expression_Yield ',' assignmentExpression
+    ;
+
+expression_In_Yield
+    : assignmentExpression
+    | expression_In_Yield ',' assignmentExpression
+    ;
+
+statement
+    : blockStatement
+    | variableStatement
+    | emptyStatement
+    | expressionStatement
+    | ifStatement
+    | breakableStatement
+    | continueStatement
+    | breakStatement
+    | withStatement
+    | labelledStatement
+    | throwStatement
+    | tryStatement
+    | debuggerStatement
+    ;
+
+statement_Return
+    : blockStatement_Return
+    | variableStatement
+    | emptyStatement
+    | expressionStatement
+    | ifStatement_Return
+    | breakableStatement_Return
+    | continueStatement
+    | breakStatement
+    | returnStatement
+    | withStatement_Return
+    | labelledStatement_Return
+    | throwStatement
+    | tryStatement_Return
+    | debuggerStatement
+    ;
+
+statement_Yield_Return
+    : blockStatement_Yield_Return
+    | variableStatement_Yield
+    | emptyStatement
+    | expressionStatement_Yield
+    | ifStatement_Yield_Return
+    | breakableStatement_Yield_Return
+    | continueStatement_Yield
+    | breakStatement_Yield
+    | returnStatement_Yield
+    | withStatement_Yield_Return
+    | labelledStatement_Yield_Return
+    | throwStatement_Yield
+    | tryStatement_Yield_Return
+    | debuggerStatement
+    ;
+
+declaration
+    : hoistableDeclaration
+    | classDeclaration
+    | lexicalDeclaration_In
+    ;
+
+declaration_Yield
+    : hoistableDeclaration_Yield
+    | classDeclaration
+    | lexicalDeclaration_In_Yield
+    ;
+
+hoistableDeclaration
+    : functionDeclaration
+    | generatorDeclaration
+    ;
+
+hoistableDeclaration_Yield
+    : functionDeclaration
+    | generatorDeclaration_Yield
+    ;
+
+hoistableDeclaration_Default
+    : functionDeclaration
+    | generatorDeclaration_Default
+    ;
+
+breakableStatement
+    : iterationStatement
+    | switchStatement
+    ;
+
+breakableStatement_Return
+    : iterationStatement_Return
+    | switchStatement_Return
+    ;
+
+breakableStatement_Yield_Return
+    : iterationStatement_Yield_Return
+    | switchStatement_Yield_Return
+    ;
+
+blockStatement
+    : block
+    ;
+
+blockStatement_Return
+    : block_Return
+    ;
+
+blockStatement_Yield_Return
+    : block_Yield_Return
+    ;
+
+block
+    : '{' statementList? '}'
+    ;
+
+block_Return
+    : '{' statementList_Return? '}'
+    ;
+
+block_Yield_Return
+    : '{' statementList_Yield_Return? '}'
+    ;
+
+statementList
+    : statementListItem
+    | statementList statementListItem
+    ;
+
+statementList_Return
+    : statementListItem_Return
+    | statementList_Return statementListItem_Return
+    ;
+
+statementList_Yield_Return
+    : statementListItem_Yield_Return
+    | statementList_Yield_Return statementListItem_Yield_Return
+    ;
+
+statementListItem
+    : statement
+    | declaration
+    ;
+
+statementListItem_Return
+    : statement_Return
+    | declaration
+    ;
+
+statementListItem_Yield_Return
+    : statement_Yield_Return
+    | declaration_Yield
+    ;
+
+lexicalDeclaration
+    : letOrConst bindingList ';'
+    ;
+
+lexicalDeclaration_In
+    : letOrConst bindingList_In ';'
+    ;
+
+lexicalDeclaration_Yield
+    : letOrConst bindingList_Yield ';'
+    ;
+
+lexicalDeclaration_In_Yield
+    : letOrConst bindingList_In_Yield ';'
+    ;
+
+letOrConst
+    : 'let'
+    | 'const'
+    ;
+
+bindingList
+    : lexicalBinding
+    | bindingList ',' lexicalBinding
+    ;
+
+bindingList_In
+    : lexicalBinding_In
+    | bindingList_In ',' lexicalBinding_In
+    ;
+
+bindingList_Yield
+    : lexicalBinding_Yield
+    | bindingList_Yield ',' lexicalBinding_Yield
+    ;
+
+bindingList_In_Yield
+    : lexicalBinding_In_Yield
+    | bindingList_In_Yield ',' lexicalBinding_In_Yield
+    ;
+
+lexicalBinding
+    : bindingIdentifier initializer?
+    | bindingPattern initializer
+    ;
+
+lexicalBinding_In
+    : bindingIdentifier initializer_In?
+    | bindingPattern initializer_In
+    ;
+
+lexicalBinding_Yield
+    : bindingIdentifier_Yield initializer_Yield?
+    | bindingPattern initializer_Yield
+    ;
+
+lexicalBinding_In_Yield
+    : bindingIdentifier_Yield initializer_In_Yield?
+    | bindingPattern initializer_In_Yield
+    ;
+
+variableStatement
+    : 'var' variableDeclarationList_In ';'
+    ;
+
+variableStatement_Yield
+    : 'var' variableDeclarationList_In_Yield ';'
+    ;
+
+variableDeclarationList
+    : variableDeclaration
+    | variableDeclarationList ',' variableDeclaration
+    ;
+
+variableDeclarationList_In
+    : variableDeclaration
+    | variableDeclarationList_In ',' variableDeclaration
+    ;
+
+variableDeclarationList_Yield
+    : variableDeclaration
+    | variableDeclarationList_Yield ',' variableDeclaration
+    ;
+
+variableDeclarationList_In_Yield
+    : variableDeclaration
+    | variableDeclarationList_In_Yield ',' variableDeclaration
+    ;
+
+bindingElisionElement
+    : elision? bindingElement
+    ;
+
+singleNameBinding
+    : bindingIdentifier initializer_In?
+    ;
+
+emptyStatement
+    : ';'
+    ;
+
+expressionStatement
+    : expression_In ';'
+    ;
+
+expressionStatement_Yield
+    : expression_In_Yield ';'
+    ;
+
+ifStatement
+    : 'if' '(' expression_In ')' statement 'else' statement
+    | 'if' '(' expression_In ')' statement
+    ;
+
+ifStatement_Return
+    : 'if' '(' expression_In ')' statement_Return 'else' statement_Return
+    | 'if' '(' expression_In ')' statement_Return
+    ;
+
+ifStatement_Yield_Return
+    : 'if' '(' expression_In_Yield ')' statement_Yield_Return 'else' statement_Yield_Return
+    | 'if' '(' expression_In_Yield ')' statement_Yield_Return
+    ;
+
+iterationStatement
+    : 'do' statement 'while' '(' expression_In ')' ';'
+    | 'while' '(' expression_In ')' statement
+    | 'for' '(' expression? ';' expression_In? ';' expression_In? ')' statement
+    | 'for' '(' 'var' variableDeclarationList ';' expression_In? ';' expression_In? ')' statement
+    | 'for' '(' lexicalDeclaration expression_In? ';' expression_In? ')' statement
+    | 'for' '(' leftHandSideExpression 'in' expression_In ')' statement
+    | 'for' '(' 'var' forBinding 'in' expression_In ')' statement
+    | 'for' '(' forDeclaration 'in' expression_In ')' statement
+    | 'for' '(' leftHandSideExpression 'of' assignmentExpression ')' statement
+    | 'for' '(' 'var' forBinding 'of' assignmentExpression ')' statement
+    | 'for' '(' forDeclaration 'of' assignmentExpression ')' statement
+    ;
+
+iterationStatement_Return
+    : 'do' statement_Return 'while' '(' expression_In ')' ';'
+    | 'while' '(' expression_In ')' statement_Return
+    | 'for' '(' expression? ';' expression_In? ';' expression_In? ')' statement_Return
+    | 'for' '(' 'var' variableDeclarationList ';' expression_In? ';' expression_In? ')' statement_Return
+    | 'for' '(' lexicalDeclaration expression_In? ';' expression_In? ')' statement_Return
+    | 'for' '(' leftHandSideExpression 'in' expression_In ')' statement_Return
+    | 'for' '(' 'var' forBinding 'in' expression_In ')' statement_Return
+    | 'for' '(' forDeclaration 'in' expression_In ')' statement_Return
+    | 'for' '(' leftHandSideExpression 'of' assignmentExpression ')' statement_Return
+    | 'for' '(' 'var' forBinding 'of' assignmentExpression ')' statement_Return
+    | 'for' '(' forDeclaration 'of' assignmentExpression ')' statement_Return
+    ;
+
+iterationStatement_Yield_Return
+    : 'do' statement_Yield_Return 'while' '(' expression_In_Yield ')' ';'
+    | 'while' '(' expression_In_Yield ')' statement_Yield_Return
+    | 'for' '(' expression_Yield? ';' expression_In_Yield? ';' expression_In_Yield? ')' statement_Yield_Return
+    | 'for' '(' 'var' variableDeclarationList_Yield ';' expression_In_Yield? ';' expression_In_Yield? ')' statement_Yield_Return
+    | 'for' '(' lexicalDeclaration_Yield expression_In_Yield? ';' expression_In_Yield? ')' statement_Yield_Return
+    | 'for' '(' leftHandSideExpression_Yield 'in' expression_In_Yield ')' statement_Yield_Return
+    | 'for' '(' 'var' forBinding_Yield 'in' expression_In_Yield ')' statement_Yield_Return
+    | 'for' '(' forDeclaration_Yield 'in' expression_In_Yield ')' statement_Yield_Return
+    | 'for' '(' leftHandSideExpression_Yield 'of' assignmentExpression ')' statement_Yield_Return
+    | 'for' '(' 'var' forBinding_Yield 'of' assignmentExpression ')' statement_Yield_Return
+    | 'for' '(' forDeclaration_Yield 'of' assignmentExpression ')' statement_Yield_Return
+    ;
+
+forDeclaration
+    : letOrConst forBinding
+    ;
+
+forDeclaration_Yield
+    : letOrConst forBinding_Yield
+    ;
+
+forBinding
+    : bindingIdentifier
+    | bindingPattern
+    ;
+
+forBinding_Yield
+    : bindingIdentifier_Yield
+    | bindingPattern
+    ;
+
+continueStatement
+    : 'continue' ';'
+    | 'continue' labelIdentifier ';'
+    ;
+
+continueStatement_Yield
+    : 'continue' ';'
+    | 'continue' labelIdentifier_Yield ';'
+    ;
+
+breakStatement
+    : 'break' ';'
+    | 'break' labelIdentifier ';'
+    ;
+
+breakStatement_Yield
+    : 'break' ';'
+    | 'break' labelIdentifier_Yield ';'
+    ;
+
+returnStatement
+    : 'return' ';'
+    | 'return' expression_In ';'
+    ;
+
+returnStatement_Yield
+    : 'return' ';'
+    | 'return' expression_In_Yield ';'
+    ;
+
+withStatement
+    : 'with' '(' expression_In ')' statement
+    ;
+
+withStatement_Return
+    : 'with' '(' expression_In ')' statement_Return
+    ;
+
+withStatement_Yield_Return
+    : 'with' '(' expression_In_Yield ')' statement_Yield_Return
+    ;
+
+switchStatement
+    : 'switch' '(' expression_In ')' caseBlock
+    ;
+
+switchStatement_Return
+    : 'switch' '(' expression_In ')' caseBlock_Return
+    ;
+
+switchStatement_Yield_Return
+    : 'switch' '(' expression_In_Yield ')' caseBlock_Yield_Return
+    ;
+
+caseBlock
+    : '{' caseClauses? '}'
+    | '{' caseClauses? defaultClause caseClauses? '}'
+    ;
+
+caseBlock_Return
+    : '{' caseClauses_Return? '}'
+    | '{' caseClauses_Return? defaultClause_Return caseClauses_Return? '}'
+    ;
+
+caseBlock_Yield_Return
+    : '{' caseClauses_Yield_Return? '}'
+    | '{' caseClauses_Yield_Return? defaultClause_Yield_Return caseClauses_Yield_Return? '}'
+    ;
+
+caseClauses
+    : caseClause
+    | caseClauses caseClause
+    ;
+
+caseClauses_Return
+    : caseClause_Return
+    | caseClauses_Return caseClause_Return
+    ;
+
+caseClauses_Yield_Return
+    : caseClause_Yield_Return
+    | caseClauses_Yield_Return caseClause_Yield_Return
+    ;
+
+caseClause
+    : 'case' expression_In ':' statementList?
+    ;
+
+caseClause_Return
+    : 'case' expression_In ':' statementList_Return?
+    ;
+
+caseClause_Yield_Return
+    : 'case' expression_In_Yield ':' statementList_Yield_Return?
+    ;
+
+defaultClause
+    : 'default' ':' statementList?
+    ;
+
+defaultClause_Return
+    : 'default' ':' statementList_Return?
+    ;
+
+defaultClause_Yield_Return
+    : 'default' ':' statementList_Yield_Return?
+    ;
+
+labelledStatement
+    : labelIdentifier ':' labelledItem
+    ;
+
+labelledStatement_Return
+    : labelIdentifier ':' labelledItem_Return
+    ;
+
+labelledStatement_Yield_Return
+    : labelIdentifier_Yield ':' labelledItem_Yield_Return
+    ;
+
+labelledItem
+    : statement
+    | functionDeclaration
+    ;
+
+labelledItem_Return
+    : statement_Return
+    | functionDeclaration
+    ;
+
+labelledItem_Yield_Return
+    : statement_Yield_Return
+    | functionDeclaration
+    ;
+
+throwStatement
+    : 'throw' expression_In ';'
+    ;
+
+throwStatement_Yield
+    : 'throw' expression_In_Yield ';'
+    ;
+
+tryStatement
+    : 'try' block catch_
+    | 'try' block finally_
+    | 'try' block catch_ finally_
+    ;
+
+tryStatement_Return
+    : 'try' block_Return catch_Return
+    | 'try' block_Return finally_Return
+    | 'try' block_Return catch_Return finally_Return
+    ;
+
+tryStatement_Yield_Return
+    : 'try' block_Yield_Return catch_Yield_Return
+    | 'try' block_Yield_Return finally_Yield_Return
+    | 'try' block_Yield_Return catch_Yield_Return finally_Yield_Return
+    ;
+
+catch_
+    : 'catch' '(' catchParameter ')' block
+    ;
+
+catch_Return
+    : 'catch' '(' catchParameter ')' block_Return
+    ;
+
+catch_Yield_Return
+    : 'catch' '(' catchParameter_Yield ')' block_Yield_Return
+    ;
+
+finally_
+    : 'finally' block
+    ;
+
+finally_Return
+    : 'finally' block_Return
+    ;
+
+finally_Yield_Return
+    : 'finally' block_Yield_Return
+    ;
+
+catchParameter
+    : bindingIdentifier
+    | bindingPattern
+    ;
+
+catchParameter_Yield
+    : bindingIdentifier_Yield
+    | bindingPattern
+    ;
+
+debuggerStatement
+    : 'debugger' ';'
+    ;
+
+strictFormalParameters
+    : formalParameters
+    ;
+
+strictFormalParameters_Yield
+    : formalParameters_Yield
+    ;
+
+formalParameters
+    :
+    | formalParameterList
+    ;
+
+formalParameters_Yield
+    :
+    | formalParameterList_Yield
+    ;
+
+formalParameterList
+    : functionRestParameter
+    | formalsList
+    | formalsList ',' functionRestParameter
+    ;
+
+formalParameterList_Yield
+    : functionRestParameter_Yield
+    | formalsList_Yield
+    | formalsList_Yield ',' functionRestParameter_Yield
+    ;
+
+formalsList
+    : formalParameter
+    | formalsList ',' formalParameter
+    ;
+
+formalsList_Yield
+    : formalParameter_Yield
+    | formalsList_Yield ',' formalParameter_Yield
+    ;
+
+functionRestParameter
+    : bindingRestElement
+    ;
+
+functionRestParameter_Yield
+    : bindingRestElement
+    ;
+
+formalParameter
+    : bindingElement
+    ;
+
+formalParameter_Yield
+    : bindingElement
+    ;
+
+functionBody
+    : functionStatementList
+    ;
+
+functionBody_Yield
+    : functionStatementList_Yield
+    ;
+
+functionStatementList
+    : statementList_Return?
+    ;
+
+functionStatementList_Yield
+    : statementList_Yield_Return?
+    ;
+
+arrowFunction
+    : arrowParameters '=>' conciseBody
+    ;
+
+arrowParameters
+    : bindingIdentifier
+    | coverParenthesizedExpressionAndArrowParameterList
+    ;
+
+conciseBody
+    : assignmentExpression
+    | '{' functionBody '}'
+    ;
+
+methodDefinition
+    : propertyName '(' strictFormalParameters ')' '{' functionBody '}'
+    | generatorMethod
+    | 'get' propertyName '(' ')' '{' functionBody '}'
+    | 'set' propertyName '(' propertySetParameterList ')' '{' functionBody '}'
+    ;
+
+methodDefinition_Yield
+    : propertyName '(' strictFormalParameters ')' '{' functionBody '}'
+    | generatorMethod_Yield
+    | 'get' propertyName '(' ')' '{' functionBody '}'
+    | 'set' propertyName '(' propertySetParameterList ')' '{' functionBody '}'
+    ;
+
+propertySetParameterList
+    : formalParameter
+    ;
+
+generatorMethod
+    : '*' propertyName '(' strictFormalParameters_Yield ')' '{' generatorBody '}'
+    ;
+
+generatorMethod_Yield
+    : '*' propertyName '(' strictFormalParameters_Yield ')' '{' generatorBody '}'
+    ;
+
+generatorDeclaration
+    : 'function' '*' bindingIdentifier '(' formalParameters_Yield ')' '{' generatorBody '}'
+    ;
+
+generatorDeclaration_Yield
+    : 'function' '*' bindingIdentifier_Yield '(' formalParameters_Yield ')' '{' generatorBody '}'
+    ;
+
+generatorDeclaration_Default
+    : 'function' '*' bindingIdentifier '(' formalParameters_Yield ')' '{' generatorBody '}'
+    | 'function' '*' '(' formalParameters_Yield ')' '{' generatorBody '}'
+    ;
+
+generatorExpression
+    : 'function' '*' bindingIdentifier_Yield? '(' formalParameters_Yield ')' '{' generatorBody '}'
+    ;
+
+generatorBody
+    : functionBody_Yield
+    ;
+
+classExpression
+    : 'class' bindingIdentifier? classTail
+    ;
+
+classExpression_Yield
+    : 'class' bindingIdentifier_Yield? classTail_Yield
+    ;
+
+classTail
+    : classHeritage? '{' classBody? '}'
+    ;
+
+classTail_Yield
+    : classHeritage? '{' classBody? '}'
+    ;
+
+classElementList
+    : classElement
+    | classElementList classElement
+    ;
+
+script
+    : scriptBody?
+    ;
+
+scriptBody
+    : statementList
+    ;
+
+module
+    : moduleBody?
+    ;
+
+moduleItemList
+    : moduleItem
+    | moduleItemList moduleItem
+    ;
+
+moduleItem
+    : importDeclaration
+    | exportDeclaration
+    | statementListItem
+    ;
+
+importClause
+    : importedDefaultBinding
+    | nameSpaceImport
+    | namedImports
+    | importedDefaultBinding ',' nameSpaceImport
+    | importedDefaultBinding ',' namedImports
+    ;
+
+importedDefaultBinding
+    : importedBinding
+    ;
+
+nameSpaceImport
+    : '*' 'as' importedBinding
+    ;
+
+namedImports
+    : '{' '}'
+    | '{' importsList '}'
+    | '{' importsList ',' '}'
+    ;
+
+fromClause
+    : 'from' moduleSpecifier
+    ;
+
+importsList
+    : importSpecifier
+    | importsList ',' importSpecifier
+    ;
+
+importSpecifier
+    : importedBinding
+    | IdentifierName 'as' importedBinding
+    ;
+
+moduleSpecifier
+    : StringLiteral
+    ;
+
+importedBinding
+    : bindingIdentifier
+    ;
+
+exportDeclaration
+    : 'export' '*' fromClause ';'
+    | 'export' exportClause fromClause ';'
+    | 'export' exportClause ';'
+    | 'export' variableStatement
+    | 'export' declaration
+    | 'export' 'default' hoistableDeclaration_Default
+    | 'export' 'default' classDeclaration
+    | 'export' 'default' assignmentExpression ';'
+    ;
+
+exportClause
+    : '{' '}'
+    | '{' exportsList '}'
+    | '{' exportsList ',' '}'
+    ;
+
+exportsList
+    : exportSpecifier
+    | exportsList ',' exportSpecifier
+    ;
+
+exportSpecifier
+    : IdentifierName
+    | IdentifierName 'as' IdentifierName
+    ;
+
+fragment SourceCharacter
+    : .
+    ;
+
+fragment InputElementDiv
+    : WhiteSpace
+    | LineTerminator
+    | Comment
+    | CommonToken
+    | DivPunctuator
+    | RightBracePunctuator
+    ;
+
+fragment InputElementRegExp
+    : WhiteSpace
+    | LineTerminator
+    | Comment
+    | CommonToken
+    | RightBracePunctuator
+    | RegularExpressionLiteral
+    ;
+
+fragment InputElementRegExpOrTemplateTail
+    : WhiteSpace
+    | LineTerminator
+    | Comment
+    | CommonToken
+    | RegularExpressionLiteral
+    | TemplateSubstitutionTail
+    ;
+
+fragment InputElementTemplateTail
+    : WhiteSpace
+    | LineTerminator
+    | Comment
+    | CommonToken
+    | DivPunctuator
+    | TemplateSubstitutionTail
+    ;
+
+fragment WhiteSpace
+    : '\u0009'
+    | '\u000B'
+    | '\u000C'
+    | ' '
+    | '\u00A0'
+    | '\uFEFF'
+    | [\p{Zs}]
+    ;
+
+LineTerminator
+    : '\u000A'
+    | '\u000D'
+    | '\u2028'
+    | '\u2029'
+    ;
+
+fragment LineTerminatorSequence
+    : '\u000A'
+    | '\u000D'
+    | '\u2028'
+    | '\u2029'
+    | '\u000D' '\u000A'
+    ;
+
+fragment Comment
+    : MultiLineComment
+    | SingleLineComment
+    ;
+
+fragment MultiLineComment
+    : '/*' MultiLineCommentChars? '*/'
+    ;
+
+fragment MultiLineCommentChars
+    : MultiLineNotAsteriskChar MultiLineCommentChars?
+    | '*' PostAsteriskCommentChars?
+    ;
+
+fragment PostAsteriskCommentChars
+    : MultiLineNotForwardSlashOrAsteriskChar MultiLineCommentChars?
+    | '*' PostAsteriskCommentChars?
+    ;
+
+fragment MultiLineNotAsteriskChar
+    : ~[*]
+    ;
+
+fragment MultiLineNotForwardSlashOrAsteriskChar
+    : ~[*/]
+    ;
+
+fragment SingleLineComment
+    : '//' SingleLineCommentChars?
+    ;
+
+fragment SingleLineCommentChars
+    : SingleLineCommentChar SingleLineCommentChars?
+    ;
+
+fragment SingleLineCommentChar
+    : ~[\u000A\u000D\u2028-\u2029]
+    ;
+
+fragment CommonToken
+    : IdentifierName
+    | Punctuator
+    | NumericLiteral
+    | StringLiteral
+    | Template
+    ;
+
+IdentifierName
+    : ( IdentifierStart ) ( IdentifierPart )*
+    ;
+
+fragment IdentifierStart
+    : UnicodeIDStart
+    | '$'
+    | '_'
+    | '\\' UnicodeEscapeSequence
+    ;
+
+fragment IdentifierPart
+    : UnicodeIDContinue
+    | '$'
+    | '_'
+    | '\\' UnicodeEscapeSequence
+    | '\u200C'
+    | '\u200D'
+    ;
+
+fragment UnicodeIDStart
+    : [\p{ID_Start}\p{Other_ID_Start}]
+    ;
+
+fragment UnicodeIDContinue
+    : [\p{ID_Continue}\p{Other_ID_Continue}\p{Other_ID_Start}]
+    ;
+
+fragment ReservedWord
+    : Keyword
+    | FutureReservedWord
+    | NullLiteral
+    | BooleanLiteral
+    ;
+
+fragment Keyword
+    : 'break'
+    | 'do'
+    | 'in'
+    | 'typeof'
+    | 'case'
+    | 'else'
+    | 'instanceof'
+    | 'var'
+    | 'catch'
+    | 'export'
+    | 'new'
+    | 'void'
+    | 'class'
+    | 'extends'
+    | 'return'
+    | 'while'
+    | 'const'
+    | 'finally'
+    | 'super'
+    | 'with'
+    | 'continue'
+    | 'for'
+    | 'switch'
+    | 'yield'
+    | 'debugger'
+    | 'function'
+    | 'this'
+    | 'default'
+    | 'if'
+    | 'throw'
+    | 'delete'
+    | 'import'
+    | 'try'
+    ;
+
+fragment FutureReservedWord
+    : 'enum'
+    | 'await'
+    | 'implements'
+    | 'package'
+    | 'protected'
+    | 'interface'
+    | 'private'
+    | 'public'
+    ;
+
+fragment Punctuator
+    : '{'
+    | '}'
+    | '('
+    | ')'
+    | '['
+    | ']'
+    | '.'
+    | ';'
+    | ','
+    | '<'
+    | '>'
+    | '<='
+    | '>='
+    | '=='
+    | '!='
+    | '==='
+    | '!=='
+    | '+'
+    | '-'
+    | '*'
+    | '%'
+    | '++'
+    | '--'
+    | '<<'
+    | '>>'
+    | '>>>'
+    | '&'
+    | '|'
+    | '^'
+    | '!'
+    | '~'
+    | '&&'
+    | '||'
+    | '?'
+    | ' ::'
+    | '='
+    | '+='
+    | '-='
+    | '*='
+    | '%='
+    | '<<='
+    | '>>='
+    | '>>>='
+    | '&='
+    | '|='
+    | '^='
+    | '=>'
+    ;
+
+fragment DivPunctuator
+    : '/'
+    | '/='
+    ;
+
+fragment RightBracePunctuator
+    : ')'
+    ;
+
+NullLiteral
+    : 'null'
+    ;
+
+BooleanLiteral
+    : 'true'
+    | 'false'
+    ;
+
+NumericLiteral
+    : DecimalLiteral
+    | BinaryIntegerLiteral
+    | OctalIntegerLiteral
+    | HexIntegerLiteral
+    ;
+
+fragment DecimalLiteral
+    : DecimalIntegerLiteral '.' DecimalDigits? ExponentPart?
+    | '.' DecimalDigits ExponentPart?
+    | DecimalIntegerLiteral ExponentPart?
+    ;
+
+fragment DecimalIntegerLiteral
+    : '0'
+    | NonZeroDigit DecimalDigits?
+    ;
+
+fragment DecimalDigits
+    : ( DecimalDigit ) ( DecimalDigit )*
+    ;
+
+fragment DecimalDigit
+    : '0'
+    | '1'
+    | '2'
+    | '3'
+    | '4'
+    | '5'
+    | '6'
+    | '7'
+    | '8'
+    | '9'
+    ;
+
+fragment NonZeroDigit
+    : '1'
+    | '2'
+    | '3'
+    | '4'
+    | '5'
+    | '6'
+    | '7'
+    | '8'
+    | '9'
+    ;
+
+fragment ExponentPart
+    : ExponentIndicator SignedInteger
+    ;
+
+fragment ExponentIndicator
+    : 'e'
+    | 'E'
+    ;
+
+fragment SignedInteger
+    : DecimalDigits
+    | '+' DecimalDigits
+    | '-' DecimalDigits
+    ;
+
+fragment BinaryIntegerLiteral
+    : '0b' BinaryDigits
+    | '0B' BinaryDigits
+    ;
+
+fragment BinaryDigits
+    : ( BinaryDigit ) ( BinaryDigit )*
+    ;
+
+fragment BinaryDigit
+    : '0'
+    | '1'
+    ;
+
+fragment OctalIntegerLiteral
+    : '0o' OctalDigits
+    | '0O' OctalDigits
+    ;
+
+fragment OctalDigits
+    : ( OctalDigit ) ( OctalDigit )*
+    ;
+
+fragment OctalDigit
+    : '0'
+    | '1'
+    | '2'
+    | '3'
+    | '4'
+    | '5'
+    | '6'
+    | '7'
+    ;
+
+fragment HexIntegerLiteral
+    : '0x' HexDigits
+    | '0X' HexDigits
+    ;
+
+fragment HexDigits
+    : ( HexDigit ) ( HexDigit )*
+    ;
+
+fragment HexDigit
+    : '0'
+    | '1'
+    | '2'
+    | '3'
+    | '4'
+    | '5'
+    | '6'
+    | '7'
+    | '8'
+    | '9'
+    | 'a'
+    | 'b'
+    | 'c'
+    | 'd'
+    | 'e'
+    | 'f'
+    | 'A'
+    | 'B'
+    | 'C'
+    | 'D'
+    | 'E'
+    | 'F'
+    ;
+
+StringLiteral
+    : '"' DoubleStringCharacters? '"'
+    | '\'' SingleStringCharacters? '\''
+    ;
+
+fragment DoubleStringCharacters
+    : DoubleStringCharacter DoubleStringCharacters?
+    ;
+
+fragment SingleStringCharacters
+    : SingleStringCharacter SingleStringCharacters?
+    ;
+
+fragment DoubleStringCharacter
+    : ~[\u000A\u000D"\\\u2028-\u2029]
+    | '\\' EscapeSequence
+    | LineContinuation
+    ;
+
+fragment SingleStringCharacter
+    : ~[\u000A\u000D'\\\u2028-\u2029]
+    | '\\' EscapeSequence
+    | LineContinuation
+    ;
+
+fragment LineContinuation
+    : '\\' LineTerminatorSequence
+    ;
+
+fragment EscapeSequence
+    : CharacterEscapeSequence
+    | '0'
+    | HexEscapeSequence
+    | UnicodeEscapeSequence
+    ;
+
+fragment CharacterEscapeSequence
+    : SingleEscapeCharacter
+    | NonEscapeCharacter
+    ;
+
+fragment SingleEscapeCharacter
+    : '\''
+    | '"'
+    | '\\'
+    | 'b'
+    | 'f'
+    | 'n'
+    | 'r'
+    | 't'
+    | 'v'
+    ;
+
+fragment NonEscapeCharacter
+    : ~[\u000A\u000D"'0-9\\bfnrt-vx\u2028-\u2029]
+    ;
+
+fragment EscapeCharacter
+    : SingleEscapeCharacter
+    | DecimalDigit
+    | 'x'
+    | 'u'
+    ;
+
+fragment HexEscapeSequence
+    : 'x' HexDigit HexDigit
+    ;
+
+fragment UnicodeEscapeSequence
+    : 'u' Hex4Digits
+    | 'u{' HexDigits '}'
+    ;
+
+fragment Hex4Digits
+    : HexDigit HexDigit HexDigit HexDigit
+    ;
+
+RegularExpressionLiteral
+    : '/' RegularExpressionBody '/' RegularExpressionFlags
+    ;
+
+fragment RegularExpressionBody
+    : RegularExpressionFirstChar RegularExpressionChars
+    ;
+
+fragment RegularExpressionChars
+    : ( ) ( RegularExpressionChar )*
+    ;
+
+fragment RegularExpressionFirstChar
+    : ~[\u000A\u000D*/[-\\\u2028-\u2029]
+    | RegularExpressionBackslashSequence
+    | RegularExpressionClass
+    ;
+
+fragment RegularExpressionChar
+    : ~[\u000A\u000D/[-\\\u2028-\u2029]
+    | RegularExpressionBackslashSequence
+    | RegularExpressionClass
+    ;
+
+fragment RegularExpressionBackslashSequence
+    : '\\' RegularExpressionNonTerminator
+    ;
+
+fragment RegularExpressionNonTerminator
+    : ~[\u000A\u000D\u2028-\u2029]
+    ;
+
+fragment RegularExpressionClass
+    : '[' RegularExpressionClassChars ']'
+    ;
+
+fragment RegularExpressionClassChars
+    : ( ) ( RegularExpressionClassChar )*
+    ;
+
+fragment RegularExpressionClassChar
+    : ~[\u000A\u000D\\-\]\u2028-\u2029]
+    | RegularExpressionBackslashSequence
+    ;
+
+fragment RegularExpressionFlags
+    : ( ) ( IdentifierPart )*
+    ;
+
+fragment Template
+    : NoSubstitutionTemplate
+    | TemplateHead
+    ;
+
+NoSubstitutionTemplate
+    : '`' TemplateCharacters? '`'
+    ;
+
+TemplateHead
+    : '`' TemplateCharacters? '${'
+    ;
+
+fragment TemplateSubstitutionTail
+    : TemplateMiddle
+    | TemplateTail
+    ;
+
+TemplateMiddle
+    : '}' TemplateCharacters? '${'
+    ;
+
+TemplateTail
+    : '}' TemplateCharacters? '`'
+    ;
+
+fragment TemplateCharacters
+    : TemplateCharacter TemplateCharacters?
+    ;
+
+fragment TemplateCharacter
+    : '$'
+    | '\\' EscapeSequence
+    | LineContinuation
+    | LineTerminatorSequence
+    | ~[\u000A\u000D$\\`\u2028-\u2029]
+    ;
\ No newline at end of file
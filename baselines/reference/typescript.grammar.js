@@ -0,0 +1,1710 @@
+module.exports = grammar({
+    name: "typescript",
+
+    conflicts: $ => [
+        [$.declaration_source_file, $.implementation_source_file],
+        [$.module, $.module_body],
+        [$.literal_property_name, $.property_name],
+        [$.binding_identifier, $.simple_variable_declaration],
+        [$.label_identifier, $.type_annotation],
+        [$.binding_identifier, $.initializer],
+        [$.identifier_reference, $.initializer],
+        [$.binding_identifier, $.identifier_reference],
+        [$.identifier_reference, $.simple_variable_declaration],
+        [$.arrow_formal_parameters, $.binding_identifier],
+        [$.postfix_expression],
+        [$.arguments, $.new_expression],
+        [$.member_expression, $.new_expression],
+        [$.new_expression, $.type_arguments],
+        [$.new_expression, $.template_literal],
+        [$.equality_expression, $.relational_expression],
+        [$.additive_expression, $.shift_expression],
+        [$.module_element, $.statement_list_item],
+        [$.binding_pattern],
+        [$.class_heritage, $.class_tail],
+        [$.binding_identifier, $.class_heritage],
+        [$.binding_identifier, $.implements_clause],
+        [$.binding_identifier, $.call_signature],
+        [$.array_binding_pattern],
+        [$.array_binding_pattern, $.array_literal],
+        [$.element_list],
+        [$.binding_element, $.binding_identifier],
+        [$.binding_element, $.identifier_reference],
+        [$.binding_element_list, $.binding_elision_element],
+        [$.object_binding_pattern],
+        [$.binding_identifier, $.binding_property],
+        [$.binding_property, $.identifier_reference],
+        [$.identifier, $.property_name],
+        [$.identifier, $.literal_property_name],
+        [$.literal, $.property_name],
+        [$.literal, $.literal_property_name],
+        [$.binding_property_list],
+        [$.cover_parenthesized_expression_and_arrow_parameter_list, $.type_annotation],
+        [$.call_signature, $.cover_parenthesized_expression_and_arrow_parameter_list],
+        [$.identifier_reference, $.required_parameter],
+        [$.identifier_reference, $.optional_parameter],
+        [$.type_name, $.type_parameter],
+        [$.array_type, $.primary_or_union_type],
+        [$.type_arguments, $.type_reference],
+        [$.declaration_element, $.module_element],
+        [$.arguments, $.left_hand_side_expression],
+        [$.call_expression, $.left_hand_side_expression],
+        [$.left_hand_side_expression, $.type_arguments],
+        [$.left_hand_side_expression, $.template_literal],
+        [$.module_element, $.module_item],
+        [$.binding_element],
+        [$.call_signature, $.formal_parameters],
+        [$.class_body, $.class_tail],
+        [$.spread_element],
+        [$.binding_identifier, $.binding_rest_element],
+        [$.binding_rest_element, $.identifier_reference],
+        [$.object_binding_pattern, $.object_literal],
+        [$.computed_property_name, $.element_list],
+        [$.arguments],
+        [$.arguments, $.call_expression],
+        [$.call_expression, $.super_property],
+        [$.binding_identifier, $.rest_parameter],
+        [$.required_parameter, $.type_name],
+        [$.export_specifier, $.identifier],
+        [$.declaration_element, $.implementation_element],
+        [$.declaration, $.module_element],
+        [$.destructuring_variable_declaration, $.variable_declaration],
+        [$.binding_identifier, $.required_parameter],
+        [$.binding_element, $.required_parameter],
+        [$.class_element_list, $.class_elements],
+        [$.identifier_reference, $.type_name],
+        [$.identifier_reference, $.module_name],
+        [$.binding_element, $.binding_property],
+        [$.array_type, $.union_type],
+        [$.block, $.object_literal],
+        [$.initializer_in, $.primary_expression],
+        [$.primary_expression, $.property_definition],
+        [$.initializer, $.initializer_in],
+        [$.binding_rest_element, $.rest_parameter],
+        [$.if_statement],
+        [$.hoistable_declaration, $.module_element],
+        [$.binding_element, $.optional_parameter],
+        [$.entity_name, $.module_name],
+        [$.binding_identifier, $.set_accessor],
+        [$.binding_element, $.set_accessor],
+        [$.primary_expression, $.primary_expression_yield],
+        [$.template_literal, $.template_literal_yield],
+        [$.identifier_reference, $.identifier_reference_yield],
+        [$.get_accessor, $.method_definition],
+        [$.cover_parenthesized_expression_and_arrow_parameter_list, $.cover_parenthesized_expression_and_arrow_parameter_list_yield],
+        [$.expression_in, $.expression_in_yield],
+        [$.binding_identifier, $.binding_identifier_yield],
+        [$.object_literal, $.object_literal_yield],
+        [$.array_literal, $.array_literal_yield],
+        [$.member_expression, $.member_expression_yield],
+        [$.super_property, $.super_property_yield],
+        [$.class_tail, $.class_tail_yield],
+        [$.property_definition, $.property_definition_yield],
+        [$.method_definition, $.method_definition_yield],
+        [$.generator_method, $.generator_method_yield]
+    ],
+
+    rules: {
+        type_parameters: $ => seq("<", $.type_parameter_list, ">"),
+
+        type_parameter_list: $ => choice(
+            $.type_parameter,
+            seq($.type_parameter_list, ",", $.type_parameter)
+        ),
+
+        type_parameter: $ => seq($.identifier, optional($.constraint)),
+
+        constraint: $ => seq("extends", $.type),
+
+        type_arguments: $ => seq("<", $.type_argument_list, ">"),
+
+        type_argument_list: $ => choice(
+            $.type_argument,
+            seq($.type_argument_list, ",", $.type_argument)
+        ),
+
+        type_argument: $ => $.type,
+
+        type: $ => choice(
+            $.primary_or_union_type,
+            $.function_type,
+            $.constructor_type
+        ),
+
+        primary_or_union_type: $ => choice(
+            $.primary_type,
+            $.union_type
+        ),
+
+        primary_type: $ => choice(
+            $.parenthesized_type,
+            $.predefined_type,
+            $.type_reference,
+            $.object_type,
+            $.array_type,
+            $.tuple_type,
+            $.type_query
+        ),
+
+        parenthesized_type: $ => seq("(", $.type, ")"),
+
+        predefined_type: $ => choice(
+            "any",
+            "number",
+            "boolean",
+            "string",
+            "void"
+        ),
+
+        type_reference: $ => seq($.type_name, optional($.type_arguments)),
+
+        type_name: $ => choice(
+            $.identifier,
+            seq($.module_name, ".", $.identifier)
+        ),
+
+        module_name: $ => choice(
+            $.identifier,
+            seq($.module_name, ".", $.identifier)
+        ),
+
+        object_type: $ => seq("{", optional($.type_body), "}"),
+
+        type_body: $ => seq($.type_member_list, optional(";")),
+
+        type_member_list: $ => choice(
+            $.type_member,
+            seq($.type_member_list, ";", $.type_member)
+        ),
+
+        type_member: $ => choice(
+            $.property_signature,
+            $.call_signature,
+            $.construct_signature,
+            $.index_signature,
+            $.method_signature
+        ),
+
+        array_type: $ => seq($.primary_type, "[", "]"),
+
+        tuple_type: $ => seq("[", $.tuple_element_types, "]"),
+
+        tuple_element_types: $ => choice(
+            $.tuple_element_type,
+            seq($.tuple_element_types, ",", $.tuple_element_type)
+        ),
+
+        tuple_element_type: $ => $.type,
+
+        union_type: $ => seq($.primary_or_union_type, "|", $.primary_type),
+
+        function_type: $ => seq(optional($.type_parameters), "(", optional($.parameter_list), ")", "=>", $.type),
+
+        constructor_type: $ => seq("new", optional($.type_parameters), "(", optional($.parameter_list), ")", "=>", $.type),
+
+        type_query: $ => seq("typeof", $.type_query_expression),
+
+        type_query_expression: $ => choice(
+            $.identifier,
+            seq($.type_query_expression, ".", $.identifier_name)
+        ),
+
+        property_signature: $ => seq($.property_name, optional("?"), optional($.type_annotation)),
+
+        property_name: $ => choice(
+            $.identifier_name,
+            $.string_literal,
+            $.numeric_literal,
+            $.literal_property_name,
+            $.computed_property_name
+        ),
+
+        call_signature: $ => seq(optional($.type_parameters), "(", optional($.parameter_list), ")", optional($.type_annotation)),
+
+        parameter_list: $ => choice(
+            $.required_parameter_list,
+            $.optional_parameter_list,
+            $.rest_parameter,
+            seq($.required_parameter_list, ",", $.optional_parameter_list),
+            seq($.required_parameter_list, ",", $.rest_parameter),
+            seq($.optional_parameter_list, ",", $.rest_parameter),
+            seq($.required_parameter_list, ",", $.optional_parameter_list, ",", $.rest_parameter)
+        ),
+
+        required_parameter_list: $ => choice(
+            $.required_parameter,
+            seq($.required_parameter_list, ",", $.required_parameter)
+        ),
+
+        required_parameter: $ => choice(
+            seq(optional($.accessibility_modifier), $.identifier, optional($.type_annotation)),
+            seq($.identifier, ":", $.string_literal)
+        ),
+
+        accessibility_modifier: $ => choice(
+            "public",
+            "private",
+            "protected"
+        ),
+
+        optional_parameter_list: $ => choice(
+            $.optional_parameter,
+            seq($.optional_parameter_list, ",", $.optional_parameter)
+        ),
+
+        optional_parameter: $ => choice(
+            seq(optional($.accessibility_modifier), $.identifier, "?", optional($.type_annotation)),
+            seq(optional($.accessibility_modifier), $.identifier, optional($.type_annotation), $.initializer),
+            seq($.identifier, "?", ":", $.string_literal)
+        ),
+
+        rest_parameter: $ => seq("...", $.identifier, optional($.type_annotation)),
+
+        construct_signature: $ => seq("new", optional($.type_parameters), "(", optional($.parameter_list), ")", optional($.type_annotation)),
+
+        index_signature: $ => choice(
+            seq("[", $.identifier, ":", "string", "]", $.type_annotation),
+            seq("[", $.identifier, ":", "number", "]", $.type_annotation)
+        ),
+
+        method_signature: $ => seq($.property_name, optional("?"), $.call_signature),
+
+        type_alias_declaration: $ => seq("type", $.identifier, "=", $.type, ";"),
+
+        property_assignment: $ => choice(
+            seq($.property_name, ":", $.assignment_expression),
+            seq($.property_name, $.call_signature, "{", $.function_body, "}"),
+            $.get_accessor,
+            $.set_accessor
+        ),
+
+        get_accessor: $ => seq("get", $.property_name, "(", ")", optional($.type_annotation), "{", $.function_body, "}"),
+
+        set_accessor: $ => seq("set", $.property_name, "(", $.identifier, optional($.type_annotation), ")", "{", $.function_body, "}"),
+
+        element_list: $ => choice(
+            seq(optional($.elision), $.assignment_expression),
+            seq(optional($.elision), $.spread_element),
+            seq($.element_list, ",", optional($.elision), $.assignment_expression),
+            seq($.element_list, ",", optional($.elision), $.spread_element),
+            seq(optional($.elision), $.assignment_expression),
+            seq(optional($.elision), $.spread_element),
+            seq($.element_list, ",", optional($.elision), $.assignment_expression),
+            seq($.element_list, ",", optional($.elision), $.spread_element)
+        ),
+
+        spread_element: $ => choice(
+            seq("...", $.assignment_expression),
+            seq("...", $.assignment_expression)
+        ),
+
+        call_expression: $ => choice(
+            seq("super", "(", optional($.argument_list), ")"),
+            seq("super", ".", $.identifier_name),
+            seq($.member_expression, $.arguments),
+            $.super_call,
+            seq($.call_expression, $.arguments),
+            seq($.call_expression, "[", $.expression_in, "]"),
+            seq($.call_expression, ".", $.identifier_name),
+            seq($.call_expression, $.template_literal)
+        ),
+
+        function_expression: $ => choice(
+            seq("function", optional($.identifier), $.call_signature, "{", $.function_body, "}"),
+            seq("function", optional($.binding_identifier), "(", $.formal_parameters, ")", "{", $.function_body, "}")
+        ),
+
+        assignment_expression: $ => choice(
+            $.arrow_function_expression,
+            $.conditional_expression,
+            $.arrow_function,
+            seq($.left_hand_side_expression, "=", $.assignment_expression),
+            seq($.left_hand_side_expression, $.assignment_operator, $.assignment_expression)
+        ),
+
+        arrow_function_expression: $ => choice(
+            seq($.arrow_formal_parameters, "=>", $.block),
+            seq($.arrow_formal_parameters, "=>", $.assignment_expression)
+        ),
+
+        arrow_formal_parameters: $ => choice(
+            $.call_signature,
+            $.identifier
+        ),
+
+        arguments: $ => choice(
+            seq(optional($.type_arguments), "(", optional($.argument_list), ")"),
+            seq("(", ")"),
+            seq("(", $.argument_list, ")")
+        ),
+
+        unary_expression: $ => choice(
+            seq("<", $.type, ">", $.unary_expression),
+            $.postfix_expression,
+            seq("delete", $.unary_expression),
+            seq("void", $.unary_expression),
+            seq("typeof", $.unary_expression),
+            seq("++", $.unary_expression),
+            seq("--", $.unary_expression),
+            seq("+", $.unary_expression),
+            seq("-", $.unary_expression),
+            seq("~", $.unary_expression),
+            seq("!", $.unary_expression)
+        ),
+
+        variable_declaration: $ => choice(
+            $.simple_variable_declaration,
+            $.destructuring_variable_declaration,
+            seq($.binding_identifier, optional($.initializer)),
+            seq($.binding_pattern, $.initializer)
+        ),
+
+        simple_variable_declaration: $ => seq($.identifier, optional($.type_annotation), optional($.initializer)),
+
+        type_annotation: $ => seq(":", $.type),
+
+        destructuring_variable_declaration: $ => seq($.binding_pattern, optional($.type_annotation), $.initializer),
+
+        binding_pattern: $ => choice(
+            $.object_binding_pattern,
+            $.array_binding_pattern,
+            $.object_binding_pattern,
+            $.array_binding_pattern
+        ),
+
+        object_binding_pattern: $ => choice(
+            seq("{", "}"),
+            seq("{", $.binding_property_list, optional(","), "}"),
+            seq("{", "}"),
+            seq("{", $.binding_property_list, "}"),
+            seq("{", $.binding_property_list, ",", "}")
+        ),
+
+        binding_property_list: $ => choice(
+            $.binding_property,
+            seq($.binding_property_list, ",", $.binding_property),
+            $.binding_property,
+            seq($.binding_property_list, ",", $.binding_property)
+        ),
+
+        binding_property: $ => choice(
+            seq($.identifier, optional($.initializer)),
+            seq($.property_name, ":", $.identifier, optional($.initializer)),
+            seq($.property_name, ":", $.binding_pattern, optional($.initializer)),
+            $.single_name_binding,
+            seq($.property_name, ":", $.binding_element)
+        ),
+
+        array_binding_pattern: $ => choice(
+            seq("[", optional($.elision), optional($.binding_rest_element), "]"),
+            seq("[", $.binding_element_list, "]"),
+            seq("[", $.binding_element_list, ",", optional($.elision), optional($.binding_rest_element), "]"),
+            seq("[", optional($.elision), optional($.binding_rest_element), "]"),
+            seq("[", $.binding_element_list, "]"),
+            seq("[", $.binding_element_list, ",", optional($.elision), optional($.binding_rest_element), "]")
+        ),
+
+        binding_element_list: $ => choice(
+            seq(optional($.elision), $.binding_element),
+            seq($.binding_element_list, ",", optional($.elision), $.binding_element),
+            $.binding_elision_element,
+            seq($.binding_element_list, ",", $.binding_elision_element)
+        ),
+
+        binding_element: $ => choice(
+            seq($.identifier, optional($.initializer)),
+            seq($.binding_pattern, optional($.initializer)),
+            $.single_name_binding,
+            seq($.binding_pattern, optional($.initializer_in))
+        ),
+
+        binding_rest_element: $ => choice(
+            seq("...", $.identifier),
+            seq("...", $.binding_identifier)
+        ),
+
+        function_declaration: $ => choice(
+            seq(optional($.function_overloads), $.function_implementation),
+            seq("function", $.binding_identifier, "(", $.formal_parameters, ")", "{", $.function_body, "}")
+        ),
+
+        function_overloads: $ => choice(
+            $.function_overload,
+            seq($.function_overloads, $.function_overload)
+        ),
+
+        function_overload: $ => seq("function", $.identifier, $.call_signature, ";"),
+
+        function_implementation: $ => seq("function", $.identifier, $.call_signature, "{", $.function_body, "}"),
+
+        interface_declaration: $ => seq("interface", $.identifier, optional($.type_parameters), optional($.interface_extends_clause), $.object_type),
+
+        interface_extends_clause: $ => seq("extends", $.class_or_interface_type_list),
+
+        class_or_interface_type_list: $ => choice(
+            $.class_or_interface_type,
+            seq($.class_or_interface_type_list, ",", $.class_or_interface_type)
+        ),
+
+        class_or_interface_type: $ => $.type_reference,
+
+        class_declaration: $ => choice(
+            seq("class", $.identifier, optional($.type_parameters), $.class_heritage, "{", $.class_body, "}"),
+            seq("class", $.binding_identifier, $.class_tail)
+        ),
+
+        class_heritage: $ => choice(
+            seq(optional($.class_extends_clause), optional($.implements_clause)),
+            seq("extends", $.left_hand_side_expression)
+        ),
+
+        class_extends_clause: $ => seq("extends", $.class_type),
+
+        class_type: $ => $.type_reference,
+
+        implements_clause: $ => seq("implements", $.class_or_interface_type_list),
+
+        class_body: $ => choice(
+            optional($.class_elements),
+            $.class_element_list
+        ),
+
+        class_elements: $ => choice(
+            $.class_element,
+            seq($.class_elements, $.class_element)
+        ),
+
+        class_element: $ => choice(
+            $.constructor_declaration,
+            $.property_member_declaration,
+            $.index_member_declaration,
+            $.method_definition,
+            seq("static", $.method_definition),
+            ";"
+        ),
+
+        constructor_declaration: $ => seq(optional($.constructor_overloads), $.constructor_implementation),
+
+        constructor_overloads: $ => choice(
+            $.constructor_overload,
+            seq($.constructor_overloads, $.constructor_overload)
+        ),
+
+        constructor_overload: $ => seq(optional($.accessibility_modifier), "constructor", "(", optional($.parameter_list), ")", ";"),
+
+        constructor_implementation: $ => seq(optional($.accessibility_modifier), "constructor", "(", optional($.parameter_list), ")", "{", $.function_body, "}"),
+
+        property_member_declaration: $ => choice(
+            $.member_variable_declaration,
+            $.member_function_declaration,
+            $.member_accessor_declaration
+        ),
+
+        member_variable_declaration: $ => seq(optional($.accessibility_modifier), optional("static"), $.property_name, optional($.type_annotation), optional($.initializer), ";"),
+
+        member_function_declaration: $ => seq(optional($.member_function_overloads), $.member_function_implementation),
+
+        member_function_overloads: $ => choice(
+            $.member_function_overload,
+            seq($.member_function_overloads, $.member_function_overload)
+        ),
+
+        member_function_overload: $ => seq(optional($.accessibility_modifier), optional("static"), $.property_name, $.call_signature, ";"),
+
+        member_function_implementation: $ => seq(optional($.accessibility_modifier), optional("static"), $.property_name, $.call_signature, "{", $.function_body, "}"),
+
+        member_accessor_declaration: $ => choice(
+            seq(optional($.accessibility_modifier), optional("static"), $.get_accessor),
+            seq(optional($.accessibility_modifier), optional("static"), $.set_accessor)
+        ),
+
+        index_member_declaration: $ => seq($.index_signature, ";"),
+
+        enum_declaration: $ => seq(optional("const"), "enum", $.identifier, "{", optional($.enum_body), "}"),
+
+        enum_body: $ => seq($.enum_member_list, optional(",")),
+
+        enum_member_list: $ => choice(
+            $.enum_member,
+            seq($.enum_member_list, ",", $.enum_member)
+        ),
+
+        enum_member: $ => choice(
+            $.property_name,
+            seq($.property_name, "=", $.enum_value)
+        ),
+
+        enum_value: $ => $.assignment_expression,
+
+        module_declaration: $ => seq("module", $.identifier_path, "{", $.module_body, "}"),
+
+        identifier_path: $ => choice(
+            $.identifier,
+            seq($.identifier_path, ".", $.identifier)
+        ),
+
+        module_body: $ => choice(
+            optional($.module_elements),
+            $.module_item_list
+        ),
+
+        module_elements: $ => choice(
+            $.module_element,
+            seq($.module_elements, $.module_element)
+        ),
+
+        module_element: $ => choice(
+            $.statement,
+            seq(optional("export"), $.variable_declaration),
+            seq(optional("export"), $.function_declaration),
+            seq(optional("export"), $.class_declaration),
+            seq(optional("export"), $.interface_declaration),
+            seq(optional("export"), $.type_alias_declaration),
+            seq(optional("export"), $.enum_declaration),
+            seq(optional("export"), $.module_declaration),
+            seq(optional("export"), $.import_declaration),
+            seq(optional("export"), $.ambient_declaration)
+        ),
+
+        import_declaration: $ => choice(
+            seq("import", $.identifier, "=", $.entity_name, ";"),
+            seq("import", $.import_clause, $.from_clause, ";"),
+            seq("import", $.module_specifier, ";")
+        ),
+
+        entity_name: $ => choice(
+            $.module_name,
+            seq($.module_name, ".", $.identifier)
+        ),
+
+        source_file: $ => choice(
+            $.implementation_source_file,
+            $.declaration_source_file
+        ),
+
+        implementation_source_file: $ => optional($.implementation_elements),
+
+        implementation_elements: $ => choice(
+            $.implementation_element,
+            seq($.implementation_elements, $.implementation_element)
+        ),
+
+        implementation_element: $ => choice(
+            $.module_element,
+            $.export_assignment,
+            $.ambient_external_module_declaration,
+            seq(optional("export"), $.external_import_declaration)
+        ),
+
+        declaration_source_file: $ => optional($.declaration_elements),
+
+        declaration_elements: $ => choice(
+            $.declaration_element,
+            seq($.declaration_elements, $.declaration_element)
+        ),
+
+        declaration_element: $ => choice(
+            $.export_assignment,
+            $.ambient_external_module_declaration,
+            seq(optional("export"), $.interface_declaration),
+            seq(optional("export"), $.type_alias_declaration),
+            seq(optional("export"), $.import_declaration),
+            seq(optional("export"), $.ambient_declaration),
+            seq(optional("export"), $.external_import_declaration)
+        ),
+
+        external_import_declaration: $ => seq("import", $.identifier, "=", $.external_module_reference, ";"),
+
+        external_module_reference: $ => seq("require", "(", $.string_literal, ")"),
+
+        export_assignment: $ => seq("export", "=", $.identifier, ";"),
+
+        ambient_declaration: $ => choice(
+            seq("declare", $.ambient_variable_declaration),
+            seq("declare", $.ambient_function_declaration),
+            seq("declare", $.ambient_class_declaration),
+            seq("declare", $.ambient_enum_declaration),
+            seq("declare", $.ambient_module_declaration)
+        ),
+
+        ambient_variable_declaration: $ => seq("var", $.identifier, optional($.type_annotation), ";"),
+
+        ambient_function_declaration: $ => seq("function", $.identifier, $.call_signature, ";"),
+
+        ambient_class_declaration: $ => seq("class", $.identifier, optional($.type_parameters), $.class_heritage, "{", $.ambient_class_body, "}"),
+
+        ambient_class_body: $ => optional($.ambient_class_body_elements),
+
+        ambient_class_body_elements: $ => choice(
+            $.ambient_class_body_element,
+            seq($.ambient_class_body_elements, $.ambient_class_body_element)
+        ),
+
+        ambient_class_body_element: $ => choice(
+            $.ambient_constructor_declaration,
+            $.ambient_property_member_declaration,
+            $.index_signature
+        ),
+
+        ambient_constructor_declaration: $ => seq("constructor", "(", optional($.parameter_list), ")", ";"),
+
+        ambient_property_member_declaration: $ => choice(
+            seq(optional($.accessibility_modifier), optional("static"), $.property_name, optional($.type_annotation), ";"),
+            seq(optional($.accessibility_modifier), optional("static"), $.property_name, $.call_signature, ";")
+        ),
+
+        ambient_enum_declaration: $ => $.enum_declaration,
+
+        ambient_module_declaration: $ => seq("module", $.identifier_path, "{", $.ambient_module_body, "}"),
+
+        ambient_module_body: $ => optional($.ambient_module_elements),
+
+        ambient_module_elements: $ => choice(
+            $.ambient_module_element,
+            seq($.ambient_module_elements, $.ambient_module_element)
+        ),
+
+        ambient_module_element: $ => choice(
+            seq(optional("export"), $.ambient_variable_declaration),
+            seq(optional("export"), $.ambient_function_declaration),
+            seq(optional("export"), $.ambient_class_declaration),
+            seq(optional("export"), $.interface_declaration),
+            seq(optional("export"), $.ambient_enum_declaration),
+            seq(optional("export"), $.ambient_module_declaration),
+            seq(optional("export"), $.import_declaration)
+        ),
+
+        ambient_external_module_declaration: $ => seq("declare", "module", $.string_literal, "{", $.ambient_external_module_body, "}"),
+
+        ambient_external_module_body: $ => optional($.ambient_external_module_elements),
+
+        ambient_external_module_elements: $ => choice(
+            $.ambient_external_module_element,
+            seq($.ambient_external_module_elements, $.ambient_external_module_element)
+        ),
+
+        ambient_external_module_element: $ => choice(
+            $.ambient_module_element,
+            $.export_assignment,
+            seq(optional("export"), $.external_import_declaration)
+        ),
+
+        identifier_reference: $ => choice(
+            $.identifier,
+            "yield"
+        ),
+
+        identifier_reference_yield: $ => $.identifier,
+
+        binding_identifier: $ => choice(
+            $.identifier,
+            "yield"
+        ),
+
+        binding_identifier_yield: $ => $.identifier,
+
+        label_identifier: $ => choice(
+            $.identifier,
+            "yield"
+        ),
+
+        label_identifier_yield: $ => $.identifier,
+
+        identifier: $ => $.identifier_name,
+
+        primary_expression: $ => choice(
+            "this",
+            $.identifier_reference,
+            $.literal,
+            $.array_literal,
+            $.object_literal,
+            $.function_expression,
+            $.class_expression,
+            $.generator_expression,
+            $.regular_expression_literal,
+            $.template_literal,
+            $.cover_parenthesized_expression_and_arrow_parameter_list
+        ),
+
+        primary_expression_yield: $ => choice(
+            "this",
+            $.identifier_reference_yield,
+            $.literal,
+            $.array_literal_yield,
+            $.object_literal_yield,
+            $.function_expression,
+            $.class_expression_yield,
+            $.generator_expression,
+            $.regular_expression_literal,
+            $.template_literal_yield,
+            $.cover_parenthesized_expression_and_arrow_parameter_list_yield
+        ),
+
+        cover_parenthesized_expression_and_arrow_parameter_list: $ => choice(
+            seq("(", $.expression_in, ")"),
+            seq("(", ")"),
+            seq("(", "...", $.binding_identifier, ")"),
+            seq("(", $.expression_in, ",", "...", $.binding_identifier, ")")
+        ),
+
+        cover_parenthesized_expression_and_arrow_parameter_list_yield: $ => choice(
+            seq("(", $.expression_in_yield, ")"),
+            seq("(", ")"),
+            seq("(", "...", $.binding_identifier_yield, ")"),
+            seq("(", $.expression_in_yield, ",", "...", $.binding_identifier_yield, ")")
+        ),
+
+        literal: $ => choice(
+            $.null_literal,
+            $.boolean_literal,
+            $.numeric_literal,
+            $.string_literal
+        ),
+
+        array_literal: $ => choice(
+            seq("[", optional($.elision), "]"),
+            seq("[", $.element_list, "]"),
+            seq("[", $.element_list, ",", optional($.elision), "]")
+        ),
+
+        array_literal_yield: $ => choice(
+            seq("[", optional($.elision), "]"),
+            seq("[", $.element_list, "]"),
+            seq("[", $.element_list, ",", optional($.elision), "]")
+        ),
+
+        elision: $ => choice(
+            ",",
+            seq($.elision, ",")
+        ),
+
+        object_literal: $ => choice(
+            seq("{", "}"),
+            seq("{", $.property_definition_list, "}"),
+            seq("{", $.property_definition_list, ",", "}")
+        ),
+
+        object_literal_yield: $ => choice(
+            seq("{", "}"),
+            seq("{", $.property_definition_list_yield, "}"),
+            seq("{", $.property_definition_list_yield, ",", "}")
+        ),
+
+        property_definition_list: $ => choice(
+            $.property_definition,
+            seq($.property_definition_list, ",", $.property_definition)
+        ),
+
+        property_definition_list_yield: $ => choice(
+            $.property_definition_yield,
+            seq($.property_definition_list_yield, ",", $.property_definition_yield)
+        ),
+
+        property_definition: $ => choice(
+            $.identifier_reference,
+            $.cover_initialized_name,
+            seq($.property_name, ":", $.assignment_expression),
+            $.method_definition
+        ),
+
+        property_definition_yield: $ => choice(
+            $.identifier_reference_yield,
+            $.cover_initialized_name_yield,
+            seq($.property_name, ":", $.assignment_expression),
+            $.method_definition_yield
+        ),
+
+        literal_property_name: $ => choice(
+            $.identifier_name,
+            $.string_literal,
+            $.numeric_literal
+        ),
+
+        computed_property_name: $ => seq("[", $.assignment_expression, "]"),
+
+        cover_initialized_name: $ => seq($.identifier_reference, $.initializer_in),
+
+        cover_initialized_name_yield: $ => seq($.identifier_reference_yield, $.initializer_in_yield),
+
+        initializer: $ => seq("=", $.assignment_expression),
+
+        initializer_in: $ => seq("=", $.assignment_expression),
+
+        initializer_yield: $ => seq("=", $.assignment_expression),
+
+        initializer_in_yield: $ => seq("=", $.assignment_expression),
+
+        template_literal: $ => choice(
+            $.no_substitution_template,
+            seq($.template_head, $.expression_in, $.template_spans)
+        ),
+
+        template_literal_yield: $ => choice(
+            $.no_substitution_template,
+            seq($.template_head, $.expression_in_yield, $.template_spans_yield)
+        ),
+
+        template_spans: $ => choice(
+            $.template_tail,
+            seq($.template_middle_list, $.template_tail)
+        ),
+
+        template_spans_yield: $ => choice(
+            $.template_tail,
+            seq($.template_middle_list_yield, $.template_tail)
+        ),
+
+        template_middle_list: $ => choice(
+            seq($.template_middle, $.expression_in),
+            seq($.template_middle_list, $.template_middle, $.expression_in)
+        ),
+
+        template_middle_list_yield: $ => choice(
+            seq($.template_middle, $.expression_in_yield),
+            seq($.template_middle_list_yield, $.template_middle, $.expression_in_yield)
+        ),
+
+        member_expression: $ => choice(
+            $.primary_expression,
+            seq($.member_expression, "[", $.expression_in, "]"),
+            seq($.member_expression, ".", $.identifier_name),
+            seq($.member_expression, $.template_literal),
+            $.super_property,
+            $.meta_property,
+            seq("new", $.member_expression, $.arguments)
+        ),
+
+        member_expression_yield: $ => choice(
+            $.primary_expression_yield,
+            seq($.member_expression_yield, "[", $.expression_in_yield, "]"),
+            seq($.member_expression_yield, ".", $.identifier_name),
+            seq($.member_expression_yield, $.template_literal_yield),
+            $.super_property_yield,
+            $.meta_property,
+            seq("new", $.member_expression_yield, $.arguments)
+        ),
+
+        super_property: $ => choice(
+            seq("super", "[", $.expression_in, "]"),
+            seq("super", ".", $.identifier_name)
+        ),
+
+        super_property_yield: $ => choice(
+            seq("super", "[", $.expression_in_yield, "]"),
+            seq("super", ".", $.identifier_name)
+        ),
+
+        meta_property: $ => $.new_target,
+
+        new_target: $ => seq("new", ".", "target"),
+
+        new_expression: $ => choice(
+            $.member_expression,
+            seq("new", $.new_expression)
+        ),
+
+        new_expression_yield: $ => choice(
+            $.member_expression_yield,
+            seq("new", $.new_expression_yield)
+        ),
+
+        super_call: $ => seq("super", $.arguments),
+
+        argument_list: $ => choice(
+            $.assignment_expression,
+            seq("...", $.assignment_expression),
+            seq($.argument_list, ",", $.assignment_expression),
+            seq($.argument_list, ",", "...", $.assignment_expression)
+        ),
+
+        left_hand_side_expression: $ => choice(
+            $.new_expression,
+            $.call_expression
+        ),
+
+        left_hand_side_expression_yield: $ => choice(
+            $.new_expression_yield,
+            $.call_expression
+        ),
+
+        postfix_expression: $ => choice(
+            $.left_hand_side_expression,
+            seq($.left_hand_side_expression, "++"),
+            seq($.left_hand_side_expression, "--")
+        ),
+
+        multiplicative_expression: $ => choice(
+            $.unary_expression,
+            seq($.multiplicative_expression, $.multiplicative_operator, $.unary_expression)
+        ),
+
+        multiplicative_operator: $ => choice(
+            "*",
+            "/",
+            "%"
+        ),
+
+        additive_expression: $ => choice(
+            $.multiplicative_expression,
+            seq($.additive_expression, "+", $.multiplicative_expression),
+            seq($.additive_expression, "-", $.multiplicative_expression)
+        ),
+
+        shift_expression: $ => choice(
+            $.additive_expression,
+            seq($.shift_expression, "<<", $.additive_expression),
+            seq($.shift_expression, ">>", $.additive_expression),
+            seq($.shift_expression, ">>>", $.additive_expression)
+        ),
+
+        relational_expression: $ => choice(
+            $.shift_expression,
+            seq($.relational_expression, "<", $.shift_expression),
+            seq($.relational_expression, ">", $.shift_expression),
+            seq($.relational_expression, "<=", $.shift_expression),
+            seq($.relational_expression, ">=", $.shift_expression),
+            seq($.relational_expression, "instanceof", $.shift_expression)
+        ),
+
+        equality_expression: $ => choice(
+            $.relational_expression,
+            seq($.equality_expression, "==", $.relational_expression),
+            seq($.equality_expression, "!=", $.relational_expression),
+            seq($.equality_expression, "===", $.relational_expression),
+            seq($.equality_expression, "!==", $.relational_expression)
+        ),
+
+        bitwise_andexpression: $ => choice(
+            $.equality_expression,
+            seq($.bitwise_andexpression, "&", $.equality_expression)
+        ),
+
+        bitwise_xorexpression: $ => choice(
+            $.bitwise_andexpression,
+            seq($.bitwise_xorexpression, "^", $.bitwise_andexpression)
+        ),
+
+        bitwise_orexpression: $ => choice(
+            $.bitwise_xorexpression,
+            seq($.bitwise_orexpression, "|", $.bitwise_xorexpression)
+        ),
+
+        logical_andexpression: $ => choice(
+            $.bitwise_orexpression,
+            seq($.logical_andexpression, "&&", $.bitwise_orexpression)
+        ),
+
+        logical_orexpression: $ => choice(
+            $.logical_andexpression,
+            seq($.logical_orexpression, "||", $.logical_andexpression)
+        ),
+
+        conditional_expression: $ => choice(
+            $.logical_orexpression,
+            seq($.logical_orexpression, "?", $.assignment_expression, ":", $.assignment_expression)
+        ),
+
+        assignment_operator: $ => choice(
+            "*=",
+            "/=",
+            "%=",
+            "+=",
+            "-=",
+            "<<=",
+            ">>=",
+            ">>>=",
+            "&=",
+            "^=",
+            "|="
+        ),
+
+        expression: $ => choice(
+            $.assignment_expression,
+            seq($.expression, ",", $.assignment_expression)
+        ),
+
+        expression_in: $ => choice(
+            $.assignment_expression,
+            seq($.expression_in, ",", $.assignment_expression)
+        ),
+
+        expression_yield: $ => choice(
+            $.assignment_expression,
+            seq($.expression_yield, ",", $.assignment_expression)
+        ),
+
+        expression_in_yield: $ => choice(
+            $.assignment_expression,
+            seq($.expression_in_yield, ",", $.assignment_expression)
+        ),
+
+        statement: $ => choice(
+            $.block_statement,
+            $.variable_statement,
+            $.empty_statement,
+            $.expression_statement,
+            $.if_statement,
+            $.breakable_statement,
+            $.continue_statement,
+            $.break_statement,
+            $.with_statement,
+            $.labelled_statement,
+            $.throw_statement,
+            $.try_statement,
+            $.debugger_statement
+        ),
+
+        statement_return: $ => choice(
+            $.block_statement_return,
+            $.variable_statement,
+            $.empty_statement,
+            $.expression_statement,
+            $.if_statement_return,
+            $.breakable_statement_return,
+            $.continue_statement,
+            $.break_statement,
+            $.return_statement,
+            $.with_statement_return,
+            $.labelled_statement_return,
+            $.throw_statement,
+            $.try_statement_return,
+            $.debugger_statement
+        ),
+
+        statement_yield_return: $ => choice(
+            $.block_statement_yield_return,
+            $.variable_statement_yield,
+            $.empty_statement,
+            $.expression_statement_yield,
+            $.if_statement_yield_return,
+            $.breakable_statement_yield_return,
+            $.continue_statement_yield,
+            $.break_statement_yield,
+            $.return_statement_yield,
+            $.with_statement_yield_return,
+            $.labelled_statement_yield_return,
+            $.throw_statement_yield,
+            $.try_statement_yield_return,
+            $.debugger_statement
+        ),
+
+        declaration: $ => choice(
+            $.hoistable_declaration,
+            $.class_declaration,
+            $.lexical_declaration_in
+        ),
+
+        declaration_yield: $ => choice(
+            $.hoistable_declaration_yield,
+            $.class_declaration,
+            $.lexical_declaration_in_yield
+        ),
+
+        hoistable_declaration: $ => choice(
+            $.function_declaration,
+            $.generator_declaration
+        ),
+
+        hoistable_declaration_yield: $ => choice(
+            $.function_declaration,
+            $.generator_declaration_yield
+        ),
+
+        hoistable_declaration_default: $ => choice(
+            $.function_declaration,
+            $.generator_declaration_default
+        ),
+
+        breakable_statement: $ => choice(
+            $.iteration_statement,
+            $.switch_statement
+        ),
+
+        breakable_statement_return: $ => choice(
+            $.iteration_statement_return,
+            $.switch_statement_return
+        ),
+
+        breakable_statement_yield_return: $ => choice(
+            $.iteration_statement_yield_return,
+            $.switch_statement_yield_return
+        ),
+
+        block_statement: $ => $.block,
+
+        block_statement_return: $ => $.block_return,
+
+        block_statement_yield_return: $ => $.block_yield_return,
+
+        block: $ => seq("{", optional($.statement_list), "}"),
+
+        block_return: $ => seq("{", optional($.statement_list_return), "}"),
+
+        block_yield_return: $ => seq("{", optional($.statement_list_yield_return), "}"),
+
+        statement_list: $ => choice(
+            $.statement_list_item,
+            seq($.statement_list, $.statement_list_item)
+        ),
+
+        statement_list_return: $ => choice(
+            $.statement_list_item_return,
+            seq($.statement_list_return, $.statement_list_item_return)
+        ),
+
+        statement_list_yield_return: $ => choice(
+            $.statement_list_item_yield_return,
+            seq($.statement_list_yield_return, $.statement_list_item_yield_return)
+        ),
+
+        statement_list_item: $ => choice(
+            $.statement,
+            $.declaration
+        ),
+
+        statement_list_item_return: $ => choice(
+            $.statement_return,
+            $.declaration
+        ),
+
+        statement_list_item_yield_return: $ => choice(
+            $.statement_yield_return,
+            $.declaration_yield
+        ),
+
+        lexical_declaration: $ => seq($.let_or_const, $.binding_list, ";"),
+
+        lexical_declaration_in: $ => seq($.let_or_const, $.binding_list_in, ";"),
+
+        lexical_declaration_yield: $ => seq($.let_or_const, $.binding_list_yield, ";"),
+
+        lexical_declaration_in_yield: $ => seq($.let_or_const, $.binding_list_in_yield, ";"),
+
+        let_or_const: $ => choice(
+            "let",
+            "const"
+        ),
+
+        binding_list: $ => choice(
+            $.lexical_binding,
+            seq($.binding_list, ",", $.lexical_binding)
+        ),
+
+        binding_list_in: $ => choice(
+            $.lexical_binding_in,
+            seq($.binding_list_in, ",", $.lexical_binding_in)
+        ),
+
+        binding_list_yield: $ => choice(
+            $.lexical_binding_yield,
+            seq($.binding_list_yield, ",", $.lexical_binding_yield)
+        ),
+
+        binding_list_in_yield: $ => choice(
+            $.lexical_binding_in_yield,
+            seq($.binding_list_in_yield, ",", $.lexical_binding_in_yield)
+        ),
+
+        lexical_binding: $ => choice(
+            seq($.binding_identifier, optional($.initializer)),
+            seq($.binding_pattern, $.initializer)
+        ),
+
+        lexical_binding_in: $ => choice(
+            seq($.binding_identifier, optional($.initializer_in)),
+            seq($.binding_pattern, $.initializer_in)
+        ),
+
+        lexical_binding_yield: $ => choice(
+            seq($.binding_identifier_yield, optional($.initializer_yield)),
+            seq($.binding_pattern, $.initializer_yield)
+        ),
+
+        lexical_binding_in_yield: $ => choice(
+            seq($.binding_identifier_yield, optional($.initializer_in_yield)),
+            seq($.binding_pattern, $.initializer_in_yield)
+        ),
+
+        variable_statement: $ => seq("var", $.variable_declaration_list_in, ";"),
+
+        variable_statement_yield: $ => seq("var", $.variable_declaration_list_in_yield, ";"),
+
+        variable_declaration_list: $ => choice(
+            $.variable_declaration,
+            seq($.variable_declaration_list, ",", $.variable_declaration)
+        ),
+
+        variable_declaration_list_in: $ => choice(
+            $.variable_declaration,
+            seq($.variable_declaration_list_in, ",", $.variable_declaration)
+        ),
+
+        variable_declaration_list_yield: $ => choice(
+            $.variable_declaration,
+            seq($.variable_declaration_list_yield, ",", $.variable_declaration)
+        ),
+
+        variable_declaration_list_in_yield: $ => choice(
+            $.variable_declaration,
+            seq($.variable_declaration_list_in_yield, ",", $.variable_declaration)
+        ),
+
+        binding_elision_element: $ => seq(optional($.elision), $.binding_element),
+
+        single_name_binding: $ => seq($.binding_identifier, optional($.initializer_in)),
+
+        empty_statement: $ => ";",
+
+        expression_statement: $ => seq($.expression_in, ";"),
+
+        expression_statement_yield: $ => seq($.expression_in_yield, ";"),
+
+        if_statement: $ => choice(
+            seq("if", "(", $.expression_in, ")", $.statement, "else", $.statement),
+            seq("if", "(", $.expression_in, ")", $.statement)
+        ),
+
+        if_statement_return: $ => choice(
+            seq("if", "(", $.expression_in, ")", $.statement_return, "else", $.statement_return),
+            seq("if", "(", $.expression_in, ")", $.statement_return)
+        ),
+
+        if_statement_yield_return: $ => choice(
+            seq("if", "(", $.expression_in_yield, ")", $.statement_yield_return, "else", $.statement_yield_return),
+            seq("if", "(", $.expression_in_yield, ")", $.statement_yield_return)
+        ),
+
+        iteration_statement: $ => choice(
+            seq("do", $.statement, "while", "(", $.expression_in, ")", ";"),
+            seq("while", "(", $.expression_in, ")", $.statement),
+            seq("for", "(", optional($.expression), ";", optional($.expression_in), ";", optional($.expression_in), ")", $.statement),
+            seq("for", "(", "var", $.variable_declaration_list, ";", optional($.expression_in), ";", optional($.expression_in), ")", $.statement),
+            seq("for", "(", $.lexical_declaration, optional($.expression_in), ";", optional($.expression_in), ")", $.statement),
+            seq("for", "(", $.left_hand_side_expression, "in", $.expression_in, ")", $.statement),
+            seq("for", "(", "var", $.for_binding, "in", $.expression_in, ")", $.statement),
+            seq("for", "(", $.for_declaration, "in", $.expression_in, ")", $.statement),
+            seq("for", "(", $.left_hand_side_expression, "of", $.assignment_expression, ")", $.statement),
+            seq("for", "(", "var", $.for_binding, "of", $.assignment_expression, ")", $.statement),
+            seq("for", "(", $.for_declaration, "of", $.assignment_expression, ")", $.statement)
+        ),
+
+        iteration_statement_return: $ => choice(
+            seq("do", $.statement_return, "while", "(", $.expression_in, ")", ";"),
+            seq("while", "(", $.expression_in, ")", $.statement_return),
+            seq("for", "(", optional($.expression), ";", optional($.expression_in), ";", optional($.expression_in), ")", $.statement_return),
+            seq("for", "(", "var", $.variable_declaration_list, ";", optional($.expression_in), ";", optional($.expression_in), ")", $.statement_return),
+            seq("for", "(", $.lexical_declaration, optional($.expression_in), ";", optional($.expression_in), ")", $.statement_return),
+            seq("for", "(", $.left_hand_side_expression, "in", $.expression_in, ")", $.statement_return),
+            seq("for", "(", "var", $.for_binding, "in", $.expression_in, ")", $.statement_return),
+            seq("for", "(", $.for_declaration, "in", $.expression_in, ")", $.statement_return),
+            seq("for", "(", $.left_hand_side_expression, "of", $.assignment_expression, ")", $.statement_return),
+            seq("for", "(", "var", $.for_binding, "of", $.assignment_expression, ")", $.statement_return),
+            seq("for", "(", $.for_declaration, "of", $.assignment_expression, ")", $.statement_return)
+        ),
+
+        iteration_statement_yield_return: $ => choice(
+            seq("do", $.statement_yield_return, "while", "(", $.expression_in_yield, ")", ";"),
+            seq("while", "(", $.expression_in_yield, ")", $.statement_yield_return),
+            seq("for", "(", optional($.expression_yield), ";", optional($.expression_in_yield), ";", optional($.expression_in_yield), ")", $.statement_yield_return),
+            seq("for", "(", "var", $.variable_declaration_list_yield, ";", optional($.expression_in_yield), ";", optional($.expression_in_yield), ")", $.statement_yield_return),
+            seq("for", "(", $.lexical_declaration_yield, optional($.expression_in_yield), ";", optional($.expression_in_yield), ")", $.statement_yield_return),
+            seq("for", "(", $.left_hand_side_expression_yield, "in", $.expression_in_yield, ")", $.statement_yield_return),
+            seq("for", "(", "var", $.for_binding_yield, "in", $.expression_in_yield, ")", $.statement_yield_return),
+            seq("for", "(", $.for_declaration_yield, "in", $.expression_in_yield, ")", $.statement_yield_return),
+            seq("for", "(", $.left_hand_side_expression_yield, "of", $.assignment_expression, ")", $.statement_yield_return),
+            seq("for", "(", "var", $.for_binding_yield, "of", $.assignment_expression, ")", $.statement_yield_return),
+            seq("for", "(", $.for_declaration_yield, "of", $.assignment_expression, ")", $.statement_yield_return)
+        ),
+
+        for_declaration: $ => seq($.let_or_const, $.for_binding),
+
+        for_declaration_yield: $ => seq($.let_or_const, $.for_binding_yield),
+
+        for_binding: $ => choice(
+            $.binding_identifier,
+            $.binding_pattern
+        ),
+
+        for_binding_yield: $ => choice(
+            $.binding_identifier_yield,
+            $.binding_pattern
+        ),
+
+        continue_statement: $ => choice(
+            seq("continue", ";"),
+            seq("continue", $.label_identifier, ";")
+        ),
+
+        continue_statement_yield: $ => choice(
+            seq("continue", ";"),
+            seq("continue", $.label_identifier_yield, ";")
+        ),
+
+        break_statement: $ => choice(
+            seq("break", ";"),
+            seq("break", $.label_identifier, ";")
+        ),
+
+        break_statement_yield: $ => choice(
+            seq("break", ";"),
+            seq("break", $.label_identifier_yield, ";")
+        ),
+
+        return_statement: $ => choice(
+            seq("return", ";"),
+            seq("return", $.expression_in, ";")
+        ),
+
+        return_statement_yield: $ => choice(
+            seq("return", ";"),
+            seq("return", $.expression_in_yield, ";")
+        ),
+
+        with_statement: $ => seq("with", "(", $.expression_in, ")", $.statement),
+
+        with_statement_return: $ => seq("with", "(", $.expression_in, ")", $.statement_return),
+
+        with_statement_yield_return: $ => seq("with", "(", $.expression_in_yield, ")", $.statement_yield_return),
+
+        switch_statement: $ => seq("switch", "(", $.expression_in, ")", $.case_block),
+
+        switch_statement_return: $ => seq("switch", "(", $.expression_in, ")", $.case_block_return),
+
+        switch_statement_yield_return: $ => seq("switch", "(", $.expression_in_yield, ")", $.case_block_yield_return),
+
+        case_block: $ => choice(
+            seq("{", optional($.case_clauses), "}"),
+            seq("{", optional($.case_clauses), $.default_clause, optional($.case_clauses), "}")
+        ),
+
+        case_block_return: $ => choice(
+            seq("{", optional($.case_clauses_return), "}"),
+            seq("{", optional($.case_clauses_return), $.default_clause_return, optional($.case_clauses_return), "}")
+        ),
+
+        case_block_yield_return: $ => choice(
+            seq("{", optional($.case_clauses_yield_return), "}"),
+            seq("{", optional($.case_clauses_yield_return), $.default_clause_yield_return, optional($.case_clauses_yield_return), "}")
+        ),
+
+        case_clauses: $ => choice(
+            $.case_clause,
+            seq($.case_clauses, $.case_clause)
+        ),
+
+        case_clauses_return: $ => choice(
+            $.case_clause_return,
+            seq($.case_clauses_return, $.case_clause_return)
+        ),
+
+        case_clauses_yield_return: $ => choice(
+            $.case_clause_yield_return,
+            seq($.case_clauses_yield_return, $.case_clause_yield_return)
+        ),
+
+        case_clause: $ => seq("case", $.expression_in, ":", optional($.statement_list)),
+
+        case_clause_return: $ => seq("case", $.expression_in, ":", optional($.statement_list_return)),
+
+        case_clause_yield_return: $ => seq("case", $.expression_in_yield, ":", optional($.statement_list_yield_return)),
+
+        default_clause: $ => seq("default", ":", optional($.statement_list)),
+
+        default_clause_return: $ => seq("default", ":", optional($.statement_list_return)),
+
+        default_clause_yield_return: $ => seq("default", ":", optional($.statement_list_yield_return)),
+
+        labelled_statement: $ => seq($.label_identifier, ":", $.labelled_item),
+
+        labelled_statement_return: $ => seq($.label_identifier, ":", $.labelled_item_return),
+
+        labelled_statement_yield_return: $ => seq($.label_identifier_yield, ":", $.labelled_item_yield_return),
+
+        labelled_item: $ => choice(
+            $.statement,
+            $.function_declaration
+        ),
+
+        labelled_item_return: $ => choice(
+            $.statement_return,
+            $.function_declaration
+        ),
+
+        labelled_item_yield_return: $ => choice(
+            $.statement_yield_return,
+            $.function_declaration
+        ),
+
+        throw_statement: $ => seq("throw", $.expression_in, ";"),
+
+        throw_statement_yield: $ => seq("throw", $.expression_in_yield, ";"),
+
+        try_statement: $ => choice(
+            seq("try", $.block, $.catch),
+            seq("try", $.block, $.finally),
+            seq("try", $.block, $.catch, $.finally)
+        ),
+
+        try_statement_return: $ => choice(
+            seq("try", $.block_return, $.catch_return),
+            seq("try", $.block_return, $.finally_return),
+            seq("try", $.block_return, $.catch_return, $.finally_return)
+        ),
+
+        try_statement_yield_return: $ => choice(
+            seq("try", $.block_yield_return, $.catch_yield_return),
+            seq("try", $.block_yield_return, $.finally_yield_return),
+            seq("try", $.block_yield_return, $.catch_yield_return, $.finally_yield_return)
+        ),
+
+        catch: $ => seq("catch", "(", $.catch_parameter, ")", $.block),
+
+        catch_return: $ => seq("catch", "(", $.catch_parameter, ")", $.block_return),
+
+        catch_yield_return: $ => seq("catch", "(", $.catch_parameter_yield, ")", $.block_yield_return),
+
+        finally: $ => seq("finally", $.block),
+
+        finally_return: $ => seq("finally", $.block_return),
+
+        finally_yield_return: $ => seq("finally", $.block_yield_return),
+
+        catch_parameter: $ => choice(
+            $.binding_identifier,
+            $.binding_pattern
+        ),
+
+        catch_parameter_yield: $ => choice(
+            $.binding_identifier_yield,
+            $.binding_pattern
+        ),
+
+        debugger_statement: $ => seq("debugger", ";"),
+
+        strict_formal_parameters: $ => $.formal_parameters,
+
+        strict_formal_parameters_yield: $ => $.formal_parameters_yield,
+
+        formal_parameters: $ => choice(
+            blank(),
+            $.formal_parameter_list
+        ),
+
+        formal_parameters_yield: $ => choice(
+            blank(),
+            $.formal_parameter_list_yield
+        ),
+
+        formal_parameter_list: $ => choice(
+            $.function_rest_parameter,
+            $.formals_list,
+            seq($.formals_list, ",", $.function_rest_parameter)
+        ),
+
+        formal_parameter_list_yield: $ => choice(
+            $.function_rest_parameter_yield,
+            $.formals_list_yield,
+            seq($.formals_list_yield, ",", $.function_rest_parameter_yield)
+        ),
+
+        formals_list: $ => choice(
+            $.formal_parameter,
+            seq($.formals_list, ",", $.formal_parameter)
+        ),
+
+        formals_list_yield: $ => choice(
+            $.formal_parameter_yield,
+            seq($.formals_list_yield, ",", $.formal_parameter_yield)
+        ),
+
+        function_rest_parameter: $ => $.binding_rest_element,
+
+        function_rest_parameter_yield: $ => $.binding_rest_element,
+
+        formal_parameter: $ => $.binding_element,
+
+        formal_parameter_yield: $ => $.binding_element,
+
+        function_body: $ => $.function_statement_list,
+
+        function_body_yield: $ => $.function_statement_list_yield,
+
+        function_statement_list: $ => optional($.statement_list_return),
+
+        function_statement_list_yield: $ => optional($.statement_list_yield_return),
+
+        arrow_function: $ => seq($.arrow_parameters, "=>", $.concise_body),
+
+        arrow_parameters: $ => choice(
+            $.binding_identifier,
+            $.cover_parenthesized_expression_and_arrow_parameter_list
+        ),
+
+        concise_body: $ => choice(
+            $.assignment_expression,
+            seq("{", $.function_body, "}")
+        ),
+
+        method_definition: $ => choice(
+            seq($.property_name, "(", $.strict_formal_parameters, ")", "{", $.function_body, "}"),
+            $.generator_method,
+            seq("get", $.property_name, "(", ")", "{", $.function_body, "}"),
+            seq("set", $.property_name, "(", $.property_set_parameter_list, ")", "{", $.function_body, "}")
+        ),
+
+        method_definition_yield: $ => choice(
+            seq($.property_name, "(", $.strict_formal_parameters, ")", "{", $.function_body, "}"),
+            $.generator_method_yield,
+            seq("get", $.property_name, "(", ")", "{", $.function_body, "}"),
+            seq("set", $.property_name, "(", $.property_set_parameter_list, ")", "{", $.function_body, "}")
+        ),
+
+        property_set_parameter_list: $ => $.formal_parameter,
+
+        generator_method: $ => seq("*", $.property_name, "(", $.strict_formal_parameters_yield, ")", "{", $.generator_body, "}"),
+
+        generator_method_yield: $ => seq("*", $.property_name, "(", $.strict_formal_parameters_yield, ")", "{", $.generator_body, "}"),
+
+        generator_declaration: $ => seq("function", "*", $.binding_identifier, "(", $.formal_parameters_yield, ")", "{", $.generator_body, "}"),
+
+        generator_declaration_yield: $ => seq("function", "*", $.binding_identifier_yield, "(", $.formal_parameters_yield, ")", "{", $.generator_body, "}"),
+
+        generator_declaration_default: $ => choice(
+            seq("function", "*", $.binding_identifier, "(", $.formal_parameters_yield, ")", "{", $.generator_body, "}"),
+            seq("function", "*", "(", $.formal_parameters_yield, ")", "{", $.generator_body, "}")
+        ),
+
+        generator_expression: $ => seq("function", "*", optional($.binding_identifier_yield), "(", $.formal_parameters_yield, ")", "{", $.generator_body, "}"),
+
+        generator_body: $ => $.function_body_yield,
+
+        class_expression: $ => seq("class", optional($.binding_identifier), $.class_tail),
+
+        class_expression_yield: $ => seq("class", optional($.binding_identifier_yield), $.class_tail_yield),
+
+        class_tail: $ => seq(optional($.class_heritage), "{", optional($.class_body), "}"),
+
+        class_tail_yield: $ => seq(optional($.class_heritage), "{", optional($.class_body), "}"),
+
+        class_element_list: $ => choice(
+            $.class_element,
+            seq($.class_element_list, $.class_element)
+        ),
+
+        script: $ => optional($.script_body),
+
+        script_body: $ => $.statement_list,
+
+        module: $ => optional($.module_body),
+
+        module_item_list: $ => choice(
+            $.module_item,
+            seq($.module_item_list, $.module_item)
+        ),
+
+        module_item: $ => choice(
+            $.import_declaration,
+            $.export_declaration,
+            $.statement_list_item
+        ),
+
+        import_clause: $ => choice(
+            $.imported_default_binding,
+            $.name_space_import,
+            $.named_imports,
+            seq($.imported_default_binding, ",", $.name_space_import),
+            seq($.imported_default_binding, ",", $.named_imports)
+        ),
+
+        imported_default_binding: $ => $.imported_binding,
+
+        name_space_import: $ => seq("*", "as", $.imported_binding),
+
+        named_imports: $ => choice(
+            seq("{", "}"),
+            seq("{", $.imports_list, "}"),
+            seq("{", $.imports_list, ",", "}")
+        ),
+
+        from_clause: $ => seq("from", $.module_specifier),
+
+        imports_list: $ => choice(
+            $.import_specifier,
+            seq($.imports_list, ",", $.import_specifier)
+        ),
+
+        import_specifier: $ => choice(
+            $.imported_binding,
+            seq($.identifier_name, "as", $.imported_binding)
+        ),
+
+        module_specifier: $ => $.string_literal,
+
+        imported_binding: $ => $.binding_identifier,
+
+        export_declaration: $ => choice(
+            seq("export", "*", $.from_clause, ";"),
+            seq("export", $.export_clause, $.from_clause, ";"),
+            seq("export", $.export_clause, ";"),
+            seq("export", $.variable_statement),
+            seq("export", $.declaration),
+            seq("export", "default", $.hoistable_declaration_default),
+            seq("export", "default", $.class_declaration),
+            seq("export", "default", $.assignment_expression, ";")
+        ),
+
+        export_clause: $ => choice(
+            seq("{", "}"),
+            seq("{", $.exports_list, "}"),
+            seq("{", $.exports_list, ",", "}")
+        ),
+
+        exports_list: $ => choice(
+            $.export_specifier,
+            seq($.exports_list, ",", $.export_specifier)
+        ),
+
+        export_specifier: $ => choice(
+            $.identifier_name,
+            seq($.identifier_name, "as", $.identifier_name)
+        ),
+
+        line_terminator: $ => token(choice(
+            "\n",
+            "\r",
+            " ",
+            " "
+        )),
+
+        identifier_name: $ => token(seq(choice(/[\p{ID_Start}\p{Other_ID_Start}]/, "$", "_", seq("\\", choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), repeat(choice(/[\p{ID_Continue}\p{Other_ID_Continue}\p{Other_ID_Start}]/, "$", "_", seq("\\", choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}"))), "‌", "‍")))),
+
+        null_literal: $ => "null",
+
+        boolean_literal: $ => token(choice(
+            "true",
+            "false"
+        )),
+
+        numeric_literal: $ => token(choice(
+            choice(seq(choice("0", seq(/[1-9]/, optional(seq(/[0-9]/, repeat(/[0-9]/))))), ".", optional(seq(/[0-9]/, repeat(/[0-9]/))), optional(seq(/[Ee]/, choice(seq(/[0-9]/, repeat(/[0-9]/)), seq("+", seq(/[0-9]/, repeat(/[0-9]/))), seq("-", seq(/[0-9]/, repeat(/[0-9]/))))))), seq(".", seq(/[0-9]/, repeat(/[0-9]/)), optional(seq(/[Ee]/, choice(seq(/[0-9]/, repeat(/[0-9]/)), seq("+", seq(/[0-9]/, repeat(/[0-9]/))), seq("-", seq(/[0-9]/, repeat(/[0-9]/))))))), seq(choice("0", seq(/[1-9]/, optional(seq(/[0-9]/, repeat(/[0-9]/))))), optional(seq(/[Ee]/, choice(seq(/[0-9]/, repeat(/[0-9]/)), seq("+", seq(/[0-9]/, repeat(/[0-9]/))), seq("-", seq(/[0-9]/, repeat(/[0-9]/)))))))),
+            choice(seq("0b", seq(/[0-1]/, repeat(/[0-1]/))), seq("0B", seq(/[0-1]/, repeat(/[0-1]/)))),
+            choice(seq("0o", seq(/[0-7]/, repeat(/[0-7]/))), seq("0O", seq(/[0-7]/, repeat(/[0-7]/)))),
+            choice(seq("0x", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/))), seq("0X", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/))))
+        )),
+
+        string_literal: $ => token(choice(
+            seq("\"", optional(seq(repeat(choice(/[^\u000A\u000D"\\\u2028-\u2029]/, seq("\\", choice(/[^\u000A\u000D0-9ux\u2028-\u2029]/, "0", seq("x", /[0-9A-Fa-f]/, /[0-9A-Fa-f]/), choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), seq("\\", choice("\n", "\r", " ", " ", seq("\r", "\n"))))), choice(/[^\u000A\u000D"\\\u2028-\u2029]/, seq("\\", choice(/[^\u000A\u000D0-9ux\u2028-\u2029]/, "0", seq("x", /[0-9A-Fa-f]/, /[0-9A-Fa-f]/), choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), seq("\\", choice("\n", "\r", " ", " ", seq("\r", "\n")))))), "\""),
+            seq("'", optional(seq(repeat(choice(/[^\u000A\u000D'\\\u2028-\u2029]/, seq("\\", choice(/[^\u000A\u000D0-9ux\u2028-\u2029]/, "0", seq("x", /[0-9A-Fa-f]/, /[0-9A-Fa-f]/), choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), seq("\\", choice("\n", "\r", " ", " ", seq("\r", "\n"))))), choice(/[^\u000A\u000D'\\\u2028-\u2029]/, seq("\\", choice(/[^\u000A\u000D0-9ux\u2028-\u2029]/, "0", seq("x", /[0-9A-Fa-f]/, /[0-9A-Fa-f]/), choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), seq("\\", choice("\n", "\r", " ", " ", seq("\r", "\n")))))), "'")
+        )),
+
+        regular_expression_literal: $ => token(seq("/", seq(choice(/[^\u000A\u000D*\/\[-\\\u2028-\u2029]/, seq("\\", /[^\u000A\u000D\u2028-\u2029]/), seq("[", seq(blank(), repeat(choice(/[^\u000A\u000D\\-\]\u2028-\u2029]/, seq("\\", /[^\u000A\u000D\u2028-\u2029]/)))), "]")), seq(blank(), repeat(choice(/[^\u000A\u000D\/\[-\\\u2028-\u2029]/, seq("\\", /[^\u000A\u000D\u2028-\u2029]/), seq("[", seq(blank(), repeat(choice(/[^\u000A\u000D\\-\]\u2028-\u2029]/, seq("\\", /[^\u000A\u000D\u2028-\u2029]/)))), "]"))))), "/", seq(blank(), repeat(choice(/[\p{ID_Continue}\p{Other_ID_Continue}\p{Other_ID_Start}]/, "$", "_", seq("\\", choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}"))), "‌", "‍"))))),
+
+        no_substitution_template: $ => token(seq("`", optional(seq(repeat(choice("$", seq("\\", choice(/[^\u000A\u000D0-9ux\u2028-\u2029]/, "0", seq("x", /[0-9A-Fa-f]/, /[0-9A-Fa-f]/), choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), seq("\\", choice("\n", "\r", " ", " ", seq("\r", "\n"))), choice("\n", "\r", " ", " ", seq("\r", "\n")), /[^\u000A\u000D$\\`\u2028-\u2029]/)), choice("$", seq("\\", choice(/[^\u000A\u000D0-9ux\u2028-\u2029]/, "0", seq("x", /[0-9A-Fa-f]/, /[0-9A-Fa-f]/), choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), seq("\\", choice("\n", "\r", " ", " ", seq("\r", "\n"))), choice("\n", "\r", " ", " ", seq("\r", "\n")), /[^\u000A\u000D$\\`\u2028-\u2029]/))), "`")),
+
+        template_head: $ => token(seq("`", optional(seq(repeat(choice("$", seq("\\", choice(/[^\u000A\u000D0-9ux\u2028-\u2029]/, "0", seq("x", /[0-9A-Fa-f]/, /[0-9A-Fa-f]/), choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), seq("\\", choice("\n", "\r", " ", " ", seq("\r", "\n"))), choice("\n", "\r", " ", " ", seq("\r", "\n")), /[^\u000A\u000D$\\`\u2028-\u2029]/)), choice("$", seq("\\", choice(/[^\u000A\u000D0-9ux\u2028-\u2029]/, "0", seq("x", /[0-9A-Fa-f]/, /[0-9A-Fa-f]/), choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), seq("\\", choice("\n", "\r", " ", " ", seq("\r", "\n"))), choice("\n", "\r", " ", " ", seq("\r", "\n")), /[^\u000A\u000D$\\`\u2028-\u2029]/))), "${")),
+
+        template_middle: $ => token(seq("}", optional(seq(repeat(choice("$", seq("\\", choice(/[^\u000A\u000D0-9ux\u2028-\u2029]/, "0", seq("x", /[0-9A-Fa-f]/, /[0-9A-Fa-f]/), choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), seq("\\", choice("\n", "\r", " ", " ", seq("\r", "\n"))), choice("\n", "\r", " ", " ", seq("\r", "\n")), /[^\u000A\u000D$\\`\u2028-\u2029]/)), choice("$", seq("\\", choice(/[^\u000A\u000D0-9ux\u2028-\u2029]/, "0", seq("x", /[0-9A-Fa-f]/, /[0-9A-Fa-f]/), choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), seq("\\", choice("\n", "\r", " ", " ", seq("\r", "\n"))), choice("\n", "\r", " ", " ", seq("\r", "\n")), /[^\u000A\u000D$\\`\u2028-\u2029]/))), "${")),
+
+        template_tail: $ => token(seq("}", optional(seq(repeat(choice("$", seq("\\", choice(/[^\u000A\u000D0-9ux\u2028-\u2029]/, "0", seq("x", /[0-9A-Fa-f]/, /[0-9A-Fa-f]/), choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), seq("\\", choice("\n", "\r", " ", " ", seq("\r", "\n"))), choice("\n", "\r", " ", " ", seq("\r", "\n")), /[^\u000A\u000D$\\`\u2028-\u2029]/)), choice("$", seq("\\", choice(/[^\u000A\u000D0-9ux\u2028-\u2029]/, "0", seq("x", /[0-9A-Fa-f]/, /[0-9A-Fa-f]/), choice(seq("u", seq(/[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/, /[0-9A-Fa-f]/)), seq("u{", seq(/[0-9A-Fa-f]/, repeat(/[0-9A-Fa-f]/)), "}")))), seq("\\", choice("\n", "\r", " ", " ", seq("\r", "\n"))), choice("\n", "\r", " ", " ", seq("\r", "\n")), /[^\u000A\u000D$\\`\u2028-\u2029]/))), "`"))
+    }
+});
\ No newline at end of file
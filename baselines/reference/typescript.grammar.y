@@ -0,0 +1,2237 @@
+%token LESS "<"
+%token GREATER ">"
+%token COMMA ","
+%token EXTENDS "extends"
+%token LPAREN "("
+%token RPAREN ")"
+%token ANY "any"
+%token NUMBER "number"
+%token BOOLEAN "boolean"
+%token STRING "string"
+%token VOID "void"
+%token DOT "."
+%token LBRACE "{"
+%token RBRACE "}"
+%token SEMICOLON ";"
+%token LBRACKET "["
+%token RBRACKET "]"
+%token BAR "|"
+%token EQUALS_GREATER "=>"
+%token NEW "new"
+%token TYPEOF "typeof"
+%token IdentifierName
+%token QUESTION "?"
+%token StringLiteral
+%token NumericLiteral
+%token COLON ":"
+%token PUBLIC "public"
+%token PRIVATE "private"
+%token PROTECTED "protected"
+%token DOT_DOT_DOT "..."
+%token TYPE "type"
+%token EQUALS "="
+%token GET "get"
+%token SET "set"
+%token SUPER "super"
+%token FUNCTION "function"
+%token DELETE "delete"
+%token PLUS_PLUS "++"
+%token MINUS_MINUS "--"
+%token PLUS "+"
+%token MINUS "-"
+%token TILDE "~"
+%token EXCLAMATION "!"
+%token INTERFACE "interface"
+%token CLASS "class"
+%token IMPLEMENTS "implements"
+%token STATIC "static"
+%token CONSTRUCTOR "constructor"
+%token CONST "const"
+%token ENUM "enum"
+%token MODULE "module"
+%token EXPORT "export"
+%token IMPORT "import"
+%token REQUIRE "require"
+%token DECLARE "declare"
+%token VAR "var"
+%token YIELD "yield"
+%token THIS "this"
+%token RegularExpressionLiteral
+%token NullLiteral
+%token BooleanLiteral
+%token NoSubstitutionTemplate
+%token TemplateHead
+%token TemplateTail
+%token TemplateMiddle
+%token TARGET "target"
+%token ASTERISK "*"
+%token SLASH "/"
+%token PERCENT "%"
+%token LESS_LESS "<<"
+%token GREATER_GREATER ">>"
+%token GREATER_GREATER_GREATER ">>>"
+%token LESS_EQUALS "<="
+%token GREATER_EQUALS ">="
+%token INSTANCEOF "instanceof"
+%token EQUALS_EQUALS "=="
+%token EXCLAMATION_EQUALS "!="
+%token EQUALS_EQUALS_EQUALS "==="
+%token EXCLAMATION_EQUALS_EQUALS "!=="
+%token AMPERSAND "&"
+%token CARET "^"
+%token AMPERSAND_AMPERSAND "&&"
+%token BAR_BAR "||"
+%token ASTERISK_EQUALS "*="
+%token SLASH_EQUALS "/="
+%token PERCENT_EQUALS "%="
+%token PLUS_EQUALS "+="
+%token MINUS_EQUALS "-="
+%token LESS_LESS_EQUALS "<<="
+%token GREATER_GREATER_EQUALS ">>="
+%token GREATER_GREATER_GREATER_EQUALS ">>>="
+%token AMPERSAND_EQUALS "&="
+%token CARET_EQUALS "^="
+%token BAR_EQUALS "|="
+%token LET "let"
+%token IF "if"
+%token ELSE "else"
+%token DO "do"
+%token WHILE "while"
+%token FOR "for"
+%token IN "in"
+%token OF "of"
+%token CONTINUE "continue"
+%token BREAK "break"
+%token RETURN "return"
+%token WITH "with"
+%token SWITCH "switch"
+%token CASE "case"
+%token DEFAULT "default"
+%token THROW "throw"
+%token TRY "try"
+%token CATCH "catch"
+%token FINALLY "finally"
+%token DEBUGGER "debugger"
+%token AS "as"
+%token FROM "from"
+
+%start TypeParameters
+
+%%
+
+TypeParameters
+    : "<" TypeParameterList ">"
+    ;
+
+TypeParameterList
+    : TypeParameter
+    | TypeParameterList "," TypeParameter
+    ;
+
+TypeParameter
+    : Identifier Constraint_opt
+    ;
+
+Constraint
+    : "extends" Type
+    ;
+
+TypeArguments
+    : "<" TypeArgumentList ">"
+    ;
+
+TypeArgumentList
+    : TypeArgument
+    | TypeArgumentList "," TypeArgument
+    ;
+
+TypeArgument
+    : Type
+    ;
+
+Type
+    : PrimaryOrUnionType
+    | FunctionType
+    | ConstructorType
+    ;
+
+PrimaryOrUnionType
+    : PrimaryType
+    | UnionType
+    ;
+
+PrimaryType
+    : ParenthesizedType
+    | PredefinedType
+    | TypeReference
+    | ObjectType
+    | ArrayType
+    | TupleType
+    | TypeQuery
+    ;
+
+ParenthesizedType
+    : "(" Type ")"
+    ;
+
+PredefinedType
+    : "any"
+    | "number"
+    | "boolean"
+    | "string"
+    | "void"
+    ;
+
+TypeReference
+    : TypeName TypeArguments_opt
+    ;
+
+TypeName
+    : Identifier
+    | ModuleName "." Identifier
+    ;
+
+ModuleName
+    : Identifier
+    | ModuleName "." Identifier
+    ;
+
+ObjectType
+    : "{" TypeBody_opt "}"
+    ;
+
+TypeBody
+    : TypeMemberList SEMICOLON_opt
+    ;
+
+TypeMemberList
+    : TypeMember
+    | TypeMemberList ";" TypeMember
+    ;
+
+TypeMember
+    : PropertySignature
+    | CallSignature
+    | ConstructSignature
+    | IndexSignature
+    | MethodSignature
+    ;
+
+ArrayType
+    : PrimaryType "[" "]"
+    ;
+
+TupleType
+    : "[" TupleElementTypes "]"
+    ;
+
+TupleElementTypes
+    : TupleElementType
+    | TupleElementTypes "," TupleElementType
+    ;
+
+TupleElementType
+    : Type
+    ;
+
+UnionType
+    : PrimaryOrUnionType "|" PrimaryType
+    ;
+
+FunctionType
+    : TypeParameters_opt "(" ParameterList_opt ")" "=>" Type
+    ;
+
+ConstructorType
+    : "new" TypeParameters_opt "(" ParameterList_opt ")" "=>" Type
+    ;
+
+TypeQuery
+    : "typeof" TypeQueryExpression
+    ;
+
+TypeQueryExpression
+    : Identifier
+    | TypeQueryExpression "." IdentifierName
+    ;
+
+PropertySignature
+    : PropertyName QUESTION_opt TypeAnnotation_opt
+    ;
+
+PropertyName
+    : IdentifierName
+    | StringLiteral
+    | NumericLiteral
+    | LiteralPropertyName
+    | ComputedPropertyName
+    ;
+
+CallSignature
+    : TypeParameters_opt "(" ParameterList_opt ")" TypeAnnotation_opt
+    ;
+
+ParameterList
+    : RequiredParameterList
+    | OptionalParameterList
+    | RestParameter
+    | RequiredParameterList "," OptionalParameterList
+    | RequiredParameterList "," RestParameter
+    | OptionalParameterList "," RestParameter
+    | RequiredParameterList "," OptionalParameterList "," RestParameter
+    ;
+
+RequiredParameterList
+    : RequiredParameter
+    | RequiredParameterList "," RequiredParameter
+    ;
+
+RequiredParameter
+    : AccessibilityModifier_opt Identifier TypeAnnotation_opt
+    | Identifier ":" StringLiteral
+    ;
+
+AccessibilityModifier
+    : "public"
+    | "private"
+    | "protected"
+    ;
+
+OptionalParameterList
+    : OptionalParameter
+    | OptionalParameterList "," OptionalParameter
+    ;
+
+OptionalParameter
+    : AccessibilityModifier_opt Identifier "?" TypeAnnotation_opt
+    | AccessibilityModifier_opt Identifier TypeAnnotation_opt Initializer
+    | Identifier "?" ":" StringLiteral
+    ;
+
+RestParameter
+    : "..." Identifier TypeAnnotation_opt
+    ;
+
+ConstructSignature
+    : "new" TypeParameters_opt "(" ParameterList_opt ")" TypeAnnotation_opt
+    ;
+
+IndexSignature
+    : "[" Identifier ":" "string" "]" TypeAnnotation
+    | "[" Identifier ":" "number" "]" TypeAnnotation
+    ;
+
+MethodSignature
+    : PropertyName QUESTION_opt CallSignature
+    ;
+
+TypeAliasDeclaration
+    : "type" Identifier "=" Type ";"
+    ;
+
+PropertyAssignment
+    : PropertyName ":" AssignmentExpression
+    | PropertyName CallSignature "{" FunctionBody "}"
+    | GetAccessor
+    | SetAccessor
+    ;
+
+GetAccessor
+    : "get" PropertyName "(" ")" TypeAnnotation_opt "{" FunctionBody "}"
+    ;
+
+SetAccessor
+    : "set" PropertyName "(" Identifier TypeAnnotation_opt ")" "{" FunctionBody "}"
+    ;
+
+ElementList
+    : Elision_opt AssignmentExpression
+    | Elision_opt SpreadElement
+    | ElementList "," Elision_opt AssignmentExpression
+    | ElementList "," Elision_opt SpreadElement
+    | Elision_opt AssignmentExpression
+    | Elision_opt SpreadElement
+    | ElementList "," Elision_opt AssignmentExpression
+    | ElementList "," Elision_opt SpreadElement
+    ;
+
+SpreadElement
+    : "..." AssignmentExpression
+    | "..." AssignmentExpression
+    ;
+
+CallExpression
+    : "super" "(" ArgumentList_opt ")"
+    | "super" "." IdentifierName
+    | MemberExpression Arguments
+    | SuperCall
+    | CallExpression Arguments
+    | CallExpression "[" Expression_In "]"
+    | CallExpression "." IdentifierName
+    | CallExpression TemplateLiteral
+    ;
+
+FunctionExpression
+    : "function" Identifier_opt CallSignature "{" FunctionBody "}"
+    | "function" BindingIdentifier_opt "(" FormalParameters ")" "{" FunctionBody "}"
+    ;
+
+AssignmentExpression
+    : ArrowFunctionExpression
+    | ConditionalExpression
+    | ArrowFunction
+    | LeftHandSideExpression "=" AssignmentExpression
+    | LeftHandSideExpression AssignmentOperator AssignmentExpression
+    ;
+
+ArrowFunctionExpression
+    : ArrowFormalParameters "=>" Block
+    | ArrowFormalParameters "=>" AssignmentExpression
+    ;
+
+ArrowFormalParameters
+    : CallSignature
+    | Identifier
+    ;
+
+Arguments
+    : TypeArguments_opt "(" ArgumentList_opt ")"
+    | "(" ")"
+    | "(" ArgumentList ")"
+    ;
+
+UnaryExpression
+    : "<" Type ">" UnaryExpression
+    | PostfixExpression
+    | "delete" UnaryExpression
+    | "void" UnaryExpression
+    | "typeof" UnaryExpression
+    | "++" UnaryExpression
+    | "--" UnaryExpression
+    | "+" UnaryExpression
+    | "-" UnaryExpression
+    | "~" UnaryExpression
+    | "!" UnaryExpression
+    ;
+
+VariableDeclaration
+    : SimpleVariableDeclaration
+    | DestructuringVariableDeclaration
+    | BindingIdentifier Initializer_opt
+    | BindingPattern Initializer
+    ;
+
+SimpleVariableDeclaration
+    : Identifier TypeAnnotation_opt Initializer_opt
+    ;
+
+TypeAnnotation
+    : ":" Type
+    ;
+
+DestructuringVariableDeclaration
+    : BindingPattern TypeAnnotation_opt Initializer
+    ;
+
+BindingPattern
+    : ObjectBindingPattern
+    | ArrayBindingPattern
+    | ObjectBindingPattern
+    | ArrayBindingPattern
+    ;
+
+ObjectBindingPattern
+    : "{" "}"
+    | "{" BindingPropertyList COMMA_opt "}"
+    | "{" "}"
+    | "{" BindingPropertyList "}"
+    | "{" BindingPropertyList "," "}"
+    ;
+
+BindingPropertyList
+    : BindingProperty
+    | BindingPropertyList "," BindingProperty
+    | BindingProperty
+    | BindingPropertyList "," BindingProperty
+    ;
+
+BindingProperty
+    : Identifier Initializer_opt
+    | PropertyName ":" Identifier Initializer_opt
+    | PropertyName ":" BindingPattern Initializer_opt
+    | SingleNameBinding
+    | PropertyName ":" BindingElement
+    ;
+
+ArrayBindingPattern
+    : "[" Elision_opt BindingRestElement_opt "]"
+    | "[" BindingElementList "]"
+    | "[" BindingElementList "," Elision_opt BindingRestElement_opt "]"
+    | "[" Elision_opt BindingRestElement_opt "]"
+    | "[" BindingElementList "]"
+    | "[" BindingElementList "," Elision_opt BindingRestElement_opt "]"
+    ;
+
+BindingElementList
+    : Elision_opt BindingElement
+    | BindingElementList "," Elision_opt BindingElement
+    | BindingElisionElement
+    | BindingElementList "," BindingElisionElement
+    ;
+
+BindingElement
+    : Identifier Initializer_opt
+    | BindingPattern Initializer_opt
+    | SingleNameBinding
+    | BindingPattern Initializer_In_opt
+    ;
+
+BindingRestElement
+    : "..." Identifier
+    | "..." BindingIdentifier
+    ;
+
+FunctionDeclaration
+    : FunctionOverloads_opt FunctionImplementation
+    | "function" BindingIdentifier "(" FormalParameters ")" "{" FunctionBody "}"
+    ;
+
+FunctionOverloads
+    : FunctionOverload
+    | FunctionOverloads FunctionOverload
+    ;
+
+FunctionOverload
+    : "function" Identifier CallSignature ";"
+    ;
+
+FunctionImplementation
+    : "function" Identifier CallSignature "{" FunctionBody "}"
+    ;
+
+InterfaceDeclaration
+    : "interface" Identifier TypeParameters_opt InterfaceExtendsClause_opt ObjectType
+    ;
+
+InterfaceExtendsClause
+    : "extends" ClassOrInterfaceTypeList
+    ;
+
+ClassOrInterfaceTypeList
+    : ClassOrInterfaceType
+    | ClassOrInterfaceTypeList "," ClassOrInterfaceType
+    ;
+
+ClassOrInterfaceType
+    : TypeReference
+    ;
+
+ClassDeclaration
+    : "class" Identifier TypeParameters_opt ClassHeritage "{" ClassBody "}"
+    | "class" BindingIdentifier ClassTail
+    ;
+
+ClassHeritage
+    : ClassExtendsClause_opt ImplementsClause_opt
+    | "extends" LeftHandSideExpression
+    ;
+
+ClassExtendsClause
+    : "extends" ClassType
+    ;
+
+ClassType
+    : TypeReference
+    ;
+
+ImplementsClause
+    : "implements" ClassOrInterfaceTypeList
+    ;
+
+ClassBody
+    : ClassElements_opt
+    | ClassElementList
+    ;
+
+ClassElements
+    : ClassElement
+    | ClassElements ClassElement
+    ;
+
+ClassElement
+    : ConstructorDeclaration
+    | PropertyMemberDeclaration
+    | IndexMemberDeclaration
+    | MethodDefinition
+    | "static" MethodDefinition
+    | ";"
+    ;
+
+ConstructorDeclaration
+    : ConstructorOverloads_opt ConstructorImplementation
+    ;
+
+ConstructorOverloads
+    : ConstructorOverload
+    | ConstructorOverloads ConstructorOverload
+    ;
+
+ConstructorOverload
+    : AccessibilityModifier_opt "constructor" "(" ParameterList_opt ")" ";"
+    ;
+
+ConstructorImplementation
+    : AccessibilityModifier_opt "constructor" "(" ParameterList_opt ")" "{" FunctionBody "}"
+    ;
+
+PropertyMemberDeclaration
+    : MemberVariableDeclaration
+    | MemberFunctionDeclaration
+    | MemberAccessorDeclaration
+    ;
+
+MemberVariableDeclaration
+    : AccessibilityModifier_opt STATIC_opt PropertyName TypeAnnotation_opt Initializer_opt ";"
+    ;
+
+MemberFunctionDeclaration
+    : MemberFunctionOverloads_opt MemberFunctionImplementation
+    ;
+
+MemberFunctionOverloads
+    : MemberFunctionOverload
+    | MemberFunctionOverloads MemberFunctionOverload
+    ;
+
+MemberFunctionOverload
+    : AccessibilityModifier_opt STATIC_opt PropertyName CallSignature ";"
+    ;
+
+MemberFunctionImplementation
+    : AccessibilityModifier_opt STATIC_opt PropertyName CallSignature "{" FunctionBody "}"
+    ;
+
+MemberAccessorDeclaration
+    : AccessibilityModifier_opt STATIC_opt GetAccessor
+    | AccessibilityModifier_opt STATIC_opt SetAccessor
+    ;
+
+IndexMemberDeclaration
+    : IndexSignature ";"
+    ;
+
+EnumDeclaration
+    : CONST_opt "enum" Identifier "{" EnumBody_opt "}"
+    ;
+
+EnumBody
+    : EnumMemberList COMMA_opt
+    ;
+
+EnumMemberList
+    : EnumMember
+    | EnumMemberList "," EnumMember
+    ;
+
+EnumMember
+    : PropertyName
+    | PropertyName "=" EnumValue
+    ;
+
+EnumValue
+    : AssignmentExpression
+    ;
+
+ModuleDeclaration
+    : "module" IdentifierPath "{" ModuleBody "}"
+    ;
+
+IdentifierPath
+    : Identifier
+    | IdentifierPath "." Identifier
+    ;
+
+ModuleBody
+    : ModuleElements_opt
+    | ModuleItemList
+    ;
+
+ModuleElements
+    : ModuleElement
+    | ModuleElements ModuleElement
+    ;
+
+ModuleElement
+    : Statement
+    | EXPORT_opt VariableDeclaration
+    | EXPORT_opt FunctionDeclaration
+    | EXPORT_opt ClassDeclaration
+    | EXPORT_opt InterfaceDeclaration
+    | EXPORT_opt TypeAliasDeclaration
+    | EXPORT_opt EnumDeclaration
+    | EXPORT_opt ModuleDeclaration
+    | EXPORT_opt ImportDeclaration
+    | EXPORT_opt AmbientDeclaration
+    ;
+
+ImportDeclaration
+    : "import" Identifier "=" EntityName ";"
+    | "import" ImportClause FromClause ";"
+    | "import" ModuleSpecifier ";"
+    ;
+
+EntityName
+    : ModuleName
+    | ModuleName "." Identifier
+    ;
+
+SourceFile
+    : ImplementationSourceFile
+    | DeclarationSourceFile
+    ;
+
+ImplementationSourceFile
+    : ImplementationElements_opt
+    ;
+
+ImplementationElements
+    : ImplementationElement
+    | ImplementationElements ImplementationElement
+    ;
+
+ImplementationElement
+    : ModuleElement
+    | ExportAssignment
+    | AmbientExternalModuleDeclaration
+    | EXPORT_opt ExternalImportDeclaration
+    ;
+
+DeclarationSourceFile
+    : DeclarationElements_opt
+    ;
+
+DeclarationElements
+    : DeclarationElement
+    | DeclarationElements DeclarationElement
+    ;
+
+DeclarationElement
+    : ExportAssignment
+    | AmbientExternalModuleDeclaration
+    | EXPORT_opt InterfaceDeclaration
+    | EXPORT_opt TypeAliasDeclaration
+    | EXPORT_opt ImportDeclaration
+    | EXPORT_opt AmbientDeclaration
+    | EXPORT_opt ExternalImportDeclaration
+    ;
+
+ExternalImportDeclaration
+    : "import" Identifier "=" ExternalModuleReference ";"
+    ;
+
+ExternalModuleReference
+    : "require" "(" StringLiteral ")"
+    ;
+
+ExportAssignment
+    : "export" "=" Identifier ";"
+    ;
+
+AmbientDeclaration
+    : "declare" AmbientVariableDeclaration
+    | "declare" AmbientFunctionDeclaration
+    | "declare" AmbientClassDeclaration
+    | "declare" AmbientEnumDeclaration
+    | "declare" AmbientModuleDeclaration
+    ;
+
+AmbientVariableDeclaration
+    : "var" Identifier TypeAnnotation_opt ";"
+    ;
+
+AmbientFunctionDeclaration
+    : "function" Identifier CallSignature ";"
+    ;
+
+AmbientClassDeclaration
+    : "class" Identifier TypeParameters_opt ClassHeritage "{" AmbientClassBody "}"
+    ;
+
+AmbientClassBody
+    : AmbientClassBodyElements_opt
+    ;
+
+AmbientClassBodyElements
+    : AmbientClassBodyElement
+    | AmbientClassBodyElements AmbientClassBodyElement
+    ;
+
+AmbientClassBodyElement
+    : AmbientConstructorDeclaration
+    | AmbientPropertyMemberDeclaration
+    | IndexSignature
+    ;
+
+AmbientConstructorDeclaration
+    : "constructor" "(" ParameterList_opt ")" ";"
+    ;
+
+AmbientPropertyMemberDeclaration
+    : AccessibilityModifier_opt STATIC_opt PropertyName TypeAnnotation_opt ";"
+    | AccessibilityModifier_opt STATIC_opt PropertyName CallSignature ";"
+    ;
+
+AmbientEnumDeclaration
+    : EnumDeclaration
+    ;
+
+AmbientModuleDeclaration
+    : "module" IdentifierPath "{" AmbientModuleBody "}"
+    ;
+
+AmbientModuleBody
+    : AmbientModuleElements_opt
+    ;
+
+AmbientModuleElements
+    : AmbientModuleElement
+    | AmbientModuleElements AmbientModuleElement
+    ;
+
+AmbientModuleElement
+    : EXPORT_opt AmbientVariableDeclaration
+    | EXPORT_opt AmbientFunctionDeclaration
+    | EXPORT_opt AmbientClassDeclaration
+    | EXPORT_opt InterfaceDeclaration
+    | EXPORT_opt AmbientEnumDeclaration
+    | EXPORT_opt AmbientModuleDeclaration
+    | EXPORT_opt ImportDeclaration
+    ;
+
+AmbientExternalModuleDeclaration
+    : "declare" "module" StringLiteral "{" AmbientExternalModuleBody "}"
+    ;
+
+AmbientExternalModuleBody
+    : AmbientExternalModuleElements_opt
+    ;
+
+AmbientExternalModuleElements
+    : AmbientExternalModuleElement
+    | AmbientExternalModuleElements AmbientExternalModuleElement
+    ;
+
+AmbientExternalModuleElement
+    : AmbientModuleElement
+    | ExportAssignment
+    | EXPORT_opt ExternalImportDeclaration
+    ;
+
+IdentifierReference
+    : Identifier
+    | "yield"
+    ;
+
+IdentifierReference_Yield
+    : Identifier
+    ;
+
+BindingIdentifier
+    : Identifier
+    | "yield"
+    ;
+
+BindingIdentifier_Yield
+    : Identifier
+    ;
+
+LabelIdentifier
+    : Identifier
+    | "yield"
+    ;
+
+LabelIdentifier_Yield
+    : Identifier
+    ;
+
+Identifier
+    : IdentifierName
+    ;
+
+PrimaryExpression
+    : "this"
+    | IdentifierReference
+    | Literal
+    | ArrayLiteral
+    | ObjectLiteral
+    | FunctionExpression
+    | ClassExpression
+    | GeneratorExpression
+    | RegularExpressionLiteral
+    | TemplateLiteral
+    | CoverParenthesizedExpressionAndArrowParameterList
+    ;
+
+PrimaryExpression_Yield
+    : "this"
+    | IdentifierReference_Yield
+    | Literal
+    | ArrayLiteral_Yield
+    | ObjectLiteral_Yield
+    | FunctionExpression
+    | ClassExpression_Yield
+    | GeneratorExpression
+    | RegularExpressionLiteral
+    | TemplateLiteral_Yield
+    | CoverParenthesizedExpressionAndArrowParameterList_Yield
+    ;
+
+CoverParenthesizedExpressionAndArrowParameterList
+    : "(" Expression_In ")"
+    | "(" ")"
+    | "(" "..." BindingIdentifier ")"
+    | "(" Expression_In "," "..." BindingIdentifier ")"
+    ;
+
+CoverParenthesizedExpressionAndArrowParameterList_Yield
+    : "(" Expression_In_Yield ")"
+    | "(" ")"
+    | "(" "..." BindingIdentifier_Yield ")"
+    | "(" Expression_In_Yield "," "..." BindingIdentifier_Yield ")"
+    ;
+
+Literal
+    : NullLiteral
+    | BooleanLiteral
+    | NumericLiteral
+    | StringLiteral
+    ;
+
+ArrayLiteral
+    : "[" Elision_opt "]"
+    | "[" ElementList "]"
+    | "[" ElementList "," Elision_opt "]"
+    ;
+
+ArrayLiteral_Yield
+    : "[" Elision_opt "]"
+    | "[" ElementList "]"
+    | "[" ElementList "," Elision_opt "]"
+    ;
+
+Elision
+    : ","
+    | Elision ","
+    ;
+
+ObjectLiteral
+    : "{" "}"
+    | "{" PropertyDefinitionList "}"
+    | "{" PropertyDefinitionList "," "}"
+    ;
+
+ObjectLiteral_Yield
+    : "{" "}"
+    | "{" PropertyDefinitionList_Yield "}"
+    | "{" PropertyDefinitionList_Yield "," "}"
+    ;
+
+PropertyDefinitionList
+    : PropertyDefinition
+    | PropertyDefinitionList "," PropertyDefinition
+    ;
+
+PropertyDefinitionList_Yield
+    : PropertyDefinition_Yield
+    | PropertyDefinitionList_Yield "," PropertyDefinition_Yield
+    ;
+
+PropertyDefinition
+    : IdentifierReference
+    | CoverInitializedName
+    | PropertyName ":" AssignmentExpression
+    | MethodDefinition
+    ;
+
+PropertyDefinition_Yield
+    : IdentifierReference_Yield
+    | CoverInitializedName_Yield
+    | PropertyName ":" AssignmentExpression
+    | MethodDefinition_Yield
+    ;
+
+LiteralPropertyName
+    : IdentifierName
+    | StringLiteral
+    | NumericLiteral
+    ;
+
+ComputedPropertyName
+    : "[" AssignmentExpression "]"
+    ;
+
+CoverInitializedName
+    : IdentifierReference Initializer_In
+    ;
+
+CoverInitializedName_Yield
+    : IdentifierReference_Yield Initializer_In_Yield
+    ;
+
+Initializer
+    : "=" AssignmentExpression
+    ;
+
+Initializer_In
+    : "=" AssignmentExpression
+    ;
+
+Initializer_Yield
+    : "=" AssignmentExpression
+    ;
+
+Initializer_In_Yield
+    : "=" AssignmentExpression
+    ;
+
+TemplateLiteral
+    : NoSubstitutionTemplate
+    | TemplateHead Expression_In TemplateSpans
+    ;
+
+TemplateLiteral_Yield
+    : NoSubstitutionTemplate
+    | TemplateHead Expression_In_Yield TemplateSpans_Yield
+    ;
+
+TemplateSpans
+    : TemplateTail
+    | TemplateMiddleList TemplateTail
+    ;
+
+TemplateSpans_Yield
+    : TemplateTail
+    | TemplateMiddleList_Yield TemplateTail
+    ;
+
+TemplateMiddleList
+    : TemplateMiddle Expression_In
+    | TemplateMiddleList TemplateMiddle Expression_In
+    ;
+
+TemplateMiddleList_Yield
+    : TemplateMiddle Expression_In_Yield
+    | TemplateMiddleList_Yield TemplateMiddle Expression_In_Yield
+    ;
+
+MemberExpression
+    : PrimaryExpression
+    | MemberExpression "[" Expression_In "]"
+    | MemberExpression "." IdentifierName
+    | MemberExpression TemplateLiteral
+    | SuperProperty
+    | MetaProperty
+    | "new" MemberExpression Arguments
+    ;
+
+MemberExpression_Yield
+    : PrimaryExpression_Yield
+    | MemberExpression_Yield "[" Expression_In_Yield "]"
+    | MemberExpression_Yield "." IdentifierName
+    | MemberExpression_Yield TemplateLiteral_Yield
+    | SuperProperty_Yield
+    | MetaProperty
+    | "new" MemberExpression_Yield Arguments
+    ;
+
+SuperProperty
+    : "super" "[" Expression_In "]"
+    | "super" "." IdentifierName
+    ;
+
+SuperProperty_Yield
+    : "super" "[" Expression_In_Yield "]"
+    | "super" "." IdentifierName
+    ;
+
+MetaProperty
+    : NewTarget
+    ;
+
+NewTarget
+    : "new" "." "target"
+    ;
+
+NewExpression
+    : MemberExpression
+    | "new" NewExpression
+    ;
+
+NewExpression_Yield
+    : MemberExpression_Yield
+    | "new" NewExpression_Yield
+    ;
+
+SuperCall
+    : "super" Arguments
+    ;
+
+ArgumentList
+    : AssignmentExpression
+    | "..." AssignmentExpression
+    | ArgumentList "," AssignmentExpression
+    | ArgumentList "," "..." AssignmentExpression
+    ;
+
+LeftHandSideExpression
+    : NewExpression
+    | CallExpression
+    ;
+
+LeftHandSideExpression_Yield
+    : NewExpression_Yield
+    | CallExpression
+    ;
+
+PostfixExpression
+    : LeftHandSideExpression
+    | LeftHandSideExpression "++"
+    | LeftHandSideExpression "--"
+    ;
+
+MultiplicativeExpression
+    : UnaryExpression
+    | MultiplicativeExpression MultiplicativeOperator UnaryExpression
+    ;
+
+MultiplicativeOperator
+    : "*"
+    | "/"
+    | "%"
+    ;
+
+AdditiveExpression
+    : MultiplicativeExpression
+    | AdditiveExpression "+" MultiplicativeExpression
+    | AdditiveExpression "-" MultiplicativeExpression
+    ;
+
+ShiftExpression
+    : AdditiveExpression
+    | ShiftExpression "<<" AdditiveExpression
+    | ShiftExpression ">>" AdditiveExpression
+    | ShiftExpression ">>>" AdditiveExpression
+    ;
+
+RelationalExpression
+    : ShiftExpression
+    | RelationalExpression "<" ShiftExpression
+    | RelationalExpression ">" ShiftExpression
+    | RelationalExpression "<=" ShiftExpression
+    | RelationalExpression ">=" ShiftExpression
+    | RelationalExpression "instanceof" ShiftExpression
+    ;
+
+EqualityExpression
+    : RelationalExpression
+    | EqualityExpression "==" RelationalExpression
+    | EqualityExpression "!=" RelationalExpression
+    | EqualityExpression "===" RelationalExpression
+    | EqualityExpression "!==" RelationalExpression
+    ;
+
+BitwiseANDExpression
+    : EqualityExpression
+    | BitwiseANDExpression "&" EqualityExpression
+    ;
+
+BitwiseXORExpression
+    : BitwiseANDExpression
+    | BitwiseXORExpression "^" BitwiseANDExpression
+    ;
+
+BitwiseORExpression
+    : BitwiseXORExpression
+    | BitwiseORExpression "|" BitwiseXORExpression
+    ;
+
+LogicalANDExpression
+    : BitwiseORExpression
+    | LogicalANDExpression "&&" BitwiseORExpression
+    ;
+
+LogicalORExpression
+    : LogicalANDExpression
+    | LogicalORExpression "||" LogicalANDExpression
+    ;
+
+ConditionalExpression
+    : LogicalORExpression
+    | LogicalORExpression "?" AssignmentExpression ":" AssignmentExpression
+    ;
+
+AssignmentOperator
+    : "*="
+    | "/="
+    | "%="
+    | "+="
+    | "-="
+    | "<<="
+    | ">>="
+    | ">>>="
+    | "&="
+    | "^="
+    | "|="
+    ;
+
+Expression
+    : AssignmentExpression
+    | Expression "," AssignmentExpression
+    ;
+
+Expression_In
+    : AssignmentExpression
+    | Expression_In "," AssignmentExpression
+    ;
+
+Expression_Yield
+    : AssignmentExpression
+    | Expression_Yield "," AssignmentExpression
+    ;
+
+Expression_In_Yield
+    : AssignmentExpression
+    | Expression_In_Yield "," AssignmentExpression
+    ;
+
+Statement
+    : BlockStatement
+    | VariableStatement
+    | EmptyStatement
+    | ExpressionStatement
+    | IfStatement
+    | BreakableStatement
+    | ContinueStatement
+    | BreakStatement
+    | WithStatement
+    | LabelledStatement
+    | ThrowStatement
+    | TryStatement
+    | DebuggerStatement
+    ;
+
+Statement_Return
+    : BlockStatement_Return
+    | VariableStatement
+    | EmptyStatement
+    | ExpressionStatement
+    | IfStatement_Return
+    | BreakableStatement_Return
+    | ContinueStatement
+    | BreakStatement
+    | ReturnStatement
+    | WithStatement_Return
+    | LabelledStatement_Return
+    | ThrowStatement
+    | TryStatement_Return
+    | DebuggerStatement
+    ;
+
+Statement_Yield_Return
+    : BlockStatement_Yield_Return
+    | VariableStatement_Yield
+    | EmptyStatement
+    | ExpressionStatement_Yield
+    | IfStatement_Yield_Return
+    | BreakableStatement_Yield_Return
+    | ContinueStatement_Yield
+    | BreakStatement_Yield
+    | ReturnStatement_Yield
+    | WithStatement_Yield_Return
+    | LabelledStatement_Yield_Return
+    | ThrowStatement_Yield
+    | TryStatement_Yield_Return
+    | DebuggerStatement
+    ;
+
+Declaration
+    : HoistableDeclaration
+    | ClassDeclaration
+    | LexicalDeclaration_In
+    ;
+
+Declaration_Yield
+    : HoistableDeclaration_Yield
+    | ClassDeclaration
+    | LexicalDeclaration_In_Yield
+    ;
+
+HoistableDeclaration
+    : FunctionDeclaration
+    | GeneratorDeclaration
+    ;
+
+HoistableDeclaration_Yield
+    : FunctionDeclaration
+    | GeneratorDeclaration_Yield
+    ;
+
+HoistableDeclaration_Default
+    : FunctionDeclaration
+    | GeneratorDeclaration_Default
+    ;
+
+BreakableStatement
+    : IterationStatement
+    | SwitchStatement
+    ;
+
+BreakableStatement_Return
+    : IterationStatement_Return
+    | SwitchStatement_Return
+    ;
+
+BreakableStatement_Yield_Return
+    : IterationStatement_Yield_Return
+    | SwitchStatement_Yield_Return
+    ;
+
+BlockStatement
+    : Block
+    ;
+
+BlockStatement_Return
+    : Block_Return
+    ;
+
+BlockStatement_Yield_Return
+    : Block_Yield_Return
+    ;
+
+Block
+    : "{" StatementList_opt "}"
+    ;
+
+Block_Return
+    : "{" StatementList_Return_opt "}"
+    ;
+
+Block_Yield_Return
+    : "{" StatementList_Yield_Return_opt "}"
+    ;
+
+StatementList
+    : StatementListItem
+    | StatementList StatementListItem
+    ;
+
+StatementList_Return
+    : StatementListItem_Return
+    | StatementList_Return StatementListItem_Return
+    ;
+
+StatementList_Yield_Return
+    : StatementListItem_Yield_Return
+    | StatementList_Yield_Return StatementListItem_Yield_Return
+    ;
+
+StatementListItem
+    : Statement
+    | Declaration
+    ;
+
+StatementListItem_Return
+    : Statement_Return
+    | Declaration
+    ;
+
+StatementListItem_Yield_Return
+    : Statement_Yield_Return
+    | Declaration_Yield
+    ;
+
+LexicalDeclaration
+    : LetOrConst BindingList ";"
+    ;
+
+LexicalDeclaration_In
+    : LetOrConst BindingList_In ";"
+    ;
+
+LexicalDeclaration_Yield
+    : LetOrConst BindingList_Yield ";"
+    ;
+
+LexicalDeclaration_In_Yield
+    : LetOrConst BindingList_In_Yield ";"
+    ;
+
+LetOrConst
+    : "let"
+    | "const"
+    ;
+
+BindingList
+    : LexicalBinding
+    | BindingList "," LexicalBinding
+    ;
+
+BindingList_In
+    : LexicalBinding_In
+    | BindingList_In "," LexicalBinding_In
+    ;
+
+BindingList_Yield
+    : LexicalBinding_Yield
+    | BindingList_Yield "," LexicalBinding_Yield
+    ;
+
+BindingList_In_Yield
+    : LexicalBinding_In_Yield
+    | BindingList_In_Yield "," LexicalBinding_In_Yield
+    ;
+
+LexicalBinding
+    : BindingIdentifier Initializer_opt
+    | BindingPattern Initializer
+    ;
+
+LexicalBinding_In
+    : BindingIdentifier Initializer_In_opt
+    | BindingPattern Initializer_In
+    ;
+
+LexicalBinding_Yield
+    : BindingIdentifier_Yield Initializer_Yield_opt
+    | BindingPattern Initializer_Yield
+    ;
+
+LexicalBinding_In_Yield
+    : BindingIdentifier_Yield Initializer_In_Yield_opt
+    | BindingPattern Initializer_In_Yield
+    ;
+
+VariableStatement
+    : "var" VariableDeclarationList_In ";"
+    ;
+
+VariableStatement_Yield
+    : "var" VariableDeclarationList_In_Yield ";"
+    ;
+
+VariableDeclarationList
+    : VariableDeclaration
+    | VariableDeclarationList "," VariableDeclaration
+    ;
+
+VariableDeclarationList_In
+    : VariableDeclaration
+    | VariableDeclarationList_In "," VariableDeclaration
+    ;
+
+VariableDeclarationList_Yield
+    : VariableDeclaration
+    | VariableDeclarationList_Yield "," VariableDeclaration
+    ;
+
+VariableDeclarationList_In_Yield
+    : VariableDeclaration
+    | VariableDeclarationList_In_Yield "," VariableDeclaration
+    ;
+
+BindingElisionElement
+    : Elision_opt BindingElement
+    ;
+
+SingleNameBinding
+    : BindingIdentifier Initializer_In_opt
+    ;
+
+EmptyStatement
+    : ";"
+    ;
+
+ExpressionStatement
+    : Expression_In ";"
+    ;
+
+ExpressionStatement_Yield
+    : Expression_In_Yield ";"
+    ;
+
+IfStatement
+    : "if" "(" Expression_In ")" Statement "else" Statement
+    | "if" "(" Expression_In ")" Statement
+    ;
+
+IfStatement_Return
+    : "if" "(" Expression_In ")" Statement_Return "else" Statement_Return
+    | "if" "(" Expression_In ")" Statement_Return
+    ;
+
+IfStatement_Yield_Return
+    : "if" "(" Expression_In_Yield ")" Statement_Yield_Return "else" Statement_Yield_Return
+    | "if" "(" Expression_In_Yield ")" Statement_Yield_Return
+    ;
+
+IterationStatement
+    : "do" Statement "while" "(" Expression_In ")" ";"
+    | "while" "(" Expression_In ")" Statement
+    | "for" "(" Expression_opt ";" Expression_In_opt ";" Expression_In_opt ")" Statement
+    | "for" "(" "var" VariableDeclarationList ";" Expression_In_opt ";" Expression_In_opt ")" Statement
+    | "for" "(" LexicalDeclaration Expression_In_opt ";" Expression_In_opt ")" Statement
+    | "for" "(" LeftHandSideExpression "in" Expression_In ")" Statement
+    | "for" "(" "var" ForBinding "in" Expression_In ")" Statement
+    | "for" "(" ForDeclaration "in" Expression_In ")" Statement
+    | "for" "(" LeftHandSideExpression "of" AssignmentExpression ")" Statement
+    | "for" "(" "var" ForBinding "of" AssignmentExpression ")" Statement
+    | "for" "(" ForDeclaration "of" AssignmentExpression ")" Statement
+    ;
+
+IterationStatement_Return
+    : "do" Statement_Return "while" "(" Expression_In ")" ";"
+    | "while" "(" Expression_In ")" Statement_Return
+    | "for" "(" Expression_opt ";" Expression_In_opt ";" Expression_In_opt ")" Statement_Return
+    | "for" "(" "var" VariableDeclarationList ";" Expression_In_opt ";" Expression_In_opt ")" Statement_Return
+    | "for" "(" LexicalDeclaration Expression_In_opt ";" Expression_In_opt ")" Statement_Return
+    | "for" "(" LeftHandSideExpression "in" Expression_In ")" Statement_Return
+    | "for" "(" "var" ForBinding "in" Expression_In ")" Statement_Return
+    | "for" "(" ForDeclaration "in" Expression_In ")" Statement_Return
+    | "for" "(" LeftHandSideExpression "of" AssignmentExpression ")" Statement_Return
+    | "for" "(" "var" ForBinding "of" AssignmentExpression ")" Statement_Return
+    | "for" "(" ForDeclaration "of" AssignmentExpression ")" Statement_Return
+    ;
+
+IterationStatement_Yield_Return
+    : "do" Statement_Yield_Return "while" "(" Expression_In_Yield ")" ";"
+    | "while" "(" Expression_In_Yield ")" Statement_Yield_Return
+    | "for" "(" Expression_Yield_opt ";" Expression_In_Yield_opt ";" Expression_In_Yield_opt ")" Statement_Yield_Return
+    | "for" "(" "var" VariableDeclarationList_Yield ";" Expression_In_Yield_opt ";" Expression_In_Yield_opt ")" Statement_Yield_Return
+    | "for" "(" LexicalDeclaration_Yield Expression_In_Yield_opt ";" Expression_In_Yield_opt ")" Statement_Yield_Return
+    | "for" "(" LeftHandSideExpression_Yield "in" Expression_In_Yield ")" Statement_Yield_Return
+    | "for" "(" "var" ForBinding_Yield "in" Expression_In_Yield ")" Statement_Yield_Return
+    | "for" "(" ForDeclaration_Yield "in" Expression_In_Yield ")" Statement_Yield_Return
+    | "for" "(" LeftHandSideExpression_Yield "of" AssignmentExpression ")" Statement_Yield_Return
+    | "for" "(" "var" ForBinding_Yield "of" AssignmentExpression ")" Statement_Yield_Return
+    | "for" "(" ForDeclaration_Yield "of" AssignmentExpression ")" Statement_Yield_Return
+    ;
+
+ForDeclaration
+    : LetOrConst ForBinding
+    ;
+
+ForDeclaration_Yield
+    : LetOrConst ForBinding_Yield
+    ;
+
+ForBinding
+    : BindingIdentifier
+    | BindingPattern
+    ;
+
+ForBinding_Yield
+    : BindingIdentifier_Yield
+    | BindingPattern
+    ;
+
+ContinueStatement
+    : "continue" ";"
+    | "continue" LabelIdentifier ";"
+    ;
+
+ContinueStatement_Yield
+    : "continue" ";"
+    | "continue" LabelIdentifier_Yield ";"
+    ;
+
+BreakStatement
+    : "break" ";"
+    | "break" LabelIdentifier ";"
+    ;
+
+BreakStatement_Yield
+    : "break" ";"
+    | "break" LabelIdentifier_Yield ";"
+    ;
+
+ReturnStatement
+    : "return" ";"
+    | "return" Expression_In ";"
+    ;
+
+ReturnStatement_Yield
+    : "return" ";"
+    | "return" Expression_In_Yield ";"
+    ;
+
+WithStatement
+    : "with" "(" Expression_In ")" Statement
+    ;
+
+WithStatement_Return
+    : "with" "(" Expression_In ")" Statement_Return
+    ;
+
+WithStatement_Yield_Return
+    : "with" "(" Expression_In_Yield ")" Statement_Yield_Return
+    ;
+
+SwitchStatement
+    : "switch" "(" Expression_In ")" CaseBlock
+    ;
+
+SwitchStatement_Return
+    : "switch" "(" Expression_In ")" CaseBlock_Return
+    ;
+
+SwitchStatement_Yield_Return
+    : "switch" "(" Expression_In_Yield ")" CaseBlock_Yield_Return
+    ;
+
+CaseBlock
+    : "{" CaseClauses_opt "}"
+    | "{" CaseClauses_opt DefaultClause CaseClauses_opt "}"
+    ;
+
+CaseBlock_Return
+    : "{" CaseClauses_Return_opt "}"
+    | "{" CaseClauses_Return_opt DefaultClause_Return CaseClauses_Return_opt "}"
+    ;
+
+CaseBlock_Yield_Return
+    : "{" CaseClauses_Yield_Return_opt "}"
+    | "{" CaseClauses_Yield_Return_opt DefaultClause_Yield_Return CaseClauses_Yield_Return_opt "}"
+    ;
+
+CaseClauses
+    : CaseClause
+    | CaseClauses CaseClause
+    ;
+
+CaseClauses_Return
+    : CaseClause_Return
+    | CaseClauses_Return CaseClause_Return
+    ;
+
+CaseClauses_Yield_Return
+    : CaseClause_Yield_Return
+    | CaseClauses_Yield_Return CaseClause_Yield_Return
+    ;
+
+CaseClause
+    : "case" Expression_In ":" StatementList_opt
+    ;
+
+CaseClause_Return
+    : "case" Expression_In ":" StatementList_Return_opt
+    ;
+
+CaseClause_Yield_Return
+    : "case" Expression_In_Yield ":" StatementList_Yield_Return_opt
+    ;
+
+DefaultClause
+    : "default" ":" StatementList_opt
+    ;
+
+DefaultClause_Return
+    : "default" ":" StatementList_Return_opt
+    ;
+
+DefaultClause_Yield_Return
+    : "default" ":" StatementList_Yield_Return_opt
+    ;
+
+LabelledStatement
+    : LabelIdentifier ":" LabelledItem
+    ;
+
+LabelledStatement_Return
+    : LabelIdentifier ":" LabelledItem_Return
+    ;
+
+LabelledStatement_Yield_Return
+    : LabelIdentifier_Yield ":" LabelledItem_Yield_Return
+    ;
+
+LabelledItem
+    : Statement
+    | FunctionDeclaration
+    ;
+
+LabelledItem_Return
+    : Statement_Return
+    | FunctionDeclaration
+    ;
+
+LabelledItem_Yield_Return
+    : Statement_Yield_Return
+    | FunctionDeclaration
+    ;
+
+ThrowStatement
+    : "throw" Expression_In ";"
+    ;
+
+ThrowStatement_Yield
+    : "throw" Expression_In_Yield ";"
+    ;
+
+TryStatement
+    : "try" Block Catch
+    | "try" Block Finally
+    | "try" Block Catch Finally
+    ;
+
+TryStatement_Return
+    : "try" Block_Return Catch_Return
+    | "try" Block_Return Finally_Return
+    | "try" Block_Return Catch_Return Finally_Return
+    ;
+
+TryStatement_Yield_Return
+    : "try" Block_Yield_Return Catch_Yield_Return
+    | "try" Block_Yield_Return Finally_Yield_Return
+    | "try" Block_Yield_Return Catch_Yield_Return Finally_Yield_Return
+    ;
+
+Catch
+    : "catch" "(" CatchParameter ")" Block
+    ;
+
+Catch_Return
+    : "catch" "(" CatchParameter ")" Block_Return
+    ;
+
+Catch_Yield_Return
+    : "catch" "(" CatchParameter_Yield ")" Block_Yield_Return
+    ;
+
+Finally
+    : "finally" Block
+    ;
+
+Finally_Return
+    : "finally" Block_Return
+    ;
+
+Finally_Yield_Return
+    : "finally" Block_Yield_Return
+    ;
+
+CatchParameter
+    : BindingIdentifier
+    | BindingPattern
+    ;
+
+CatchParameter_Yield
+    : BindingIdentifier_Yield
+    | BindingPattern
+    ;
+
+DebuggerStatement
+    : "debugger" ";"
+    ;
+
+StrictFormalParameters
+    : FormalParameters
+    ;
+
+StrictFormalParameters_Yield
+    : FormalParameters_Yield
+    ;
+
+FormalParameters
+    : /* empty */
+    | FormalParameterList
+    ;
+
+FormalParameters_Yield
+    : /* empty */
+    | FormalParameterList_Yield
+    ;
+
+FormalParameterList
+    : FunctionRestParameter
+    | FormalsList
+    | FormalsList "," FunctionRestParameter
+    ;
+
+FormalParameterList_Yield
+    : FunctionRestParameter_Yield
+    | FormalsList_Yield
+    | FormalsList_Yield "," FunctionRestParameter_Yield
+    ;
+
+FormalsList
+    : FormalParameter
+    | FormalsList "," FormalParameter
+    ;
+
+FormalsList_Yield
+    : FormalParameter_Yield
+    | FormalsList_Yield "," FormalParameter_Yield
+    ;
+
+FunctionRestParameter
+    : BindingRestElement
+    ;
+
+FunctionRestParameter_Yield
+    : BindingRestElement
+    ;
+
+FormalParameter
+    : BindingElement
+    ;
+
+FormalParameter_Yield
+    : BindingElement
+    ;
+
+FunctionBody
+    : FunctionStatementList
+    ;
+
+FunctionBody_Yield
+    : FunctionStatementList_Yield
+    ;
+
+FunctionStatementList
+    : StatementList_Return_opt
+    ;
+
+FunctionStatementList_Yield
+    : StatementList_Yield_Return_opt
+    ;
+
+ArrowFunction
+    : ArrowParameters "=>" ConciseBody
+    ;
+
+ArrowParameters
+    : BindingIdentifier
+    | CoverParenthesizedExpressionAndArrowParameterList
+    ;
+
+ConciseBody
+    : AssignmentExpression
+    | "{" FunctionBody "}"
+    ;
+
+MethodDefinition
+    : PropertyName "(" StrictFormalParameters ")" "{" FunctionBody "}"
+    | GeneratorMethod
+    | "get" PropertyName "(" ")" "{" FunctionBody "}"
+    | "set" PropertyName "(" PropertySetParameterList ")" "{" FunctionBody "}"
+    ;
+
+MethodDefinition_Yield
+    : PropertyName "(" StrictFormalParameters ")" "{" FunctionBody "}"
+    | GeneratorMethod_Yield
+    | "get" PropertyName "(" ")" "{" FunctionBody "}"
+    | "set" PropertyName "(" PropertySetParameterList ")" "{" FunctionBody "}"
+    ;
+
+PropertySetParameterList
+    : FormalParameter
+    ;
+
+GeneratorMethod
+    : "*" PropertyName "(" StrictFormalParameters_Yield ")" "{" GeneratorBody "}"
+    ;
+
+GeneratorMethod_Yield
+    : "*" PropertyName "(" StrictFormalParameters_Yield ")" "{" GeneratorBody "}"
+    ;
+
+GeneratorDeclaration
+    : "function" "*" BindingIdentifier "(" FormalParameters_Yield ")" "{" GeneratorBody "}"
+    ;
+
+GeneratorDeclaration_Yield
+    : "function" "*" BindingIdentifier_Yield "(" FormalParameters_Yield ")" "{" GeneratorBody "}"
+    ;
+
+GeneratorDeclaration_Default
+    : "function" "*" BindingIdentifier "(" FormalParameters_Yield ")" "{" GeneratorBody "}"
+    | "function" "*" "(" FormalParameters_Yield ")" "{" GeneratorBody "}"
+    ;
+
+GeneratorExpression
+    : "function" "*" BindingIdentifier_Yield_opt "(" FormalParameters_Yield ")" "{" GeneratorBody "}"
+    ;
+
+GeneratorBody
+    : FunctionBody_Yield
+    ;
+
+ClassExpression
+    : "class" BindingIdentifier_opt ClassTail
+    ;
+
+ClassExpression_Yield
+    : "class" BindingIdentifier_Yield_opt ClassTail_Yield
+    ;
+
+ClassTail
+    : ClassHeritage_opt "{" ClassBody_opt "}"
+    ;
+
+ClassTail_Yield
+    : ClassHeritage_opt "{" ClassBody_opt "}"
+    ;
+
+ClassElementList
+    : ClassElement
+    | ClassElementList ClassElement
+    ;
+
+Script
+    : ScriptBody_opt
+    ;
+
+ScriptBody
+    : StatementList
+    ;
+
+Module
+    : ModuleBody_opt
+    ;
+
+ModuleItemList
+    : ModuleItem
+    | ModuleItemList ModuleItem
+    ;
+
+ModuleItem
+    : ImportDeclaration
+    | ExportDeclaration
+    | StatementListItem
+    ;
+
+ImportClause
+    : ImportedDefaultBinding
+    | NameSpaceImport
+    | NamedImports
+    | ImportedDefaultBinding "," NameSpaceImport
+    | ImportedDefaultBinding "," NamedImports
+    ;
+
+ImportedDefaultBinding
+    : ImportedBinding
+    ;
+
+NameSpaceImport
+    : "*" "as" ImportedBinding
+    ;
+
+NamedImports
+    : "{" "}"
+    | "{" ImportsList "}"
+    | "{" ImportsList "," "}"
+    ;
+
+FromClause
+    : "from" ModuleSpecifier
+    ;
+
+ImportsList
+    : ImportSpecifier
+    | ImportsList "," ImportSpecifier
+    ;
+
+ImportSpecifier
+    : ImportedBinding
+    | IdentifierName "as" ImportedBinding
+    ;
+
+ModuleSpecifier
+    : StringLiteral
+    ;
+
+ImportedBinding
+    : BindingIdentifier
+    ;
+
+ExportDeclaration
+    : "export" "*" FromClause ";"
+    | "export" ExportClause FromClause ";"
+    | "export" ExportClause ";"
+    | "export" VariableStatement
+    | "export" Declaration
+    | "export" "default" HoistableDeclaration_Default
+    | "export" "default" ClassDeclaration
+    | "export" "default" AssignmentExpression ";"
+    ;
+
+ExportClause
+    : "{" "}"
+    | "{" ExportsList "}"
+    | "{" ExportsList "," "}"
+    ;
+
+ExportsList
+    : ExportSpecifier
+    | ExportsList "," ExportSpecifier
+    ;
+
+ExportSpecifier
+    : IdentifierName
+    | IdentifierName "as" IdentifierName
+    ;
+
+Constraint_opt
+    : /* empty */
+    | Constraint
+    ;
+
+TypeArguments_opt
+    : /* empty */
+    | TypeArguments
+    ;
+
+TypeBody_opt
+    : /* empty */
+    | TypeBody
+    ;
+
+SEMICOLON_opt
+    : /* empty */
+    | ";"
+    ;
+
+TypeParameters_opt
+    : /* empty */
+    | TypeParameters
+    ;
+
+ParameterList_opt
+    : /* empty */
+    | ParameterList
+    ;
+
+QUESTION_opt
+    : /* empty */
+    | "?"
+    ;
+
+TypeAnnotation_opt
+    : /* empty */
+    | TypeAnnotation
+    ;
+
+AccessibilityModifier_opt
+    : /* empty */
+    | AccessibilityModifier
+    ;
+
+Elision_opt
+    : /* empty */
+    | Elision
+    ;
+
+ArgumentList_opt
+    : /* empty */
+    | ArgumentList
+    ;
+
+Identifier_opt
+    : /* empty */
+    | Identifier
+    ;
+
+BindingIdentifier_opt
+    : /* empty */
+    | BindingIdentifier
+    ;
+
+Initializer_opt
+    : /* empty */
+    | Initializer
+    ;
+
+COMMA_opt
+    : /* empty */
+    | ","
+    ;
+
+BindingRestElement_opt
+    : /* empty */
+    | BindingRestElement
+    ;
+
+Initializer_In_opt
+    : /* empty */
+    | Initializer_In
+    ;
+
+FunctionOverloads_opt
+    : /* empty */
+    | FunctionOverloads
+    ;
+
+InterfaceExtendsClause_opt
+    : /* empty */
+    | InterfaceExtendsClause
+    ;
+
+ClassExtendsClause_opt
+    : /* empty */
+    | ClassExtendsClause
+    ;
+
+ImplementsClause_opt
+    : /* empty */
+    | ImplementsClause
+    ;
+
+ClassElements_opt
+    : /* empty */
+    | ClassElements
+    ;
+
+ConstructorOverloads_opt
+    : /* empty */
+    | ConstructorOverloads
+    ;
+
+STATIC_opt
+    : /* empty */
+    | "static"
+    ;
+
+MemberFunctionOverloads_opt
+    : /* empty */
+    | MemberFunctionOverloads
+    ;
+
+CONST_opt
+    : /* empty */
+    | "const"
+    ;
+
+EnumBody_opt
+    : /* empty */
+    | EnumBody
+    ;
+
+ModuleElements_opt
+    : /* empty */
+    | ModuleElements
+    ;
+
+EXPORT_opt
+    : /* empty */
+    | "export"
+    ;
+
+ImplementationElements_opt
+    : /* empty */
+    | ImplementationElements
+    ;
+
+DeclarationElements_opt
+    : /* empty */
+    | DeclarationElements
+    ;
+
+AmbientClassBodyElements_opt
+    : /* empty */
+    | AmbientClassBodyElements
+    ;
+
+AmbientModuleElements_opt
+    : /* empty */
+    | AmbientModuleElements
+    ;
+
+AmbientExternalModuleElements_opt
+    : /* empty */
+    | AmbientExternalModuleElements
+    ;
+
+StatementList_opt
+    : /* empty */
+    | StatementList
+    ;
+
+StatementList_Return_opt
+    : /* empty */
+    | StatementList_Return
+    ;
+
+StatementList_Yield_Return_opt
+    : /* empty */
+    | StatementList_Yield_Return
+    ;
+
+Initializer_Yield_opt
+    : /* empty */
+    | Initializer_Yield
+    ;
+
+Initializer_In_Yield_opt
+    : /* empty */
+    | Initializer_In_Yield
+    ;
+
+Expression_opt
+    : /* empty */
+    | Expression
+    ;
+
+Expression_In_opt
+    : /* empty */
+    | Expression_In
+    ;
+
+Expression_Yield_opt
+    : /* empty */
+    | Expression_Yield
+    ;
+
+Expression_In_Yield_opt
+    : /* empty */
+    | Expression_In_Yield
+    ;
+
+CaseClauses_opt
+    : /* empty */
+    | CaseClauses
+    ;
+
+CaseClauses_Return_opt
+    : /* empty */
+    | CaseClauses_Return
+    ;
+
+CaseClauses_Yield_Return_opt
+    : /* empty */
+    | CaseClauses_Yield_Return
+    ;
+
+BindingIdentifier_Yield_opt
+    : /* empty */
+    | BindingIdentifier_Yield
+    ;
+
+ClassHeritage_opt
+    : /* empty */
+    | ClassHeritage
+    ;
+
+ClassBody_opt
+    : /* empty */
+    | ClassBody
+    ;
+
+ScriptBody_opt
+    : /* empty */
+    | ScriptBody
+    ;
+
+ModuleBody_opt
+    : /* empty */
+    | ModuleBody
+    ;
\ No newline at end of file
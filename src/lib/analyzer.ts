@@ -0,0 +1,1124 @@
+import { CancellationToken } from "prex";
+import { Dictionary } from "./core";
+import { SyntaxKind } from "./tokens";
+import { Symbol, SymbolKind } from "./symbols";
+import { BindingTable } from "./binder";
+import { CompilerOptions } from "./options";
+import {
+    Node,
+    Identifier,
+    OptionalSymbol,
+    Terminal,
+    UnicodeCharacterLiteral,
+    UnicodeCharacterRange,
+    Prose,
+    Nonterminal,
+    OneOfSymbol,
+    OneOfList,
+    LexicalSymbol,
+    ButNotSymbol,
+    LookaheadAssertion,
+    ParameterValueAssertion,
+    SymbolSet,
+    SymbolSpan,
+    RightHandSide,
+    RightHandSideList,
+    Production,
+    forEachChild
+} from "./nodes";
+
+export enum TerminalSymbolKind {
+    Terminal,
+    UnicodeCharacterLiteral,
+    UnicodeCharacterRange,
+    Prose,
+    Token,
+    Placeholder,
+    EndOfInput
+}
+
+/**
+ * A terminal symbol in a FIRST or FOLLOW set.
+ */
+export interface TerminalSymbol {
+    kind: TerminalSymbolKind;
+    /** The grammarkdown text for the symbol, which also uniquely identifies the symbol within a set. */
+    text: string;
+    /** The text of terminal symbols excluded from this symbol by a `but not` clause. */
+    excludes?: string[];
+}
+
+export namespace TerminalSymbol {
+    export const endOfInput: TerminalSymbol = { kind: TerminalSymbolKind.EndOfInput, text: "$" };
+
+    export function isOpaque(symbol: TerminalSymbol) {
+        switch (symbol.kind) {
+            case TerminalSymbolKind.UnicodeCharacterRange:
+            case TerminalSymbolKind.Prose:
+            case TerminalSymbolKind.Token:
+                return true;
+        }
+
+        return false;
+    }
+}
+
+/**
+ * An unordered set of terminal symbols.
+ */
+export class TerminalSet {
+    private map = new Dictionary<TerminalSymbol>();
+    private count = 0;
+
+    constructor(symbols?: TerminalSymbol[]) {
+        if (symbols) {
+            for (const symbol of symbols) {
+                this.add(symbol);
+            }
+        }
+    }
+
+    public get size() {
+        return this.count;
+    }
+
+    public has(text: string) {
+        return Dictionary.has(this.map, text);
+    }
+
+    public get(text: string) {
+        return Dictionary.get(this.map, text);
+    }
+
+    /**
+     * Adds a symbol to the set, returning `true` if the set changed.
+     */
+    public add(symbol: TerminalSymbol): boolean {
+        const existing = Dictionary.get(this.map, symbol.text);
+        if (!existing) {
+            Dictionary.set(this.map, symbol.text, symbol);
+            this.count++;
+            return true;
+        }
+
+        if (existing.excludes) {
+            // the union of two exclusions only excludes what both exclude.
+            const excludes = symbol.excludes ? existing.excludes.filter(text => symbol.excludes.indexOf(text) >= 0) : [];
+            if (excludes.length < existing.excludes.length) {
+                Dictionary.set(this.map, symbol.text, excludes.length > 0
+                    ? { kind: existing.kind, text: existing.text, excludes }
+                    : { kind: existing.kind, text: existing.text });
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Adds each symbol in another set to this set, returning `true` if the set changed.
+     */
+    public addAll(other: TerminalSet): boolean {
+        let changed = false;
+        for (const symbol of other.toArray()) {
+            if (this.add(symbol)) {
+                changed = true;
+            }
+        }
+
+        return changed;
+    }
+
+    /**
+     * Gets the symbols shared by this set and another set.
+     */
+    public intersect(other: TerminalSet): TerminalSymbol[] {
+        const symbols: TerminalSymbol[] = [];
+        for (const symbol of this.toArray()) {
+            if (other.has(symbol.text)) {
+                symbols.push(symbol);
+            }
+        }
+
+        return symbols;
+    }
+
+    public toArray(): TerminalSymbol[] {
+        const symbols: TerminalSymbol[] = [];
+        for (const text in this.map) if (Dictionary.guard(this.map, text)) {
+            symbols.push(this.map[text]);
+        }
+
+        return symbols;
+    }
+
+    public toString() {
+        return `{ ${this.toArray().map(formatTerminalSymbol).join(", ")} }`;
+    }
+}
+
+export function formatTerminalSymbol(symbol: TerminalSymbol): string {
+    return symbol.excludes
+        ? `${symbol.text} but not one of ${symbol.excludes.join(" or ")}`
+        : symbol.text;
+}
+
+export interface LeftRecursiveCycle {
+    /** The leftmost nonterminal that begins the cycle. */
+    reference: Nonterminal;
+    /** The productions that make up the cycle. The first and last entries are the same production. */
+    path: Symbol[];
+}
+
+export interface LL1Conflict {
+    /** The production whose alternatives conflict. */
+    production: Symbol;
+    /** The earlier of the two conflicting right-hand sides. */
+    first: RightHandSide;
+    /** The later of the two conflicting right-hand sides. */
+    second: RightHandSide;
+    /** The terminal symbols that would select either right-hand side. */
+    terminals: TerminalSymbol[];
+}
+
+interface LeftmostEdge {
+    reference: Nonterminal;
+    target: Symbol;
+}
+
+export class Analyzer {
+    private bindings: BindingTable;
+    private goals: string[];
+    private cancellationToken: CancellationToken;
+    private productionSymbols: Symbol[];
+    private nullableSymbols: Dictionary<boolean>;
+    private leftmostEdges: Dictionary<LeftmostEdge[]>;
+    private firstSets: Dictionary<TerminalSet>;
+    private followSets: Dictionary<TerminalSet>;
+    private singleTokenSymbols: Dictionary<boolean>;
+
+    constructor(bindings: BindingTable, options?: CompilerOptions, cancellationToken = CancellationToken.none) {
+        this.bindings = bindings;
+        this.goals = options && options.goals;
+        this.cancellationToken = cancellationToken;
+    }
+
+    /**
+     * Gets the symbols for every production in the grammar, in declaration order.
+     */
+    public getProductionSymbols(): Symbol[] {
+        if (!this.productionSymbols) {
+            const productionSymbols: Symbol[] = [];
+            const seen = new Dictionary<boolean>();
+            for (const sourceFile of this.bindings.sourceFiles) {
+                for (const element of sourceFile.elements) {
+                    if (element.kind === SyntaxKind.Production) {
+                        const symbol = this.bindings.getSymbol(element);
+                        if (symbol && !Dictionary.has(seen, symbol.id)) {
+                            Dictionary.set(seen, symbol.id, true);
+                            productionSymbols.push(symbol);
+                        }
+                    }
+                }
+            }
+
+            this.productionSymbols = productionSymbols;
+        }
+
+        return this.productionSymbols;
+    }
+
+    /**
+     * Gets the right-hand sides for every declaration of a production.
+     */
+    public getRightHandSides(symbol: Symbol): RightHandSide[] {
+        const rightHandSides: RightHandSide[] = [];
+        for (const declaration of this.bindings.getDeclarations(symbol)) {
+            if (declaration.kind === SyntaxKind.Production) {
+                const body = (<Production>declaration).body;
+                if (body) {
+                    switch (body.kind) {
+                        case SyntaxKind.RightHandSideList:
+                            const elements = (<RightHandSideList>body).elements;
+                            if (elements) {
+                                rightHandSides.push(...elements);
+                            }
+
+                            break;
+
+                        case SyntaxKind.RightHandSide:
+                            rightHandSides.push(<RightHandSide>body);
+                            break;
+                    }
+                }
+            }
+        }
+
+        return rightHandSides;
+    }
+
+    /**
+     * Gets a value indicating whether a production is a syntactic (`:`) production.
+     */
+    public isSyntactic(symbol: Symbol): boolean {
+        const declaration = <Production>this.bindings.getDeclarations(symbol)[0];
+        return !!declaration
+            && declaration.kind === SyntaxKind.Production
+            && !!declaration.colonToken
+            && declaration.colonToken.kind === SyntaxKind.ColonToken;
+    }
+
+    /**
+     * Resolves the production referenced by a nonterminal.
+     */
+    public getProductionSymbol(node: Nonterminal | Identifier): Symbol {
+        const name = node.kind === SyntaxKind.Nonterminal ? (<Nonterminal>node).name : <Identifier>node;
+        if (name && name.text) {
+            return this.bindings.getSymbol(name)
+                || this.bindings.resolveSymbol(name, name.text, SymbolKind.Production);
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Gets a value indicating whether a production can derive the empty string.
+     */
+    public isNullable(symbol: Symbol): boolean {
+        this.computeNullableSymbols();
+        return Dictionary.has(this.nullableSymbols, symbol.id);
+    }
+
+    /**
+     * Gets a value indicating whether a right-hand side can derive the empty string.
+     */
+    public isNullableRightHandSide(node: RightHandSide): boolean {
+        this.computeNullableSymbols();
+        return this.isNullableSymbolSpan(node.head, this.isSyntacticRightHandSide(node));
+    }
+
+    /**
+     * Gets a value indicating whether a symbol span, along with the spans that follow it in its right-hand side,
+     * can derive the empty string.
+     */
+    public isNullableSuffix(node: SymbolSpan): boolean {
+        if (!node) {
+            return true;
+        }
+
+        this.computeNullableSymbols();
+        const rhs = <RightHandSide>this.bindings.getAncestor(node, SyntaxKind.RightHandSide);
+        return this.isNullableSymbolSpan(node, rhs ? this.isSyntacticRightHandSide(rhs) : false);
+    }
+
+    /**
+     * Gets the terminal symbols that can begin a string derived from a production.
+     */
+    public getFirstSet(symbol: Symbol): TerminalSet {
+        this.computeFirstSets();
+        return Dictionary.get(this.firstSets, symbol.id) || new TerminalSet();
+    }
+
+    /**
+     * Gets the terminal symbols that can begin a string derived from a right-hand side.
+     */
+    public getFirstSetOfRightHandSide(node: RightHandSide): TerminalSet {
+        this.computeFirstSets();
+        const firstSet = new TerminalSet();
+        this.addFirstOfSymbolSpan(node.head, this.isSyntacticRightHandSide(node), firstSet);
+        return firstSet;
+    }
+
+    /**
+     * Gets the terminal symbols that can immediately follow a production. The set includes the end-of-input
+     * symbol (`$`) for goal productions, or for productions that are not referenced if no goals were specified.
+     */
+    public getFollowSet(symbol: Symbol): TerminalSet {
+        this.computeFollowSets();
+        return Dictionary.get(this.followSets, symbol.id) || new TerminalSet();
+    }
+
+    /**
+     * Gets the productions from which the grammar is parsed: the goal productions if goals were specified;
+     * otherwise, each production that is not referenced by another production of the same kind.
+     */
+    public getStartSymbols(): Symbol[] {
+        if (this.goals && this.goals.length > 0) {
+            const startSymbols: Symbol[] = [];
+            for (const goal of this.goals) {
+                const symbol = this.bindings.globals.resolveSymbol(goal, SymbolKind.Production);
+                if (symbol) {
+                    startSymbols.push(symbol);
+                }
+            }
+
+            return startSymbols;
+        }
+
+        // without declared goals, any production not referenced from another production of the same kind is a start symbol.
+        const referenced = new Dictionary<boolean>();
+        for (const symbol of this.getProductionSymbols()) {
+            const syntactic = this.isSyntactic(symbol);
+            const visit = (node: Node): void => {
+                if (node.kind === SyntaxKind.Nonterminal) {
+                    const target = this.getProductionSymbol(<Nonterminal>node);
+                    if (target && target !== symbol && this.isSyntactic(target) === syntactic) {
+                        Dictionary.set(referenced, target.id, true);
+                    }
+                }
+
+                forEachChild(node, visit);
+            };
+
+            for (const rhs of this.getRightHandSides(symbol)) {
+                visit(rhs);
+            }
+        }
+
+        return this.getProductionSymbols().filter(symbol => !Dictionary.has(referenced, symbol.id));
+    }
+
+    /**
+     * Gets each left-recursive cycle among the syntactic productions of the grammar. A cycle is reported
+     * once, starting from the production in the cycle that is declared first, for each leftmost nonterminal
+     * of that production that begins it.
+     */
+    public getLeftRecursiveCycles(): LeftRecursiveCycle[] {
+        this.computeLeftmostEdges();
+        const cycles: LeftRecursiveCycle[] = [];
+        const visited = new Dictionary<boolean>();
+        for (const symbol of this.getProductionSymbols()) {
+            this.cancellationToken.throwIfCancellationRequested();
+            const edges = Dictionary.get(this.leftmostEdges, symbol.id);
+            if (edges) {
+                for (const edge of edges) {
+                    // a cycle through a production declared earlier was already reported from that production.
+                    const path = this.findLeftmostPath(edge.target, symbol, visited);
+                    if (path) {
+                        cycles.push({ reference: edge.reference, path: [symbol, ...path] });
+                    }
+                }
+            }
+
+            Dictionary.set(visited, symbol.id, true);
+        }
+
+        return cycles;
+    }
+
+    /**
+     * Gets the terminal symbols that select a right-hand side in an LL(1) parser: its FIRST set, along with
+     * the FOLLOW set of its production when the right-hand side is nullable. A `[lookahead ...]` assertion
+     * restricts the symbols that follow it.
+     */
+    public getPredictSetOfRightHandSide(node: RightHandSide): TerminalSet {
+        this.computeFollowSets();
+        const production = <Production>this.bindings.getAncestor(node, SyntaxKind.Production);
+        const symbol = production && this.bindings.getSymbol(production);
+        if (!symbol) {
+            return new TerminalSet();
+        }
+
+        return this.getFirstOfSymbolSpan(node.head, this.isSyntactic(symbol), Dictionary.get(this.followSets, symbol.id));
+    }
+
+    /**
+     * Gets each pair of alternatives in a list of right-hand sides of a syntactic production that cannot be
+     * chosen between using a single token of lookahead.
+     */
+    public getLL1Conflicts(): LL1Conflict[] {
+        this.computeFollowSets();
+        const conflicts: LL1Conflict[] = [];
+        for (const symbol of this.getProductionSymbols()) {
+            this.cancellationToken.throwIfCancellationRequested();
+            if (!this.isSyntactic(symbol)) {
+                continue;
+            }
+
+            for (const declaration of this.bindings.getDeclarations(symbol)) {
+                const body = declaration.kind === SyntaxKind.Production ? (<Production>declaration).body : undefined;
+                if (!body || body.kind !== SyntaxKind.RightHandSideList || !(<RightHandSideList>body).elements) {
+                    continue;
+                }
+
+                const elements = (<RightHandSideList>body).elements;
+                const predictSets = elements.map(rhs => this.getPredictSetOfRightHandSide(rhs));
+                for (let i = 0; i < elements.length; i++) {
+                    for (let j = i + 1; j < elements.length; j++) {
+                        if (this.hasConflictingParameterConstraints(elements[i], elements[j])) {
+                            continue;
+                        }
+
+                        const terminals = predictSets[i].intersect(predictSets[j]);
+                        if (terminals.length > 0) {
+                            conflicts.push({ production: symbol, first: elements[i], second: elements[j], terminals });
+                        }
+                    }
+                }
+            }
+        }
+
+        return conflicts;
+    }
+
+    private isSyntacticRightHandSide(node: RightHandSide) {
+        const production = <Production>this.bindings.getAncestor(node, SyntaxKind.Production);
+        const symbol = production && this.bindings.getSymbol(production);
+        return symbol ? this.isSyntactic(symbol) : false;
+    }
+
+    private isTokenReference(target: Symbol, syntactic: boolean) {
+        // a lexical production referenced from a syntactic production is a single token.
+        return syntactic && !this.isSyntactic(target);
+    }
+
+    private computeNullableSymbols() {
+        if (this.nullableSymbols) {
+            return;
+        }
+
+        this.nullableSymbols = new Dictionary<boolean>();
+        let changed = true;
+        while (changed) {
+            this.cancellationToken.throwIfCancellationRequested();
+            changed = false;
+            for (const symbol of this.getProductionSymbols()) {
+                if (!Dictionary.has(this.nullableSymbols, symbol.id)) {
+                    const syntactic = this.isSyntactic(symbol);
+                    for (const rhs of this.getRightHandSides(symbol)) {
+                        if (this.isNullableSymbolSpan(rhs.head, syntactic)) {
+                            Dictionary.set(this.nullableSymbols, symbol.id, true);
+                            changed = true;
+                            break;
+                        }
+                    }
+                }
+            }
+        }
+    }
+
+    private isNullableSymbolSpan(node: SymbolSpan, syntactic: boolean): boolean {
+        for (let span = node; span; span = span.next) {
+            if (!this.isNullableSymbol(span.symbol, syntactic)) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    private isNullableSymbol(node: LexicalSymbol, syntactic: boolean): boolean {
+        if (!node) {
+            return true;
+        }
+
+        switch (node.kind) {
+            case SyntaxKind.Terminal:
+            case SyntaxKind.UnicodeCharacterLiteral:
+                return !!(<OptionalSymbol>node).questionToken;
+
+            case SyntaxKind.Nonterminal:
+                if ((<Nonterminal>node).questionToken) {
+                    return true;
+                }
+
+                const symbol = this.getProductionSymbol(<Nonterminal>node);
+                return !!symbol
+                    && !this.isTokenReference(symbol, syntactic)
+                    && Dictionary.has(this.nullableSymbols, symbol.id);
+
+            case SyntaxKind.ButNotSymbol:
+                // `A but not B` excludes the empty string when `B` can match it.
+                return this.isNullableSymbol((<ButNotSymbol>node).left, syntactic)
+                    && !this.isNullableSymbol((<ButNotSymbol>node).right, syntactic);
+
+            case SyntaxKind.OneOfSymbol:
+                for (const symbol of (<OneOfSymbol>node).symbols || []) {
+                    if (this.isNullableSymbol(symbol, syntactic)) {
+                        return true;
+                    }
+                }
+
+                return false;
+
+            case SyntaxKind.EmptyAssertion:
+            case SyntaxKind.LookaheadAssertion:
+            case SyntaxKind.LexicalGoalAssertion:
+            case SyntaxKind.NoSymbolHereAssertion:
+            case SyntaxKind.ParameterValueAssertion:
+            case SyntaxKind.ProseAssertion:
+            case SyntaxKind.InvalidAssertion:
+                // assertions do not consume input.
+                return true;
+
+            default:
+                // prose, character ranges, and placeholders always consume input.
+                return false;
+        }
+    }
+
+    private computeFirstSets() {
+        if (this.firstSets) {
+            return;
+        }
+
+        this.computeNullableSymbols();
+        this.firstSets = new Dictionary<TerminalSet>();
+        for (const symbol of this.getProductionSymbols()) {
+            Dictionary.set(this.firstSets, symbol.id, new TerminalSet());
+        }
+
+        let changed = true;
+        while (changed) {
+            this.cancellationToken.throwIfCancellationRequested();
+            changed = false;
+            for (const symbol of this.getProductionSymbols()) {
+                const firstSet = Dictionary.get(this.firstSets, symbol.id);
+                const syntactic = this.isSyntactic(symbol);
+                for (const rhs of this.getRightHandSides(symbol)) {
+                    if (this.addFirstOfSymbolSpan(rhs.head, syntactic, firstSet)) {
+                        changed = true;
+                    }
+                }
+
+                for (const oneOfList of this.getOneOfLists(symbol)) {
+                    for (const terminal of oneOfList.terminals || []) {
+                        if (firstSet.add(getTerminalSymbol(terminal))) {
+                            changed = true;
+                        }
+                    }
+                }
+            }
+        }
+    }
+
+    private addFirstOfSymbolSpan(node: SymbolSpan, syntactic: boolean, firstSet: TerminalSet): boolean {
+        return firstSet.addAll(this.getFirstOfSymbolSpan(node, syntactic));
+    }
+
+    private getFirstOfSymbolSpan(node: SymbolSpan, syntactic: boolean, followSet?: TerminalSet): TerminalSet {
+        // the FIRST set of a span also includes `followSet` when the whole span is nullable, so that a
+        // lookahead assertion can restrict whatever follows it.
+        if (!node) {
+            return new TerminalSet(followSet && followSet.toArray());
+        }
+
+        if (node.symbol && node.symbol.kind === SyntaxKind.LookaheadAssertion) {
+            const rest = this.getFirstOfSymbolSpan(node.next, syntactic, followSet);
+            return this.applyLookaheadAssertion(<LookaheadAssertion>node.symbol, syntactic, rest);
+        }
+
+        const firstSet = new TerminalSet();
+        this.addFirstOfSymbol(node.symbol, syntactic, firstSet);
+        if (this.isNullableSymbol(node.symbol, syntactic)) {
+            firstSet.addAll(this.getFirstOfSymbolSpan(node.next, syntactic, followSet));
+        }
+
+        return firstSet;
+    }
+
+    private addFirstOfSymbol(node: LexicalSymbol, syntactic: boolean, firstSet: TerminalSet): boolean {
+        if (!node) {
+            return false;
+        }
+
+        switch (node.kind) {
+            case SyntaxKind.Terminal:
+            case SyntaxKind.UnicodeCharacterLiteral:
+            case SyntaxKind.UnicodeCharacterRange:
+            case SyntaxKind.Prose:
+            case SyntaxKind.AtToken:
+                return firstSet.add(getTerminalSymbol(node));
+
+            case SyntaxKind.Nonterminal:
+                const symbol = this.getProductionSymbol(<Nonterminal>node);
+                if (!symbol) {
+                    return false;
+                }
+
+                if (this.isTokenReference(symbol, syntactic)) {
+                    return firstSet.add({ kind: TerminalSymbolKind.Token, text: symbol.name });
+                }
+
+                const firstSetOfSymbol = Dictionary.get(this.firstSets, symbol.id);
+                return firstSetOfSymbol ? firstSet.addAll(firstSetOfSymbol) : false;
+
+            case SyntaxKind.OneOfSymbol:
+                let changed = false;
+                for (const symbol of (<OneOfSymbol>node).symbols || []) {
+                    if (this.addFirstOfSymbol(symbol, syntactic, firstSet)) {
+                        changed = true;
+                    }
+                }
+
+                return changed;
+
+            case SyntaxKind.ButNotSymbol:
+                return firstSet.addAll(this.getFirstOfButNotSymbol(<ButNotSymbol>node, syntactic));
+        }
+
+        return false;
+    }
+
+    private getFirstOfButNotSymbol(node: ButNotSymbol, syntactic: boolean): TerminalSet {
+        // Exclusions only narrow the FIRST set when both sides match a single terminal symbol. For example,
+        // `SourceCharacter but not LineTerminator` cannot begin with a line terminator, while
+        // `IdentifierName but not ReservedWord` can still begin with the first character of a reserved word.
+        if (!this.isSingleTokenSymbol(node.left, syntactic) || !this.isSingleTokenSymbol(node.right, syntactic)) {
+            const firstSet = new TerminalSet();
+            this.addFirstOfSymbol(node.left, syntactic, firstSet);
+            return firstSet;
+        }
+
+        const left = new TerminalSet();
+        const right = new TerminalSet();
+        this.addSingleTokenSymbols(node.left, syntactic, left);
+        this.addSingleTokenSymbols(node.right, syntactic, right);
+        const excluded = right.toArray().filter(symbol => !symbol.excludes && !TerminalSymbol.isOpaque(symbol)).map(symbol => symbol.text);
+        const result = new TerminalSet();
+        for (const symbol of left.toArray()) {
+            if (!TerminalSymbol.isOpaque(symbol)) {
+                if (!right.has(symbol.text) || right.get(symbol.text).excludes) {
+                    result.add(symbol);
+                }
+            }
+            else if (excluded.length > 0) {
+                const excludes = (symbol.excludes || []).slice();
+                for (const text of excluded) {
+                    if (excludes.indexOf(text) === -1) {
+                        excludes.push(text);
+                    }
+                }
+
+                result.add({ kind: symbol.kind, text: symbol.text, excludes });
+            }
+            else {
+                result.add(symbol);
+            }
+        }
+
+        return result;
+    }
+
+    private isSingleTokenSymbol(node: LexicalSymbol, syntactic: boolean): boolean {
+        if (!node) {
+            return false;
+        }
+
+        switch (node.kind) {
+            case SyntaxKind.Terminal:
+            case SyntaxKind.UnicodeCharacterLiteral:
+                return !(<OptionalSymbol>node).questionToken;
+
+            case SyntaxKind.UnicodeCharacterRange:
+            case SyntaxKind.Prose:
+                return true;
+
+            case SyntaxKind.OneOfSymbol:
+                for (const symbol of (<OneOfSymbol>node).symbols || []) {
+                    if (!this.isSingleTokenSymbol(symbol, syntactic)) {
+                        return false;
+                    }
+                }
+
+                return true;
+
+            case SyntaxKind.Nonterminal:
+                if ((<Nonterminal>node).questionToken) {
+                    return false;
+                }
+
+                const symbol = this.getProductionSymbol(<Nonterminal>node);
+                if (!symbol) {
+                    return false;
+                }
+
+                if (this.isTokenReference(symbol, syntactic)) {
+                    return true;
+                }
+
+                return this.isSingleTokenProduction(symbol);
+        }
+
+        return false;
+    }
+
+    private addSingleTokenSymbols(node: LexicalSymbol, syntactic: boolean, terminalSet: TerminalSet): void {
+        switch (node.kind) {
+            case SyntaxKind.OneOfSymbol:
+                for (const symbol of (<OneOfSymbol>node).symbols) {
+                    this.addSingleTokenSymbols(symbol, syntactic, terminalSet);
+                }
+
+                break;
+
+            case SyntaxKind.Nonterminal:
+                const symbol = this.getProductionSymbol(<Nonterminal>node);
+                if (this.isTokenReference(symbol, syntactic)) {
+                    terminalSet.add({ kind: TerminalSymbolKind.Token, text: symbol.name });
+                    break;
+                }
+
+                const syntacticProduction = this.isSyntactic(symbol);
+                for (const rhs of this.getRightHandSides(symbol)) {
+                    this.addSingleTokenSymbols(rhs.head.symbol, syntacticProduction, terminalSet);
+                }
+
+                for (const oneOfList of this.getOneOfLists(symbol)) {
+                    for (const terminal of oneOfList.terminals || []) {
+                        terminalSet.add(getTerminalSymbol(terminal));
+                    }
+                }
+
+                break;
+
+            default:
+                terminalSet.add(getTerminalSymbol(node));
+                break;
+        }
+    }
+
+    private isSingleTokenProduction(symbol: Symbol): boolean {
+        if (!this.singleTokenSymbols) {
+            this.singleTokenSymbols = new Dictionary<boolean>();
+        }
+
+        if (Dictionary.has(this.singleTokenSymbols, symbol.id)) {
+            return Dictionary.get(this.singleTokenSymbols, symbol.id);
+        }
+
+        // assume recursive references are not single tokens.
+        Dictionary.set(this.singleTokenSymbols, symbol.id, false);
+        const syntactic = this.isSyntactic(symbol);
+        let result = true;
+        for (const rhs of this.getRightHandSides(symbol)) {
+            const head = rhs.head;
+            if (!head || head.next || !this.isSingleTokenSymbol(head.symbol, syntactic)) {
+                result = false;
+                break;
+            }
+        }
+
+        Dictionary.set(this.singleTokenSymbols, symbol.id, result);
+        return result;
+    }
+
+    private getOneOfLists(symbol: Symbol): OneOfList[] {
+        const oneOfLists: OneOfList[] = [];
+        for (const declaration of this.bindings.getDeclarations(symbol)) {
+            if (declaration.kind === SyntaxKind.Production) {
+                const body = (<Production>declaration).body;
+                if (body && body.kind === SyntaxKind.OneOfList) {
+                    oneOfLists.push(<OneOfList>body);
+                }
+            }
+        }
+
+        return oneOfLists;
+    }
+
+    private applyLookaheadAssertion(node: LookaheadAssertion, syntactic: boolean, terminalSet: TerminalSet): TerminalSet {
+        const operator = node.operatorToken && node.operatorToken.kind;
+        const spans = !node.lookahead ? []
+            : node.lookahead.kind === SyntaxKind.SymbolSet ? (<SymbolSet>node.lookahead).elements || []
+            : [<SymbolSpan>node.lookahead];
+
+        switch (operator) {
+            case SyntaxKind.EqualsEqualsToken:
+            case SyntaxKind.LessThanMinusToken:
+                // only symbols that can begin one of the lookahead sequences are kept. Opaque symbols are
+                // kept as well, as they may match a terminal in the lookahead.
+                const allowed = new TerminalSet();
+                for (const span of spans) {
+                    this.addFirstOfSymbolSpan(span, syntactic, allowed);
+                }
+
+                return new TerminalSet(terminalSet.toArray().filter(symbol => allowed.has(symbol.text) || TerminalSymbol.isOpaque(symbol)));
+
+            case SyntaxKind.ExclamationEqualsToken:
+            case SyntaxKind.LessThanExclamationToken:
+                // only lookahead sequences of a single token exclude a symbol; `[lookahead ∉ { let [ }]` does not exclude `let`.
+                const disallowed = new TerminalSet();
+                for (const span of spans) {
+                    if (!span.next && this.isSingleTokenSymbol(span.symbol, syntactic)) {
+                        this.addSingleTokenSymbols(span.symbol, syntactic, disallowed);
+                    }
+                }
+
+                const excluded = disallowed.toArray().filter(symbol => !symbol.excludes && !TerminalSymbol.isOpaque(symbol)).map(symbol => symbol.text);
+                const result = new TerminalSet();
+                for (const symbol of terminalSet.toArray()) {
+                    const match = disallowed.get(symbol.text);
+                    if (match && !match.excludes) {
+                        continue;
+                    }
+
+                    if (TerminalSymbol.isOpaque(symbol) && excluded.length > 0) {
+                        const excludes = (symbol.excludes || []).slice();
+                        for (const text of excluded) {
+                            if (excludes.indexOf(text) === -1) {
+                                excludes.push(text);
+                            }
+                        }
+
+                        result.add({ kind: symbol.kind, text: symbol.text, excludes });
+                    }
+                    else {
+                        result.add(symbol);
+                    }
+                }
+
+                return result;
+        }
+
+        return terminalSet;
+    }
+
+    private hasConflictingParameterConstraints(left: RightHandSide, right: RightHandSide): boolean {
+        // alternatives guarded by `[+X]` and `[~X]` are never available at the same time.
+        const rightConstraints = this.getParameterConstraints(right);
+        for (const [name, value] of this.getParameterConstraints(left)) {
+            for (const [otherName, otherValue] of rightConstraints) {
+                if (name === otherName && value !== otherValue) {
+                    return true;
+                }
+            }
+        }
+
+        return false;
+    }
+
+    private getParameterConstraints(node: RightHandSide): [string, boolean][] {
+        const constraints: [string, boolean][] = [];
+        for (let span = node.head; span && span.symbol && span.symbol.kind === SyntaxKind.ParameterValueAssertion; span = span.next) {
+            const assertion = <ParameterValueAssertion>span.symbol;
+            if (assertion.name && assertion.name.text && assertion.operatorToken) {
+                constraints.push([assertion.name.text, assertion.operatorToken.kind === SyntaxKind.PlusToken]);
+            }
+        }
+
+        return constraints;
+    }
+
+    private computeFollowSets() {
+        if (this.followSets) {
+            return;
+        }
+
+        this.computeFirstSets();
+        this.followSets = new Dictionary<TerminalSet>();
+        for (const symbol of this.getProductionSymbols()) {
+            Dictionary.set(this.followSets, symbol.id, new TerminalSet());
+        }
+
+        for (const symbol of this.getStartSymbols()) {
+            Dictionary.get(this.followSets, symbol.id).add(TerminalSymbol.endOfInput);
+        }
+
+        let changed = true;
+        while (changed) {
+            this.cancellationToken.throwIfCancellationRequested();
+            changed = false;
+            for (const symbol of this.getProductionSymbols()) {
+                const followSet = Dictionary.get(this.followSets, symbol.id);
+                const syntactic = this.isSyntactic(symbol);
+                for (const rhs of this.getRightHandSides(symbol)) {
+                    for (let span = rhs.head; span; span = span.next) {
+                        if (this.addFollowOfSymbol(span.symbol, span.next, syntactic, followSet)) {
+                            changed = true;
+                        }
+                    }
+                }
+            }
+        }
+    }
+
+    private addFollowOfSymbol(node: LexicalSymbol, rest: SymbolSpan, syntactic: boolean, followSetOfProduction: TerminalSet): boolean {
+        if (!node) {
+            return false;
+        }
+
+        switch (node.kind) {
+            case SyntaxKind.Nonterminal:
+                const symbol = this.getProductionSymbol(<Nonterminal>node);
+                if (!symbol || this.isTokenReference(symbol, syntactic)) {
+                    return false;
+                }
+
+                const followSet = Dictionary.get(this.followSets, symbol.id);
+                return followSet.addAll(this.getFirstOfSymbolSpan(rest, syntactic, followSetOfProduction));
+
+            case SyntaxKind.OneOfSymbol:
+                let changedAny = false;
+                for (const symbol of (<OneOfSymbol>node).symbols || []) {
+                    if (this.addFollowOfSymbol(symbol, rest, syntactic, followSetOfProduction)) {
+                        changedAny = true;
+                    }
+                }
+
+                return changedAny;
+
+            case SyntaxKind.ButNotSymbol:
+                return this.addFollowOfSymbol((<ButNotSymbol>node).left, rest, syntactic, followSetOfProduction);
+        }
+
+        return false;
+    }
+
+    private computeLeftmostEdges() {
+        if (this.leftmostEdges) {
+            return;
+        }
+
+        this.computeNullableSymbols();
+        this.leftmostEdges = new Dictionary<LeftmostEdge[]>();
+        for (const symbol of this.getProductionSymbols()) {
+            if (!this.isSyntactic(symbol)) {
+                continue;
+            }
+
+            const edges: LeftmostEdge[] = [];
+            for (const rhs of this.getRightHandSides(symbol)) {
+                for (let span = rhs.head; span; span = span.next) {
+                    this.collectLeftmostEdges(span.symbol, edges);
+                    if (!this.isNullableSymbol(span.symbol, /*syntactic*/ true)) {
+                        break;
+                    }
+                }
+            }
+
+            Dictionary.set(this.leftmostEdges, symbol.id, edges);
+        }
+    }
+
+    private collectLeftmostEdges(node: LexicalSymbol, edges: LeftmostEdge[]) {
+        if (!node) {
+            return;
+        }
+
+        switch (node.kind) {
+            case SyntaxKind.Nonterminal:
+                const target = this.getProductionSymbol(<Nonterminal>node);
+                if (target && this.isSyntactic(target)) {
+                    edges.push({ reference: <Nonterminal>node, target });
+                }
+
+                break;
+
+            case SyntaxKind.ButNotSymbol:
+                this.collectLeftmostEdges((<ButNotSymbol>node).left, edges);
+                break;
+
+            case SyntaxKind.OneOfSymbol:
+                for (const symbol of (<OneOfSymbol>node).symbols || []) {
+                    this.collectLeftmostEdges(symbol, edges);
+                }
+
+                break;
+        }
+    }
+
+    private findLeftmostPath(source: Symbol, target: Symbol, excluded: Dictionary<boolean>): Symbol[] {
+        // breadth-first search for the shortest leftmost derivation from source to target that avoids the excluded productions.
+        if (Dictionary.has(excluded, source.id)) {
+            return undefined;
+        }
+
+        const previous = new Dictionary<Symbol>();
+        const queue: Symbol[] = [source];
+        Dictionary.set(previous, source.id, undefined);
+        while (queue.length > 0) {
+            const symbol = queue.shift();
+            if (symbol === target) {
+                const path: Symbol[] = [];
+                for (let current = symbol; current; current = Dictionary.get(previous, current.id)) {
+                    path.unshift(current);
+                }
+
+                return path;
+            }
+
+            const edges = Dictionary.get(this.leftmostEdges, symbol.id);
+            if (edges) {
+                for (const edge of edges) {
+                    if (!Dictionary.has(previous, edge.target.id) && !Dictionary.has(excluded, edge.target.id)) {
+                        Dictionary.set(previous, edge.target.id, symbol);
+                        queue.push(edge.target);
+                    }
+                }
+            }
+        }
+
+        return undefined;
+    }
+}
+
+/**
+ * Gets the terminal symbol for a terminal, unicode character literal or range, prose, or placeholder.
+ */
+export function getTerminalSymbol(node: LexicalSymbol): TerminalSymbol {
+    switch (node.kind) {
+        case SyntaxKind.Terminal:
+            return { kind: TerminalSymbolKind.Terminal, text: "`" + (<Terminal>node).text + "`" };
+
+        case SyntaxKind.UnicodeCharacterLiteral:
+            return { kind: TerminalSymbolKind.UnicodeCharacterLiteral, text: (<UnicodeCharacterLiteral>node).text };
+
+        case SyntaxKind.UnicodeCharacterRange:
+            const range = <UnicodeCharacterRange>node;
+            return { kind: TerminalSymbolKind.UnicodeCharacterRange, text: `${range.left.text} through ${range.right.text}` };
+
+        case SyntaxKind.Prose:
+            return { kind: TerminalSymbolKind.Prose, text: "> " + getProseText(<Prose>node) };
+
+        case SyntaxKind.AtToken:
+            return { kind: TerminalSymbolKind.Placeholder, text: "@" };
+    }
+
+    return undefined;
+}
+
+const unicodeCharacterNames = new Dictionary<number>({
+    "TAB": 0x0009,
+    "VT": 0x000B,
+    "FF": 0x000C,
+    "SP": 0x0020,
+    "NBSP": 0x00A0,
+    "ZWNBSP": 0xFEFF,
+    "LF": 0x000A,
+    "CR": 0x000D,
+    "LS": 0x2028,
+    "PS": 0x2029,
+    "ZWNJ": 0x200C,
+    "ZWJ": 0x200D
+});
+
+/**
+ * Gets the code point of a unicode character literal such as `U+0041` or `<LF>`, or `undefined` if it is not known.
+ */
+export function getCodePointOfLiteral(node: UnicodeCharacterLiteral): number {
+    const text = node.text.replace(/^<|>$/g, "");
+    const match = /^U\+([0-9a-f]+)$/i.exec(text);
+    return match ? parseInt(match[1], 16) : Dictionary.get(unicodeCharacterNames, text);
+}
+
+function getProseText(node: Prose) {
+    let text = "";
+    for (const fragment of node.fragments || []) {
+        switch (fragment.kind) {
+            case SyntaxKind.Terminal:
+                text += "`" + (<Terminal>fragment).text + "`";
+                break;
+
+            case SyntaxKind.Nonterminal:
+                text += "|" + (<Nonterminal>fragment).name.text + "|";
+                break;
+
+            default:
+                text += (<{ text: string }>fragment).text;
+                break;
+        }
+    }
+
+    return text;
+}
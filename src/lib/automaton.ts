@@ -0,0 +1,917 @@
+import { CancellationToken } from "prex";
+import { Dictionary } from "./core";
+import { SyntaxKind } from "./tokens";
+import { BindingTable } from "./binder";
+import { Analyzer, TerminalSymbol, TerminalSymbolKind, getTerminalSymbol } from "./analyzer";
+import { ConcreteNonterminal, ConcreteNonterminalTable, getArguments, isSatisfied } from "./expansion";
+import {
+    Nonterminal,
+    OptionalSymbol,
+    OneOfSymbol,
+    ButNotSymbol,
+    LookaheadAssertion,
+    LexicalSymbol,
+    SymbolSet,
+    SymbolSpan,
+    RightHandSide,
+    RightHandSideList,
+    OneOfList,
+    Production
+} from "./nodes";
+
+export enum LRConflictKind {
+    ShiftReduce,
+    ReduceReduce
+}
+
+/**
+ * A conflict in the parse table of an LALR(1) automaton.
+ */
+export interface LRConflict {
+    kind: LRConflictKind;
+    /** The name and arguments of the production that is reduced, e.g. `Expression[+In, ~Yield]`. */
+    production: string;
+    /** The right-hand side that is reduced. */
+    node: RightHandSide | OneOfList;
+    /** For a shift/reduce conflict, a production that shifts the terminal; otherwise, the other production that is reduced. */
+    otherProduction: string;
+    /** For a shift/reduce conflict, a right-hand side that shifts the terminal; otherwise, the other right-hand side that is reduced. */
+    otherNode: RightHandSide | OneOfList;
+    /** The lookahead terminals on which the conflict occurs. */
+    terminals: TerminalSymbol[];
+    /** A shortest input that reaches the conflict, ending with the first conflicting terminal. */
+    example: TerminalSymbol[];
+}
+
+interface AutomatonNonterminal extends ConcreteNonterminal {
+    rules: number[];
+}
+
+interface Rule {
+    /** The index of the nonterminal for the rule, or -1 for the rule that accepts a goal. */
+    lhs: number;
+    /** Nonterminals are non-negative indices into `nonterminals`, while terminals are the complement (`~index`) of an index into `terminals`. */
+    symbols: number[];
+    /** The restriction from `[lookahead ...]` assertions on the next terminal at each position of the rule. */
+    restrictions: number[];
+    node: RightHandSide | OneOfList;
+}
+
+interface Restriction {
+    excluded: number[];
+    allowed: number[];
+}
+
+interface Alternative {
+    symbols: number[];
+    restrictions: Restriction[][];
+}
+
+interface Suffix {
+    first: number[];
+    nullable: boolean;
+    /** The restriction that applies to a lookahead terminal that follows a nullable suffix. */
+    restriction: number;
+}
+
+interface Item {
+    rule: number;
+    dot: number;
+    /** A restriction on the next terminal inherited from the item that predicted this item. */
+    restriction: number;
+}
+
+interface State {
+    kernel: number[];
+    lookaheads: number[][];
+    transitionSymbols: number[];
+    transitionTargets: number[];
+}
+
+interface Closure {
+    items: number[];
+    lookaheads: number[][];
+}
+
+/**
+ * An LALR(1) automaton for the syntactic productions of a grammar, with each parametric production expanded for
+ * the combinations of arguments reachable from the goals of the grammar.
+ *
+ * Optional symbols are expanded into separate rules, `A but not B` is treated as `A`, and `[lookahead ...]`
+ * assertions of a single token restrict the terminals that may be shifted or reduced on. Other assertions are
+ * ignored.
+ */
+export class LRAutomaton {
+    private analyzer: Analyzer;
+    private bindings: BindingTable;
+    private cancellationToken: CancellationToken;
+    private built = false;
+    private terminals: TerminalSymbol[] = [];
+    private terminalIds = new Dictionary<number>();
+    private nonterminals: AutomatonNonterminal[] = [];
+    private nonterminalTable: ConcreteNonterminalTable;
+    private rules: Rule[] = [];
+    private rawRestrictions: Restriction[][][] = [];
+    private startRules: number[] = [];
+    private restrictionMasks: { excluded: number[], allowed: number[] }[] = [];
+    private restrictionIds = new Dictionary<number>();
+    private nullable: boolean[];
+    private firstSets: number[][];
+    private suffixes: Suffix[][];
+    private shortestSentences: number[][];
+    private items: Item[] = [];
+    private itemIds = new Dictionary<number>();
+    private states: State[] = [];
+    private stateIds = new Dictionary<number>();
+    private queuedStates: boolean[] = [];
+    private stateQueue: number[] = [];
+    private conflicts: LRConflict[];
+
+    constructor(analyzer: Analyzer, bindings: BindingTable, cancellationToken = CancellationToken.none) {
+        this.analyzer = analyzer;
+        this.bindings = bindings;
+        this.cancellationToken = cancellationToken;
+        this.nonterminalTable = new ConcreteNonterminalTable(bindings, ({ name, symbol, args }) => this.nonterminals.push({ name, symbol, args, rules: [] }) - 1);
+    }
+
+    /**
+     * Gets the number of states in the automaton.
+     */
+    public get stateCount(): number {
+        this.build();
+        return this.states.length;
+    }
+
+    /**
+     * Gets the shift/reduce and reduce/reduce conflicts in the automaton. Conflicts between the same pair of
+     * right-hand sides are combined, and include an example from the state that is reached by the shortest input.
+     */
+    public getConflicts(): LRConflict[] {
+        if (!this.conflicts) {
+            this.build();
+            this.conflicts = this.computeConflicts();
+        }
+
+        return this.conflicts;
+    }
+
+    private build() {
+        if (this.built) {
+            return;
+        }
+
+        this.built = true;
+        this.expandGrammar();
+        this.createRestrictions();
+        this.computeFirstSets();
+        this.computeShortestSentences();
+        this.createStates();
+    }
+
+    private expandGrammar() {
+        this.getTerminal(TerminalSymbol.endOfInput);
+        for (const symbol of this.analyzer.getStartSymbols()) {
+            if (!this.analyzer.isSyntactic(symbol)) {
+                continue;
+            }
+
+            // a parametric goal is parsed with every combination of its arguments.
+            for (const goal of this.nonterminalTable.getEveryNonterminal(symbol)) {
+                this.startRules.push(this.addRule(-1, [goal], [], undefined));
+            }
+        }
+
+        this.nonterminalTable.expandPendingNonterminals(index => this.expandNonterminal(index), this.cancellationToken);
+    }
+
+    private getTerminal(symbol: TerminalSymbol): number {
+        let id = Dictionary.get(this.terminalIds, symbol.text);
+        if (id === undefined) {
+            id = this.terminals.length;
+            this.terminals.push({ kind: symbol.kind, text: symbol.text });
+            Dictionary.set(this.terminalIds, symbol.text, id);
+        }
+
+        return id;
+    }
+
+    private expandNonterminal(index: number) {
+        for (const declaration of this.bindings.getDeclarations(this.nonterminals[index].symbol)) {
+            const body = declaration.kind === SyntaxKind.Production ? (<Production>declaration).body : undefined;
+            if (!body) {
+                continue;
+            }
+
+            switch (body.kind) {
+                case SyntaxKind.OneOfList:
+                    for (const terminal of (<OneOfList>body).terminals || []) {
+                        this.addRule(index, [~this.getTerminal(getTerminalSymbol(terminal))], [], <OneOfList>body);
+                    }
+
+                    break;
+
+                case SyntaxKind.RightHandSideList:
+                    for (const rhs of (<RightHandSideList>body).elements || []) {
+                        this.expandRightHandSide(index, rhs);
+                    }
+
+                    break;
+
+                case SyntaxKind.RightHandSide:
+                    this.expandRightHandSide(index, <RightHandSide>body);
+                    break;
+            }
+        }
+    }
+
+    private expandRightHandSide(index: number, node: RightHandSide) {
+        const args = this.nonterminals[index].args;
+        if (!isSatisfied(node, args)) {
+            return;
+        }
+
+        let alternatives: Alternative[] = [{ symbols: [], restrictions: [] }];
+        for (let span = node.head; span; span = span.next) {
+            const symbol = span.symbol;
+            if (!symbol) {
+                continue;
+            }
+
+            switch (symbol.kind) {
+                case SyntaxKind.LookaheadAssertion:
+                    const restriction = this.getRestriction(<LookaheadAssertion>symbol);
+                    if (restriction) {
+                        for (const alternative of alternatives) {
+                            const position = alternative.symbols.length;
+                            alternative.restrictions[position] = (alternative.restrictions[position] || []).concat([restriction]);
+                        }
+                    }
+
+                    break;
+
+                case SyntaxKind.ParameterValueAssertion:
+                case SyntaxKind.EmptyAssertion:
+                case SyntaxKind.LexicalGoalAssertion:
+                case SyntaxKind.NoSymbolHereAssertion:
+                case SyntaxKind.ProseAssertion:
+                case SyntaxKind.InvalidAssertion:
+                    break;
+
+                default:
+                    const choices = this.getChoices(symbol, args);
+                    const expanded: Alternative[] = [];
+                    for (const alternative of alternatives) {
+                        for (const choice of choices) {
+                            expanded.push({ symbols: alternative.symbols.concat(choice), restrictions: alternative.restrictions.slice() });
+                        }
+                    }
+
+                    alternatives = expanded;
+                    break;
+            }
+        }
+
+        for (const alternative of alternatives) {
+            this.addRule(index, alternative.symbols, alternative.restrictions, node);
+        }
+    }
+
+    private getChoices(node: LexicalSymbol, args: Dictionary<boolean>): number[][] {
+        if (!node) {
+            return [[]];
+        }
+
+        switch (node.kind) {
+            case SyntaxKind.Terminal:
+            case SyntaxKind.UnicodeCharacterLiteral:
+                const terminal = [~this.getTerminal(getTerminalSymbol(node))];
+                return (<OptionalSymbol>node).questionToken ? [terminal, []] : [terminal];
+
+            case SyntaxKind.UnicodeCharacterRange:
+            case SyntaxKind.Prose:
+            case SyntaxKind.AtToken:
+                return [[~this.getTerminal(getTerminalSymbol(node))]];
+
+            case SyntaxKind.Nonterminal:
+                const nonterminal = [this.getSymbolOfNonterminal(<Nonterminal>node, args)];
+                return (<Nonterminal>node).questionToken ? [nonterminal, []] : [nonterminal];
+
+            case SyntaxKind.OneOfSymbol:
+                const choices: number[][] = [];
+                for (const symbol of (<OneOfSymbol>node).symbols || []) {
+                    choices.push(...this.getChoices(symbol, args));
+                }
+
+                return choices;
+
+            case SyntaxKind.ButNotSymbol:
+                // exclusions cannot be expressed in the automaton.
+                return this.getChoices((<ButNotSymbol>node).left, args);
+        }
+
+        return [[]];
+    }
+
+    private getSymbolOfNonterminal(node: Nonterminal, args: Dictionary<boolean>): number {
+        const target = this.analyzer.getProductionSymbol(node);
+        if (!target || !this.analyzer.isSyntactic(target)) {
+            // a lexical production referenced from a syntactic production is a single token.
+            return ~this.getTerminal({ kind: TerminalSymbolKind.Token, text: target ? target.name : node.name.text });
+        }
+
+        return this.nonterminalTable.getNonterminal(target, getArguments(node, args));
+    }
+
+    private getRestriction(node: LookaheadAssertion): Restriction {
+        const spans = !node.lookahead ? []
+            : node.lookahead.kind === SyntaxKind.SymbolSet ? (<SymbolSet>node.lookahead).elements || []
+            : [<SymbolSpan>node.lookahead];
+
+        switch (node.operatorToken && node.operatorToken.kind) {
+            case SyntaxKind.EqualsEqualsToken:
+            case SyntaxKind.LessThanMinusToken:
+                const allowed: number[] = [];
+                for (const span of spans) {
+                    const terminal = this.getLookaheadTerminal(span.symbol);
+                    if (terminal === undefined) {
+                        return undefined;
+                    }
+
+                    allowed.push(terminal);
+                }
+
+                return { excluded: [], allowed };
+
+            case SyntaxKind.ExclamationEqualsToken:
+            case SyntaxKind.LessThanExclamationToken:
+                // only lookahead sequences of a single token exclude a terminal.
+                const excluded: number[] = [];
+                for (const span of spans) {
+                    const terminal = span.next ? undefined : this.getLookaheadTerminal(span.symbol);
+                    if (terminal !== undefined) {
+                        excluded.push(terminal);
+                    }
+                }
+
+                return excluded.length > 0 ? { excluded, allowed: undefined } : undefined;
+        }
+
+        return undefined;
+    }
+
+    private getLookaheadTerminal(node: LexicalSymbol): number {
+        if (!node) {
+            return undefined;
+        }
+
+        switch (node.kind) {
+            case SyntaxKind.Terminal:
+            case SyntaxKind.UnicodeCharacterLiteral:
+            case SyntaxKind.UnicodeCharacterRange:
+            case SyntaxKind.Prose:
+                return this.getTerminal(getTerminalSymbol(node));
+
+            case SyntaxKind.Nonterminal:
+                const target = this.analyzer.getProductionSymbol(<Nonterminal>node);
+                if (!target || !this.analyzer.isSyntactic(target)) {
+                    return this.getTerminal({ kind: TerminalSymbolKind.Token, text: target ? target.name : (<Nonterminal>node).name.text });
+                }
+
+                break;
+        }
+
+        return undefined;
+    }
+
+    private addRule(lhs: number, symbols: number[], restrictions: Restriction[][], node: RightHandSide | OneOfList): number {
+        const index = this.rules.length;
+        this.rules.push({ lhs, symbols, restrictions: undefined, node });
+        this.rawRestrictions.push(restrictions);
+        if (lhs >= 0) {
+            this.nonterminals[lhs].rules.push(index);
+        }
+
+        return index;
+    }
+
+    private createRestrictions() {
+        this.restrictionMasks.push({ excluded: undefined, allowed: undefined });
+        for (let i = 0; i < this.rules.length; i++) {
+            const rule = this.rules[i];
+            const raw = this.rawRestrictions[i];
+            rule.restrictions = [];
+            for (let position = 0; position <= rule.symbols.length; position++) {
+                let restriction = 0;
+                for (const { excluded, allowed } of raw[position] || []) {
+                    restriction = this.combineRestrictions(restriction, this.getRestrictionId(excluded, allowed));
+                }
+
+                rule.restrictions.push(restriction);
+            }
+        }
+
+        this.rawRestrictions = undefined;
+    }
+
+    private getRestrictionId(excluded: number[], allowed: number[]): number {
+        const excludedMask = createBitSet(this.terminals.length);
+        for (const terminal of excluded) {
+            bitSetAdd(excludedMask, terminal);
+        }
+
+        let allowedMask: number[];
+        if (allowed) {
+            allowedMask = createBitSet(this.terminals.length);
+            for (const terminal of allowed) {
+                bitSetAdd(allowedMask, terminal);
+            }
+        }
+
+        const key = excludedMask.join(",") + "|" + (allowedMask ? allowedMask.join(",") : "*");
+        let id = Dictionary.get(this.restrictionIds, key);
+        if (id === undefined) {
+            id = this.restrictionMasks.length;
+            this.restrictionMasks.push({ excluded: excludedMask, allowed: allowedMask });
+            Dictionary.set(this.restrictionIds, key, id);
+        }
+
+        return id;
+    }
+
+    private combineRestrictions(left: number, right: number): number {
+        if (left === 0 || left === right) {
+            return right;
+        }
+
+        if (right === 0) {
+            return left;
+        }
+
+        const leftMask = this.restrictionMasks[left];
+        const rightMask = this.restrictionMasks[right];
+        const excluded = bitSetToArray(leftMask.excluded).concat(bitSetToArray(rightMask.excluded));
+        const allowed = !leftMask.allowed ? rightMask.allowed && bitSetToArray(rightMask.allowed)
+            : !rightMask.allowed ? bitSetToArray(leftMask.allowed)
+            : bitSetToArray(leftMask.allowed).filter(terminal => bitSetHas(rightMask.allowed, terminal));
+        return this.getRestrictionId(excluded, allowed);
+    }
+
+    private isAllowed(restriction: number, terminal: number) {
+        if (restriction === 0) {
+            return true;
+        }
+
+        const mask = this.restrictionMasks[restriction];
+        return !bitSetHas(mask.excluded, terminal)
+            && (!mask.allowed || bitSetHas(mask.allowed, terminal));
+    }
+
+    private addAllowed(target: number[], source: number[], restriction: number): boolean {
+        if (restriction === 0) {
+            return bitSetUnion(target, source);
+        }
+
+        const mask = this.restrictionMasks[restriction];
+        let changed = false;
+        for (let i = 0; i < source.length; i++) {
+            let word = source[i] & ~mask.excluded[i];
+            if (mask.allowed) {
+                word &= mask.allowed[i];
+            }
+
+            if ((target[i] | word) !== target[i]) {
+                target[i] |= word;
+                changed = true;
+            }
+        }
+
+        return changed;
+    }
+
+    private computeFirstSets() {
+        this.nullable = this.nonterminals.map(() => false);
+        let changed = true;
+        while (changed) {
+            this.cancellationToken.throwIfCancellationRequested();
+            changed = false;
+            for (const rule of this.rules) {
+                if (rule.lhs >= 0 && !this.nullable[rule.lhs] && rule.symbols.every(symbol => symbol >= 0 && this.nullable[symbol])) {
+                    this.nullable[rule.lhs] = true;
+                    changed = true;
+                }
+            }
+        }
+
+        this.firstSets = this.nonterminals.map(() => createBitSet(this.terminals.length));
+        changed = true;
+        while (changed) {
+            this.cancellationToken.throwIfCancellationRequested();
+            changed = false;
+            for (const rule of this.rules) {
+                if (rule.lhs >= 0 && bitSetUnion(this.firstSets[rule.lhs], this.computeSuffixes(rule)[0].first)) {
+                    changed = true;
+                }
+            }
+        }
+
+        this.suffixes = this.rules.map(rule => this.computeSuffixes(rule));
+    }
+
+    private computeSuffixes(rule: Rule): Suffix[] {
+        const suffixes: Suffix[] = [];
+        const length = rule.symbols.length;
+        suffixes[length] = { first: createBitSet(this.terminals.length), nullable: true, restriction: rule.restrictions[length] };
+        for (let position = length - 1; position >= 0; position--) {
+            const symbol = rule.symbols[position];
+            const next = suffixes[position + 1];
+            const first = createBitSet(this.terminals.length);
+            let nullable = false;
+            if (symbol < 0) {
+                bitSetAdd(first, ~symbol);
+            }
+            else {
+                bitSetUnion(first, this.firstSets[symbol]);
+                if (this.nullable[symbol]) {
+                    bitSetUnion(first, next.first);
+                    nullable = next.nullable;
+                }
+            }
+
+            const restriction = rule.restrictions[position];
+            const filtered = createBitSet(this.terminals.length);
+            this.addAllowed(filtered, first, restriction);
+            suffixes[position] = {
+                first: filtered,
+                nullable,
+                restriction: nullable ? this.combineRestrictions(restriction, next.restriction) : 0
+            };
+        }
+
+        return suffixes;
+    }
+
+    private computeShortestSentences() {
+        this.shortestSentences = [];
+        let changed = true;
+        while (changed) {
+            this.cancellationToken.throwIfCancellationRequested();
+            changed = false;
+            for (const rule of this.rules) {
+                if (rule.lhs < 0) {
+                    continue;
+                }
+
+                let sentence: number[] = [];
+                for (const symbol of rule.symbols) {
+                    const part = symbol < 0 ? [~symbol] : this.shortestSentences[symbol];
+                    if (!part) {
+                        sentence = undefined;
+                        break;
+                    }
+
+                    sentence = sentence.concat(part);
+                }
+
+                const existing = this.shortestSentences[rule.lhs];
+                if (sentence && (!existing || sentence.length < existing.length)) {
+                    this.shortestSentences[rule.lhs] = sentence;
+                    changed = true;
+                }
+            }
+        }
+    }
+
+    private getItem(rule: number, dot: number, restriction: number): number {
+        const key = `${rule},${dot},${restriction}`;
+        let id = Dictionary.get(this.itemIds, key);
+        if (id === undefined) {
+            id = this.items.length;
+            this.items.push({ rule, dot, restriction });
+            Dictionary.set(this.itemIds, key, id);
+        }
+
+        return id;
+    }
+
+    private createStates() {
+        // states with the same kernel are merged, and revisited until their lookaheads no longer change.
+        for (const rule of this.startRules) {
+            const lookahead = createBitSet(this.terminals.length);
+            bitSetAdd(lookahead, 0);
+            this.getState([this.getItem(rule, 0, 0)], [lookahead]);
+        }
+
+        while (this.stateQueue.length > 0) {
+            this.cancellationToken.throwIfCancellationRequested();
+            const index = this.stateQueue.shift();
+            this.queuedStates[index] = false;
+            this.computeTransitions(index);
+        }
+    }
+
+    private getState(kernel: number[], lookaheads: number[][]): number {
+        const key = kernel.join(",");
+        let index = Dictionary.get(this.stateIds, key);
+        if (index === undefined) {
+            index = this.states.length;
+            this.states.push({ kernel, lookaheads, transitionSymbols: [], transitionTargets: [] });
+            Dictionary.set(this.stateIds, key, index);
+            this.enqueueState(index);
+            return index;
+        }
+
+        const state = this.states[index];
+        let changed = false;
+        for (let i = 0; i < kernel.length; i++) {
+            if (bitSetUnion(state.lookaheads[i], lookaheads[i])) {
+                changed = true;
+            }
+        }
+
+        if (changed) {
+            this.enqueueState(index);
+        }
+
+        return index;
+    }
+
+    private enqueueState(index: number) {
+        if (!this.queuedStates[index]) {
+            this.queuedStates[index] = true;
+            this.stateQueue.push(index);
+        }
+    }
+
+    private getEffectiveRestriction(item: Item) {
+        return this.combineRestrictions(item.restriction, this.rules[item.rule].restrictions[item.dot]);
+    }
+
+    private getClosure(state: State): Closure {
+        const items = state.kernel.slice();
+        const lookaheads = state.lookaheads.map(lookahead => lookahead.slice());
+        const positions = new Dictionary<number>();
+        for (let i = 0; i < items.length; i++) {
+            Dictionary.set(positions, items[i], i);
+        }
+
+        const worklist = items.map((_, i) => i);
+        while (worklist.length > 0) {
+            const position = worklist.pop();
+            const item = this.items[items[position]];
+            const rule = this.rules[item.rule];
+            const symbol = rule.symbols[item.dot];
+            if (symbol === undefined || symbol < 0) {
+                continue;
+            }
+
+            const restriction = this.getEffectiveRestriction(item);
+            const suffix = this.suffixes[item.rule][item.dot + 1];
+            const lookahead = suffix.first.slice();
+            if (suffix.nullable) {
+                this.addAllowed(lookahead, lookaheads[position], suffix.restriction);
+            }
+
+            for (const predicted of this.nonterminals[symbol].rules) {
+                const id = this.getItem(predicted, 0, restriction);
+                const existing = Dictionary.get(positions, id);
+                if (existing === undefined) {
+                    Dictionary.set(positions, id, items.length);
+                    worklist.push(items.length);
+                    items.push(id);
+                    lookaheads.push(lookahead.slice());
+                }
+                else if (bitSetUnion(lookaheads[existing], lookahead)) {
+                    worklist.push(existing);
+                }
+            }
+        }
+
+        return { items, lookaheads };
+    }
+
+    private computeTransitions(index: number) {
+        const state = this.states[index];
+        const closure = this.getClosure(state);
+        const symbols: number[] = [];
+        const kernels: number[][] = [];
+        const kernelLookaheads: number[][][] = [];
+        for (let i = 0; i < closure.items.length; i++) {
+            const item = this.items[closure.items[i]];
+            const rule = this.rules[item.rule];
+            const symbol = rule.symbols[item.dot];
+            if (symbol === undefined || (symbol < 0 && !this.isAllowed(this.getEffectiveRestriction(item), ~symbol))) {
+                continue;
+            }
+
+            let group = symbols.indexOf(symbol);
+            if (group === -1) {
+                group = symbols.length;
+                symbols.push(symbol);
+                kernels.push([]);
+                kernelLookaheads.push([]);
+            }
+
+            const target = this.getItem(item.rule, item.dot + 1, 0);
+            const existing = kernels[group].indexOf(target);
+            if (existing === -1) {
+                kernels[group].push(target);
+                kernelLookaheads[group].push(closure.lookaheads[i].slice());
+            }
+            else {
+                bitSetUnion(kernelLookaheads[group][existing], closure.lookaheads[i]);
+            }
+        }
+
+        state.transitionSymbols = symbols;
+        state.transitionTargets = [];
+        for (let group = 0; group < symbols.length; group++) {
+            const order = kernels[group].map((_, i) => i).sort((a, b) => kernels[group][a] - kernels[group][b]);
+            state.transitionTargets.push(this.getState(order.map(i => kernels[group][i]), order.map(i => kernelLookaheads[group][i])));
+        }
+    }
+
+    private computeConflicts(): LRConflict[] {
+        const distances = this.computeShortestPaths();
+        const conflicts: LRConflict[] = [];
+        const conflictsByKey = new Dictionary<LRConflict>();
+        const order = this.states.map((_, i) => i).sort((a, b) => distances.distances[a] - distances.distances[b] || a - b);
+        for (const index of order) {
+            this.cancellationToken.throwIfCancellationRequested();
+            const closure = this.getClosure(this.states[index]);
+            const shifts: number[] = [];
+            const reduces: number[][] = [];
+            for (let i = 0; i < closure.items.length; i++) {
+                const item = this.items[closure.items[i]];
+                const rule = this.rules[item.rule];
+                const restriction = this.getEffectiveRestriction(item);
+                if (item.dot < rule.symbols.length) {
+                    const symbol = rule.symbols[item.dot];
+                    if (symbol < 0 && shifts[~symbol] === undefined && this.isAllowed(restriction, ~symbol)) {
+                        shifts[~symbol] = item.rule;
+                    }
+                }
+                else if (rule.lhs >= 0) {
+                    for (const terminal of bitSetToArray(closure.lookaheads[i])) {
+                        if (this.isAllowed(restriction, terminal)) {
+                            const rules = reduces[terminal] || (reduces[terminal] = []);
+                            if (rules.indexOf(item.rule) === -1) {
+                                rules.push(item.rule);
+                            }
+                        }
+                    }
+                }
+            }
+
+            for (let terminal = 0; terminal < this.terminals.length; terminal++) {
+                const rules = reduces[terminal];
+                if (!rules) {
+                    continue;
+                }
+
+                rules.sort((a, b) => a - b);
+                if (shifts[terminal] !== undefined) {
+                    for (const rule of rules) {
+                        this.addConflict(LRConflictKind.ShiftReduce, rule, shifts[terminal], terminal, index, distances.previous, conflicts, conflictsByKey);
+                    }
+                }
+
+                for (let i = 0; i < rules.length; i++) {
+                    for (let j = i + 1; j < rules.length; j++) {
+                        this.addConflict(LRConflictKind.ReduceReduce, rules[i], rules[j], terminal, index, distances.previous, conflicts, conflictsByKey);
+                    }
+                }
+            }
+        }
+
+        return conflicts;
+    }
+
+    private addConflict(kind: LRConflictKind, reduced: number, other: number, terminal: number, state: number, previous: { state: number, symbol: number }[], conflicts: LRConflict[], conflictsByKey: Dictionary<LRConflict>) {
+        const rule = this.rules[reduced];
+        const otherRule = this.rules[other];
+        const key = `${kind}:${rule.node.id}:${otherRule.node.id}`;
+        const existing = Dictionary.get(conflictsByKey, key);
+        if (existing) {
+            const symbol = this.terminals[terminal];
+            if (existing.terminals.indexOf(symbol) === -1) {
+                existing.terminals.push(symbol);
+            }
+
+            return;
+        }
+
+        const conflict: LRConflict = {
+            kind,
+            production: this.nonterminals[rule.lhs].name,
+            node: rule.node,
+            otherProduction: this.nonterminals[otherRule.lhs].name,
+            otherNode: otherRule.node,
+            terminals: [this.terminals[terminal]],
+            example: this.getExample(state, previous).concat([this.terminals[terminal]])
+        };
+
+        Dictionary.set(conflictsByKey, key, conflict);
+        conflicts.push(conflict);
+    }
+
+    private computeShortestPaths() {
+        // each transition is weighted by the length of the shortest input for its symbol.
+        const distances = this.states.map(() => Infinity);
+        const previous: { state: number, symbol: number }[] = [];
+        const buckets: number[][] = [[]];
+        for (let index = 0; index < this.startRules.length; index++) {
+            distances[index] = 0;
+            buckets[0].push(index);
+        }
+
+        for (let distance = 0; distance < buckets.length; distance++) {
+            const bucket = buckets[distance] || [];
+            for (let i = 0; i < bucket.length; i++) {
+                const index = bucket[i];
+                if (distances[index] !== distance) {
+                    continue;
+                }
+
+                const state = this.states[index];
+                for (let j = 0; j < state.transitionSymbols.length; j++) {
+                    const symbol = state.transitionSymbols[j];
+                    const sentence = symbol < 0 ? [~symbol] : this.shortestSentences[symbol];
+                    if (!sentence) {
+                        continue;
+                    }
+
+                    const target = state.transitionTargets[j];
+                    const targetDistance = distance + sentence.length;
+                    if (targetDistance < distances[target]) {
+                        distances[target] = targetDistance;
+                        previous[target] = { state: index, symbol };
+                        (buckets[targetDistance] || (buckets[targetDistance] = [])).push(target);
+                    }
+                }
+            }
+        }
+
+        return { distances, previous };
+    }
+
+    private getExample(state: number, previous: { state: number, symbol: number }[]): TerminalSymbol[] {
+        const symbols: number[] = [];
+        for (let step = previous[state]; step; step = previous[step.state]) {
+            symbols.unshift(step.symbol);
+        }
+
+        const example: TerminalSymbol[] = [];
+        for (const symbol of symbols) {
+            for (const terminal of symbol < 0 ? [~symbol] : this.shortestSentences[symbol]) {
+                example.push(this.terminals[terminal]);
+            }
+        }
+
+        return example;
+    }
+}
+
+function createBitSet(size: number): number[] {
+    const words: number[] = [];
+    for (let i = 0; i < size; i += 32) {
+        words.push(0);
+    }
+
+    return words;
+}
+
+function bitSetHas(set: number[], index: number) {
+    return (set[index >> 5] & (1 << (index & 31))) !== 0;
+}
+
+function bitSetAdd(set: number[], index: number) {
+    set[index >> 5] |= 1 << (index & 31);
+}
+
+function bitSetUnion(target: number[], source: number[]): boolean {
+    let changed = false;
+    for (let i = 0; i < source.length; i++) {
+        if ((target[i] | source[i]) !== target[i]) {
+            target[i] |= source[i];
+            changed = true;
+        }
+    }
+
+    return changed;
+}
+
+function bitSetToArray(set: number[]): number[] {
+    const indices: number[] = [];
+    for (let i = 0; i < set.length; i++) {
+        const word = set[i];
+        if (word !== 0) {
+            for (let bit = 0; bit < 32; bit++) {
+                if (word & (1 << bit)) {
+                    indices.push((i << 5) | bit);
+                }
+            }
+        }
+    }
+
+    return indices;
+}
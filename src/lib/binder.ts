@@ -21,6 +21,7 @@ import { SourceFile, Production, Parameter, Node, forEachChild } from "./nodes";
 
 export class BindingTable {
     public globals: SymbolTable = new SymbolTable();
+    public sourceFiles: SourceFile[] = [];
 
     private parentNodes: Node[];
     private nodes: Node[];
@@ -211,6 +212,7 @@ export class Binder {
         }
 
         const symbol = this.declareSymbol(file.filename, file, SymbolKind.SourceFile);
+        this.bindings.sourceFiles.push(file);
         this.bindChildren(file, symbol, this.scope);
     }
 
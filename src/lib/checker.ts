@@ -20,6 +20,8 @@ import { Diagnostics, DiagnosticMessages, Diagnostic, formatList } from "./diagn
 import { SyntaxKind, tokenToString } from "./tokens";
 import { Symbol, SymbolKind, SymbolTable } from "./symbols";
 import { Binder, BindingTable } from "./binder";
+import { Analyzer, formatTerminalSymbol } from "./analyzer";
+import { LRAutomaton, LRConflictKind } from "./automaton";
 import { StringWriter } from "./stringwriter";
 import { CompilerOptions } from "./options";
 import {
@@ -60,6 +62,8 @@ import {
     forEachChild
 } from "./nodes";
 import { NodeNavigator } from "./navigator";
+import { TextChange } from "./parser";
+import { formatIdentifier } from "./scanner";
 
 
 // TODO: Check a Nonterminal as a call
@@ -67,19 +71,34 @@ import { NodeNavigator } from "./navigator";
 
 export class Checker {
     private checkedFileSet = new Dictionary<boolean>();
+    private checkedGrammar = false;
     private bindings: BindingTable;
     private diagnostics: DiagnosticMessages;
     private binder: Binder;
     private innerResolver: Resolver;
+    private innerAnalyzer: Analyzer;
+    private innerAutomaton: LRAutomaton;
     private sourceFile: SourceFile;
     private noStrictParametricProductions: boolean;
     private productionParametersByName: Dictionary<Dictionary<boolean>>;
+    private options: CompilerOptions;
+    private goals: string[];
+    private checkReachability: boolean;
+    private checkLeftRecursion: boolean;
+    private checkLL1: boolean;
+    private checkLALR1: boolean;
     private cancellationToken: CancellationToken;
 
     constructor(bindings: BindingTable, diagnostics: DiagnosticMessages, options?: CompilerOptions, cancellationToken = CancellationToken.none) {
         this.bindings = bindings;
         this.diagnostics = diagnostics;
         this.noStrictParametricProductions = options && options.noStrictParametricProductions || false;
+        this.options = options;
+        this.goals = options && options.goals;
+        this.checkReachability = options && options.checkReachability || false;
+        this.checkLeftRecursion = options && options.checkLeftRecursion || false;
+        this.checkLL1 = options && options.checkLL1 || false;
+        this.checkLALR1 = options && options.checkLALR1 || false;
         this.cancellationToken = cancellationToken;
     }
 
@@ -91,6 +110,22 @@ export class Checker {
         return this.innerResolver;
     }
 
+    public get analyzer(): Analyzer {
+        if (!this.innerAnalyzer) {
+            this.innerAnalyzer = this.createAnalyzer(this.bindings);
+        }
+
+        return this.innerAnalyzer;
+    }
+
+    public get automaton(): LRAutomaton {
+        if (!this.innerAutomaton) {
+            this.innerAutomaton = this.createAutomaton(this.analyzer, this.bindings);
+        }
+
+        return this.innerAutomaton;
+    }
+
     public checkSourceFile(sourceFile: SourceFile): void {
         if (!Dictionary.has(this.checkedFileSet, sourceFile.filename)) {
             const savedNoStrictParametricProductions = this.noStrictParametricProductions;
@@ -114,10 +149,41 @@ export class Checker {
         }
     }
 
+    public checkGrammar(sourceFiles: SourceFile[]): void {
+        if (!this.checkedGrammar) {
+            this.cancellationToken.throwIfCancellationRequested();
+            if (this.checkReachability && this.goals && this.goals.length > 0 && sourceFiles.length > 0) {
+                this.checkReachableProductions(sourceFiles);
+            }
+
+            if (this.checkLeftRecursion) {
+                this.checkLeftRecursiveProductions(sourceFiles);
+            }
+
+            if (this.checkLL1) {
+                this.checkLL1Conflicts(sourceFiles);
+            }
+
+            if (this.checkLALR1) {
+                this.checkLRConflicts(sourceFiles);
+            }
+
+            this.checkedGrammar = true;
+        }
+    }
+
     protected createResolver(bindings: BindingTable): Resolver {
         return new Resolver(bindings);
     }
 
+    protected createAnalyzer(bindings: BindingTable): Analyzer {
+        return new Analyzer(bindings, this.options, this.cancellationToken);
+    }
+
+    protected createAutomaton(analyzer: Analyzer, bindings: BindingTable): LRAutomaton {
+        return new LRAutomaton(analyzer, bindings, this.cancellationToken);
+    }
+
     private preprocessSourceElement(node: SourceElement): void {
         switch (node.kind) {
             case SyntaxKind.Define:
@@ -135,6 +201,22 @@ export class Checker {
                     this.noStrictParametricProductions = node.valueToken.kind === SyntaxKind.TrueKeyword;
                     break;
 
+                case "checkReachability":
+                    this.checkReachability = node.valueToken.kind === SyntaxKind.TrueKeyword;
+                    break;
+
+                case "checkLeftRecursion":
+                    this.checkLeftRecursion = node.valueToken.kind === SyntaxKind.TrueKeyword;
+                    break;
+
+                case "checkLL1":
+                    this.checkLL1 = node.valueToken.kind === SyntaxKind.TrueKeyword;
+                    break;
+
+                case "checkLALR1":
+                    this.checkLALR1 = node.valueToken.kind === SyntaxKind.TrueKeyword;
+                    break;
+
                 default:
                     this.diagnostics.reportNode(nodeKey, Diagnostics.Cannot_find_name_0_, nodeKeyText);
                     break;
@@ -1109,6 +1191,10 @@ export class Checker {
                         symbol = this.resolveSymbol(node, node.text, SymbolKind.Production, Diagnostics.Cannot_find_name_0_);
                         break;
 
+                    case SyntaxKind.ParameterValueAssertion:
+                        symbol = this.resolveSymbol(node, node.text, SymbolKind.Parameter);
+                        break;
+
                     case SyntaxKind.Argument:
                         const argument = <Argument>parent;
                         if (argument.operatorToken && argument.operatorToken.kind === SyntaxKind.QuestionToken) {
@@ -1167,6 +1253,124 @@ export class Checker {
         return result;
     }
 
+    private checkReachableProductions(sourceFiles: SourceFile[]): void {
+        const reachable = new Dictionary<boolean>();
+        const worklist: Symbol[] = [];
+        const markReachable = (location: Node, name: string) => {
+            const symbol = this.bindings.resolveSymbol(location, name, SymbolKind.Production);
+            if (symbol && !Dictionary.has(reachable, symbol.id)) {
+                Dictionary.set(reachable, symbol.id, true);
+                worklist.push(symbol);
+            }
+
+            return symbol;
+        };
+
+        this.diagnostics.setSourceFile(sourceFiles[0]);
+        for (const goal of this.goals) {
+            if (!markReachable(sourceFiles[0], goal)) {
+                this.diagnostics.report(0, Diagnostics.Cannot_find_name_0_, goal);
+            }
+        }
+
+        const visit = (node: Node): void => {
+            switch (node.kind) {
+                case SyntaxKind.Nonterminal:
+                    const nonterminal = <Nonterminal>node;
+                    if (nonterminal.name && nonterminal.name.text) {
+                        markReachable(nonterminal, nonterminal.name.text);
+                    }
+
+                    break;
+
+                case SyntaxKind.LexicalGoalAssertion:
+                    const assertion = <LexicalGoalAssertion>node;
+                    if (assertion.symbol && assertion.symbol.text) {
+                        markReachable(assertion, assertion.symbol.text);
+                    }
+
+                    break;
+            }
+
+            forEachChild(node, visit);
+        };
+
+        while (worklist.length > 0) {
+            this.cancellationToken.throwIfCancellationRequested();
+            const symbol = worklist.pop();
+            for (const declaration of this.bindings.getDeclarations(symbol)) {
+                if (declaration.kind === SyntaxKind.Production) {
+                    visit(declaration);
+                }
+            }
+        }
+
+        for (const sourceFile of sourceFiles) {
+            this.diagnostics.setSourceFile(sourceFile);
+            for (const element of sourceFile.elements) {
+                if (element.kind === SyntaxKind.Production) {
+                    const production = <Production>element;
+                    const symbol = this.bindings.getSymbol(production);
+                    if (symbol && !Dictionary.has(reachable, symbol.id)) {
+                        this.diagnostics.reportNode(production.name, Diagnostics.Production_0_is_unreachable_from_any_goal_symbol, symbol.name);
+                    }
+                }
+            }
+        }
+    }
+
+    private checkLeftRecursiveProductions(sourceFiles: SourceFile[]): void {
+        const cycles = this.analyzer.getLeftRecursiveCycles();
+        for (const sourceFile of sourceFiles) {
+            this.diagnostics.setSourceFile(sourceFile);
+            for (const cycle of cycles) {
+                if (this.bindings.getAncestor(cycle.reference, SyntaxKind.SourceFile) === sourceFile) {
+                    const path = cycle.path.map(symbol => symbol.name).join(" -> ");
+                    this.diagnostics.reportNode(cycle.reference, Diagnostics.Production_0_is_left_recursive_Colon_1, cycle.path[0].name, path);
+                }
+            }
+        }
+    }
+
+    private checkLL1Conflicts(sourceFiles: SourceFile[]): void {
+        const conflicts = this.analyzer.getLL1Conflicts();
+        for (const sourceFile of sourceFiles) {
+            this.diagnostics.setSourceFile(sourceFile);
+            for (const conflict of conflicts) {
+                if (this.bindings.getAncestor(conflict.second, SyntaxKind.SourceFile) === sourceFile) {
+                    const terminals = conflict.terminals.map(formatTerminalSymbol).join(", ");
+                    this.diagnostics.reportNode(conflict.second, Diagnostics.Production_0_has_an_LL_1_conflict_between_1_and_2_on_3,
+                        conflict.production.name, getSourceTextOfNode(sourceFile, conflict.first), getSourceTextOfNode(sourceFile, conflict.second), terminals);
+                }
+            }
+        }
+    }
+
+    private checkLRConflicts(sourceFiles: SourceFile[]): void {
+        const conflicts = this.automaton.getConflicts();
+        for (const sourceFile of sourceFiles) {
+            this.diagnostics.setSourceFile(sourceFile);
+            for (const conflict of conflicts) {
+                const terminals = conflict.terminals.map(formatTerminalSymbol).join(", ");
+                const example = conflict.example.map(formatTerminalSymbol).join(" ");
+                if (conflict.kind === LRConflictKind.ShiftReduce) {
+                    if (this.bindings.getAncestor(conflict.node, SyntaxKind.SourceFile) === sourceFile) {
+                        this.diagnostics.reportNode(conflict.node, Diagnostics.Production_0_has_a_shift_reduce_conflict_with_1_on_2_as_in_3, conflict.production, conflict.otherProduction, terminals, example);
+                    }
+                }
+                else {
+                    if (this.bindings.getAncestor(conflict.node, SyntaxKind.SourceFile) === sourceFile) {
+                        this.diagnostics.reportNode(conflict.node, Diagnostics.Production_0_has_a_reduce_reduce_conflict_with_1_on_2_as_in_3, conflict.production, conflict.otherProduction, terminals, example);
+                    }
+
+                    if (this.bindings.getAncestor(conflict.otherNode, SyntaxKind.SourceFile) === sourceFile) {
+                        this.diagnostics.reportNode(conflict.otherNode, Diagnostics.Production_0_has_a_reduce_reduce_conflict_with_1_on_2_as_in_3, conflict.otherProduction, conflict.production, terminals, example);
+                    }
+                }
+            }
+        }
+    }
+
     private reportGrammarError(pos: number, diagnosticMessage: Diagnostic, arg0?: any, arg1?: any, arg2?: any) {
         this.diagnostics.report(pos, diagnosticMessage, arg0, arg1, arg2);
         return true;
@@ -1178,6 +1382,12 @@ export class Checker {
     }
 }
 
+export interface FileTextChanges {
+    file: string;
+    /** The changes to the file, ordered from the end of the file to its start so that each can be applied in turn. */
+    changes: TextChange[];
+}
+
 export class Resolver {
     private bindings: BindingTable;
 
@@ -1226,9 +1436,10 @@ export class Resolver {
     }
 
     public getReferences(node: Identifier) {
-        const symbol = this.bindings.getParent(node).kind === SyntaxKind.Parameter
-            ? this.bindings.resolveSymbol(node, node.text, SymbolKind.Parameter)
-            : this.bindings.resolveSymbol(node, node.text, SymbolKind.Production);
+        let symbol = this.bindings.getSymbol(node);
+        if (!symbol) {
+            symbol = this.bindings.resolveSymbol(node, node.text, getSymbolMeaning(this.bindings.getParent(node)));
+        }
 
         if (symbol) {
             return this.bindings.getReferences(symbol);
@@ -1237,6 +1448,57 @@ export class Resolver {
         return [];
     }
 
+    /**
+     * Gets the changes that rename the production or parameter of an identifier, along with every reference to it in
+     * each source file. The grammar must be checked first.
+     *
+     * An argument such as `[?Yield]` passes a parameter to the parameter of the same name in another production, so
+     * renaming a parameter also renames the parameters that are passed to or from it in this way.
+     */
+    public getRenameChanges(node: Identifier, newName: string): FileTextChanges[] {
+        if (!newName) {
+            throw new Error("The new name cannot be empty.");
+        }
+
+        let symbol = this.bindings.getSymbol(node);
+        if (!symbol) {
+            symbol = this.bindings.resolveSymbol(node, node.text, getSymbolMeaning(this.bindings.getParent(node)));
+        }
+
+        if (!symbol || (symbol.kind !== SymbolKind.Production && symbol.kind !== SymbolKind.Parameter)) {
+            return [];
+        }
+
+        const symbols = symbol.kind === SymbolKind.Parameter ? this.getLinkedParameters(symbol) : [symbol];
+        const text = formatIdentifier(newName);
+        const references: Node[] = [];
+        for (const symbol of symbols) {
+            for (const reference of this.bindings.getReferences(symbol)) {
+                if (references.indexOf(reference) === -1) {
+                    references.push(reference);
+                }
+            }
+        }
+
+        references.sort((a, b) => b.pos - a.pos);
+        const files: FileTextChanges[] = [];
+        for (const sourceFile of this.bindings.sourceFiles) {
+            const changes: TextChange[] = [];
+            for (const reference of references) {
+                if (this.getSourceFileOfNode(reference) === sourceFile) {
+                    const range = { start: sourceFile.lineMap.positionAt(reference.pos), end: sourceFile.lineMap.positionAt(reference.end) };
+                    changes.push(TextChange.create(text, range));
+                }
+            }
+
+            if (changes.length > 0) {
+                files.push({ file: sourceFile.filename, changes });
+            }
+        }
+
+        return files;
+    }
+
     public getProductionLinkId(node: Identifier): string {
         const symbol = this.bindings.resolveSymbol(node, node.text, SymbolKind.Production);
         if (symbol) {
@@ -1264,15 +1526,69 @@ export class Resolver {
 
         return linkId;
     }
+
+    private getLinkedParameters(parameter: Symbol): Symbol[] {
+        const parameters = [parameter];
+        for (let i = 0; i < parameters.length; i++) {
+            const symbol = parameters[i];
+
+            // parameters this parameter is passed to, e.g. `Expression[?Yield]` in the production that declares it.
+            for (const reference of this.bindings.getReferences(symbol)) {
+                const argument = this.bindings.getParent(reference);
+                if (argument && argument.kind === SyntaxKind.Argument && isPassThroughArgument(<Argument>argument)) {
+                    const nonterminal = <Nonterminal>this.bindings.getAncestor(argument, SyntaxKind.Nonterminal);
+                    const production = nonterminal && this.bindings.getSymbol(nonterminal.name);
+                    const declaration = production && this.bindings.getDeclarations(production)[0];
+                    addLinkedParameter(declaration && this.bindings.resolveSymbol(declaration, symbol.name, SymbolKind.Parameter));
+                }
+            }
+
+            // parameters that are passed to this parameter from a nonterminal that references its production.
+            for (const reference of this.bindings.getReferences(symbol.parent)) {
+                const nonterminal = this.bindings.getParent(reference);
+                if (nonterminal && nonterminal.kind === SyntaxKind.Nonterminal && (<Nonterminal>nonterminal).argumentList) {
+                    for (const argument of (<Nonterminal>nonterminal).argumentList.elements || []) {
+                        if (isPassThroughArgument(argument) && argument.name && argument.name.text === symbol.name) {
+                            addLinkedParameter(this.bindings.getSymbol(argument.name));
+                        }
+                    }
+                }
+            }
+        }
+
+        return parameters;
+
+        function addLinkedParameter(symbol: Symbol) {
+            if (symbol && symbol.kind === SymbolKind.Parameter && parameters.indexOf(symbol) === -1) {
+                parameters.push(symbol);
+            }
+        }
+    }
 }
 
-class RightHandSideDigest {
+/**
+ * Computes a short hash of the symbols of a right-hand side, or of a single symbol, that is the same for right-hand
+ * sides with the same symbols regardless of their formatting.
+ *
+ * A nonterminal can be hashed under another name, which allows the right-hand sides of two grammars to be compared when
+ * a production was renamed.
+ */
+export class RightHandSideDigest {
     private spaceRequested: boolean;
     private writer: StringWriter;
+    private names: Dictionary<string>;
 
-    public computeHash(node: RightHandSide): string {
+    /**
+     * @param names The names under which nonterminals are hashed, by the names of their productions.
+     */
+    constructor(names?: Dictionary<string>) {
+        this.names = names;
+    }
+
+    public computeHash(node: RightHandSide | LexicalSymbol): string {
         this.writer = new StringWriter();
-        this.writeNode(node.head);
+        this.spaceRequested = false;
+        this.writeNode(node.kind === SyntaxKind.RightHandSide ? (<RightHandSide>node).head : node);
 
         const hash = createHash("sha1");
         hash.update(this.writer.toString(), "utf8");
@@ -1362,7 +1678,14 @@ class RightHandSideDigest {
     }
 
     private writeNonterminal(node: Nonterminal) {
-        this.writeNode(node.name);
+        const name = node.name && node.name.text;
+        if (this.names && Dictionary.has(this.names, name)) {
+            this.write(Dictionary.get(this.names, name));
+        }
+        else {
+            this.writeNode(node.name);
+        }
+
         this.writeNode(node.argumentList);
         this.writeNode(node.questionToken);
         this.spaceRequested = true;
@@ -1524,6 +1847,14 @@ function isAssertion(node: LexicalSymbol) {
     return false;
 }
 
+function getSourceTextOfNode(sourceFile: SourceFile, node: Node) {
+    return sourceFile.text.substring(node.pos, node.end).trim().replace(/\s+/g, " ");
+}
+
+function isPassThroughArgument(node: Argument) {
+    return node.operatorToken && node.operatorToken.kind === SyntaxKind.QuestionToken;
+}
+
 function getSymbolMeaning(node: Node) {
     switch (node.kind) {
         case SyntaxKind.Parameter:
@@ -16,11 +16,17 @@
 import * as path from "path";
 import * as performance from "./performance";
 import { EOL } from "os";
-import { readFileSync, writeFileSync } from "fs";
+import { readFileSync, writeFileSync, readdirSync, statSync } from "fs";
 import { Package } from "./read-package";
 import { Dictionary } from "./core";
-import { CompilerOptions, EmitFormat, getDefaultOptions, KnownOptions, ParsedArguments, parse, usage } from "./options";
+import { CompilerOptions, EmitFormat, EbnfDialect, getDefaultOptions, KnownOptions, ParsedArguments, parse, usage } from "./options";
 import { Grammar } from "./grammar";
+import { LineMap, Diagnostics } from "./diagnostics";
+import { ParseNode, ParseError } from "./interpreter";
+import { CoverageEmitter } from "./emitter/coverage";
+import { CoverageTotals } from "./coverage";
+import { GrammarChange, diffGrammars } from "./grammardiff";
+import { convertEcmarkup } from "./converter";
 
 try {
     require("source-map-support").install();
@@ -30,12 +36,26 @@ catch (e) { }
 const knownOptions: KnownOptions = {
     "help": { shortName: "h", type: "boolean", description: "Prints this message." },
     "version": { shortName: "v", type: "boolean", description: "Prints the version." },
-    "out": { shortName: "o", param: "FILE", type: "file", description: "Specify the output file." },
-    "format": { shortName: "f", param: "FORMAT", type: { "markdown": EmitFormat.markdown, "ecmarkup": EmitFormat.ecmarkup, "html": EmitFormat.html }, description: "The output format." },
+    "out": { shortName: "o", param: "FILE", type: "file", description: "Specify the output file. With 'coverage', the annotated grammar, beside which the summary is written as JSON. With 'convert', the grammar file to write when there is one input file." },
+    "format": { shortName: "f", param: "FORMAT", type: { "markdown": EmitFormat.markdown, "ecmarkup": EmitFormat.ecmarkup, "html": EmitFormat.html, "grammarkdown": EmitFormat.grammarkdown, "railroad": EmitFormat.railroad, "antlr4": EmitFormat.antlr4, "tree-sitter": EmitFormat.treesitter, "ebnf": EmitFormat.ebnf, "peg": EmitFormat.peg, "bison": EmitFormat.bison, "json": EmitFormat.json }, description: "The output format." },
     "noEmit": { type: "boolean", description: "Does not emit output." },
     "noEmitOnError": { type: "boolean", description: "Does not emit output if there are errors." },
     "noChecks": { type: "boolean", description: "Does not perform static checking of the grammar." },
     "noStrictParametricProductions": { type: "boolean", description: "Does not perform strict checking of parametric productions and nonterminals." },
+    "goal": { param: "NAME", type: "string", many: true, description: "Declares NAME as a goal nonterminal of the grammar. May be repeated." },
+    "checkReachability": { type: "boolean", description: "Reports productions unreachable from the goal nonterminals." },
+    "trivia": { param: "NAME", type: "string", many: true, description: "With 'parse' or 'coverage', skips lexical production NAME between tokens instead of whitespace. With '--format antlr4', skips NAME in the lexer, with '--format tree-sitter', lists NAME in the extras, and with '--format peg', skips NAME after tokens. May be repeated." },
+    "base": { param: "FILE", type: "file", description: "With '--format markdown' or '--format ecmarkup', marks the changes from the base grammar FILE with <ins> and <del>." },
+    "ebnfDialect": { param: "DIALECT", type: { "w3c": EbnfDialect.w3c, "iso": EbnfDialect.iso }, description: "With '--format ebnf', the dialect to emit: 'w3c' for the EBNF of the XML specification (default), or 'iso' for ISO/IEC 14977." },
+    "check": { type: "boolean", description: "With 'fmt', lists the files that are not formatted instead of rewriting them." },
+    "count": { param: "N", type: "number", description: "With 'generate', the number of sentences to generate. The default is 1." },
+    "seed": { param: "SEED", type: "number", description: "With 'generate', the seed for the random choices, so that the same sentences are generated again. By default, a random seed is used." },
+    "maxDepth": { param: "N", type: "number", description: "With 'generate', the depth of nested nonterminals after which the shortest derivation is taken. The default is 32." },
+    "maxLength": { param: "N", type: "number", description: "With 'generate', the length of a sentence after which the shortest derivation is taken. The default is 256." },
+    "prose": { param: "FILE", type: "file", description: "With 'generate', a module that exports a function that generates the text of each prose symbol, keyed by the text of the prose." },
+    "checkLeftRecursion": { type: "boolean", description: "Reports left-recursive syntactic productions." },
+    "checkLL1": { type: "boolean", description: "Reports LL(1) conflicts between alternatives of syntactic productions." },
+    "checkLALR1": { type: "boolean", description: "Reports LALR(1) conflicts in the syntactic productions, with parameters expanded." },
     "emitLinks": { type: "boolean", hidden: true },
     "usage": { aliasFor: ["--help"], hidden: true },
     "md": { aliasFor: ["--format", "markdown"], hidden: true },
@@ -45,6 +65,15 @@ const knownOptions: KnownOptions = {
 interface ParsedCommandLine extends ParsedArguments, CompilerOptions {
     help: boolean;
     version: boolean;
+    goal: string[];
+    trivia: string[];
+    check: boolean;
+    count: number;
+    seed: number;
+    maxDepth: number;
+    maxLength: number;
+    prose: string;
+    base: string;
 }
 
 function main(): void {
@@ -55,6 +84,24 @@ function main(): void {
     else if (opts.version) {
         printVersion();
     }
+    else if (opts.rest[0] === "parse") {
+        performParse(opts);
+    }
+    else if (opts.rest[0] === "fmt") {
+        performFormat(opts);
+    }
+    else if (opts.rest[0] === "generate") {
+        performGenerate(opts);
+    }
+    else if (opts.rest[0] === "coverage") {
+        performCoverage(opts);
+    }
+    else if (opts.rest[0] === "diff") {
+        performDiff(opts);
+    }
+    else if (opts.rest[0] === "convert") {
+        performConvert(opts);
+    }
     else {
         performCompilation(opts);
     }
@@ -65,9 +112,30 @@ function printUsage(): void {
     usage(knownOptions, 36, (writer) => {
         writer.writeln(`Version ${node_package.version}`);
         writer.writeOption("Syntax:", "grammarkdown [options] [...files]");
+        writer.writeOption("", "grammarkdown parse --goal NAME [options] grammar input");
+        writer.writeOption("", "grammarkdown fmt [--check] [...files]");
+        writer.writeOption("", "grammarkdown generate --goal NAME [options] grammar");
+        writer.writeOption("", "grammarkdown coverage --goal NAME [options] grammar [...inputs]");
+        writer.writeOption("", "grammarkdown diff old.grammar new.grammar");
+        writer.writeOption("", "grammarkdown convert [--out FILE] [...files]");
         writer.writeln();
         writer.writeOption("Examples:", "grammarkdown es6.grammar");
         writer.writeOption("", "grammarkdown --out es6.md --format markdown es6.grammar");
+        writer.writeOption("", "grammarkdown --format ecmarkup --base es6.grammar proposal.grammar");
+        writer.writeOption("", "grammarkdown parse --goal Script es6 input.js");
+        writer.writeOption("", "grammarkdown fmt --check es6.grammar");
+        writer.writeOption("", "grammarkdown generate --goal Script --count 10 --seed 1 es6.grammar");
+        writer.writeOption("", "grammarkdown coverage --goal Script --out es6.coverage.html es6.grammar tests/");
+        writer.writeOption("", "grammarkdown diff es6.grammar proposal.grammar");
+        writer.writeOption("", "grammarkdown convert spec.html");
+        writer.writeln();
+        writer.writeln("Commands:");
+        writer.writeOption(" convert", "Writes the grammar of each ecmarkup specification as grammarkdown.");
+        writer.writeOption(" coverage", "Parses each input with the grammar and reports which parts of the grammar were matched. The first '--goal' is the production to parse, with its arguments, e.g. Script or Expression[+In].");
+        writer.writeOption(" diff", "Compares two grammars production by production and prints each change with its effect on the language of the grammar.");
+        writer.writeOption(" fmt", "Rewrites each grammar file in the canonical format.");
+        writer.writeOption(" generate", "Prints random sentences of the grammar. The first '--goal' is the production to generate, with its arguments, e.g. Script or Expression[+In].");
+        writer.writeOption(" parse", "Parses file input with the grammar and prints the parse tree. The first '--goal' is the production to parse, with its arguments, e.g. Script or Expression[+In].");
         writer.writeln();
         writer.writeln("Options:");
     });
@@ -85,6 +153,13 @@ function performCompilation(options: ParsedCommandLine): void {
     if (options.noEmit) compilerOptions.noEmit = true;
     if (options.noEmitOnError) compilerOptions.noEmitOnError = true;
     if (options.noStrictParametricProductions) compilerOptions.noStrictParametricProductions = true;
+    if (options.goal) compilerOptions.goals = options.goal;
+    if (options.checkReachability) compilerOptions.checkReachability = true;
+    if (options.trivia) compilerOptions.trivia = options.trivia;
+    if (options.ebnfDialect !== undefined) compilerOptions.ebnfDialect = options.ebnfDialect;
+    if (options.checkLeftRecursion) compilerOptions.checkLeftRecursion = true;
+    if (options.checkLL1) compilerOptions.checkLL1 = true;
+    if (options.checkLALR1) compilerOptions.checkLALR1 = true;
     if (options.emitLinks) compilerOptions.emitLinks = true;
     if (options.diagnostics) compilerOptions.diagnostics = true;
     compilerOptions.format = options.format || EmitFormat.markdown;
@@ -98,7 +173,12 @@ function performCompilation(options: ParsedCommandLine): void {
 
     if (!compilerOptions.noEmit) {
         if (!compilerOptions.noEmitOnError || grammar.diagnostics.count() <= 0) {
-            grammar.emit();
+            if (options.base) {
+                grammar.emitChanges(checkGrammar(options.base));
+            }
+            else {
+                grammar.emit();
+            }
         }
     }
 
@@ -121,4 +201,231 @@ function performCompilation(options: ParsedCommandLine): void {
     }
 }
 
+function performFormat(options: ParsedCommandLine): void {
+    const inputFiles = options.rest.slice(1);
+    if (inputFiles.length === 0) {
+        printUsage();
+        return;
+    }
+
+    const grammar = new Grammar(inputFiles, { format: EmitFormat.grammarkdown, noChecks: true });
+    grammar.bind();
+
+    // each root file is emitted in order, and is written back to the same file.
+    const sourceFiles = grammar.rootFiles.slice();
+    let unformattedCount = 0;
+    grammar.emit(/*sourceFile*/ undefined, (_, output) => {
+        const sourceFile = sourceFiles.shift();
+        if (output === sourceFile.text) {
+            return;
+        }
+
+        unformattedCount++;
+        if (options.check) {
+            console.log(sourceFile.filename);
+        }
+        else {
+            writeFileSync(sourceFile.filename, output, "utf8");
+        }
+    });
+
+    grammar.diagnostics.forEach(message => console.log(message));
+
+    if (grammar.diagnostics.count() > 0 || (options.check && unformattedCount > 0)) {
+        process.exit(-1);
+    }
+}
+
+function performParse(options: ParsedCommandLine): void {
+    const [, grammarFile, inputFile] = options.rest;
+    const goal = parseGoal(options);
+    if (!grammarFile || !inputFile || !goal) {
+        printUsage();
+        return;
+    }
+
+    const grammar = checkGrammar(grammarFile);
+    const text = readFileSync(inputFile, "utf8");
+    const result = grammar.createInterpreter(goal.name, { args: goal.args, trivia: options.trivia }).parse(text);
+    if (result.error) {
+        printParseError(inputFile, result.error);
+        process.exit(-1);
+    }
+
+    const lineMap = new LineMap(text);
+    const writeNode = (node: ParseNode, indent: string) => {
+        const label = node.name === undefined ? "`" + node.text + "`"
+            : node.text !== undefined ? `${node.name} ${JSON.stringify(node.text)}`
+            : node.name;
+        console.log(`${indent}${label} (${lineMap.formatOffset(node.pos)})`);
+        if (node.name !== undefined && node.text === undefined) {
+            for (const child of node.children) {
+                writeNode(child, indent + "  ");
+            }
+        }
+    };
+
+    writeNode(result.tree, "");
+}
+
+function performGenerate(options: ParsedCommandLine): void {
+    const [, grammarFile] = options.rest;
+    const goal = parseGoal(options);
+    if (!grammarFile || !goal) {
+        printUsage();
+        return;
+    }
+
+    const grammar = checkGrammar(grammarFile);
+    const prose = options.prose ? require(path.resolve(options.prose)) : undefined;
+    const generator = grammar.createGenerator(goal.name, {
+        args: goal.args,
+        seed: options.seed,
+        maxDepth: options.maxDepth,
+        maxLength: options.maxLength,
+        prose
+    });
+
+    const count = options.count !== undefined ? options.count : 1;
+    for (let i = 0; i < count; i++) {
+        console.log(generator.generate());
+    }
+}
+
+function performCoverage(options: ParsedCommandLine): void {
+    const [, grammarFile, ...inputs] = options.rest;
+    const goal = parseGoal(options);
+    if (!grammarFile || inputs.length === 0 || !goal) {
+        printUsage();
+        return;
+    }
+
+    const grammar = checkGrammar(grammarFile);
+    const sourceFile = grammar.rootFiles[0];
+    if (options.format !== undefined && options.format !== EmitFormat.html) {
+        grammar.diagnostics.setSourceFile(sourceFile);
+        grammar.diagnostics.report(0, Diagnostics.The_coverage_of_0_can_only_be_written_in_the_html_format, sourceFile.filename);
+        grammar.diagnostics.forEach(message => console.log(message));
+        process.exit(-1);
+    }
+
+    const coverage = grammar.createCoverage(goal.name, { args: goal.args, trivia: options.trivia });
+    for (const inputFile of getInputFiles(inputs)) {
+        const result = coverage.addInput(readFileSync(inputFile, "utf8"));
+        if (result.error) {
+            printParseError(inputFile, result.error);
+        }
+    }
+
+    // the annotated grammar is written to the output file, and the summary is written beside it.
+    const out = options.out || path.join(path.dirname(sourceFile.filename), path.basename(sourceFile.filename, ".grammar") + ".coverage.html");
+    const summary = coverage.getSummary();
+    new CoverageEmitter({ out }, grammar.resolver, grammar.diagnostics, coverage).emit(sourceFile);
+    writeFileSync(out.replace(/\.html?$/i, "") + ".json", JSON.stringify(summary, /*replacer*/ undefined, 4).replace(/\n/g, EOL), "utf8");
+
+    const formatTotals = (totals: CoverageTotals) => totals.total > 0
+        ? `${totals.covered} of ${totals.total} (${Math.floor(totals.covered * 100 / totals.total)}%)`
+        : `none`;
+
+    console.log(`Inputs:           ${summary.inputs - summary.errors} of ${summary.inputs} parsed`);
+    console.log(`Right-hand sides: ${formatTotals(summary.rightHandSides)}`);
+    console.log(`One of entries:   ${formatTotals(summary.oneOf)}`);
+    console.log(`Optional symbols: ${formatTotals(summary.optional)}`);
+
+    if (summary.errors > 0) {
+        process.exit(-1);
+    }
+}
+
+function performDiff(options: ParsedCommandLine): void {
+    const [, oldFile, newFile] = options.rest;
+    if (!oldFile || !newFile) {
+        printUsage();
+        return;
+    }
+
+    const changes = diffGrammars(checkGrammar(oldFile), checkGrammar(newFile));
+    for (const change of changes) {
+        console.log(`${formatChangeLocation(change)}: ${change.effect}: ${change.message}`);
+    }
+}
+
+function performConvert(options: ParsedCommandLine): void {
+    const inputFiles = options.rest.slice(1);
+    if (inputFiles.length === 0 || (options.out && inputFiles.length > 1)) {
+        printUsage();
+        return;
+    }
+
+    // each spec is written beside it as a grammar file, so that spec.html or spec.emu.html becomes spec.grammar.
+    for (const inputFile of inputFiles) {
+        const result = convertEcmarkup(readFileSync(inputFile, "utf8"), inputFile);
+        result.diagnostics.forEach(message => console.log(message));
+        writeFileSync(options.out || inputFile.replace(/(\.emu)?\.html?$/i, "") + ".grammar", result.text, "utf8");
+    }
+}
+
+/**
+ * Formats the location of a change in the new grammar, or in the old grammar if it was removed.
+ */
+function formatChangeLocation(change: GrammarChange) {
+    const [node, sourceFile] = change.kind === "productionRemoved" || change.kind === "alternativeRemoved"
+        ? [change.oldNode, change.oldSourceFile]
+        : [change.newNode, change.newSourceFile];
+    const text = sourceFile.text.substring(node.pos, node.end);
+    const pos = node.pos + text.length - text.replace(/^\s+/, "").length;
+    return `${sourceFile.filename}(${new LineMap(sourceFile.text).formatOffset(pos)})`;
+}
+
+/**
+ * Gets the files of a list of files and directories, including the files in each subdirectory of a directory.
+ */
+function getInputFiles(inputs: string[]): string[] {
+    const files: string[] = [];
+    for (const input of inputs) {
+        if (statSync(input).isDirectory()) {
+            files.push(...getInputFiles(readdirSync(input).sort().map(name => path.join(input, name))));
+        }
+        else {
+            files.push(input);
+        }
+    }
+
+    return files;
+}
+
+function printParseError(inputFile: string, error: ParseError) {
+    const expected = error.expected.length > 0 ? ` Expected ${error.expected.join(", ")}.` : "";
+    console.log(`${inputFile}(${error.line + 1},${error.character + 1}): ${error.message}${expected}`);
+}
+
+/**
+ * Parses the goal of 'parse', 'generate' or 'coverage', such as `Expression[+In]`. The arguments of a parametric goal are set
+ * unless they are prefixed with `~`.
+ */
+function parseGoal(options: ParsedCommandLine): { name: string, args: string[] } {
+    const goal = options.goal && /^\s*(\w+)\s*(?:\[([^\]]*)\])?\s*$/.exec(options.goal[0]);
+    if (!goal) {
+        return undefined;
+    }
+
+    const args = (goal[2] || "").split(",")
+        .map(arg => arg.trim())
+        .filter(arg => arg.length > 0 && arg.charAt(0) !== "~")
+        .map(arg => arg.replace(/^\+/, ""));
+
+    return { name: goal[1], args };
+}
+
+function checkGrammar(grammarFile: string): Grammar {
+    const grammar = new Grammar([grammarFile], getDefaultOptions());
+    grammar.check();
+    if (grammar.diagnostics.count() > 0) {
+        grammar.diagnostics.forEach(message => console.log(message));
+        process.exit(-1);
+    }
+
+    return grammar;
+}
+
 main();
\ No newline at end of file
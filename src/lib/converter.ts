@@ -0,0 +1,562 @@
+import { Dictionary } from "./core";
+import { DiagnosticMessages, Diagnostic, Diagnostics } from "./diagnostics";
+import { SourceFile } from "./nodes";
+import { formatIdentifier } from "./scanner";
+
+/**
+ * The grammarkdown converted from the grammar of an ecmarkup document.
+ */
+export interface EcmarkupConversion {
+    /** The source text of a `.grammar` file with the productions of the document, in document order. */
+    text: string;
+    /** The elements of the document that could not be converted, which are reported as warnings. */
+    diagnostics: DiagnosticMessages;
+}
+
+interface HtmlNode {
+    /** The name of an element in lower case, or `undefined` for text. */
+    tagName?: string;
+    attributes?: Dictionary<string>;
+    children?: HtmlNode[];
+    /** The text of a text node, with character references decoded. */
+    text?: string;
+    pos: number;
+    /** The end of the start tag of an element, or the end of a text node. */
+    end: number;
+    /** The start of the end tag of an element. */
+    contentEnd?: number;
+}
+
+// elements that have no content and no end tag.
+const voidElements = ["area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "param", "source", "track", "wbr"];
+
+// elements whose content is not parsed as HTML.
+const rawTextElements = ["script", "style"];
+
+// elements that ecmarkup adds when it renders a grammar, which repeat what the attributes of a production say.
+const presentationElements = ["emu-constraints", "emu-geq", "emu-mods", "emu-oneof", "emu-opt", "emu-params"];
+
+const namedCharacterReferences = new Dictionary<string>({ "amp": "&", "lt": "<", "gt": ">", "quot": "\"", "apos": "'", "nbsp": " " });
+
+const lookaheadOperators = new Dictionary<string>({ "≠": "!=", "=": "==", "∈": "<-", "∉": "<!" });
+
+/**
+ * Converts the grammar of an ecmarkup document to grammarkdown.
+ *
+ * Each `<emu-production>` is converted with its `params`, `type`, `oneof` and `collapsed` attributes, and each of its
+ * `<emu-rhs>` elements with its `constraints`, as are the `<emu-t>`, `<emu-nt>`, `<emu-gprose>`, `<emu-gann>` and
+ * `<emu-gmod>` elements of a right-hand side, which is the output of `EcmarkupEmitter`. An `<emu-grammar>` that holds
+ * grammarkdown text rather than productions, as in the source of a spec, is copied as it is. Elements such as `<ins>` and
+ * `<del>` inside a production are kept as HTML trivia, while the elements that ecmarkup adds when it renders a spec,
+ * such as `<emu-geq>` and `<emu-mods>`, are skipped.
+ *
+ * An `<emu-grammar type="example">` is skipped. When a document marks the grammars that define its productions with
+ * `type="definition"`, the other grammars only refer to those productions, and are skipped as well.
+ */
+export function convertEcmarkup(text: string, filename = "input.html"): EcmarkupConversion {
+    const diagnostics = new DiagnosticMessages();
+    diagnostics.setSourceFile(new SourceFile(filename, text));
+    return { text: new EcmarkupConverter(text, diagnostics).convert(), diagnostics };
+}
+
+class EcmarkupConverter {
+    private html: string;
+    private diagnostics: DiagnosticMessages;
+    private newLine: string;
+    private hasDefinitions: boolean;
+    private elements: string[] = [];
+
+    constructor(html: string, diagnostics: DiagnosticMessages) {
+        this.html = html;
+        this.diagnostics = diagnostics;
+        this.newLine = /\r\n/.test(html) ? "\r\n" : "\n";
+    }
+
+    public convert() {
+        const document = parseHtml(this.html);
+        this.hasDefinitions = someElement(document, node => node.tagName === "emu-grammar" && getAttribute(node, "type") === "definition");
+        this.convertElements(document);
+        return this.elements.length > 0 ? this.elements.join(this.newLine + this.newLine) + this.newLine : "";
+    }
+
+    private convertElements(node: HtmlNode) {
+        for (const child of node.children || []) {
+            switch (child.tagName) {
+                case "emu-grammar":
+                    const type = getAttribute(child, "type");
+                    if (type === "example" || (this.hasDefinitions && type !== "definition")) {
+                        break;
+                    }
+
+                    if (someElement(child, element => element.tagName === "emu-production")) {
+                        this.convertElements(child);
+                    }
+                    else {
+                        this.convertGrammarText(child);
+                    }
+
+                    break;
+
+                case "emu-production":
+                    this.convertProduction(child);
+                    break;
+
+                case "emu-rhs":
+                    this.report(child, Diagnostics._0_is_not_part_of_a_production_and_was_skipped, "<emu-rhs>");
+                    break;
+
+                default:
+                    this.convertElements(child);
+                    break;
+            }
+        }
+    }
+
+    /**
+     * Copies the grammarkdown text of an `<emu-grammar>`, without the indentation that its lines have in common.
+     */
+    private convertGrammarText(node: HtmlNode) {
+        const lines = decodeCharacterReferences(this.html.substring(node.end, node.contentEnd)).split(/\r?\n/g);
+        while (lines.length > 0 && !lines[0].trim()) {
+            lines.shift();
+        }
+
+        while (lines.length > 0 && !lines[lines.length - 1].trim()) {
+            lines.pop();
+        }
+
+        let indentation: string;
+        for (const line of lines) {
+            if (line.trim()) {
+                const lineIndentation = /^\s*/.exec(line)[0];
+                while (indentation !== undefined && lineIndentation.substr(0, indentation.length) !== indentation) {
+                    indentation = indentation.substr(0, indentation.length - 1);
+                }
+
+                if (indentation === undefined) {
+                    indentation = lineIndentation;
+                }
+            }
+        }
+
+        if (lines.length > 0) {
+            this.elements.push(lines.map(line => line.substr(indentation.length).replace(/\s+$/, "")).join(this.newLine));
+        }
+    }
+
+    private convertProduction(node: HtmlNode) {
+        const name = getAttribute(node, "name");
+        if (!name || !name.trim()) {
+            this.report(node, Diagnostics._0_has_no_name_and_was_skipped, "<emu-production>");
+            return;
+        }
+
+        const type = getAttribute(node, "type");
+        const params = getAttribute(node, "params");
+        let head = formatIdentifier(name.trim());
+        if (params) {
+            head += `[${formatList(params)}]`;
+        }
+
+        head += type === "lexical" ? " ::" : type === "regexp" ? " :::" : " :";
+        if (getAttribute(node, "oneof") !== undefined) {
+            const terminals = this.convertItems(node, (child, items) => this.convertOneOfRightHandSide(child, items));
+            this.elements.push([`${head} one of`, ...formatRows(terminals)].join(this.newLine));
+            return;
+        }
+
+        const rightHandSides = this.convertItems(node, (child, items) => {
+            if (child.tagName === "emu-rhs") {
+                items.push(this.convertRightHandSide(child));
+            }
+            else {
+                this.convertOtherInProduction(child);
+            }
+        });
+
+        if (rightHandSides.length === 1 && getAttribute(node, "collapsed") !== undefined) {
+            this.elements.push(`${head} ${rightHandSides[0]}`);
+        }
+        else {
+            this.elements.push([head, ...rightHandSides.map(rhs => `\t${rhs}`)].join(this.newLine));
+        }
+    }
+
+    private convertOneOfRightHandSide(node: HtmlNode, terminals: string[]) {
+        if (node.tagName !== "emu-rhs") {
+            this.convertOtherInProduction(node);
+            return;
+        }
+
+        // the terminals of a `one of` list are written as text, separated by spaces.
+        terminals.push(...this.convertItems(node, (child, items) => {
+            if (child.tagName === undefined) {
+                for (const text of child.text.split(/\s+/g)) {
+                    if (text) {
+                        this.pushItem(items, this.formatTerminal(text, child));
+                    }
+                }
+            }
+            else if (child.tagName === "emu-t") {
+                this.pushItem(items, this.formatTerminal(getTextContent(child), child));
+            }
+            else {
+                this.convertOther(child);
+            }
+        }));
+    }
+
+    private convertRightHandSide(node: HtmlNode) {
+        const symbols = this.convertItems(node, (child, items) => this.pushItem(items, this.convertSymbol(child)));
+        const constraints = getAttribute(node, "constraints");
+        if (constraints) {
+            symbols.unshift(`[${formatList(constraints)}]`);
+        }
+
+        return symbols.length > 0 ? symbols.join(" ") : "[empty]";
+    }
+
+    private convertSymbol(node: HtmlNode): string {
+        switch (node.tagName) {
+            case "emu-t":
+                return getAttribute(node, "placeholder") !== undefined ? "@" : this.convertTerminal(node);
+
+            case "emu-nt":
+                return this.convertNonterminal(node);
+
+            case "emu-gprose":
+                return this.convertGrammarProse(node);
+
+            case "emu-gann":
+                // an assertion rendered by ecmarkup already has its brackets.
+                const assertion = this.convertInline(node, /*inProse*/ false);
+                return /^\[[^]*\]$/.test(assertion) ? assertion : `[${assertion}]`;
+
+            case "emu-gmod":
+                // a modifier is either the exclusion of a `but not` symbol, which follows the symbol it excludes from,
+                // or a prose assertion.
+                const modifier = this.convertInline(node, /*inProse*/ !/^\s*but\s+not\b/.test(getTextContent(node)));
+                return /^but\s+not\b/.test(modifier) ? modifier : `[> ${modifier}]`;
+        }
+
+        this.convertOther(node);
+        return undefined;
+    }
+
+    private convertTerminal(node: HtmlNode) {
+        const terminal = this.formatTerminal(getTextContent(node), node);
+        return terminal && getAttribute(node, "optional") !== undefined ? terminal + "?" : terminal;
+    }
+
+    private convertNonterminal(node: HtmlNode) {
+        const params = getAttribute(node, "params");
+        let text = formatIdentifier(getTextContent(node).trim());
+        if (params) {
+            text += `[${formatList(params)}]`;
+        }
+
+        if (getAttribute(node, "optional") !== undefined) {
+            text += "?";
+        }
+
+        return text;
+    }
+
+    /**
+     * Converts an `<emu-gprose>`, which is a unicode character literal such as `U+0000` or `<TAB>`, a range of them, or
+     * prose.
+     */
+    private convertGrammarProse(node: HtmlNode) {
+        const text = this.convertInline(node, /*inProse*/ true);
+        if (isUnicodeCharacterLiteral(text)) {
+            return getAttribute(node, "optional") !== undefined ? text + "?" : text;
+        }
+
+        const range = /^(\S+) through (\S+)$/.exec(text);
+        if (range && isUnicodeCharacterLiteral(range[1]) && isUnicodeCharacterLiteral(range[2])) {
+            return text;
+        }
+
+        return `> ${text}`;
+    }
+
+    /**
+     * Converts the content of an element that mixes text with symbols, such as an assertion or prose. A nonterminal in
+     * prose is written as `|Name|`, and the operator of a lookahead assertion is written as it is in grammarkdown.
+     */
+    private convertInline(node: HtmlNode, inProse: boolean): string {
+        let text = "";
+        for (const child of node.children) {
+            if (child.tagName === undefined) {
+                text += inProse ? child.text : child.text.replace(/(\blookahead\s*)(≠|=|∈|∉)/g, (_, lookahead: string, operator: string) => lookahead + Dictionary.get(lookaheadOperators, operator));
+            }
+            else if (child.tagName === "emu-t") {
+                text += this.convertTerminal(child) || "";
+            }
+            else if (child.tagName === "emu-nt") {
+                text += inProse ? `|${getTextContent(child).trim().replace(/[\\|]/g, "\\$&")}|` : this.convertNonterminal(child);
+            }
+            else if (child.tagName === "emu-gprose") {
+                text += inProse ? this.convertInline(child, inProse) : this.convertGrammarProse(child);
+            }
+            else if (child.tagName === "a") {
+                text += this.convertInline(child, inProse);
+            }
+            else if (isTriviaElement(child)) {
+                text += this.getStartTag(child) + this.convertInline(child, inProse) + getEndTag(child);
+            }
+            else {
+                this.convertOther(child);
+            }
+        }
+
+        return text.replace(/\s+/g, " ").trim();
+    }
+
+    /**
+     * Converts the children of an element to a list of items, such as right-hand sides or symbols. The tags of an
+     * element that is not part of the grammar, such as `<ins>` or `<del>`, are kept as HTML trivia around the items
+     * they enclose, and a link or anchor is skipped.
+     */
+    private convertItems(node: HtmlNode, convertItem: (child: HtmlNode, items: string[]) => void): string[] {
+        const items: string[] = [];
+        let pendingTags = "";
+        const visit = (node: HtmlNode) => {
+            for (const child of node.children) {
+                const start = items.length;
+                if (child.tagName === "a") {
+                    visit(child);
+                }
+                else if (isTriviaElement(child)) {
+                    pendingTags += this.getStartTag(child);
+                    visit(child);
+                    if (items.length > start) {
+                        items[items.length - 1] += getEndTag(child);
+                    }
+                    else {
+                        pendingTags += getEndTag(child);
+                    }
+                }
+                else {
+                    convertItem(child, items);
+                    if (pendingTags && items.length > start) {
+                        items[start] = pendingTags + items[start];
+                        pendingTags = "";
+                    }
+                }
+            }
+        };
+
+        visit(node);
+        if (pendingTags) {
+            if (items.length > 0) {
+                items[items.length - 1] += pendingTags;
+            }
+            else {
+                items.push(pendingTags);
+            }
+        }
+
+        return items;
+    }
+
+    /**
+     * Skips an element or text that is not part of a right-hand side, and reports it unless it is whitespace or an
+     * element that ecmarkup adds when it renders a grammar.
+     */
+    private convertOther(node: HtmlNode) {
+        if (node.tagName === undefined) {
+            if (node.text.trim()) {
+                this.report(node, Diagnostics._0_cannot_be_expressed_in_1_and_was_omitted, node.text.trim(), "grammarkdown");
+            }
+        }
+        else if (presentationElements.indexOf(node.tagName) === -1) {
+            this.report(node, Diagnostics._0_cannot_be_expressed_in_1_and_was_omitted, `<${node.tagName}>`, "grammarkdown");
+        }
+    }
+
+    private convertOtherInProduction(node: HtmlNode) {
+        // ecmarkup renders the name of a production as a nonterminal before its right-hand sides.
+        if (node.tagName !== "emu-nt") {
+            this.convertOther(node);
+        }
+    }
+
+    private formatTerminal(text: string, node: HtmlNode) {
+        // a terminal is quoted with backticks, which can only appear in a terminal on their own.
+        if (text === "`") {
+            return "```";
+        }
+
+        if (!text || text.indexOf("`") >= 0) {
+            this.report(node, Diagnostics._0_cannot_be_expressed_in_1_and_was_omitted, text, "grammarkdown");
+            return undefined;
+        }
+
+        return "`" + text + "`";
+    }
+
+    private pushItem(items: string[], text: string) {
+        if (text) {
+            items.push(text);
+        }
+    }
+
+    private getStartTag(node: HtmlNode) {
+        return this.html.substring(node.pos, node.end);
+    }
+
+    private report(node: HtmlNode, message: Diagnostic, ...args: any[]) {
+        this.diagnostics.report(node.pos, message, args);
+    }
+}
+
+/**
+ * Parses an HTML document into a tree of elements and text. Unlike a browser, the parser does not imply missing tags,
+ * except that an end tag closes any elements left open inside the element that it ends, and an end tag without a
+ * matching start tag is ignored.
+ */
+function parseHtml(text: string): HtmlNode {
+    const document: HtmlNode = { tagName: "#document", attributes: new Dictionary<string>(), children: [], pos: 0, end: 0, contentEnd: text.length };
+    const openElements = [document];
+    const markupRegExp = /<!--[^]*?(?:-->|$)|<![^>]*>?|<\/([A-Za-z][^\s\/>]*)[^>]*>?|<([A-Za-z][^\s\/>]*)((?:\s*[^\s\/>=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*\/?>/g;
+    let pos = 0;
+    let match: RegExpExecArray;
+    while (match = markupRegExp.exec(text)) {
+        const parent = openElements[openElements.length - 1];
+        if (match.index > pos) {
+            parent.children.push({ text: decodeCharacterReferences(text.substring(pos, match.index)), pos, end: match.index });
+        }
+
+        pos = markupRegExp.lastIndex;
+        if (match[1]) {
+            const tagName = match[1].toLowerCase();
+            for (let i = openElements.length - 1; i > 0; i--) {
+                if (openElements[i].tagName === tagName) {
+                    for (const element of openElements.splice(i)) {
+                        element.contentEnd = match.index;
+                    }
+
+                    break;
+                }
+            }
+        }
+        else if (match[2]) {
+            const tagName = match[2].toLowerCase();
+            const element: HtmlNode = { tagName, attributes: parseAttributes(match[3]), children: [], pos: match.index, end: pos, contentEnd: pos };
+            parent.children.push(element);
+            if (rawTextElements.indexOf(tagName) >= 0) {
+                const endTagRegExp = new RegExp(`</${tagName}`, "ig");
+                endTagRegExp.lastIndex = pos;
+                const endTag = endTagRegExp.exec(text);
+                pos = markupRegExp.lastIndex = element.contentEnd = endTag ? endTag.index : text.length;
+            }
+            else if (voidElements.indexOf(tagName) === -1 && !/\/>$/.test(match[0])) {
+                openElements.push(element);
+            }
+        }
+    }
+
+    if (pos < text.length) {
+        openElements[openElements.length - 1].children.push({ text: decodeCharacterReferences(text.substring(pos)), pos, end: text.length });
+    }
+
+    for (const element of openElements) {
+        element.contentEnd = text.length;
+    }
+
+    return document;
+}
+
+function parseAttributes(text: string) {
+    const attributes = new Dictionary<string>();
+    const attributeRegExp = /([^\s\/>=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+    let match: RegExpExecArray;
+    while (match = attributeRegExp.exec(text)) {
+        const value = match[2] !== undefined ? match[2] : match[3] !== undefined ? match[3] : match[4] !== undefined ? match[4] : "";
+        Dictionary.set(attributes, match[1].toLowerCase(), decodeCharacterReferences(value));
+    }
+
+    return attributes;
+}
+
+function decodeCharacterReferences(text: string) {
+    return text.replace(/&(?:#(\d+)|#[xX]([0-9A-Fa-f]+)|([A-Za-z]+));/g, (reference: string, decimal: string, hex: string, name: string) => {
+        if (name) {
+            return Dictionary.has(namedCharacterReferences, name) ? Dictionary.get(namedCharacterReferences, name) : reference;
+        }
+
+        const codePoint = decimal ? parseInt(decimal, 10) : parseInt(hex, 16);
+        return codePoint > 0x10FFFF ? reference
+            : codePoint > 0xFFFF ? String.fromCharCode(Math.floor((codePoint - 0x10000) / 0x400) + 0xD800, (codePoint - 0x10000) % 0x400 + 0xDC00)
+            : String.fromCharCode(codePoint);
+    });
+}
+
+function getAttribute(node: HtmlNode, name: string) {
+    return node.attributes ? Dictionary.get(node.attributes, name) : undefined;
+}
+
+/**
+ * Gets the text of an element, without the elements that ecmarkup adds when it renders a grammar.
+ */
+function getTextContent(node: HtmlNode): string {
+    if (node.tagName === undefined) {
+        return node.text;
+    }
+
+    if (presentationElements.indexOf(node.tagName) >= 0) {
+        return "";
+    }
+
+    return node.children.map(getTextContent).join("");
+}
+
+function getEndTag(node: HtmlNode) {
+    return voidElements.indexOf(node.tagName) >= 0 ? "" : `</${node.tagName}>`;
+}
+
+function someElement(node: HtmlNode, predicate: (node: HtmlNode) => boolean): boolean {
+    for (const child of node.children || []) {
+        if (child.tagName !== undefined && (predicate(child) || someElement(child, predicate))) {
+            return true;
+        }
+    }
+
+    return false;
+}
+
+/**
+ * Gets whether an element is markup that is not part of the grammar, such as `<ins>` or `<del>`, which is kept as HTML
+ * trivia.
+ */
+function isTriviaElement(node: HtmlNode) {
+    return node.tagName !== undefined && node.tagName !== "a" && node.tagName.substr(0, 4) !== "emu-";
+}
+
+function isUnicodeCharacterLiteral(text: string) {
+    return /^(?:[Uu]\+[0-9A-Fa-f]{4}|<[^<>\s]+>)$/.test(text);
+}
+
+function formatList(text: string) {
+    return text.split(",").map(element => element.trim()).filter(element => element.length > 0).join(", ");
+}
+
+/**
+ * Lays out the terminals of a `one of` list in rows of eight, aligned in columns.
+ */
+function formatRows(terminals: string[]) {
+    const columns = 8;
+    const widths: number[] = [];
+    for (let i = 0; i < terminals.length; i++) {
+        widths[i % columns] = Math.max(widths[i % columns] || 0, terminals[i].length);
+    }
+
+    const rows: string[] = [];
+    for (let i = 0; i < terminals.length; i += columns) {
+        const row = terminals.slice(i, i + columns);
+        rows.push("\t" + row.map((terminal, j) => j < row.length - 1 ? terminal + new Array(widths[j] - terminal.length + 2).join(" ") : terminal).join(""));
+    }
+
+    return rows;
+}
@@ -0,0 +1,217 @@
+import { Dictionary } from "./core";
+import { LineMap } from "./diagnostics";
+import { SyntaxKind } from "./tokens";
+import { Resolver } from "./checker";
+import { Interpreter, ParseNode, ParseResult } from "./interpreter";
+import {
+    Node,
+    OptionalSymbol,
+    RightHandSide,
+    RightHandSideList,
+    OneOfList,
+    Production,
+    SourceFile
+} from "./nodes";
+
+export type CoverageKind = "rightHandSide" | "oneOf" | "optional";
+
+/**
+ * A right-hand side, an entry of a `one of` list, or an optional symbol, and the number of times it was matched.
+ */
+export interface CoverageItem {
+    /**
+     * A stable identifier for the item. A right-hand side is identified by `Resolver.getRightHandSideLinkId`, an entry
+     * of a `one of` list by the name of its production and its text, e.g. `Keyword:var`, and an optional symbol by the
+     * identifier of its right-hand side and the index of the symbol, e.g. `Statement-4a6b1c0d:1`.
+     */
+    id: string;
+    kind: CoverageKind;
+    /** The name of the production that contains the item. */
+    production: string;
+    /** The source text of the item. */
+    text: string;
+    filename: string;
+    /** The zero-based line of the item. */
+    line: number;
+    /** The number of times the item was matched by the inputs. */
+    count: number;
+}
+
+export interface CoverageTotals {
+    total: number;
+    covered: number;
+}
+
+/**
+ * The coverage of a grammar by a set of inputs, in a form that can be written as JSON.
+ */
+export interface CoverageSummary {
+    goal: string;
+    /** The number of inputs. */
+    inputs: number;
+    /** The number of inputs that could not be parsed, which do not count towards coverage. */
+    errors: number;
+    rightHandSides: CoverageTotals;
+    oneOf: CoverageTotals;
+    optional: CoverageTotals;
+    items: CoverageItem[];
+}
+
+/**
+ * Measures which right-hand sides, `one of` entries, and optional symbols of a grammar are matched when inputs are
+ * parsed from a goal.
+ *
+ * Each input is parsed with an `Interpreter`, and each node of its parse tree counts a match of the right-hand side of
+ * its nonterminal and of the symbol that it matched. An optional symbol is covered when it is present in an input.
+ */
+export class Coverage {
+    private resolver: Resolver;
+    private goal: string;
+    private interpreter: Interpreter;
+    private items: CoverageItem[] = [];
+    private itemsByNode = new Dictionary<CoverageItem>();
+    private inputs = 0;
+    private errors = 0;
+
+    constructor(resolver: Resolver, sourceFiles: SourceFile[], goal: string, interpreter: Interpreter) {
+        this.resolver = resolver;
+        this.goal = goal;
+        this.interpreter = interpreter;
+        for (const sourceFile of sourceFiles) {
+            const lineMap = new LineMap(sourceFile.text);
+            for (const element of sourceFile.elements) {
+                if (element.kind === SyntaxKind.Production) {
+                    this.addProduction(<Production>element, sourceFile, lineMap);
+                }
+            }
+        }
+    }
+
+    /**
+     * Parses an input, and counts the items matched by its parse tree.
+     */
+    public addInput(text: string): ParseResult {
+        const result = this.interpreter.parse(text);
+        this.inputs++;
+        if (result.error) {
+            this.errors++;
+        }
+        else {
+            this.countMatches(result.tree);
+        }
+
+        return result;
+    }
+
+    /**
+     * Gets the number of times a right-hand side, `one of` entry, or optional symbol was matched, or `undefined` if the
+     * coverage of the node is not measured.
+     */
+    public getCount(node: Node): number {
+        const item = Dictionary.get(this.itemsByNode, String(node.id));
+        return item ? item.count : undefined;
+    }
+
+    public getSummary(): CoverageSummary {
+        return {
+            goal: this.goal,
+            inputs: this.inputs,
+            errors: this.errors,
+            rightHandSides: this.getTotals("rightHandSide"),
+            oneOf: this.getTotals("oneOf"),
+            optional: this.getTotals("optional"),
+            items: this.items.map(item => ({
+                id: item.id,
+                kind: item.kind,
+                production: item.production,
+                text: item.text,
+                filename: item.filename,
+                line: item.line,
+                count: item.count
+            }))
+        };
+    }
+
+    private addProduction(production: Production, sourceFile: SourceFile, lineMap: LineMap) {
+        const body = production.body;
+        const name = production.name && production.name.text;
+        if (!body || !name) {
+            return;
+        }
+
+        switch (body.kind) {
+            case SyntaxKind.OneOfList:
+                const productionId = this.resolver.getProductionLinkId(production.name) || name;
+                for (const terminal of (<OneOfList>body).terminals || []) {
+                    this.addItem(terminal, "oneOf", `${productionId}:${terminal.text}`, name, sourceFile, lineMap);
+                }
+
+                break;
+
+            case SyntaxKind.RightHandSideList:
+                for (const rhs of (<RightHandSideList>body).elements || []) {
+                    this.addRightHandSide(rhs, name, sourceFile, lineMap);
+                }
+
+                break;
+
+            case SyntaxKind.RightHandSide:
+                this.addRightHandSide(<RightHandSide>body, name, sourceFile, lineMap);
+                break;
+        }
+    }
+
+    private addRightHandSide(rhs: RightHandSide, production: string, sourceFile: SourceFile, lineMap: LineMap) {
+        const id = this.resolver.getRightHandSideLinkId(rhs, /*includePrefix*/ true);
+        this.addItem(rhs, "rightHandSide", id, production, sourceFile, lineMap);
+
+        let index = 0;
+        for (let span = rhs.head; span; span = span.next, index++) {
+            const symbol = span.symbol;
+            if (symbol && (<OptionalSymbol>symbol).questionToken) {
+                this.addItem(symbol, "optional", `${id}:${index}`, production, sourceFile, lineMap);
+            }
+        }
+    }
+
+    private addItem(node: Node, kind: CoverageKind, id: string, production: string, sourceFile: SourceFile, lineMap: LineMap) {
+        const item: CoverageItem = {
+            id,
+            kind,
+            production,
+            text: sourceFile.text.substring(node.pos, node.end).trim().replace(/\s+/g, " "),
+            filename: sourceFile.filename,
+            line: lineMap.positionAt(node.pos).line,
+            count: 0
+        };
+
+        this.items.push(item);
+        Dictionary.set(this.itemsByNode, String(node.id), item);
+    }
+
+    private countMatches(node: ParseNode) {
+        if (node.rightHandSide) {
+            this.countMatch(node.rightHandSide);
+        }
+
+        if (node.symbol) {
+            this.countMatch(node.symbol);
+        }
+
+        for (const child of node.children || []) {
+            this.countMatches(child);
+        }
+    }
+
+    private countMatch(node: Node) {
+        const item = Dictionary.get(this.itemsByNode, String(node.id));
+        if (item) {
+            item.count++;
+        }
+    }
+
+    private getTotals(kind: CoverageKind): CoverageTotals {
+        const items = this.items.filter(item => item.kind === kind);
+        return { total: items.length, covered: items.filter(item => item.count > 0).length };
+    }
+}
@@ -42,6 +42,20 @@ export const Diagnostics = {
     Production_0_does_not_have_a_parameter_named_1_: <Diagnostic>{ code: 2004, message: "Production '{0}' does not have a parameter named '{1}'." },
     Production_0_is_missing_parameter_1_All_definitions_of_production_0_must_specify_the_same_formal_parameters: <Diagnostic>{ code: 2006, message: "Production '{0}' is missing parameter '{1}'. All definitions of production '{0}' must specify the same formal parameters." },
     There_is_no_argument_given_for_parameter_0_: <Diagnostic>{ code: 2007, message: "There is no argument given for parameter '{0}'." },
+    Production_0_is_unreachable_from_any_goal_symbol: <Diagnostic>{ code: 2008, message: "Production '{0}' is unreachable from any goal symbol.", warning: true },
+    Production_0_is_left_recursive_Colon_1: <Diagnostic>{ code: 2009, message: "Production '{0}' is left-recursive: {1}.", warning: true },
+    Production_0_has_an_LL_1_conflict_between_1_and_2_on_3: <Diagnostic>{ code: 2010, message: "Production '{0}' has an LL(1) conflict between '{1}' and '{2}' on {3}.", warning: true },
+    Production_0_has_a_shift_reduce_conflict_with_1_on_2_as_in_3: <Diagnostic>{ code: 2011, message: "Production '{0}' has a shift/reduce conflict with '{1}' on {2}, as in '{3}'.", warning: true },
+    Production_0_has_a_reduce_reduce_conflict_with_1_on_2_as_in_3: <Diagnostic>{ code: 2012, message: "Production '{0}' has a reduce/reduce conflict with '{1}' on {2}, as in '{3}'.", warning: true },
+    Cannot_format_0_because_it_contains_syntax_errors: <Diagnostic>{ code: 3000, message: "Cannot format '{0}' because it contains syntax errors." },
+    The_formatted_output_of_0_does_not_preserve_its_syntax_tree: <Diagnostic>{ code: 3001, message: "The formatted output of '{0}' does not preserve its syntax tree." },
+    _0_cannot_be_expressed_in_1_and_was_omitted: <Diagnostic>{ code: 3002, message: "'{0}' cannot be expressed in {1} and was omitted.", warning: true },
+    _0_matches_a_prefix_of_the_later_alternative_1_which_an_ordered_choice_will_not_try: <Diagnostic>{ code: 3003, message: "'{0}' matches a prefix of the later alternative '{1}', which an ordered choice will not try.", warning: true },
+    _0_is_left_recursive_through_1_which_2_cannot_parse_and_was_omitted: <Diagnostic>{ code: 3004, message: "'{0}' is left-recursive through {1}, which {2} cannot parse, and was omitted.", warning: true },
+    _0_would_repeat_1_which_can_match_the_empty_string_and_was_omitted: <Diagnostic>{ code: 3005, message: "'{0}' would repeat '{1}', which can match the empty string, and was omitted.", warning: true },
+    The_coverage_of_0_can_only_be_written_in_the_html_format: <Diagnostic>{ code: 3006, message: "The coverage of '{0}' can only be written in the 'html' format." },
+    _0_is_not_part_of_a_production_and_was_skipped: <Diagnostic>{ code: 3007, message: "'{0}' is not part of a production and was skipped.", warning: true },
+    _0_has_no_name_and_was_skipped: <Diagnostic>{ code: 3008, message: "'{0}' has no name and was skipped.", warning: true },
 };
 
 export interface DiagnosticInfo {
@@ -435,6 +449,29 @@ export class LineMap {
         return pos;
     }
 
+    /**
+     * Gets the offset of a position, moving a position past the end of its line to the end of that line, and a
+     * position past the last line to the end of the text.
+     */
+    public clampedOffsetAt(position: Position) {
+        this.computeLineStarts();
+        if (position.line >= this.lineStarts.length) {
+            return this.text.length;
+        }
+
+        const line = Math.max(position.line, 0);
+        const lineStart = this.lineStarts[line];
+        let lineEnd = line + 1 < this.lineStarts.length
+            ? this.lineStarts[line + 1]
+            : this.text.length;
+
+        while (lineEnd > lineStart && this.isLineBreak(this.text.charCodeAt(lineEnd - 1))) {
+            lineEnd--;
+        }
+
+        return Math.min(lineStart + Math.max(position.character, 0), lineEnd);
+    }
+
     public positionAt(offset: number): Position {
         this.computeLineStarts();
         let lineNumber = binarySearch(this.lineStarts, offset);
@@ -0,0 +1,352 @@
+import * as path from "path";
+import { EOL } from "os";
+import { Dictionary } from "../core";
+import { getCodePointOfLiteral } from "../analyzer";
+import { ParserGrammarEmitter, CharacterSet, maxCodePoint, subtractCharacterSets, getRightHandSides, isLeftRecursive, isLexical } from "./parsergrammar";
+import {
+    Node,
+    SourceFile,
+    UnicodeCharacterLiteral,
+    UnicodeCharacterRange,
+    Prose,
+    OneOfList,
+    Terminal,
+    EmptyAssertion,
+    LookaheadAssertion,
+    NoSymbolHereAssertion,
+    LexicalGoalAssertion,
+    ProseAssertion,
+    Nonterminal,
+    OneOfSymbol,
+    LexicalSymbol,
+    ButNotSymbol,
+    SymbolSpan,
+    RightHandSide,
+    RightHandSideList,
+    Production
+} from "../nodes";
+
+// names that cannot be used for a rule, as they are keywords of ANTLR or the name of a predefined token.
+const reservedNames = ["catch", "finally", "fragment", "grammar", "import", "lexer", "locals", "mode", "options", "parser", "returns", "throws", "tokens", "EOF"];
+
+/**
+ * Emits an ANTLR 4 combined grammar.
+ *
+ * Syntactic productions become parser rules, and lexical productions become lexer rules. A lexical production that is
+ * not a token is a fragment. Lookahead assertions and other constructs that ANTLR cannot express without actions are
+ * omitted, and a diagnostic is reported for each.
+ */
+export class Antlr4Emitter extends ParserGrammarEmitter {
+    protected extension = ".g4";
+    protected targetName = "ANTLR 4";
+
+    private ruleNames: Dictionary<string>;
+    private lexical: boolean;
+    private skipped: boolean;
+    private alternativeCount: number;
+
+    protected emitSourceFile(node: SourceFile) {
+        // the productions of imported files are included, as a combined grammar cannot import a grammarkdown file.
+        this.collectProductions();
+        this.ruleNames = this.getRuleNames((name, lexical) => (lexical ? name.charAt(0).toUpperCase() : name.charAt(0).toLowerCase()) + name.substr(1), reservedNames);
+
+        const grammarName = path.basename(this.getOutputFilename(node), this.extension).replace(/\W/g, "_");
+        this.writer.write(`grammar ${/^\d/.test(grammarName) ? "_" + grammarName : grammarName};`);
+        for (const name of this.syntacticNames.concat(this.lexicalNames)) {
+            this.writer.writeln();
+            this.writer.write(EOL);
+            this.emitRule(name);
+        }
+
+        this.writer.writeln();
+    }
+
+    protected emitOneOfList(node: OneOfList) {
+        for (const terminal of node.terminals || []) {
+            this.emitAlternative(terminal);
+        }
+    }
+
+    protected emitRightHandSideList(node: RightHandSideList) {
+        for (const rhs of node.elements || []) {
+            this.emitNode(rhs);
+        }
+    }
+
+    protected emitRightHandSide(node: RightHandSide) {
+        this.emitAlternative(node.head);
+    }
+
+    protected emitSymbolSpan(node: SymbolSpan) {
+        this.emitNode(node.symbol);
+        this.emitNode(node.next);
+    }
+
+    protected emitTerminal(node: Terminal) {
+        this.writeSymbol(`'${escapeString(node.text)}'`, node);
+    }
+
+    protected emitNonterminal(node: Nonterminal) {
+        const name = node.name && node.name.text;
+        this.writeSymbol(Dictionary.has(this.ruleNames, name) ? Dictionary.get(this.ruleNames, name) : name, node);
+    }
+
+    protected emitUnicodeCharacterLiteral(node: UnicodeCharacterLiteral) {
+        const codePoint = getCodePointOfLiteral(node);
+        const propertyClass = this.lexical && this.getUnicodePropertyClass(node);
+        if (codePoint !== undefined) {
+            this.writeSymbol(`'${escapeCharacter(codePoint)}'`, node);
+        }
+        else if (propertyClass) {
+            this.writeSymbol(propertyClass, node);
+        }
+        else {
+            this.reportOmitted(node);
+        }
+    }
+
+    protected emitUnicodeCharacterRange(node: UnicodeCharacterRange) {
+        const set = this.lexical && this.getCharacterSet(node);
+        if (set) {
+            this.writeSymbol(formatCharacterSet(set), node);
+        }
+        else {
+            this.reportOmitted(node);
+        }
+    }
+
+    protected emitProse(node: Prose) {
+        const propertyClass = this.lexical && this.getUnicodePropertyClass(node);
+        if (this.lexical && this.getCharacterSet(node)) {
+            this.writeSymbol(`.`, node);
+        }
+        else if (propertyClass) {
+            this.writeSymbol(propertyClass, node);
+        }
+        else {
+            this.reportOmitted(node);
+        }
+    }
+
+    protected emitPlaceholder(node: LexicalSymbol) {
+        this.reportOmitted(node);
+    }
+
+    protected emitButNotSymbol(node: ButNotSymbol) {
+        // a lexer can match a set of characters less another set, but the exclusion of other tokens or sequences needs
+        // an action.
+        const set = this.lexical && this.getCharacterSet(node);
+        if (set && set.length > 0) {
+            this.writeSymbol(formatCharacterSet(set), node);
+        }
+        else {
+            this.emitNode(node.left);
+            this.reportOmitted(node, `but not ${this.getSourceText(node.right)}`);
+        }
+    }
+
+    protected emitOneOfSymbol(node: OneOfSymbol) {
+        this.writer.write(` (`);
+        for (let i = 0; i < (node.symbols || []).length; i++) {
+            if (i > 0) {
+                this.writer.write(` |`);
+            }
+
+            this.emitNode(node.symbols[i]);
+        }
+
+        this.writer.write(` )`);
+    }
+
+    protected emitEmptyAssertion(node: EmptyAssertion) {
+    }
+
+    protected emitLookaheadAssertion(node: LookaheadAssertion) {
+        this.reportOmitted(node);
+    }
+
+    protected emitLexicalGoalAssertion(node: LexicalGoalAssertion) {
+        this.reportOmitted(node);
+    }
+
+    protected emitNoSymbolHereAssertion(node: NoSymbolHereAssertion) {
+        this.reportOmitted(node);
+    }
+
+    protected emitProseAssertion(node: ProseAssertion) {
+        this.reportOmitted(node);
+    }
+
+    private emitRule(name: string) {
+        const productions = Dictionary.get(this.productions, name);
+        this.lexical = isLexical(productions[0]);
+        this.skipped = this.lexical && !!this.options.trivia && this.options.trivia.indexOf(name) >= 0;
+        this.alternativeCount = 0;
+        if (this.lexical && !Dictionary.has(this.tokens, name)) {
+            this.writer.write(`fragment `);
+        }
+
+        this.writer.write(Dictionary.get(this.ruleNames, name));
+        this.writer.indent();
+        if (this.lexical && productions.some(production => getRightHandSides(production).some(rhs => isLeftRecursive(rhs, name)))) {
+            this.emitLeftRecursiveRule(name, productions);
+        }
+        else {
+            for (const production of productions) {
+                this.emitNode(production);
+            }
+        }
+
+        if (this.alternativeCount === 0) {
+            this.writer.writeln();
+            this.writer.write(`:`);
+        }
+
+        this.endAlternative();
+        this.writer.writeln();
+        this.writer.write(`;`);
+        this.writer.dedent();
+    }
+
+    /**
+     * Emits a lexer rule with alternatives that start with the rule itself, which a lexer rule cannot do, as a repetition:
+     * `A :: B` and `A :: A C` becomes `A : ( B ) ( C )*`.
+     */
+    private emitLeftRecursiveRule(name: string, productions: Production[]) {
+        const heads: [Production, SymbolSpan][] = [];
+        const tails: [Production, SymbolSpan][] = [];
+        for (const production of productions) {
+            for (const rhs of getRightHandSides(production)) {
+                if (isLeftRecursive(rhs, name)) {
+                    tails.push([production, rhs.head.next]);
+                }
+                else {
+                    heads.push([production, rhs.head]);
+                }
+            }
+        }
+
+        this.writer.writeln();
+        this.writer.write(`:`);
+        this.alternativeCount = 1;
+        this.emitGroup(heads);
+        this.emitGroup(tails);
+        this.writer.write(`*`);
+    }
+
+    private emitGroup(spans: [Production, SymbolSpan][]) {
+        const texts: string[] = [];
+        for (const [production, span] of spans) {
+            this.setCurrentProduction(production);
+            const text = this.formatAlternative(span);
+            if (text !== undefined) {
+                texts.push(text);
+            }
+        }
+
+        this.writer.write(` (${texts.join(` |`)} )`);
+    }
+
+    private emitAlternative(node: Node) {
+        const text = this.formatAlternative(node);
+        if (text === undefined) {
+            return;
+        }
+
+        this.endAlternative();
+        this.writer.writeln();
+        this.writer.write(this.alternativeCount === 0 ? `:` : `|`);
+        this.alternativeCount++;
+        this.writer.write(text);
+    }
+
+    /**
+     * Gets the text of an alternative, or `undefined` if each of its symbols was omitted, as the alternative would
+     * otherwise match the empty string.
+     */
+    private formatAlternative(node: Node) {
+        const omittedCount = this.omittedCount;
+        const text = this.format(() => this.emitNode(node));
+        return text || this.omittedCount === omittedCount ? text : undefined;
+    }
+
+    private endAlternative() {
+        // a lexer command applies to a single alternative.
+        if (this.skipped && this.alternativeCount > 0) {
+            this.writer.write(` -> skip`);
+        }
+    }
+
+    private writeSymbol(text: string, node: Node) {
+        this.writer.write(` `);
+        this.writer.write(text);
+        if ((<Terminal>node).questionToken) {
+            this.writer.write(`?`);
+        }
+    }
+}
+
+function formatCharacterSet(set: CharacterSet) {
+    // a set that extends to the last code point is written as the complement of the characters it excludes.
+    if (set.length > 0 && set[set.length - 1][1] === maxCodePoint) {
+        const complement = subtractCharacterSets([[0, maxCodePoint]], set);
+        return complement.length === 0 ? `.` : `~${formatCharacterSetRanges(complement)}`;
+    }
+
+    return formatCharacterSetRanges(set);
+}
+
+function formatCharacterSetRanges(set: CharacterSet) {
+    let text = "[";
+    for (const range of set) {
+        text += escapeSetCharacter(range[0]);
+        if (range[1] > range[0]) {
+            text += "-" + escapeSetCharacter(range[1]);
+        }
+    }
+
+    return text + "]";
+}
+
+function escapeString(text: string) {
+    let result = "";
+    for (let i = 0; i < text.length; i++) {
+        const ch = text.charCodeAt(i);
+        if (ch >= 0xD800 && ch <= 0xDBFF && i + 1 < text.length) {
+            result += escapeCharacter((ch - 0xD800) * 0x400 + (text.charCodeAt(++i) - 0xDC00) + 0x10000);
+        }
+        else {
+            result += escapeCharacter(ch);
+        }
+    }
+
+    return result;
+}
+
+function escapeCharacter(codePoint: number) {
+    switch (codePoint) {
+        case 0x27: return "\\'";
+        case 0x5C: return "\\\\";
+    }
+
+    return codePoint >= 0x20 && codePoint < 0x7F ? String.fromCharCode(codePoint) : escapeCodePoint(codePoint);
+}
+
+function escapeSetCharacter(codePoint: number) {
+    switch (codePoint) {
+        case 0x5C: return "\\\\";
+        case 0x5D: return "\\]";
+        case 0x2D: return "\\-";
+    }
+
+    return codePoint > 0x20 && codePoint < 0x7F ? String.fromCharCode(codePoint) : escapeCodePoint(codePoint);
+}
+
+function escapeCodePoint(codePoint: number) {
+    if (codePoint > 0xFFFF) {
+        return `\\u{${codePoint.toString(16).toUpperCase()}}`;
+    }
+
+    const hex = codePoint.toString(16).toUpperCase();
+    return "\\u" + "0000".substr(hex.length) + hex;
+}
@@ -0,0 +1,321 @@
+import { EOL } from "os";
+import { SyntaxKind } from "../tokens";
+import { Dictionary } from "../core";
+import { getCodePointOfLiteral } from "../analyzer";
+import { ParserGrammarEmitter, getRightHandSides, isLexical } from "./parsergrammar";
+import {
+    Node,
+    SourceFile,
+    UnicodeCharacterLiteral,
+    UnicodeCharacterRange,
+    Prose,
+    OneOfList,
+    Terminal,
+    EmptyAssertion,
+    LookaheadAssertion,
+    NoSymbolHereAssertion,
+    LexicalGoalAssertion,
+    ProseAssertion,
+    Nonterminal,
+    OneOfSymbol,
+    LexicalSymbol,
+    ButNotSymbol,
+    RightHandSide
+} from "../nodes";
+
+// names that cannot be used for a symbol, as they are predefined by Bison or, for a token, defined by C headers.
+const reservedNames = ["error", "EOF", "NULL", "YYEOF", "YYUNDEF", "YYerror"];
+
+// the names of the punctuation characters, from which the names of tokens for punctuators are formed.
+const characterNames = new Dictionary<string>({
+    "!": "EXCLAMATION", "\"": "QUOTE", "#": "HASH", "$": "DOLLAR", "%": "PERCENT", "&": "AMPERSAND", "'": "APOSTROPHE",
+    "(": "LPAREN", ")": "RPAREN", "*": "ASTERISK", "+": "PLUS", ",": "COMMA", "-": "MINUS", ".": "DOT", "/": "SLASH",
+    ":": "COLON", ";": "SEMICOLON", "<": "LESS", "=": "EQUALS", ">": "GREATER", "?": "QUESTION", "@": "AT",
+    "[": "LBRACKET", "\\": "BACKSLASH", "]": "RBRACKET", "^": "CARET", "`": "BACKTICK", "{": "LBRACE", "|": "BAR",
+    "}": "RBRACE", "~": "TILDE"
+});
+
+/**
+ * Emits a Bison grammar (`.y`) of the syntactic productions.
+ *
+ * Each terminal is declared as a `%token` with its text as an alias, as is each lexical production referenced from a
+ * syntactic production, as Bison parses the tokens returned by a separate lexer. An optional symbol, `X?`, is replaced
+ * by an auxiliary rule, `X_opt`, that matches `X` or nothing. Lookahead and other assertions that Bison cannot express
+ * are omitted, and a diagnostic is reported for each.
+ */
+export class BisonEmitter extends ParserGrammarEmitter {
+    protected extension = ".y";
+    protected targetName = "Bison";
+
+    private ruleNames: Dictionary<string>;
+    private usedNames: Dictionary<boolean>;
+    private tokenNames: Dictionary<string>;
+    private tokenDeclarations: string[];
+    private optionalNames: Dictionary<string>;
+    private optionalRules: [string, string][];
+
+    protected emitSourceFile(node: SourceFile) {
+        // the productions of imported files are included, so the output is a complete grammar.
+        this.collectProductions();
+        this.ruleNames = this.getRuleNames(name => name, reservedNames);
+        this.usedNames = new Dictionary<boolean>();
+        this.syntacticNames.concat(this.lexicalNames).forEach(name => Dictionary.set(this.usedNames, Dictionary.get(this.ruleNames, name), true));
+        this.tokenNames = new Dictionary<string>();
+        this.tokenDeclarations = [];
+        this.optionalNames = new Dictionary<string>();
+        this.optionalRules = [];
+
+        // the rules are written first, as they determine the tokens that are declared.
+        const rules = this.format(() => {
+            for (const name of this.syntacticNames) {
+                this.writer.write(EOL);
+                this.emitRule(name);
+                this.writer.writeln();
+            }
+
+            for (const [name, symbol] of this.optionalRules) {
+                this.writer.write(EOL);
+                this.writeRule(name, [`/* empty */`, symbol]);
+                this.writer.writeln();
+            }
+        });
+
+        for (const declaration of this.tokenDeclarations) {
+            this.writer.write(`%token ${declaration}`);
+            this.writer.writeln();
+        }
+
+        // the start symbol is the first goal, or the first syntactic production.
+        const start = (this.options.goals || []).filter(name => this.syntacticNames.indexOf(name) >= 0)[0] || this.syntacticNames[0];
+        if (start) {
+            if (this.tokenDeclarations.length > 0) {
+                this.writer.write(EOL);
+            }
+
+            this.writer.write(`%start ${Dictionary.get(this.ruleNames, start)}`);
+            this.writer.writeln();
+        }
+
+        this.writer.write(EOL);
+        this.writer.write(`%%`);
+        this.writer.writeln();
+        this.writer.write(rules);
+    }
+
+    protected emitTerminal(node: Terminal) {
+        this.writeToken(node.text, node);
+    }
+
+    protected emitNonterminal(node: Nonterminal) {
+        const name = node.name && node.name.text;
+        const productions = Dictionary.get(this.productions, name);
+        const ruleName = Dictionary.has(this.ruleNames, name) ? Dictionary.get(this.ruleNames, name) : name;
+        if (productions && isLexical(productions[0]) && !Dictionary.has(this.tokenNames, ruleName)) {
+            Dictionary.set(this.tokenNames, ruleName, ruleName);
+            this.tokenDeclarations.push(ruleName);
+        }
+
+        this.writeSymbol(ruleName, ruleName, node);
+    }
+
+    protected emitUnicodeCharacterLiteral(node: UnicodeCharacterLiteral) {
+        const codePoint = getCodePointOfLiteral(node);
+        if (codePoint !== undefined) {
+            this.writeToken(codePoint > 0xFFFF
+                ? String.fromCharCode(Math.floor((codePoint - 0x10000) / 0x400) + 0xD800, (codePoint - 0x10000) % 0x400 + 0xDC00)
+                : String.fromCharCode(codePoint), node);
+        }
+        else {
+            this.reportOmitted(node);
+        }
+    }
+
+    protected emitUnicodeCharacterRange(node: UnicodeCharacterRange) {
+        this.reportOmitted(node);
+    }
+
+    protected emitProse(node: Prose) {
+        this.reportOmitted(node);
+    }
+
+    protected emitPlaceholder(node: LexicalSymbol) {
+        this.reportOmitted(node);
+    }
+
+    protected emitButNotSymbol(node: ButNotSymbol) {
+        // the exclusion is left to the lexer, or to an action.
+        this.emitNode(node.left);
+        this.reportOmitted(node, `but not ${this.getSourceText(node.right)}`);
+    }
+
+    protected emitOneOfSymbol(node: OneOfSymbol) {
+        this.reportOmitted(node);
+    }
+
+    protected emitEmptyAssertion(node: EmptyAssertion) {
+    }
+
+    protected emitLookaheadAssertion(node: LookaheadAssertion) {
+        this.reportOmitted(node);
+    }
+
+    protected emitLexicalGoalAssertion(node: LexicalGoalAssertion) {
+        this.reportOmitted(node);
+    }
+
+    protected emitNoSymbolHereAssertion(node: NoSymbolHereAssertion) {
+        this.reportOmitted(node);
+    }
+
+    protected emitProseAssertion(node: ProseAssertion) {
+        this.reportOmitted(node);
+    }
+
+    /**
+     * Emits the alternatives of a syntactic production. An alternative whose symbols are all omitted is left out, as it
+     * would otherwise match the empty string. A rule needs at least one alternative, so a rule whose alternatives are
+     * all left out matches the empty string.
+     */
+    private emitRule(name: string) {
+        const alternatives: string[] = [];
+        for (const production of Dictionary.get(this.productions, name)) {
+            this.setCurrentProduction(production);
+            const body = production.body;
+            if (body && body.kind === SyntaxKind.OneOfList) {
+                for (const terminal of (<OneOfList>body).terminals || []) {
+                    alternatives.push(this.format(() => this.emitNode(terminal)));
+                }
+            }
+            else {
+                for (const rhs of getRightHandSides(production)) {
+                    const text = this.formatSequence(rhs);
+                    if (text) {
+                        alternatives.push(text);
+                    }
+                }
+            }
+        }
+
+        this.writeRule(Dictionary.get(this.ruleNames, name), alternatives.length > 0 ? alternatives : [`/* empty */`]);
+    }
+
+    private formatSequence(rhs: RightHandSide) {
+        // a symbol that is omitted writes nothing, and is not separated from the other symbols.
+        const texts: string[] = [];
+        let omitted = false;
+        for (let span = rhs.head; span; span = span.next) {
+            if (isEmpty(span.symbol)) {
+                continue;
+            }
+
+            const text = this.format(() => this.emitNode(span.symbol));
+            if (text) {
+                texts.push(text);
+            }
+            else {
+                omitted = true;
+            }
+        }
+
+        return texts.length > 0 ? texts.join(` `) : omitted ? `` : `/* empty */`;
+    }
+
+    private writeRule(name: string, alternatives: string[]) {
+        this.writer.write(name);
+        this.writer.indent();
+        for (let i = 0; i < alternatives.length; i++) {
+            this.writer.writeln();
+            this.writer.write(`${i === 0 ? ":" : "|"} ${alternatives[i]}`);
+        }
+
+        this.writer.writeln();
+        this.writer.write(`;`);
+        this.writer.dedent();
+    }
+
+    /**
+     * Writes the alias of the token for a terminal, and declares the token when it is first used.
+     */
+    private writeToken(text: string, node: Node) {
+        let name = Dictionary.get(this.tokenNames, text);
+        if (name === undefined) {
+            name = this.getUniqueName(getTokenName(text));
+            Dictionary.set(this.tokenNames, text, name);
+            this.tokenDeclarations.push(`${name} ${formatString(text)}`);
+        }
+
+        this.writeSymbol(formatString(text), name, node);
+    }
+
+    /**
+     * Writes a symbol, or the auxiliary rule that makes it optional.
+     */
+    private writeSymbol(text: string, name: string, node: Node) {
+        if (!(<Terminal>node).questionToken) {
+            this.writer.write(text);
+            return;
+        }
+
+        let optionalName = Dictionary.get(this.optionalNames, text);
+        if (optionalName === undefined) {
+            optionalName = this.getUniqueName(`${name}_opt`);
+            Dictionary.set(this.optionalNames, text, optionalName);
+            this.optionalRules.push([optionalName, text]);
+        }
+
+        this.writer.write(optionalName);
+    }
+
+    private getUniqueName(name: string) {
+        while (Dictionary.has(this.usedNames, name) || reservedNames.indexOf(name) >= 0) {
+            name += "_";
+        }
+
+        Dictionary.set(this.usedNames, name, true);
+        return name;
+    }
+}
+
+function isEmpty(symbol: LexicalSymbol) {
+    return !symbol || symbol.kind === SyntaxKind.EmptyAssertion || symbol.kind === SyntaxKind.ParameterValueAssertion;
+}
+
+/**
+ * Gets the name of the token for a terminal: a word in upper case, `if` as `IF`, or the names of its characters,
+ * `=>` as `EQUALS_GREATER`.
+ */
+function getTokenName(text: string) {
+    const parts: string[] = [];
+    const re = /[A-Za-z0-9_]+|[^]/g;
+    let match: RegExpExecArray;
+    while (match = re.exec(text)) {
+        const part = match[0];
+        const ch = part.charCodeAt(0);
+        parts.push(/^\w/.test(part) ? part.toUpperCase()
+            : Dictionary.has(characterNames, part) ? Dictionary.get(characterNames, part)
+            : "U" + ("0000" + ch.toString(16).toUpperCase()).slice(-4));
+    }
+
+    const name = parts.join("_") || "EMPTY";
+    return /^\d/.test(name) ? "T_" + name : name;
+}
+
+function formatString(text: string) {
+    let result = `"`;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text.charCodeAt(i);
+        switch (ch) {
+            case 0x09: result += "\\t"; break;
+            case 0x0A: result += "\\n"; break;
+            case 0x0D: result += "\\r"; break;
+            case 0x22: result += "\\\""; break;
+            case 0x5C: result += "\\\\"; break;
+            default:
+                const hex = ch.toString(16).toUpperCase();
+                result += ch < 0x20 || ch === 0x7F ? "\\x" + (hex.length < 2 ? "0" : "") + hex : text.charAt(i);
+                break;
+        }
+    }
+
+    return result + `"`;
+}
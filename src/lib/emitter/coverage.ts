@@ -0,0 +1,38 @@
+import { CancellationToken } from "prex";
+import { HtmlEmitter } from "./html";
+import { DiagnosticMessages } from "../diagnostics";
+import { CompilerOptions } from "../options";
+import { Resolver } from "../checker";
+import { Coverage } from "../coverage";
+import { Node } from "../nodes";
+
+const coverageStyle = [
+    `.rhs.covered { border-left: 0.25em solid #8c8; padding-left: 0.25em; }`,
+    `.rhs.uncovered { border-left: 0.25em solid #d66; padding-left: 0.25em; }`,
+    `.uncovered { background-color: #fde0e0; }`
+];
+
+/**
+ * Emits an HTML document of a grammar annotated with its coverage. Each right-hand side, `one of` entry, and optional
+ * symbol has the class `covered` if it was matched by an input, or `uncovered` if it was not, and those that were not
+ * matched are highlighted.
+ */
+export class CoverageEmitter extends HtmlEmitter {
+    protected extension = ".coverage.html";
+
+    private coverage: Coverage;
+
+    constructor(options: CompilerOptions, resolver: Resolver, diagnostics: DiagnosticMessages, coverage: Coverage, cancellationToken = CancellationToken.none) {
+        super(options, resolver, diagnostics, cancellationToken);
+        this.coverage = coverage;
+    }
+
+    protected getStyle() {
+        return super.getStyle().concat(coverageStyle);
+    }
+
+    protected getClassName(node: Node, className: string) {
+        const count = this.coverage.getCount(node);
+        return count === undefined ? className : `${className} ${count > 0 ? "covered" : "uncovered"}`;
+    }
+}
@@ -0,0 +1,307 @@
+import { EOL } from "os";
+import { SyntaxKind } from "../tokens";
+import { Dictionary } from "../core";
+import { EbnfDialect } from "../options";
+import { getCodePointOfLiteral } from "../analyzer";
+import { ParserGrammarEmitter, getRightHandSides } from "./parsergrammar";
+import {
+    Node,
+    SourceFile,
+    UnicodeCharacterLiteral,
+    UnicodeCharacterRange,
+    Prose,
+    OneOfList,
+    Terminal,
+    EmptyAssertion,
+    LookaheadAssertion,
+    NoSymbolHereAssertion,
+    LexicalGoalAssertion,
+    ProseAssertion,
+    Nonterminal,
+    OneOfSymbol,
+    LexicalSymbol,
+    ButNotSymbol,
+    SymbolSpan,
+    RightHandSide,
+    Production
+} from "../nodes";
+
+/**
+ * Emits EBNF, either in the notation of the XML specification (W3C) or in the notation of ISO/IEC 14977.
+ *
+ * Parametric productions are expanded first, as EBNF has no parameters. Unicode characters and ranges are written as
+ * `#xNNNN` and `[#xNNNN-#xNNNN]`, and `but not` as an exception, `A - B`. Prose and the assertions that EBNF cannot
+ * express are written as comments in W3C EBNF. In ISO EBNF, prose and characters are written as special sequences,
+ * `? ... ?`, and assertions as comments.
+ */
+export class EbnfEmitter extends ParserGrammarEmitter {
+    protected extension = ".ebnf";
+    protected targetName = "EBNF";
+
+    private iso: boolean;
+    private inSequence: boolean;
+
+    protected emitSourceFile(node: SourceFile) {
+        // the productions of imported files are included, so the output is a complete grammar.
+        this.iso = this.options.ebnfDialect === EbnfDialect.iso;
+        this.collectProductions();
+        for (let i = 0; i < this.productionNames.length; i++) {
+            if (i > 0) {
+                this.writer.writeln();
+                this.writer.write(EOL);
+            }
+
+            this.emitRule(this.productionNames[i]);
+        }
+
+        this.writer.writeln();
+    }
+
+    protected emitRightHandSide(node: RightHandSide) {
+        this.emitNode(node.head);
+    }
+
+    protected emitSymbolSpan(node: SymbolSpan) {
+        const saveInSequence = this.inSequence;
+        try {
+            // a comment is not an element of the sequence, so it is not separated by a comma in ISO EBNF.
+            let first = true;
+            let hasElement = false;
+            for (let span = node; span; span = span.next) {
+                if (isEmpty(span.symbol)) {
+                    continue;
+                }
+
+                const comment = isComment(span.symbol);
+                if (!first) {
+                    this.writer.write(this.iso && hasElement && !comment ? `, ` : ` `);
+                }
+
+                this.inSequence = !first || !!span.next;
+                this.emitNode(span.symbol);
+                first = false;
+                hasElement = hasElement || !comment;
+            }
+        }
+        finally {
+            this.inSequence = saveInSequence;
+        }
+    }
+
+    protected emitTerminal(node: Terminal) {
+        this.writeOptional(formatString(node.text, this.iso ? `, ` : ` `), node, /*grouped*/ node.text.indexOf("'") < 0 || node.text.indexOf(`"`) < 0);
+    }
+
+    protected emitNonterminal(node: Nonterminal) {
+        this.writeOptional(node.name ? node.name.text : "", node, /*grouped*/ true);
+    }
+
+    protected emitUnicodeCharacterLiteral(node: UnicodeCharacterLiteral) {
+        const codePoint = getCodePointOfLiteral(node);
+        this.writeOptional(this.formatSpecial(codePoint !== undefined ? formatCodePoint(codePoint) : node.text, /*prose*/ codePoint === undefined), node, /*grouped*/ true);
+    }
+
+    protected emitUnicodeCharacterRange(node: UnicodeCharacterRange) {
+        const min = node.left && getCodePointOfLiteral(node.left);
+        const max = node.right && getCodePointOfLiteral(node.right);
+        this.writer.write(min !== undefined && max !== undefined
+            ? this.formatSpecial(`[${formatCodePoint(min)}-${formatCodePoint(max)}]`)
+            : this.formatSpecial(this.getSourceText(node), /*prose*/ true));
+    }
+
+    protected emitProse(node: Prose) {
+        const text = this.getSourceText(node).replace(/^>\s*/, "");
+        this.writer.write(this.formatSpecial(text, /*prose*/ true));
+    }
+
+    protected emitPlaceholder(node: LexicalSymbol) {
+        this.writer.write(this.formatSpecial(this.getSourceText(node), /*prose*/ true));
+    }
+
+    protected emitButNotSymbol(node: ButNotSymbol) {
+        const saveInSequence = this.inSequence;
+        const grouped = saveInSequence && !this.iso;
+        if (grouped) {
+            this.writer.write(`( `);
+        }
+
+        try {
+            this.inSequence = true;
+            this.emitNode(node.left);
+            this.writer.write(` - `);
+            this.emitNode(node.right);
+        }
+        finally {
+            this.inSequence = saveInSequence;
+        }
+
+        if (grouped) {
+            this.writer.write(` )`);
+        }
+    }
+
+    protected emitOneOfSymbol(node: OneOfSymbol) {
+        this.writer.write(`( `);
+        for (let i = 0; i < (node.symbols || []).length; i++) {
+            if (i > 0) {
+                this.writer.write(` | `);
+            }
+
+            this.emitNode(node.symbols[i]);
+        }
+
+        this.writer.write(` )`);
+    }
+
+    protected emitEmptyAssertion(node: EmptyAssertion) {
+    }
+
+    protected emitLookaheadAssertion(node: LookaheadAssertion) {
+        this.writer.write(this.formatComment(this.getSourceText(node)));
+    }
+
+    protected emitLexicalGoalAssertion(node: LexicalGoalAssertion) {
+        this.writer.write(this.formatComment(this.getSourceText(node)));
+    }
+
+    protected emitNoSymbolHereAssertion(node: NoSymbolHereAssertion) {
+        this.writer.write(this.formatComment(this.getSourceText(node)));
+    }
+
+    protected emitProseAssertion(node: ProseAssertion) {
+        this.writer.write(this.formatComment(this.getSourceText(node)));
+    }
+
+    /**
+     * Emits the alternatives of a production. EBNF has no empty alternative, so an empty alternative makes the other
+     * alternatives optional: `A : B` and `A : [empty]` becomes `A ::= ( B )?`.
+     */
+    private emitRule(name: string) {
+        const alternatives: [Production, Node][] = [];
+        let optional = false;
+        for (const production of Dictionary.get(this.productions, name)) {
+            const body = production.body;
+            if (body && body.kind === SyntaxKind.OneOfList) {
+                for (const terminal of (<OneOfList>body).terminals || []) {
+                    alternatives.push([production, terminal]);
+                }
+            }
+            else {
+                for (const rhs of getRightHandSides(production)) {
+                    if (isEmptyRightHandSide(rhs)) {
+                        optional = true;
+                    }
+                    else {
+                        alternatives.push([production, rhs]);
+                    }
+                }
+            }
+        }
+
+        const operator = this.iso ? `=` : `::=`;
+        const separator = optional ? ` | ` : EOL + repeat(" ", name.length + operator.length) + `| `;
+        this.writer.write(`${name} ${operator} `);
+        if (optional) {
+            this.writer.write(alternatives.length === 0 ? "" : this.iso ? `[ ` : `( `);
+        }
+
+        for (let i = 0; i < alternatives.length; i++) {
+            if (i > 0) {
+                this.writer.write(separator);
+            }
+
+            const [production, alternative] = alternatives[i];
+            this.setCurrentProduction(production);
+            this.emitNode(alternative);
+        }
+
+        if (optional) {
+            this.writer.write(alternatives.length === 0 ? this.formatComment("empty") : this.iso ? ` ]` : ` )?`);
+        }
+
+        if (this.iso) {
+            this.writer.write(`;`);
+        }
+    }
+
+    /**
+     * Writes a symbol that may be optional. A symbol that is not `grouped` is put in parentheses before it is made
+     * optional in W3C EBNF.
+     */
+    private writeOptional(text: string, node: Node, grouped: boolean) {
+        if (!(<Terminal>node).questionToken) {
+            this.writer.write(text);
+        }
+        else if (this.iso) {
+            this.writer.write(`[ ${text} ]`);
+        }
+        else {
+            this.writer.write(grouped ? `${text}?` : `( ${text} )?`);
+        }
+    }
+
+    /**
+     * Formats text as a special sequence in ISO EBNF. In W3C EBNF, text that is `prose` is a comment.
+     */
+    private formatSpecial(text: string, prose?: boolean) {
+        return this.iso ? `? ${text.replace(/\?/g, "")} ?` : prose ? this.formatComment(text) : text;
+    }
+
+    private formatComment(text: string) {
+        return this.iso ? `(* ${text.replace(/\*\)/g, "* )")} *)` : `/* ${text.replace(/\*\//g, "* /")} */`;
+    }
+}
+
+function isEmpty(symbol: LexicalSymbol) {
+    return !symbol || symbol.kind === SyntaxKind.EmptyAssertion || symbol.kind === SyntaxKind.ParameterValueAssertion;
+}
+
+function isComment(symbol: LexicalSymbol) {
+    switch (symbol.kind) {
+        case SyntaxKind.LookaheadAssertion:
+        case SyntaxKind.LexicalGoalAssertion:
+        case SyntaxKind.NoSymbolHereAssertion:
+        case SyntaxKind.ProseAssertion:
+            return true;
+    }
+
+    return false;
+}
+
+function isEmptyRightHandSide(rhs: RightHandSide) {
+    for (let span = rhs.head; span; span = span.next) {
+        if (!isEmpty(span.symbol)) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Formats a string as a terminal. A string that contains both kinds of quote is split into a sequence of terminals.
+ */
+function formatString(text: string, separator: string) {
+    if (text.indexOf("'") < 0) {
+        return `'${text}'`;
+    }
+    else if (text.indexOf(`"`) < 0) {
+        return `"${text}"`;
+    }
+
+    return text.match(/[^']+|'+/g).map(part => part.charAt(0) === "'" ? `"${part}"` : `'${part}'`).join(separator);
+}
+
+function formatCodePoint(codePoint: number) {
+    const hex = codePoint.toString(16).toUpperCase();
+    return "#x" + (hex.length < 4 ? "0000".substr(hex.length) : "") + hex;
+}
+
+function repeat(text: string, count: number) {
+    let result = "";
+    for (let i = 0; i < count; i++) {
+        result += text;
+    }
+
+    return result;
+}
@@ -42,27 +42,31 @@ export class EcmarkupEmitter extends Emitter {
     protected emitProduction(node: Production) {
         const linkId = this.resolver.getProductionLinkId(node.name);
         this.emitLinkAnchor(linkId);
-        this.writer.write(`<emu-production name="`);
-        this.emitIdentifier(node.name);
-        this.writer.write(`"`);
-        this.emitNode(node.parameterList);
-        if (node.colonToken) {
-            switch (node.colonToken.kind) {
-                case SyntaxKind.ColonColonToken:
-                    this.writer.write(` type="lexical"`);
-                    break;
 
-                case SyntaxKind.ColonColonColonToken:
-                    this.writer.write(` type="regexp"`);
-                    break;
-            }
+        // the heading of a production is rendered from its attributes, so a production that was renamed or whose
+        // parameters were changed follows the heading of the base grammar, as a deleted production without alternatives.
+        let replacedName: string;
+        this.emitReplacedHeading(node, heading => {
+            replacedName = heading.name.text;
+            this.emitChangeStart(heading);
+            this.emitProductionStart(heading);
+            this.writer.write(`></emu-production>`);
+            this.emitChangeEnd(heading);
+            this.writer.writeln();
+        });
+
+        this.emitChangeStart(node);
+        this.emitProductionStart(node);
+        if (replacedName === node.name.text) {
+            // the first production with a name is otherwise the one that is linked to.
+            this.writer.write(` primary`);
         }
 
         if (node.body) {
             if (node.body.kind === SyntaxKind.OneOfList) {
                 this.writer.write(` oneof`);
             }
-            else if (node.body.kind === SyntaxKind.RightHandSide) {
+            else if (node.body.kind === SyntaxKind.RightHandSide && !this.hasDeletions(node.body)) {
                 this.writer.write(` collapsed`);
             }
         }
@@ -70,10 +74,17 @@ export class EcmarkupEmitter extends Emitter {
         this.writer.write(`>`);
         this.writer.indent();
         this.writer.writeln();
-        this.emitNode(node.body);
+        if (node.body && node.body.kind === SyntaxKind.RightHandSide) {
+            this.emitAlternatives([<RightHandSide>node.body], rhs => this.emitNode(rhs));
+        }
+        else {
+            this.emitNode(node.body);
+        }
+
         this.writer.dedent();
         this.writer.writeln();
         this.writer.write(`</emu-production>`);
+        this.emitChangeEnd(node);
         this.emitTrailingHtmlTriviaOfNode(node);
         this.writer.writeln();
     }
@@ -97,26 +108,29 @@ export class EcmarkupEmitter extends Emitter {
 
     protected emitOneOfList(node: OneOfList) {
         this.writer.write(`<emu-rhs>`);
-        for (let i = 0; i < node.terminals.length; ++i) {
-            if (i > 0) {
+        let first = true;
+        this.emitAlternatives(node.terminals, terminal => {
+            if (!first) {
                 this.writer.write(` `);
             }
 
-            this.emitTextContent(node.terminals[i]);
-        }
+            first = false;
+            this.emitChangeStart(terminal);
+            this.emitTextContent(terminal);
+            this.emitChangeEnd(terminal);
+        });
         this.writer.write(`</emu-rhs>`);
         this.emitTrailingHtmlTriviaOfNode(node);
         this.writer.writeln();
     }
 
     protected emitRightHandSideList(node: RightHandSideList) {
-        for (const rhs of node.elements) {
-            this.emitNode(rhs);
-        }
+        this.emitAlternatives(node.elements, rhs => this.emitNode(rhs));
     }
 
     protected emitRightHandSide(node: RightHandSide) {
         const linkId = this.resolver.getRightHandSideLinkId(node, /*includePrefix*/ false);
+        this.emitChangeStart(node);
         this.emitLinkAnchor(linkId);
 
         this.writer.write(`<emu-rhs`);
@@ -134,7 +148,7 @@ export class EcmarkupEmitter extends Emitter {
         }
 
         this.writer.write(`>`);
-        if (head.next) {
+        if (head.next || this.hasDeletions(head.symbol)) {
             this.writer.indent();
             this.writer.writeln();
             this.emitNode(head);
@@ -146,18 +160,23 @@ export class EcmarkupEmitter extends Emitter {
         }
 
         this.writer.write(`</emu-rhs>`);
+        this.emitChangeEnd(node);
         this.emitTrailingHtmlTriviaOfNode(node);
         this.writer.writeln();
     }
 
     protected emitSymbolSpan(node: SymbolSpan) {
-        this.emitNode(node.symbol);
+        this.emitSymbol(node.symbol);
         if (node.next) {
-            this.writer.writeln();
+            this.emitSymbolSeparator();
             this.emitNode(node.next);
         }
     }
 
+    protected emitSymbolSeparator() {
+        this.writer.writeln();
+    }
+
     protected emitPlaceholder(node: LexicalSymbol) {
         this.writer.write(`<emu-t placeholder>@</emu-t>`);
     }
@@ -336,6 +355,24 @@ export class EcmarkupEmitter extends Emitter {
         }
     }
 
+    private emitProductionStart(node: Production) {
+        this.writer.write(`<emu-production name="`);
+        this.emitIdentifier(node.name);
+        this.writer.write(`"`);
+        this.emitNode(node.parameterList);
+        if (node.colonToken) {
+            switch (node.colonToken.kind) {
+                case SyntaxKind.ColonColonToken:
+                    this.writer.write(` type="lexical"`);
+                    break;
+
+                case SyntaxKind.ColonColonColonToken:
+                    this.writer.write(` type="regexp"`);
+                    break;
+            }
+        }
+    }
+
     private emitLinkAnchor(linkId: string) {
         if (linkId && this.options.emitLinks) {
             this.writer.write(`<a name="${linkId}"></a>`);
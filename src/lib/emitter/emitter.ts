@@ -6,8 +6,9 @@ import { CompilerOptions } from "../options";
 import { Checker, Resolver } from "../checker";
 import { StringWriter } from "../stringwriter";
 import { SyntaxKind, tokenToString } from "../tokens";
-import { TextRange } from "../core";
+import { Dictionary, TextRange } from "../core";
 import { scanHtmlTrivia } from "../scanner";
+import { GrammarChange } from "../grammardiff";
 import {
     Node,
     SourceFile,
@@ -40,6 +41,7 @@ import {
     RightHandSideList,
     Production,
     Import,
+    Define,
     SourceElement,
     TextContent,
     forEachChild
@@ -50,11 +52,14 @@ export class Emitter {
     protected resolver: Resolver;
     protected writer: StringWriter;
     protected extension: string;
+    protected diagnostics: DiagnosticMessages;
 
-    private diagnostics: DiagnosticMessages;
     private sourceFile: SourceFile;
     private triviaPos: number;
-    private cancellationToken: CancellationToken;
+    protected cancellationToken: CancellationToken;
+    private changeMarks: ChangeMarks;
+    private deleting: boolean;
+    private markedNode: Node;
 
     constructor(options: CompilerOptions, resolver: Resolver, diagnostics: DiagnosticMessages, cancellationToken = CancellationToken.none) {
         this.options = options;
@@ -86,6 +91,15 @@ export class Emitter {
         }
     }
 
+    /**
+     * Sets the changes from a base grammar to mark in the output with `<ins>` and `<del>`, or `undefined` to mark no
+     * changes. The productions, alternatives and symbols of the base grammar that were deleted are emitted with the
+     * resolver of the base grammar. Only the `markdown` and `ecmarkup` formats mark changes.
+     */
+    public setChanges(changes: GrammarChange[], baseResolver: Resolver): void {
+        this.changeMarks = changes ? createChangeMarks(changes, baseResolver) : undefined;
+    }
+
     protected writeFile(file: string, text: string, callback?: (file: string, text: string) => void): void {
         if (callback) {
             callback(file, text);
@@ -132,6 +146,7 @@ export class Emitter {
             case SyntaxKind.ArgumentList: this.emitArgumentList(<ArgumentList>node); break;
             case SyntaxKind.Production: this.emitProduction(<Production>node); break;
             case SyntaxKind.Import: this.emitImport(<Import>node); break;
+            case SyntaxKind.Define: this.emitDefine(<Define>node); break;
             case SyntaxKind.OneOfList: this.emitOneOfList(<OneOfList>node); break;
             case SyntaxKind.RightHandSideList: this.emitRightHandSideList(<RightHandSideList>node); break;
             case SyntaxKind.RightHandSide: this.emitRightHandSide(<RightHandSide>node); break;
@@ -159,7 +174,92 @@ export class Emitter {
 
     protected emitSourceFile(node: SourceFile) {
         for (const element of node.elements) {
+            this.emitDeletions(this.getDeletionsBefore(element), deleted => this.emitNode(deleted));
             this.emitNode(element);
+            this.emitDeletions(this.getDeletionsAfter(element), deleted => this.emitNode(deleted));
+        }
+    }
+
+    /**
+     * Emits the alternatives of a production, with the alternatives of the base grammar that were deleted next to them.
+     */
+    protected emitAlternatives<T extends RightHandSide | Terminal>(nodes: T[], emitAlternative: (node: T) => void) {
+        for (const node of nodes) {
+            this.emitDeletions(this.getDeletionsBefore(node), emitAlternative);
+            emitAlternative(node);
+            this.emitDeletions(this.getDeletionsAfter(node), emitAlternative);
+        }
+    }
+
+    /**
+     * Emits a symbol of a right-hand side, with the symbols of the base grammar that were deleted next to it.
+     */
+    protected emitSymbol(node: LexicalSymbol) {
+        this.emitDeletions(this.getDeletionsBefore(node), deleted => {
+            this.emitMarkedSymbol(deleted);
+            this.emitSymbolSeparator();
+        });
+
+        this.emitMarkedSymbol(node);
+        this.emitDeletions(this.getDeletionsAfter(node), deleted => {
+            this.emitSymbolSeparator();
+            this.emitMarkedSymbol(deleted);
+        });
+    }
+
+    protected emitSymbolSeparator() {
+        this.writer.write(` `);
+    }
+
+    /**
+     * Emits the name of a production, after the name of the base grammar that it was renamed from.
+     */
+    protected emitProductionName(node: Production, emitName: (node: Identifier) => void) {
+        this.emitDeletions(this.getDeletionsOfProduction(this.changeMarks && this.changeMarks.deletedNames, node), name => this.emitMarked(name, emitName));
+        this.emitMarked(node.name, emitName);
+    }
+
+    /**
+     * Emits the parameters of a production, after the parameters of the base grammar that they replaced.
+     */
+    protected emitProductionParameters(node: Production) {
+        const emitParameterList = (parameterList: ParameterList) => this.emitNode(parameterList);
+        this.emitDeletions(this.getDeletionsOfProduction(this.changeMarks && this.changeMarks.deletedParameterLists, node), parameterList => this.emitMarked(parameterList, emitParameterList));
+        if (node.parameterList) {
+            this.emitMarked(node.parameterList, emitParameterList);
+        }
+    }
+
+    /**
+     * Emits the production of the base grammar whose name or parameters were changed to those of a production.
+     */
+    protected emitReplacedHeading(node: Production, emitHeading: (node: Production) => void) {
+        this.emitDeletions(this.getDeletionsOfProduction(this.changeMarks && this.changeMarks.replacedHeadings, node), emitHeading);
+    }
+
+    /**
+     * Determines whether nodes of the base grammar that were deleted are emitted next to a node.
+     */
+    protected hasDeletions(node: Node) {
+        return this.getDeletionsBefore(node).length > 0 || this.getDeletionsAfter(node).length > 0;
+    }
+
+    /**
+     * Emits the start of the markup of a node that was inserted, or of a node of the base grammar that was deleted. A
+     * node within a node that is already marked is not marked again.
+     */
+    protected emitChangeStart(node: Node) {
+        const tag = this.getChangeTag(node);
+        if (tag && !this.markedNode) {
+            this.writer.write(`<${tag}>`);
+            this.markedNode = node;
+        }
+    }
+
+    protected emitChangeEnd(node: Node) {
+        if (node && this.markedNode === node) {
+            this.writer.write(`</${this.getChangeTag(node)}>`);
+            this.markedNode = undefined;
         }
     }
 
@@ -222,6 +322,9 @@ export class Emitter {
     protected emitImport(node: Import): void {
     }
 
+    protected emitDefine(node: Define): void {
+    }
+
     protected emitOneOfList(node: OneOfList): void {
         forEachChild(node, child => this.emitNode(child));
     }
@@ -345,6 +448,205 @@ export class Emitter {
     protected emitHtmlTrivia(range: TextRange) {
         this.writer.write(this.sourceFile.text.substring(range.pos, range.end));
     }
+
+    private emitMarkedSymbol(node: LexicalSymbol) {
+        this.emitMarked(node, symbol => this.emitNode(symbol));
+    }
+
+    private emitMarked<T extends Node>(node: T, emitNode: (node: T) => void) {
+        this.emitChangeStart(node);
+        emitNode(node);
+        this.emitChangeEnd(node);
+    }
+
+    private getChangeTag(node: Node) {
+        if (this.changeMarks && node) {
+            if (this.deleting) {
+                return Dictionary.has(this.changeMarks.deleted, node.id) ? "del" : undefined;
+            }
+
+            return Dictionary.has(this.changeMarks.inserted, node.id) ? "ins" : undefined;
+        }
+
+        return undefined;
+    }
+
+    private getDeletionsBefore(node: Node): Deletion[] {
+        return this.changeMarks && !this.deleting && Dictionary.get(this.changeMarks.deletedBefore, node.id) || [];
+    }
+
+    private getDeletionsAfter(node: Node): Deletion[] {
+        return this.changeMarks && !this.deleting && Dictionary.get(this.changeMarks.deletedAfter, node.id) || [];
+    }
+
+    private getDeletionsOfProduction(deletions: Dictionary<Deletion>, node: Production): Deletion[] {
+        const deletion = deletions && !this.deleting && Dictionary.get(deletions, node.id);
+        return deletion ? [deletion] : [];
+    }
+
+    /**
+     * Emits nodes of the base grammar, with its resolver and source files. The HTML trivia of the base grammar is not
+     * emitted.
+     */
+    private emitDeletions<T extends Node>(deletions: Deletion[], emitNode: (node: T) => void) {
+        for (const deletion of deletions) {
+            const saveResolver = this.resolver;
+            const saveSourceFile = this.sourceFile;
+            const saveTriviaPos = this.triviaPos;
+            try {
+                this.resolver = this.changeMarks.baseResolver;
+                this.sourceFile = deletion.sourceFile;
+                this.triviaPos = deletion.sourceFile.text.length;
+                this.deleting = true;
+                emitNode(<T>deletion.node);
+            }
+            finally {
+                this.resolver = saveResolver;
+                this.sourceFile = saveSourceFile;
+                this.triviaPos = saveTriviaPos;
+                this.deleting = false;
+            }
+        }
+    }
+}
+
+interface Deletion {
+    node: Node;
+    sourceFile: SourceFile;
+}
+
+/**
+ * The changes from a base grammar to mark in the output. Nodes of the new grammar are marked as inserted, and nodes of
+ * the base grammar that were deleted are emitted before or after a node of the new grammar, by its id. The name,
+ * parameters, and heading of the base grammar that a production replaced are found by the id of the production.
+ */
+interface ChangeMarks {
+    baseResolver: Resolver;
+    inserted: Dictionary<boolean>;
+    deleted: Dictionary<boolean>;
+    deletedBefore: Dictionary<Deletion[]>;
+    deletedAfter: Dictionary<Deletion[]>;
+    deletedNames: Dictionary<Deletion>;
+    deletedParameterLists: Dictionary<Deletion>;
+    replacedHeadings: Dictionary<Deletion>;
+}
+
+function createChangeMarks(changes: GrammarChange[], baseResolver: Resolver): ChangeMarks {
+    const marks: ChangeMarks = {
+        baseResolver,
+        inserted: new Dictionary<boolean>(),
+        deleted: new Dictionary<boolean>(),
+        deletedBefore: new Dictionary<Deletion[]>(),
+        deletedAfter: new Dictionary<Deletion[]>(),
+        deletedNames: new Dictionary<Deletion>(),
+        deletedParameterLists: new Dictionary<Deletion>(),
+        replacedHeadings: new Dictionary<Deletion>()
+    };
+
+    for (const change of changes) {
+        switch (change.kind) {
+            case "productionAdded":
+                // an added or removed production is marked along with each of its alternatives, for formats that
+                // cannot mark a production as a whole.
+                Dictionary.set(marks.inserted, change.newNode.id, true);
+                for (const alternative of getAlternatives(<Production>change.newNode)) {
+                    Dictionary.set(marks.inserted, alternative.id, true);
+                }
+
+                break;
+
+            case "productionRemoved":
+            case "alternativeRemoved":
+                const deletion = { node: change.oldNode, sourceFile: change.oldSourceFile };
+                if (change.nextNode) {
+                    Dictionary.getOrCreate(marks.deletedBefore, change.nextNode.id, () => []).push(deletion);
+                }
+                else if (change.previousNode) {
+                    Dictionary.getOrCreate(marks.deletedAfter, change.previousNode.id, () => []).push(deletion);
+                }
+
+                const deleted = change.kind === "productionRemoved" ? [change.oldNode, ...getAlternatives(<Production>change.oldNode)] : [change.oldNode];
+                for (const node of deleted) {
+                    Dictionary.set(marks.deleted, node.id, true);
+                }
+
+                break;
+
+            case "productionRenamed":
+                const oldName = (<Production>change.oldNode).name;
+                Dictionary.set(marks.deletedNames, change.newNode.id, { node: oldName, sourceFile: change.oldSourceFile });
+                Dictionary.set(marks.deleted, oldName.id, true);
+                Dictionary.set(marks.inserted, (<Production>change.newNode).name.id, true);
+                Dictionary.set(marks.replacedHeadings, change.newNode.id, { node: change.oldNode, sourceFile: change.oldSourceFile });
+                Dictionary.set(marks.deleted, change.oldNode.id, true);
+                break;
+
+            case "parametersChanged":
+                const oldParameterList = (<Production>change.oldNode).parameterList;
+                const newParameterList = (<Production>change.newNode).parameterList;
+                if (oldParameterList) {
+                    Dictionary.set(marks.deletedParameterLists, change.newNode.id, { node: oldParameterList, sourceFile: change.oldSourceFile });
+                    Dictionary.set(marks.deleted, oldParameterList.id, true);
+                }
+
+                if (newParameterList) {
+                    Dictionary.set(marks.inserted, newParameterList.id, true);
+                }
+
+                Dictionary.set(marks.replacedHeadings, change.newNode.id, { node: change.oldNode, sourceFile: change.oldSourceFile });
+                Dictionary.set(marks.deleted, change.oldNode.id, true);
+                break;
+
+            case "alternativeAdded":
+                Dictionary.set(marks.inserted, change.newNode.id, true);
+                break;
+
+            case "alternativeChanged":
+                // a deleted symbol is emitted before the next symbol of the new grammar, or after the last one.
+                let pending: Deletion[] = [];
+                let last: Node;
+                for (const symbol of change.symbols) {
+                    if (symbol.kind !== "unchanged" && symbol.oldSymbol) {
+                        pending.push({ node: symbol.oldSymbol, sourceFile: change.oldSourceFile });
+                        Dictionary.set(marks.deleted, symbol.oldSymbol.id, true);
+                    }
+
+                    if (symbol.newSymbol) {
+                        if (symbol.kind !== "unchanged") {
+                            Dictionary.set(marks.inserted, symbol.newSymbol.id, true);
+                        }
+
+                        if (pending.length > 0) {
+                            Dictionary.getOrCreate(marks.deletedBefore, symbol.newSymbol.id, () => []).push(...pending);
+                            pending = [];
+                        }
+
+                        last = symbol.newSymbol;
+                    }
+                }
+
+                if (pending.length > 0 && last) {
+                    Dictionary.getOrCreate(marks.deletedAfter, last.id, () => []).push(...pending);
+                }
+
+                break;
+        }
+    }
+
+    return marks;
+}
+
+function getAlternatives(production: Production): Node[] {
+    const body = production && production.body;
+    if (body) {
+        switch (body.kind) {
+            case SyntaxKind.OneOfList: return (<OneOfList>body).terminals || [];
+            case SyntaxKind.RightHandSideList: return (<RightHandSideList>body).elements || [];
+            case SyntaxKind.RightHandSide: return [body];
+        }
+    }
+
+    return [];
 }
 
 function writeOutputFile(file: string, text: string): void {
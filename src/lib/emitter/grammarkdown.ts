@@ -0,0 +1,582 @@
+import { Emitter } from "./emitter";
+import { SyntaxKind, CharacterCodes, tokenToString } from "../tokens";
+import { Diagnostic, DiagnosticMessages, Diagnostics } from "../diagnostics";
+import { TextRange } from "../core";
+import { Parser } from "../parser";
+import { formatIdentifier } from "../scanner";
+import {
+    Node,
+    SourceFile,
+    UnicodeCharacterLiteral,
+    UnicodeCharacterRange,
+    Prose,
+    Identifier,
+    Parameter,
+    ParameterList,
+    OneOfList,
+    Terminal,
+    SymbolSet,
+    EmptyAssertion,
+    LookaheadAssertion,
+    NoSymbolHereAssertion,
+    LexicalGoalAssertion,
+    ParameterValueAssertion,
+    ProseAssertion,
+    Argument,
+    ArgumentList,
+    Nonterminal,
+    OneOfSymbol,
+    ButNotSymbol,
+    SymbolSpan,
+    RightHandSide,
+    RightHandSideList,
+    Production,
+    Import,
+    Define,
+    SourceElement,
+    TextContent,
+    forEachChild
+} from "../nodes";
+
+/**
+ * Writes a source file back out as grammarkdown in a canonical layout.
+ *
+ * Productions start at the beginning of a line and the right-hand sides of a production are indented with a tab. The
+ * terminals of a `one of` list are aligned in columns, and argument and parameter lists are written as `[A, B]`.
+ * Comments and HTML trivia are kept, as is the text of terminals and prose.
+ *
+ * The output is parsed again before it is written. If the source file has syntax errors, or if the output would not
+ * parse to the same tree, an error is reported and the original text is written unchanged.
+ */
+export class GrammarkdownEmitter extends Emitter {
+    protected extension = ".grammar";
+
+    private text: string;
+    private newLine: string;
+    private depth: number;
+    private lastTokenEnd: number;
+    private pendingLineBreaks: number;
+    private pendingSpaces: number;
+
+    protected emitSourceFile(node: SourceFile) {
+        // text skipped by the parser while recovering from an error would be lost.
+        if (!isValidSourceFile(node)) {
+            this.reportFormatError(node, Diagnostics.Cannot_format_0_because_it_contains_syntax_errors);
+            return;
+        }
+
+        this.text = node.text;
+        this.newLine = /\r\n/.test(node.text) ? "\r\n" : "\n";
+        this.depth = 0;
+        this.lastTokenEnd = 0;
+        this.pendingLineBreaks = 0;
+        this.pendingSpaces = 0;
+
+        let previous: SourceElement;
+        for (const element of node.elements) {
+            if (previous) {
+                // consecutive single-line elements stay together unless they were separated by a blank line.
+                const isGrouped = isSingleLineElement(previous) && isSingleLineElement(element)
+                    && countLineBreaks(this.text, this.lastTokenEnd, element.pos) < 2;
+                this.writeLineBreak(isGrouped ? 1 : 2);
+            }
+
+            this.emitNode(element);
+            previous = element;
+        }
+
+        this.writeLineBreak(1);
+        this.emitCommentsBefore(this.text.length);
+        if (this.writer.toString().length > 0) {
+            this.writer.write(this.newLine);
+        }
+
+        if (!isValidSourceFile(node, this.writer.toString())) {
+            this.reportFormatError(node, Diagnostics.The_formatted_output_of_0_does_not_preserve_its_syntax_tree);
+        }
+    }
+
+    protected emitLeadingHtmlTriviaOfNode(node: Node) {
+        // trivia is written along with the token that follows it.
+    }
+
+    protected emitTrailingHtmlTriviaOfNode(node: Node) {
+    }
+
+    protected emitToken(node: Node) {
+        if (node) {
+            this.writeToken(node, tokenToString(node.kind));
+        }
+    }
+
+    protected emitTerminal(node: Terminal) {
+        this.writeToken(node, this.getTokenText(node));
+        this.emitToken(node.questionToken);
+    }
+
+    protected emitUnicodeCharacterLiteral(node: UnicodeCharacterLiteral) {
+        this.writeToken(node, this.getTokenText(node));
+        this.emitToken(node.questionToken);
+    }
+
+    protected emitIdentifier(node: Identifier) {
+        this.writeToken(node, formatIdentifier(node.text));
+    }
+
+    protected emitProse(node: Prose) {
+        this.emitToken(node.greaterThanToken);
+        if (node.fragments && node.fragments.length > 0) {
+            // the text of multi-line prose includes the indentation of its continuation lines, so it is written as is.
+            const first = node.fragments[0];
+            const last = node.fragments[node.fragments.length - 1];
+            this.writeSpace();
+            this.writeToken({ pos: first.pos, end: last.end }, this.text.substring(first.pos, last.end));
+        }
+    }
+
+    protected emitParameter(node: Parameter) {
+        this.emitNode(node.name);
+    }
+
+    protected emitParameterList(node: ParameterList) {
+        this.emitToken(node.openParenToken);
+        this.emitList(node.elements, ",");
+        this.emitToken(node.closeParenToken);
+    }
+
+    protected emitArgument(node: Argument) {
+        this.emitToken(node.operatorToken);
+        this.emitNode(node.name);
+    }
+
+    protected emitArgumentList(node: ArgumentList) {
+        this.emitToken(node.openParenToken);
+        this.emitList(node.elements, ",");
+        this.emitToken(node.closeParenToken);
+    }
+
+    protected emitProduction(node: Production) {
+        this.emitNode(node.name);
+        this.emitNode(node.parameterList);
+        this.writeSpace();
+        this.emitToken(node.colonToken);
+        if (node.body && node.body.kind !== SyntaxKind.RightHandSideList) {
+            this.writeSpace();
+        }
+
+        this.emitNode(node.body);
+    }
+
+    protected emitImport(node: Import) {
+        this.emitToken(node.atToken);
+        this.emitToken(node.importKeyword);
+        if (node.path) {
+            this.writeSpace();
+            this.writeToken(node.path, this.text.substring(node.path.pos, node.path.end));
+        }
+    }
+
+    protected emitDefine(node: Define) {
+        this.emitToken(node.atToken);
+        this.emitToken(node.defineKeyword);
+        this.writeSpace();
+        this.emitNode(node.key);
+        this.writeSpace();
+        this.emitToken(node.valueToken);
+    }
+
+    protected emitOneOfList(node: OneOfList) {
+        this.emitToken(node.oneKeyword);
+        this.writeSpace();
+        this.emitToken(node.ofKeyword);
+        const terminals = node.terminals || [];
+        if (!node.openIndentToken) {
+            for (const terminal of terminals) {
+                this.writeSpace();
+                this.emitNode(terminal);
+            }
+
+            return;
+        }
+
+        // terminals keep the rows they were written in, and are aligned in columns.
+        const rows: Terminal[][] = [];
+        const widths: number[] = [];
+        for (let i = 0; i < terminals.length; i++) {
+            if (i === 0 || countLineBreaks(this.text, terminals[i - 1].end, terminals[i].pos) > 0) {
+                rows.push([]);
+            }
+
+            const row = rows[rows.length - 1];
+            widths[row.length] = Math.max(widths[row.length] || 0, this.getTokenText(terminals[i]).length);
+            row.push(terminals[i]);
+        }
+
+        this.depth++;
+        for (const row of rows) {
+            this.writeLineBreak(1);
+            for (let i = 0; i < row.length; i++) {
+                if (i > 0) {
+                    this.writeSpace(widths[i - 1] - this.getTokenText(row[i - 1]).length + 1);
+                }
+
+                this.emitNode(row[i]);
+            }
+        }
+
+        this.depth--;
+    }
+
+    protected emitRightHandSideList(node: RightHandSideList) {
+        this.depth++;
+        for (const rhs of node.elements) {
+            this.writeLineBreak(1);
+            this.emitNode(rhs);
+        }
+
+        this.depth--;
+    }
+
+    protected emitRightHandSide(node: RightHandSide) {
+        this.emitNode(node.head);
+        if (node.reference) {
+            this.writeSpace();
+            this.writeToken(node.reference, this.text.substring(node.reference.pos, node.reference.end));
+        }
+    }
+
+    protected emitSymbolSpan(node: SymbolSpan) {
+        this.emitNode(node.symbol);
+        if (node.next) {
+            this.writeSpace();
+            this.emitNode(node.next);
+        }
+    }
+
+    protected emitUnicodeCharacterRange(node: UnicodeCharacterRange) {
+        this.emitNode(node.left);
+        this.writeSpace();
+        this.emitToken(node.throughKeyword);
+        this.writeSpace();
+        this.emitNode(node.right);
+    }
+
+    protected emitButNotSymbol(node: ButNotSymbol) {
+        this.emitNode(node.left);
+        this.writeSpace();
+        this.emitToken(node.butKeyword);
+        this.writeSpace();
+        this.emitToken(node.notKeyword);
+        this.writeSpace();
+        this.emitNode(node.right);
+    }
+
+    protected emitOneOfSymbol(node: OneOfSymbol) {
+        this.emitToken(node.oneKeyword);
+        this.writeSpace();
+        this.emitToken(node.ofKeyword);
+        this.writeSpace();
+        this.emitList(node.symbols, " or");
+    }
+
+    protected emitNonterminal(node: Nonterminal) {
+        this.emitNode(node.name);
+        this.emitNode(node.argumentList);
+        this.emitToken(node.questionToken);
+    }
+
+    protected emitSymbolSet(node: SymbolSet) {
+        this.emitToken(node.openBraceToken);
+        this.writeSpace();
+        this.emitList(node.elements, ",");
+        this.writeSpace();
+        this.emitToken(node.closeBraceToken);
+    }
+
+    protected emitEmptyAssertion(node: EmptyAssertion) {
+        this.emitToken(node.openBracketToken);
+        this.emitToken(node.emptyKeyword);
+        this.emitToken(node.closeBracketToken);
+    }
+
+    protected emitLookaheadAssertion(node: LookaheadAssertion) {
+        this.emitToken(node.openBracketToken);
+        this.emitToken(node.lookaheadKeyword);
+        this.writeSpace();
+        this.emitToken(node.operatorToken);
+        this.writeSpace();
+        this.emitNode(node.lookahead);
+        this.emitToken(node.closeBracketToken);
+    }
+
+    protected emitLexicalGoalAssertion(node: LexicalGoalAssertion) {
+        this.emitToken(node.openBracketToken);
+        this.emitToken(node.lexicalKeyword);
+        this.writeSpace();
+        this.emitToken(node.goalKeyword);
+        this.writeSpace();
+        this.emitNode(node.symbol);
+        this.emitToken(node.closeBracketToken);
+    }
+
+    protected emitNoSymbolHereAssertion(node: NoSymbolHereAssertion) {
+        this.emitToken(node.openBracketToken);
+        this.emitToken(node.noKeyword);
+        this.writeSpace();
+        this.emitList(node.symbols, " or");
+        this.writeSpace();
+        this.emitToken(node.hereKeyword);
+        this.emitToken(node.closeBracketToken);
+    }
+
+    protected emitParameterValueAssertion(node: ParameterValueAssertion) {
+        this.emitToken(node.openBracketToken);
+        this.emitToken(node.operatorToken);
+        this.emitNode(node.name);
+        this.emitToken(node.closeBracketToken);
+    }
+
+    protected emitProseAssertion(node: ProseAssertion) {
+        this.emitToken(node.openBracketToken);
+        if (node.fragments && node.fragments.length > 0 && node.closeBracketToken) {
+            // the text of the prose runs up to the closing bracket, including any whitespace.
+            const first = node.fragments[0];
+            this.writeToken({ pos: first.pos, end: node.closeBracketToken.pos }, this.text.substring(first.pos, node.closeBracketToken.pos));
+        }
+
+        this.emitToken(node.closeBracketToken);
+    }
+
+    private emitList(nodes: Node[], separator: string) {
+        if (nodes) {
+            for (let i = 0; i < nodes.length; i++) {
+                if (i > 0) {
+                    this.writeText(separator);
+                    this.writeSpace();
+                }
+
+                this.emitNode(nodes[i]);
+            }
+        }
+    }
+
+    private reportFormatError(node: SourceFile, message: Diagnostic) {
+        this.diagnostics.setSourceFile(node);
+        this.diagnostics.report(0, message, node.filename);
+        this.writer = this.createWriter();
+        this.writer.write(node.text);
+    }
+
+    private getTokenText(node: Terminal | UnicodeCharacterLiteral) {
+        const end = node.questionToken ? node.questionToken.pos : node.end;
+        return this.text.substring(node.pos, end).replace(/\s+$/, "");
+    }
+
+    private getIndentation() {
+        let indentation = "";
+        for (let i = 0; i < this.depth; i++) {
+            indentation += "\t";
+        }
+
+        return indentation;
+    }
+
+    private writeSpace(count = 1) {
+        if (this.pendingLineBreaks === 0) {
+            this.pendingSpaces = count;
+        }
+    }
+
+    private writeLineBreak(count: number) {
+        this.pendingLineBreaks = Math.max(this.pendingLineBreaks, count);
+        this.pendingSpaces = 0;
+    }
+
+    private writeText(text: string) {
+        if (this.writer.toString().length > 0) {
+            if (this.pendingLineBreaks > 0) {
+                let lineBreaks = "";
+                for (let i = 0; i < this.pendingLineBreaks; i++) {
+                    lineBreaks += this.newLine;
+                }
+
+                this.writer.write(lineBreaks + this.getIndentation());
+            }
+            else if (this.pendingSpaces > 0) {
+                this.writer.write(new Array(this.pendingSpaces + 1).join(" "));
+            }
+        }
+
+        this.pendingLineBreaks = 0;
+        this.pendingSpaces = 0;
+        this.writer.write(text);
+    }
+
+    private writeToken(range: TextRange, text: string) {
+        this.emitCommentsBefore(range.pos);
+        this.writeText(text);
+        this.lastTokenEnd = range.end;
+    }
+
+    private emitCommentsBefore(pos: number) {
+        if (pos <= this.lastTokenEnd) {
+            return;
+        }
+
+        const maxLineBreaks = this.depth === 0 ? 2 : 1;
+        let previousStart = this.lastTokenEnd;
+        let previousEnd = this.lastTokenEnd;
+        let onOwnLine = false;
+        for (const range of scanCommentTrivia(this.text, this.lastTokenEnd, pos)) {
+            let comment = this.text.substring(range.pos, range.end);
+            const lineBreaks = countLineBreaks(this.text, previousEnd, range.pos);
+            if (this.writer.toString().length === 0 || (lineBreaks > 0 && (this.pendingLineBreaks > 0 || onOwnLine))) {
+                // a comment on a line of its own stays on its own line, at the indentation of the following token.
+                this.pendingLineBreaks = Math.min(Math.max(lineBreaks, onOwnLine ? 1 : this.pendingLineBreaks), maxLineBreaks);
+                this.writeText(comment);
+                onOwnLine = true;
+            }
+            else {
+                const pendingLineBreaks = this.pendingLineBreaks;
+                if (pendingLineBreaks === 0 && isSingleLineComment(comment)) {
+                    // the line break that ends a single-line comment would end the right-hand side.
+                    comment = "/*" + comment.substr(2).replace(/\*\//g, "* /") + " */";
+                }
+
+                this.pendingLineBreaks = 0;
+                this.pendingSpaces = isWhiteSpaceAt(this.text, range.pos - 1) ? 1 : 0;
+                this.writeText(comment);
+                this.pendingLineBreaks = pendingLineBreaks;
+                this.pendingSpaces = pendingLineBreaks === 0 && isWhiteSpaceAt(this.text, range.end) ? 1 : 0;
+                onOwnLine = false;
+            }
+
+            previousStart = range.pos;
+            previousEnd = range.end;
+        }
+
+        if (onOwnLine) {
+            // a token on the same line as the comment before it stays on that line.
+            const lineBreaks = countLineBreaks(this.text, previousEnd, pos);
+            if (lineBreaks === 0 && !isSingleLineComment(this.text.substring(previousStart, previousEnd))) {
+                this.pendingLineBreaks = 0;
+                this.pendingSpaces = isWhiteSpaceAt(this.text, previousEnd) ? 1 : 0;
+            }
+            else {
+                this.pendingLineBreaks = Math.min(Math.max(lineBreaks, 1), maxLineBreaks);
+            }
+        }
+    }
+}
+
+function isSingleLineElement(node: SourceElement) {
+    if (node.kind === SyntaxKind.Production) {
+        const body = (<Production>node).body;
+        return !body || body.kind === SyntaxKind.RightHandSide || (body.kind === SyntaxKind.OneOfList && !(<OneOfList>body).openIndentToken);
+    }
+
+    return true;
+}
+
+function isSingleLineComment(text: string) {
+    return text.charCodeAt(0) === CharacterCodes.Slash && text.charCodeAt(1) === CharacterCodes.Slash;
+}
+
+function isWhiteSpaceAt(text: string, pos: number) {
+    return pos >= 0 && pos < text.length && /\s/.test(text.charAt(pos));
+}
+
+function countLineBreaks(text: string, pos: number, end: number) {
+    let count = 0;
+    for (let i = pos; i < end; i++) {
+        const ch = text.charCodeAt(i);
+        if (ch === CharacterCodes.LineFeed || (ch === CharacterCodes.CarriageReturn && text.charCodeAt(i + 1) !== CharacterCodes.LineFeed)) {
+            count++;
+        }
+    }
+
+    return count;
+}
+
+/**
+ * Finds the comments and HTML trivia between two tokens. Other text between tokens, such as the separators of a list,
+ * is written by the emitter.
+ */
+function scanCommentTrivia(text: string, pos: number, end: number) {
+    const trivia: TextRange[] = [];
+    while (pos < end) {
+        const start = pos;
+        const ch = text.charCodeAt(pos);
+        const next = pos + 1 < end ? text.charCodeAt(pos + 1) : -1;
+        if (ch === CharacterCodes.Slash && next === CharacterCodes.Slash) {
+            while (pos < end && text.charCodeAt(pos) !== CharacterCodes.CarriageReturn && text.charCodeAt(pos) !== CharacterCodes.LineFeed) {
+                pos++;
+            }
+
+            trivia.push({ pos: start, end: pos });
+        }
+        else if (ch === CharacterCodes.Slash && next === CharacterCodes.Asterisk) {
+            const commentEnd = text.indexOf("*/", pos + 2);
+            pos = commentEnd === -1 || commentEnd + 2 > end ? end : commentEnd + 2;
+            trivia.push({ pos: start, end: pos });
+        }
+        else if (ch === CharacterCodes.LessThan && (next === CharacterCodes.Slash || next === CharacterCodes.GreaterThan || (next >= CharacterCodes.LowerA && next <= CharacterCodes.LowerZ))) {
+            const triviaEnd = text.indexOf(">", pos + 1);
+            pos = triviaEnd === -1 || triviaEnd + 1 > end ? end : triviaEnd + 1;
+            trivia.push({ pos: start, end: pos });
+        }
+        else {
+            pos++;
+        }
+    }
+
+    return trivia;
+}
+
+/**
+ * Parses the text of a source file, or the text that replaces it, and compares the result to the source file.
+ */
+function isValidSourceFile(sourceFile: SourceFile, text = sourceFile.text) {
+    const diagnostics = new DiagnosticMessages();
+    const parsed = new Parser(diagnostics).parseSourceFile(sourceFile.filename, text);
+    return diagnostics.count() === 0 && isSameNode(sourceFile, parsed);
+}
+
+function isSameNode(left: Node, right: Node): boolean {
+    if (!left || !right) {
+        return left === right;
+    }
+
+    if (left.kind !== right.kind) {
+        return false;
+    }
+
+    if (left.kind !== SyntaxKind.SourceFile && (<TextContent><any>left).text !== (<TextContent><any>right).text) {
+        return false;
+    }
+
+    const leftChildren = getChildren(left);
+    const rightChildren = getChildren(right);
+    if (leftChildren.length !== rightChildren.length) {
+        return false;
+    }
+
+    for (let i = 0; i < leftChildren.length; i++) {
+        if (!isSameNode(leftChildren[i], rightChildren[i])) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+function getChildren(node: Node) {
+    if (node.kind === SyntaxKind.Define) {
+        // `forEachChild` does not visit the children of a define.
+        return [(<Define>node).atToken, (<Define>node).defineKeyword, (<Define>node).key, (<Define>node).valueToken];
+    }
+
+    const children: Node[] = [];
+    forEachChild(node, child => { children.push(child); });
+    return children;
+}
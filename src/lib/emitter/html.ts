@@ -1,6 +1,436 @@
+import * as path from "path";
 import { Emitter } from "./emitter";
-import { DiagnosticMessages } from "../diagnostics";
-import { Checker } from "../checker";
+import { SyntaxKind } from "../tokens";
+import { Dictionary } from "../core";
+import {
+    Node,
+    SourceFile,
+    UnicodeCharacterLiteral,
+    UnicodeCharacterRange,
+    Prose,
+    Identifier,
+    Parameter,
+    ParameterList,
+    OneOfList,
+    Terminal,
+    SymbolSet,
+    EmptyAssertion,
+    LookaheadAssertion,
+    NoSymbolHereAssertion,
+    LexicalGoalAssertion,
+    ParameterValueAssertion,
+    ProseAssertion,
+    Argument,
+    ArgumentList,
+    Nonterminal,
+    OneOfSymbol,
+    LexicalSymbol,
+    ButNotSymbol,
+    SymbolSpan,
+    RightHandSide,
+    RightHandSideList,
+    Production,
+    TextContent
+} from "../nodes";
 
-export class HtmlEmitter extends Emitter {	
+const defaultStyle = [
+    `body { font-family: Georgia, "Times New Roman", serif; }`,
+    `.production { margin: 1em 0; }`,
+    `.production > .rhs { margin-left: 2em; }`,
+    `.production.collapsed > .rhs { display: inline; margin-left: 0; }`,
+    `.nonterminal { font-style: italic; }`,
+    `.nonterminal a { color: inherit; text-decoration: none; }`,
+    `.nonterminal a:hover { text-decoration: underline; }`,
+    `.lhs { font-weight: bold; }`,
+    `.colon, .keyword { font-weight: bold; }`,
+    `.terminal { font-family: Consolas, Monaco, monospace; font-weight: bold; }`,
+    `.parameters, .arguments, .opt { font-size: 0.75em; }`,
+    `.assertion, .constraint { font-family: Consolas, Monaco, monospace; font-size: 0.85em; }`,
+    `.prose { font-family: sans-serif; }`,
+    `.oneof { margin-left: 2em; border-collapse: collapse; }`,
+    `.oneof td { padding: 0 1em 0 0; }`,
+    `:target { background-color: #ffffe0; }`
+];
+
+export class HtmlEmitter extends Emitter {
+    protected extension = ".html";
+
+    private ids: Dictionary<boolean>;
+
+    protected emitSourceFile(node: SourceFile) {
+        this.ids = new Dictionary<boolean>();
+        this.writer.write(`<!DOCTYPE html>`);
+        this.writer.writeln();
+        this.writer.write(`<html>`);
+        this.writer.writeln();
+        this.writer.write(`<head>`);
+        this.writer.indent();
+        this.writer.writeln();
+        this.writer.write(`<meta charset="utf-8">`);
+        this.writer.writeln();
+        this.writer.write(`<title>${this.encode(path.basename(node.filename))}</title>`);
+        this.writer.writeln();
+        this.writer.write(`<style>`);
+        this.writer.indent();
+        for (const rule of this.getStyle()) {
+            this.writer.writeln();
+            this.writer.write(rule);
+        }
+
+        this.writer.dedent();
+        this.writer.writeln();
+        this.writer.write(`</style>`);
+        this.writer.dedent();
+        this.writer.writeln();
+        this.writer.write(`</head>`);
+        this.writer.writeln();
+        this.writer.write(`<body>`);
+        this.writer.writeln();
+        this.writer.write(`<div class="grammar">`);
+        this.writer.writeln();
+        super.emitSourceFile(node);
+        this.writer.write(`</div>`);
+        this.writer.writeln();
+        this.writer.write(`</body>`);
+        this.writer.writeln();
+        this.writer.write(`</html>`);
+        this.writer.writeln();
+    }
+
+    protected emitKeyword(node: Node) {
+        if (node) {
+            this.writer.write(`<span class="keyword">`);
+            super.emitKeyword(node);
+            this.writer.write(`</span>`);
+        }
+    }
+
+    protected emitProduction(node: Production) {
+        const linkId = this.resolver.getProductionLinkId(node.name);
+        this.writer.write(`<div class="production`);
+        if (node.body && node.body.kind !== SyntaxKind.RightHandSideList) {
+            this.writer.write(` collapsed`);
+        }
+
+        this.writer.write(`"`);
+        this.emitIdAttribute(linkId);
+
+        this.writer.write(`>`);
+        this.writer.indent();
+        this.writer.writeln();
+        this.writer.write(`<span class="nonterminal lhs">`);
+        this.emitIdentifier(node.name);
+        this.writer.write(`</span>`);
+        this.emitNode(node.parameterList);
+        this.writer.write(` <span class="colon">`);
+        this.emitToken(node.colonToken);
+        this.writer.write(`</span>`);
+        if (node.body && node.body.kind === SyntaxKind.RightHandSideList) {
+            this.writer.writeln();
+        }
+        else {
+            this.writer.write(` `);
+        }
+
+        this.emitNode(node.body);
+        this.writer.dedent();
+        this.writer.writeln();
+        this.writer.write(`</div>`);
+        this.emitTrailingHtmlTriviaOfNode(node);
+        this.writer.writeln();
+    }
+
+    protected emitParameterList(node: ParameterList) {
+        this.writer.write(`<sub class="parameters">[`);
+        for (let i = 0; i < node.elements.length; ++i) {
+            if (i > 0) {
+                this.writer.write(`, `);
+            }
+
+            this.emitNode(node.elements[i]);
+        }
+
+        this.writer.write(`]</sub>`);
+    }
+
+    protected emitParameter(node: Parameter) {
+        this.emitIdentifier(node.name);
+    }
+
+    protected emitOneOfList(node: OneOfList) {
+        this.writer.write(`<span class="keyword">one of</span>`);
+        const terminals = node.terminals;
+        if (terminals && terminals.length > 0) {
+            if (node.openIndentToken) {
+                // get the maximum size for a terminal
+                let width = 5;
+                for (const terminal of terminals) {
+                    if (terminal.text.length > width) {
+                        width = terminal.text.length;
+                    }
+                }
+
+                const columns = Math.floor(50 / width);
+                this.writer.writeln();
+                this.writer.write(`<table class="oneof">`);
+                this.writer.indent();
+                for (let i = 0; i < terminals.length; i += columns) {
+                    this.writer.writeln();
+                    this.writer.write(`<tr>`);
+                    for (let j = i; j < i + columns && j < terminals.length; ++j) {
+                        this.writer.write(`<td>`);
+                        this.emitNode(terminals[j]);
+                        this.writer.write(`</td>`);
+                    }
+
+                    this.writer.write(`</tr>`);
+                }
+
+                this.writer.dedent();
+                this.writer.writeln();
+                this.writer.write(`</table>`);
+            }
+            else {
+                for (const terminal of terminals) {
+                    this.writer.write(` `);
+                    this.emitNode(terminal);
+                }
+            }
+        }
+    }
+
+    protected emitRightHandSideList(node: RightHandSideList) {
+        for (let i = 0; i < node.elements.length; ++i) {
+            if (i > 0) {
+                this.writer.writeln();
+            }
+
+            this.emitNode(node.elements[i]);
+        }
+    }
+
+    protected emitRightHandSide(node: RightHandSide) {
+        const linkId = this.resolver.getRightHandSideLinkId(node, /*includePrefix*/ true);
+        this.writer.write(`<div class="${this.getClassName(node, "rhs")}"`);
+        this.emitIdAttribute(linkId);
+
+        this.writer.write(`>`);
+        super.emitRightHandSide(node);
+        this.writer.write(`</div>`);
+        this.emitTrailingHtmlTriviaOfNode(node);
+    }
+
+    protected emitSymbolSpan(node: SymbolSpan) {
+        this.emitNode(node.symbol);
+        if (node.next) {
+            this.writer.write(` `);
+            this.emitNode(node.next);
+        }
+    }
+
+    protected emitPlaceholder(node: LexicalSymbol) {
+        this.writer.write(`<code class="terminal placeholder">@</code>`);
+    }
+
+    protected emitTerminal(node: Terminal) {
+        this.writer.write(`<code class="${this.getClassName(node, "terminal")}">`);
+        this.emitTextContent(node);
+        this.writer.write(`</code>`);
+        if (node.questionToken) {
+            this.writer.write(`<sub class="opt">opt</sub>`);
+        }
+    }
+
+    protected emitNonterminal(node: Nonterminal) {
+        const linkId = this.resolver.getProductionLinkId(node.name);
+        this.writer.write(`<span class="${this.getClassName(node, "nonterminal")}">`);
+        this.emitNodeWithLink(node.name, linkId);
+        this.writer.write(`</span>`);
+        this.emitNode(node.argumentList);
+        if (node.questionToken) {
+            this.writer.write(`<sub class="opt">opt</sub>`);
+        }
+    }
+
+    protected emitArgumentList(node: ArgumentList) {
+        this.writer.write(`<sub class="arguments">[`);
+        for (let i = 0; i < node.elements.length; ++i) {
+            if (i > 0) {
+                this.writer.write(`, `);
+            }
+
+            this.emitNode(node.elements[i]);
+        }
+
+        this.writer.write(`]</sub>`);
+    }
+
+    protected emitArgument(node: Argument) {
+        this.emitToken(node.operatorToken);
+        this.emitNode(node.name);
+    }
+
+    protected emitUnicodeCharacterLiteral(node: UnicodeCharacterLiteral) {
+        this.writer.write(`<span class="${this.getClassName(node, "prose")}">`);
+        this.emitTextContent(node);
+        this.writer.write(`</span>`);
+        if (node.questionToken) {
+            this.writer.write(`<sub class="opt">opt</sub>`);
+        }
+    }
+
+    protected emitUnicodeCharacterRange(node: UnicodeCharacterRange) {
+        this.emitNode(node.left);
+        this.writer.write(` `);
+        this.emitKeyword(node.throughKeyword);
+        this.writer.write(` `);
+        this.emitNode(node.right);
+    }
+
+    protected emitProse(node: Prose) {
+        this.writer.write(`<span class="prose">`);
+        for (const fragment of node.fragments) {
+            this.emitNode(fragment);
+        }
+
+        this.writer.write(`</span>`);
+    }
+
+    protected emitEmptyAssertion(node: EmptyAssertion) {
+        this.writer.write(`<span class="assertion">[empty]</span>`);
+    }
+
+    protected emitSymbolSet(node: SymbolSet) {
+        this.writer.write(`{`);
+        for (let i = 0; i < node.elements.length; ++i) {
+            if (i > 0) {
+                this.writer.write(`,`);
+            }
+
+            this.writer.write(` `);
+            this.emitNode(node.elements[i]);
+        }
+
+        this.writer.write(` }`);
+    }
+
+    protected emitLookaheadAssertion(node: LookaheadAssertion) {
+        this.writer.write(`<span class="assertion">[lookahead `);
+        switch (node.operatorToken.kind) {
+            case SyntaxKind.ExclamationEqualsToken:
+                this.writer.write(`≠ `);
+                break;
+
+            case SyntaxKind.EqualsEqualsToken:
+                this.writer.write(`= `);
+                break;
+
+            case SyntaxKind.LessThanMinusToken:
+                this.writer.write(`∈ `);
+                break;
+
+            case SyntaxKind.LessThanExclamationToken:
+                this.writer.write(`∉ `);
+                break;
+        }
+
+        this.emitNode(node.lookahead);
+        this.writer.write(`]</span>`);
+    }
+
+    protected emitLexicalGoalAssertion(node: LexicalGoalAssertion): void {
+        const linkId = this.resolver.getProductionLinkId(node.symbol);
+        this.writer.write(`<span class="assertion">[lexical goal <span class="nonterminal">`);
+        this.emitNodeWithLink(node.symbol, linkId);
+        this.writer.write(`</span>]</span>`);
+    }
+
+    protected emitNoSymbolHereAssertion(node: NoSymbolHereAssertion): void {
+        this.writer.write(`<span class="assertion">[no `);
+        if (node.symbols) {
+            for (let i = 0; i < node.symbols.length; ++i) {
+                if (i > 0) {
+                    this.writer.write(` or `);
+                }
+
+                this.emitNode(node.symbols[i]);
+            }
+        }
+
+        this.writer.write(` here]</span>`);
+    }
+
+    protected emitParameterValueAssertion(node: ParameterValueAssertion): void {
+        this.writer.write(`<span class="constraint">[`);
+        this.emitToken(node.operatorToken);
+        this.emitNode(node.name);
+        this.writer.write(`]</span>`);
+    }
+
+    protected emitProseAssertion(node: ProseAssertion): void {
+        this.writer.write(`<span class="assertion prose">[`);
+        for (const fragment of node.fragments) {
+            this.emitNode(fragment);
+        }
+
+        this.writer.write(`]</span>`);
+    }
+
+    protected emitButNotSymbol(node: ButNotSymbol) {
+        this.emitNode(node.left);
+        this.writer.write(` <span class="keyword">but not</span> `);
+        this.emitNode(node.right);
+    }
+
+    protected emitOneOfSymbol(node: OneOfSymbol) {
+        this.writer.write(`<span class="keyword">one of</span> `);
+        if (node.symbols) {
+            for (let i = 0; i < node.symbols.length; ++i) {
+                if (i > 0) {
+                    this.writer.write(` <span class="keyword">or</span> `);
+                }
+
+                this.emitNode(node.symbols[i]);
+            }
+        }
+    }
+
+    protected emitTextContent(node: TextContent) {
+        if (node) {
+            this.writer.write(this.encode(node.text));
+        }
+    }
+
+    /**
+     * Gets the rules of the style sheet of the document.
+     */
+    protected getStyle(): string[] {
+        return defaultStyle;
+    }
+
+    /**
+     * Gets the class names of the element for a right-hand side or a symbol, which a derived emitter can add to.
+     */
+    protected getClassName(node: Node, className: string): string {
+        return className;
+    }
+
+    private emitIdAttribute(linkId: string) {
+        // a production may be declared more than once, but an id must be unique within the document
+        if (linkId && !Dictionary.has(this.ids, linkId)) {
+            Dictionary.set(this.ids, linkId, true);
+            this.writer.write(` id="${linkId}"`);
+        }
+    }
+
+    private emitNodeWithLink(node: Node, linkId: string) {
+        if (linkId) {
+            this.writer.write(`<a href="#${linkId}">`);
+            this.emitNode(node);
+            this.writer.write(`</a>`);
+        }
+        else {
+            this.emitNode(node);
+        }
+    }
 }
\ No newline at end of file
@@ -17,3 +17,12 @@ export * from "./emitter";
 export * from "./ecmarkup";
 export * from "./html";
 export * from "./markdown";
+export * from "./grammarkdown";
+export * from "./railroad";
+export * from "./antlr4";
+export * from "./treesitter";
+export * from "./ebnf";
+export * from "./peg";
+export * from "./bison";
+export * from "./json";
+export * from "./coverage";
@@ -0,0 +1,21 @@
+import { EOL } from "os";
+import { Emitter } from "./emitter";
+import { TextRange } from "../core";
+import { serializeSourceFile } from "../serializer";
+import { SourceFile } from "../nodes";
+
+/**
+ * Emits the syntax tree of a source file as JSON, in the form described by `SourceFileJson`.
+ */
+export class JsonEmitter extends Emitter {
+    protected extension = ".json";
+
+    protected emitSourceFile(node: SourceFile) {
+        this.writer.write(JSON.stringify(serializeSourceFile(node), /*replacer*/ undefined, 4).replace(/\n/g, EOL));
+        this.writer.writeln();
+    }
+
+    protected emitHtmlTrivia(range: TextRange) {
+        // html trivia is kept in the text of the source file.
+    }
+}
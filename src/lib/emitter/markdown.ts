@@ -51,19 +51,30 @@ export class MarkdownEmitter extends Emitter {
     protected emitProduction(node: Production) {
         const linkId = this.resolver.getProductionLinkId(node.name);
         this.writer.write(`&emsp;&emsp;`);
+        this.emitChangeStart(node);
         this.emitLinkAnchor(linkId);
-        this.writer.write(`*`);
-        this.emitIdentifier(node.name);
-        this.writer.write(`*`);
-        this.emitNode(node.parameterList);
+        this.emitProductionName(node, name => {
+            this.writer.write(`*`);
+            this.emitIdentifier(name);
+            this.writer.write(`*`);
+        });
+        this.emitProductionParameters(node);
         this.writer.write(` **`);
         this.emitToken(node.colonToken);
         this.writer.write(`**`);
-        if (node.body && node.body.kind !== SyntaxKind.RightHandSideList) {
-            this.writer.write(` `);
+        this.emitChangeEnd(node);
+        if (node.body && node.body.kind === SyntaxKind.RightHandSide && this.hasDeletions(node.body)) {
+            // the deleted alternatives are listed with the alternative, each on its own line.
+            this.emitRightHandSides([<RightHandSide>node.body]);
+        }
+        else {
+            if (node.body && node.body.kind !== SyntaxKind.RightHandSideList) {
+                this.writer.write(` `);
+            }
+
+            this.emitNode(node.body);
         }
 
-        this.emitNode(node.body);
         this.writer.writeln();
         this.writer.write(`  `);
         this.writer.writeln();
@@ -104,8 +115,8 @@ export class MarkdownEmitter extends Emitter {
                 this.writer.write(`<pre>`);
                 const columns = Math.floor(50 / width);
                 let pad = 0;
-                for (let i = 0; i < terminals.length; ++i) {
-                    const terminal = terminals[i];
+                let i = 0;
+                this.emitAlternatives(terminals, terminal => {
                     if (i % columns === 0) {
                         if (i > 0) {
                             this.writer.write(`  `);
@@ -120,23 +131,30 @@ export class MarkdownEmitter extends Emitter {
                         }
                     }
 
+                    this.emitChangeStart(terminal);
                     this.writer.write(`<code>`);
                     this.writer.write(this.encode(terminal.text));
                     this.writer.write(`</code>`);
+                    this.emitChangeEnd(terminal);
                     pad = width - terminal.text.length;
-                }
+                    i++;
+                });
 
                 this.writer.write(`</pre>`);
             }
             else {
                 this.writer.write(` `);
-                for (let i = 0; i < node.terminals.length; ++i) {
-                    if (i > 0) {
+                let first = true;
+                this.emitAlternatives(node.terminals, terminal => {
+                    if (!first) {
                         this.writer.write(`&emsp;`);
                     }
 
-                    this.emitNode(node.terminals[i]);
-                }
+                    first = false;
+                    this.emitChangeStart(terminal);
+                    this.emitNode(terminal);
+                    this.emitChangeEnd(terminal);
+                });
 
                 this.writer.write(`  `);
             }
@@ -144,30 +162,31 @@ export class MarkdownEmitter extends Emitter {
     }
 
     protected emitRightHandSideList(node: RightHandSideList) {
-        this.writer.write(`  `);
-        for (const rhs of node.elements) {
-            this.writer.writeln();
-            this.writer.write(`&emsp;&emsp;&emsp;`);
-            this.emitNode(rhs);
-        }
+        this.emitRightHandSides(node.elements);
     }
 
     protected emitRightHandSide(node: RightHandSide) {
         const linkId = this.resolver.getRightHandSideLinkId(node, /*includePrefix*/ true);
+        this.emitChangeStart(node);
         this.emitLinkAnchor(linkId);
         super.emitRightHandSide(node);
+        this.emitChangeEnd(node);
         this.emitTrailingHtmlTriviaOfNode(node);
         this.writer.write(`  `);
     }
 
     protected emitSymbolSpan(node: SymbolSpan) {
-        this.emitNode(node.symbol);
+        this.emitSymbol(node.symbol);
         if (node.next) {
-            this.writer.write(`&emsp;`);
+            this.emitSymbolSeparator();
             this.emitNode(node.next);
         }
     }
 
+    protected emitSymbolSeparator() {
+        this.writer.write(`&emsp;`);
+    }
+
     protected emitTerminal(node: Terminal) {
         this.writer.write("`` ");
         this.writer.write(node.text);
@@ -318,6 +337,15 @@ export class MarkdownEmitter extends Emitter {
         this.writer.write(text);
     }
 
+    private emitRightHandSides(nodes: RightHandSide[]) {
+        this.writer.write(`  `);
+        this.emitAlternatives(nodes, rhs => {
+            this.writer.writeln();
+            this.writer.write(`&emsp;&emsp;&emsp;`);
+            this.emitNode(rhs);
+        });
+    }
+
     private emitLinkAnchor(linkId: string) {
         if (linkId) {
             this.writer.write(`<a name="${linkId}"></a>`);
@@ -0,0 +1,437 @@
+import { CancellationToken } from "prex";
+import { Emitter } from "./emitter";
+import { SyntaxKind } from "../tokens";
+import { Dictionary, TextRange } from "../core";
+import { CompilerOptions } from "../options";
+import { Diagnostic, DiagnosticMessages, Diagnostics } from "../diagnostics";
+import { Resolver } from "../checker";
+import { Binder, BindingTable } from "../binder";
+import { ParameterExpander } from "../expander";
+import { getCodePointOfLiteral } from "../analyzer";
+import {
+    Node,
+    SourceFile,
+    UnicodeCharacterLiteral,
+    UnicodeCharacterRange,
+    Prose,
+    OneOfList,
+    Terminal,
+    ParameterValueAssertion,
+    Nonterminal,
+    OneOfSymbol,
+    LexicalSymbol,
+    ButNotSymbol,
+    RightHandSide,
+    RightHandSideList,
+    Production,
+    forEachChild
+} from "../nodes";
+
+export const maxCodePoint = 0x10FFFF;
+
+/**
+ * A set of code points, as a sorted list of disjoint ranges.
+ */
+export type CharacterSet = [number, number][];
+
+/**
+ * The base class for emitters that write a grammar for a parser generator.
+ *
+ * Parametric productions are expanded first, so each combination of arguments reachable in the grammar becomes a
+ * production with its own name. The productions of imported files are included, and a lexical production is a token
+ * if it is referenced from a syntactic production. Constructs that cannot be expressed in the target are reported with
+ * a diagnostic.
+ */
+export abstract class ParserGrammarEmitter extends Emitter {
+    protected abstract targetName: string;
+
+    protected expander: ParameterExpander;
+    protected productions: Dictionary<Production[]>;
+    protected productionNames: string[];
+    protected syntacticNames: string[];
+    protected lexicalNames: string[];
+    protected tokens: Dictionary<boolean>;
+    protected currentProduction: Production;
+    protected sourceProduction: Production;
+
+    /**
+     * The number of constructs omitted so far, which tells an emitter whether each symbol of an alternative was omitted.
+     */
+    protected omittedCount = 0;
+
+    private sourceFiles: SourceFile[];
+    private expandedSourceFiles: SourceFile[];
+    private expandedSourceFile: SourceFile;
+    private diagnosticsSourceFile: SourceFile;
+
+    constructor(options: CompilerOptions, resolver: Resolver, diagnostics: DiagnosticMessages, expander: ParameterExpander, sourceFiles: SourceFile[], cancellationToken = CancellationToken.none) {
+        super(options, resolver, diagnostics, cancellationToken);
+        this.expander = expander;
+        this.sourceFiles = sourceFiles;
+    }
+
+    /**
+     * Expands the source files and groups the expanded productions by name.
+     */
+    protected collectProductions() {
+        if (!this.expandedSourceFiles) {
+            this.expandedSourceFiles = this.expander.expandSourceFiles(this.sourceFiles);
+        }
+
+        this.productionNames = [];
+        this.syntacticNames = [];
+        this.lexicalNames = [];
+        this.productions = new Dictionary<Production[]>();
+        for (const sourceFile of this.expandedSourceFiles) {
+            for (const element of sourceFile.elements) {
+                if (element.kind !== SyntaxKind.Production || !(<Production>element).name || !(<Production>element).name.text) {
+                    continue;
+                }
+
+                const production = <Production>element;
+                const name = production.name.text;
+                if (!Dictionary.has(this.productions, name)) {
+                    Dictionary.set(this.productions, name, []);
+                    this.productionNames.push(name);
+                    (isLexical(production) ? this.lexicalNames : this.syntacticNames).push(name);
+                }
+
+                Dictionary.get(this.productions, name).push(production);
+            }
+        }
+
+        this.tokens = this.getTokens();
+    }
+
+    /**
+     * Binds the expanded source files, so the productions that are emitted can be analyzed.
+     */
+    protected bindExpandedSourceFiles() {
+        const bindings = new BindingTable();
+        const binder = new Binder(bindings, this.cancellationToken);
+        for (const sourceFile of this.expandedSourceFiles) {
+            binder.bindSourceFile(sourceFile);
+        }
+
+        return bindings;
+    }
+
+    /**
+     * Maps the name of each production to a unique name for the target that is not one of the reserved names.
+     */
+    protected getRuleNames(formatName: (name: string, lexical: boolean) => string, reservedNames: string[]) {
+        const ruleNames = new Dictionary<string>();
+        const usedNames = new Dictionary<boolean>();
+        for (const name of this.syntacticNames.concat(this.lexicalNames)) {
+            let ruleName = formatName(name, this.lexicalNames.indexOf(name) >= 0);
+            while (Dictionary.has(usedNames, ruleName) || reservedNames.indexOf(ruleName) >= 0) {
+                ruleName += "_";
+            }
+
+            Dictionary.set(usedNames, ruleName, true);
+            Dictionary.set(ruleNames, name, ruleName);
+        }
+
+        return ruleNames;
+    }
+
+    /**
+     * Sets the expanded production whose nodes are emitted next, for source text and diagnostics.
+     */
+    protected setCurrentProduction(production: Production) {
+        this.currentProduction = production;
+        this.expandedSourceFile = this.resolveExpandedSourceFile(production);
+        this.sourceProduction = this.expander.getSourceProduction(production);
+    }
+
+    protected emitProduction(node: Production) {
+        this.setCurrentProduction(node);
+        this.emitNode(node.body);
+    }
+
+    protected emitParameterValueAssertion(node: ParameterValueAssertion) {
+        // parameter value assertions are resolved when the grammar is expanded.
+    }
+
+    protected emitHtmlTrivia(range: TextRange) {
+        // the nodes of an expanded source file do not correspond to the html trivia of the source file.
+    }
+
+    protected reportOmitted(node: Node, text = this.getSourceText(node)) {
+        this.omittedCount++;
+        this.report(Diagnostics._0_cannot_be_expressed_in_1_and_was_omitted, [text, this.targetName]);
+    }
+
+    /**
+     * Reports a diagnostic at the right-hand side from which `rhs` was expanded, or else at the name of the production
+     * from which the current production was expanded.
+     */
+    protected report(message: Diagnostic, args: any[], rhs?: RightHandSide) {
+        const sourceProduction = this.sourceProduction;
+        if (!sourceProduction) {
+            return;
+        }
+
+        const sourceFile = this.resolver.getSourceFileOfNode(sourceProduction);
+        if (sourceFile !== this.diagnosticsSourceFile) {
+            this.diagnostics.setSourceFile(sourceFile);
+            this.diagnosticsSourceFile = sourceFile;
+        }
+
+        this.diagnostics.reportNode(rhs && this.expander.getSourceRightHandSide(rhs) || sourceProduction.name, message, args);
+    }
+
+    /**
+     * Gets the text written by a callback, without writing it.
+     */
+    protected format(callback: () => void) {
+        const saveWriter = this.writer;
+        try {
+            this.writer = this.createWriter();
+            callback();
+            return this.writer.toString();
+        }
+        finally {
+            this.writer = saveWriter;
+        }
+    }
+
+    protected getSourceText(node: Node) {
+        return this.expandedSourceFile.text.substring(node.pos, node.end).trim().replace(/\s+/g, " ");
+    }
+
+    /**
+     * Gets a character class of Unicode properties, such as `[\p{Zs}]`, for the `<USP>` literal or for prose that
+     * describes any code point with a Unicode property, or `undefined` for any other symbol.
+     */
+    protected getUnicodePropertyClass(node: UnicodeCharacterLiteral | Prose) {
+        let properties: string[];
+        if (node.kind === SyntaxKind.UnicodeCharacterLiteral) {
+            properties = /^<?USP>?$/.test((<UnicodeCharacterLiteral>node).text) ? ["Zs"] : undefined;
+        }
+        else {
+            const text = this.getSourceText(node).replace(/^>\s*/, "");
+            const names = /^any Unicode code point with the Unicode property/i.test(text) && text.match(/["“]\w+["”]/g);
+            properties = names ? names.map(name => name.slice(1, -1)) : undefined;
+        }
+
+        return properties && `[${properties.map(property => `\\p{${property}}`).join("")}]`;
+    }
+
+    /**
+     * Gets the set of characters matched by a symbol that matches a single character, or `undefined` if the symbol may
+     * match more or less than one character.
+     */
+    protected getCharacterSet(node: LexicalSymbol, visited: string[] = []): CharacterSet {
+        if (!node || (<Terminal>node).questionToken) {
+            return undefined;
+        }
+
+        switch (node.kind) {
+            case SyntaxKind.Terminal:
+                const text = (<Terminal>node).text;
+                const codePoint = text.length === 1 ? text.charCodeAt(0)
+                    : text.length === 2 && /^[\uD800-\uDBFF][\uDC00-\uDFFF]$/.test(text) ? (text.charCodeAt(0) - 0xD800) * 0x400 + (text.charCodeAt(1) - 0xDC00) + 0x10000
+                    : undefined;
+                return codePoint !== undefined ? [[codePoint, codePoint]] : undefined;
+
+            case SyntaxKind.UnicodeCharacterLiteral:
+                const literalCodePoint = getCodePointOfLiteral(<UnicodeCharacterLiteral>node);
+                return literalCodePoint !== undefined ? [[literalCodePoint, literalCodePoint]] : undefined;
+
+            case SyntaxKind.UnicodeCharacterRange:
+                const range = <UnicodeCharacterRange>node;
+                const min = range.left && getCodePointOfLiteral(range.left);
+                const max = range.right && getCodePointOfLiteral(range.right);
+                return min !== undefined && max !== undefined && min <= max ? [[min, max]] : undefined;
+
+            case SyntaxKind.Prose:
+                // only prose that describes any code point, without a Unicode property, is understood.
+                return /^any Unicode code point$/i.test(this.getSourceText(node).replace(/^>\s*/, "")) ? [[0, maxCodePoint]] : undefined;
+
+            case SyntaxKind.OneOfSymbol:
+                let union: CharacterSet = [];
+                for (const symbol of (<OneOfSymbol>node).symbols || []) {
+                    const set = this.getCharacterSet(symbol, visited);
+                    if (!set) {
+                        return undefined;
+                    }
+
+                    union = unionCharacterSets(union, set);
+                }
+
+                return union;
+
+            case SyntaxKind.ButNotSymbol:
+                const left = this.getCharacterSet((<ButNotSymbol>node).left, visited);
+                const right = left && this.getCharacterSet((<ButNotSymbol>node).right, visited);
+                return right ? subtractCharacterSets(left, right) : undefined;
+
+            case SyntaxKind.Nonterminal:
+                return this.getCharacterSetOfProduction((<Nonterminal>node).name && (<Nonterminal>node).name.text, visited);
+        }
+
+        return undefined;
+    }
+
+    private getCharacterSetOfProduction(name: string, visited: string[]): CharacterSet {
+        const productions = Dictionary.get(this.productions, name);
+        if (!productions || visited.indexOf(name) >= 0 || !isLexical(productions[0])) {
+            return undefined;
+        }
+
+        const saveExpandedSourceFile = this.expandedSourceFile;
+        try {
+            visited.push(name);
+            let union: CharacterSet = [];
+            for (const production of productions) {
+                this.expandedSourceFile = this.resolveExpandedSourceFile(production);
+                const body = production.body;
+                const symbols: LexicalSymbol[] = [];
+                if (!body) {
+                    return undefined;
+                }
+                else if (body.kind === SyntaxKind.OneOfList) {
+                    symbols.push(...((<OneOfList>body).terminals || []));
+                }
+                else {
+                    for (const rhs of getRightHandSides(production)) {
+                        if (!rhs.head || rhs.head.next) {
+                            return undefined;
+                        }
+
+                        symbols.push(rhs.head.symbol);
+                    }
+                }
+
+                for (const symbol of symbols) {
+                    const set = this.getCharacterSet(symbol, visited);
+                    if (!set) {
+                        return undefined;
+                    }
+
+                    union = unionCharacterSets(union, set);
+                }
+            }
+
+            return union;
+        }
+        finally {
+            visited.pop();
+            this.expandedSourceFile = saveExpandedSourceFile;
+        }
+    }
+
+    private resolveExpandedSourceFile(production: Production) {
+        for (const sourceFile of this.expandedSourceFiles) {
+            if (sourceFile.elements.indexOf(production) >= 0) {
+                return sourceFile;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Gets the lexical productions that are tokens, which are those referenced from a syntactic production. In a
+     * grammar with only lexical productions, the productions that are not referenced from another production are
+     * tokens.
+     */
+    private getTokens() {
+        const referencedFromSyntactic = new Dictionary<boolean>();
+        const referencedFromLexical = new Dictionary<boolean>();
+        const visit = (node: Node, references: Dictionary<boolean>) => {
+            if (node.kind === SyntaxKind.Nonterminal && (<Nonterminal>node).name) {
+                Dictionary.set(references, (<Nonterminal>node).name.text, true);
+            }
+            else if (node.kind === SyntaxKind.ButNotSymbol && references === referencedFromSyntactic) {
+                // the exclusion is omitted from a syntactic rule, so it does not make a token of what it excludes.
+                visit((<ButNotSymbol>node).left, references);
+                return;
+            }
+
+            forEachChild(node, child => visit(child, references));
+        };
+
+        for (const name of this.syntacticNames.concat(this.lexicalNames)) {
+            for (const production of Dictionary.get(this.productions, name)) {
+                visit(production.body, isLexical(production) ? referencedFromLexical : referencedFromSyntactic);
+            }
+        }
+
+        const tokens = new Dictionary<boolean>();
+        const hasTokens = this.lexicalNames.some(name => Dictionary.has(referencedFromSyntactic, name));
+        for (const name of this.lexicalNames) {
+            if (hasTokens ? Dictionary.has(referencedFromSyntactic, name) : !Dictionary.has(referencedFromLexical, name)) {
+                Dictionary.set(tokens, name, true);
+            }
+        }
+
+        for (const name of this.options.trivia || []) {
+            if (this.lexicalNames.indexOf(name) >= 0) {
+                Dictionary.set(tokens, name, true);
+            }
+        }
+
+        return tokens;
+    }
+}
+
+export function getRightHandSides(production: Production): RightHandSide[] {
+    const body = production.body;
+    return !body ? []
+        : body.kind === SyntaxKind.RightHandSideList ? (<RightHandSideList>body).elements || []
+        : body.kind === SyntaxKind.RightHandSide ? [<RightHandSide>body]
+        : [];
+}
+
+export function isLeftRecursive(rhs: RightHandSide, name: string) {
+    const symbol = rhs.head && rhs.head.symbol;
+    return !!symbol && symbol.kind === SyntaxKind.Nonterminal && !(<Nonterminal>symbol).questionToken
+        && !!(<Nonterminal>symbol).name && (<Nonterminal>symbol).name.text === name;
+}
+
+export function isLexical(production: Production) {
+    return !!production.colonToken && production.colonToken.kind !== SyntaxKind.ColonToken;
+}
+
+export function unionCharacterSets(left: CharacterSet, right: CharacterSet): CharacterSet {
+    const ranges = left.concat(right).sort((a, b) => a[0] - b[0]);
+    const result: CharacterSet = [];
+    for (const range of ranges) {
+        const last = result[result.length - 1];
+        if (last && range[0] <= last[1] + 1) {
+            last[1] = Math.max(last[1], range[1]);
+        }
+        else {
+            result.push([range[0], range[1]]);
+        }
+    }
+
+    return result;
+}
+
+export function subtractCharacterSets(left: CharacterSet, right: CharacterSet): CharacterSet {
+    let result = left.map(range => <[number, number]>[range[0], range[1]]);
+    for (const excluded of right) {
+        const next: CharacterSet = [];
+        for (const range of result) {
+            if (excluded[1] < range[0] || excluded[0] > range[1]) {
+                next.push(range);
+                continue;
+            }
+
+            if (range[0] < excluded[0]) {
+                next.push([range[0], excluded[0] - 1]);
+            }
+
+            if (range[1] > excluded[1]) {
+                next.push([excluded[1] + 1, range[1]]);
+            }
+        }
+
+        result = next;
+    }
+
+    return result;
+}
@@ -0,0 +1,538 @@
+import { EOL } from "os";
+import { SyntaxKind } from "../tokens";
+import { Dictionary } from "../core";
+import { Diagnostics } from "../diagnostics";
+import { Analyzer, getCodePointOfLiteral } from "../analyzer";
+import { ParserGrammarEmitter, getRightHandSides, isLeftRecursive, isLexical } from "./parsergrammar";
+import {
+    Node,
+    SourceFile,
+    UnicodeCharacterLiteral,
+    UnicodeCharacterRange,
+    Prose,
+    OneOfList,
+    Terminal,
+    EmptyAssertion,
+    LookaheadAssertion,
+    NoSymbolHereAssertion,
+    LexicalGoalAssertion,
+    ProseAssertion,
+    Nonterminal,
+    OneOfSymbol,
+    LexicalSymbol,
+    ButNotSymbol,
+    SymbolSpan,
+    SymbolSet,
+    RightHandSide,
+    Production
+} from "../nodes";
+
+// names that cannot be used for a rule, as they are reserved words of JavaScript or used by the emitted grammar.
+const reservedNames = [
+    "break", "case", "catch", "class", "const", "continue", "debugger", "default", "delete", "do", "else", "enum",
+    "export", "extends", "false", "finally", "for", "function", "if", "import", "in", "instanceof", "new", "null",
+    "return", "super", "switch", "this", "throw", "true", "try", "typeof", "var", "void", "while", "with", "start", "_"
+];
+
+/**
+ * Emits a PEG grammar for peggy or PEG.js.
+ *
+ * Alternatives become an ordered choice, `but not` a negative predicate (`!B A`), and lookahead assertions positive
+ * (`&`) or negative (`!`) predicates. A production that starts with itself is written as a repetition, as a PEG
+ * cannot be left-recursive. Any other left-recursive cycle is broken by omitting its alternative in the production
+ * declared first, and a repetition that can match the empty string is omitted, each with a diagnostic, so the output
+ * is accepted by the parser generator. The tokens of syntactic productions are followed by the `_` rule, which skips
+ * the lexical productions given as trivia, or whitespace, and the `start` rule skips leading trivia before the first
+ * goal, or the first syntactic production.
+ *
+ * As an ordered choice does not try an alternative once an earlier alternative matches, a warning is reported for each
+ * alternative that matches a prefix of a later alternative.
+ */
+export class PegEmitter extends ParserGrammarEmitter {
+    protected extension = ".pegjs";
+    protected targetName = "a PEG";
+
+    private ruleNames: Dictionary<string>;
+    private analyzer: Analyzer;
+    private leftRecursivePaths: Dictionary<string>;
+    private lexical: boolean;
+    private predicate: boolean;
+    private skipTrivia: boolean;
+
+    protected emitSourceFile(node: SourceFile) {
+        // the productions of imported files are included, so the output is a complete grammar.
+        this.collectProductions();
+        this.ruleNames = this.getRuleNames(name => name, reservedNames);
+        this.collectLeftRecursivePaths();
+        this.predicate = false;
+
+        let first = true;
+        if (this.syntacticNames.length > 0) {
+            const start = (this.options.goals || []).filter(name => this.syntacticNames.indexOf(name) >= 0)[0] || this.syntacticNames[0];
+            this.writer.write(`start`);
+            this.writer.indent();
+            this.writer.writeln();
+            this.writer.write(`= _ ${Dictionary.get(this.ruleNames, start)}`);
+            this.writer.dedent();
+            this.writer.writeln();
+            this.writer.write(EOL);
+
+            const trivia = (this.options.trivia || []).filter(name => this.lexicalNames.indexOf(name) >= 0);
+            this.writer.write(`_`);
+            this.writer.indent();
+            this.writer.writeln();
+            this.writer.write(trivia.length > 0 ? `= ${formatGroup(trivia.map(name => Dictionary.get(this.ruleNames, name)))}*` : `= [ \\t\\n\\r]*`);
+            this.writer.dedent();
+            first = false;
+        }
+
+        for (const name of this.productionNames) {
+            if (!first) {
+                this.writer.writeln();
+                this.writer.write(EOL);
+            }
+
+            this.emitRule(name);
+            first = false;
+        }
+
+        this.writer.writeln();
+    }
+
+    protected emitRightHandSide(node: RightHandSide) {
+        this.emitSequence(node.head);
+    }
+
+    protected emitTerminal(node: Terminal) {
+        this.writeToken(formatString(node.text), node);
+    }
+
+    protected emitNonterminal(node: Nonterminal) {
+        const name = node.name && node.name.text;
+        const productions = Dictionary.get(this.productions, name);
+        const ruleName = Dictionary.has(this.ruleNames, name) ? Dictionary.get(this.ruleNames, name) : name;
+        if (!this.lexical && productions && isLexical(productions[0])) {
+            this.writeToken(ruleName, node);
+        }
+        else {
+            this.writer.write(node.questionToken ? `${ruleName}?` : ruleName);
+        }
+    }
+
+    protected emitUnicodeCharacterLiteral(node: UnicodeCharacterLiteral) {
+        const codePoint = getCodePointOfLiteral(node);
+        if (codePoint !== undefined) {
+            this.writeToken(formatString(codePoint > 0xFFFF
+                ? String.fromCharCode(Math.floor((codePoint - 0x10000) / 0x400) + 0xD800, (codePoint - 0x10000) % 0x400 + 0xDC00)
+                : String.fromCharCode(codePoint)), node);
+        }
+        else {
+            this.reportOmitted(node);
+        }
+    }
+
+    protected emitUnicodeCharacterRange(node: UnicodeCharacterRange) {
+        // a character class matches a single UTF-16 code unit.
+        const set = this.getCharacterSet(node);
+        if (set && set[set.length - 1][1] <= 0xFFFF) {
+            this.writeToken(`[${set.map(range => escapeClassCharacter(range[0]) + (range[1] > range[0] ? "-" + escapeClassCharacter(range[1]) : "")).join("")}]`, node);
+        }
+        else {
+            this.reportOmitted(node);
+        }
+    }
+
+    protected emitProse(node: Prose) {
+        const set = this.getCharacterSet(node);
+        if (set) {
+            this.writeToken(`.`, node);
+        }
+        else {
+            this.reportOmitted(node);
+        }
+    }
+
+    protected emitPlaceholder(node: LexicalSymbol) {
+        this.reportOmitted(node);
+    }
+
+    protected emitButNotSymbol(node: ButNotSymbol) {
+        this.writePredicate(`!`, () => this.emitNode(node.right));
+        this.writer.write(` `);
+        this.emitNode(node.left);
+    }
+
+    protected emitOneOfSymbol(node: OneOfSymbol) {
+        this.writer.write(`(`);
+        for (let i = 0; i < (node.symbols || []).length; i++) {
+            if (i > 0) {
+                this.writer.write(` / `);
+            }
+
+            this.emitNode(node.symbols[i]);
+        }
+
+        this.writer.write(`)`);
+    }
+
+    protected emitEmptyAssertion(node: EmptyAssertion) {
+    }
+
+    protected emitLookaheadAssertion(node: LookaheadAssertion) {
+        const operator = node.operatorToken && node.operatorToken.kind;
+        const positive = operator === SyntaxKind.EqualsEqualsToken || operator === SyntaxKind.LessThanMinusToken;
+        const lookahead = node.lookahead;
+        this.writePredicate(positive ? `&` : `!`, () => {
+            if (lookahead && lookahead.kind === SyntaxKind.SymbolSet) {
+                const elements = (<SymbolSet>lookahead).elements || [];
+                for (let i = 0; i < elements.length; i++) {
+                    if (i > 0) {
+                        this.writer.write(` / `);
+                    }
+
+                    this.emitSequence(elements[i]);
+                }
+            }
+            else {
+                this.emitSequence(<SymbolSpan>lookahead);
+            }
+        });
+    }
+
+    protected emitLexicalGoalAssertion(node: LexicalGoalAssertion) {
+        this.reportOmitted(node);
+    }
+
+    protected emitNoSymbolHereAssertion(node: NoSymbolHereAssertion) {
+        this.reportOmitted(node);
+    }
+
+    protected emitProseAssertion(node: ProseAssertion) {
+        this.reportOmitted(node);
+    }
+
+    private emitRule(name: string) {
+        const heads: [Production, Node][] = [];
+        const tails: [Production, Node][] = [];
+        for (const production of Dictionary.get(this.productions, name)) {
+            const body = production.body;
+            if (body && body.kind === SyntaxKind.OneOfList) {
+                for (const terminal of (<OneOfList>body).terminals || []) {
+                    heads.push([production, terminal]);
+                }
+            }
+            else {
+                for (const rhs of getRightHandSides(production)) {
+                    const path = Dictionary.get(this.leftRecursivePaths, rhs.id);
+                    if (path) {
+                        this.setCurrentProduction(production);
+                        this.report(Diagnostics._0_is_left_recursive_through_1_which_2_cannot_parse_and_was_omitted, [this.getSourceText(rhs), path, this.targetName], rhs);
+                    }
+                    else if (isLeftRecursive(rhs, name)) {
+                        if (this.analyzer.isNullableSuffix(rhs.head.next)) {
+                            this.setCurrentProduction(production);
+                            this.report(Diagnostics._0_would_repeat_1_which_can_match_the_empty_string_and_was_omitted, [this.getSourceText(rhs), rhs.head.next ? this.getSourceText(rhs.head.next) : ""], rhs);
+                        }
+                        else {
+                            tails.push([production, rhs.head.next]);
+                        }
+                    }
+                    else {
+                        heads.push([production, rhs]);
+                    }
+                }
+            }
+        }
+
+        this.lexical = isLexical(Dictionary.get(this.productions, name)[0]);
+        const headTexts = this.formatAlternatives(heads);
+        const tailTexts = this.formatAlternatives(tails);
+        if (headTexts.length === 0) {
+            // a rule without alternatives never matches.
+            headTexts.push(`[]`);
+        }
+
+        this.writer.write(Dictionary.get(this.ruleNames, name));
+        this.writer.indent();
+        if (tailTexts.length > 0) {
+            // `A : B` and `A : A C` becomes `A = B C*`.
+            this.writer.writeln();
+            this.writer.write(`= ${formatGroup(headTexts)} ${formatGroup(tailTexts)}*`);
+        }
+        else {
+            for (let i = 0; i < headTexts.length; i++) {
+                this.writer.writeln();
+                this.writer.write(`${i === 0 ? "=" : "/"} ${headTexts[i]}`);
+            }
+        }
+
+        this.writer.dedent();
+        this.checkOrderedChoice(heads);
+    }
+
+    /**
+     * Collects the path of the alternative that begins each left-recursive cycle, in the production of the cycle that
+     * is declared first, unless the alternative is written as a repetition. Omitting that alternative breaks the cycle.
+     */
+    private collectLeftRecursivePaths() {
+        const bindings = this.bindExpandedSourceFiles();
+        this.analyzer = new Analyzer(bindings, this.options, this.cancellationToken);
+        this.leftRecursivePaths = new Dictionary<string>();
+        for (const cycle of this.analyzer.getLeftRecursiveCycles()) {
+            const rhs = <RightHandSide>bindings.getAncestor(cycle.reference, SyntaxKind.RightHandSide);
+            if (rhs && !Dictionary.has(this.leftRecursivePaths, rhs.id)
+                && !(rhs.head.symbol === cycle.reference && isLeftRecursive(rhs, cycle.path[0].name))) {
+                Dictionary.set(this.leftRecursivePaths, rhs.id, cycle.path.map(symbol => symbol.name).join(" -> "));
+            }
+        }
+    }
+
+    /**
+     * Formats each alternative. An alternative whose symbols are all omitted is left out, as it would otherwise match
+     * the empty string.
+     */
+    private formatAlternatives(alternatives: [Production, Node][]) {
+        const texts: string[] = [];
+        for (const [production, alternative] of alternatives) {
+            this.setCurrentProduction(production);
+            const text = this.format(() => {
+                if (alternative.kind === SyntaxKind.SymbolSpan) {
+                    this.emitSequence(<SymbolSpan>alternative);
+                }
+                else {
+                    this.emitNode(alternative);
+                }
+            });
+
+            if (text) {
+                texts.push(text);
+            }
+        }
+
+        return texts;
+    }
+
+    private emitSequence(head: SymbolSpan) {
+        const saveSkipTrivia = this.skipTrivia;
+        try {
+            // a symbol that is omitted writes nothing, and is not separated from the other symbols.
+            const texts: string[] = [];
+            let omitted = false;
+            for (let span = head; span; span = span.next) {
+                if (isEmpty(span.symbol)) {
+                    continue;
+                }
+
+                // a predicate does not need to skip the trivia after its last token.
+                this.skipTrivia = !this.lexical && (!this.predicate || !isLastSymbol(span));
+                const text = this.format(() => this.emitNode(span.symbol));
+                if (text) {
+                    texts.push(text);
+                }
+                else {
+                    omitted = true;
+                }
+            }
+
+            this.writer.write(texts.length > 0 ? texts.join(` `) : omitted ? `` : `""`);
+        }
+        finally {
+            this.skipTrivia = saveSkipTrivia;
+        }
+    }
+
+    private writePredicate(operator: string, callback: () => void) {
+        const savePredicate = this.predicate;
+        const saveSkipTrivia = this.skipTrivia;
+        try {
+            this.predicate = true;
+            this.skipTrivia = false;
+            const text = this.format(callback);
+            if (text) {
+                this.writer.write(isPrimary(text) ? operator + text : `${operator}(${text})`);
+            }
+        }
+        finally {
+            this.predicate = savePredicate;
+            this.skipTrivia = saveSkipTrivia;
+        }
+    }
+
+    private writeToken(text: string, node: Node) {
+        const optional = !!(<Terminal>node).questionToken;
+        if (this.skipTrivia) {
+            this.writer.write(optional ? `(${text} _)?` : `${text} _`);
+        }
+        else {
+            this.writer.write(optional ? `${text}?` : text);
+        }
+    }
+
+    /**
+     * Reports each alternative that matches a prefix of a later alternative, which an ordered choice does not try once
+     * the earlier alternative matches: `"=" / "=="`, or `"if" Test Body / "if" Test Body "else" Body`.
+     */
+    private checkOrderedChoice(alternatives: [Production, Node][]) {
+        const sequences = alternatives.map(alternative => getSymbols(alternative[1]));
+        for (let i = 0; i < alternatives.length; i++) {
+            for (let j = i + 1; j < alternatives.length; j++) {
+                if (isPrefix(sequences[i], sequences[j])) {
+                    this.setCurrentProduction(alternatives[j][0]);
+                    const laterText = this.getSourceText(alternatives[j][1]);
+                    const [production, alternative] = alternatives[i];
+                    this.setCurrentProduction(production);
+                    this.report(Diagnostics._0_matches_a_prefix_of_the_later_alternative_1_which_an_ordered_choice_will_not_try, [this.getSourceText(alternative), laterText],
+                        alternative.kind === SyntaxKind.RightHandSide ? <RightHandSide>alternative : undefined);
+                    break;
+                }
+            }
+        }
+    }
+}
+
+function isEmpty(symbol: LexicalSymbol) {
+    return !symbol || symbol.kind === SyntaxKind.EmptyAssertion || symbol.kind === SyntaxKind.ParameterValueAssertion;
+}
+
+function formatGroup(texts: string[]) {
+    const text = texts.join(` / `);
+    return texts.length === 1 && isPrimary(text) ? text : `(${text})`;
+}
+
+/**
+ * Determines whether an expression is a name, literal, class, or group, to which an operator applies without
+ * parentheses.
+ */
+function isPrimary(text: string) {
+    if (/^([\w$]+|\.|"([^"\\]|\\.)*"|\[([^\]\\]|\\.)*\])$/.test(text)) {
+        return true;
+    }
+
+    if (text.charAt(0) !== "(") {
+        return false;
+    }
+
+    let depth = 0;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text.charAt(i);
+        if (ch === `"` || ch === "[") {
+            const close = ch === "[" ? "]" : ch;
+            for (i++; i < text.length && text.charAt(i) !== close; i++) {
+                if (text.charAt(i) === "\\") {
+                    i++;
+                }
+            }
+        }
+        else if (ch === "(") {
+            depth++;
+        }
+        else if (ch === ")" && --depth === 0 && i < text.length - 1) {
+            return false;
+        }
+    }
+
+    return depth === 0;
+}
+
+function isLastSymbol(span: SymbolSpan) {
+    for (let next = span.next; next; next = next.next) {
+        if (!isEmpty(next.symbol)) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+function getSymbols(node: Node): LexicalSymbol[] {
+    const symbols: LexicalSymbol[] = [];
+    if (node.kind === SyntaxKind.Terminal) {
+        symbols.push(<Terminal>node);
+    }
+    else {
+        for (let span = (<RightHandSide>node).head; span; span = span.next) {
+            if (!isEmpty(span.symbol)) {
+                symbols.push(span.symbol);
+            }
+        }
+    }
+
+    return symbols;
+}
+
+/**
+ * Determines whether a sequence of symbols matches a prefix of what another sequence matches. The last symbol of the
+ * prefix may be a terminal that is a prefix of a terminal of the other sequence.
+ */
+function isPrefix(prefix: LexicalSymbol[], symbols: LexicalSymbol[]) {
+    if (prefix.length > symbols.length) {
+        return false;
+    }
+
+    for (let i = 0; i < prefix.length; i++) {
+        const left = prefix[i];
+        const right = symbols[i];
+        if (i === prefix.length - 1 && left.kind === SyntaxKind.Terminal && right.kind === SyntaxKind.Terminal
+            && !(<Terminal>left).questionToken && !(<Terminal>right).questionToken) {
+            return (<Terminal>right).text.substr(0, (<Terminal>left).text.length) === (<Terminal>left).text;
+        }
+
+        if (!isSameSymbol(left, right)) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+function isSameSymbol(left: LexicalSymbol, right: LexicalSymbol) {
+    if (left.kind !== right.kind || !!(<Terminal>left).questionToken !== !!(<Terminal>right).questionToken) {
+        return false;
+    }
+
+    switch (left.kind) {
+        case SyntaxKind.Terminal:
+            return (<Terminal>left).text === (<Terminal>right).text;
+
+        case SyntaxKind.Nonterminal:
+            return !!(<Nonterminal>left).name && !!(<Nonterminal>right).name && (<Nonterminal>left).name.text === (<Nonterminal>right).name.text;
+    }
+
+    return false;
+}
+
+function formatString(text: string) {
+    let result = `"`;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text.charCodeAt(i);
+        result += ch === 0x22 ? `\\"` : escapeCharacter(ch);
+    }
+
+    return result + `"`;
+}
+
+function escapeCharacter(ch: number) {
+    switch (ch) {
+        case 0x09: return "\\t";
+        case 0x0A: return "\\n";
+        case 0x0D: return "\\r";
+        case 0x5C: return "\\\\";
+    }
+
+    if (ch >= 0x20 && ch < 0x7F) {
+        return String.fromCharCode(ch);
+    }
+
+    const hex = ch.toString(16).toUpperCase();
+    return "\\u" + "0000".substr(hex.length) + hex;
+}
+
+function escapeClassCharacter(ch: number) {
+    switch (ch) {
+        case 0x2D: return "\\-";
+        case 0x5D: return "\\]";
+        case 0x5E: return "\\^";
+    }
+
+    return escapeCharacter(ch);
+}
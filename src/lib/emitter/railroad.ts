@@ -0,0 +1,473 @@
+import * as path from "path";
+import { Emitter } from "./emitter";
+import { SyntaxKind, tokenToString } from "../tokens";
+import { Dictionary, TextRange } from "../core";
+import { StringWriter } from "../stringwriter";
+import {
+    Node,
+    SourceFile,
+    UnicodeCharacterLiteral,
+    UnicodeCharacterRange,
+    Prose,
+    ProseFragment,
+    OneOfList,
+    Terminal,
+    Assertion,
+    EmptyAssertion,
+    LookaheadAssertion,
+    NoSymbolHereAssertion,
+    LexicalGoalAssertion,
+    ParameterValueAssertion,
+    ProseAssertion,
+    Nonterminal,
+    OneOfSymbol,
+    LexicalSymbol,
+    OptionalSymbol,
+    ButNotSymbol,
+    SymbolSpan,
+    RightHandSide,
+    RightHandSideList,
+    Production,
+    TextContent
+} from "../nodes";
+
+// the width of a character of the monospace font of the diagrams, used to measure text without a renderer.
+const characterWidth = 8;
+const boxHeight = 22;
+const boxPadding = 10;
+const arcRadius = 10;
+const horizontalSeparation = 10;
+const verticalSeparation = 10;
+const titleHeight = 30;
+const diagramMargin = 10;
+
+const defaultStyle = [
+    `text { font-family: Consolas, Monaco, monospace; font-size: 13px; text-anchor: middle; }`,
+    `path { fill: none; stroke: #333; stroke-width: 1.5; }`,
+    `rect { stroke: #333; stroke-width: 1.5; }`,
+    `a:hover rect { stroke-width: 2.5; }`,
+    `.title { font-family: Georgia, "Times New Roman", serif; font-size: 16px; font-weight: bold; text-anchor: start; }`,
+    `.terminal rect { fill: #ffe7b3; }`,
+    `.terminal text { font-weight: bold; }`,
+    `.nonterminal rect { fill: #d8ecff; }`,
+    `.nonterminal text { font-style: italic; }`,
+    `.literal rect { fill: #ffe7b3; stroke-dasharray: 2 2; }`,
+    `.assertion rect { fill: #fff; stroke: #888; stroke-dasharray: 4 2; }`,
+    `.assertion text { font-size: 11px; fill: #555; }`,
+    `.prose rect { fill: #f4f4f4; stroke: none; }`,
+    `.prose text { font-family: sans-serif; font-style: italic; }`,
+    `.keyword text { font-weight: bold; fill: #555; }`
+];
+
+/**
+ * Emits an SVG document with a railroad diagram for each production of a source file.
+ *
+ * The diagrams are laid out while the productions are visited, as the size of the document is not known until every
+ * production has been measured.
+ */
+export class RailroadEmitter extends Emitter {
+    protected extension = ".svg";
+
+    private ids: Dictionary<boolean>;
+    private diagrams: Diagram[];
+    private items: RailroadItem[];
+
+    protected emitSourceFile(node: SourceFile) {
+        this.ids = new Dictionary<boolean>();
+        this.diagrams = [];
+        this.items = [];
+        super.emitSourceFile(node);
+
+        let width = 0;
+        let height = 0;
+        for (const diagram of this.diagrams) {
+            width = Math.max(width, diagram.width);
+            height += diagram.height;
+        }
+
+        this.writer.write(`<?xml version="1.0" encoding="utf-8"?>`);
+        this.writer.writeln();
+        this.writer.write(`<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`);
+        this.writer.indent();
+        this.writer.writeln();
+        this.writer.write(`<title>${this.encode(path.basename(node.filename))}</title>`);
+        this.writer.writeln();
+        this.writer.write(`<style>`);
+        this.writer.indent();
+        for (const rule of defaultStyle) {
+            this.writer.writeln();
+            this.writer.write(rule);
+        }
+
+        this.writer.dedent();
+        this.writer.writeln();
+        this.writer.write(`</style>`);
+
+        let y = 0;
+        for (const diagram of this.diagrams) {
+            this.writer.writeln();
+            diagram.write(this.writer, y);
+            y += diagram.height;
+        }
+
+        this.writer.dedent();
+        this.writer.writeln();
+        this.writer.write(`</svg>`);
+        this.writer.writeln();
+    }
+
+    protected emitProduction(node: Production) {
+        let title = node.name.text;
+        if (node.parameterList && node.parameterList.elements) {
+            title += `[${node.parameterList.elements.map(parameter => parameter.name.text).join(", ")}]`;
+        }
+
+        if (node.colonToken) {
+            title += ` ${tokenToString(node.colonToken.kind)}`;
+        }
+
+        // a production may be declared more than once, but an id must be unique within the document
+        let linkId = this.resolver.getProductionLinkId(node.name);
+        if (linkId && Dictionary.has(this.ids, linkId)) {
+            linkId = undefined;
+        }
+        else if (linkId) {
+            Dictionary.set(this.ids, linkId, true);
+        }
+
+        const items = this.collect(() => this.emitNode(node.body));
+        this.diagrams.push(new Diagram(title, linkId, items.length === 1 ? items[0] : new Sequence(items)));
+    }
+
+    protected emitOneOfList(node: OneOfList) {
+        this.items.push(new Choice(this.collect(() => {
+            for (const terminal of node.terminals || []) {
+                this.emitNode(terminal);
+            }
+        })));
+    }
+
+    protected emitRightHandSideList(node: RightHandSideList) {
+        this.items.push(new Choice(this.collect(() => {
+            for (const rhs of node.elements || []) {
+                this.emitNode(rhs);
+            }
+        })));
+    }
+
+    protected emitRightHandSide(node: RightHandSide) {
+        this.items.push(new Sequence(this.collect(() => this.emitNode(node.head))));
+    }
+
+    protected emitSymbolSpan(node: SymbolSpan) {
+        this.emitNode(node.symbol);
+        this.emitNode(node.next);
+    }
+
+    protected emitTerminal(node: Terminal) {
+        this.pushOptional(node, new Box("terminal", node.text));
+    }
+
+    protected emitNonterminal(node: Nonterminal) {
+        let text = node.name.text;
+        if (node.argumentList && node.argumentList.elements) {
+            const args = node.argumentList.elements.map(argument => (argument.operatorToken ? tokenToString(argument.operatorToken.kind) : "") + (argument.name ? argument.name.text : ""));
+            text += `[${args.join(", ")}]`;
+        }
+
+        // recursion is shown as a link to the diagram of the production rather than by expanding it.
+        this.pushOptional(node, new Box("nonterminal", text, this.resolver.getProductionLinkId(node.name)));
+    }
+
+    protected emitUnicodeCharacterLiteral(node: UnicodeCharacterLiteral) {
+        this.pushOptional(node, new Box("literal", node.text));
+    }
+
+    protected emitUnicodeCharacterRange(node: UnicodeCharacterRange) {
+        this.items.push(new Box("literal", `${node.left.text} through ${node.right.text}`));
+    }
+
+    protected emitPlaceholder(node: LexicalSymbol) {
+        this.items.push(new Box("terminal", tokenToString(node.kind)));
+    }
+
+    protected emitProse(node: Prose) {
+        this.items.push(new Box("prose", getProseText(node.fragments)));
+    }
+
+    protected emitButNotSymbol(node: ButNotSymbol) {
+        this.emitNode(node.left);
+        this.items.push(new Label("keyword", "but not"));
+        this.emitNode(node.right);
+    }
+
+    protected emitOneOfSymbol(node: OneOfSymbol) {
+        this.items.push(new Choice(this.collect(() => {
+            for (const symbol of node.symbols || []) {
+                this.emitNode(symbol);
+            }
+        })));
+    }
+
+    protected emitEmptyAssertion(node: EmptyAssertion) {
+        this.items.push(new Skip());
+    }
+
+    protected emitLookaheadAssertion(node: LookaheadAssertion) {
+        let operator: string;
+        switch (node.operatorToken && node.operatorToken.kind) {
+            case SyntaxKind.ExclamationEqualsToken: operator = "≠"; break;
+            case SyntaxKind.EqualsEqualsToken: operator = "="; break;
+            case SyntaxKind.LessThanMinusToken: operator = "∈"; break;
+            case SyntaxKind.LessThanExclamationToken: operator = "∉"; break;
+        }
+
+        this.items.push(new Box("assertion", `[lookahead ${operator} ${this.getSourceText(node.lookahead)}]`));
+    }
+
+    protected emitLexicalGoalAssertion(node: LexicalGoalAssertion) {
+        this.emitAssertion(node);
+    }
+
+    protected emitNoSymbolHereAssertion(node: NoSymbolHereAssertion) {
+        this.emitAssertion(node);
+    }
+
+    protected emitParameterValueAssertion(node: ParameterValueAssertion) {
+        this.emitAssertion(node);
+    }
+
+    protected emitProseAssertion(node: ProseAssertion) {
+        this.items.push(new Box("assertion", `[> ${getProseText(node.fragments)}]`));
+    }
+
+    protected emitHtmlTrivia(range: TextRange) {
+        // html trivia such as `<ins>` and `<del>` would not be valid in the svg document.
+    }
+
+    private emitAssertion(node: Assertion) {
+        this.items.push(new Box("assertion", this.getSourceText(node)));
+    }
+
+    private pushOptional(node: OptionalSymbol, item: RailroadItem) {
+        this.items.push(node.questionToken ? new Choice([new Skip(), item]) : item);
+    }
+
+    private collect(callback: () => void): RailroadItem[] {
+        const saveItems = this.items;
+        try {
+            this.items = [];
+            callback();
+            return this.items;
+        }
+        finally {
+            this.items = saveItems;
+        }
+    }
+
+    private getSourceText(node: Node) {
+        if (!node) {
+            return "";
+        }
+
+        const sourceFile = this.resolver.getSourceFileOfNode(node);
+        return sourceFile.text.substring(node.pos, node.end).trim().replace(/\s+/g, " ");
+    }
+}
+
+function getProseText(fragments: ProseFragment[]) {
+    let text = "";
+    for (const fragment of fragments || []) {
+        switch (fragment.kind) {
+            case SyntaxKind.Terminal:
+                text += `\`${(<Terminal>fragment).text}\``;
+                break;
+
+            case SyntaxKind.Nonterminal:
+                text += (<Nonterminal>fragment).name.text;
+                break;
+
+            default:
+                text += (<TextContent>fragment).text;
+                break;
+        }
+    }
+
+    // the text of prose that spans lines includes the indentation of each line.
+    return text.trim().replace(/\s+/g, " ");
+}
+
+function encode(text: string) {
+    return text.replace(/[&<>'"]/g, ch => {
+        switch (ch) {
+            case "&": return "&amp;";
+            case "<": return "&lt;";
+            case ">": return "&gt;";
+            case "'": return "&apos;";
+            case '"': return "&quot;";
+        }
+    });
+}
+
+/**
+ * A part of a railroad diagram, measured from the point at which the line enters it on its left.
+ */
+abstract class RailroadItem {
+    public width = 0;
+    /** The height of the item above its line. */
+    public up = 0;
+    /** The height of the item below its line. */
+    public down = 0;
+
+    public abstract write(writer: StringWriter, x: number, y: number): void;
+}
+
+class Skip extends RailroadItem {
+    public write(writer: StringWriter, x: number, y: number) {
+    }
+}
+
+class Label extends RailroadItem {
+    constructor(public className: string, public text: string) {
+        super();
+        this.width = text.length * characterWidth;
+        this.up = this.down = boxHeight / 2;
+    }
+
+    public write(writer: StringWriter, x: number, y: number) {
+        writer.writeln();
+        writer.write(`<g class="${this.className}"><text x="${x + this.width / 2}" y="${y + 4}">${encode(this.text)}</text></g>`);
+    }
+}
+
+class Box extends RailroadItem {
+    constructor(public className: string, public text: string, public linkId?: string) {
+        super();
+        this.width = text.length * characterWidth + boxPadding * 2;
+        this.up = this.down = boxHeight / 2;
+    }
+
+    public write(writer: StringWriter, x: number, y: number) {
+        // terminals are drawn with round ends, as in the railroad diagrams of most language specifications.
+        const radius = this.className === "terminal" || this.className === "literal" ? boxHeight / 2 : 0;
+        writer.writeln();
+        if (this.linkId) {
+            writer.write(`<a xlink:href="#${this.linkId}">`);
+        }
+
+        writer.write(`<g class="${this.className}">`);
+        writer.write(`<rect x="${x}" y="${y - this.up}" width="${this.width}" height="${boxHeight}" rx="${radius}" ry="${radius}"/>`);
+        writer.write(`<text x="${x + this.width / 2}" y="${y + 4}">${encode(this.text)}</text>`);
+        writer.write(`</g>`);
+        if (this.linkId) {
+            writer.write(`</a>`);
+        }
+    }
+}
+
+class Sequence extends RailroadItem {
+    constructor(public items: RailroadItem[]) {
+        super();
+        for (let i = 0; i < items.length; ++i) {
+            this.width += items[i].width + (i > 0 ? horizontalSeparation : 0);
+            this.up = Math.max(this.up, items[i].up);
+            this.down = Math.max(this.down, items[i].down);
+        }
+    }
+
+    public write(writer: StringWriter, x: number, y: number) {
+        for (let i = 0; i < this.items.length; ++i) {
+            if (i > 0) {
+                writer.writeln();
+                writer.write(`<path d="M${x} ${y}h${horizontalSeparation}"/>`);
+                x += horizontalSeparation;
+            }
+
+            this.items[i].write(writer, x, y);
+            x += this.items[i].width;
+        }
+    }
+}
+
+/**
+ * Alternatives branch from the line of the first alternative and join it again, so an optional symbol is a choice
+ * between a bypass and the symbol.
+ */
+class Choice extends RailroadItem {
+    private innerWidth = 0;
+    /** The distance from the line of the first alternative to the line of each alternative. */
+    private offsets: number[] = [];
+
+    constructor(public items: RailroadItem[]) {
+        super();
+        let offset = 0;
+        for (let i = 0; i < items.length; ++i) {
+            if (i > 0) {
+                offset = Math.max(offset + items[i - 1].down + verticalSeparation + items[i].up, offset + arcRadius * 2);
+            }
+
+            this.offsets.push(offset);
+            this.innerWidth = Math.max(this.innerWidth, items[i].width);
+        }
+
+        this.width = this.innerWidth + arcRadius * 4;
+        this.up = items.length > 0 ? items[0].up : 0;
+        this.down = items.length > 0 ? offset + items[items.length - 1].down : 0;
+    }
+
+    public write(writer: StringWriter, x: number, y: number) {
+        const r = arcRadius;
+        for (let i = 0; i < this.items.length; ++i) {
+            const item = this.items[i];
+            const offset = this.offsets[i];
+            writer.writeln();
+            if (i === 0) {
+                writer.write(`<path d="M${x} ${y}h${r * 2}"/>`);
+            }
+            else {
+                writer.write(`<path d="M${x} ${y}a${r} ${r} 0 0 1 ${r} ${r}v${offset - r * 2}a${r} ${r} 0 0 0 ${r} ${r}"/>`);
+            }
+
+            item.write(writer, x + r * 2, y + offset);
+            writer.writeln();
+            if (i === 0) {
+                writer.write(`<path d="M${x + r * 2 + item.width} ${y}h${this.innerWidth - item.width + r * 2}"/>`);
+            }
+            else {
+                writer.write(`<path d="M${x + r * 2 + item.width} ${y + offset}h${this.innerWidth - item.width}a${r} ${r} 0 0 0 ${r} ${-r}v${r * 2 - offset}a${r} ${r} 0 0 1 ${r} ${-r}"/>`);
+            }
+        }
+    }
+}
+
+class Diagram {
+    public width: number;
+    public height: number;
+
+    constructor(public title: string, public linkId: string, public body: RailroadItem) {
+        this.width = Math.max(body.width + (diagramMargin + horizontalSeparation) * 2, title.length * characterWidth) + diagramMargin * 2;
+        this.height = titleHeight + body.up + body.down + diagramMargin * 2;
+    }
+
+    public write(writer: StringWriter, y: number) {
+        const lineY = titleHeight + this.body.up + diagramMargin;
+        const bodyX = diagramMargin * 2 + horizontalSeparation;
+        writer.write(`<g class="production"`);
+        if (this.linkId) {
+            writer.write(` id="${this.linkId}"`);
+        }
+
+        writer.write(` transform="translate(0 ${y})">`);
+        writer.indent();
+        writer.writeln();
+        writer.write(`<text class="title" x="${diagramMargin}" y="${titleHeight - diagramMargin}">${encode(this.title)}</text>`);
+        writer.writeln();
+        writer.write(`<path d="M${diagramMargin * 2} ${lineY - 8}v16M${diagramMargin * 2} ${lineY}h${horizontalSeparation}"/>`);
+        this.body.write(writer, bodyX, lineY);
+        writer.writeln();
+        writer.write(`<path d="M${bodyX + this.body.width} ${lineY}h${horizontalSeparation}m0 -8v16"/>`);
+        writer.dedent();
+        writer.writeln();
+        writer.write(`</g>`);
+    }
+}
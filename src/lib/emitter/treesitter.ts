@@ -0,0 +1,490 @@
+import * as path from "path";
+import { EOL } from "os";
+import { CancellationToken } from "prex";
+import { Dictionary } from "../core";
+import { CompilerOptions } from "../options";
+import { DiagnosticMessages } from "../diagnostics";
+import { Resolver } from "../checker";
+import { ParameterExpander } from "../expander";
+import { LRAutomaton } from "../automaton";
+import { getCodePointOfLiteral } from "../analyzer";
+import { SyntaxKind } from "../tokens";
+import { ParserGrammarEmitter, CharacterSet, maxCodePoint, subtractCharacterSets, getRightHandSides, isLeftRecursive, isLexical } from "./parsergrammar";
+import {
+    Node,
+    SourceFile,
+    UnicodeCharacterLiteral,
+    UnicodeCharacterRange,
+    Prose,
+    OneOfList,
+    Terminal,
+    EmptyAssertion,
+    LookaheadAssertion,
+    NoSymbolHereAssertion,
+    LexicalGoalAssertion,
+    ProseAssertion,
+    Nonterminal,
+    OneOfSymbol,
+    LexicalSymbol,
+    ButNotSymbol,
+    SymbolSpan,
+    RightHandSide,
+    RightHandSideList,
+    Production
+} from "../nodes";
+
+/**
+ * Emits a tree-sitter grammar, as the source of a `grammar.js` file.
+ *
+ * Syntactic productions become rules, and lexical productions that are tokens become rules that match a `token()`,
+ * with the lexical productions they reference inlined. The first goal, or the first syntactic production, is the start
+ * rule, as tree-sitter starts from the first rule. Conflicts
+ * found by the LR(1) analysis of the grammar are listed in the `conflicts` of the grammar, and constructs that
+ * tree-sitter cannot express without an external scanner are omitted, with a diagnostic reported for each.
+ */
+export class TreeSitterEmitter extends ParserGrammarEmitter {
+    protected extension = ".js";
+    protected targetName = "tree-sitter";
+
+    private automaton: LRAutomaton;
+    private ruleNames: Dictionary<string>;
+    private lexical: boolean;
+    private inlining: string[];
+    private items: string[];
+
+    constructor(options: CompilerOptions, resolver: Resolver, diagnostics: DiagnosticMessages, expander: ParameterExpander, sourceFiles: SourceFile[], automaton: LRAutomaton, cancellationToken = CancellationToken.none) {
+        super(options, resolver, diagnostics, expander, sourceFiles, cancellationToken);
+        this.automaton = automaton;
+    }
+
+    protected emitSourceFile(node: SourceFile) {
+        this.collectProductions();
+        this.ruleNames = this.getRuleNames(name => name.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toLowerCase(), []);
+        this.inlining = [];
+        this.items = [];
+
+        // lexical productions that are not tokens are inlined in the tokens that reference them.
+        const start = (this.options.goals || []).filter(name => this.syntacticNames.indexOf(name) >= 0)[0] || this.syntacticNames[0];
+        const names = this.syntacticNames.filter(name => name === start)
+            .concat(this.syntacticNames.filter(name => name !== start))
+            .concat(this.lexicalNames.filter(name => Dictionary.has(this.tokens, name)));
+        const grammarName = path.basename(node.filename, ".grammar").replace(/\W/g, "_");
+        this.writer.write(`module.exports = grammar({`);
+        this.writer.indent();
+        this.writer.writeln();
+        this.writer.write(`name: ${JSON.stringify(/^\d/.test(grammarName) ? "_" + grammarName : grammarName)},`);
+
+        const extras = (this.options.trivia || []).filter(name => this.lexicalNames.indexOf(name) >= 0);
+        if (extras.length > 0) {
+            this.writeBlankLine();
+            this.writeList(`extras: $ => [`, extras.map(name => `$.${Dictionary.get(this.ruleNames, name)}`), `],`);
+        }
+
+        const conflicts = this.getConflicts();
+        if (conflicts.length > 0) {
+            this.writeBlankLine();
+            this.writeList(`conflicts: $ => [`, conflicts.map(conflict => `[${conflict.map(name => `$.${name}`).join(", ")}]`), `],`);
+        }
+
+        this.writeBlankLine();
+        this.writer.write(`rules: {`);
+        this.writer.indent();
+        for (let i = 0; i < names.length; i++) {
+            if (i > 0) {
+                this.writer.write(`,`);
+                this.writeBlankLine();
+            }
+            else {
+                this.writer.writeln();
+            }
+
+            this.emitRule(names[i]);
+        }
+
+        this.writer.dedent();
+        this.writer.writeln();
+        this.writer.write(`}`);
+        this.writer.dedent();
+        this.writer.writeln();
+        this.writer.write(`});`);
+        this.writer.writeln();
+    }
+
+    protected emitOneOfList(node: OneOfList) {
+        for (const terminal of node.terminals || []) {
+            this.emitNode(terminal);
+        }
+    }
+
+    protected emitRightHandSideList(node: RightHandSideList) {
+        for (const rhs of node.elements || []) {
+            this.emitNode(rhs);
+        }
+    }
+
+    protected emitRightHandSide(node: RightHandSide) {
+        pushSequence(this.items, this.formatSequence(node.head));
+    }
+
+    protected emitTerminal(node: Terminal) {
+        this.writeSymbol(JSON.stringify(node.text), node);
+    }
+
+    protected emitNonterminal(node: Nonterminal) {
+        const name = node.name && node.name.text;
+        const productions = Dictionary.get(this.productions, name);
+        if (!productions || !(this.lexical && isLexical(productions[0]))) {
+            this.writeSymbol(`$.${Dictionary.has(this.ruleNames, name) ? Dictionary.get(this.ruleNames, name) : name}`, node);
+            return;
+        }
+
+        // a token cannot reference another rule, so the lexical productions it references are inlined.
+        const set = this.getCharacterSet(node);
+        if (set) {
+            this.writeSymbol(formatCharacterSet(set), node);
+        }
+        else if (this.inlining.indexOf(name) >= 0) {
+            this.reportOmitted(node);
+        }
+        else {
+            this.writeSymbol(choice(this.collectLexicalAlternatives(name)), node);
+        }
+    }
+
+    protected emitUnicodeCharacterLiteral(node: UnicodeCharacterLiteral) {
+        const codePoint = getCodePointOfLiteral(node);
+        const propertyClass = this.getUnicodePropertyClass(node);
+        if (codePoint !== undefined) {
+            this.writeSymbol(JSON.stringify(codePoint > 0xFFFF
+                ? String.fromCharCode(Math.floor((codePoint - 0x10000) / 0x400) + 0xD800, (codePoint - 0x10000) % 0x400 + 0xDC00)
+                : String.fromCharCode(codePoint)), node);
+        }
+        else if (propertyClass) {
+            this.writeSymbol(`/${propertyClass}/`, node);
+        }
+        else {
+            this.reportOmitted(node);
+        }
+    }
+
+    protected emitUnicodeCharacterRange(node: UnicodeCharacterRange) {
+        const set = this.getCharacterSet(node);
+        if (set) {
+            this.writeSymbol(formatCharacterSet(set), node);
+        }
+        else {
+            this.reportOmitted(node);
+        }
+    }
+
+    protected emitProse(node: Prose) {
+        const set = this.getCharacterSet(node);
+        const propertyClass = this.getUnicodePropertyClass(node);
+        if (set) {
+            this.writeSymbol(formatCharacterSet(set), node);
+        }
+        else if (propertyClass) {
+            this.writeSymbol(`/${propertyClass}/`, node);
+        }
+        else {
+            this.reportOmitted(node);
+        }
+    }
+
+    protected emitPlaceholder(node: LexicalSymbol) {
+        this.reportOmitted(node);
+    }
+
+    protected emitButNotSymbol(node: ButNotSymbol) {
+        // a regular expression can match a set of characters less another set, but the exclusion of other tokens or
+        // sequences needs an external scanner.
+        const set = this.getCharacterSet(node);
+        if (set && set.length > 0) {
+            this.writeSymbol(formatCharacterSet(set), node);
+        }
+        else {
+            this.emitNode(node.left);
+            this.reportOmitted(node, `but not ${this.getSourceText(node.right)}`);
+        }
+    }
+
+    protected emitOneOfSymbol(node: OneOfSymbol) {
+        this.writeSymbol(choice(this.collect(() => {
+            for (const symbol of node.symbols || []) {
+                this.emitNode(symbol);
+            }
+        })), node);
+    }
+
+    protected emitEmptyAssertion(node: EmptyAssertion) {
+    }
+
+    protected emitLookaheadAssertion(node: LookaheadAssertion) {
+        this.reportOmitted(node);
+    }
+
+    protected emitLexicalGoalAssertion(node: LexicalGoalAssertion) {
+        this.reportOmitted(node);
+    }
+
+    protected emitNoSymbolHereAssertion(node: NoSymbolHereAssertion) {
+        this.reportOmitted(node);
+    }
+
+    protected emitProseAssertion(node: ProseAssertion) {
+        this.reportOmitted(node);
+    }
+
+    private emitRule(name: string) {
+        const productions = Dictionary.get(this.productions, name);
+        this.lexical = isLexical(productions[0]);
+        const alternatives = this.lexical
+            ? this.collectLexicalAlternatives(name)
+            : this.collect(() => {
+                for (const production of productions) {
+                    this.emitNode(production);
+                }
+            });
+
+        // a rule whose alternatives were all left out matches the empty string.
+        if (alternatives.length === 0) {
+            alternatives.push(`blank()`);
+        }
+
+        // a token made of a single string or regular expression does not need to be wrapped.
+        const token = this.lexical && !(alternatives.length === 1 && /^["\/]/.test(alternatives[0]));
+        const prefix = `${Dictionary.get(this.ruleNames, name)}: $ => ${token ? "token(" : ""}`;
+        const suffix = token ? ")" : "";
+        if (alternatives.length === 1) {
+            this.writer.write(prefix + alternatives[0] + suffix);
+        }
+        else {
+            this.writeList(prefix + "choice(", alternatives, ")" + suffix);
+        }
+    }
+
+    /**
+     * Gets the alternatives of a lexical production. Recursion at the start or end of an alternative, which is how a
+     * lexical production repeats, becomes a repetition: `A :: B`, `A :: A C`, and `A :: D A` becomes
+     * `seq(repeat(D), B, repeat(C))`.
+     */
+    private collectLexicalAlternatives(name: string) {
+        const heads: string[] = [];
+        const tails: string[] = [];
+        const prefixes: string[] = [];
+        const saveProduction = this.currentProduction;
+        const saveLexical = this.lexical;
+        try {
+            this.lexical = true;
+            this.inlining.push(name);
+            for (const production of Dictionary.get(this.productions, name)) {
+                this.setCurrentProduction(production);
+                if (production.body && production.body.kind === SyntaxKind.OneOfList) {
+                    heads.push(...this.collect(() => this.emitNode(production.body)));
+                    continue;
+                }
+
+                for (const rhs of getRightHandSides(production)) {
+                    const last = getLastSpan(rhs);
+                    if (isLeftRecursive(rhs, name)) {
+                        pushSequence(tails, this.formatSequence(rhs.head.next));
+                    }
+                    else if (last && last !== rhs.head && isReferenceTo(last.symbol, name)) {
+                        // `A :: D A?` is both `A :: D A` and `A :: D`.
+                        const prefix = this.formatSequence(rhs.head, last);
+                        pushSequence(prefixes, prefix);
+                        if ((<Nonterminal>last.symbol).questionToken) {
+                            pushSequence(heads, prefix);
+                        }
+                    }
+                    else {
+                        pushSequence(heads, this.formatSequence(rhs.head));
+                    }
+                }
+            }
+        }
+        finally {
+            this.inlining.pop();
+            this.lexical = saveLexical;
+            if (saveProduction) {
+                this.setCurrentProduction(saveProduction);
+            }
+        }
+
+        if (tails.length === 0 && prefixes.length === 0) {
+            return heads;
+        }
+
+        const parts: string[] = [];
+        if (prefixes.length > 0) {
+            parts.push(`repeat(${choice(prefixes)})`);
+        }
+
+        parts.push(choice(heads));
+        if (tails.length > 0) {
+            parts.push(`repeat(${choice(tails)})`);
+        }
+
+        return [seq(parts)];
+    }
+
+    /**
+     * Formats the symbols of an alternative, or gets `undefined` if each of its symbols was omitted, as the alternative
+     * would otherwise match the empty string.
+     */
+    private formatSequence(head: SymbolSpan, last?: SymbolSpan) {
+        const omittedCount = this.omittedCount;
+        const items = this.collect(() => {
+            for (let span = head; span && span !== last; span = span.next) {
+                this.emitNode(span.symbol);
+            }
+        });
+
+        return items.length > 0 || this.omittedCount === omittedCount ? seq(items) : undefined;
+    }
+
+    /**
+     * Gets the names of the rules that take part in each conflict found by the LR(1) analysis of the grammar.
+     */
+    private getConflicts() {
+        const conflicts: string[][] = [];
+        const seen = new Dictionary<boolean>();
+        for (const conflict of this.automaton.getConflicts()) {
+            const names: string[] = [];
+            for (const production of [conflict.production, conflict.otherProduction]) {
+                const name = this.getRuleNameOfConcreteProduction(production);
+                if (name && names.indexOf(name) < 0) {
+                    names.push(name);
+                }
+            }
+
+            names.sort();
+            const key = names.join(",");
+            if (names.length > 0 && !Dictionary.has(seen, key)) {
+                Dictionary.set(seen, key, true);
+                conflicts.push(names);
+            }
+        }
+
+        return conflicts;
+    }
+
+    /**
+     * Gets the rule name for a production and its arguments, such as `Expression[+In, ~Yield]`.
+     */
+    private getRuleNameOfConcreteProduction(text: string) {
+        const match = /^([^\[]+)(?:\[(.*)\])?$/.exec(text);
+        if (!match) {
+            return undefined;
+        }
+
+        const args = new Dictionary<boolean>();
+        for (const arg of match[2] ? match[2].split(/,\s*/) : []) {
+            Dictionary.set(args, arg.substr(1), arg.charAt(0) === "+");
+        }
+
+        const name = this.expander.getExpandedName(match[1], args);
+        return name && Dictionary.get(this.ruleNames, name);
+    }
+
+    private writeList(open: string, items: string[], close: string) {
+        this.writer.write(open);
+        this.writer.indent();
+        for (let i = 0; i < items.length; i++) {
+            this.writer.writeln();
+            this.writer.write(items[i] + (i < items.length - 1 ? "," : ""));
+        }
+
+        this.writer.dedent();
+        this.writer.writeln();
+        this.writer.write(close);
+    }
+
+    private writeBlankLine() {
+        this.writer.write(EOL);
+        this.writer.writeln();
+    }
+
+    private writeSymbol(text: string, node: Node) {
+        this.items.push((<Terminal>node).questionToken ? `optional(${text})` : text);
+    }
+
+    private collect(callback: () => void): string[] {
+        const saveItems = this.items;
+        try {
+            this.items = [];
+            callback();
+            return this.items;
+        }
+        finally {
+            this.items = saveItems;
+        }
+    }
+}
+
+function pushSequence(sequences: string[], sequence: string) {
+    if (sequence !== undefined) {
+        sequences.push(sequence);
+    }
+}
+
+function seq(items: string[]) {
+    return items.length === 0 ? `blank()` : items.length === 1 ? items[0] : `seq(${items.join(", ")})`;
+}
+
+function choice(items: string[]) {
+    return items.length === 1 ? items[0] : `choice(${items.join(", ")})`;
+}
+
+function getLastSpan(rhs: RightHandSide) {
+    let span = rhs.head;
+    while (span && span.next) {
+        span = span.next;
+    }
+
+    return span;
+}
+
+function isReferenceTo(symbol: LexicalSymbol, name: string) {
+    return !!symbol && symbol.kind === SyntaxKind.Nonterminal && !!(<Nonterminal>symbol).name && (<Nonterminal>symbol).name.text === name;
+}
+
+function formatCharacterSet(set: CharacterSet) {
+    // a set that extends to the last code point is written as the complement of the characters it excludes.
+    if (set.length > 0 && set[set.length - 1][1] === maxCodePoint) {
+        const complement = subtractCharacterSets([[0, maxCodePoint]], set);
+        return complement.length === 0 ? `/[\\s\\S]/` : `/[^${formatCharacterSetRanges(complement)}]/`;
+    }
+
+    return `/[${formatCharacterSetRanges(set)}]/`;
+}
+
+function formatCharacterSetRanges(set: CharacterSet) {
+    let text = "";
+    for (const range of set) {
+        text += escapeSetCharacter(range[0]);
+        if (range[1] > range[0]) {
+            text += "-" + escapeSetCharacter(range[1]);
+        }
+    }
+
+    return text;
+}
+
+function escapeSetCharacter(codePoint: number) {
+    switch (codePoint) {
+        case 0x2D: return "\\-";
+        case 0x2F: return "\\/";
+        case 0x5B: return "\\[";
+        case 0x5C: return "\\\\";
+        case 0x5D: return "\\]";
+        case 0x5E: return "\\^";
+    }
+
+    if (codePoint > 0x20 && codePoint < 0x7F) {
+        return String.fromCharCode(codePoint);
+    }
+
+    const hex = codePoint.toString(16).toUpperCase();
+    return codePoint > 0xFFFF ? `\\u{${hex}}` : "\\u" + "0000".substr(hex.length) + hex;
+}
@@ -0,0 +1,330 @@
+import { CancellationToken } from "prex";
+import { Dictionary } from "./core";
+import { NullDiagnosticMessages } from "./diagnostics";
+import { SyntaxKind } from "./tokens";
+import { Symbol, SymbolKind } from "./symbols";
+import { BindingTable } from "./binder";
+import { Analyzer } from "./analyzer";
+import { Parser } from "./parser";
+import { ConcreteNonterminal, ConcreteNonterminalTable, getArguments, isSatisfied } from "./expansion";
+import {
+    Node,
+    Nonterminal,
+    RightHandSide,
+    RightHandSideList,
+    Production,
+    SourceFile,
+    forEachChild
+} from "./nodes";
+
+interface ProductionInstance {
+    /** The name of the expanded production, e.g. `Expression_In` for `Expression[+In, ~Yield]`. */
+    name: string;
+    symbol: Symbol;
+    args: Dictionary<boolean>;
+}
+
+interface TextEdit {
+    pos: number;
+    end: number;
+    text: string;
+}
+
+/**
+ * Expands each parametric production of a grammar into a production for each combination of arguments that is
+ * reachable in the grammar. Parameter value assertions are resolved, and a right-hand side whose assertions do
+ * not hold for an instance is removed from that instance.
+ *
+ * An expanded production is named for the parameters that are set, so `Expression[+In, ~Yield]` becomes
+ * `Expression_In`, while `Expression[~In, ~Yield]` becomes `Expression`. A parametric goal production is expanded for
+ * every combination of its arguments.
+ */
+export class ParameterExpander {
+    private bindings: BindingTable;
+    private analyzer: Analyzer;
+    private cancellationToken: CancellationToken;
+    private collected = false;
+    private instances = new Dictionary<ProductionInstance[]>();
+    private instanceNames = new Dictionary<ProductionInstance>();
+    private nonterminals: ProductionInstance[] = [];
+    private nonterminalTable: ConcreteNonterminalTable;
+    private sourceProductions = new Dictionary<Production>();
+    private sourceRightHandSides = new Dictionary<RightHandSide>();
+
+    constructor(bindings: BindingTable, analyzer: Analyzer, cancellationToken = CancellationToken.none) {
+        this.bindings = bindings;
+        this.analyzer = analyzer;
+        this.cancellationToken = cancellationToken;
+        this.nonterminalTable = new ConcreteNonterminalTable(bindings, nonterminal => this.nonterminals.push(this.createInstance(nonterminal)) - 1);
+    }
+
+    /**
+     * Creates an expanded copy of each source file.
+     */
+    public expandSourceFiles(sourceFiles: SourceFile[]): SourceFile[] {
+        this.collectInstances();
+        const parser = new Parser(NullDiagnosticMessages.instance, this.cancellationToken);
+        return sourceFiles.map(sourceFile => {
+            const sourceProductions: [Production, RightHandSide[]][] = [];
+            const expandedFile = parser.parseSourceFile(sourceFile.filename, this.expandSourceFile(sourceFile, sourceProductions));
+            let index = 0;
+            for (const element of expandedFile.elements) {
+                if (element.kind === SyntaxKind.Production) {
+                    const [sourceProduction, sourceRightHandSides] = sourceProductions[index++];
+                    Dictionary.set(this.sourceProductions, element.id, sourceProduction);
+                    const body = (<Production>element).body;
+                    const rightHandSides = body && body.kind === SyntaxKind.RightHandSideList ? (<RightHandSideList>body).elements || []
+                        : body && body.kind === SyntaxKind.RightHandSide ? [<RightHandSide>body]
+                        : [];
+                    rightHandSides.forEach((rhs, i) => Dictionary.set(this.sourceRightHandSides, rhs.id, sourceRightHandSides[i]));
+                }
+            }
+
+            return expandedFile;
+        });
+    }
+
+    /**
+     * Gets the production from which a production of an expanded source file was expanded.
+     */
+    public getSourceProduction(production: Production): Production {
+        return Dictionary.get(this.sourceProductions, production.id);
+    }
+
+    /**
+     * Gets the right-hand side from which a right-hand side of an expanded source file was expanded.
+     */
+    public getSourceRightHandSide(rhs: RightHandSide): RightHandSide {
+        return Dictionary.get(this.sourceRightHandSides, rhs.id);
+    }
+
+    /**
+     * Gets the names of the expanded productions for a production.
+     */
+    public getExpandedNames(symbol: Symbol): string[] {
+        this.collectInstances();
+        return (Dictionary.get(this.instances, symbol.id) || []).map(instance => instance.name);
+    }
+
+    /**
+     * Gets the name of the expanded production for a production and its arguments, or `undefined` if that combination
+     * of arguments is not reachable in the grammar.
+     */
+    public getExpandedName(name: string, args: Dictionary<boolean>): string {
+        this.collectInstances();
+        const symbol = this.bindings.globals.resolveSymbol(name, SymbolKind.Production);
+        const parameters = symbol ? this.nonterminalTable.getParameters(symbol) : [];
+        for (const instance of symbol && Dictionary.get(this.instances, symbol.id) || []) {
+            if (parameters.every(parameter => Dictionary.get(instance.args, parameter) === !!Dictionary.get(args, parameter))) {
+                return instance.name;
+            }
+        }
+
+        return undefined;
+    }
+
+    private collectInstances() {
+        if (this.collected) {
+            return;
+        }
+
+        this.collected = true;
+        const startSymbols = this.analyzer.getStartSymbols();
+        for (const symbol of this.analyzer.getProductionSymbols()) {
+            if (this.nonterminalTable.getParameters(symbol).length === 0 || startSymbols.indexOf(symbol) >= 0) {
+                this.nonterminalTable.getEveryNonterminal(symbol);
+            }
+        }
+
+        this.nonterminalTable.expandPendingNonterminals(index => {
+            const instance = this.nonterminals[index];
+            for (const rhs of this.analyzer.getRightHandSides(instance.symbol)) {
+                if (isSatisfied(rhs, instance.args)) {
+                    this.collectReferences(rhs, instance.args);
+                }
+            }
+        }, this.cancellationToken);
+
+        // order the instances of each production by their arguments, so the output does not depend on the order of references.
+        for (const symbol of this.analyzer.getProductionSymbols()) {
+            const parameters = this.nonterminalTable.getParameters(symbol);
+            const instances = Dictionary.get(this.instances, symbol.id);
+            if (instances) {
+                instances.sort((a, b) => getArgumentsOrder(a.args, parameters) - getArgumentsOrder(b.args, parameters));
+            }
+        }
+    }
+
+    private collectReferences(node: Node, args: Dictionary<boolean>) {
+        switch (node.kind) {
+            case SyntaxKind.Prose:
+            case SyntaxKind.ProseAssertion:
+                return;
+
+            case SyntaxKind.Nonterminal:
+                const target = this.analyzer.getProductionSymbol(<Nonterminal>node);
+                if (target) {
+                    this.getInstance(target, getArguments(<Nonterminal>node, args));
+                }
+
+                break;
+        }
+
+        forEachChild(node, child => this.collectReferences(child, args));
+    }
+
+    private getInstance(symbol: Symbol, args: Dictionary<boolean>): ProductionInstance {
+        return this.nonterminals[this.nonterminalTable.getNonterminal(symbol, args)];
+    }
+
+    private createInstance({ symbol, args }: ConcreteNonterminal): ProductionInstance {
+        let name = symbol.name;
+        for (const parameter of this.nonterminalTable.getParameters(symbol)) {
+            if (Dictionary.get(args, parameter)) {
+                name += "_" + parameter;
+            }
+        }
+
+        // avoid a name that is already used by another production.
+        while (Dictionary.has(this.instanceNames, name) || this.isNameOfOtherProduction(name, symbol)) {
+            name += "_";
+        }
+
+        const instance: ProductionInstance = { name, symbol, args };
+        let instances = Dictionary.get(this.instances, symbol.id);
+        if (!instances) {
+            instances = [];
+            Dictionary.set(this.instances, symbol.id, instances);
+        }
+
+        instances.push(instance);
+        Dictionary.set(this.instanceNames, name, instance);
+        return instance;
+    }
+
+    private isNameOfOtherProduction(name: string, symbol: Symbol) {
+        const existing = this.bindings.globals.resolveSymbol(name, SymbolKind.Production);
+        return !!existing && existing !== symbol;
+    }
+
+    private expandSourceFile(sourceFile: SourceFile, sourceProductions: [Production, RightHandSide[]][]): string {
+        const text = sourceFile.text;
+        const lineTerminator = /\r\n/.test(text) ? "\r\n" : "\n";
+        let result = "";
+        let pos = 0;
+        for (const element of sourceFile.elements) {
+            if (element.kind !== SyntaxKind.Production) {
+                continue;
+            }
+
+            const production = <Production>element;
+            const symbol = this.bindings.getSymbol(production);
+            const instances = symbol ? Dictionary.get(this.instances, symbol.id) || [] : [];
+            const expanded: string[] = [];
+            for (const instance of instances) {
+                const rightHandSides: RightHandSide[] = [];
+                const instanceText = this.expandProduction(sourceFile, production, instance, rightHandSides);
+                if (instanceText !== undefined) {
+                    expanded.push(instanceText);
+                    sourceProductions.push([production, rightHandSides]);
+                }
+            }
+
+            // keep the whitespace that separates the production from the next element.
+            const trailingWhitespace = expanded.length > 0 ? /\s*$/.exec(text.substring(production.pos, production.end))[0] : "";
+            result += text.substring(pos, production.pos) + expanded.join(lineTerminator + lineTerminator) + trailingWhitespace;
+            pos = production.end;
+        }
+
+        return result + text.substring(pos);
+    }
+
+    /**
+     * Gets the text of an instance of a production, adding each right-hand side that is kept to `rightHandSides`.
+     */
+    private expandProduction(sourceFile: SourceFile, production: Production, instance: ProductionInstance, rightHandSides: RightHandSide[]): string {
+        const text = sourceFile.text;
+        const edits: TextEdit[] = [];
+        if (production.parameterList) {
+            edits.push({ pos: production.name.pos, end: production.parameterList.end, text: instance.name });
+        }
+
+        const body = production.body;
+        if (body && body.kind === SyntaxKind.RightHandSideList) {
+            let count = 0;
+            for (const rhs of (<RightHandSideList>body).elements || []) {
+                if (isSatisfied(rhs, instance.args)) {
+                    this.addReferenceEdits(rhs, instance.args, text, edits);
+                    rightHandSides.push(rhs);
+                    count++;
+                }
+                else {
+                    // remove the entire line of the right-hand side.
+                    const lineStart = text.lastIndexOf("\n", rhs.pos - 1) + 1;
+                    const lineEnd = text.indexOf("\n", rhs.end);
+                    edits.push({ pos: lineStart, end: lineEnd === -1 ? rhs.end : lineEnd + 1, text: "" });
+                }
+            }
+
+            if (count === 0) {
+                return undefined;
+            }
+        }
+        else if (body && body.kind === SyntaxKind.RightHandSide) {
+            if (!isSatisfied(<RightHandSide>body, instance.args)) {
+                return undefined;
+            }
+
+            this.addReferenceEdits(body, instance.args, text, edits);
+            rightHandSides.push(<RightHandSide>body);
+        }
+
+        edits.sort((a, b) => b.pos - a.pos);
+        let result = text.substring(production.pos, production.end);
+        for (const edit of edits) {
+            const pos = Math.max(edit.pos, production.pos) - production.pos;
+            const end = Math.min(edit.end, production.end) - production.pos;
+            result = result.substring(0, pos) + edit.text + result.substring(end);
+        }
+
+        return result.replace(/\s+$/, "");
+    }
+
+    private addReferenceEdits(node: Node, args: Dictionary<boolean>, text: string, edits: TextEdit[]) {
+        switch (node.kind) {
+            case SyntaxKind.Prose:
+            case SyntaxKind.ProseAssertion:
+                return;
+
+            case SyntaxKind.ParameterValueAssertion:
+                // remove the assertion along with any whitespace that follows it.
+                const whitespace = /^[ \t]*/.exec(text.substring(node.end))[0];
+                edits.push({ pos: node.pos, end: node.end + whitespace.length, text: "" });
+                return;
+
+            case SyntaxKind.Nonterminal:
+                const nonterminal = <Nonterminal>node;
+                const target = this.analyzer.getProductionSymbol(nonterminal);
+                if (target && nonterminal.name) {
+                    const instance = this.getInstance(target, getArguments(nonterminal, args));
+                    const end = nonterminal.argumentList ? nonterminal.argumentList.end : nonterminal.name.end;
+                    edits.push({ pos: nonterminal.name.pos, end, text: instance.name });
+                }
+
+                return;
+        }
+
+        forEachChild(node, child => this.addReferenceEdits(child, args, text, edits));
+    }
+}
+
+function getArgumentsOrder(args: Dictionary<boolean>, parameters: string[]) {
+    let order = 0;
+    for (let i = 0; i < parameters.length; i++) {
+        if (Dictionary.get(args, parameters[i])) {
+            order |= 1 << i;
+        }
+    }
+
+    return order;
+}
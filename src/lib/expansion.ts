@@ -0,0 +1,157 @@
+import { CancellationToken } from "prex";
+import { Dictionary } from "./core";
+import { SyntaxKind } from "./tokens";
+import { Symbol } from "./symbols";
+import { BindingTable } from "./binder";
+import {
+    Nonterminal,
+    ParameterValueAssertion,
+    RightHandSide,
+    Production
+} from "./nodes";
+
+/**
+ * A production with a value for each of its parameters.
+ */
+export interface ConcreteNonterminal {
+    /** The production name and its arguments, e.g. `Expression[+In, ~Yield]`. */
+    name: string;
+    symbol: Symbol;
+    args: Dictionary<boolean>;
+}
+
+/**
+ * Assigns an index to each concrete nonterminal that is reached while expanding the parametric productions of a
+ * grammar. Each combination of a production and its arguments is added once, and is queued until it is expanded.
+ */
+export class ConcreteNonterminalTable {
+    private bindings: BindingTable;
+    private addNonterminal: (nonterminal: ConcreteNonterminal) => number;
+    private parameters = new Dictionary<string[]>();
+    private nonterminalIds = new Dictionary<number>();
+    private pendingNonterminals: number[] = [];
+
+    /**
+     * @param addNonterminal Adds a new concrete nonterminal to the caller's own list, and returns its index in that list.
+     */
+    constructor(bindings: BindingTable, addNonterminal: (nonterminal: ConcreteNonterminal) => number) {
+        this.bindings = bindings;
+        this.addNonterminal = addNonterminal;
+    }
+
+    /**
+     * Gets the names of the parameters of a production, in declaration order.
+     */
+    public getParameters(symbol: Symbol): string[] {
+        let parameters = Dictionary.get(this.parameters, symbol.id);
+        if (!parameters) {
+            parameters = [];
+            const declaration = <Production>this.bindings.getDeclarations(symbol)[0];
+            if (declaration && declaration.kind === SyntaxKind.Production && declaration.parameterList && declaration.parameterList.elements) {
+                for (const parameter of declaration.parameterList.elements) {
+                    if (parameter.name && parameter.name.text) {
+                        parameters.push(parameter.name.text);
+                    }
+                }
+            }
+
+            Dictionary.set(this.parameters, symbol.id, parameters);
+        }
+
+        return parameters;
+    }
+
+    /**
+     * Gets the index of the concrete nonterminal for a production and its arguments, adding it if it is new. A parameter
+     * without an argument is not set.
+     */
+    public getNonterminal(symbol: Symbol, args: Dictionary<boolean>): number {
+        const parameters = this.getParameters(symbol);
+        const concreteArgs = new Dictionary<boolean>();
+        for (const parameter of parameters) {
+            Dictionary.set(concreteArgs, parameter, !!Dictionary.get(args, parameter));
+        }
+
+        const name = parameters.length > 0
+            ? `${symbol.name}[${parameters.map(parameter => (Dictionary.get(concreteArgs, parameter) ? "+" : "~") + parameter).join(", ")}]`
+            : symbol.name;
+
+        let id = Dictionary.get(this.nonterminalIds, name);
+        if (id === undefined) {
+            id = this.addNonterminal({ name, symbol, args: concreteArgs });
+            Dictionary.set(this.nonterminalIds, name, id);
+            this.pendingNonterminals.push(id);
+        }
+
+        return id;
+    }
+
+    /**
+     * Gets the indices of the concrete nonterminals for every combination of the arguments of a production, as a
+     * parametric goal may be used with any of them.
+     */
+    public getEveryNonterminal(symbol: Symbol): number[] {
+        const parameters = this.getParameters(symbol);
+        const nonterminals: number[] = [];
+        for (let mask = 0; mask < (1 << parameters.length); mask++) {
+            const args = new Dictionary<boolean>();
+            for (let i = 0; i < parameters.length; i++) {
+                Dictionary.set(args, parameters[i], (mask & (1 << i)) !== 0);
+            }
+
+            nonterminals.push(this.getNonterminal(symbol, args));
+        }
+
+        return nonterminals;
+    }
+
+    /**
+     * Expands each queued nonterminal in the order it was added, including the nonterminals added while expanding.
+     */
+    public expandPendingNonterminals(expand: (index: number) => void, cancellationToken = CancellationToken.none) {
+        while (this.pendingNonterminals.length > 0) {
+            cancellationToken.throwIfCancellationRequested();
+            expand(this.pendingNonterminals.shift());
+        }
+    }
+}
+
+/**
+ * Gets the arguments that a nonterminal passes to its production, given the arguments of the production in which the
+ * nonterminal appears.
+ */
+export function getArguments(node: Nonterminal, args: Dictionary<boolean>): Dictionary<boolean> {
+    const targetArgs = new Dictionary<boolean>();
+    if (node.argumentList && node.argumentList.elements) {
+        for (const argument of node.argumentList.elements) {
+            if (argument.name && argument.name.text) {
+                const operator = argument.operatorToken && argument.operatorToken.kind;
+                const value = operator === SyntaxKind.QuestionToken
+                    ? !!Dictionary.get(args, argument.name.text)
+                    : operator !== SyntaxKind.TildeToken;
+                Dictionary.set(targetArgs, argument.name.text, value);
+            }
+        }
+    }
+
+    return targetArgs;
+}
+
+/**
+ * Gets a value indicating whether every parameter value assertion of a right-hand side, such as `[+In]`, holds for
+ * the arguments of its production.
+ */
+export function isSatisfied(node: RightHandSide, args: Dictionary<boolean>): boolean {
+    for (let span = node.head; span; span = span.next) {
+        if (span.symbol && span.symbol.kind === SyntaxKind.ParameterValueAssertion) {
+            const assertion = <ParameterValueAssertion>span.symbol;
+            const value = !!(assertion.name && Dictionary.get(args, assertion.name.text));
+            const expected = !!assertion.operatorToken && assertion.operatorToken.kind === SyntaxKind.PlusToken;
+            if (value !== expected) {
+                return false;
+            }
+        }
+    }
+
+    return true;
+}
@@ -0,0 +1,456 @@
+import { CancellationToken } from "prex";
+import { Dictionary } from "./core";
+import { BindingTable } from "./binder";
+import { Analyzer } from "./analyzer";
+import { Interpreter, getCodePointAt } from "./interpreter";
+import { ElementKind, Element, RuleNonterminal, RuleTable, getStringOfCodePoint } from "./ruletable";
+
+/**
+ * Generates the text of a prose symbol, given a function that returns a random number in the range [0, 1). Returns
+ * `undefined` if no text can be generated.
+ */
+export type ProseGenerator = (random: () => number) => string;
+
+export interface GeneratorOptions {
+    /** The names of the parameters of the goal that are set. */
+    args?: string[];
+    /** The seed for the random choices of the generator. Generators with the same seed generate the same sentences. By default, a random seed is used. */
+    seed?: number;
+    /** The depth of nested nonterminals after which each nonterminal takes its shortest derivation. The default is 32. */
+    maxDepth?: number;
+    /** The length of a sentence after which each nonterminal takes its shortest derivation. The default is 256. */
+    maxLength?: number;
+    /** The generators for prose, keyed by the text of the prose without its leading `> `. Prose that describes "any Unicode code point" has a default generator. */
+    prose?: { [prose: string]: ProseGenerator };
+}
+
+const defaultMaxDepth = 32;
+const defaultMaxLength = 256;
+
+// the number of times a choice is made again when the text it generated is excluded by `but not` or a lookahead.
+const maxAttempts = 10;
+
+// the number of nonterminals expanded for a sentence before it is abandoned.
+const maxSteps = 100000;
+
+/**
+ * Generates random sentences from a production of a grammar, for use as valid input when testing a parser.
+ *
+ * Each nonterminal takes a random right-hand side, with the arguments of its parameters, until the depth of nested
+ * nonterminals or the length of the sentence reaches its bound. After that, each nonterminal takes the right-hand side
+ * with the shortest derivation, and optional symbols are left out, so that each sentence is finite. The tokens of a
+ * syntactic production are separated by a single space.
+ *
+ * `A but not B` generates text for `A` again until it is not matched by `B`. A lookahead assertion is tested against the
+ * text generated for the rest of its right-hand side, and the rest is generated again until the assertion holds. Text
+ * is matched using an `Interpreter`. Prose is generated by the generator for its text, and a right-hand side with
+ * prose that has no generator is never taken.
+ */
+export class Generator {
+    private bindings: BindingTable;
+    private analyzer: Analyzer;
+    private cancellationToken: CancellationToken;
+    private goal: number;
+    private maxDepth: number;
+    private maxLength: number;
+    private prose: Dictionary<ProseGenerator>;
+    private random: () => number;
+    private table: RuleTable;
+    private nonterminals: RuleNonterminal[];
+    /** The height of the shortest derivation of each nonterminal, or `Infinity` if it has none. */
+    private heights: number[];
+    /** The height of the shortest derivation of each rule, by the id of the rule. */
+    private ruleHeights: number[];
+    /** The interpreter for each nonterminal that tests whether text is matched by it, created when it is first needed. */
+    private interpreters: Interpreter[] = [];
+    private output: string;
+    private steps: number;
+
+    constructor(bindings: BindingTable, analyzer: Analyzer, goal: string, options: GeneratorOptions = {}, cancellationToken = CancellationToken.none) {
+        this.bindings = bindings;
+        this.analyzer = analyzer;
+        this.cancellationToken = cancellationToken;
+        this.maxDepth = options.maxDepth !== undefined ? options.maxDepth : defaultMaxDepth;
+        this.maxLength = options.maxLength !== undefined ? options.maxLength : defaultMaxLength;
+        this.prose = new Dictionary<ProseGenerator>(options.prose);
+        this.random = createRandom(options.seed !== undefined ? options.seed : Math.floor(Math.random() * 0x7FFFFFFF));
+        this.table = new RuleTable(bindings, analyzer);
+
+        const args = new Dictionary<boolean>();
+        for (const name of options.args || []) {
+            Dictionary.set(args, name, true);
+        }
+
+        this.goal = this.table.getNonterminal(this.table.resolveProduction(goal), args);
+        this.table.expandPendingNonterminals(this.cancellationToken);
+        this.nonterminals = this.table.nonterminals;
+        this.computeHeights();
+    }
+
+    /**
+     * Generates a random sentence from the goal of the generator.
+     */
+    public generate(): string {
+        const goal = this.nonterminals[this.goal];
+        if (this.heights[this.goal] === Infinity) {
+            throw new Error(`Production '${goal.name}' has no derivation that can be generated.`);
+        }
+
+        try {
+            for (let attempt = 0; attempt < maxAttempts; attempt++) {
+                this.cancellationToken.throwIfCancellationRequested();
+                this.output = "";
+                this.steps = 0;
+                if (this.generateNonterminal(this.goal, 0)) {
+                    return this.output;
+                }
+            }
+        }
+        finally {
+            this.output = undefined;
+        }
+
+        throw new Error(`Unable to generate a sentence for '${goal.name}'.`);
+    }
+
+    /**
+     * Computes the height of the shortest derivation of each rule and nonterminal, which is the number of nested
+     * nonterminals needed to derive text from it.
+     */
+    private computeHeights() {
+        this.heights = this.nonterminals.map(() => Infinity);
+        this.ruleHeights = this.table.rules.map(() => Infinity);
+        let changed: boolean;
+        do {
+            changed = false;
+            for (const rule of this.table.rules) {
+                const height = 1 + rule.elements.reduce((height, element) => Math.max(height, this.getHeight(element)), 0);
+                this.ruleHeights[rule.id] = height;
+                if (height < this.heights[rule.nonterminal]) {
+                    this.heights[rule.nonterminal] = height;
+                    changed = true;
+                }
+            }
+        }
+        while (changed);
+    }
+
+    private getHeight(element: Element): number {
+        if (element.optional) {
+            return 0;
+        }
+
+        switch (element.kind) {
+            case ElementKind.Character:
+                return element.ranges.length > 0 ? 0 : Infinity;
+
+            case ElementKind.Prose:
+                return this.getProseGenerator(element) ? 0 : Infinity;
+
+            case ElementKind.Nonterminal:
+            case ElementKind.Token:
+                return this.heights[element.nonterminal];
+
+            case ElementKind.ButNot:
+                return this.getHeight(element.left);
+        }
+
+        return 0;
+    }
+
+    private isBounded(depth: number) {
+        return depth >= this.maxDepth || this.output.length >= this.maxLength;
+    }
+
+    private generateNonterminal(index: number, depth: number): boolean {
+        const nonterminal = this.nonterminals[index];
+        if (++this.steps > maxSteps) {
+            return false;
+        }
+
+        const bounded = this.isBounded(depth);
+        const height = this.heights[index];
+        const rules = nonterminal.rules.filter(rule => bounded ? this.ruleHeights[rule.id] === height : this.ruleHeights[rule.id] < Infinity);
+        if (rules.length === 0) {
+            return false;
+        }
+
+        const start = this.output.length;
+        for (let attempt = 0; attempt < maxAttempts && this.steps <= maxSteps; attempt++) {
+            const rule = rules[this.randomIndex(rules.length)];
+            if (this.generateSequence(rule.elements, 0, nonterminal.syntactic, depth + 1)) {
+                return true;
+            }
+
+            this.output = this.output.substr(0, start);
+        }
+
+        return false;
+    }
+
+    private generateSequence(elements: Element[], index: number, syntactic: boolean, depth: number): boolean {
+        if (index >= elements.length) {
+            return true;
+        }
+
+        const element = elements[index];
+        if (element.kind !== ElementKind.Lookahead) {
+            return this.generateElement(element, syntactic, depth)
+                && this.generateSequence(elements, index + 1, syntactic, depth);
+        }
+
+        // a lookahead assertion is tested against the text of the rest of the right-hand side.
+        const start = this.output.length;
+        for (let attempt = 0; attempt < maxAttempts && this.steps <= maxSteps; attempt++) {
+            if (this.generateSequence(elements, index + 1, syntactic, depth)) {
+                const text = this.output.substr(start);
+                const matched = element.sequences.some(sequence => this.matchesSequence(sequence, 0, text, 0, syntactic));
+                if (matched !== element.negated) {
+                    return true;
+                }
+            }
+
+            this.output = this.output.substr(0, start);
+        }
+
+        return false;
+    }
+
+    private generateElement(element: Element, syntactic: boolean, depth: number): boolean {
+        const bounded = this.isBounded(depth);
+        if (element.optional && (bounded || this.random() < 0.5)) {
+            return true;
+        }
+
+        switch (element.kind) {
+            case ElementKind.Terminal:
+                this.writeToken(element.text, syntactic);
+                return true;
+
+            case ElementKind.Character:
+                if (element.ranges.length === 0) {
+                    return false;
+                }
+
+                this.writeToken(getStringOfCodePoint(this.chooseCodePoint(element.ranges)), syntactic);
+                return true;
+
+            case ElementKind.Prose:
+                const generate = this.getProseGenerator(element);
+                const text = generate && generate(this.random);
+                if (text === undefined) {
+                    return false;
+                }
+
+                this.writeToken(text, syntactic);
+                return true;
+
+            case ElementKind.Nonterminal:
+                return this.generateNonterminal(element.nonterminal, depth);
+
+            case ElementKind.Token:
+                if (syntactic) {
+                    this.writeSeparator();
+                }
+
+                return this.generateNonterminal(element.nonterminal, depth);
+
+            case ElementKind.ButNot:
+                const start = this.output.length;
+                for (let attempt = 0; attempt < maxAttempts && this.steps <= maxSteps; attempt++) {
+                    if (this.generateElement(element.left, syntactic, depth) && !this.matchesExactly(element.right, this.output.substr(start), syntactic)) {
+                        return true;
+                    }
+
+                    this.output = this.output.substr(0, start);
+                }
+
+                return false;
+
+            case ElementKind.NoSymbolHere:
+                // tokens are only ever separated by a space, so `[no LineTerminator here]` always holds.
+                return true;
+        }
+
+        return true;
+    }
+
+    /**
+     * Gets the generator for prose, or `undefined` if the prose has no generator.
+     */
+    private getProseGenerator(element: Element): ProseGenerator {
+        const prose = element.text.substr(2);
+        return Dictionary.has(this.prose, prose) ? Dictionary.get(this.prose, prose)
+            : /^any Unicode code point/i.test(prose) ? (random: () => number) => generateCodePoint(random, element.test)
+            : undefined;
+    }
+
+    private writeToken(text: string, syntactic: boolean) {
+        if (syntactic) {
+            this.writeSeparator();
+        }
+
+        this.output += text;
+    }
+
+    private writeSeparator() {
+        if (this.output.length > 0) {
+            this.output += " ";
+        }
+    }
+
+    private randomIndex(length: number) {
+        return Math.floor(this.random() * length);
+    }
+
+    private chooseCodePoint(ranges: [number, number][]) {
+        let count = 0;
+        for (const [min, max] of ranges) {
+            count += max - min + 1;
+        }
+
+        let offset = this.randomIndex(count);
+        for (const [min, max] of ranges) {
+            if (offset <= max - min) {
+                return min + offset;
+            }
+
+            offset -= max - min + 1;
+        }
+
+        return ranges[0][0];
+    }
+
+    private matchesExactly(element: Element, text: string, syntactic: boolean) {
+        if ((element.kind === ElementKind.Nonterminal || element.kind === ElementKind.Token) && !this.nonterminals[element.nonterminal].anonymous) {
+            return this.matchesNonterminal(element.nonterminal, syntactic ? text.substr(skipWhiteSpace(text, 0)) : text);
+        }
+
+        return this.getMatchEnds(element, text, 0, syntactic).indexOf(text.length) >= 0;
+    }
+
+    private matchesSequence(sequence: Element[], index: number, text: string, pos: number, syntactic: boolean): boolean {
+        if (index >= sequence.length) {
+            return true;
+        }
+
+        for (const end of this.getMatchEnds(sequence[index], text, pos, syntactic)) {
+            if (this.matchesSequence(sequence, index + 1, text, end, syntactic)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Gets each position at which a match of an element that starts at a position in text may end.
+     */
+    private getMatchEnds(element: Element, text: string, pos: number, syntactic: boolean): number[] {
+        const start = syntactic ? skipWhiteSpace(text, pos) : pos;
+        switch (element.kind) {
+            case ElementKind.Terminal:
+                return text.substr(start, element.text.length) === element.text ? [start + element.text.length] : [];
+
+            case ElementKind.Character:
+            case ElementKind.Prose:
+                if (start >= text.length) {
+                    return [];
+                }
+
+                const codePoint = getCodePointAt(text, start);
+                return element.test(codePoint) ? [start + (codePoint > 0xFFFF ? 2 : 1)] : [];
+
+            case ElementKind.Nonterminal:
+            case ElementKind.Token:
+                const nonterminal = this.nonterminals[element.nonterminal];
+                if (nonterminal.anonymous) {
+                    return this.getOneOfMatchEnds(nonterminal, text, pos, syntactic);
+                }
+
+                const ends: number[] = [];
+                for (let end = start; end <= text.length; end++) {
+                    if (this.matchesNonterminal(element.nonterminal, text.substring(start, end))) {
+                        ends.push(end);
+                    }
+                }
+
+                return ends;
+
+            case ElementKind.ButNot:
+                return this.getMatchEnds(element.left, text, pos, syntactic)
+                    .filter(end => this.getMatchEnds(element.right, text.substr(0, end), pos, syntactic).indexOf(end) === -1);
+        }
+
+        return [];
+    }
+
+    /**
+     * Gets each position at which a match of one of the symbols of a `one of` symbol may end.
+     */
+    private getOneOfMatchEnds(nonterminal: RuleNonterminal, text: string, pos: number, syntactic: boolean): number[] {
+        const ends: number[] = [];
+        for (const rule of nonterminal.rules) {
+            for (const end of this.getMatchEnds(rule.elements[0], text, pos, syntactic)) {
+                if (ends.indexOf(end) === -1) {
+                    ends.push(end);
+                }
+            }
+        }
+
+        return ends;
+    }
+
+    private matchesNonterminal(index: number, text: string) {
+        let interpreter = this.interpreters[index];
+        if (!interpreter) {
+            const { symbol, args } = this.nonterminals[index];
+            const setArgs = this.table.getParameters(symbol).filter(parameter => Dictionary.get(args, parameter));
+            interpreter = this.interpreters[index] = new Interpreter(this.bindings, this.analyzer, symbol.name, { args: setArgs }, this.cancellationToken);
+        }
+
+        return !!interpreter.parse(text).tree;
+    }
+}
+
+/**
+ * Creates a function that returns a sequence of random numbers in the range [0, 1) determined by a seed, using the
+ * Park-Miller generator.
+ */
+function createRandom(seed: number): () => number {
+    let state = Math.floor(Math.abs(seed)) % 0x7FFFFFFF || 1;
+    const next = () => {
+        state = state * 48271 % 0x7FFFFFFF;
+        return (state - 1) / 0x7FFFFFFE;
+    };
+
+    // the first number for a small seed is also small, so it is skipped.
+    next();
+    return next;
+}
+
+/**
+ * Generates a random code point that passes a test, for prose that describes "any Unicode code point".
+ */
+function generateCodePoint(random: () => number, test: (codePoint: number) => boolean): string {
+    // most code points are chosen from ASCII, so that sentences are readable and a code point with a property is found quickly.
+    for (let attempt = 0; attempt < 100; attempt++) {
+        const kind = random();
+        const codePoint = kind < 0.75 ? Math.floor(random() * 0x80)
+            : kind < 0.95 ? Math.floor(random() * 0x10000)
+            : 0x10000 + Math.floor(random() * 0x100000);
+        if ((codePoint < 0xD800 || codePoint > 0xDFFF) && test(codePoint)) {
+            return getStringOfCodePoint(codePoint);
+        }
+    }
+
+    return undefined;
+}
+
+function skipWhiteSpace(text: string, pos: number) {
+    while (pos < text.length && /\s/.test(text.charAt(pos))) {
+        pos++;
+    }
+
+    return pos;
+}
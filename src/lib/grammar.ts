@@ -7,10 +7,17 @@ import { Host, HostLike } from "./host";
 import { DiagnosticMessages, NullDiagnosticMessages } from "./diagnostics";
 import { EmitFormat, CompilerOptions, getDefaultOptions } from "./options";
 import { SyntaxKind } from "./tokens";
-import { Parser } from "./parser";
+import { Parser, TextChange } from "./parser";
 import { Binder, BindingTable } from "./binder";
 import { Checker, Resolver } from "./checker";
-import { Emitter, EcmarkupEmitter, MarkdownEmitter, HtmlEmitter } from "./emitter/index";
+import { Analyzer } from "./analyzer";
+import { LRAutomaton } from "./automaton";
+import { ParameterExpander } from "./expander";
+import { Interpreter, InterpreterOptions } from "./interpreter";
+import { Generator, GeneratorOptions } from "./generator";
+import { Coverage } from "./coverage";
+import { diffGrammars } from "./grammardiff";
+import { Emitter, EcmarkupEmitter, MarkdownEmitter, HtmlEmitter, GrammarkdownEmitter, RailroadEmitter, Antlr4Emitter, TreeSitterEmitter, EbnfEmitter, PegEmitter, BisonEmitter, JsonEmitter } from "./emitter/index";
 import { SourceFile, Import } from "./nodes";
 import { CancellationToken } from "prex";
 
@@ -59,6 +66,14 @@ export class Grammar {
         return this.checker.resolver;
     }
 
+    public get analyzer(): Analyzer {
+        return this.checker.analyzer;
+    }
+
+    public get automaton(): LRAutomaton {
+        return this.checker.automaton;
+    }
+
     protected get parser(): Parser {
         if (!this.innerParser) {
             this.innerParser = this.createParser(this.options);
@@ -147,12 +162,73 @@ export class Grammar {
             for (const sourceFile of this.sourceFiles) {
                 checker.checkSourceFile(sourceFile);
             }
+
+            checker.checkGrammar(this.sourceFiles);
         }
 
         performance.mark("afterCheck");
         performance.measure("check", "beforeCheck", "afterCheck");
     }
 
+    /**
+     * Creates a copy of each source file in which every parametric production is expanded into a production for
+     * each combination of arguments reachable in the grammar. The grammar must be checked first.
+     */
+    public expandParameters(): SourceFile[] {
+        return new ParameterExpander(this.bindings, this.analyzer, this.cancellationToken).expandSourceFiles(this.sourceFiles);
+    }
+
+    /**
+     * Creates an interpreter that parses text using the productions of the grammar, starting from a goal production.
+     * The grammar must be checked first.
+     */
+    public createInterpreter(goal: string, options?: InterpreterOptions): Interpreter {
+        return new Interpreter(this.bindings, this.analyzer, goal, options, this.cancellationToken);
+    }
+
+    /**
+     * Creates a generator that produces random sentences from a goal production of the grammar. The grammar must be
+     * checked first.
+     */
+    public createGenerator(goal: string, options?: GeneratorOptions): Generator {
+        return new Generator(this.bindings, this.analyzer, goal, options, this.cancellationToken);
+    }
+
+    /**
+     * Creates a measurement of the coverage of the grammar by inputs parsed from a goal production. The grammar must
+     * be checked first.
+     */
+    public createCoverage(goal: string, options?: InterpreterOptions): Coverage {
+        return new Coverage(this.resolver, this.sourceFiles, goal, this.createInterpreter(goal, options));
+    }
+
+    /**
+     * Creates a new grammar in which a series of changes have been applied to the text of a source file.
+     *
+     * Source files that are not changed are reused, as are the source elements of the changed file that are not
+     * affected by the changes.
+     */
+    public applyChanges(file: string, changes: TextChange[]): Grammar {
+        const sourceFile = this.getSourceFile(file);
+        if (!sourceFile) {
+            throw new Error(`File '${file}' not found.`);
+        }
+
+        let text = sourceFile.text;
+        for (const change of changes) {
+            text = TextChange.applyChange(text, change);
+        }
+
+        const host = this.host;
+        const changedFile = this.normalizeFile(sourceFile.filename);
+        return new Grammar(this.rootFiles.map(rootFile => rootFile.filename), this.options, {
+            normalizeFile: file => host.normalizeFile(file),
+            resolveFile: (file, referer) => host.resolveFile(file, referer),
+            readFile: file => host.normalizeFile(file) === changedFile ? text : host.readFile(file),
+            writeFile: (file, content) => host.writeFile(file, content)
+        }, this, this.cancellationToken);
+    }
+
     public resetEmitter(): void {
         this.innerEmitter = undefined;
     }
@@ -178,6 +254,23 @@ export class Grammar {
         performance.measure("emit", "beforeEmit", "afterEmit");
     }
 
+    /**
+     * Emits the grammar with the changes from a base grammar marked with `<ins>` and `<del>`, such as a proposal against
+     * the grammar on which it is based. Only the `markdown` and `ecmarkup` formats mark changes.
+     */
+    public emitChanges(baseGrammar: Grammar, sourceFile?: SourceFile, writeFile?: (file: string, output: string) => void): void {
+        baseGrammar.check();
+
+        const emitter = this.emitter;
+        emitter.setChanges(diffGrammars(baseGrammar, this), baseGrammar.resolver);
+        try {
+            this.emit(sourceFile, writeFile);
+        }
+        finally {
+            emitter.setChanges(/*changes*/ undefined, /*baseResolver*/ undefined);
+        }
+    }
+
     protected createParser(options: CompilerOptions): Parser {
         return new Parser(this.diagnostics, this.cancellationToken);
     }
@@ -198,6 +291,30 @@ export class Grammar {
             case EmitFormat.html:
                 return new HtmlEmitter(options, resolver, this.diagnostics, this.cancellationToken);
 
+            case EmitFormat.grammarkdown:
+                return new GrammarkdownEmitter(options, resolver, this.diagnostics, this.cancellationToken);
+
+            case EmitFormat.railroad:
+                return new RailroadEmitter(options, resolver, this.diagnostics, this.cancellationToken);
+
+            case EmitFormat.antlr4:
+                return new Antlr4Emitter(options, resolver, this.diagnostics, new ParameterExpander(this.bindings, this.analyzer, this.cancellationToken), this.sourceFiles, this.cancellationToken);
+
+            case EmitFormat.treesitter:
+                return new TreeSitterEmitter(options, resolver, this.diagnostics, new ParameterExpander(this.bindings, this.analyzer, this.cancellationToken), this.sourceFiles, this.automaton, this.cancellationToken);
+
+            case EmitFormat.ebnf:
+                return new EbnfEmitter(options, resolver, this.diagnostics, new ParameterExpander(this.bindings, this.analyzer, this.cancellationToken), this.sourceFiles, this.cancellationToken);
+
+            case EmitFormat.peg:
+                return new PegEmitter(options, resolver, this.diagnostics, new ParameterExpander(this.bindings, this.analyzer, this.cancellationToken), this.sourceFiles, this.cancellationToken);
+
+            case EmitFormat.bison:
+                return new BisonEmitter(options, resolver, this.diagnostics, new ParameterExpander(this.bindings, this.analyzer, this.cancellationToken), this.sourceFiles, this.cancellationToken);
+
+            case EmitFormat.json:
+                return new JsonEmitter(options, resolver, this.diagnostics, this.cancellationToken);
+
             case EmitFormat.markdown:
             default:
                 return new MarkdownEmitter(options, resolver, this.diagnostics, this.cancellationToken);
@@ -270,7 +387,12 @@ export class Grammar {
         if (sourceText !== undefined) {
             if (this.oldGrammar) {
                 const oldSourceFile = this.oldGrammar.getSourceFile(file);
-                if (oldSourceFile && oldSourceFile.text === sourceText) {
+                if (oldSourceFile && oldSourceFile.text !== sourceText) {
+                    return this.parser.updateSourceFile(oldSourceFile, getTextChange(oldSourceFile, sourceText));
+                }
+
+                // a file with syntax errors is parsed again so that its errors are reported.
+                if (oldSourceFile && !(oldSourceFile.elementsWithErrors && oldSourceFile.elementsWithErrors.length)) {
                     return oldSourceFile;
                 }
             }
@@ -282,6 +404,24 @@ export class Grammar {
     }
 }
 
+function getTextChange(sourceFile: SourceFile, text: string) {
+    const oldText = sourceFile.text;
+    let pos = 0;
+    while (pos < oldText.length && pos < text.length && oldText.charCodeAt(pos) === text.charCodeAt(pos)) {
+        pos++;
+    }
+
+    let oldEnd = oldText.length;
+    let newEnd = text.length;
+    while (oldEnd > pos && newEnd > pos && oldText.charCodeAt(oldEnd - 1) === text.charCodeAt(newEnd - 1)) {
+        oldEnd--;
+        newEnd--;
+    }
+
+    const range = { start: sourceFile.lineMap.positionAt(pos), end: sourceFile.lineMap.positionAt(oldEnd) };
+    return TextChange.create(text.substring(pos, newEnd), range);
+}
+
 function readFile(file: string) {
     return fs.readFileSync(file, "utf8");
 }
\ No newline at end of file
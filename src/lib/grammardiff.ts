@@ -0,0 +1,593 @@
+import { Dictionary } from "./core";
+import { SyntaxKind } from "./tokens";
+import { RightHandSideDigest } from "./checker";
+import { Grammar } from "./grammar";
+import {
+    LexicalSymbol,
+    OptionalSymbol,
+    Terminal,
+    UnicodeCharacterLiteral,
+    Nonterminal,
+    ButNotSymbol,
+    RightHandSide,
+    RightHandSideList,
+    OneOfList,
+    Production,
+    SourceFile
+} from "./nodes";
+
+export type GrammarChangeKind =
+    "productionAdded" | "productionRemoved" | "productionRenamed" | "parametersChanged" |
+    "alternativeAdded" | "alternativeRemoved" | "alternativeChanged";
+
+/**
+ * The effect of a change on the language of a grammar: whether it accepts more sentences (`widening`), fewer sentences
+ * (`narrowing`), the same sentences (`neutral`), or whether that cannot be decided (`unknown`).
+ */
+export type GrammarChangeEffect = "widening" | "narrowing" | "neutral" | "unknown";
+
+export type SymbolChangeKind = "unchanged" | "inserted" | "deleted" | "changed";
+
+/**
+ * A change to a symbol of an alternative. A `changed` symbol is a symbol that was made optional or required, or that
+ * gained or lost a `but not` exclusion.
+ */
+export interface SymbolChange {
+    kind: SymbolChangeKind;
+    effect: GrammarChangeEffect;
+    oldSymbol?: LexicalSymbol;
+    newSymbol?: LexicalSymbol;
+}
+
+/**
+ * A change between two grammars. An alternative is a right-hand side, or an entry of a `one of` list.
+ */
+export interface GrammarChange {
+    kind: GrammarChangeKind;
+    effect: GrammarChangeEffect;
+    /** The name of the production in the new grammar, or in the old grammar if it was removed. */
+    production: string;
+    /** The production or alternative in the old grammar, if any. */
+    oldNode?: Production | RightHandSide | Terminal;
+    oldSourceFile?: SourceFile;
+    /** The production or alternative in the new grammar, if any. */
+    newNode?: Production | RightHandSide | Terminal;
+    newSourceFile?: SourceFile;
+    /**
+     * For a removed production or alternative, the production or alternative of the new grammar before which it would
+     * appear, if any.
+     */
+    nextNode?: Production | RightHandSide | Terminal;
+    /**
+     * For a removed production or alternative that was the last one, the production or alternative of the new grammar
+     * after which it would appear. The source file of `nextNode` or `previousNode` is `newSourceFile`.
+     */
+    previousNode?: Production | RightHandSide | Terminal;
+    /** For a changed alternative, the changes to its symbols, in order. */
+    symbols?: SymbolChange[];
+    message: string;
+}
+
+interface ProductionEntry {
+    name: string;
+    productions: Production[];
+    /** The source file of each production. */
+    sourceFiles: SourceFile[];
+    parameters: string[];
+    alternatives: AlternativeEntry[];
+}
+
+interface AlternativeEntry {
+    node: RightHandSide | Terminal;
+    sourceFile: SourceFile;
+    symbols: LexicalSymbol[];
+}
+
+/**
+ * Compares two grammars production by production, such as a proposal against the grammar on which it is based.
+ *
+ * The alternatives of a production are matched by their `RightHandSideDigest` hashes, so formatting and the order of
+ * alternatives are ignored. A removed production and an added production with the same parameters and alternatives are
+ * reported as a rename, and references to the production are then matched under either name. An added and a removed
+ * alternative of the same production that share most of their symbols are reported as a changed alternative.
+ *
+ * An added or removed production is `neutral`, as it only affects the language through the alternatives that reference
+ * it, which are reported on their own. Changes to parameters are `unknown`.
+ */
+export function diffGrammars(oldGrammar: Grammar, newGrammar: Grammar): GrammarChange[] {
+    const oldEntries = collectProductions(oldGrammar.sourceFiles);
+    const newEntries = collectProductions(newGrammar.sourceFiles);
+    const renames = findRenames(oldEntries, newEntries);
+    const oldDigest = new RightHandSideDigest();
+    const newDigest = new RightHandSideDigest(renames);
+    const changes: GrammarChange[] = [];
+    const counterparts = new Dictionary<ProductionEntry>();
+
+    Dictionary.forEach(newEntries, newEntry => {
+        const oldName = Dictionary.has(renames, newEntry.name) ? Dictionary.get(renames, newEntry.name) : newEntry.name;
+        const oldEntry = Dictionary.get(oldEntries, oldName);
+        if (!oldEntry) {
+            changes.push(createProductionChange("productionAdded", undefined, newEntry, `Added production '${newEntry.name}'.`));
+            return;
+        }
+
+        Dictionary.set(counterparts, oldName, newEntry);
+        if (oldName !== newEntry.name) {
+            changes.push(createProductionChange("productionRenamed", oldEntry, newEntry, `Renamed production '${oldName}' to '${newEntry.name}'.`));
+        }
+
+        if (oldEntry.parameters.join() !== newEntry.parameters.join()) {
+            changes.push({
+                kind: "parametersChanged",
+                effect: "unknown",
+                production: newEntry.name,
+                oldNode: oldEntry.productions[0],
+                oldSourceFile: oldEntry.sourceFiles[0],
+                newNode: newEntry.productions[0],
+                newSourceFile: newEntry.sourceFiles[0],
+                message: `Changed the parameters of '${newEntry.name}' from ${formatParameters(oldEntry.parameters)} to ${formatParameters(newEntry.parameters)}.`
+            });
+        }
+
+        diffAlternatives(oldEntry, oldDigest, newEntry, newDigest, renames, changes);
+    });
+
+    // a removed production would appear next to the nearest production that remains, or before the first production.
+    const oldList: ProductionEntry[] = [];
+    const remaining: ProductionEntry[] = [];
+    let first: ProductionEntry;
+    Dictionary.forEach(oldEntries, oldEntry => {
+        oldList.push(oldEntry);
+        remaining.push(Dictionary.get(counterparts, oldEntry.name));
+    });
+    Dictionary.forEach(newEntries, newEntry => {
+        first = first || newEntry;
+    });
+
+    oldList.forEach((oldEntry, position) => {
+        if (remaining[position]) {
+            return;
+        }
+
+        const change = createProductionChange("productionRemoved", oldEntry, undefined, `Removed production '${oldEntry.name}'.`);
+        const next = getNeighbor(remaining, position, +1);
+        const previous = next ? undefined : getNeighbor(remaining, position, -1);
+        if (previous) {
+            change.previousNode = previous.productions[previous.productions.length - 1];
+            change.newSourceFile = previous.sourceFiles[previous.sourceFiles.length - 1];
+        }
+        else if (next || first) {
+            change.nextNode = (next || first).productions[0];
+            change.newSourceFile = (next || first).sourceFiles[0];
+        }
+
+        changes.push(change);
+    });
+
+    return changes;
+}
+
+/**
+ * Combines the effects of several changes: `unknown` if any of them is unknown or if they disagree.
+ */
+export function combineEffects(effects: GrammarChangeEffect[]): GrammarChangeEffect {
+    let result: GrammarChangeEffect = "neutral";
+    for (const effect of effects) {
+        if (effect === "neutral" || effect === result) {
+            continue;
+        }
+
+        result = result === "neutral" ? effect : "unknown";
+    }
+
+    return result;
+}
+
+function collectProductions(sourceFiles: SourceFile[]) {
+    // a production may be declared more than once, and the alternatives of each declaration are combined.
+    const entries = new Dictionary<ProductionEntry>();
+    for (const sourceFile of sourceFiles) {
+        for (const element of sourceFile.elements) {
+            if (element.kind !== SyntaxKind.Production) {
+                continue;
+            }
+
+            const production = <Production>element;
+            const name = production.name && production.name.text;
+            if (!name) {
+                continue;
+            }
+
+            const entry = Dictionary.getOrCreate(entries, name, () => ({
+                name,
+                productions: [],
+                sourceFiles: [],
+                parameters: production.parameterList && production.parameterList.elements
+                    ? production.parameterList.elements.map(parameter => parameter.name && parameter.name.text)
+                    : [],
+                alternatives: []
+            }));
+
+            entry.productions.push(production);
+            entry.sourceFiles.push(sourceFile);
+            const body = production.body;
+            if (!body) {
+                continue;
+            }
+
+            switch (body.kind) {
+                case SyntaxKind.OneOfList:
+                    for (const terminal of (<OneOfList>body).terminals || []) {
+                        entry.alternatives.push({ node: terminal, sourceFile, symbols: [terminal] });
+                    }
+
+                    break;
+
+                case SyntaxKind.RightHandSideList:
+                    for (const rhs of (<RightHandSideList>body).elements || []) {
+                        entry.alternatives.push({ node: rhs, sourceFile, symbols: getSymbols(rhs) });
+                    }
+
+                    break;
+
+                case SyntaxKind.RightHandSide:
+                    entry.alternatives.push({ node: <RightHandSide>body, sourceFile, symbols: getSymbols(<RightHandSide>body) });
+                    break;
+            }
+        }
+    }
+
+    return entries;
+}
+
+function getSymbols(rhs: RightHandSide) {
+    const symbols: LexicalSymbol[] = [];
+    for (let span = rhs.head; span; span = span.next) {
+        if (span.symbol) {
+            symbols.push(span.symbol);
+        }
+    }
+
+    return symbols;
+}
+
+/**
+ * Finds the productions that were renamed, as a map from each new name to its old name.
+ */
+function findRenames(oldEntries: Dictionary<ProductionEntry>, newEntries: Dictionary<ProductionEntry>) {
+    const renames = new Dictionary<string>();
+    const removed: ProductionEntry[] = [];
+    Dictionary.forEach(oldEntries, entry => {
+        if (!Dictionary.has(newEntries, entry.name)) {
+            removed.push(entry);
+        }
+    });
+
+    const oldDigest = new RightHandSideDigest();
+    Dictionary.forEach(newEntries, newEntry => {
+        if (Dictionary.has(oldEntries, newEntry.name)) {
+            return;
+        }
+
+        for (let i = 0; i < removed.length; i++) {
+            const oldEntry = removed[i];
+            if (oldEntry.parameters.join() !== newEntry.parameters.join()) {
+                continue;
+            }
+
+            // a recursive production refers to itself by its new name.
+            const names = Dictionary.clone(renames);
+            Dictionary.set(names, newEntry.name, oldEntry.name);
+            const newDigest = new RightHandSideDigest(names);
+            if (getDigests(oldEntry, oldDigest).join() === getDigests(newEntry, newDigest).join()) {
+                Dictionary.set(renames, newEntry.name, oldEntry.name);
+                removed.splice(i, 1);
+                break;
+            }
+        }
+    });
+
+    return renames;
+}
+
+function getDigests(entry: ProductionEntry, digest: RightHandSideDigest) {
+    return entry.alternatives.map(alternative => digest.computeHash(alternative.node)).sort();
+}
+
+function diffAlternatives(oldEntry: ProductionEntry, oldDigest: RightHandSideDigest, newEntry: ProductionEntry, newDigest: RightHandSideDigest, renames: Dictionary<string>, changes: GrammarChange[]) {
+    // alternatives with the same hash are unchanged, regardless of their order.
+    const oldAlternatives = oldEntry.alternatives;
+    const oldHashes = oldAlternatives.map(alternative => oldDigest.computeHash(alternative.node));
+    const counterparts: AlternativeEntry[] = oldAlternatives.map(() => undefined);
+    const added: AlternativeEntry[] = [];
+    for (const alternative of newEntry.alternatives) {
+        const hash = newDigest.computeHash(alternative.node);
+        let index = 0;
+        while (index < oldHashes.length && (counterparts[index] || oldHashes[index] !== hash)) {
+            index++;
+        }
+
+        if (index < oldHashes.length) {
+            counterparts[index] = alternative;
+        }
+        else {
+            added.push(alternative);
+        }
+    }
+
+    // the remaining alternatives are paired by the number of symbols that they share, from the closest pair.
+    const removed = oldAlternatives.filter((_, index) => !counterparts[index]);
+    const oldKeys = removed.map(alternative => alternative.symbols.map(symbol => oldDigest.computeHash(symbol)));
+    const newKeys = added.map(alternative => alternative.symbols.map(symbol => newDigest.computeHash(symbol)));
+    const candidates: { oldIndex: number, newIndex: number, similarity: number }[] = [];
+    for (let oldIndex = 0; oldIndex < removed.length; oldIndex++) {
+        for (let newIndex = 0; newIndex < added.length; newIndex++) {
+            const similarity = getSimilarity(removed[oldIndex].symbols, oldKeys[oldIndex], added[newIndex].symbols, newKeys[newIndex], renames);
+            if (similarity >= 0.5) {
+                candidates.push({ oldIndex, newIndex, similarity });
+            }
+        }
+    }
+
+    candidates.sort((x, y) => y.similarity - x.similarity || x.oldIndex - y.oldIndex || x.newIndex - y.newIndex);
+
+    const pairs: number[] = [];
+    const pairedNew: boolean[] = [];
+    for (const candidate of candidates) {
+        if (pairs[candidate.oldIndex] === undefined && !pairedNew[candidate.newIndex]) {
+            pairs[candidate.oldIndex] = candidate.newIndex;
+            pairedNew[candidate.newIndex] = true;
+            counterparts[oldAlternatives.indexOf(removed[candidate.oldIndex])] = added[candidate.newIndex];
+        }
+    }
+
+    for (let oldIndex = 0; oldIndex < removed.length; oldIndex++) {
+        const oldAlternative = removed[oldIndex];
+        const newIndex = pairs[oldIndex];
+        if (newIndex === undefined) {
+            const change = createAlternativeChange("alternativeRemoved", "narrowing", oldEntry, oldAlternative, newEntry, undefined,
+                `Removed alternative '${getText(oldAlternative)}' from '${newEntry.name}'.`);
+
+            // a removed alternative with no remaining neighbors would appear before the first alternative.
+            const position = oldAlternatives.indexOf(oldAlternative);
+            const next = getNeighbor(counterparts, position, +1);
+            const previous = next ? undefined : getNeighbor(counterparts, position, -1);
+            if (previous) {
+                change.previousNode = previous.node;
+                change.newSourceFile = previous.sourceFile;
+            }
+            else if (next || newEntry.alternatives.length > 0) {
+                change.nextNode = (next || newEntry.alternatives[0]).node;
+                change.newSourceFile = (next || newEntry.alternatives[0]).sourceFile;
+            }
+
+            changes.push(change);
+            continue;
+        }
+
+        const newAlternative = added[newIndex];
+        const symbols = diffSymbols(oldAlternative.symbols, oldKeys[oldIndex], newAlternative.symbols, newKeys[newIndex], renames);
+        const change = createAlternativeChange("alternativeChanged", combineEffects(symbols.map(symbol => symbol.effect)), oldEntry, oldAlternative, newEntry, newAlternative,
+            `Changed alternative '${getText(oldAlternative)}' of '${newEntry.name}' to '${getText(newAlternative)}'.`);
+        change.symbols = symbols;
+        changes.push(change);
+    }
+
+    for (let newIndex = 0; newIndex < added.length; newIndex++) {
+        if (!pairedNew[newIndex]) {
+            const newAlternative = added[newIndex];
+            changes.push(createAlternativeChange("alternativeAdded", "widening", oldEntry, undefined, newEntry, newAlternative,
+                `Added alternative '${getText(newAlternative)}' to '${newEntry.name}'.`));
+        }
+    }
+}
+
+/**
+ * Gets the proportion of the symbols of two alternatives that they share. A symbol that is only made optional or
+ * excluded with `but not` is shared, as it is paired as a changed symbol.
+ */
+function getSimilarity(oldSymbols: LexicalSymbol[], oldKeys: string[], newSymbols: LexicalSymbol[], newKeys: string[], renames: Dictionary<string>) {
+    const oldIndices = oldKeys.map((_, index) => index);
+    const newIndices = newKeys.map((_, index) => index);
+    const common = getCommonSubsequence(oldIndices, newIndices, (oldIndex, newIndex) =>
+        oldKeys[oldIndex] === newKeys[newIndex] || !!getSymbolChange(oldSymbols[oldIndex], newSymbols[newIndex], renames));
+    return 2 * common.length / (oldKeys.length + newKeys.length);
+}
+
+/**
+ * Gets the nearest element of an array that is defined, in a direction from a position but not at the position.
+ */
+function getNeighbor<T>(array: T[], position: number, direction: number) {
+    for (let index = position + direction; index >= 0 && index < array.length; index += direction) {
+        if (array[index]) {
+            return array[index];
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Aligns the symbols of two alternatives by their longest common subsequence. Between two aligned symbols, a deleted
+ * and an inserted symbol are paired as a changed symbol when one is the other made optional or excluded with `but not`.
+ */
+function diffSymbols(oldSymbols: LexicalSymbol[], oldKeys: string[], newSymbols: LexicalSymbol[], newKeys: string[], renames: Dictionary<string>) {
+    const changes: SymbolChange[] = [];
+    const common = getCommonSubsequence(oldKeys, newKeys);
+    let oldIndex = 0;
+    let newIndex = 0;
+    for (let i = 0; i <= common.length; i++) {
+        const oldEnd = i < common.length ? common[i][0] : oldSymbols.length;
+        const newEnd = i < common.length ? common[i][1] : newSymbols.length;
+        const inserted = newSymbols.slice(newIndex, newEnd);
+        for (; oldIndex < oldEnd; oldIndex++) {
+            const oldSymbol = oldSymbols[oldIndex];
+            let change: SymbolChange;
+            for (let j = 0; j < inserted.length; j++) {
+                if (inserted[j] && (change = getSymbolChange(oldSymbol, inserted[j], renames))) {
+                    inserted[j] = undefined;
+                    break;
+                }
+            }
+
+            changes.push(change || { kind: "deleted", effect: getDeletionEffect(oldSymbol), oldSymbol });
+        }
+
+        for (const newSymbol of inserted) {
+            if (newSymbol) {
+                changes.push({ kind: "inserted", effect: getInsertionEffect(newSymbol), newSymbol });
+            }
+        }
+
+        if (i < common.length) {
+            changes.push({ kind: "unchanged", effect: "neutral", oldSymbol: oldSymbols[oldEnd], newSymbol: newSymbols[newEnd] });
+        }
+
+        oldIndex = oldEnd + 1;
+        newIndex = newEnd + 1;
+    }
+
+    return changes;
+}
+
+function getSymbolChange(oldSymbol: LexicalSymbol, newSymbol: LexicalSymbol, renames: Dictionary<string>): SymbolChange {
+    if (isSameSymbol(oldSymbol, newSymbol, renames)) {
+        // the symbols differ only in whether they are optional.
+        const effect = (<OptionalSymbol>newSymbol).questionToken ? "widening" : "narrowing";
+        return { kind: "changed", effect, oldSymbol, newSymbol };
+    }
+
+    if (newSymbol.kind === SyntaxKind.ButNotSymbol && isSameSymbol(oldSymbol, (<ButNotSymbol>newSymbol).left, renames, /*matchOptional*/ true)) {
+        return { kind: "changed", effect: "narrowing", oldSymbol, newSymbol };
+    }
+
+    if (oldSymbol.kind === SyntaxKind.ButNotSymbol && isSameSymbol((<ButNotSymbol>oldSymbol).left, newSymbol, renames, /*matchOptional*/ true)) {
+        return { kind: "changed", effect: "widening", oldSymbol, newSymbol };
+    }
+
+    return undefined;
+}
+
+/**
+ * Determines whether two symbols are the same terminal, character or nonterminal, other than whether they are
+ * optional. With `matchOptional`, they must also agree on whether they are optional.
+ */
+function isSameSymbol(oldSymbol: LexicalSymbol, newSymbol: LexicalSymbol, renames: Dictionary<string>, matchOptional?: boolean) {
+    if (!oldSymbol || !newSymbol || oldSymbol.kind !== newSymbol.kind) {
+        return false;
+    }
+
+    if (matchOptional && !(<OptionalSymbol>oldSymbol).questionToken !== !(<OptionalSymbol>newSymbol).questionToken) {
+        return false;
+    }
+
+    switch (oldSymbol.kind) {
+        case SyntaxKind.Terminal:
+        case SyntaxKind.UnicodeCharacterLiteral:
+            return (<Terminal | UnicodeCharacterLiteral>oldSymbol).text === (<Terminal | UnicodeCharacterLiteral>newSymbol).text;
+
+        case SyntaxKind.Nonterminal:
+            const oldName = (<Nonterminal>oldSymbol).name && (<Nonterminal>oldSymbol).name.text;
+            const newName = (<Nonterminal>newSymbol).name && (<Nonterminal>newSymbol).name.text;
+            return oldName === (Dictionary.has(renames, newName) ? Dictionary.get(renames, newName) : newName)
+                && formatArguments(<Nonterminal>oldSymbol) === formatArguments(<Nonterminal>newSymbol);
+    }
+
+    return false;
+}
+
+function formatArguments(node: Nonterminal) {
+    return node.argumentList && node.argumentList.elements
+        ? node.argumentList.elements.map(argument => (argument.operatorToken ? argument.operatorToken.kind : "") + ":" + (argument.name && argument.name.text)).join()
+        : "";
+}
+
+/**
+ * Gets the effect of inserting a symbol: an assertion narrows the language, an optional symbol widens it, and any other
+ * symbol changes it in a way that cannot be decided.
+ */
+function getInsertionEffect(symbol: LexicalSymbol): GrammarChangeEffect {
+    switch (symbol.kind) {
+        case SyntaxKind.EmptyAssertion:
+            return "neutral";
+
+        case SyntaxKind.LookaheadAssertion:
+        case SyntaxKind.LexicalGoalAssertion:
+        case SyntaxKind.NoSymbolHereAssertion:
+        case SyntaxKind.ParameterValueAssertion:
+        case SyntaxKind.ProseAssertion:
+            return "narrowing";
+    }
+
+    return (<OptionalSymbol>symbol).questionToken ? "widening" : "unknown";
+}
+
+function getDeletionEffect(symbol: LexicalSymbol): GrammarChangeEffect {
+    const effect = getInsertionEffect(symbol);
+    return effect === "widening" ? "narrowing" : effect === "narrowing" ? "widening" : effect;
+}
+
+/**
+ * Gets the longest common subsequence of two lists of keys, as pairs of indices into each list.
+ */
+function getCommonSubsequence<T>(x: T[], y: T[], equals = (left: T, right: T) => left === right) {
+    const lengths: number[][] = [];
+    for (let i = x.length; i >= 0; i--) {
+        lengths[i] = [];
+        for (let j = y.length; j >= 0; j--) {
+            lengths[i][j] = i === x.length || j === y.length ? 0
+                : equals(x[i], y[j]) ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const pairs: [number, number][] = [];
+    for (let i = 0, j = 0; i < x.length && j < y.length;) {
+        if (equals(x[i], y[j])) {
+            pairs.push([i++, j++]);
+        }
+        else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            i++;
+        }
+        else {
+            j++;
+        }
+    }
+
+    return pairs;
+}
+
+function createProductionChange(kind: GrammarChangeKind, oldEntry: ProductionEntry, newEntry: ProductionEntry, message: string): GrammarChange {
+    return {
+        kind,
+        effect: "neutral",
+        production: (newEntry || oldEntry).name,
+        oldNode: oldEntry && oldEntry.productions[0],
+        oldSourceFile: oldEntry && oldEntry.sourceFiles[0],
+        newNode: newEntry && newEntry.productions[0],
+        newSourceFile: newEntry && newEntry.sourceFiles[0],
+        message
+    };
+}
+
+function createAlternativeChange(kind: GrammarChangeKind, effect: GrammarChangeEffect, oldEntry: ProductionEntry, oldAlternative: AlternativeEntry, newEntry: ProductionEntry, newAlternative: AlternativeEntry, message: string): GrammarChange {
+    return {
+        kind,
+        effect,
+        production: newEntry.name,
+        oldNode: oldAlternative ? oldAlternative.node : oldEntry.productions[0],
+        oldSourceFile: oldAlternative ? oldAlternative.sourceFile : oldEntry.sourceFiles[0],
+        newNode: newAlternative ? newAlternative.node : newEntry.productions[0],
+        newSourceFile: newAlternative ? newAlternative.sourceFile : newEntry.sourceFiles[0],
+        message
+    };
+}
+
+function formatParameters(parameters: string[]) {
+    return parameters.length > 0 ? `[${parameters.join(", ")}]` : `none`;
+}
+
+function getText(alternative: AlternativeEntry) {
+    const node = alternative.node;
+    return alternative.sourceFile.text.substring(node.pos, node.end).trim().replace(/\s+/g, " ");
+}
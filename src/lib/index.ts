@@ -19,11 +19,21 @@ export * from "./diagnostics";
 export * from "./options";
 export * from "./tokens";
 export * from "./nodes";
+export * from "./serializer";
 export * from "./symbols";
 export * from "./scanner";
 export * from "./parser";
 export * from "./binder";
 export * from "./checker";
+export * from "./analyzer";
+export * from "./automaton";
+export * from "./expander";
+export * from "./interpreter";
+export * from "./generator";
+export * from "./coverage";
+export * from "./grammardiff";
+export * from "./converter";
+export * from "./services";
 export * from "./emitter/index";
 export * from "./stringwriter";
 export * from "./grammar";
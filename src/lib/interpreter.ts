@@ -0,0 +1,467 @@
+import { CancellationToken } from "prex";
+import { Dictionary } from "./core";
+import { LineMap } from "./diagnostics";
+import { BindingTable } from "./binder";
+import { Analyzer } from "./analyzer";
+import { ElementKind, Element, RuleNonterminal, Rule, RuleTable } from "./ruletable";
+import { LexicalSymbol, RightHandSide, OneOfList } from "./nodes";
+
+/**
+ * A node in the parse tree produced by an `Interpreter`.
+ */
+export interface ParseNode {
+    /** The name of the production for a nonterminal or a token; otherwise, `undefined` for a terminal. */
+    name?: string;
+    /** The right-hand side of the production that was matched by a nonterminal. */
+    rightHandSide?: RightHandSide | OneOfList;
+    /** The source text of a terminal or a token. */
+    text?: string;
+    /** The symbol of the right-hand side of the parent node that was matched, or `undefined` for the root node. */
+    symbol?: LexicalSymbol;
+    pos: number;
+    end: number;
+    children?: ParseNode[];
+}
+
+export interface ParseError {
+    pos: number;
+    line: number;
+    character: number;
+    message: string;
+    /** The terminals and tokens that could have been matched at the position of the error. */
+    expected: string[];
+}
+
+export interface ParseResult {
+    tree?: ParseNode;
+    error?: ParseError;
+}
+
+export interface InterpreterOptions {
+    /** The names of the parameters of the goal that are set. */
+    args?: string[];
+    /** The names of the lexical productions that may appear between the tokens of a syntactic production. By default, whitespace is skipped. */
+    trivia?: string[];
+}
+
+interface Item {
+    rule: Rule;
+    dot: number;
+    origin: number;
+    children: ParseNode[];
+}
+
+interface Match {
+    end: number;
+    node: ParseNode;
+}
+
+interface Recognition {
+    matches: Match[];
+    /** The furthest position reached. */
+    furthest: number;
+    /** The terminals and tokens that failed to match at the furthest position. */
+    expected: string[];
+}
+
+/**
+ * Parses text using the productions of a grammar, without generating a parser.
+ *
+ * Input is parsed with an Earley parser that works on the characters of the text. Between the tokens of a syntactic
+ * production, trivia is skipped. A lexical production referenced from a syntactic production is a token, and is
+ * matched with the longest match at the position of the token. A terminal in a syntactic production is not matched if
+ * a longer terminal also matches, or if it would split an identifier.
+ *
+ * `A but not B` matches any input matched by `A` that is not also matched by `B`. Lookahead assertions match each of
+ * their sequences at the current position, and `[no LineTerminator here]` tests the trivia before the next token. Prose
+ * is only understood when it describes "any Unicode code point", optionally with a Unicode property.
+ */
+export class Interpreter {
+    private cancellationToken: CancellationToken;
+    private goal: number;
+    private trivia: number[];
+    private nonterminals: RuleNonterminal[];
+    private syntacticTerminals: string[];
+    private text: string;
+    private matches: Dictionary<Match[]>;
+    private triviaEnds: number[];
+
+    constructor(bindings: BindingTable, analyzer: Analyzer, goal: string, options: InterpreterOptions = {}, cancellationToken = CancellationToken.none) {
+        this.cancellationToken = cancellationToken;
+        const table = new RuleTable(bindings, analyzer);
+        const args = new Dictionary<boolean>();
+        for (const name of options.args || []) {
+            Dictionary.set(args, name, true);
+        }
+
+        this.goal = table.getNonterminal(table.resolveProduction(goal), args);
+        if (options.trivia) {
+            this.trivia = options.trivia.map(name => table.getNonterminal(table.resolveProduction(name), new Dictionary<boolean>()));
+        }
+
+        table.expandPendingNonterminals(this.cancellationToken);
+        this.nonterminals = table.nonterminals;
+        this.syntacticTerminals = table.syntacticTerminals;
+    }
+
+    /**
+     * Parses text starting from the goal of the interpreter.
+     */
+    public parse(text: string): ParseResult {
+        this.text = text;
+        this.matches = new Dictionary<Match[]>();
+        this.triviaEnds = [];
+        try {
+            const goal = this.nonterminals[this.goal];
+            const recognition = this.recognize(this.goal, 0, /*reportExpected*/ true);
+            for (const match of recognition.matches) {
+                if ((goal.syntactic ? this.skipTrivia(match.end) : match.end) === text.length) {
+                    return { tree: match.node };
+                }
+            }
+
+            const pos = goal.syntactic ? this.skipTrivia(recognition.furthest) : recognition.furthest;
+            const position = new LineMap(text).positionAt(pos);
+            const message = pos < text.length
+                ? `Unexpected '${text.substring(pos, pos + (isHighSurrogate(text.charCodeAt(pos)) ? 2 : 1))}'.`
+                : `Unexpected end of input.`;
+            return { error: { pos, line: position.line, character: position.character, message, expected: recognition.expected } };
+        }
+        finally {
+            this.text = undefined;
+            this.matches = undefined;
+            this.triviaEnds = undefined;
+        }
+    }
+
+    /**
+     * Recognizes a nonterminal starting at a position, returning each position at which it may end.
+     */
+    private recognize(start: number, pos: number, reportExpected: boolean): Recognition {
+        const sets: Item[][] = [];
+        const keys: Dictionary<boolean>[] = [];
+        const nullCompletions: Dictionary<ParseNode[]>[] = [];
+        const expected: string[][] = [];
+        const matches: Match[] = [];
+        let furthest = pos;
+
+        const addItem = (index: number, item: Item) => {
+            const key = `${item.rule.id}:${item.dot}:${item.origin}`;
+            const setKeys = keys[index] || (keys[index] = new Dictionary<boolean>());
+            if (!Dictionary.has(setKeys, key)) {
+                Dictionary.set(setKeys, key, true);
+                (sets[index] || (sets[index] = [])).push(item);
+                if (index > furthest) {
+                    furthest = index;
+                }
+            }
+        };
+
+        const advance = (item: Item, nodes: ParseNode[]): Item => {
+            const symbol = item.rule.elements[item.dot].symbol;
+            if (symbol) {
+                nodes = nodes.map(node => setSymbol(node, symbol));
+            }
+
+            return { rule: item.rule, dot: item.dot + 1, origin: item.origin, children: nodes.length > 0 ? item.children.concat(nodes) : item.children };
+        };
+
+        for (const rule of this.nonterminals[start].rules) {
+            addItem(pos, { rule, dot: 0, origin: pos, children: [] });
+        }
+
+        for (let index = pos; index <= furthest; index++) {
+            const items = sets[index];
+            if (!items) {
+                continue;
+            }
+
+            this.cancellationToken.throwIfCancellationRequested();
+            for (let i = 0; i < items.length; i++) {
+                const item = items[i];
+                const rule = item.rule;
+                if (item.dot === rule.elements.length) {
+                    const nonterminal = this.nonterminals[rule.nonterminal];
+                    const node = this.createNode(nonterminal, rule, item.origin, index, item.children);
+                    const nodes = nonterminal.anonymous ? item.children : [node];
+                    if (item.origin === index) {
+                        const completions = nullCompletions[index] || (nullCompletions[index] = new Dictionary<ParseNode[]>());
+                        if (!Dictionary.has(completions, String(rule.nonterminal))) {
+                            Dictionary.set(completions, String(rule.nonterminal), nodes);
+                        }
+                    }
+
+                    if (rule.nonterminal === start && item.origin === pos && !matches.some(match => match.end === index)) {
+                        matches.push({ end: index, node });
+                    }
+
+                    const parents = sets[item.origin];
+                    for (let j = 0; j < parents.length; j++) {
+                        const parent = parents[j];
+                        const element = parent.rule.elements[parent.dot];
+                        if (element && element.kind === ElementKind.Nonterminal && element.nonterminal === rule.nonterminal) {
+                            addItem(index, advance(parent, nodes));
+                        }
+                    }
+
+                    continue;
+                }
+
+                const element = rule.elements[item.dot];
+                if (element.optional) {
+                    addItem(index, advance(item, []));
+                }
+
+                if (element.kind === ElementKind.Nonterminal) {
+                    for (const predicted of this.nonterminals[element.nonterminal].rules) {
+                        addItem(index, { rule: predicted, dot: 0, origin: index, children: [] });
+                    }
+
+                    // a nonterminal that has already matched the empty string at this position is not completed again.
+                    const completion = nullCompletions[index] && Dictionary.get(nullCompletions[index], String(element.nonterminal));
+                    if (completion) {
+                        addItem(index, advance(item, completion));
+                    }
+
+                    continue;
+                }
+
+                const elementMatches = this.matchElement(element, index, this.nonterminals[rule.nonterminal].syntactic);
+                for (const match of elementMatches) {
+                    addItem(match.end, advance(item, match.node ? [match.node] : []));
+                }
+
+                if (reportExpected && elementMatches.length === 0) {
+                    const text = getExpectedText(element);
+                    if (text) {
+                        const list = expected[index] || (expected[index] = []);
+                        if (list.indexOf(text) === -1) {
+                            list.push(text);
+                        }
+                    }
+                }
+            }
+        }
+
+        matches.sort((a, b) => a.end - b.end);
+        return { matches, furthest, expected: expected[furthest] || [] };
+    }
+
+    private createNode(nonterminal: RuleNonterminal, rule: Rule, pos: number, end: number, children: ParseNode[]): ParseNode {
+        return {
+            name: nonterminal.anonymous ? undefined : nonterminal.symbol.name,
+            rightHandSide: rule.node,
+            pos: children.length > 0 ? children[0].pos : pos,
+            end,
+            children
+        };
+    }
+
+    private matchElement(element: Element, pos: number, syntactic: boolean): Match[] {
+        const text = this.text;
+        switch (element.kind) {
+            case ElementKind.Terminal: {
+                const start = syntactic ? this.skipTrivia(pos) : pos;
+                const end = start + element.text.length;
+                if (text.substring(start, end) !== element.text || (syntactic && !this.isEndOfTerminal(element.text, start))) {
+                    return [];
+                }
+
+                return [{ end, node: { text: element.text, pos: start, end } }];
+            }
+
+            case ElementKind.Character:
+            case ElementKind.Prose: {
+                const start = syntactic ? this.skipTrivia(pos) : pos;
+                if (start >= text.length) {
+                    return [];
+                }
+
+                const codePoint = getCodePointAt(text, start);
+                if (!element.test(codePoint)) {
+                    return [];
+                }
+
+                const end = start + (codePoint > 0xffff ? 2 : 1);
+                return [{ end, node: { text: text.substring(start, end), pos: start, end } }];
+            }
+
+            case ElementKind.Token: {
+                const start = this.skipTrivia(pos);
+                const matches = this.getMatches(element.nonterminal, start);
+                const longest = matches[matches.length - 1];
+                if (!longest || longest.end === start) {
+                    return [];
+                }
+
+                const node: ParseNode = {
+                    name: longest.node.name,
+                    rightHandSide: longest.node.rightHandSide,
+                    text: text.substring(start, longest.end),
+                    pos: start,
+                    end: longest.end,
+                    children: longest.node.children
+                };
+                return [{ end: longest.end, node }];
+            }
+
+            case ElementKind.Nonterminal:
+                return this.getMatches(element.nonterminal, pos);
+
+            case ElementKind.ButNot:
+                return this.matchElement(element.left, pos, syntactic)
+                    .filter(match => !this.matchesExactly(element.right, pos, match.end, syntactic));
+
+            case ElementKind.Lookahead:
+                const matched = element.sequences.some(sequence => this.matchesSequence(sequence, 0, pos, syntactic));
+                return matched !== element.negated ? [{ end: pos, node: undefined }] : [];
+
+            case ElementKind.NoSymbolHere:
+                const end = syntactic ? this.skipTrivia(pos) : pos + 1;
+                for (let i = pos; i < end; i++) {
+                    if (element.elements.some(symbol => this.matchElement(symbol, i, /*syntactic*/ false).length > 0)) {
+                        return [];
+                    }
+                }
+
+                return [{ end: pos, node: undefined }];
+        }
+
+        return [];
+    }
+
+    private matchesExactly(element: Element, pos: number, end: number, syntactic: boolean) {
+        // a token is matched with every length, not just the longest, so that `IdentifierName but not ReservedWord` works.
+        const matches = element.kind === ElementKind.Token
+            ? this.getMatches(element.nonterminal, this.skipTrivia(pos))
+            : this.matchElement(element, pos, syntactic);
+        return matches.some(match => match.end === end);
+    }
+
+    private matchesSequence(sequence: Element[], index: number, pos: number, syntactic: boolean): boolean {
+        if (index >= sequence.length) {
+            return true;
+        }
+
+        for (const match of this.matchElement(sequence[index], pos, syntactic)) {
+            if (this.matchesSequence(sequence, index + 1, match.end, syntactic)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    private getMatches(nonterminal: number, pos: number): Match[] {
+        const key = `${nonterminal}:${pos}`;
+        let matches = Dictionary.get(this.matches, key);
+        if (!matches) {
+            // a nonterminal that is recognized again at the same position while it is being recognized does not match.
+            Dictionary.set(this.matches, key, []);
+            matches = this.recognize(nonterminal, pos, /*reportExpected*/ false).matches;
+            Dictionary.set(this.matches, key, matches);
+        }
+
+        return matches;
+    }
+
+    private skipTrivia(pos: number): number {
+        let end = this.triviaEnds[pos];
+        if (end === undefined) {
+            end = pos;
+            if (this.trivia) {
+                let skipped: boolean;
+                do {
+                    skipped = false;
+                    for (const trivia of this.trivia) {
+                        const matches = this.getMatches(trivia, end);
+                        const longest = matches[matches.length - 1];
+                        if (longest && longest.end > end) {
+                            end = longest.end;
+                            skipped = true;
+                            break;
+                        }
+                    }
+                }
+                while (skipped);
+            }
+            else {
+                while (end < this.text.length && /\s/.test(this.text.charAt(end))) {
+                    end++;
+                }
+            }
+
+            this.triviaEnds[pos] = end;
+        }
+
+        return end;
+    }
+
+    private isEndOfTerminal(terminal: string, pos: number) {
+        const end = pos + terminal.length;
+        if (isIdentifierPart(terminal.charCodeAt(terminal.length - 1)) && end < this.text.length && isIdentifierPart(this.text.charCodeAt(end))) {
+            return false;
+        }
+
+        // as with the longest match of a scanner, a longer terminal that also matches takes precedence.
+        for (const other of this.syntacticTerminals) {
+            if (other.length > terminal.length && other.substr(0, terminal.length) === terminal && this.text.substr(pos, other.length) === other) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+}
+
+/**
+ * Copies a node with the symbol it matched, as the node of a nonterminal may be matched by more than one symbol.
+ */
+function setSymbol(node: ParseNode, symbol: LexicalSymbol): ParseNode {
+    const copy: ParseNode = { name: node.name, rightHandSide: node.rightHandSide, text: node.text, symbol, pos: node.pos, end: node.end };
+    if (node.children) {
+        copy.children = node.children;
+    }
+
+    return copy;
+}
+
+function getExpectedText(element: Element) {
+    switch (element.kind) {
+        case ElementKind.Terminal:
+            return "`" + element.text + "`";
+
+        case ElementKind.Character:
+        case ElementKind.Prose:
+        case ElementKind.Token:
+            return element.text;
+
+        case ElementKind.ButNot:
+            return getExpectedText(element.left);
+    }
+
+    return undefined;
+}
+
+/**
+ * Gets the code point at a position in text, combining a surrogate pair.
+ */
+export function getCodePointAt(text: string, pos: number) {
+    const ch = text.charCodeAt(pos);
+    if (isHighSurrogate(ch) && pos + 1 < text.length) {
+        const next = text.charCodeAt(pos + 1);
+        if (next >= 0xDC00 && next <= 0xDFFF) {
+            return (ch - 0xD800) * 0x400 + (next - 0xDC00) + 0x10000;
+        }
+    }
+
+    return ch;
+}
+
+function isHighSurrogate(ch: number) {
+    return ch >= 0xD800 && ch <= 0xDBFF;
+}
+
+function isIdentifierPart(ch: number) {
+    return (ch >= 0x61 && ch <= 0x7A) || (ch >= 0x41 && ch <= 0x5A) || (ch >= 0x30 && ch <= 0x39) || ch === 0x5F || ch === 0x24 || ch > 0x7F;
+}
@@ -501,6 +501,8 @@ export class SourceFile extends Node {
     @edge elements: SourceElement[];
     public lineMap: LineMap;
     public imports: string[];
+    /** The source elements that had syntax errors when they were parsed, which are never reused by an incremental parse. */
+    public elementsWithErrors: SourceElement[];
 
     constructor(filename: string, text: string) {
         super(SyntaxKind.SourceFile);
@@ -669,6 +671,39 @@ export function forEachChild<T>(node: Node, cbNode: (node: Node) => T): T {
     return undefined;
 }
 
+/**
+ * Creates a copy of a node and its descendants, with their positions moved by `delta`.
+ */
+export function cloneNode<TNode extends Node>(node: TNode, delta = 0): TNode {
+    const clone = <TNode>Object.create(Object.getPrototypeOf(node));
+    for (const key in node) {
+        if (Object.prototype.hasOwnProperty.call(node, key)) {
+            const value = (<any>node)[key];
+            (<any>clone)[key] = value instanceof Node ? cloneNode(value, delta)
+                : value instanceof Array ? value.map(element => element instanceof Node ? cloneNode(element, delta) : element)
+                : value;
+        }
+    }
+
+    clone.id = ++nextNodeId;
+    if (node.pos !== undefined) {
+        clone.pos = node.pos + delta;
+        clone.end = node.end + delta;
+    }
+
+    return clone;
+}
+
+/**
+ * Creates a node of a node class without calling its constructor, for a caller that sets its properties.
+ */
+export function createNode<TNode extends Node>(nodeClass: { prototype: TNode }, kind: SyntaxKind): TNode {
+    const node = <TNode>Object.create(nodeClass.prototype);
+    node.kind = kind;
+    node.id = ++nextNodeId;
+    return node;
+}
+
 function ensureEdges(target: Node): NodeEdge[] {
     if (!Object.prototype.hasOwnProperty.call(target, "_edges")) {
         Object.defineProperty(target, "_edges", { value: [] });
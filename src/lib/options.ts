@@ -5,7 +5,20 @@ import { CharacterCodes } from "./tokens";
 export enum EmitFormat {
     markdown,
     html,
-    ecmarkup
+    ecmarkup,
+    grammarkdown,
+    railroad,
+    antlr4,
+    treesitter,
+    ebnf,
+    peg,
+    bison,
+    json
+}
+
+export enum EbnfDialect {
+    w3c,
+    iso
 }
 
 export interface CompilerOptions {
@@ -13,8 +26,17 @@ export interface CompilerOptions {
     noEmit?: boolean;
     noEmitOnError?: boolean;
     noStrictParametricProductions?: boolean;
+    goals?: string[];
+    checkReachability?: boolean;
+    checkLeftRecursion?: boolean;
+    checkLL1?: boolean;
+    checkLALR1?: boolean;
     format?: EmitFormat;
     out?: string;
+    /** The names of the lexical productions that are skipped between tokens, for formats that emit a parser grammar. */
+    trivia?: string[];
+    /** The dialect of EBNF emitted by the `ebnf` format. */
+    ebnfDialect?: EbnfDialect;
     emitLinks?: boolean;
     diagnostics?: boolean;
 }
@@ -657,7 +679,13 @@ function evaluateArguments(parsed: ParsedArguments, known: KnownOptionMaps, raw:
             }
         }
 
-        parsed[option.longName] = value;
+        if (option.many) {
+            const values: any[] = parsed[option.longName] || (parsed[option.longName] = []);
+            values.push(value);
+        }
+        else {
+            parsed[option.longName] = value;
+        }
     }
 
     parsed.rest = raw.rest.slice(0);
@@ -16,7 +16,7 @@
 import { Range, Position, TextRange } from "./core";
 import { Diagnostics, DiagnosticMessages, NullDiagnosticMessages, LineMap, formatList } from "./diagnostics";
 import { SyntaxKind, tokenToString } from "./tokens";
-import { Scanner } from "./scanner";
+import { Scanner, isLineTerminator } from "./scanner";
 import { CancellationToken } from "prex";
 import {
     Node,
@@ -53,9 +53,9 @@ import {
     Import,
     Define,
     MetaElement,
-    SourceElement
+    SourceElement,
+    cloneNode
 } from "./nodes";
-import { NodeNavigator } from "./navigator";
 
 enum ParsingContext {
     SourceElements,
@@ -103,8 +103,8 @@ export namespace TextChange {
         }
 
         const lineMap = new LineMap(originalText);
-        const pos = lineMap.offsetAt(change.range.start);
-        const end = lineMap.offsetAt(change.range.end);
+        const pos = lineMap.clampedOffsetAt(change.range.start);
+        const end = lineMap.clampedOffsetAt(change.range.end);
         return originalText.substr(0, pos) + change.text + originalText.substr(end);
     }
 }
@@ -116,6 +116,7 @@ export class Parser {
     private diagnostics: DiagnosticMessages;
     private parsingContext: ParsingContext;
     private previousSourceFile: SourceFile;
+    private changeRange: TextRange;
     private cancellationToken: CancellationToken;
 
     constructor(diagnostics: DiagnosticMessages, cancellationToken = CancellationToken.none) {
@@ -123,33 +124,22 @@ export class Parser {
         this.cancellationToken = cancellationToken;
     }
 
-    // TODO(rbuckton): Incremental parser
-    // public updateSourceFile(sourceFile: SourceFile, change: TextChange) {
-    //     if (TextChange.isUnchanged(change)) {
-    //         return sourceFile;
-    //     }
-
-    //     if (sourceFile.elements.length === 0) {
-    //         return this.parseSourceFile(sourceFile.filename, change.text);
-    //     }
-
-    //     const navigator = new NodeNavigator(sourceFile);
-    //     navigator.moveToPosition(change.range.start);
-    //     navigator.moveToSourceElement();
-    //     const startPos = navigator.getNode().pos;
-    //     const startOffset = navigator.getOffset();
-    //     navigator.moveToPosition(change.range.end);
-    //     navigator.moveToSourceElement();
-    //     const endPos = navigator.getNode().end;
-    //     const endOffset = navigator.getOffset();
-
-    //     // 1) replace the text from sourceFile.text with the specified changes
-    //     // 2) create a new SourceFile, copying nodes from the original source file
-    //     // up to startOffset
-    //     // 3) parse the new text fragment, adding nodes to the new SourceFile
-    //     // 4) clone nodes from the old source file to the new source file
-    //     // with new positions
-    // }
+    /**
+     * Applies a change to the text of a source file and returns a new source file.
+     *
+     * Only the source elements affected by the change are parsed again. The source elements before the change are
+     * reused, and the source elements after the change are copied with their positions shifted by the change.
+     */
+    public updateSourceFile(sourceFile: SourceFile, change: TextChange): SourceFile {
+        if (TextChange.isUnchanged(change)) {
+            return sourceFile;
+        }
+
+        const pos = sourceFile.lineMap.clampedOffsetAt(change.range.start);
+        const end = sourceFile.lineMap.clampedOffsetAt(change.range.end);
+        const text = sourceFile.text.substr(0, pos) + change.text + sourceFile.text.substr(end);
+        return this.parse(sourceFile.filename, text, sourceFile, { pos, end });
+    }
 
     public parseSourceFile(filename: string, text: string): SourceFile {
         return this.parse(filename, text, /*previousSourceFile*/ undefined, /*changeRange*/ undefined);
@@ -157,12 +147,17 @@ export class Parser {
 
     private parse(filename: string, text: string, previousSourceFile: SourceFile, changeRange: TextRange) {
         this.sourceFile = new SourceFile(filename, text);
+        this.sourceFile.elementsWithErrors = [];
         this.diagnostics.setSourceFile(this.sourceFile);
         this.scanner = new Scanner(filename, text, this.diagnostics, this.cancellationToken);
         this.parsingContext = ParsingContext.SourceElements;
+        this.previousSourceFile = previousSourceFile;
+        this.changeRange = changeRange;
 
         this.nextToken();
         this.sourceFile.elements = this.parseSourceElementList() || [];
+        this.previousSourceFile = undefined;
+        this.changeRange = undefined;
 
         const imports: string[] = [];
         for (const element of this.sourceFile.elements) {
@@ -1249,6 +1244,66 @@ export class Parser {
     }
 
     private parseSourceElement(): SourceElement {
+        const reusedElement = this.tryReuseSourceElement();
+        if (reusedElement) {
+            return reusedElement;
+        }
+
+        const diagnosticCount = this.diagnostics.count();
+        const element = this.parseSourceElementWorker();
+        if (element && this.diagnostics.count() > diagnosticCount) {
+            this.sourceFile.elementsWithErrors.push(element);
+        }
+
+        return element;
+    }
+
+    private tryReuseSourceElement(): SourceElement {
+        if (!this.previousSourceFile) {
+            return undefined;
+        }
+
+        // an element can only be reused when it starts at the beginning of a line, as it does not depend on the indentation before it.
+        const pos = this.scanner.getTokenPos();
+        if (pos > 0 && !isLineTerminator(this.sourceFile.text.charCodeAt(pos - 1))) {
+            return undefined;
+        }
+
+        const previousElements = this.previousSourceFile.elements;
+        const delta = this.sourceFile.text.length - this.previousSourceFile.text.length;
+        let index: number;
+        if (pos < this.changeRange.pos) {
+            // the end of an element depends on the token that follows it, so the next element must also precede the change.
+            index = findElementAt(previousElements, pos);
+            if (index === -1 || index + 1 >= previousElements.length || previousElements[index + 1].pos >= this.changeRange.pos) {
+                return undefined;
+            }
+        }
+        else if (pos > this.changeRange.end + delta) {
+            index = findElementAt(previousElements, pos - delta);
+            if (index === -1) {
+                return undefined;
+            }
+        }
+        else {
+            return undefined;
+        }
+
+        let element = previousElements[index];
+        if (this.previousSourceFile.elementsWithErrors && this.previousSourceFile.elementsWithErrors.indexOf(element) !== -1) {
+            return undefined;
+        }
+
+        if (element.pos !== pos) {
+            element = cloneNode(element, pos - element.pos);
+        }
+
+        this.scanner.setTextPos(element.end);
+        this.nextToken();
+        return element;
+    }
+
+    private parseSourceElementWorker(): SourceElement {
         switch (this.token) {
             case SyntaxKind.Identifier:
                 return this.parseProduction();
@@ -1267,6 +1322,26 @@ export class Parser {
     }
 }
 
+function findElementAt(elements: SourceElement[], pos: number) {
+    let low = 0;
+    let high = elements.length - 1;
+    while (low <= high) {
+        const middle = low + ((high - low) >> 1);
+        const middlePos = elements[middle].pos;
+        if (middlePos === pos) {
+            return middle;
+        }
+        else if (middlePos < pos) {
+            low = middle + 1;
+        }
+        else {
+            high = middle - 1;
+        }
+    }
+
+    return -1;
+}
+
 function isSourceElementsRecoveryToken(token: SyntaxKind) {
     return token === SyntaxKind.LineTerminatorToken;
 }
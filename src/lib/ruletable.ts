@@ -0,0 +1,368 @@
+import { CancellationToken } from "prex";
+import { Dictionary } from "./core";
+import { SyntaxKind } from "./tokens";
+import { Symbol, SymbolKind } from "./symbols";
+import { isLineTerminator } from "./scanner";
+import { BindingTable } from "./binder";
+import { Analyzer, getTerminalSymbol, getCodePointOfLiteral } from "./analyzer";
+import { ConcreteNonterminal, ConcreteNonterminalTable, getArguments, isSatisfied } from "./expansion";
+import {
+    Nonterminal,
+    Terminal,
+    OptionalSymbol,
+    OneOfSymbol,
+    ButNotSymbol,
+    UnicodeCharacterLiteral,
+    UnicodeCharacterRange,
+    LookaheadAssertion,
+    NoSymbolHereAssertion,
+    LexicalSymbol,
+    SymbolSet,
+    SymbolSpan,
+    RightHandSide,
+    RightHandSideList,
+    OneOfList,
+    Production
+} from "./nodes";
+
+export enum ElementKind {
+    Terminal,
+    Character,
+    Prose,
+    Nonterminal,
+    Token,
+    ButNot,
+    Lookahead,
+    NoSymbolHere
+}
+
+export interface Element {
+    kind: ElementKind;
+    optional?: boolean;
+    /** The text of a terminal, or the source text of a character, range, or prose used when reporting errors. */
+    text?: string;
+    /** Tests the code point matched by a character, range, or prose. */
+    test?: (codePoint: number) => boolean;
+    /** The ranges of the code points matched by a character or range, each from its first to its last code point. */
+    ranges?: [number, number][];
+    /** The index of the nonterminal for a nonterminal or a token. */
+    nonterminal?: number;
+    left?: Element;
+    right?: Element;
+    /** Whether a lookahead assertion must not match any of its sequences. */
+    negated?: boolean;
+    sequences?: Element[][];
+    /** The symbols of a `[no Symbol here]` assertion. */
+    elements?: Element[];
+    /** The symbol of a right-hand side from which the element was created. */
+    symbol?: LexicalSymbol;
+}
+
+export interface RuleNonterminal extends ConcreteNonterminal {
+    syntactic: boolean;
+    /** Whether the nonterminal stands for a `one of` symbol, with a rule of a single element for each of its symbols. */
+    anonymous: boolean;
+    rules: Rule[];
+}
+
+export interface Rule {
+    id: number;
+    nonterminal: number;
+    elements: Element[];
+    node: RightHandSide | OneOfList;
+}
+
+const lineTerminators: [number, number][] = [[0x000A, 0x000A], [0x000D, 0x000D]];
+const spaceSeparators: [number, number][] = [[0x0020, 0x0020], [0x00A0, 0x00A0], [0x1680, 0x1680], [0x2000, 0x200A], [0x202F, 0x202F], [0x205F, 0x205F], [0x3000, 0x3000]];
+
+/**
+ * Compiles the productions of a grammar into rules, with the parameters of each production expanded for the arguments
+ * with which it is reached. Each `one of` symbol becomes an anonymous nonterminal.
+ */
+export class RuleTable {
+    public nonterminals: RuleNonterminal[] = [];
+    public rules: Rule[] = [];
+    /** The text of each terminal in a syntactic production. */
+    public syntacticTerminals: string[] = [];
+    private bindings: BindingTable;
+    private analyzer: Analyzer;
+    private nonterminalTable: ConcreteNonterminalTable;
+
+    constructor(bindings: BindingTable, analyzer: Analyzer) {
+        this.bindings = bindings;
+        this.analyzer = analyzer;
+        this.nonterminalTable = new ConcreteNonterminalTable(bindings, ({ name, symbol, args }) =>
+            this.nonterminals.push({ name, symbol, args, syntactic: analyzer.isSyntactic(symbol), anonymous: false, rules: [] }) - 1);
+    }
+
+    public resolveProduction(name: string): Symbol {
+        const symbol = this.bindings.globals.resolveSymbol(name, SymbolKind.Production);
+        if (!symbol) {
+            throw new Error(`Production '${name}' not found.`);
+        }
+
+        return symbol;
+    }
+
+    public getParameters(symbol: Symbol): string[] {
+        return this.nonterminalTable.getParameters(symbol);
+    }
+
+    /**
+     * Gets the index of the nonterminal for a production and its arguments. Its rules are added by `expandPendingNonterminals`.
+     */
+    public getNonterminal(symbol: Symbol, args: Dictionary<boolean>): number {
+        return this.nonterminalTable.getNonterminal(symbol, args);
+    }
+
+    /**
+     * Adds the rules of each nonterminal that has been reached but not yet expanded.
+     */
+    public expandPendingNonterminals(cancellationToken = CancellationToken.none) {
+        this.nonterminalTable.expandPendingNonterminals(index => this.expandNonterminal(index), cancellationToken);
+    }
+
+    private expandNonterminal(index: number) {
+        const nonterminal = this.nonterminals[index];
+        for (const declaration of this.bindings.getDeclarations(nonterminal.symbol)) {
+            const body = declaration.kind === SyntaxKind.Production ? (<Production>declaration).body : undefined;
+            if (!body) {
+                continue;
+            }
+
+            switch (body.kind) {
+                case SyntaxKind.OneOfList:
+                    for (const terminal of (<OneOfList>body).terminals || []) {
+                        this.addRule(index, [this.createSymbolElement(terminal, nonterminal.args, nonterminal.syntactic)], <OneOfList>body);
+                    }
+
+                    break;
+
+                case SyntaxKind.RightHandSideList:
+                    for (const rhs of (<RightHandSideList>body).elements || []) {
+                        this.expandRightHandSide(index, rhs);
+                    }
+
+                    break;
+
+                case SyntaxKind.RightHandSide:
+                    this.expandRightHandSide(index, <RightHandSide>body);
+                    break;
+            }
+        }
+    }
+
+    private expandRightHandSide(index: number, node: RightHandSide) {
+        const { args, syntactic } = this.nonterminals[index];
+        if (!isSatisfied(node, args)) {
+            return;
+        }
+
+        const elements: Element[] = [];
+        for (let span = node.head; span; span = span.next) {
+            const symbol = span.symbol;
+            if (!symbol) {
+                continue;
+            }
+
+            switch (symbol.kind) {
+                case SyntaxKind.LookaheadAssertion:
+                    const lookahead = this.createLookahead(<LookaheadAssertion>symbol, args, syntactic);
+                    if (lookahead) {
+                        elements.push(lookahead);
+                    }
+
+                    break;
+
+                case SyntaxKind.NoSymbolHereAssertion:
+                    // the symbols that may not appear are matched as trivia, rather than as tokens.
+                    const symbols = (<NoSymbolHereAssertion>symbol).symbols || [];
+                    elements.push({ kind: ElementKind.NoSymbolHere, elements: symbols.map(symbol => this.createElement(symbol, args, /*syntactic*/ false)) });
+                    break;
+
+                case SyntaxKind.ParameterValueAssertion:
+                case SyntaxKind.EmptyAssertion:
+                case SyntaxKind.LexicalGoalAssertion:
+                case SyntaxKind.ProseAssertion:
+                case SyntaxKind.InvalidAssertion:
+                    break;
+
+                default:
+                    elements.push(this.createSymbolElement(symbol, args, syntactic));
+                    break;
+            }
+        }
+
+        this.addRule(index, elements, node);
+    }
+
+    /**
+     * Creates the element for a symbol of a rule, so that the nodes it matches refer to the symbol.
+     */
+    private createSymbolElement(node: LexicalSymbol, args: Dictionary<boolean>, syntactic: boolean): Element {
+        const element = this.createElement(node, args, syntactic);
+        element.symbol = node;
+        return element;
+    }
+
+    private createElement(node: LexicalSymbol, args: Dictionary<boolean>, syntactic: boolean): Element {
+        const optional = !!(<OptionalSymbol>node).questionToken;
+        switch (node.kind) {
+            case SyntaxKind.Terminal:
+                const text = (<Terminal>node).text;
+                if (syntactic && this.syntacticTerminals.indexOf(text) === -1) {
+                    this.syntacticTerminals.push(text);
+                }
+
+                return { kind: ElementKind.Terminal, text, optional };
+
+            case SyntaxKind.UnicodeCharacterLiteral:
+                const codePoint = getCodePointOfLiteral(<UnicodeCharacterLiteral>node);
+                const ranges: [number, number][] = codePoint !== undefined ? [[codePoint, codePoint]]
+                    : /^<?USP>?$/.test((<UnicodeCharacterLiteral>node).text) ? spaceSeparators
+                    : [];
+                return createCharacter(getTerminalSymbol(node).text, ranges, optional);
+
+            case SyntaxKind.UnicodeCharacterRange:
+                const range = <UnicodeCharacterRange>node;
+                const min = range.left && getCodePointOfLiteral(range.left);
+                const max = range.right && getCodePointOfLiteral(range.right);
+                return createCharacter(getTerminalSymbol(node).text, min !== undefined && max !== undefined && min <= max ? [[min, max]] : []);
+
+            case SyntaxKind.Prose:
+                const prose = getTerminalSymbol(node).text;
+                return { kind: ElementKind.Prose, text: prose, test: getProseTest(prose.substr(2)) };
+
+            case SyntaxKind.AtToken:
+                return createCharacter("@", []);
+
+            case SyntaxKind.Nonterminal:
+                const target = this.analyzer.getProductionSymbol(<Nonterminal>node);
+                if (!target) {
+                    // an undeclared `LineTerminator` is commonly used in a `[no LineTerminator here]` assertion.
+                    const name = (<Nonterminal>node).name ? (<Nonterminal>node).name.text : "";
+                    return name === "LineTerminator"
+                        ? { kind: ElementKind.Character, text: name, test: isLineTerminator, ranges: lineTerminators, optional }
+                        : createCharacter(name, [], optional);
+                }
+
+                const index = this.nonterminalTable.getNonterminal(target, getArguments(<Nonterminal>node, args));
+                return {
+                    kind: syntactic && !this.analyzer.isSyntactic(target) ? ElementKind.Token : ElementKind.Nonterminal,
+                    text: target.name,
+                    nonterminal: index,
+                    optional
+                };
+
+            case SyntaxKind.OneOfSymbol:
+                const anonymous = this.nonterminals.length;
+                this.nonterminals.push({ name: undefined, symbol: undefined, args, syntactic, anonymous: true, rules: [] });
+                for (const symbol of (<OneOfSymbol>node).symbols || []) {
+                    this.addRule(anonymous, [this.createElement(symbol, args, syntactic)], undefined);
+                }
+
+                return { kind: ElementKind.Nonterminal, nonterminal: anonymous };
+
+            case SyntaxKind.ButNotSymbol:
+                return {
+                    kind: ElementKind.ButNot,
+                    left: this.createElement((<ButNotSymbol>node).left, args, syntactic),
+                    right: this.createElement((<ButNotSymbol>node).right, args, syntactic)
+                };
+        }
+
+        // a placeholder, or an invalid symbol, matches no code point.
+        return createCharacter("", []);
+    }
+
+    private createLookahead(node: LookaheadAssertion, args: Dictionary<boolean>, syntactic: boolean): Element {
+        const spans = !node.lookahead ? []
+            : node.lookahead.kind === SyntaxKind.SymbolSet ? (<SymbolSet>node.lookahead).elements || []
+            : [<SymbolSpan>node.lookahead];
+
+        const sequences: Element[][] = [];
+        for (const span of spans) {
+            const sequence: Element[] = [];
+            for (let next = span; next; next = next.next) {
+                if (next.symbol) {
+                    sequence.push(this.createElement(next.symbol, args, syntactic));
+                }
+            }
+
+            sequences.push(sequence);
+        }
+
+        switch (node.operatorToken && node.operatorToken.kind) {
+            case SyntaxKind.EqualsEqualsToken:
+            case SyntaxKind.LessThanMinusToken:
+                return { kind: ElementKind.Lookahead, negated: false, sequences };
+
+            case SyntaxKind.ExclamationEqualsToken:
+            case SyntaxKind.LessThanExclamationToken:
+                return { kind: ElementKind.Lookahead, negated: true, sequences };
+        }
+
+        return undefined;
+    }
+
+    private addRule(nonterminal: number, elements: Element[], node: RightHandSide | OneOfList) {
+        const rule: Rule = { id: this.rules.length, nonterminal, elements, node };
+        this.rules.push(rule);
+        this.nonterminals[nonterminal].rules.push(rule);
+    }
+}
+
+/**
+ * Gets the text of a code point, as a surrogate pair if it is outside the Basic Multilingual Plane.
+ */
+export function getStringOfCodePoint(codePoint: number) {
+    if (codePoint > 0xffff) {
+        codePoint -= 0x10000;
+        return String.fromCharCode(0xD800 + (codePoint >> 10), 0xDC00 + (codePoint & 0x3FF));
+    }
+
+    return String.fromCharCode(codePoint);
+}
+
+function createCharacter(text: string, ranges: [number, number][], optional?: boolean): Element {
+    return {
+        kind: ElementKind.Character,
+        text,
+        test: codePoint => ranges.some(([min, max]) => codePoint >= min && codePoint <= max),
+        ranges,
+        optional
+    };
+}
+
+/**
+ * Gets a test for the code points described by prose, such as `any Unicode code point with the Unicode property "ID_Start"`.
+ * Prose that does not describe "any Unicode code point" matches no code point.
+ */
+function getProseTest(prose: string): (codePoint: number) => boolean {
+    if (!/^any Unicode code point/i.test(prose)) {
+        return () => false;
+    }
+
+    // a code point with one of the Unicode properties named in the prose, for those properties known to the runtime.
+    const properties: RegExp[] = [];
+    const pattern = /["“]([\w]+)["”]/g;
+    let match: RegExpExecArray;
+    let named = false;
+    while (match = pattern.exec(prose)) {
+        named = true;
+        try {
+            properties.push(new RegExp(`^\\p{${match[1]}}$`, "u"));
+        }
+        catch (e) {
+        }
+    }
+
+    if (!named) {
+        return () => true;
+    }
+
+    return codePoint => {
+        const text = getStringOfCodePoint(codePoint);
+        return properties.some(property => property.test(text));
+    };
+}
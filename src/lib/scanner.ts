@@ -142,6 +142,21 @@ export class Scanner {
         return result;
     }
 
+    /**
+     * Moves the scanner to the start of a line, discarding any pending indentation.
+     */
+    public setTextPos(pos: number): void {
+        this.pos = pos;
+        this.startPos = pos;
+        this.tokenPos = pos;
+        this.token = SyntaxKind.Unknown;
+        this.tokenValue = undefined;
+        this.queue = undefined;
+        this.indents = [];
+        this.copyQueueOnWrite = false;
+        this.copyIndentsOnWrite = false;
+    }
+
     private scanToken(): SyntaxKind {
         this.startPos = this.pos;
         this.tokenIsUnterminated = false;
@@ -814,7 +829,10 @@ function isIdentifierPart(ch: number): boolean {
         || ch === CharacterCodes.Underscore;
 }
 
-function isLineTerminator(ch: number): boolean {
+/**
+ * Gets a value indicating whether a character ends a line of a grammar.
+ */
+export function isLineTerminator(ch: number): boolean {
     return ch === CharacterCodes.CarriageReturn || ch === CharacterCodes.LineFeed;
 }
 
@@ -833,6 +851,23 @@ function isProseFragment(token: SyntaxKind): boolean {
         && token <= SyntaxKind.LastProseFragment;
 }
 
+/**
+ * Gets the source text for an identifier, which is written as `|Name|` when it is a keyword or contains characters
+ * that cannot otherwise be part of an identifier.
+ */
+export function formatIdentifier(text: string): string {
+    let isPlainIdentifier = text.length > 0 && isIdentifierStart(text.charCodeAt(0));
+    for (let i = 1; isPlainIdentifier && i < text.length; i++) {
+        isPlainIdentifier = isIdentifierPart(text.charCodeAt(i));
+    }
+
+    if (isPlainIdentifier && stringToToken(text) === undefined) {
+        return text;
+    }
+
+    return "|" + text.replace(/[\\|]/g, "\\$&").replace(/\r/g, "\\r").replace(/\n/g, "\\n") + "|";
+}
+
 export function scanHtmlTrivia(text: string, pos: number, end: number) {
     let trivia: TextRange[];
     scan: while (pos < end) {
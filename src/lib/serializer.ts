@@ -0,0 +1,245 @@
+import { Dictionary } from "./core";
+import { SyntaxKind } from "./tokens";
+import {
+    Node,
+    NodeEdge,
+    TextContent,
+    StringLiteral,
+    Identifier,
+    LexicalSymbol,
+    UnicodeCharacterLiteral,
+    UnicodeCharacterRange,
+    ButNotSymbol,
+    Terminal,
+    TerminalList,
+    SymbolSet,
+    Assertion,
+    EmptyAssertion,
+    LookaheadAssertion,
+    LexicalGoalAssertion,
+    NoSymbolHereAssertion,
+    ParameterValueAssertion,
+    ProseAssertion,
+    ProseFragmentLiteral,
+    Argument,
+    ArgumentList,
+    Nonterminal,
+    Prose,
+    OneOfSymbol,
+    SymbolSpan,
+    LinkReference,
+    RightHandSide,
+    RightHandSideList,
+    OneOfList,
+    Parameter,
+    ParameterList,
+    SourceElement,
+    Production,
+    Import,
+    Define,
+    SourceFile,
+    createNode
+} from "./nodes";
+
+/**
+ * The JSON form of a node.
+ *
+ * `kind` is the name of the `SyntaxKind` of the node, and `pos` and `end` are the offsets of the node in the text of
+ * its source file, in UTF-16 code units. A node with text content, such as a `Terminal` or an `Identifier`, has its
+ * `text`. Each child of a node is a property named after the `@edge` of the node class, which is a node or an array of
+ * nodes, and a missing child is left out. A token or keyword has no other properties.
+ */
+export interface NodeJson {
+    kind: string;
+    pos: number;
+    end: number;
+    text?: string;
+    [edge: string]: string | number | NodeJson | NodeJson[];
+}
+
+/**
+ * The JSON form of a source file, which also has the `filename` and the `text` of the file.
+ */
+export interface SourceFileJson extends NodeJson {
+    filename: string;
+    text: string;
+    elements: NodeJson[];
+}
+
+// the name of each kind is the first name declared for it, as some kinds also have the name of a range of kinds.
+const kindNames: string[] = [];
+const kinds = new Dictionary<SyntaxKind>();
+for (const name in SyntaxKind) {
+    const kind = (<any>SyntaxKind)[name];
+    if (typeof kind === "number") {
+        if (kindNames[kind] === undefined) {
+            kindNames[kind] = name;
+        }
+
+        Dictionary.set(kinds, name, kind);
+    }
+}
+
+/**
+ * Converts a source file to its JSON form.
+ */
+export function serializeSourceFile(sourceFile: SourceFile): SourceFileJson {
+    return <SourceFileJson>serializeNode(sourceFile);
+}
+
+/**
+ * Converts a node and its descendants to their JSON form.
+ */
+export function serializeNode(node: Node): NodeJson {
+    const json: NodeJson = { kind: kindNames[node.kind], pos: node.pos, end: node.end };
+    if (node.kind === SyntaxKind.SourceFile) {
+        json["filename"] = (<SourceFile>node).filename;
+    }
+
+    if (typeof (<TextContent><any>node).text === "string") {
+        json.text = (<TextContent><any>node).text;
+    }
+
+    for (const edge of getEdges(node)) {
+        if (edge.isArray) {
+            const children = edge.readArray(node);
+            if (children) {
+                json[edge.name] = children.map(serializeNode);
+            }
+        }
+        else {
+            const child = edge.read(node);
+            if (child) {
+                json[edge.name] = serializeNode(child);
+            }
+        }
+    }
+
+    return json;
+}
+
+/**
+ * Rebuilds a source file from its JSON form, or from the text of its JSON form.
+ */
+export function deserializeSourceFile(json: SourceFileJson | string): SourceFile {
+    const sourceFileJson = typeof json === "string" ? <SourceFileJson>JSON.parse(json) : json;
+    if (!sourceFileJson || sourceFileJson.kind !== "SourceFile" || typeof sourceFileJson.text !== "string") {
+        throw new Error("Invalid source file");
+    }
+
+    const sourceFile = new SourceFile(sourceFileJson.filename, sourceFileJson.text);
+    deserializeEdges(sourceFile, sourceFileJson);
+
+    const imports: string[] = [];
+    for (const element of sourceFile.elements || []) {
+        if (element.kind === SyntaxKind.Import && (<Import>element).path) {
+            imports.push((<Import>element).path.text);
+        }
+    }
+
+    sourceFile.elements = sourceFile.elements || [];
+    sourceFile.imports = imports;
+    sourceFile.elementsWithErrors = [];
+    return sourceFile;
+}
+
+/**
+ * Rebuilds a node and its descendants from their JSON form.
+ */
+export function deserializeNode(json: NodeJson): Node {
+    return readNode(json, /*edgeName*/ undefined);
+}
+
+function readNode(json: NodeJson, edgeName: string): Node {
+    const kind = Dictionary.get(kinds, json.kind);
+    if (kind === undefined || kind === SyntaxKind.SourceFile) {
+        throw new Error(`Invalid node kind '${json.kind}'.`);
+    }
+
+    const node = createNode(getNodeClass(kind, edgeName), kind);
+    node.pos = json.pos;
+    node.end = json.end;
+    if (typeof json.text === "string") {
+        (<TextContent><any>node).text = json.text;
+    }
+
+    deserializeEdges(node, json);
+    return node;
+}
+
+function deserializeEdges(node: Node, json: NodeJson) {
+    for (const edge of getEdges(node)) {
+        const value = json[edge.name];
+        if (value !== undefined && value !== null) {
+            (<any>node)[edge.name] = edge.isArray
+                ? (<NodeJson[]>value).map(element => readNode(element, edge.name))
+                : readNode(<NodeJson>value, edge.name);
+        }
+    }
+}
+
+/**
+ * Gets the edges of a node, including the edges declared by the base classes of its node class.
+ */
+function getEdges(node: Node) {
+    const edges: NodeEdge[] = [];
+    const names: string[] = [];
+    for (let prototype = Object.getPrototypeOf(node); prototype instanceof Node || prototype === Node.prototype; prototype = Object.getPrototypeOf(prototype)) {
+        for (const edge of (<Node>prototype).getEdges()) {
+            if (names.indexOf(edge.name) === -1) {
+                names.push(edge.name);
+                edges.push(edge);
+            }
+        }
+    }
+
+    return edges;
+}
+
+function getNodeClass(kind: SyntaxKind, edgeName: string): { prototype: Node } {
+    switch (kind) {
+        case SyntaxKind.AtToken:
+            // `@` is a placeholder symbol, except as the token that starts a meta element.
+            return edgeName === "atToken" ? Node : LexicalSymbol;
+
+        case SyntaxKind.StringLiteral: return StringLiteral;
+        case SyntaxKind.Identifier: return Identifier;
+        case SyntaxKind.Terminal: return Terminal;
+        case SyntaxKind.UnicodeCharacterLiteral: return UnicodeCharacterLiteral;
+        case SyntaxKind.Prose: return Prose;
+        case SyntaxKind.ProseHead:
+        case SyntaxKind.ProseMiddle:
+        case SyntaxKind.ProseTail:
+        case SyntaxKind.ProseFull: return ProseFragmentLiteral;
+        case SyntaxKind.Parameter: return Parameter;
+        case SyntaxKind.ParameterList: return ParameterList;
+        case SyntaxKind.Argument: return Argument;
+        case SyntaxKind.ArgumentList: return ArgumentList;
+        case SyntaxKind.LinkReference: return LinkReference;
+        case SyntaxKind.Import: return Import;
+        case SyntaxKind.Define: return Define;
+        case SyntaxKind.Production: return Production;
+        case SyntaxKind.OneOfList: return OneOfList;
+        case SyntaxKind.RightHandSideList: return RightHandSideList;
+        case SyntaxKind.RightHandSide: return RightHandSide;
+        case SyntaxKind.SymbolSpan: return SymbolSpan;
+        case SyntaxKind.ButNotSymbol: return ButNotSymbol;
+        case SyntaxKind.UnicodeCharacterRange: return UnicodeCharacterRange;
+        case SyntaxKind.OneOfSymbol: return OneOfSymbol;
+        case SyntaxKind.Nonterminal: return Nonterminal;
+        case SyntaxKind.TerminalList: return TerminalList;
+        case SyntaxKind.SymbolSet: return SymbolSet;
+        case SyntaxKind.EmptyAssertion: return EmptyAssertion;
+        case SyntaxKind.LookaheadAssertion: return LookaheadAssertion;
+        case SyntaxKind.LexicalGoalAssertion: return LexicalGoalAssertion;
+        case SyntaxKind.NoSymbolHereAssertion: return NoSymbolHereAssertion;
+        case SyntaxKind.ParameterValueAssertion: return ParameterValueAssertion;
+        case SyntaxKind.ProseAssertion: return ProseAssertion;
+        case SyntaxKind.InvalidSymbol: return LexicalSymbol;
+        case SyntaxKind.InvalidAssertion: return Assertion;
+        case SyntaxKind.InvalidSourceElement: return SourceElement;
+    }
+
+    // tokens and keywords have no node class of their own.
+    return Node;
+}
@@ -0,0 +1,285 @@
+import * as path from "path";
+import * as url from "url";
+import { Position, Range } from "./core";
+import { SymbolKind } from "./symbols";
+import { LanguageService, Location } from "./services";
+
+try {
+    require("source-map-support").install();
+}
+catch (e) { }
+
+interface Message {
+    jsonrpc: string;
+    id?: number | string;
+    method?: string;
+    params?: any;
+    result?: any;
+    error?: { code: number, message: string };
+}
+
+interface TextDocumentPositionParams {
+    textDocument: { uri: string };
+    position: Position;
+}
+
+const enum ErrorCodes {
+    ParseError = -32700,
+    MethodNotFound = -32601,
+    InternalError = -32603
+}
+
+const enum TextDocumentSyncKind {
+    Full = 1
+}
+
+const enum DiagnosticSeverity {
+    Error = 1,
+    Warning = 2
+}
+
+// the values of `CompletionItemKind` and `SymbolKind` in the Language Server Protocol.
+const enum LspKind {
+    FunctionCompletion = 3,
+    TypeParameterCompletion = 25,
+    FunctionSymbol = 12,
+    TypeParameterSymbol = 26
+}
+
+const service = new LanguageService();
+let buffer = Buffer.alloc(0);
+let shutdownRequested = false;
+
+function main(): void {
+    process.stdin.on("data", (chunk: Buffer) => {
+        buffer = Buffer.concat([buffer, chunk]);
+        readMessages();
+    });
+    process.stdin.on("end", () => {
+        process.exit(shutdownRequested ? 0 : 1);
+    });
+}
+
+function readMessages(): void {
+    while (true) {
+        // headers are ASCII, so each character of a "binary" string is a byte of the buffer.
+        const headerEnd = buffer.toString("binary").indexOf("\r\n\r\n");
+        if (headerEnd === -1) {
+            return;
+        }
+
+        const match = /Content-Length:\s*(\d+)/i.exec(buffer.toString("ascii", 0, headerEnd));
+        const contentStart = headerEnd + 4;
+        if (!match) {
+            buffer = buffer.slice(contentStart);
+            continue;
+        }
+
+        const contentEnd = contentStart + parseInt(match[1], 10);
+        if (buffer.length < contentEnd) {
+            return;
+        }
+
+        const content = buffer.toString("utf8", contentStart, contentEnd);
+        buffer = buffer.slice(contentEnd);
+        handleMessage(content);
+    }
+}
+
+function send(message: Message): void {
+    const content = JSON.stringify(message);
+    process.stdout.write(`Content-Length: ${Buffer.byteLength(content, "utf8")}\r\n\r\n${content}`);
+}
+
+function handleMessage(content: string): void {
+    let message: Message;
+    try {
+        message = <Message>JSON.parse(content);
+    }
+    catch (e) {
+        // the id of a message that cannot be parsed is not known.
+        send({ jsonrpc: "2.0", id: null, error: { code: ErrorCodes.ParseError, message: String(e && e.message || e) } });
+        return;
+    }
+
+    if (!message || message.method === undefined) {
+        // the server does not send requests, so there are no responses to handle.
+        return;
+    }
+
+    const isRequest = message.id !== undefined;
+    try {
+        if (!isHandled(message.method)) {
+            if (isRequest) {
+                send({ jsonrpc: "2.0", id: message.id, error: { code: ErrorCodes.MethodNotFound, message: `Unhandled method ${message.method}` } });
+            }
+
+            return;
+        }
+
+        const result = handleRequest(message.method, message.params);
+        if (isRequest) {
+            send({ jsonrpc: "2.0", id: message.id, result: result === undefined ? null : result });
+        }
+    }
+    catch (e) {
+        if (isRequest) {
+            send({ jsonrpc: "2.0", id: message.id, error: { code: ErrorCodes.InternalError, message: String(e && e.stack || e) } });
+        }
+    }
+}
+
+function isHandled(method: string): boolean {
+    switch (method) {
+        case "initialize":
+        case "initialized":
+        case "shutdown":
+        case "exit":
+        case "textDocument/didOpen":
+        case "textDocument/didChange":
+        case "textDocument/didClose":
+        case "textDocument/hover":
+        case "textDocument/definition":
+        case "textDocument/references":
+        case "textDocument/rename":
+        case "textDocument/documentSymbol":
+        case "textDocument/completion":
+            return true;
+    }
+
+    return false;
+}
+
+function handleRequest(method: string, params: any): any {
+    switch (method) {
+        case "initialize":
+            return {
+                capabilities: {
+                    textDocumentSync: TextDocumentSyncKind.Full,
+                    hoverProvider: true,
+                    definitionProvider: true,
+                    referencesProvider: true,
+                    renameProvider: true,
+                    documentSymbolProvider: true,
+                    completionProvider: { triggerCharacters: ["[", ",", "+", "~", "?"] }
+                }
+            };
+
+        case "initialized":
+            return undefined;
+
+        case "shutdown":
+            shutdownRequested = true;
+            return undefined;
+
+        case "exit":
+            process.exit(shutdownRequested ? 0 : 1);
+            return undefined;
+
+        case "textDocument/didOpen":
+            service.openDocument(toFile(params.textDocument.uri), params.textDocument.text);
+            publishDiagnostics();
+            return undefined;
+
+        case "textDocument/didChange":
+            const changes = <{ text: string }[]>params.contentChanges;
+            if (changes.length > 0) {
+                service.updateDocument(toFile(params.textDocument.uri), changes[changes.length - 1].text);
+                publishDiagnostics();
+            }
+
+            return undefined;
+
+        case "textDocument/didClose":
+            service.closeDocument(toFile(params.textDocument.uri));
+            send({ jsonrpc: "2.0", method: "textDocument/publishDiagnostics", params: { uri: params.textDocument.uri, diagnostics: [] } });
+            publishDiagnostics();
+            return undefined;
+
+        case "textDocument/hover":
+            const hover = service.getHover(toFile((<TextDocumentPositionParams>params).textDocument.uri), (<TextDocumentPositionParams>params).position);
+            return hover && { contents: { kind: "markdown", value: "```grammarkdown\n" + hover.text + "\n```" }, range: hover.range };
+
+        case "textDocument/definition":
+            return service.getDefinition(toFile((<TextDocumentPositionParams>params).textDocument.uri), (<TextDocumentPositionParams>params).position).map(toLspLocation);
+
+        case "textDocument/references":
+            const includeDeclaration = !params.context || params.context.includeDeclaration !== false;
+            return service.getReferences(toFile((<TextDocumentPositionParams>params).textDocument.uri), (<TextDocumentPositionParams>params).position, includeDeclaration).map(toLspLocation);
+
+        case "textDocument/rename":
+            const edits: { [uri: string]: { range: Range, newText: string }[] } = {};
+            for (const file of service.getRenameChanges(toFile((<TextDocumentPositionParams>params).textDocument.uri), (<TextDocumentPositionParams>params).position, params.newName)) {
+                edits[toUri(file.file)] = file.changes.map(change => ({ range: change.range, newText: change.text }));
+            }
+
+            return { changes: edits };
+
+        case "textDocument/documentSymbol":
+            return service.getDocumentSymbols(toFile(params.textDocument.uri)).map(item => ({
+                name: item.name,
+                kind: item.kind === SymbolKind.Parameter ? LspKind.TypeParameterSymbol : LspKind.FunctionSymbol,
+                containerName: item.containerName,
+                location: toLspLocation(item.location)
+            }));
+
+        case "textDocument/completion":
+            return service.getCompletions(toFile((<TextDocumentPositionParams>params).textDocument.uri), (<TextDocumentPositionParams>params).position).map(entry => ({
+                label: entry.name,
+                kind: entry.kind === SymbolKind.Parameter ? LspKind.TypeParameterCompletion : LspKind.FunctionCompletion,
+                detail: entry.detail
+            }));
+    }
+
+    return undefined;
+}
+
+function publishDiagnostics(): void {
+    for (const file of service.getOpenDocuments()) {
+        const diagnostics = service.getDiagnostics(file).map(info => ({
+            range: info.range,
+            severity: info.warning ? DiagnosticSeverity.Warning : DiagnosticSeverity.Error,
+            code: "GM" + info.code,
+            source: "grammarkdown",
+            message: info.formattedMessage
+        }));
+        send({ jsonrpc: "2.0", method: "textDocument/publishDiagnostics", params: { uri: toUri(file), diagnostics } });
+    }
+}
+
+function toLspLocation(location: Location) {
+    return { uri: toUri(location.file), range: location.range };
+}
+
+/**
+ * Gets the path of a `file:` URI, as the language service reads the files that a document imports from disk.
+ */
+function toFile(uri: string): string {
+    if (!/^file:\/\//.test(uri)) {
+        return uri;
+    }
+
+    const parsed = url.parse(uri);
+    const file = decodeURIComponent(parsed.pathname || "/");
+    if (parsed.hostname) {
+        return `//${parsed.hostname}${file}`;
+    }
+
+    // `file:///c%3A/dev/a.grammar` is `c:/dev/a.grammar`.
+    return /^\/[a-z]:/i.test(file) ? file.substr(1) : file;
+}
+
+/**
+ * Gets the `file:` URI of a path.
+ */
+function toUri(file: string): string {
+    if (!path.isAbsolute(file) && url.parse(file).protocol) {
+        return file;
+    }
+
+    const normalized = file.replace(/\\/g, "/");
+    const prefix = /^\/\//.test(normalized) ? "file:" : /^\//.test(normalized) ? "file://" : "file:///";
+    return prefix + encodeURI(normalized).replace(/[?#]/g, ch => encodeURIComponent(ch));
+}
+
+main();
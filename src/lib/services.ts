@@ -0,0 +1,344 @@
+import { Dictionary, Position, Range } from "./core";
+import { Host } from "./host";
+import { CompilerOptions, getDefaultOptions } from "./options";
+import { DiagnosticInfo } from "./diagnostics";
+import { SyntaxKind } from "./tokens";
+import { SymbolKind } from "./symbols";
+import { FileTextChanges } from "./checker";
+import { Grammar } from "./grammar";
+import { NodeNavigator } from "./navigator";
+import { Node, Identifier, SourceFile, Production, Parameter } from "./nodes";
+
+export interface Location {
+    file: string;
+    range: Range;
+}
+
+export interface HoverInfo {
+    range: Range;
+    /** The source text of the declarations of the symbol. */
+    text: string;
+}
+
+export interface NavigationItem {
+    name: string;
+    kind: SymbolKind;
+    /** The name of the production that declares a parameter. */
+    containerName?: string;
+    location: Location;
+}
+
+export interface CompletionEntry {
+    name: string;
+    kind: SymbolKind;
+    /** The heading of a production, e.g. `Expression[In, Yield]`. */
+    detail?: string;
+}
+
+interface OpenDocument {
+    file: string;
+    text: string;
+}
+
+/**
+ * Provides editor features for a set of open documents, each of which is checked as the root of its own grammar.
+ *
+ * The text of an open document is used in place of the file on disk, including when the document is imported by
+ * another document.
+ */
+export class LanguageService {
+    private options: CompilerOptions;
+    private host: Host;
+    private documents = new Dictionary<OpenDocument>();
+    private grammars = new Dictionary<Grammar>();
+    private oldGrammars = new Dictionary<Grammar>();
+
+    constructor(options: CompilerOptions = getDefaultOptions(), host = Host.getHost()) {
+        this.options = options;
+        this.host = Host.getHost({
+            normalizeFile: file => host.normalizeFile(file),
+            resolveFile: (file, referer) => host.resolveFile(file, referer),
+            readFile: file => {
+                const key = host.normalizeFile(file);
+                return Dictionary.has(this.documents, key) ? Dictionary.get(this.documents, key).text : host.readFile(file);
+            },
+            writeFile: (file, content) => host.writeFile(file, content)
+        });
+    }
+
+    public openDocument(file: string, text: string): void {
+        Dictionary.set(this.documents, this.getKey(file), { file, text });
+        this.invalidate();
+    }
+
+    public updateDocument(file: string, text: string): void {
+        this.openDocument(file, text);
+    }
+
+    public closeDocument(file: string): void {
+        const key = this.getKey(file);
+        Dictionary.delete(this.documents, key);
+        Dictionary.delete(this.oldGrammars, key);
+        this.invalidate();
+    }
+
+    public getOpenDocuments(): string[] {
+        return Dictionary.values(this.documents).map(document => document.file);
+    }
+
+    public getDiagnostics(file: string): DiagnosticInfo[] {
+        const grammar = this.getGrammar(file);
+        const sourceFile = grammar && grammar.getSourceFile(file);
+        return sourceFile ? grammar.diagnostics.getDiagnosticInfosForSourceFile(sourceFile, { formatMessage: true, detailedMessage: false }) : [];
+    }
+
+    public getHover(file: string, position: Position): HoverInfo {
+        const grammar = this.getGrammar(file);
+        const identifier = this.getIdentifierAtPosition(grammar, file, position);
+        if (!identifier) {
+            return undefined;
+        }
+
+        const texts: string[] = [];
+        for (const declaration of grammar.resolver.getDeclarations(identifier)) {
+            if (declaration.kind === SyntaxKind.Production) {
+                const sourceFile = grammar.resolver.getSourceFileOfNode(declaration);
+                texts.push(sourceFile.text.substring(declaration.pos, declaration.end).replace(/\s+$/, ""));
+            }
+            else if (declaration.kind === SyntaxKind.Parameter) {
+                const production = <Production>grammar.resolver.getParent(grammar.resolver.getParent(declaration));
+                texts.push(`(parameter) ${(<Parameter>declaration).name.text} of ${production.name.text}`);
+            }
+        }
+
+        if (texts.length === 0) {
+            return undefined;
+        }
+
+        return { range: getRange(grammar.getSourceFile(file), identifier), text: texts.join("\n\n") };
+    }
+
+    public getDefinition(file: string, position: Position): Location[] {
+        const grammar = this.getGrammar(file);
+        const identifier = this.getIdentifierAtPosition(grammar, file, position);
+        if (!identifier) {
+            return [];
+        }
+
+        const locations: Location[] = [];
+        for (const declaration of grammar.resolver.getDeclarations(identifier)) {
+            if (declaration.kind === SyntaxKind.Production || declaration.kind === SyntaxKind.Parameter) {
+                locations.push(getLocation(grammar.resolver.getSourceFileOfNode(declaration), (<Production | Parameter>declaration).name));
+            }
+        }
+
+        return locations;
+    }
+
+    public getReferences(file: string, position: Position, includeDeclaration = true): Location[] {
+        const grammar = this.getGrammar(file);
+        const identifier = this.getIdentifierAtPosition(grammar, file, position);
+        if (!identifier) {
+            return [];
+        }
+
+        const locations: Location[] = [];
+        for (const reference of grammar.resolver.getReferences(identifier)) {
+            const parent = grammar.resolver.getParent(reference);
+            if (!includeDeclaration && parent && (parent.kind === SyntaxKind.Production || parent.kind === SyntaxKind.Parameter)) {
+                continue;
+            }
+
+            locations.push(getLocation(grammar.resolver.getSourceFileOfNode(reference), reference));
+        }
+
+        return locations;
+    }
+
+    public getRenameChanges(file: string, position: Position, newName: string): FileTextChanges[] {
+        const grammar = this.getGrammar(file);
+        const identifier = this.getIdentifierAtPosition(grammar, file, position);
+        return identifier ? grammar.resolver.getRenameChanges(identifier, newName) : [];
+    }
+
+    public getDocumentSymbols(file: string): NavigationItem[] {
+        const grammar = this.getGrammar(file);
+        const sourceFile = grammar && grammar.getSourceFile(file);
+        if (!sourceFile) {
+            return [];
+        }
+
+        const items: NavigationItem[] = [];
+        for (const element of sourceFile.elements) {
+            if (element.kind !== SyntaxKind.Production) {
+                continue;
+            }
+
+            const production = <Production>element;
+            if (!production.name || !production.name.text) {
+                continue;
+            }
+
+            // the end of a production includes the whitespace that follows it.
+            const end = production.pos + sourceFile.text.substring(production.pos, production.end).replace(/\s+$/, "").length;
+            items.push({
+                name: production.name.text,
+                kind: SymbolKind.Production,
+                location: { file: sourceFile.filename, range: getRange(sourceFile, { pos: production.pos, end }) }
+            });
+
+            for (const parameter of production.parameterList && production.parameterList.elements || []) {
+                if (parameter.name && parameter.name.text) {
+                    items.push({
+                        name: parameter.name.text,
+                        kind: SymbolKind.Parameter,
+                        containerName: production.name.text,
+                        location: getLocation(sourceFile, parameter.name)
+                    });
+                }
+            }
+        }
+
+        return items;
+    }
+
+    public getCompletions(file: string, position: Position): CompletionEntry[] {
+        const grammar = this.getGrammar(file);
+        const sourceFile = grammar && grammar.getSourceFile(file);
+        if (!sourceFile) {
+            return [];
+        }
+
+        // the text of an incomplete argument list or assertion is often not parsed, so the context is found from the text of the line.
+        const offset = sourceFile.lineMap.clampedOffsetAt(position);
+        const lineStart = sourceFile.lineMap.clampedOffsetAt({ line: position.line, character: 0 });
+        const match = /(\w*)\[([\w\s,+~?]*)$/.exec(sourceFile.text.substring(lineStart, offset));
+        if (match) {
+            if (match[1]) {
+                // a production heading at the start of a line declares its parameters, while a nonterminal takes arguments.
+                return match.index === 0 ? [] : this.getParameterCompletions(grammar, match[1]);
+            }
+
+            if (/^\s*[+~]/.test(match[2])) {
+                const production = getProductionAtOffset(sourceFile, offset);
+                return production && production.name ? this.getParameterCompletions(grammar, production.name.text) : [];
+            }
+        }
+
+        const entries: CompletionEntry[] = [];
+        const seen = new Dictionary<boolean>();
+        for (const production of getProductions(grammar)) {
+            if (production.name && production.name.text && !Dictionary.has(seen, production.name.text)) {
+                Dictionary.set(seen, production.name.text, true);
+                entries.push({ name: production.name.text, kind: SymbolKind.Production, detail: getHeading(production) });
+            }
+        }
+
+        return entries;
+    }
+
+    private getParameterCompletions(grammar: Grammar, name: string): CompletionEntry[] {
+        const entries: CompletionEntry[] = [];
+        const seen = new Dictionary<boolean>();
+        for (const production of getProductions(grammar)) {
+            if (!production.name || production.name.text !== name || !production.parameterList) {
+                continue;
+            }
+
+            for (const parameter of production.parameterList.elements || []) {
+                if (parameter.name && parameter.name.text && !Dictionary.has(seen, parameter.name.text)) {
+                    Dictionary.set(seen, parameter.name.text, true);
+                    entries.push({ name: parameter.name.text, kind: SymbolKind.Parameter, detail: getHeading(production) });
+                }
+            }
+        }
+
+        return entries;
+    }
+
+    private getKey(file: string) {
+        return this.host.normalizeFile(this.host.resolveFile(file));
+    }
+
+    private invalidate() {
+        // keep the previous grammars so that unchanged source files are reused.
+        for (const key of Dictionary.keys(this.grammars)) {
+            Dictionary.set(this.oldGrammars, key, Dictionary.get(this.grammars, key));
+        }
+
+        this.grammars = new Dictionary<Grammar>();
+    }
+
+    private getGrammar(file: string): Grammar {
+        const key = this.getKey(file);
+        if (!Dictionary.has(this.documents, key)) {
+            return undefined;
+        }
+
+        let grammar = Dictionary.get(this.grammars, key);
+        if (!grammar) {
+            grammar = new Grammar([file], this.options, this.host, Dictionary.get(this.oldGrammars, key));
+            grammar.check();
+            Dictionary.set(this.grammars, key, grammar);
+            Dictionary.delete(this.oldGrammars, key);
+        }
+
+        return grammar;
+    }
+
+    private getIdentifierAtPosition(grammar: Grammar, file: string, position: Position): Identifier {
+        const sourceFile = grammar && grammar.getSourceFile(file);
+        if (!sourceFile) {
+            return undefined;
+        }
+
+        // a position at the end of an identifier also refers to the identifier.
+        const navigator = new NodeNavigator(sourceFile);
+        if (navigator.moveToPosition(position) && navigator.getKind() === SyntaxKind.Identifier) {
+            return <Identifier>navigator.getNode();
+        }
+
+        if (position.character > 0 && navigator.moveToPosition({ line: position.line, character: position.character - 1 }) && navigator.getKind() === SyntaxKind.Identifier) {
+            return <Identifier>navigator.getNode();
+        }
+
+        return undefined;
+    }
+}
+
+function getProductions(grammar: Grammar): Production[] {
+    const productions: Production[] = [];
+    for (const sourceFile of grammar.sourceFiles) {
+        for (const element of sourceFile.elements) {
+            if (element.kind === SyntaxKind.Production) {
+                productions.push(<Production>element);
+            }
+        }
+    }
+
+    return productions;
+}
+
+function getProductionAtOffset(sourceFile: SourceFile, offset: number): Production {
+    for (const element of sourceFile.elements) {
+        if (element.kind === SyntaxKind.Production && element.pos <= offset && offset <= element.end) {
+            return <Production>element;
+        }
+    }
+
+    return undefined;
+}
+
+function getHeading(production: Production) {
+    const parameters = production.parameterList && production.parameterList.elements || [];
+    const names = parameters.filter(parameter => !!parameter.name).map(parameter => parameter.name.text);
+    return names.length > 0 ? `${production.name.text}[${names.join(", ")}]` : production.name.text;
+}
+
+function getLocation(sourceFile: SourceFile, node: Node): Location {
+    return { file: sourceFile.filename, range: getRange(sourceFile, node) };
+}
+
+function getRange(sourceFile: SourceFile, node: { pos: number, end: number }): Range {
+    return { start: sourceFile.lineMap.positionAt(node.pos), end: sourceFile.lineMap.positionAt(node.end) };
+}
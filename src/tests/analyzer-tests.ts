@@ -0,0 +1,115 @@
+import { Grammar } from "../lib/grammar";
+import { Host } from "../lib/host";
+import { CompilerOptions } from "../lib/options";
+import { TerminalSet, TerminalSymbolKind } from "../lib/analyzer";
+import { assert } from "chai";
+
+describe("Analyzer", () => {
+    const grammarText = `
+Script :
+    StatementList?
+
+StatementList :
+    Statement
+    StatementList Statement
+
+Statement :
+    \`;\`
+    Identifier \`=\` Expression \`;\`
+    [lookahead != \`{\`] Block
+
+Block :
+    \`{\` StatementList? \`}\`
+
+Expression :
+    Identifier Arguments
+    Number
+
+Arguments :
+    [empty]
+    \`(\` \`)\`
+
+Identifier ::
+    IdentifierStart
+    Identifier IdentifierStart
+
+IdentifierStart ::
+    SourceCharacter but not one of \`;\` or \`=\` or LineTerminator
+
+Number ::
+    Digit
+    Number Digit
+
+Digit :: one of
+    \`0\` \`1\` \`2\` \`3\` \`4\` \`5\` \`6\` \`7\` \`8\` \`9\`
+
+LineTerminator ::
+    <LF>
+    <CR>
+
+SourceCharacter ::
+    > any Unicode code point
+`;
+
+    function getGrammar(options: CompilerOptions = {}) {
+        const grammar = new Grammar(["analyzer.grammar"], options, Host.getHost({ readFile(file) { return grammarText; } }));
+        grammar.check(/*sourceFile*/ undefined);
+        return grammar;
+    }
+
+    function getSymbol(grammar: Grammar, name: string) {
+        return grammar.analyzer.getProductionSymbols().filter(symbol => symbol.name === name)[0];
+    }
+
+    function getTexts(set: TerminalSet) {
+        return set.toArray().map(symbol => symbol.text).sort();
+    }
+
+    it("nullable", () => {
+        const grammar = getGrammar();
+        const analyzer = grammar.analyzer;
+        assert.isTrue(analyzer.isNullable(getSymbol(grammar, "Script")));
+        assert.isTrue(analyzer.isNullable(getSymbol(grammar, "Arguments")));
+        assert.isFalse(analyzer.isNullable(getSymbol(grammar, "StatementList")));
+        assert.isFalse(analyzer.isNullable(getSymbol(grammar, "Expression")));
+        assert.isFalse(analyzer.isNullable(getSymbol(grammar, "Digit")));
+    });
+
+    it("first sets", () => {
+        const grammar = getGrammar();
+        const analyzer = grammar.analyzer;
+        assert.deepEqual(getTexts(analyzer.getFirstSet(getSymbol(grammar, "Script"))), ["Identifier", "`;`"]);
+        assert.deepEqual(getTexts(analyzer.getFirstSet(getSymbol(grammar, "Expression"))), ["Identifier", "Number"]);
+        assert.deepEqual(getTexts(analyzer.getFirstSet(getSymbol(grammar, "Number"))), ["`0`", "`1`", "`2`", "`3`", "`4`", "`5`", "`6`", "`7`", "`8`", "`9`"]);
+    });
+
+    it("first sets with exclusions", () => {
+        const grammar = getGrammar();
+        const analyzer = grammar.analyzer;
+        const firstSet = analyzer.getFirstSet(getSymbol(grammar, "IdentifierStart"));
+        assert.deepEqual(firstSet.toArray(), [
+            { kind: TerminalSymbolKind.Prose, text: "> any Unicode code point", excludes: ["`;`", "`=`", "<LF>", "<CR>"] }
+        ]);
+        assert.strictEqual(firstSet.toString(), "{ > any Unicode code point but not one of `;` or `=` or <LF> or <CR> }");
+    });
+
+    it("follow sets", () => {
+        const grammar = getGrammar({ goals: ["Script"] });
+        const analyzer = grammar.analyzer;
+        assert.deepEqual(getTexts(analyzer.getFollowSet(getSymbol(grammar, "Script"))), ["$"]);
+        assert.deepEqual(getTexts(analyzer.getFollowSet(getSymbol(grammar, "StatementList"))), ["$", "Identifier", "`;`", "`}`"]);
+        assert.deepEqual(getTexts(analyzer.getFollowSet(getSymbol(grammar, "Arguments"))), ["`;`"]);
+        assert.deepEqual(getTexts(analyzer.getFollowSet(getSymbol(grammar, "Expression"))), ["`;`"]);
+    });
+
+    it("predict sets", () => {
+        const grammar = getGrammar({ goals: ["Script"] });
+        const analyzer = grammar.analyzer;
+        const statements = analyzer.getRightHandSides(getSymbol(grammar, "Statement"));
+        const args = analyzer.getRightHandSides(getSymbol(grammar, "Arguments"));
+        assert.deepEqual(getTexts(analyzer.getFirstSetOfRightHandSide(statements[2])), []);
+        assert.deepEqual(getTexts(analyzer.getPredictSetOfRightHandSide(args[0])), ["`;`"]);
+        assert.deepEqual(getTexts(analyzer.getPredictSetOfRightHandSide(args[1])), ["`(`"]);
+        assert.deepEqual(analyzer.getLL1Conflicts().map(conflict => conflict.production.name), ["StatementList"]);
+    });
+});
@@ -1,13 +1,20 @@
 import { basename } from "path";
 import { Grammar } from "../lib/grammar";
 import { Host } from "../lib/host";
-import { EmitFormat } from "../lib/options";
+import { CompilerOptions, EmitFormat } from "../lib/options";
+import { Production } from "../lib/nodes";
 import { getGrammarFiles } from "./resources";
 import { writeTokens, writeDiagnostics, writeOutput, compareBaseline } from "./diff";
 import { CancellationTokenSource } from "prex";
 import { assert } from "chai";
 
 describe("Checker", () => {
+    function check(file: string, text: string, options: CompilerOptions = {}) {
+        const grammar = new Grammar([file], options, Host.getHost({ readFile(name) { return text; } }));
+        grammar.check(/*sourceFile*/ undefined);
+        return grammar.diagnostics.getDiagnosticInfos({ formatMessage: true, detailedMessage: false }).map(info => info.formattedMessage);
+    }
+
     defineTests();
 
     it("cancelable", () => {
@@ -19,6 +26,216 @@ describe("Checker", () => {
         assert.throws(() => grammar.check(/*sourceFile*/ undefined));
     });
 
+    it("reports productions unreachable from goals", () => {
+        const text = [
+            "Script :",
+            "    Statement",
+            "    Script Statement",
+            "",
+            "Statement :",
+            "    `a` [lexical goal Token]",
+            "",
+            "Token ::",
+            "    `x`",
+            "",
+            "Unused :",
+            "    Statement"
+        ].join("\n");
+        assert.deepEqual(check("reachability.grammar", text, { goals: ["Script"], checkReachability: true }), ["Production 'Unused' is unreachable from any goal symbol."]);
+        assert.deepEqual(check("reachability.grammar", "@define checkReachability true\n\n" + text, { goals: ["Script"] }), ["Production 'Unused' is unreachable from any goal symbol."]);
+        assert.deepEqual(check("reachability.grammar", text, { goals: ["Script"] }), []);
+    });
+
+    it("reports left-recursive productions", () => {
+        const messages = check("left-recursion.grammar", [
+            "@define checkLeftRecursion true",
+            "",
+            "A :",
+            "    A `+` B",
+            "    B",
+            "",
+            "B :",
+            "    C `y`",
+            "    `z`",
+            "",
+            "C :",
+            "    D B",
+            "",
+            "D :",
+            "    [empty]",
+            "    `d`",
+            "",
+            "Token ::",
+            "    Token `t`",
+            "    `t`"
+        ].join("\n"));
+        assert.deepEqual(messages, [
+            "Production 'A' is left-recursive: A -> A.",
+            "Production 'B' is left-recursive: B -> C -> B."
+        ]);
+    });
+
+    it("reports LL(1) conflicts", () => {
+        const messages = check("ll1.grammar", [
+            "@define checkLL1 true",
+            "",
+            "A :",
+            "    B `x`",
+            "    `b` `y`",
+            "",
+            "B :",
+            "    `b`",
+            "",
+            "S :",
+            "    O `c`",
+            "",
+            "O :",
+            "    `c`",
+            "    [empty]",
+            "",
+            "L :",
+            "    `let` `x`",
+            "    [lookahead != `let`] Name",
+            "",
+            "Name :",
+            "    `let`",
+            "    `n`",
+            "",
+            "P[Yield] :",
+            "    [+Yield] `yield`",
+            "    [~Yield] `yield`"
+        ].join("\n"));
+        assert.deepEqual(messages, [
+            "Production 'A' has an LL(1) conflict between 'B `x`' and '`b` `y`' on `b`.",
+            "Production 'O' has an LL(1) conflict between '`c`' and '[empty]' on `c`."
+        ]);
+    });
+
+    it("reports LALR(1) conflicts", () => {
+        const messages = check("lalr1.grammar", [
+            "@define checkLALR1 true",
+            "",
+            "E :",
+            "    E `+` E",
+            "    `n`",
+            "",
+            "S[A] :",
+            "    [+A] `a`",
+            "    [~A] `a` `b`",
+            "    Statement",
+            "",
+            "Statement :",
+            "    Block",
+            "    [lookahead != `{`] Expression",
+            "",
+            "Block :",
+            "    `{` `}`",
+            "",
+            "Expression :",
+            "    `{` `}`",
+            "    `x`",
+            "",
+            "R :",
+            "    X `q`",
+            "    Y `q`",
+            "",
+            "X :",
+            "    `z`",
+            "",
+            "Y :",
+            "    `z`"
+        ].join("\n"));
+        assert.deepEqual(messages, [
+            "Production 'E' has a shift/reduce conflict with 'E' on `+`, as in '`n` `+` `n` `+`'.",
+            "Production 'X' has a reduce/reduce conflict with 'Y' on `q`, as in '`z` `q`'.",
+            "Production 'Y' has a reduce/reduce conflict with 'X' on `q`, as in '`z` `q`'."
+        ]);
+    });
+
+    it("applies changes to a grammar", () => {
+        const grammar = new Grammar(["changes.grammar"], {}, Host.getHost({
+            readFile(file) {
+                return [
+                    "A :",
+                    "    B",
+                    "",
+                    "B :",
+                    "    `b`",
+                    "",
+                    "C :",
+                    "    `c`"
+                ].join("\n");
+            }
+        }));
+        grammar.check(/*sourceFile*/ undefined);
+        const updated = grammar.applyChanges("changes.grammar", [
+            { range: { start: { line: 4, character: 5 }, end: { line: 4, character: 6 } }, text: "d" },
+            { range: { start: { line: 7, character: 7 }, end: { line: 7, character: 7 } }, text: "\n\nD :\n    `d`" }
+        ]);
+        updated.check(/*sourceFile*/ undefined);
+        const sourceFile = grammar.getSourceFile("changes.grammar");
+        const updatedSourceFile = updated.getSourceFile("changes.grammar");
+        assert.strictEqual(updatedSourceFile.text, "A :\n    B\n\nB :\n    `d`\n\nC :\n    `c`\n\nD :\n    `d`");
+        assert.strictEqual(updatedSourceFile.elements.length, 4);
+        assert.strictEqual(updatedSourceFile.elements[0], sourceFile.elements[0]);
+        assert.deepEqual(updated.diagnostics.getDiagnosticInfos({ formatMessage: true }), []);
+    });
+
+    describe("rename", () => {
+        const mainText = [
+            "@import \"lib.grammar\"",
+            "",
+            "Statement[Yield] :",
+            "    Expression[?Yield] `;`",
+            "    [+Yield] `yield` Expression[~Yield]"
+        ].join("\n");
+        const libText = [
+            "Expression[Yield] :",
+            "    `x`",
+            "    [+Yield] Expression[+Yield] `y`"
+        ].join("\n");
+
+        function getGrammar() {
+            const grammar = new Grammar(["main.grammar"], {}, Host.getHost({
+                readFile(file) { return basename(file) === "lib.grammar" ? libText : mainText; }
+            }));
+            grammar.check(/*sourceFile*/ undefined);
+            return grammar;
+        }
+
+        function applyRename(grammar: Grammar, changes: { file: string, changes: any[] }[]) {
+            for (const file of changes) {
+                grammar = grammar.applyChanges(file.file, file.changes);
+            }
+
+            grammar.check(/*sourceFile*/ undefined);
+            assert.deepEqual(grammar.diagnostics.getDiagnosticInfos({ formatMessage: true }), []);
+            return grammar;
+        }
+
+        it("renames a production in imported files, escaping keywords", () => {
+            const grammar = getGrammar();
+            const production = <Production>grammar.getSourceFile("lib.grammar").elements[0];
+            const changes = grammar.resolver.getRenameChanges(production.name, "but");
+            assert.deepEqual(changes.map(file => basename(file.file)), ["main.grammar", "lib.grammar"]);
+            assert.deepEqual(changes[1].changes.map(change => change.range.start), [{ line: 2, character: 13 }, { line: 0, character: 0 }]);
+            assert.deepEqual(changes[1].changes.map(change => change.text), ["|but|", "|but|"]);
+
+            const renamed = applyRename(grammar, changes);
+            assert.strictEqual(renamed.getSourceFile("main.grammar").text, mainText.replace(/Expression/g, "|but|"));
+            assert.strictEqual(renamed.getSourceFile("lib.grammar").text, libText.replace(/Expression/g, "|but|"));
+        });
+
+        it("renames parameters passed with '?'", () => {
+            const grammar = getGrammar();
+            const production = <Production>grammar.getSourceFile("main.grammar").elements[1];
+            const changes = grammar.resolver.getRenameChanges(production.parameterList.elements[0].name, "Await");
+            const renamed = applyRename(grammar, changes);
+            assert.strictEqual(renamed.getSourceFile("main.grammar").text, mainText.replace(/Yield\b/g, "Await"));
+            assert.strictEqual(renamed.getSourceFile("lib.grammar").text, libText.replace(/Yield\b/g, "Await"));
+        });
+    });
+
     function defineTests() {
         for (let file of getGrammarFiles()) {
             defineTest(basename(file), file);
@@ -0,0 +1,103 @@
+import { readFileSync } from "fs";
+import { basename } from "path";
+import { Grammar } from "../lib/grammar";
+import { Host } from "../lib/host";
+import { EmitFormat } from "../lib/options";
+import { convertEcmarkup } from "../lib/converter";
+import { getGrammarFiles } from "./resources";
+import { assert } from "chai";
+
+describe("Ecmarkup converter", () => {
+    function emitEcmarkup(file: string, text: string) {
+        const grammar = new Grammar([file], { format: EmitFormat.ecmarkup, noChecks: true }, Host.getHost({ readFile(name) { return basename(name) === basename(file) ? text : ""; } }));
+        let output: string;
+        grammar.emit(grammar.rootFiles[0], (_, _output) => output = _output);
+        return output;
+    }
+
+    function getMessages(html: string) {
+        const messages: string[] = [];
+        convertEcmarkup(html, "spec.html").diagnostics.forEach(message => messages.push(message));
+        return messages;
+    }
+
+    for (const file of getGrammarFiles()) {
+        it(`converts the ecmarkup output of ${basename(file)} back to the same grammar`, () => {
+            const html = emitEcmarkup(file, readFileSync(file, "utf8"));
+            const result = convertEcmarkup(html, basename(file) + ".emu.html");
+            assert.equal(result.diagnostics.count(), 0);
+
+            // the terminals of a `one of` list are separated by spaces, so a terminal that starts with a space, such
+            // as ` ::` in es6.grammar, cannot be told apart from one that does not.
+            assert.equal(emitEcmarkup("converted.grammar", result.text).replace(/ +/g, " "), html.replace(/ +/g, " "));
+        });
+    }
+
+    it("converts a production as ecmarkup renders it", () => {
+        const html = [
+            `<emu-grammar type="definition">`,
+            `  <emu-production name="ReturnStatement" params="Yield, Await" id="prod-ReturnStatement">`,
+            `    <emu-nt params="Yield, Await"><a href="#prod-ReturnStatement">ReturnStatement</a><emu-mods><emu-params>[Yield, Await]</emu-params></emu-mods></emu-nt>`,
+            `    <emu-geq>:</emu-geq>`,
+            `    <emu-rhs a="c8a2e5b1"><emu-t>return</emu-t> <emu-t>;</emu-t></emu-rhs>`,
+            `    <emu-rhs a="5d1f0b3c" constraints="+Await"><emu-constraints>[+Await]</emu-constraints><emu-t>return</emu-t> <emu-gann>[no <emu-nt><a href="#prod-LineTerminator">LineTerminator</a></emu-nt> here]</emu-gann> <emu-nt params="+In" optional>Expression<emu-mods><emu-params>[+In]</emu-params><emu-opt>opt</emu-opt></emu-mods></emu-nt> <emu-t>;</emu-t></emu-rhs>`,
+            `  </emu-production>`,
+            `</emu-grammar>`,
+            `<emu-grammar type="definition">`,
+            `  <emu-production name="Sign" type="lexical" oneof>`,
+            `    <emu-nt>Sign</emu-nt><emu-geq>::</emu-geq><emu-oneof>one of</emu-oneof>`,
+            `    <emu-rhs><emu-t>+</emu-t> <emu-t>-</emu-t> <del><emu-t>&amp;</emu-t></del></emu-rhs>`,
+            `  </emu-production>`,
+            `</emu-grammar>`
+        ].join("\n");
+
+        assert.deepEqual(getMessages(html), []);
+        assert.equal(convertEcmarkup(html).text, [
+            "ReturnStatement[Yield, Await] :",
+            "\t`return` `;`",
+            "\t[+Await] `return` [no LineTerminator here] Expression[+In]? `;`",
+            "",
+            "Sign :: one of",
+            "\t`+` `-` <del>`&`</del>",
+            ""
+        ].join("\n"));
+    });
+
+    it("copies the grammarkdown of a spec source and skips grammars that only refer to productions", () => {
+        const html = [
+            `<!doctype html>`,
+            `<p>The white space characters are:`,
+            `<emu-grammar type="definition">`,
+            `  WhiteSpace ::`,
+            `    <TAB>`,
+            `    <ZWNBSP>`,
+            `</emu-grammar>`,
+            `<emu-grammar>WhiteSpace :: &lt;TAB&gt;</emu-grammar>`,
+            `<emu-grammar type="example">Example : A B</emu-grammar>`,
+            `<script>var grammar = "<emu-production name='Script'>";</script>`
+        ].join("\n");
+
+        assert.equal(convertEcmarkup(html).text, [
+            "WhiteSpace ::",
+            "  <TAB>",
+            "  <ZWNBSP>",
+            ""
+        ].join("\n"));
+    });
+
+    it("reports elements that cannot be converted", () => {
+        const html = [
+            `<emu-rhs><emu-nt>A</emu-nt></emu-rhs>`,
+            `<emu-production><emu-rhs><emu-nt>A</emu-nt></emu-rhs></emu-production>`,
+            `<emu-production name="B" collapsed><emu-rhs><emu-t>a\`b</emu-t> <emu-nt>A</emu-nt> <emu-note>note</emu-note></emu-rhs></emu-production>`
+        ].join("\n");
+
+        assert.equal(convertEcmarkup(html).text, "B : A\n");
+        assert.deepEqual(getMessages(html), [
+            "spec.html(1,1): warning GM3007: '<emu-rhs>' is not part of a production and was skipped.",
+            "spec.html(2,1): warning GM3008: '<emu-production>' has no name and was skipped.",
+            "spec.html(3,45): warning GM3002: 'a`b' cannot be expressed in grammarkdown and was omitted.",
+            "spec.html(3,83): warning GM3002: '<emu-note>' cannot be expressed in grammarkdown and was omitted."
+        ]);
+    });
+});
@@ -0,0 +1,103 @@
+import { Grammar } from "../lib/grammar";
+import { Host } from "../lib/host";
+import { CoverageEmitter } from "../lib/emitter/coverage";
+import { assert } from "chai";
+
+describe("Coverage", () => {
+    const grammarText = [
+        "Script :",
+        "    StatementList?",
+        "",
+        "StatementList :",
+        "    Statement",
+        "    StatementList Statement",
+        "",
+        "Statement :",
+        "    `var` Identifier Initializer? `;`",
+        "    `print` Operand `;`",
+        "",
+        "Initializer :",
+        "    `=` Operand",
+        "",
+        "Operand :",
+        "    Identifier",
+        "    Literal",
+        "",
+        "Literal :: one of",
+        "    `true` `false` `null`",
+        "",
+        "Identifier :: one of",
+        "    `x` `y` `z`",
+        ""
+    ].join("\n");
+
+    function getGrammar() {
+        const grammar = new Grammar(["coverage.grammar"], {}, Host.getHost({ readFile(file) { return grammarText; } }));
+        grammar.check(/*sourceFile*/ undefined);
+        return grammar;
+    }
+
+    it("counts the right-hand sides, one of entries and optional symbols matched by inputs", () => {
+        const coverage = getGrammar().createCoverage("Script");
+        assert.isUndefined(coverage.addInput("var x = true; print y;").error);
+        assert.isUndefined(coverage.addInput("var z;").error);
+        const summary = coverage.getSummary();
+        const counts: { [id: string]: number } = {};
+        for (const item of summary.items) {
+            counts[`${item.kind} ${item.production} ${item.text}`] = item.count;
+        }
+
+        assert.deepEqual(counts, {
+            "rightHandSide Script StatementList?": 2,
+            "optional Script StatementList?": 2,
+            "rightHandSide StatementList Statement": 2,
+            "rightHandSide StatementList StatementList Statement": 1,
+            "rightHandSide Statement `var` Identifier Initializer? `;`": 2,
+            "optional Statement Initializer?": 1,
+            "rightHandSide Statement `print` Operand `;`": 1,
+            "rightHandSide Initializer `=` Operand": 1,
+            "rightHandSide Operand Identifier": 1,
+            "rightHandSide Operand Literal": 1,
+            "oneOf Literal `true`": 1,
+            "oneOf Literal `false`": 0,
+            "oneOf Literal `null`": 0,
+            "oneOf Identifier `x`": 1,
+            "oneOf Identifier `y`": 1,
+            "oneOf Identifier `z`": 1
+        });
+        assert.deepEqual(summary.rightHandSides, { total: 8, covered: 8 });
+        assert.deepEqual(summary.oneOf, { total: 6, covered: 4 });
+        assert.deepEqual(summary.optional, { total: 2, covered: 2 });
+    });
+
+    it("identifies items by the link id of their right-hand side", () => {
+        const grammar = getGrammar();
+        const summary = grammar.createCoverage("Script").getSummary();
+        const items = summary.items.filter(item => item.production === "Statement");
+        assert.match(items[0].id, /^Statement-[0-9a-f]{8}$/);
+        assert.strictEqual(items[1].id, `${items[0].id}:2`);
+        assert.strictEqual(items[1].line, 8);
+        assert.include(summary.items.map(item => item.id), "Literal:null");
+    });
+
+    it("does not count inputs that cannot be parsed", () => {
+        const coverage = getGrammar().createCoverage("Script");
+        assert.isDefined(coverage.addInput("print ;").error);
+        const summary = coverage.getSummary();
+        assert.strictEqual(summary.inputs, 1);
+        assert.strictEqual(summary.errors, 1);
+        assert.strictEqual(summary.rightHandSides.covered, 0);
+    });
+
+    it("emits the grammar annotated with its coverage", () => {
+        const grammar = getGrammar();
+        const coverage = grammar.createCoverage("Script");
+        coverage.addInput("print null;");
+        let output: string;
+        new CoverageEmitter({}, grammar.resolver, grammar.diagnostics, coverage).emit(grammar.rootFiles[0], (file, text) => output = text);
+        assert.match(output, /<div class="rhs covered" id="Statement-[0-9a-f]{8}"><code class="terminal">print<\/code>/);
+        assert.match(output, /<div class="rhs uncovered" id="Statement-[0-9a-f]{8}"><code class="terminal">var<\/code>/);
+        assert.include(output, `<code class="terminal uncovered">true</code>`);
+        assert.include(output, `<code class="terminal covered">null</code>`);
+    });
+});
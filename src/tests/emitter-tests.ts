@@ -1,13 +1,34 @@
 import { basename } from "path";
 import { Grammar } from "../lib/grammar";
 import { Host } from "../lib/host";
-import { EmitFormat } from "../lib/options";
+import { CompilerOptions, EmitFormat, EbnfDialect } from "../lib/options";
+import { SyntaxKind } from "../lib/tokens";
+import { serializeSourceFile, deserializeSourceFile } from "../lib/serializer";
 import { getGrammarFiles } from "./resources";
 import { writeTokens, writeDiagnostics, writeOutput, compareBaseline } from "./diff";
 import { CancellationTokenSource } from "prex";
 import { assert } from "chai";
 
 describe("Emitter", () => {
+    function emit(file: string, text: string, options: CompilerOptions) {
+        let output: string;
+        const grammar = new Grammar([file], options, Host.getHost({ readFile(name) { return text; } }));
+        grammar.emit(/*sourceFile*/ undefined, (_, _output) => output = _output);
+        const messages: string[] = [];
+        grammar.diagnostics.forEach(message => messages.push(message));
+        return { output, messages, grammar };
+    }
+
+    function emitChanges(baseText: string, text: string, options: CompilerOptions) {
+        let output: string;
+        const baseGrammar = new Grammar(["base.grammar"], options, Host.getHost({ readFile(name) { return baseText; } }));
+        const grammar = new Grammar(["proposal.grammar"], options, Host.getHost({ readFile(name) { return text; } }));
+        grammar.emitChanges(baseGrammar, /*sourceFile*/ undefined, (_, _output) => output = _output);
+        const messages: string[] = [];
+        grammar.diagnostics.forEach(message => messages.push(message));
+        return { output, messages, grammar };
+    }
+
     defineTests();
 
     it("cancelable", () => {
@@ -21,10 +42,726 @@ describe("Emitter", () => {
         assert.throws(() => grammar.emit(/*sourceFile*/ undefined));
     });
 
+    describe("grammarkdown", () => {
+        function format(text: string) {
+            return emit("format.grammar", text, { format: EmitFormat.grammarkdown, noChecks: true });
+        }
+
+        it("writes a canonical layout", () => {
+            const { output, messages } = format([
+                "// comment",
+                "A( In , Yield )  :   B[ +In , ?Yield ]   `c`?  // trailing",
+                "B[In, Yield] :",
+                "  [lookahead  !=  {`a` `b`,`c`}]   <ins>`d`</ins>",
+                "  /* own line */",
+                "  [+In]  `in`",
+                "C :: one of",
+                "    `a`  `bb`",
+                "    `ccc` `d`",
+                ""
+            ].join("\n"));
+            assert.deepEqual(messages, []);
+            assert.strictEqual(output, [
+                "// comment",
+                "A(In, Yield) : B[+In, ?Yield] `c`? // trailing",
+                "",
+                "B[In, Yield] :",
+                "\t[lookahead != { `a` `b`, `c` }] <ins>`d`</ins>",
+                "\t/* own line */",
+                "\t[+In] `in`",
+                "",
+                "C :: one of",
+                "\t`a`   `bb`",
+                "\t`ccc` `d`",
+                ""
+            ].join("\n"));
+            assert.strictEqual(format(output).output, output);
+        });
+
+        it("writes a file with syntax errors unchanged", () => {
+            const text = "A  :  `a`\n) B\n";
+            const { output, messages } = format(text);
+            assert.strictEqual(output, text);
+            assert.match(messages.join("\n"), /GM3000: Cannot format '.*format\.grammar' because it contains syntax errors\./);
+        });
+    });
+
+    describe("railroad", () => {
+        it("draws a diagram for each production", () => {
+            const { output } = emit("railroad.grammar", [
+                "A :",
+                "    `a` B?",
+                "    [lookahead != `b`] A",
+                "",
+                "B :",
+                "    > any text",
+                ""
+            ].join("\n"), { format: EmitFormat.railroad });
+            assert.match(output, /^<\?xml version="1\.0" encoding="utf-8"\?>/);
+            assert.match(output, /<g class="production" id="A"[^>]*>\s*<text class="title"[^>]*>A :<\/text>/);
+            assert.match(output, /<g class="production" id="B"/);
+            assert.match(output, /<g class="terminal"><rect[^>]*\/><text[^>]*>a<\/text><\/g>/);
+            assert.match(output, /<g class="assertion"><rect[^>]*\/><text[^>]*>\[lookahead ≠ `b`\]<\/text><\/g>/);
+            assert.match(output, /<g class="prose"><rect[^>]*\/><text[^>]*>any text<\/text><\/g>/);
+            // a nonterminal links to the diagram of its production, including a recursive reference.
+            assert.match(output, /<a xlink:href="#A"><g class="nonterminal">/);
+            assert.match(output, /<a xlink:href="#B"><g class="nonterminal">/);
+        });
+
+        it("draws an optional symbol as a bypass", () => {
+            const { output } = emit("railroad.grammar", "A : `a`?\n", { format: EmitFormat.railroad });
+            // the line continues past the terminal, which is drawn on a branch below it.
+            assert.match(output, /<path d="M30 40h20"\/>\s*<path d="M50 40h48"\/>\s*<path d="M30 40a10 10 0 0 1 10 10v1a10 10 0 0 0 10 10"\/>\s*<g class="terminal"><rect x="50" y="50"/);
+        });
+    });
+
+    describe("antlr4", () => {
+        it("translates parser and lexer rules", () => {
+            const { output, messages } = emit("antlr.grammar", [
+                "Statement :",
+                "    Expression[+In] `;`",
+                "    [lookahead != `{`] Identifier",
+                "",
+                "Expression[In] :",
+                "    Identifier",
+                "    [+In] Expression[?In] `in` Identifier",
+                "",
+                "Identifier :",
+                "    IdentifierName but not Keyword",
+                "",
+                "IdentifierName ::",
+                "    Letter",
+                "    IdentifierName Letter",
+                "",
+                "Letter ::",
+                "    SourceCharacter but not one of U+0000 through U+0040 or `'` or <LF>",
+                "",
+                "Keyword :: one of",
+                "    `in`",
+                "",
+                "WhiteSpace ::",
+                "    <SP>",
+                "",
+                "SourceCharacter ::",
+                "    > any Unicode code point",
+                ""
+            ].join("\n"), { format: EmitFormat.antlr4, trivia: ["WhiteSpace"] });
+            assert.strictEqual(output.replace(/\r\n/g, "\n"), [
+                "grammar antlr;",
+                "",
+                "statement",
+                "    : expression_In ';'",
+                "    | identifier",
+                "    ;",
+                "",
+                "expression_In",
+                "    : identifier",
+                "    | expression_In 'in' identifier",
+                "    ;",
+                "",
+                "identifier",
+                "    : IdentifierName",
+                "    ;",
+                "",
+                "IdentifierName",
+                "    : ( Letter ) ( Letter )*",
+                "    ;",
+                "",
+                "fragment Letter",
+                "    : ~[\\u0000-@]",
+                "    ;",
+                "",
+                "fragment Keyword",
+                "    : 'in'",
+                "    ;",
+                "",
+                "WhiteSpace",
+                "    : ' ' -> skip",
+                "    ;",
+                "",
+                "fragment SourceCharacter",
+                "    : .",
+                "    ;"
+            ].join("\n"));
+            assert.deepEqual(messages.map(message => message.replace(/^.*antlr\.grammar/, "")), [
+                "(1,1): warning GM3002: '[lookahead != `{`]' cannot be expressed in ANTLR 4 and was omitted.",
+                "(9,1): warning GM3002: 'but not Keyword' cannot be expressed in ANTLR 4 and was omitted."
+            ]);
+        });
+
+        it("leaves out an alternative whose symbols are all omitted", () => {
+            const { output, messages } = emit("antlr.grammar", [
+                "Expression :",
+                "    Identifier",
+                "    > any other expression",
+                "    [empty]",
+                "",
+                "Identifier ::",
+                "    `x`",
+                ""
+            ].join("\n"), { format: EmitFormat.antlr4 });
+            assert.strictEqual(output.replace(/\r\n/g, "\n"), [
+                "grammar antlr;",
+                "",
+                "expression",
+                "    : Identifier",
+                "    |",
+                "    ;",
+                "",
+                "Identifier",
+                "    : 'x'",
+                "    ;"
+            ].join("\n"));
+            assert.deepEqual(messages.map(message => message.replace(/^.*antlr\.grammar/, "")), [
+                "(1,1): warning GM3002: '> any other expression' cannot be expressed in ANTLR 4 and was omitted."
+            ]);
+        });
+    });
+
+    describe("tree-sitter", () => {
+        it("translates rules, tokens and conflicts", () => {
+            const { output, messages } = emit("tree-sitter.grammar", [
+                "Statement :",
+                "    `if` `(` Expression[+In] `)` Statement",
+                "    `if` `(` Expression[+In] `)` Statement `else` Statement",
+                "    [lookahead != `{`] Expression[~In] `;`",
+                "",
+                "Expression[In] :",
+                "    Identifier",
+                "    [+In] Expression[?In] `in` Identifier",
+                "    Operator Identifier?",
+                "",
+                "Operator : one of",
+                "    `+` `-`",
+                "",
+                "Identifier ::",
+                "    Letter Identifier?",
+                "",
+                "Letter ::",
+                "    SourceCharacter but not one of U+0000 through U+0060 or `/`",
+                "",
+                "WhiteSpace ::",
+                "    <SP>",
+                "",
+                "SourceCharacter ::",
+                "    > any Unicode code point",
+                ""
+            ].join("\n"), { format: EmitFormat.treesitter, trivia: ["WhiteSpace"] });
+            assert.strictEqual(output.replace(/\r\n/g, "\n"), [
+                "module.exports = grammar({",
+                "    name: \"tree_sitter\",",
+                "",
+                "    extras: $ => [",
+                "        $.white_space",
+                "    ],",
+                "",
+                "    conflicts: $ => [",
+                "        [$.statement]",
+                "    ],",
+                "",
+                "    rules: {",
+                "        statement: $ => choice(",
+                "            seq(\"if\", \"(\", $.expression_in, \")\", $.statement),",
+                "            seq(\"if\", \"(\", $.expression_in, \")\", $.statement, \"else\", $.statement),",
+                "            seq($.expression, \";\")",
+                "        ),",
+                "",
+                "        expression: $ => choice(",
+                "            $.identifier,",
+                "            seq($.operator, optional($.identifier))",
+                "        ),",
+                "",
+                "        expression_in: $ => choice(",
+                "            $.identifier,",
+                "            seq($.expression_in, \"in\", $.identifier),",
+                "            seq($.operator, optional($.identifier))",
+                "        ),",
+                "",
+                "        operator: $ => choice(",
+                "            \"+\",",
+                "            \"-\"",
+                "        ),",
+                "",
+                "        identifier: $ => token(seq(repeat(/[^\\u0000-`]/), /[^\\u0000-`]/)),",
+                "",
+                "        white_space: $ => \" \"",
+                "    }",
+                "});"
+            ].join("\n"));
+            assert.deepEqual(messages.map(message => message.replace(/^.*tree-sitter\.grammar/, "")), [
+                "(1,1): warning GM3002: '[lookahead != `{`]' cannot be expressed in tree-sitter and was omitted."
+            ]);
+        });
+
+        it("starts from the first goal", () => {
+            const text = [
+                "Identifier :",
+                "    `x`",
+                "",
+                "Script :",
+                "    Identifier `;`",
+                ""
+            ].join("\n");
+            assert.include(emit("tree-sitter.grammar", text, { format: EmitFormat.treesitter }).output.replace(/\r\n/g, "\n"), "rules: {\n        identifier: $ => \"x\",\n");
+            assert.include(emit("tree-sitter.grammar", text, { format: EmitFormat.treesitter, goals: ["Script"] }).output.replace(/\r\n/g, "\n"), "rules: {\n        script: $ => seq($.identifier, \";\"),\n");
+        });
+
+        it("leaves out an alternative whose symbols are all omitted", () => {
+            const { output, messages } = emit("tree-sitter.grammar", [
+                "Expression :",
+                "    Identifier",
+                "    > any other expression",
+                "    [empty]",
+                "",
+                "Identifier ::",
+                "    `x`",
+                ""
+            ].join("\n"), { format: EmitFormat.treesitter });
+            assert.include(output.replace(/\r\n/g, "\n"), "expression: $ => choice(\n            $.identifier,\n            blank()\n        ),\n");
+            assert.deepEqual(messages.map(message => message.replace(/^.*tree-sitter\.grammar/, "")), [
+                "(1,1): warning GM3002: '> any other expression' cannot be expressed in tree-sitter and was omitted."
+            ]);
+        });
+    });
+
+    describe("ebnf", () => {
+        const text = [
+            "Statement :",
+            "    Expression[+In] `;`",
+            "    [lookahead != `{`] Identifier?",
+            "",
+            "Expression[In] :",
+            "    [empty]",
+            "    [+In] Identifier `in` Identifier",
+            "",
+            "Identifier ::",
+            "    Letter but not one of `a` or U+0062",
+            "",
+            "Letter ::",
+            "    > any Unicode code point with the Unicode property \"ID_Start\"",
+            "    <LF>",
+            ""
+        ].join("\n");
+
+        it("emits W3C EBNF", () => {
+            const { output } = emit("ebnf.grammar", text, { format: EmitFormat.ebnf, ebnfDialect: EbnfDialect.w3c });
+            assert.strictEqual(output.replace(/\r\n/g, "\n"), [
+                "Statement ::= Expression_In ';'",
+                "            | /* [lookahead != `{`] */ Identifier?",
+                "",
+                "Expression_In ::= ( Identifier 'in' Identifier )?",
+                "",
+                "Identifier ::= Letter - ( 'a' | #x0062 )",
+                "",
+                "Letter ::= /* any Unicode code point with the Unicode property \"ID_Start\" */",
+                "         | #x000A"
+            ].join("\n"));
+        });
+
+        it("emits ISO EBNF", () => {
+            const { output } = emit("ebnf.grammar", text, { format: EmitFormat.ebnf, ebnfDialect: EbnfDialect.iso });
+            assert.strictEqual(output.replace(/\r\n/g, "\n"), [
+                "Statement = Expression_In, ';'",
+                "          | (* [lookahead != `{`] *) [ Identifier ];",
+                "",
+                "Expression_In = [ Identifier, 'in', Identifier ];",
+                "",
+                "Identifier = Letter - ( 'a' | ? #x0062 ? );",
+                "",
+                "Letter = ? any Unicode code point with the Unicode property \"ID_Start\" ?",
+                "       | ? #x000A ?;"
+            ].join("\n"));
+        });
+    });
+
+    describe("peg", () => {
+        it("translates choices and predicates", () => {
+            const { output, messages } = emit("peg.grammar", [
+                "Statement :",
+                "    `if` `(` Expression[+In] `)` Statement",
+                "    `if` `(` Expression[+In] `)` Statement `else` Statement",
+                "    [lookahead != `{`] Expression[~In] [no LineTerminator here] `;`",
+                "",
+                "Expression[In] :",
+                "    Identifier",
+                "    [+In] Expression[?In] `in` Identifier",
+                "",
+                "Identifier :",
+                "    IdentifierName but not Keyword",
+                "",
+                "IdentifierName ::",
+                "    Letter",
+                "    IdentifierName Letter",
+                "",
+                "Keyword :: one of",
+                "    `if` `in`",
+                "",
+                "Letter ::",
+                "    SourceCharacter but not one of U+0000 through U+0060 or `{`",
+                "",
+                "LineTerminator ::",
+                "    <LF>",
+                "",
+                "WhiteSpace ::",
+                "    <SP>",
+                "",
+                "SourceCharacter ::",
+                "    > any Unicode code point",
+                ""
+            ].join("\n"), { format: EmitFormat.peg, trivia: ["WhiteSpace"] });
+            assert.strictEqual(output.replace(/\r\n/g, "\n"), [
+                "start",
+                "    = _ Statement",
+                "",
+                "_",
+                "    = WhiteSpace*",
+                "",
+                "Statement",
+                "    = \"if\" _ \"(\" _ Expression_In \")\" _ Statement",
+                "    / \"if\" _ \"(\" _ Expression_In \")\" _ Statement \"else\" _ Statement",
+                "    / !\"{\" Expression \";\" _",
+                "",
+                "Expression",
+                "    = Identifier",
+                "",
+                "Expression_In",
+                "    = Identifier (\"in\" _ Identifier)*",
+                "",
+                "Identifier",
+                "    = !Keyword IdentifierName _",
+                "",
+                "IdentifierName",
+                "    = Letter Letter*",
+                "",
+                "Keyword",
+                "    = \"if\"",
+                "    / \"in\"",
+                "",
+                "Letter",
+                "    = !([\\u0000-`] / \"{\") SourceCharacter",
+                "",
+                "LineTerminator",
+                "    = \"\\n\"",
+                "",
+                "WhiteSpace",
+                "    = \" \"",
+                "",
+                "SourceCharacter",
+                "    = ."
+            ].join("\n"));
+            assert.deepEqual(messages.map(message => message.replace(/^.*peg\.grammar/, "")), [
+                "(1,1): warning GM3002: '[no LineTerminator here]' cannot be expressed in a PEG and was omitted.",
+                "(2,5): warning GM3003: '`if` `(` Expression_In `)` Statement' matches a prefix of the later alternative '`if` `(` Expression_In `)` Statement `else` Statement', which an ordered choice will not try."
+            ]);
+        });
+
+        it("starts from the first goal", () => {
+            const text = [
+                "Identifier :",
+                "    `x`",
+                "",
+                "Script :",
+                "    Identifier `;`",
+                ""
+            ].join("\n");
+            assert.include(emit("peg.grammar", text, { format: EmitFormat.peg }).output.replace(/\r\n/g, "\n"), "start\n    = _ Identifier\n");
+            assert.include(emit("peg.grammar", text, { format: EmitFormat.peg, goals: ["Script"] }).output.replace(/\r\n/g, "\n"), "start\n    = _ Script\n");
+        });
+
+        it("omits left recursion it cannot rewrite and repetitions of the empty string", () => {
+            const { output, messages } = emit("peg.grammar", [
+                "A :",
+                "    B `a`",
+                "    `x`",
+                "",
+                "B :",
+                "    C `b`",
+                "",
+                "C :",
+                "    A `c`",
+                "    `y`",
+                "",
+                "List :",
+                "    Item",
+                "    List Item",
+                "",
+                "Item :",
+                "    [empty]",
+                "    `z`",
+                ""
+            ].join("\n"), { format: EmitFormat.peg });
+            assert.strictEqual(output.replace(/\r\n/g, "\n"), [
+                "start",
+                "    = _ A",
+                "",
+                "_",
+                "    = [ \\t\\n\\r]*",
+                "",
+                "A",
+                "    = \"x\" _",
+                "",
+                "B",
+                "    = C \"b\" _",
+                "",
+                "C",
+                "    = A \"c\" _",
+                "    / \"y\" _",
+                "",
+                "List",
+                "    = Item",
+                "",
+                "Item",
+                "    = \"\"",
+                "    / \"z\" _"
+            ].join("\n"));
+            assert.deepEqual(messages.filter(message => /GM300[45]/.test(message)).map(message => message.replace(/^.*peg\.grammar/, "")), [
+                "(2,5): warning GM3004: 'B `a`' is left-recursive through A -> B -> C -> A, which a PEG cannot parse, and was omitted.",
+                "(14,5): warning GM3005: 'List Item' would repeat 'Item', which can match the empty string, and was omitted."
+            ]);
+        });
+    });
+
+    describe("bison", () => {
+        it("translates syntactic productions, tokens and optional symbols", () => {
+            const { output, messages } = emit("bison.grammar", [
+                "Script :",
+                "    StatementList?",
+                "",
+                "StatementList :",
+                "    Statement",
+                "    StatementList Statement",
+                "",
+                "Statement :",
+                "    `var` Identifier `=` Expression[+In] `;`",
+                "    [lookahead != `{`] Expression[+In] `;`",
+                "    `{` StatementList? `}`",
+                "",
+                "Expression[In] :",
+                "    Identifier",
+                "    [+In] Expression[?In] `in` Identifier",
+                "    Expression[?In] `=>` Identifier?",
+                "",
+                "Identifier :",
+                "    IdentifierName but not `in`",
+                "",
+                "IdentifierName ::",
+                "    Letter",
+                "    IdentifierName Letter",
+                "",
+                "Letter ::",
+                "    > any Unicode code point",
+                ""
+            ].join("\n"), { format: EmitFormat.bison });
+            assert.strictEqual(output.replace(/\r\n/g, "\n"), [
+                "%token VAR \"var\"",
+                "%token EQUALS \"=\"",
+                "%token SEMICOLON \";\"",
+                "%token LBRACE \"{\"",
+                "%token RBRACE \"}\"",
+                "%token IN \"in\"",
+                "%token EQUALS_GREATER \"=>\"",
+                "%token IdentifierName",
+                "",
+                "%start Script",
+                "",
+                "%%",
+                "",
+                "Script",
+                "    : StatementList_opt",
+                "    ;",
+                "",
+                "StatementList",
+                "    : Statement",
+                "    | StatementList Statement",
+                "    ;",
+                "",
+                "Statement",
+                "    : \"var\" Identifier \"=\" Expression_In \";\"",
+                "    | Expression_In \";\"",
+                "    | \"{\" StatementList_opt \"}\"",
+                "    ;",
+                "",
+                "Expression_In",
+                "    : Identifier",
+                "    | Expression_In \"in\" Identifier",
+                "    | Expression_In \"=>\" Identifier_opt",
+                "    ;",
+                "",
+                "Identifier",
+                "    : IdentifierName",
+                "    ;",
+                "",
+                "StatementList_opt",
+                "    : /* empty */",
+                "    | StatementList",
+                "    ;",
+                "",
+                "Identifier_opt",
+                "    : /* empty */",
+                "    | Identifier",
+                "    ;"
+            ].join("\n"));
+            assert.deepEqual(messages.map(message => message.replace(/^.*bison\.grammar/, "")), [
+                "(8,1): warning GM3002: '[lookahead != `{`]' cannot be expressed in Bison and was omitted.",
+                "(18,1): warning GM3002: 'but not `in`' cannot be expressed in Bison and was omitted."
+            ]);
+        });
+    });
+
+    describe("json", () => {
+        it("emits the syntax tree", () => {
+            const { output, grammar } = emit("json.grammar", "A : `a`", { format: EmitFormat.json });
+            assert.deepEqual(JSON.parse(output), serializeSourceFile(grammar.rootFiles[0]));
+            assert.strictEqual(deserializeSourceFile(output).elements[0].kind, SyntaxKind.Production);
+        });
+    });
+
+    describe("changes", () => {
+        const baseText = [
+            "Statement :",
+            "    `var` Identifier Initializer `;`",
+            "    `do` Statement `while` Expression",
+            "    `;`",
+            "",
+            "Identifier :: one of `x` `y` `z`",
+            "",
+            "Initializer : `=` Expression",
+            "",
+            "Expression : Identifier",
+            ""
+        ].join("\n");
+
+        const text = [
+            "Statement :",
+            "    `var` Identifier Initializer? `;`",
+            "    `while` Identifier Statement",
+            "",
+            "Identifier :: one of `x` `y` `w`",
+            "",
+            "Initializer : `=` Identifier",
+            ""
+        ].join("\n");
+
+        it("marks inserted and deleted alternatives and symbols in ecmarkup", () => {
+            const { output, messages } = emitChanges(baseText, text, { format: EmitFormat.ecmarkup });
+            assert.deepEqual(messages, []);
+            assert.strictEqual(output.replace(/\r\n/g, "\n"), [
+                "<emu-production name=\"Statement\">",
+                "    <emu-rhs a=\"7d87cfd2\">",
+                "        <emu-t>var</emu-t>",
+                "        <emu-nt>Identifier</emu-nt>",
+                "        <del><emu-nt>Initializer</emu-nt></del>",
+                "        <ins><emu-nt optional>Initializer</emu-nt></ins>",
+                "        <emu-t>;</emu-t>",
+                "    </emu-rhs>",
+                "    <del><emu-rhs a=\"e1b2e868\">",
+                "        <emu-t>do</emu-t>",
+                "        <emu-nt>Statement</emu-nt>",
+                "        <emu-t>while</emu-t>",
+                "        <emu-nt>Expression</emu-nt>",
+                "    </emu-rhs></del>",
+                "    <del><emu-rhs a=\"4a0dac03\"><emu-t>;</emu-t></emu-rhs></del>",
+                "    <ins><emu-rhs a=\"a553134d\">",
+                "        <emu-t>while</emu-t>",
+                "        <emu-nt>Identifier</emu-nt>",
+                "        <emu-nt>Statement</emu-nt>",
+                "    </emu-rhs></ins>",
+                "</emu-production>",
+                "<emu-production name=\"Identifier\" type=\"lexical\" oneof>",
+                "    <emu-rhs>x y <del>z</del> <ins>w</ins></emu-rhs>",
+                "</emu-production>",
+                "<emu-production name=\"Initializer\" collapsed>",
+                "    <emu-rhs a=\"ff22916f\">",
+                "        <emu-t>=</emu-t>",
+                "        <del><emu-nt>Expression</emu-nt></del>",
+                "        <ins><emu-nt>Identifier</emu-nt></ins>",
+                "    </emu-rhs>",
+                "</emu-production>",
+                "<del><emu-production name=\"Expression\" collapsed>",
+                "    <emu-rhs a=\"06b6ace8\"><emu-nt>Identifier</emu-nt></emu-rhs>",
+                "</emu-production></del>"
+            ].join("\n"));
+        });
+
+        it("marks inserted and deleted alternatives and symbols in markdown", () => {
+            const { output, messages } = emitChanges(baseText, text, { format: EmitFormat.markdown });
+            assert.deepEqual(messages, []);
+            assert.strictEqual(output.replace(/\r\n/g, "\n"), [
+                "&emsp;&emsp;<a name=\"Statement\"></a>*Statement* **:**  ",
+                "&emsp;&emsp;&emsp;<a name=\"Statement-7d87cfd2\"></a>`` var ``&emsp;*[Identifier](#Identifier)*&emsp;<del>*[Initializer](#Initializer)*</del>&emsp;<ins>*[Initializer](#Initializer)*<sub>opt</sub></ins>&emsp;`` ; ``  ",
+                "&emsp;&emsp;&emsp;<del><a name=\"Statement-e1b2e868\"></a>`` do ``&emsp;*[Statement](#Statement)*&emsp;`` while ``&emsp;*[Expression](#Expression)*</del>  ",
+                "&emsp;&emsp;&emsp;<del><a name=\"Statement-4a0dac03\"></a>`` ; ``</del>  ",
+                "&emsp;&emsp;&emsp;<ins><a name=\"Statement-a553134d\"></a>`` while ``&emsp;*[Identifier](#Identifier)*&emsp;*[Statement](#Statement)*</ins>  ",
+                "  ",
+                "&emsp;&emsp;<a name=\"Identifier\"></a>*Identifier* **::** **one of** `` x ``&emsp;`` y ``&emsp;<del>`` z ``</del>&emsp;<ins>`` w ``</ins>  ",
+                "  ",
+                "&emsp;&emsp;<a name=\"Initializer\"></a>*Initializer* **:** <a name=\"Initializer-ff22916f\"></a>`` = ``&emsp;<del>*[Expression](#Expression)*</del>&emsp;<ins>*[Identifier](#Identifier)*</ins>  ",
+                "  ",
+                "&emsp;&emsp;<del><a name=\"Expression\"></a>*Expression* **:**</del> <del><a name=\"Expression-06b6ace8\"></a>*[Identifier](#Identifier)*</del>  ",
+                "  "
+            ].join("\n"));
+        });
+
+        it("marks renamed productions, changed parameters and added productions", () => {
+            const baseText = [
+                "C[Yield] : `c`",
+                "",
+                "D : `d`",
+                ""
+            ].join("\n");
+            const text = [
+                "C[Yield, Await] : `c`",
+                "",
+                "E : `d`",
+                "",
+                "F : `f`",
+                ""
+            ].join("\n");
+
+            assert.strictEqual(emitChanges(baseText, text, { format: EmitFormat.markdown }).output.replace(/\r\n/g, "\n"), [
+                "&emsp;&emsp;<a name=\"C\"></a>*C*<del><sub>[Yield]</sub></del><ins><sub>[Yield, Await]</sub></ins> **:** <a name=\"C-d594c144\"></a>`` c ``  ",
+                "  ",
+                "&emsp;&emsp;<a name=\"E\"></a><del>*D*</del><ins>*E*</ins> **:** <a name=\"E-f0f32729\"></a>`` d ``  ",
+                "  ",
+                "&emsp;&emsp;<ins><a name=\"F\"></a>*F* **:**</ins> <ins><a name=\"F-4068cae7\"></a>`` f ``</ins>  ",
+                "  "
+            ].join("\n"));
+            assert.strictEqual(emitChanges(baseText, text, { format: EmitFormat.ecmarkup }).output.replace(/\r\n/g, "\n"), [
+                "<del><emu-production name=\"C\" params=\"Yield\"></emu-production></del>",
+                "<emu-production name=\"C\" params=\"Yield, Await\" primary collapsed>",
+                "    <emu-rhs a=\"d594c144\"><emu-t>c</emu-t></emu-rhs>",
+                "</emu-production>",
+                "<del><emu-production name=\"D\"></emu-production></del>",
+                "<emu-production name=\"E\" collapsed>",
+                "    <emu-rhs a=\"f0f32729\"><emu-t>d</emu-t></emu-rhs>",
+                "</emu-production>",
+                "<ins><emu-production name=\"F\" collapsed>",
+                "    <emu-rhs a=\"4068cae7\"><emu-t>f</emu-t></emu-rhs>",
+                "</emu-production></ins>"
+            ].join("\n"));
+        });
+
+        it("emits the grammar unchanged once the changes are emitted", () => {
+            const { output, grammar } = emitChanges(baseText, text, { format: EmitFormat.ecmarkup });
+            assert.match(output, /<ins>/);
+            let unchanged: string;
+            grammar.emit(/*sourceFile*/ undefined, (_, _output) => unchanged = _output);
+            assert.notMatch(unchanged, /<ins>|<del>/);
+        });
+    });
+
     function defineTests() {
         for (const file of getGrammarFiles()) {
             defineTest(basename(file), file, ".md", EmitFormat.markdown);
             defineTest(basename(file), file, ".emu.html", EmitFormat.ecmarkup);
+            defineTest(basename(file), file, ".html", EmitFormat.html);
+            defineTest(basename(file), file, ".grammar", EmitFormat.grammarkdown);
+            defineTest(basename(file), file, ".svg", EmitFormat.railroad);
+            defineTest(basename(file), file, ".g4", EmitFormat.antlr4);
+            defineTest(basename(file), file, ".js", EmitFormat.treesitter);
+            defineTest(basename(file), file, ".ebnf", EmitFormat.ebnf);
+            defineTest(basename(file), file, ".pegjs", EmitFormat.peg);
+            defineTest(basename(file), file, ".y", EmitFormat.bison);
         }
     }
 
@@ -0,0 +1,84 @@
+import { Grammar } from "../lib/grammar";
+import { Host } from "../lib/host";
+import { SyntaxKind } from "../lib/tokens";
+import { Production } from "../lib/nodes";
+import { assert } from "chai";
+
+describe("ParameterExpander", () => {
+    const grammarText = [
+        "Script :",
+        "    StatementList[~Yield]?",
+        "",
+        "StatementList[Yield] :",
+        "    Statement[?Yield]",
+        "    StatementList[?Yield] Statement[?Yield]",
+        "",
+        "Statement[Yield] :",
+        "    [+Yield] `yield` Expression[+In]",
+        "    [~Yield] `var` Identifier",
+        "    Expression[In] `;`",
+        "    `do` Expression `;`",
+        "",
+        "Expression[In] :",
+        "    `x`",
+        "    [+In] Expression[?In] `in` `y`",
+        "",
+        "Unused[A] :",
+        "    `a`",
+        "",
+        "Identifier ::",
+        "    `i`",
+    ].join("\n");
+
+    function expand() {
+        const grammar = new Grammar(["expander.grammar"], {}, Host.getHost({ readFile(file) { return grammarText; } }));
+        grammar.check(/*sourceFile*/ undefined);
+        return grammar.expandParameters();
+    }
+
+    it("expands parametric productions", () => {
+        const sourceFiles = expand();
+        assert.strictEqual(sourceFiles.length, 1);
+        assert.strictEqual(sourceFiles[0].text, [
+            "Script :",
+            "    StatementList?",
+            "",
+            "StatementList :",
+            "    Statement",
+            "    StatementList Statement",
+            "",
+            "Statement :",
+            "    `var` Identifier",
+            "    Expression_In `;`",
+            "    `do` Expression `;`",
+            "",
+            "Expression :",
+            "    `x`",
+            "",
+            "Expression_In :",
+            "    `x`",
+            "    Expression_In `in` `y`",
+            "",
+            "Unused :",
+            "    `a`",
+            "",
+            "Unused_A :",
+            "    `a`",
+            "",
+            "Identifier ::",
+            "    `i`",
+        ].join("\n"));
+    });
+
+    it("produces source files that check without errors", () => {
+        const sourceFiles = expand();
+        const names = sourceFiles[0].elements
+            .filter(element => element.kind === SyntaxKind.Production)
+            .map(element => (<Production>element).name.text);
+        assert.deepEqual(names, ["Script", "StatementList", "Statement", "Expression", "Expression_In", "Unused", "Unused_A", "Identifier"]);
+
+        const grammar = new Grammar(["expander.grammar"], {}, Host.getHost({ readFile(file) { return sourceFiles[0].text; } }));
+        grammar.check(/*sourceFile*/ undefined);
+        assert.strictEqual(grammar.diagnostics.count(), 0);
+    });
+});
@@ -0,0 +1,129 @@
+import { Grammar } from "../lib/grammar";
+import { Host } from "../lib/host";
+import { assert } from "chai";
+
+describe("Generator", () => {
+    const grammarText = [
+        "Script :",
+        "    StatementList?",
+        "",
+        "StatementList :",
+        "    Statement",
+        "    StatementList Statement",
+        "",
+        "Statement :",
+        "    `var` Identifier `=` Expression[+In] `;`",
+        "    Expression[+In] [no LineTerminator here] `++` `;`",
+        "    [lookahead != `{`] Expression[+In] `;`",
+        "    `{` StatementList? `}`",
+        "",
+        "Expression[In] :",
+        "    Primary",
+        "    [+In] Expression[+In] `in` Primary",
+        "    Expression[?In] `+` Primary",
+        "",
+        "Primary :",
+        "    Identifier",
+        "    Number",
+        "    `{` `}`",
+        "",
+        "Identifier :",
+        "    IdentifierName but not Keyword",
+        "",
+        "IdentifierName ::",
+        "    IdentifierStart",
+        "    IdentifierName IdentifierPart",
+        "",
+        "IdentifierStart ::",
+        "    > any Unicode code point with the Unicode property \"ID_Start\"",
+        "",
+        "IdentifierPart ::",
+        "    IdentifierStart",
+        "    Digit",
+        "",
+        "Keyword :: one of",
+        "    `var` `in`",
+        "",
+        "Number ::",
+        "    Digit Number?",
+        "",
+        "Digit ::",
+        "    SourceCharacter but not one of U+0000 through U+002F or U+003A through U+FFFF",
+        "",
+        "LineTerminator ::",
+        "    <LF>",
+        "    <CR>",
+        "",
+        "SourceCharacter ::",
+        "    > any Unicode code point",
+        "",
+        "Greeting :",
+        "    `hello` Name",
+        "",
+        "Name ::",
+        "    > a name",
+        ""
+    ].join("\n");
+
+    function getGrammar() {
+        const grammar = new Grammar(["generator.grammar"], {}, Host.getHost({ readFile(file) { return grammarText; } }));
+        grammar.check(/*sourceFile*/ undefined);
+        return grammar;
+    }
+
+    it("generates sentences that parse from the goal", () => {
+        const grammar = getGrammar();
+        const generator = grammar.createGenerator("Script", { seed: 1 });
+        const interpreter = grammar.createInterpreter("Script");
+        for (let i = 0; i < 50; i++) {
+            const text = generator.generate();
+            assert.isUndefined(interpreter.parse(text).error, text);
+        }
+    });
+
+    it("generates the same sentences from the same seed", () => {
+        const grammar = getGrammar();
+        const first = grammar.createGenerator("Script", { seed: 42 });
+        const second = grammar.createGenerator("Script", { seed: 42 });
+        for (let i = 0; i < 10; i++) {
+            assert.strictEqual(first.generate(), second.generate());
+        }
+    });
+
+    it("generates with the arguments of a parametric goal", () => {
+        const grammar = getGrammar();
+        const withIn = grammar.createGenerator("Expression", { seed: 1, args: ["In"] });
+        const withoutIn = grammar.createGenerator("Expression", { seed: 1 });
+        let found = false;
+        for (let i = 0; i < 50; i++) {
+            found = found || withIn.generate().split(" ").indexOf("in") >= 0;
+            assert.notInclude(withoutIn.generate().split(" "), "in");
+        }
+
+        assert.isTrue(found);
+    });
+
+    it("takes the shortest derivation at its bounds", () => {
+        const grammar = getGrammar();
+        const generator = grammar.createGenerator("Number", { seed: 1, maxDepth: 0 });
+        const digit = grammar.createInterpreter("Digit");
+        for (let i = 0; i < 10; i++) {
+            assert.isUndefined(digit.parse(generator.generate()).error);
+        }
+
+        const statements = grammar.createGenerator("StatementList", { seed: 1, maxLength: 0 });
+        const interpreter = grammar.createInterpreter("Statement");
+        assert.isUndefined(interpreter.parse(statements.generate()).error);
+    });
+
+    it("generates prose with a generator", () => {
+        const grammar = getGrammar();
+        const generator = grammar.createGenerator("Greeting", { prose: { "a name": random => random() < 0.5 ? "world" : "there" } });
+        assert.match(generator.generate(), /^hello (world|there)$/);
+        assert.throws(() => grammar.createGenerator("Greeting").generate(), "Production 'Greeting' has no derivation that can be generated.");
+    });
+
+    it("throws for an unknown goal", () => {
+        assert.throws(() => getGrammar().createGenerator("Unknown"), "Production 'Unknown' not found.");
+    });
+});
@@ -0,0 +1,127 @@
+import { Grammar } from "../lib/grammar";
+import { Host } from "../lib/host";
+import { GrammarChange, diffGrammars } from "../lib/grammardiff";
+import { assert } from "chai";
+
+describe("Grammar diff", () => {
+    const oldText = [
+        "Script :",
+        "    StatementList?",
+        "",
+        "StatementList :",
+        "    Statement",
+        "    StatementList Statement",
+        "",
+        "Statement :",
+        "    `var` Identifier Initializer `;`",
+        "    `return` Expression `;`",
+        "    `do` Statement `while` `(` Expression `)`",
+        "    Expression `;`",
+        "",
+        "Initializer :",
+        "    `=` Expression",
+        "",
+        "Expression :",
+        "    Identifier",
+        "    Identifier `+` Expression",
+        "",
+        "Identifier :: one of `x` `y` `z`",
+        ""
+    ].join("\n");
+
+    function getGrammar(file: string, text: string) {
+        return new Grammar([file], {}, Host.getHost({ readFile(file) { return text; } }));
+    }
+
+    function formatChanges(changes: GrammarChange[]) {
+        return changes.map(change => `${change.effect}: ${change.message}`);
+    }
+
+    it("reports no changes for the same productions in another order and format", () => {
+        const newText = [
+            "Identifier :: one of `z` `y` `x`",
+            "",
+            "Expression : Identifier",
+            "Expression : Identifier `+` Expression",
+            "",
+            oldText.substring(0, oldText.indexOf("Expression :"))
+        ].join("\n");
+
+        assert.deepEqual(diffGrammars(getGrammar("old.grammar", oldText), getGrammar("new.grammar", newText)), []);
+    });
+
+    it("reports changes to alternatives and productions", () => {
+        const newText = oldText
+            .replace("`var` Identifier Initializer `;`", "`var` Identifier Initializer? `;`")
+            .replace("`return` Expression `;`", "`return` [no LineTerminator here] Expression `;`")
+            .replace("    `do` Statement `while` `(` Expression `)`\n", "")
+            .replace("    Expression `;`", "    `while` `(` Expression `)` Statement\n    [lookahead != `{`] Expression `;`\n    `for` `(` `;` `;` `)` Statement")
+            .replace("Identifier `+` Expression", "Identifier `+` Expression\n    Identifier `-` Expression")
+            .replace("Initializer :\n    `=` Expression\n", "")
+            .replace("`z`", "`w`")
+            + "\nLineTerminator :: `\\n`\n";
+
+        const changes = diffGrammars(getGrammar("old.grammar", oldText), getGrammar("new.grammar", newText));
+        assert.deepEqual(formatChanges(changes), [
+            "widening: Changed alternative '`var` Identifier Initializer `;`' of 'Statement' to '`var` Identifier Initializer? `;`'.",
+            "narrowing: Changed alternative '`return` Expression `;`' of 'Statement' to '`return` [no LineTerminator here] Expression `;`'.",
+            "unknown: Changed alternative '`do` Statement `while` `(` Expression `)`' of 'Statement' to '`while` `(` Expression `)` Statement'.",
+            "narrowing: Changed alternative 'Expression `;`' of 'Statement' to '[lookahead != `{`] Expression `;`'.",
+            "widening: Added alternative '`for` `(` `;` `;` `)` Statement' to 'Statement'.",
+            "widening: Added alternative 'Identifier `-` Expression' to 'Expression'.",
+            "narrowing: Removed alternative '`z`' from 'Identifier'.",
+            "widening: Added alternative '`w`' to 'Identifier'.",
+            "neutral: Added production 'LineTerminator'.",
+            "neutral: Removed production 'Initializer'."
+        ]);
+
+        const symbols = changes[1].symbols.map(symbol => `${symbol.kind} ${symbol.effect}`);
+        assert.deepEqual(symbols, ["unchanged neutral", "inserted narrowing", "unchanged neutral", "unchanged neutral"]);
+    });
+
+    it("reports a symbol that is made optional as a changed alternative", () => {
+        const changes = diffGrammars(getGrammar("old.grammar", "B : `b`\n"), getGrammar("new.grammar", "B : `b`?\n"));
+        assert.deepEqual(formatChanges(changes), [
+            "widening: Changed alternative '`b`' of 'B' to '`b`?'."
+        ]);
+        assert.deepEqual(changes[0].symbols.map(symbol => `${symbol.kind} ${symbol.effect}`), ["changed widening"]);
+    });
+
+    it("reports a renamed production, and matches references to it under the new name", () => {
+        const newText = oldText.replace(/StatementList/g, "Statements");
+        const changes = diffGrammars(getGrammar("old.grammar", oldText), getGrammar("new.grammar", newText));
+        assert.deepEqual(formatChanges(changes), [
+            "neutral: Renamed production 'StatementList' to 'Statements'."
+        ]);
+    });
+
+    it("places a removed alternative or production next to the nearest one that remains", () => {
+        const newText = oldText
+            .replace("    `do` Statement `while` `(` Expression `)`\n", "")
+            .replace("Initializer :\n    `=` Expression\n", "");
+
+        const newGrammar = getGrammar("new.grammar", newText);
+        const changes = diffGrammars(getGrammar("old.grammar", oldText), newGrammar);
+        const text = newGrammar.rootFiles[0].text;
+        const getText = (node: { pos: number, end: number }) => node && text.substring(node.pos, node.end).trim();
+        assert.deepEqual(changes.map(change => [change.kind, getText(change.nextNode), getText(change.previousNode)]), [
+            ["alternativeRemoved", "Expression `;`", undefined],
+            ["productionRemoved", "Expression :\n    Identifier\n    Identifier `+` Expression", undefined]
+        ]);
+    });
+
+    it("reports changes to parameters", () => {
+        const newText = oldText
+            .replace("Expression :", "Expression[In] :")
+            .replace("`+` Expression", "`+` Expression[?In]")
+            .replace(/(`return`|`\(`|`=`|^   ) Expression /gm, "$1 Expression[+In] ");
+
+        const oldGrammar = getGrammar("old.grammar", oldText);
+        const newGrammar = getGrammar("new.grammar", newText);
+        const changes = diffGrammars(oldGrammar, newGrammar);
+        assert.deepEqual(formatChanges(changes).filter(change => /parameters/.test(change)), [
+            "unknown: Changed the parameters of 'Expression' from none to [In]."
+        ]);
+        assert.isTrue(changes.filter(change => change.kind === "alternativeChanged").every(change => change.effect === "unknown"));
+    });
+});
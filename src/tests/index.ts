@@ -18,6 +18,15 @@ install();
 
 import "./scanner-tests";
 import "./parser-tests";
+import "./serializer-tests";
 import "./navigator-tests";
 import "./checker-tests";
+import "./analyzer-tests";
+import "./expander-tests";
+import "./interpreter-tests";
+import "./generator-tests";
+import "./coverage-tests";
+import "./grammardiff-tests";
+import "./converter-tests";
+import "./services-tests";
 import "./emitter-tests";
@@ -0,0 +1,136 @@
+import { Grammar } from "../lib/grammar";
+import { Host } from "../lib/host";
+import { ParseNode } from "../lib/interpreter";
+import { assert } from "chai";
+
+describe("Interpreter", () => {
+    const grammarText = [
+        "Script :",
+        "    StatementList?",
+        "",
+        "StatementList :",
+        "    Statement",
+        "    StatementList Statement",
+        "",
+        "Statement :",
+        "    `var` Identifier `=` Expression[+In] `;`",
+        "    Expression[+In] [no LineTerminator here] `++` `;`",
+        "    [lookahead != `{`] Expression[+In] `;`",
+        "    `{` StatementList? `}`",
+        "",
+        "Expression[In] :",
+        "    Primary",
+        "    [+In] Expression[+In] `in` Primary",
+        "    Expression[?In] `+` Primary",
+        "",
+        "Primary :",
+        "    Identifier",
+        "    Number",
+        "    `{` `}`",
+        "",
+        "Identifier :",
+        "    IdentifierName but not Keyword",
+        "",
+        "IdentifierName ::",
+        "    IdentifierStart",
+        "    IdentifierName IdentifierPart",
+        "",
+        "IdentifierStart ::",
+        "    > any Unicode code point with the Unicode property \"ID_Start\"",
+        "",
+        "IdentifierPart ::",
+        "    IdentifierStart",
+        "    Digit",
+        "",
+        "Keyword :: one of",
+        "    `var` `in`",
+        "",
+        "Number ::",
+        "    Digit Number?",
+        "",
+        "Digit ::",
+        "    SourceCharacter but not one of U+0000 through U+002F or U+003A through U+FFFF",
+        "",
+        "LineTerminator ::",
+        "    <LF>",
+        "    <CR>",
+        "",
+        "SourceCharacter ::",
+        "    > any Unicode code point",
+        ""
+    ].join("\n");
+
+    function getGrammar() {
+        const grammar = new Grammar(["interpreter.grammar"], {}, Host.getHost({ readFile(file) { return grammarText; } }));
+        grammar.check(/*sourceFile*/ undefined);
+        return grammar;
+    }
+
+    function getTree(node: ParseNode): any {
+        return node.name === undefined ? node.text
+            : node.text !== undefined ? `${node.name}(${node.text})`
+            : { [node.name]: node.children.map(getTree) };
+    }
+
+    it("parses text from a goal", () => {
+        const interpreter = getGrammar().createInterpreter("Script");
+        const result = interpreter.parse("var x = a in b + 12;");
+        assert.isUndefined(result.error);
+        assert.deepEqual(getTree(result.tree), {
+            Script: [{
+                StatementList: [{
+                    Statement: [
+                        "var",
+                        { Identifier: ["IdentifierName(x)"] },
+                        "=",
+                        {
+                            Expression: [
+                                {
+                                    Expression: [
+                                        { Expression: [{ Primary: [{ Identifier: ["IdentifierName(a)"] }] }] },
+                                        "in",
+                                        { Primary: [{ Identifier: ["IdentifierName(b)"] }] }
+                                    ]
+                                },
+                                "+",
+                                { Primary: ["Number(12)"] }
+                            ]
+                        },
+                        ";"
+                    ]
+                }]
+            }]
+        });
+    });
+
+    it("parses with a lexical goal", () => {
+        const interpreter = getGrammar().createInterpreter("Number");
+        assert.strictEqual(interpreter.parse("123").tree.end, 3);
+        assert.isDefined(interpreter.parse("12a").error);
+    });
+
+    it("supports exclusions, lookahead, and line terminator restrictions", () => {
+        const interpreter = getGrammar().createInterpreter("Script");
+        assert.isUndefined(interpreter.parse("café ++;").error);
+        assert.isUndefined(interpreter.parse("{ x; }").error);
+        assert.isUndefined(interpreter.parse("varx + 1;").error);
+        assert.isDefined(interpreter.parse("var var = 1;").error);
+        assert.isDefined(interpreter.parse("x\n++;").error);
+    });
+
+    it("reports the position of an error", () => {
+        const interpreter = getGrammar().createInterpreter("Script");
+        const error = interpreter.parse("var x = 1;\nvar y = ;").error;
+        assert.deepEqual(error, {
+            pos: 19,
+            line: 1,
+            character: 8,
+            message: "Unexpected ';'.",
+            expected: ["Number", "`{`", "IdentifierName"]
+        });
+    });
+
+    it("throws for an unknown goal", () => {
+        assert.throws(() => getGrammar().createInterpreter("Unknown"), "Production 'Unknown' not found.");
+    });
+});
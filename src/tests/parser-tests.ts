@@ -2,8 +2,8 @@ import { readFileSync } from "fs";
 import { basename } from "path";
 import { DiagnosticMessages, LineMap } from "../lib/diagnostics";
 import { SyntaxKind } from "../lib/tokens";
-import { SourceFile } from "../lib/nodes";
-import { Parser } from "../lib/parser";
+import { Node, SourceFile, forEachChild } from "../lib/nodes";
+import { Parser, TextChange } from "../lib/parser";
 import { getGrammarFiles } from "./resources";
 import { writeNodes, writeDiagnostics, compareBaseline } from "./diff";
 import { CancellationTokenSource } from "prex";
@@ -19,6 +19,72 @@ describe("Parser", () => {
         assert.throws(() => parser.parseSourceFile("cancelable.grammar", ""));
     });
 
+    describe("updateSourceFile", () => {
+        const text = [
+            "A :",
+            "    B",
+            "",
+            "B :",
+            "    `b`",
+            "    `c`",
+            "",
+            "C :",
+            "    `c`",
+            ""
+        ].join("\r\n");
+
+        function parse(text: string) {
+            return new Parser(new DiagnosticMessages()).parseSourceFile("update.grammar", text);
+        }
+
+        function update(sourceFile: SourceFile, line: number, character: number, length: number, newText: string) {
+            const range = { start: { line, character }, end: { line, character: character + length } };
+            return new Parser(new DiagnosticMessages()).updateSourceFile(sourceFile, TextChange.create(newText, range));
+        }
+
+        function getShape(node: Node): any[] {
+            const children: any[] = [];
+            forEachChild(node, child => { children.push(getShape(child)); });
+            return [SyntaxKind[node.kind], node.pos, node.end, (<any>node).text, children];
+        }
+
+        it("reuses elements before the change and shifts elements after it", () => {
+            const sourceFile = parse(text);
+            const updated = update(sourceFile, 5, 5, 1, "cd");
+            assert.strictEqual(updated.elements[0], sourceFile.elements[0]);
+            assert.notStrictEqual(updated.elements[2], sourceFile.elements[2]);
+            assert.strictEqual(updated.elements[2].pos, sourceFile.elements[2].pos + 1);
+            assert.notEqual(updated.elements[2].id, sourceFile.elements[2].id);
+            assert.deepEqual(getShape(updated), getShape(parse(updated.text)));
+        });
+
+        it("matches a full parse", () => {
+            const sourceFile = parse(text);
+            const changes: [number, number, number, string][] = [
+                [1, 4, 1, "C"],
+                [2, 0, 0, "    `a`"],
+                [3, 0, 0, "X"],
+                [4, 0, 4, ""],
+                [6, 0, 2, "D :\r\n    `d`\r\n\r\n"],
+                [7, 3, 0, " /*"],
+                [8, 5, 0, "\r\n"]
+            ];
+            for (const [line, character, length, newText] of changes) {
+                const updated = update(sourceFile, line, character, length, newText);
+                assert.deepEqual(getShape(updated), getShape(parse(updated.text)), JSON.stringify(newText));
+            }
+        });
+
+        it("parses elements with syntax errors again", () => {
+            const diagnostics = new DiagnosticMessages();
+            const sourceFile = parse(text.replace("`c`\r\n\r\nC", "`c\r\n\r\nC"));
+            assert.strictEqual(sourceFile.elementsWithErrors.length, 1);
+            const updated = new Parser(diagnostics).updateSourceFile(sourceFile, TextChange.create("x", { start: { line: 8, character: 4 }, end: { line: 8, character: 4 } }));
+            assert.notStrictEqual(updated.elements[1], sourceFile.elements[1]);
+            assert.strictEqual(diagnostics.count(), 1);
+        });
+    });
+
     function defineTests() {
         for (let file of getGrammarFiles()) {
             defineTest(basename(file), file);
@@ -0,0 +1,90 @@
+import { readFileSync } from "fs";
+import { basename } from "path";
+import { DiagnosticMessages } from "../lib/diagnostics";
+import { SyntaxKind } from "../lib/tokens";
+import { Node, SourceFile, Production, RightHandSide, Terminal, forEachChild } from "../lib/nodes";
+import { Parser } from "../lib/parser";
+import { serializeSourceFile, deserializeSourceFile, deserializeNode } from "../lib/serializer";
+import { getGrammarFiles } from "./resources";
+import { assert } from "chai";
+
+describe("Serializer", () => {
+    defineTests();
+
+    function parse(filename: string, text: string) {
+        return new Parser(new DiagnosticMessages()).parseSourceFile(filename, text);
+    }
+
+    function getShape(node: Node): any[] {
+        const children: any[] = [];
+        forEachChild(node, child => { children.push(getShape(child)); });
+        return [SyntaxKind[node.kind], node.pos, node.end, (<any>node).text, Object.getPrototypeOf(node).constructor.name, children];
+    }
+
+    it("serializes kinds, positions, text and edges", () => {
+        const sourceFile = parse("serializer.grammar", "A : `a`?");
+        assert.deepEqual(serializeSourceFile(sourceFile), {
+            kind: "SourceFile",
+            pos: 0,
+            end: 8,
+            filename: "serializer.grammar",
+            text: "A : `a`?",
+            elements: [{
+                kind: "Production",
+                pos: 0,
+                end: 8,
+                name: { kind: "Identifier", pos: 0, end: 1, text: "A" },
+                colonToken: { kind: "ColonToken", pos: 2, end: 3 },
+                body: {
+                    kind: "RightHandSide",
+                    pos: 4,
+                    end: 8,
+                    head: {
+                        kind: "SymbolSpan",
+                        pos: 4,
+                        end: 8,
+                        symbol: {
+                            kind: "Terminal",
+                            pos: 4,
+                            end: 8,
+                            text: "a",
+                            questionToken: { kind: "QuestionToken", pos: 7, end: 8 }
+                        }
+                    }
+                }
+            }]
+        });
+    });
+
+    it("deserializes nodes of their node class", () => {
+        const sourceFile = deserializeSourceFile(JSON.stringify(serializeSourceFile(parse("serializer.grammar", "@import \"b.grammar\"\r\nA : `a`?"))));
+        const production = <Production>sourceFile.elements[1];
+        assert.instanceOf(sourceFile, SourceFile);
+        assert.instanceOf(production, Production);
+        assert.instanceOf((<RightHandSide>production.body).head.symbol, Terminal);
+        assert.notEqual(production.id, undefined);
+        assert.deepEqual(sourceFile.imports, ["b.grammar"]);
+        assert.strictEqual(sourceFile.lineMap.formatOffset(production.pos), "2,1");
+    });
+
+    it("rejects an unknown kind", () => {
+        assert.throws(() => deserializeNode({ kind: "Unknown Kind", pos: 0, end: 0 }), "Invalid node kind 'Unknown Kind'.");
+        assert.throws(() => deserializeSourceFile({ kind: "Production", pos: 0, end: 0, filename: "a.grammar", text: "", elements: [] }), "Invalid source file");
+    });
+
+    function defineTests() {
+        for (const file of getGrammarFiles()) {
+            defineTest(basename(file), file);
+        }
+    }
+
+    function defineTest(name: string, file: string) {
+        it(`${name} round trip`, () => {
+            const sourceFile = parse(file, readFileSync(file, "utf8"));
+            const json = JSON.stringify(serializeSourceFile(sourceFile));
+            const deserialized = deserializeSourceFile(json);
+            assert.deepEqual(getShape(deserialized), getShape(sourceFile));
+            assert.strictEqual(JSON.stringify(serializeSourceFile(deserialized)), json);
+        });
+    }
+});
@@ -0,0 +1,102 @@
+import { basename, resolve } from "path";
+import { Host } from "../lib/host";
+import { SymbolKind } from "../lib/symbols";
+import { LanguageService } from "../lib/services";
+import { assert } from "chai";
+
+describe("LanguageService", () => {
+    const mainFile = "file:///main.grammar";
+    const libFile = "file:///lib.grammar";
+    const mainText = [
+        "@import \"./lib.grammar\"",
+        "",
+        "Statement[Yield] :",
+        "    Expression[?Yield] `;`",
+        "    [+Yield] `yield` Unknown",
+        ""
+    ].join("\n");
+    const libText = [
+        "Expression[Yield] :",
+        "    `x`",
+        ""
+    ].join("\n");
+
+    function getService() {
+        const service = new LanguageService(/*options*/ undefined, Host.getHost({ readFile(file) { return undefined; } }));
+        service.openDocument(libFile, libText);
+        service.openDocument(mainFile, mainText);
+        return service;
+    }
+
+    it("diagnostics", () => {
+        const service = getService();
+        const diagnostics = service.getDiagnostics(mainFile);
+        assert.deepEqual(diagnostics.map(diagnostic => diagnostic.formattedMessage), ["Cannot find name: 'Unknown'."]);
+        assert.deepEqual(diagnostics[0].range, { start: { line: 4, character: 21 }, end: { line: 4, character: 28 } });
+        assert.deepEqual(service.getDiagnostics(libFile), []);
+    });
+
+    it("imports a file that is not open", () => {
+        const service = new LanguageService();
+        const file = resolve(__dirname, "../../spec/main.grammar");
+        service.openDocument(file, "@import \"./es6.grammar\"\n\nModuleOrScript :\n    Script\n");
+        assert.deepEqual(service.getDiagnostics(file), []);
+        assert.deepEqual(service.getDefinition(file, { line: 3, character: 6 }).map(location => basename(location.file)), ["es6.grammar"]);
+    });
+
+    it("hover", () => {
+        const hover = getService().getHover(mainFile, { line: 3, character: 6 });
+        assert.deepEqual(hover, {
+            range: { start: { line: 3, character: 4 }, end: { line: 3, character: 14 } },
+            text: "Expression[Yield] :\n    `x`"
+        });
+    });
+
+    it("definition in an imported file", () => {
+        const definitions = getService().getDefinition(mainFile, { line: 3, character: 14 });
+        assert.deepEqual(definitions, [
+            { file: libFile, range: { start: { line: 0, character: 0 }, end: { line: 0, character: 10 } } }
+        ]);
+    });
+
+    it("references to a parameter", () => {
+        const service = getService();
+        const references = service.getReferences(mainFile, { line: 2, character: 12 });
+        assert.deepEqual(references.map(reference => reference.range.start), [
+            { line: 2, character: 10 },
+            { line: 3, character: 16 },
+            { line: 4, character: 6 }
+        ]);
+        assert.strictEqual(service.getReferences(mainFile, { line: 2, character: 12 }, /*includeDeclaration*/ false).length, 2);
+    });
+
+    it("document symbols", () => {
+        const symbols = getService().getDocumentSymbols(mainFile);
+        assert.deepEqual(symbols.map(symbol => [symbol.name, SymbolKind[symbol.kind], symbol.containerName]), [
+            ["Statement", "Production", undefined],
+            ["Yield", "Parameter", "Statement"]
+        ]);
+        assert.deepEqual(symbols[0].location.range, { start: { line: 2, character: 0 }, end: { line: 4, character: 28 } });
+    });
+
+    it("completion", () => {
+        const service = getService();
+        assert.deepEqual(service.getCompletions(mainFile, { line: 4, character: 21 }).map(entry => entry.name).sort(), ["Expression", "Statement"]);
+        assert.deepEqual(service.getCompletions(mainFile, { line: 3, character: 16 }).map(entry => [entry.name, entry.detail]), [["Yield", "Expression[Yield]"]]);
+        assert.deepEqual(service.getCompletions(mainFile, { line: 4, character: 6 }).map(entry => [entry.name, entry.detail]), [["Yield", "Statement[Yield]"]]);
+    });
+
+    it("rename", () => {
+        const changes = getService().getRenameChanges(mainFile, { line: 3, character: 6 }, "Expr");
+        assert.deepEqual(changes.map(file => [file.file, file.changes.length]), [[mainFile, 1], [libFile, 1]]);
+        assert.deepEqual(changes[0].changes[0], { range: { start: { line: 3, character: 4 }, end: { line: 3, character: 14 } }, text: "Expr" });
+    });
+
+    it("updates documents", () => {
+        const service = getService();
+        service.updateDocument(mainFile, mainText.replace("Unknown", "Expression[~Yield]"));
+        assert.deepEqual(service.getDiagnostics(mainFile), []);
+        service.closeDocument(mainFile);
+        assert.deepEqual(service.getOpenDocuments(), [libFile]);
+    });
+});